@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef } from 'react';
 import { supabase } from '../lib/supabase';
-import { ShipmentsTab } from './ShipmentsTab';
+import { ShipmentsTab, type ShipmentFocus } from './ShipmentsTab';
 import { OperatorsTab } from './OperatorsTab';
 import { SettingsTab } from './SettingsTab';
 import { UsersTab, type Permission } from './UsersTab';
@@ -10,19 +10,23 @@ import { LiveAudioTab } from './LiveAudioTab';
 import { BackupRestoreTab } from './BackupRestoreTab';
 import { AuditLogTab } from './AuditLogTab';
 import { KPIDashboard } from './KPIDashboard';
-import { DeviationsTab } from './DeviationsTab';
+import { DeviationsTab, type DeviationFocus } from './DeviationsTab';
 import { PackageSearch } from './PackageSearch';
 import { PackageDetailsModal } from './PackageDetailsModal';
+import { GlobalSearch } from './GlobalSearch';
 import { WarehouseReportTab } from './WarehouseReportTab';
 import { BulkImportTab } from './BulkImportTab';
 import { PackageHistoryTab } from './PackageHistoryTab';
+import { DockScheduleTab } from './DockScheduleTab';
+import { StorageLocationsTab } from './StorageLocationsTab';
+import type { SearchResult } from '../services/searchService';
 import {
   Package, Users, Settings, LogOut, Monitor, Shield, UserCog, Bell,
   Volume2, Radio, Database, History, TrendingUp, ChevronDown,
-  BarChart3, MessageSquare, Cog, AlertTriangle, Search, X, Warehouse, Upload, Clock, type LucideIcon
+  BarChart3, MessageSquare, Cog, AlertTriangle, Search, X, Warehouse, Upload, Clock, DoorOpen, MapPin, type LucideIcon
 } from 'lucide-react';
 
-type Tab = 'shipments' | 'packages' | 'deviations' | 'operators' | 'announcements' | 'live_audio' | 'notifications' | 'audit' | 'kpi' | 'warehouse' | 'settings' | 'users' | 'backup' | 'bulk_import' | 'package_history';
+type Tab = 'shipments' | 'packages' | 'deviations' | 'operators' | 'announcements' | 'live_audio' | 'notifications' | 'audit' | 'kpi' | 'warehouse' | 'settings' | 'users' | 'backup' | 'bulk_import' | 'package_history' | 'dock_schedule' | 'storage_locations';
 
 type UserProfile = {
   role: 'super_admin' | 'admin' | 'operator';
@@ -54,6 +58,8 @@ export function AdminPanel() {
   const [openDropdown, setOpenDropdown] = useState<string | null>(null);
   const [selectedPackage, setSelectedPackage] = useState<any>(null);
   const [showSearchModal, setShowSearchModal] = useState(false);
+  const [shipmentFocus, setShipmentFocus] = useState<ShipmentFocus | null>(null);
+  const [deviationFocus, setDeviationFocus] = useState<DeviationFocus | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -157,6 +163,20 @@ export function AdminPanel() {
           permission: 'shipments',
           description: 'Search and view package details'
         },
+        {
+          id: 'dock_schedule',
+          label: 'Dock Schedule',
+          icon: DoorOpen,
+          permission: 'shipments',
+          description: 'Book shipments into dock doors and slots'
+        },
+        {
+          id: 'storage_locations',
+          label: 'Storage Locations',
+          icon: MapPin,
+          permission: 'shipments',
+          description: 'Manage zones, aisles, bays and capacity'
+        },
         {
           id: 'deviations',
           label: 'Deviations',
@@ -299,6 +319,30 @@ export function AdminPanel() {
   const handleTabClick = (tabId: Tab) => {
     setActiveTab(tabId);
     setOpenDropdown(null);
+    setShipmentFocus(null);
+    setDeviationFocus(null);
+  };
+
+  const handleSearchSelect = (result: SearchResult) => {
+    setShowSearchModal(false);
+
+    switch (result.result_type) {
+      case 'shipment':
+        setShipmentFocus({ shipmentId: result.result_id });
+        setActiveTab('shipments');
+        break;
+      case 'vehicle':
+        setShipmentFocus({ search: result.result_id });
+        setActiveTab('shipments');
+        break;
+      case 'deviation':
+        setDeviationFocus({ deviationId: result.result_id });
+        setActiveTab('deviations');
+        break;
+      case 'package':
+        setSelectedPackage({ id: result.result_id, sscc_number: result.title });
+        break;
+    }
   };
 
   const toggleDropdown = (groupId: string, directTab?: Tab, event?: React.MouseEvent) => {
@@ -420,7 +464,7 @@ export function AdminPanel() {
                 <button
                   onClick={() => setShowSearchModal(true)}
                   className="px-4 py-2 bg-white text-slate-700 rounded-lg hover:bg-slate-50 border border-slate-200 flex items-center gap-2 text-sm font-medium transition-colors"
-                  title="Search Packages"
+                  title="Search shipments, packages, deviations and vehicles"
                 >
                   <Search className="w-4 h-4" />
                   <span className="hidden lg:inline">Search</span>
@@ -481,11 +525,13 @@ export function AdminPanel() {
         ) : (
           <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
             <div className="p-6">
-              {activeTab === 'shipments' && hasPermission('shipments') && <ShipmentsTab />}
+              {activeTab === 'shipments' && hasPermission('shipments') && <ShipmentsTab focus={shipmentFocus} />}
               {activeTab === 'packages' && hasPermission('shipments') && (
                 <PackageSearch onSelectPackage={setSelectedPackage} />
               )}
-              {activeTab === 'deviations' && hasPermission('shipments') && <DeviationsTab />}
+              {activeTab === 'deviations' && hasPermission('shipments') && <DeviationsTab focus={deviationFocus} />}
+              {activeTab === 'dock_schedule' && hasPermission('shipments') && <DockScheduleTab />}
+              {activeTab === 'storage_locations' && hasPermission('shipments') && <StorageLocationsTab />}
               {activeTab === 'operators' && hasPermission('operators') && <OperatorsTab />}
               {activeTab === 'kpi' && hasPermission('kpi') && <KPIDashboard />}
               {activeTab === 'warehouse' && hasPermission('shipments') && <WarehouseReportTab />}
@@ -514,7 +560,7 @@ export function AdminPanel() {
         <div className="fixed inset-0 bg-black/50 flex items-start justify-center z-50 p-4 overflow-y-auto">
           <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl mt-20 mb-8">
             <div className="flex items-center justify-between p-4 border-b border-slate-200">
-              <h2 className="text-lg font-semibold text-slate-900">Search Packages</h2>
+              <h2 className="text-lg font-semibold text-slate-900">Search</h2>
               <button
                 onClick={() => setShowSearchModal(false)}
                 className="text-slate-400 hover:text-slate-600 transition-colors"
@@ -523,10 +569,7 @@ export function AdminPanel() {
               </button>
             </div>
             <div className="p-4">
-              <PackageSearch onSelectPackage={(pkg) => {
-                setSelectedPackage(pkg);
-                setShowSearchModal(false);
-              }} />
+              <GlobalSearch onSelect={handleSearchSelect} />
             </div>
           </div>
         </div>
@@ -1,35 +1,117 @@
 import { useState, useEffect } from 'react';
-import { auditService, AuditLogEntry } from '../services/auditService';
-import { Clock, User, FileText, Filter, Search, ChevronDown, ChevronRight, History } from 'lucide-react';
+import {
+  auditService,
+  AuditChainVerification,
+  AuditEntityType,
+  AuditTrailCursor,
+  AuditTrailEntry,
+  AuditTrailFilters,
+  AUDIT_CHAIN_BREAK_LABELS,
+  AUDIT_CHAIN_TABLES,
+  AUDIT_ENTITY_LABELS
+} from '../services/auditService';
+import { AuditReportPanel } from './AuditReportPanel';
+import { ShipmentRevertModal } from './ShipmentRevertModal';
+import { addWarehouseDays, fromWarehouseInputValue } from '../utils/dateTime';
+import { Clock, User, FileText, Filter, Search, ChevronDown, ChevronRight, History, Download, Package, ShieldCheck, ShieldAlert, RotateCcw } from 'lucide-react';
+
+const PAGE_SIZE = 100;
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// Registers auditDiagnostics on window for console checks of the hash chain
+if (import.meta.env.DEV) {
+  import('../utils/auditDiagnostics');
+}
 
 export function AuditLogTab() {
-  const [auditLogs, setAuditLogs] = useState<AuditLogEntry[]>([]);
+  const [auditLogs, setAuditLogs] = useState<AuditTrailEntry[]>([]);
+  const [actors, setActors] = useState<{ id: string; email: string }[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<AuditTrailCursor | null>(null);
   const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [filterEntity, setFilterEntity] = useState<AuditEntityType | 'all'>('all');
+  const [filterActor, setFilterActor] = useState<string>('all');
   const [filterAction, setFilterAction] = useState<string>('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [reference, setReference] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
-  const [limit, setLimit] = useState(100);
+  const [revertEntryId, setRevertEntryId] = useState<string | null>(null);
+  const [verifyingChain, setVerifyingChain] = useState(false);
+  const [chainResults, setChainResults] = useState<AuditChainVerification[] | null>(null);
+  const [chainError, setChainError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadActors();
+  }, []);
 
   useEffect(() => {
     loadAuditLogs();
-  }, [limit]);
+  }, [filterEntity, filterActor, filterAction, fromDate, toDate]);
+
+  const loadActors = async () => {
+    setActors(await auditService.getAuditActors());
+  };
+
+  // Dates are whole warehouse days; the end date is inclusive
+  const currentFilters = (): AuditTrailFilters => ({
+    from: fromDate ? fromWarehouseInputValue(`${fromDate}T00:00`) : null,
+    to: toDate ? addWarehouseDays(new Date(fromWarehouseInputValue(`${toDate}T00:00`)), 1).toISOString() : null,
+    entityType: filterEntity,
+    actorId: filterActor,
+    action: filterAction,
+    reference,
+    query: searchQuery
+  });
 
   const loadAuditLogs = async () => {
     setLoading(true);
-    const logs = await auditService.getRecentActivity(limit);
-    setAuditLogs(logs);
+    const page = await auditService.searchAuditTrail(currentFilters(), null, PAGE_SIZE);
+    setAuditLogs(page.entries);
+    setNextCursor(page.nextCursor);
     setLoading(false);
   };
 
-  const filteredLogs = auditLogs.filter(log => {
-    const matchesAction = filterAction === 'all' || log.action_type === filterAction;
-    const matchesSearch = !searchQuery ||
-      log.shipment_title?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      log.action_by_email?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      log.changes_summary?.toLowerCase().includes(searchQuery.toLowerCase());
+  const loadMore = async () => {
+    if (!nextCursor) return;
 
-    return matchesAction && matchesSearch;
-  });
+    setLoadingMore(true);
+    const page = await auditService.searchAuditTrail(currentFilters(), nextCursor, PAGE_SIZE);
+    setAuditLogs(logs => [...logs, ...page.entries]);
+    setNextCursor(page.nextCursor);
+    setLoadingMore(false);
+  };
+
+  const exportCsv = async () => {
+    setExporting(true);
+    setExportError(null);
+    const result = await auditService.exportCsv(currentFilters());
+    if (!result.success) {
+      setExportError(result.error || 'Export failed');
+    }
+    setExporting(false);
+  };
+
+  const verifyChain = async () => {
+    setVerifyingChain(true);
+    setChainError(null);
+    const result = await auditService.verifyChains();
+    setChainResults(result.results || null);
+    if (!result.success) {
+      setChainError(result.error || 'Verification failed');
+    }
+    setVerifyingChain(false);
+  };
+
+  const hasFilters = Boolean(searchQuery || reference || fromDate || toDate) ||
+    filterAction !== 'all' || filterEntity !== 'all' || filterActor !== 'all';
 
   const formatTimestamp = (timestamp: string) => {
     const date = new Date(timestamp);
@@ -59,6 +141,8 @@ export function AuditLogTab() {
         return 'bg-orange-100 text-orange-800 border-orange-300';
       case 'deleted':
         return 'bg-red-100 text-red-800 border-red-300';
+      case 'reverted':
+        return 'bg-amber-100 text-amber-800 border-amber-300';
       default:
         return 'bg-slate-100 text-slate-800 border-slate-300';
     }
@@ -73,6 +157,7 @@ export function AuditLogTab() {
       case 'operator_assigned': return 'Operator Assigned';
       case 'operator_removed': return 'Operator Removed';
       case 'deleted': return 'Deleted';
+      case 'reverted': return 'Reverted';
       default: return action;
     }
   };
@@ -84,27 +169,108 @@ export function AuditLogTab() {
   return (
     <div className="space-y-6">
       <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-6">
-        <div className="flex items-center gap-3 mb-4">
-          <History className="w-6 h-6 text-blue-600" />
-          <h2 className="text-xl font-semibold text-slate-900">Audit Log</h2>
+        <div className="flex items-center justify-between gap-3 mb-4">
+          <div className="flex items-center gap-3">
+            <History className="w-6 h-6 text-blue-600" />
+            <h2 className="text-xl font-semibold text-slate-900">Audit Log</h2>
+          </div>
+          <button
+            onClick={verifyChain}
+            disabled={verifyingChain}
+            className="flex items-center gap-2 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 disabled:opacity-50 font-medium"
+          >
+            <ShieldCheck className="w-4 h-4" />
+            {verifyingChain ? 'Verifying...' : 'Verify Integrity'}
+          </button>
         </div>
         <p className="text-sm text-slate-600 mb-6">
-          Complete history of all shipment operations, showing who did what and when.
+          Complete history of changes to shipments, packages, deviations, operators, categories, announcements, settings and users, showing who did what and when.
         </p>
 
-        <div className="flex flex-col lg:flex-row gap-4 mb-6">
-          <div className="flex-1 relative">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
-            <input
-              type="text"
-              placeholder="Search by shipment, user, or action..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-            />
+        {(chainResults || chainError) && (
+          <div className="mb-6 space-y-2">
+            {chainError && (
+              <div className="p-3 rounded-lg bg-red-50 text-red-800 text-sm">Integrity check failed: {chainError}</div>
+            )}
+            {chainResults?.map(result => (
+              <div
+                key={result.table}
+                className={`p-3 rounded-lg text-sm flex items-start gap-2 ${result.valid ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}
+              >
+                {result.valid ? <ShieldCheck className="w-4 h-4 mt-0.5" /> : <ShieldAlert className="w-4 h-4 mt-0.5" />}
+                <div>
+                  <p className="font-medium">
+                    {AUDIT_CHAIN_TABLES[result.table]}: {result.valid
+                      ? `all ${result.checked} entries verified`
+                      : 'hash chain is broken'}
+                  </p>
+                  {result.first_break && (
+                    <p className="text-xs mt-1">
+                      First broken link{result.first_break.seq !== null ? ` at entry #${result.first_break.seq}` : ''}
+                      {' '}({formatTimestamp(result.first_break.at)}): {AUDIT_CHAIN_BREAK_LABELS[result.first_break.reason]}.
+                      {' '}Entry ID {result.first_break.id}
+                    </p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            loadAuditLogs();
+          }}
+          className="space-y-3 mb-6"
+        >
+          <div className="flex flex-col lg:flex-row gap-3">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+              <input
+                type="text"
+                placeholder="Search names, users, changes and data..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div className="lg:w-72 relative">
+              <Package className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+              <input
+                type="text"
+                placeholder="Shipment, SSCC or ID..."
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
           </div>
 
-          <div className="flex gap-3">
+          <div className="flex flex-wrap gap-3">
+            <select
+              value={filterEntity}
+              onChange={(e) => setFilterEntity(e.target.value as AuditEntityType | 'all')}
+              className="px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+            >
+              <option value="all">All Entities</option>
+              {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map(type => (
+                <option key={type} value={type}>{AUDIT_ENTITY_LABELS[type]}</option>
+              ))}
+            </select>
+
+            <select
+              value={filterActor}
+              onChange={(e) => setFilterActor(e.target.value)}
+              className="px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+            >
+              <option value="all">All Users</option>
+              <option value="system">System</option>
+              {actors.map(actor => (
+                <option key={actor.id} value={actor.id}>{actor.email}</option>
+              ))}
+            </select>
+
             <div className="relative">
               <Filter className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
               <select
@@ -119,41 +285,64 @@ export function AuditLogTab() {
                 <option value="completed">Completed</option>
                 <option value="operator_assigned">Operator Assigned</option>
                 <option value="operator_removed">Operator Removed</option>
+                <option value="deleted">Deleted</option>
+                <option value="reverted">Reverted</option>
               </select>
             </div>
 
-            <select
-              value={limit}
-              onChange={(e) => setLimit(Number(e.target.value))}
-              className="px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
-            >
-              <option value={50}>Last 50</option>
-              <option value={100}>Last 100</option>
-              <option value={250}>Last 250</option>
-              <option value={500}>Last 500</option>
-            </select>
+            <div className="flex items-center gap-2 text-sm text-slate-600">
+              <input
+                type="date"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+                className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                title="From date"
+              />
+              <span>to</span>
+              <input
+                type="date"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+                className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                title="To date (inclusive)"
+              />
+            </div>
 
             <button
-              onClick={loadAuditLogs}
+              type="submit"
               disabled={loading}
               className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-slate-300 disabled:cursor-not-allowed font-medium transition-colors"
             >
-              {loading ? 'Loading...' : 'Refresh'}
+              {loading ? 'Loading...' : 'Search'}
+            </button>
+
+            <button
+              type="button"
+              onClick={exportCsv}
+              disabled={exporting}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-600 text-white rounded-lg hover:bg-slate-700 disabled:opacity-50 font-medium transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              {exporting ? 'Exporting...' : 'Export CSV'}
             </button>
           </div>
-        </div>
+
+          {exportError && (
+            <p className="text-sm text-red-700">Export failed: {exportError}</p>
+          )}
+        </form>
 
         {loading ? (
           <div className="text-center py-12">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
             <p className="mt-4 text-slate-600">Loading audit logs...</p>
           </div>
-        ) : filteredLogs.length === 0 ? (
+        ) : auditLogs.length === 0 ? (
           <div className="text-center py-12 bg-slate-50 rounded-lg">
             <FileText className="w-12 h-12 text-slate-400 mx-auto mb-3" />
             <p className="text-slate-600 font-medium">No audit logs found</p>
             <p className="text-sm text-slate-500 mt-1">
-              {searchQuery || filterAction !== 'all'
+              {hasFilters
                 ? 'Try adjusting your filters'
                 : 'Audit logs will appear here when actions are performed'}
             </p>
@@ -162,11 +351,11 @@ export function AuditLogTab() {
           <div className="space-y-3">
             <div className="flex justify-between items-center mb-2">
               <p className="text-sm text-slate-600">
-                Showing {filteredLogs.length} of {auditLogs.length} entries
+                Showing {auditLogs.length} {nextCursor ? 'most recent matching' : 'matching'} entries
               </p>
             </div>
 
-            {filteredLogs.map((log) => (
+            {auditLogs.map((log) => (
               <div
                 key={log.id}
                 className="border border-slate-200 rounded-lg hover:shadow-md transition-shadow"
@@ -188,34 +377,30 @@ export function AuditLogTab() {
                       <div className="flex items-start justify-between gap-3 mb-2">
                         <div className="flex-1">
                           <div className="flex items-center gap-2 mb-1">
-                            <span className={`px-2.5 py-0.5 rounded-full text-xs font-medium border ${getActionColor(log.action_type)}`}>
-                              {getActionLabel(log.action_type)}
+                            <span className={`px-2.5 py-0.5 rounded-full text-xs font-medium border ${getActionColor(log.action)}`}>
+                              {getActionLabel(log.action)}
+                            </span>
+                            <span className="text-xs text-slate-600 bg-slate-100 px-2 py-0.5 rounded">
+                              {AUDIT_ENTITY_LABELS[log.entity_type] || log.entity_type}
                             </span>
-                            {log.shipment_row_id && (
-                              <span className="text-xs font-mono text-slate-600 bg-slate-100 px-2 py-0.5 rounded">
-                                #{log.shipment_row_id}
-                              </span>
-                            )}
                           </div>
                           <p className="font-medium text-slate-900">
-                            {log.shipment_title || 'Unknown Shipment'}
+                            {log.entity_label || `Unknown ${(AUDIT_ENTITY_LABELS[log.entity_type] || 'entry').toLowerCase()}`}
                           </p>
-                          {log.changes_summary && (
-                            <p className="text-sm text-slate-600 mt-1">{log.changes_summary}</p>
+                          {log.summary && (
+                            <p className="text-sm text-slate-600 mt-1">{log.summary}</p>
                           )}
                         </div>
 
                         <div className="text-right flex-shrink-0">
                           <div className="flex items-center gap-1.5 text-sm text-slate-600 mb-1">
                             <Clock className="w-4 h-4" />
-                            <span className="whitespace-nowrap">{formatTimestamp(log.action_timestamp)}</span>
+                            <span className="whitespace-nowrap">{formatTimestamp(log.changed_at)}</span>
+                          </div>
+                          <div className="flex items-center gap-1.5 text-sm text-slate-600">
+                            <User className="w-4 h-4" />
+                            <span className="whitespace-nowrap">{log.actor_email || (log.actor_id ? 'Unknown user' : 'System')}</span>
                           </div>
-                          {log.action_by_email && (
-                            <div className="flex items-center gap-1.5 text-sm text-slate-600">
-                              <User className="w-4 h-4" />
-                              <span className="whitespace-nowrap">{log.action_by_email}</span>
-                            </div>
-                          )}
                         </div>
                       </div>
                     </div>
@@ -224,12 +409,36 @@ export function AuditLogTab() {
 
                 {expandedId === log.id && (
                   <div className="px-4 pb-4 pt-0 border-t border-slate-200 bg-slate-50">
+                    {Object.keys(log.changes || {}).length > 0 && (
+                      <div className="mt-4">
+                        <h4 className="text-sm font-semibold text-slate-700 mb-2">Changed Fields</h4>
+                        <table className="w-full text-xs bg-white border border-slate-200 rounded">
+                          <thead className="bg-slate-100 text-left text-slate-600">
+                            <tr>
+                              <th className="px-3 py-1.5 font-medium">Field</th>
+                              <th className="px-3 py-1.5 font-medium">Before</th>
+                              <th className="px-3 py-1.5 font-medium">After</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-slate-200">
+                            {Object.entries(log.changes).map(([field, change]) => (
+                              <tr key={field}>
+                                <td className="px-3 py-1.5 font-mono text-slate-700">{field}</td>
+                                <td className="px-3 py-1.5 text-red-700 break-all">{formatValue(change.old)}</td>
+                                <td className="px-3 py-1.5 text-green-700 break-all">{formatValue(change.new)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+
                     <div className="mt-4 grid grid-cols-1 lg:grid-cols-2 gap-4">
-                      {log.previous_data && (
+                      {log.old_data && (
                         <div>
                           <h4 className="text-sm font-semibold text-slate-700 mb-2">Previous Data</h4>
                           <pre className="text-xs bg-white p-3 rounded border border-slate-200 overflow-x-auto">
-                            {JSON.stringify(log.previous_data, null, 2)}
+                            {JSON.stringify(log.old_data, null, 2)}
                           </pre>
                         </div>
                       )}
@@ -243,7 +452,7 @@ export function AuditLogTab() {
                         </div>
                       )}
 
-                      {!log.previous_data && !log.new_data && (
+                      {!log.old_data && !log.new_data && (
                         <div className="col-span-2">
                           <p className="text-sm text-slate-600 italic">No detailed data available for this action.</p>
                         </div>
@@ -256,29 +465,65 @@ export function AuditLogTab() {
                           <span className="font-semibold">Action ID:</span> {log.id}
                         </div>
                         <div>
-                          <span className="font-semibold">Shipment ID:</span> {log.shipment_id}
+                          <span className="font-semibold">{AUDIT_ENTITY_LABELS[log.entity_type] || log.entity_type} ID:</span> {log.entity_id}
                         </div>
-                        {log.action_by && (
+                        {log.actor_id && (
                           <div>
-                            <span className="font-semibold">User ID:</span> {log.action_by}
+                            <span className="font-semibold">User ID:</span> {log.actor_id}
                           </div>
                         )}
                       </div>
+                      {log.entity_type === 'shipments' && (
+                        <button
+                          onClick={() => setRevertEntryId(log.id)}
+                          className="mt-3 flex items-center gap-1.5 px-3 py-1.5 text-sm text-amber-700 border border-amber-300 hover:bg-amber-50 rounded-lg"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                          Revert shipment to this version
+                        </button>
+                      )}
                     </div>
                   </div>
                 )}
               </div>
             ))}
+
+            {nextCursor && (
+              <div className="text-center pt-2">
+                <button
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                  className="px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 disabled:opacity-50 font-medium"
+                >
+                  {loadingMore ? 'Loading...' : 'Load More'}
+                </button>
+              </div>
+            )}
           </div>
         )}
 
+        <AuditReportPanel />
+
+        {revertEntryId && (
+          <ShipmentRevertModal
+            auditEntryId={revertEntryId}
+            onClose={() => setRevertEntryId(null)}
+            onReverted={() => {
+              setRevertEntryId(null);
+              loadAuditLogs();
+            }}
+          />
+        )}
+
         <div className="mt-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
           <h4 className="text-sm font-semibold text-blue-900 mb-2">About Audit Logs</h4>
           <ul className="text-sm text-blue-800 space-y-1 list-disc list-inside">
-            <li>All shipment operations are automatically tracked</li>
+            <li>Changes to shipments, packages, deviations, operators, categories, announcements, settings and user roles are tracked automatically</li>
             <li>Logs include user information, timestamps, and detailed changes</li>
             <li>Expand any entry to view complete before/after data</li>
-            <li>Use filters and search to find specific actions quickly</li>
+            <li>Filters and search run on the full history; use Load More to page back, or Export CSV for every match</li>
+            <li>Shipment and deviation entries are hash-chained and can't be edited or deleted; Verify Integrity reports the first broken link</li>
+            <li>Signed reports let auditors check that the entries for a period have not been altered</li>
             <li>Logs are retained permanently for compliance and troubleshooting</li>
           </ul>
         </div>
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Check, X, ShieldCheck, FileSignature, Upload } from 'lucide-react';
+import { auditService, AuditReportVerification } from '../services/auditService';
+import {
+  addWarehouseDays,
+  formatWarehouseDate,
+  fromWarehouseInputValue,
+  startOfWarehouseMonth,
+  toWarehouseDateKey
+} from '../utils/dateTime';
+
+const VERIFICATION_CHECKS: { key: keyof Omit<AuditReportVerification, 'report'>; pass: string; fail: string }[] = [
+  { key: 'signatureValid', pass: 'Signature is valid', fail: 'Signature does not match the issued report' },
+  { key: 'headerMatches', pass: 'Report header matches the issued report', fail: 'Report header was changed' },
+  { key: 'contentMatches', pass: 'Entries in the file are unmodified', fail: 'Entries in the file were modified' },
+  { key: 'logUnchanged', pass: 'Audit log for the period is unchanged since the report', fail: 'Audit log for the period has changed since the report' }
+];
+
+export function AuditReportPanel() {
+  const [fromDate, setFromDate] = useState(toWarehouseDateKey(startOfWarehouseMonth()));
+  const [toDate, setToDate] = useState(toWarehouseDateKey());
+  const [working, setWorking] = useState(false);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [verification, setVerification] = useState<AuditReportVerification | null>(null);
+
+  const createReport = async () => {
+    if (!fromDate || !toDate || fromDate > toDate) {
+      setResult({ success: false, message: 'Choose a period whose end is on or after its start' });
+      return;
+    }
+
+    setWorking(true);
+    setResult(null);
+    setVerification(null);
+
+    // The end date is inclusive, so the period runs to the start of the following day
+    const response = await auditService.createReport(
+      fromWarehouseInputValue(`${fromDate}T00:00`),
+      addWarehouseDays(new Date(fromWarehouseInputValue(`${toDate}T00:00`)), 1).toISOString()
+    );
+
+    setResult(response.success && response.report
+      ? { success: true, message: `Signed report with ${response.report.entry_count} entries downloaded` }
+      : { success: false, message: response.error || 'Failed to create report' });
+    setWorking(false);
+  };
+
+  const verifyReport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setWorking(true);
+    setResult(null);
+    setVerification(null);
+
+    try {
+      setVerification(await auditService.verifyReport(file));
+    } catch (err) {
+      setResult({ success: false, message: `Could not verify report: ${(err as Error).message}` });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const dateTime = (value: string) =>
+    formatWarehouseDate(value, { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="mt-6 bg-white rounded-lg border border-slate-200 p-4">
+      <div className="flex items-center gap-2 mb-1">
+        <FileSignature className="w-4 h-4 text-slate-600" />
+        <h3 className="font-semibold text-slate-900">Signed Audit Report</h3>
+      </div>
+      <p className="text-xs text-slate-500 mb-3">
+        Downloads every audit entry in the period with a server-side signature. Auditors can upload the file here later to check that neither the file nor the log has been altered.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">From</label>
+          <input
+            type="date"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">To</label>
+          <input
+            type="date"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <button
+          onClick={createReport}
+          disabled={working}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          Create Signed Report
+        </button>
+        <label className={`flex items-center gap-2 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg ${working ? 'opacity-50' : 'hover:bg-slate-50 cursor-pointer'}`}>
+          <Upload className="w-4 h-4" />
+          Verify Report
+          <input type="file" accept=".json" onChange={verifyReport} disabled={working} className="hidden" />
+        </label>
+      </div>
+
+      {result && (
+        <div className={`mt-3 p-3 rounded-lg flex items-center gap-2 text-sm ${result.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+          {result.success ? <Check className="w-4 h-4" /> : <X className="w-4 h-4" />}
+          {result.message}
+        </div>
+      )}
+
+      {verification && (
+        <div className="mt-3 p-3 rounded-lg border border-slate-200 bg-slate-50 text-sm">
+          <div className="flex items-center gap-2 font-medium text-slate-900 mb-2">
+            <ShieldCheck className="w-4 h-4" />
+            Report {verification.report.id.slice(0, 8)}: {dateTime(verification.report.period_from)} – {dateTime(verification.report.period_to)}, {verification.report.entry_count} entries, signed {dateTime(verification.report.generated_at)}
+          </div>
+          <ul className="space-y-1">
+            {VERIFICATION_CHECKS.map(({ key, pass, fail }) => (
+              <li key={key} className={`flex items-center gap-2 ${verification[key] ? 'text-green-800' : 'text-red-800'}`}>
+                {verification[key] ? <Check className="w-4 h-4" /> : <X className="w-4 h-4" />}
+                {verification[key] ? pass : fail}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,17 @@
 import { useState } from 'react';
 import { supabase } from '../lib/supabase';
+import { backupService, BackupContents } from '../services/backupService';
+import { RestoreWizard } from './RestoreWizard';
+import { StoredBackupsPanel } from './StoredBackupsPanel';
 import { Download, Upload, AlertCircle, CheckCircle2, Clock, Database, FileJson } from 'lucide-react';
 
 export function BackupRestoreTab() {
   const [isBackingUp, setIsBackingUp] = useState(false);
   const [isRestoring, setIsRestoring] = useState(false);
   const [backupStatus, setBackupStatus] = useState<string>('');
-  const [restoreStatus, setRestoreStatus] = useState<string>('');
   const [error, setError] = useState<string>('');
   const [success, setSuccess] = useState<string>('');
+  const [storedBackup, setStoredBackup] = useState<BackupContents | null>(null);
 
   const createBackup = async () => {
     setIsBackingUp(true);
@@ -16,201 +19,20 @@ export function BackupRestoreTab() {
     setSuccess('');
     setBackupStatus('Fetching data...');
 
-    try {
-      const timestamp = new Date().toISOString().replace(/:/g, '-').split('.')[0];
-
-      setBackupStatus('Exporting shipments...');
-      const { data: shipments, error: shipmentsError } = await supabase
-        .from('shipments')
-        .select('*')
-        .order('created_at', { ascending: false })
-        .range(0, 100000);
-
-      if (shipmentsError) throw shipmentsError;
-
-      setBackupStatus('Exporting operators...');
-      const { data: operators, error: operatorsError } = await supabase
-        .from('operators')
-        .select('*')
-        .order('created_at', { ascending: false })
-        .range(0, 100000);
-
-      if (operatorsError) throw operatorsError;
-
-      setBackupStatus('Exporting packages...');
-      const { data: packages, error: packagesError } = await supabase
-        .from('packages')
-        .select('*')
-        .order('created_at', { ascending: false })
-        .range(0, 100000);
-
-      if (packagesError) throw packagesError;
-
-      setBackupStatus('Exporting user profiles...');
-      const { data: userProfiles, error: profilesError } = await supabase
-        .from('user_profiles')
-        .select('*')
-        .range(0, 100000);
-
-      if (profilesError) throw profilesError;
-
-      setBackupStatus('Exporting notifications...');
-      const { data: notificationSettings, error: notifError } = await supabase
-        .from('notification_settings')
-        .select('*')
-        .range(0, 100000);
-
-      if (notifError) throw notifError;
-
-      setBackupStatus('Exporting audit logs...');
-      const { data: auditLogs, error: auditError } = await supabase
-        .from('shipment_audit_log')
-        .select('*')
-        .order('action_timestamp', { ascending: false })
-        .limit(1000);
-
-      if (auditError) throw auditError;
-
-      setBackupStatus('Creating backup file...');
-      const backup = {
-        metadata: {
-          timestamp: new Date().toISOString(),
-          version: '1.0',
-          recordCounts: {
-            shipments: shipments?.length || 0,
-            operators: operators?.length || 0,
-            packages: packages?.length || 0,
-            userProfiles: userProfiles?.length || 0,
-            notificationSettings: notificationSettings?.length || 0,
-            auditLogs: auditLogs?.length || 0
-          }
-        },
-        data: {
-          shipments: shipments || [],
-          operators: operators || [],
-          packages: packages || [],
-          user_profiles: userProfiles || [],
-          notification_settings: notificationSettings || [],
-          audit_logs: auditLogs || []
-        }
-      };
+    const response = await backupService.createBackup((table, rows) => {
+      setBackupStatus(`Exported ${table.replace(/_/g, ' ')} (${rows} rows)...`);
+    });
 
-      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `delivery-system-backup-${timestamp}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-
-      setSuccess(`Backup created successfully! Downloaded ${backup.metadata.recordCounts.shipments} shipments, ${backup.metadata.recordCounts.operators} operators, ${backup.metadata.recordCounts.packages} packages, and more.`);
-      setBackupStatus('');
-    } catch (err) {
-      console.error('Backup failed:', err);
-      setError(`Backup failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
-      setBackupStatus('');
-    } finally {
-      setIsBackingUp(false);
+    if (response.success && response.manifest) {
+      const tables = Object.values(response.manifest.tables);
+      const rows = tables.reduce((sum, table) => sum + table.rows, 0);
+      setSuccess(`Backup created successfully! Downloaded ${rows} rows from ${tables.length} tables, with a checksum for each table.`);
+    } else {
+      setError(`Backup failed: ${response.error || 'Unknown error'}`);
     }
-  };
-
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    setIsRestoring(true);
-    setError('');
-    setSuccess('');
-    setRestoreStatus('Reading backup file...');
-
-    try {
-      const text = await file.text();
-      const backup = JSON.parse(text);
-
-      if (!backup.metadata || !backup.data) {
-        throw new Error('Invalid backup file format');
-      }
-
-      const confirmed = window.confirm(
-        `This will restore data from ${new Date(backup.metadata.timestamp).toLocaleString()}.\n\n` +
-        `Records to restore:\n` +
-        `- Shipments: ${backup.metadata.recordCounts.shipments}\n` +
-        `- Operators: ${backup.metadata.recordCounts.operators}\n` +
-        `- Packages: ${backup.metadata.recordCounts.packages}\n\n` +
-        `WARNING: This will delete ALL existing data and replace it with backup data.\n\n` +
-        `Are you absolutely sure you want to continue?`
-      );
-
-      if (!confirmed) {
-        setIsRestoring(false);
-        setRestoreStatus('');
-        return;
-      }
-
-      const doubleConfirm = window.confirm(
-        'FINAL CONFIRMATION: This action cannot be undone. All current data will be permanently deleted. Continue?'
-      );
-
-      if (!doubleConfirm) {
-        setIsRestoring(false);
-        setRestoreStatus('');
-        return;
-      }
 
-      setRestoreStatus('Deleting existing packages...');
-      await supabase.from('packages').delete().neq('id', '00000000-0000-0000-0000-000000000000');
-
-      setRestoreStatus('Deleting existing shipments...');
-      await supabase.from('shipments').delete().neq('id', '00000000-0000-0000-0000-000000000000');
-
-      setRestoreStatus('Restoring operators...');
-      if (backup.data.operators && backup.data.operators.length > 0) {
-        const { error: opError } = await supabase
-          .from('operators')
-          .upsert(backup.data.operators, { onConflict: 'id' });
-        if (opError) throw opError;
-      }
-
-      setRestoreStatus('Restoring shipments...');
-      if (backup.data.shipments && backup.data.shipments.length > 0) {
-        const { error: shipError } = await supabase
-          .from('shipments')
-          .insert(backup.data.shipments);
-        if (shipError) throw shipError;
-      }
-
-      setRestoreStatus('Restoring packages...');
-      if (backup.data.packages && backup.data.packages.length > 0) {
-        const { error: pkgError } = await supabase
-          .from('packages')
-          .insert(backup.data.packages);
-        if (pkgError) throw pkgError;
-      }
-
-      setRestoreStatus('Restoring notification settings...');
-      if (backup.data.notification_settings && backup.data.notification_settings.length > 0) {
-        const { error: notifError } = await supabase
-          .from('notification_settings')
-          .upsert(backup.data.notification_settings, { onConflict: 'id' });
-        if (notifError) throw notifError;
-      }
-
-      setSuccess(`Restore completed successfully! Restored ${backup.metadata.recordCounts.shipments} shipments, ${backup.metadata.recordCounts.operators} operators, and ${backup.metadata.recordCounts.packages} packages.`);
-      setRestoreStatus('');
-
-      setTimeout(() => {
-        window.location.reload();
-      }, 2000);
-    } catch (err) {
-      console.error('Restore failed:', err);
-      setError(`Restore failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
-      setRestoreStatus('');
-    } finally {
-      setIsRestoring(false);
-      event.target.value = '';
-    }
+    setBackupStatus('');
+    setIsBackingUp(false);
   };
 
   const createQuickExport = async () => {
@@ -328,10 +150,10 @@ export function BackupRestoreTab() {
           </div>
         )}
 
-        {(backupStatus || restoreStatus) && (
+        {backupStatus && (
           <div className="mb-4 p-4 bg-blue-50 border border-blue-200 rounded-lg flex items-center gap-3">
             <Clock className="w-5 h-5 text-blue-600 animate-pulse" />
-            <p className="text-sm text-blue-900">{backupStatus || restoreStatus}</p>
+            <p className="text-sm text-blue-900">{backupStatus}</p>
           </div>
         )}
 
@@ -342,7 +164,7 @@ export function BackupRestoreTab() {
               Create Backup
             </h3>
             <p className="text-sm text-slate-600 mb-4">
-              Download a complete JSON backup of all system data. This includes shipments, operators, packages, user profiles, notification settings, and recent audit logs.
+              Download a complete backup archive of all system data: shipments, packages, deviations and their history, status history, the audit log, categories, locations, announcements, settings and user profiles. Each table is stored as compressed NDJSON with a row count and checksum in the manifest.
             </p>
             <button
               onClick={createBackup}
@@ -378,45 +200,26 @@ export function BackupRestoreTab() {
               Restore from Backup
             </h3>
             <p className="text-sm text-slate-600 mb-4">
-              Restore system data from a previously created backup file. This will replace all current data with the backup data.
+              Restore operators, shipments, packages, deviations, status history, categories, announcements, KPI settings and notification settings from a backup file. The backup is validated against the current schema and compared with live data before anything is written.
             </p>
             <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
               <p className="text-xs font-semibold text-amber-900 mb-1">⚠️ Warning</p>
               <p className="text-xs text-amber-800">
-                Restoring from backup will permanently delete all current data and replace it with backup data. This action cannot be undone. Always create a backup before restoring.
+                Rows missing from the backup are removed from the selected tables (within the date range, if one is set). A safety snapshot is taken automatically before each restore and can be undone below.
               </p>
             </div>
-            <label className="block">
-              <input
-                type="file"
-                accept=".json"
-                onChange={handleFileUpload}
-                disabled={isBackingUp || isRestoring}
-                className="hidden"
-                id="restore-file-input"
-              />
-              <label
-                htmlFor="restore-file-input"
-                className={`w-full px-4 py-3 border-2 border-dashed rounded-lg flex items-center justify-center gap-2 font-medium transition-colors cursor-pointer ${
-                  isBackingUp || isRestoring
-                    ? 'border-slate-300 bg-slate-100 text-slate-400 cursor-not-allowed'
-                    : 'border-amber-300 bg-amber-50 text-amber-700 hover:bg-amber-100 hover:border-amber-400'
-                }`}
-              >
-                <Upload className="w-4 h-4" />
-                {isRestoring ? 'Restoring...' : 'Select Backup File to Restore'}
-              </label>
-            </label>
-            <p className="text-xs text-slate-500 mt-2">
-              Supported format: JSON backup files created by this system
-            </p>
+            <RestoreWizard initialBackup={storedBackup} disabled={isBackingUp} onBusyChange={setIsRestoring} />
           </div>
         </div>
 
+        <div className="mt-6">
+          <StoredBackupsPanel onRestore={setStoredBackup} />
+        </div>
+
         <div className="mt-6 p-4 bg-slate-50 border border-slate-200 rounded-lg">
           <h4 className="text-sm font-semibold text-slate-900 mb-2">Backup Best Practices</h4>
           <ul className="text-sm text-slate-600 space-y-1 list-disc list-inside">
-            <li>Create regular backups (daily or weekly recommended)</li>
+            <li>Schedule the scheduled-backup function daily with the service-role key as bearer token; stored backups are pruned by the retention policy</li>
             <li>Store backups in a secure, off-site location</li>
             <li>Test restore procedures periodically to ensure backups work</li>
             <li>Always create a fresh backup before performing system maintenance</li>
@@ -1,242 +1,266 @@
-import { useState } from 'react';
-import { Upload, FileSpreadsheet, AlertCircle, CheckCircle, X } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-
-type ImportRecord = {
-  packageId: string;
-  description?: string;
-  location: string;
-  arrivalDate: string;
-  limitWeeks?: number;
-  notes?: string;
+import { useState, useEffect } from 'react';
+import { Upload, FileSpreadsheet, AlertCircle, CheckCircle, X, Eye, RotateCcw } from 'lucide-react';
+import { DateInputFormat, getDateSettings, loadDateSettings } from '../utils/dateTime';
+import { locationService } from '../services/locationService';
+import {
+  bulkImportService,
+  IMPORT_FIELDS,
+  ImportBatch,
+  ImportField,
+  ImportMapping,
+  ImportPreviewRow,
+  ImportType
+} from '../services/bulkImportService';
+import { detectDelimiter, parseCsv } from '../utils/csv';
+import { readXlsx, SpreadsheetSheet } from '../utils/xlsx';
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe'
 };
 
 type ImportResult = {
+  dryRun: boolean;
+  replayed?: boolean;
   success: number;
+  skipped: number;
   failed: number;
   errors: string[];
+  planned: ImportPreviewRow[];
 };
 
 export function BulkImportTab() {
-  const [importType, setImportType] = useState<'incoming' | 'delivered'>('incoming');
+  const [importType, setImportType] = useState<ImportType>('incoming');
   const [csvData, setCsvData] = useState('');
+  const [delimiter, setDelimiter] = useState(',');
+  const [workbook, setWorkbook] = useState<{ fileName: string; sheets: SpreadsheetSheet[] } | null>(null);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [fileError, setFileError] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportMapping>(bulkImportService.guessMapping([]));
+  const [preview, setPreview] = useState<ImportPreviewRow[] | null>(null);
+  const [dryRun, setDryRun] = useState(false);
+  const [isValidating, setIsValidating] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [result, setResult] = useState<ImportResult | null>(null);
   const [showInstructions, setShowInstructions] = useState(true);
+  const [dateFormat, setDateFormat] = useState<DateInputFormat>(getDateSettings().inputFormat);
+  const [sourceName, setSourceName] = useState('');
+  // Identifies this data for the server; sending it again does not import twice
+  const [batchId, setBatchId] = useState(() => crypto.randomUUID());
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+  const [rollbackError, setRollbackError] = useState('');
+
+  useEffect(() => {
+    loadDateSettings().then(settings => setDateFormat(settings.inputFormat));
+    loadBatches();
+  }, []);
+
+  const loadBatches = async () => {
+    setBatches(await bulkImportService.getBatches());
+  };
 
   const sampleCSV = `Package ID,Description,Location,Arrival Date,Limit Weeks,Notes
 G134U12G-3,HMP,ML2-B1,1/26/26,6,
 G134U12E-3,HMP,ML2-B1,1/26/26,6,
 U419379,,ML4-B4,1/26/26,6,
 U427568,,ML2-B2,1/26/26,6,
-U423481,,ML2-B1,1/26/26,6,`;
-
-  const parseCSV = (csv: string): ImportRecord[] => {
-    const lines = csv.trim().split('\n');
-    if (lines.length < 2) return [];
-
-    const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-    const records: ImportRecord[] = [];
-
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',').map(v => v.trim());
-
-      const packageIdIndex = headers.findIndex(h => h.includes('package') || h.includes('id') || h.includes('sscc'));
-      const locationIndex = headers.findIndex(h => h.includes('location'));
-      const dateIndex = headers.findIndex(h => h.includes('arrival') || h.includes('date'));
-      const descIndex = headers.findIndex(h => h.includes('description') || h.includes('desc'));
-      const weeksIndex = headers.findIndex(h => h.includes('week') || h.includes('limit'));
-      const notesIndex = headers.findIndex(h => h.includes('note'));
-
-      if (packageIdIndex >= 0 && values[packageIdIndex]) {
-        records.push({
-          packageId: values[packageIdIndex],
-          description: descIndex >= 0 ? values[descIndex] : undefined,
-          location: locationIndex >= 0 ? values[locationIndex] : '',
-          arrivalDate: dateIndex >= 0 ? values[dateIndex] : '',
-          limitWeeks: weeksIndex >= 0 && values[weeksIndex] ? parseInt(values[weeksIndex]) : undefined,
-          notes: notesIndex >= 0 ? values[notesIndex] : undefined,
-        });
-      }
-    }
+U423481,"HMP, spare parts",ML2-B1,1/26/26,6,`;
+
+  const headers = rows[0] || [];
+  const dataRows = rows.slice(1);
+  // European semicolon files write numbers as 1.234,5
+  const decimalComma = !workbook && delimiter === ';';
 
-    return records;
+  const resetBatch = () => {
+    setBatchId(crypto.randomUUID());
+    setPreview(null);
+    setResult(null);
   };
 
-  const parseDate = (dateStr: string): string => {
-    if (!dateStr) return new Date().toISOString();
+  const loadRows = (parsed: string[][]) => {
+    setRows(parsed);
+    setMapping(bulkImportService.guessMapping(parsed[0] || []));
+    resetBatch();
+  };
 
-    // Handle MM/DD/YY format
-    const parts = dateStr.split('/');
-    if (parts.length === 3) {
-      let [month, day, year] = parts;
+  const updateCsvData = (text: string, knownDelimiter?: string) => {
+    const detected = knownDelimiter ?? detectDelimiter(text);
+    setCsvData(text);
+    setDelimiter(detected);
+    setWorkbook(null);
+    setFileError('');
+    loadRows(parseCsv(text, detected));
+  };
 
-      // Handle 2-digit year
-      if (year.length === 2) {
-        year = parseInt(year) > 50 ? `19${year}` : `20${year}`;
-      }
+  const changeDelimiter = (value: string) => {
+    setDelimiter(value);
+    loadRows(parseCsv(csvData, value));
+  };
 
-      return new Date(`${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`).toISOString();
-    }
+  const selectSheet = (index: number) => {
+    if (!workbook) return;
+    setSheetIndex(index);
+    loadRows(workbook.sheets[index].rows);
+  };
+
+  const updateMapping = (field: ImportField, index: number) => {
+    setMapping({ ...mapping, [field]: index });
+    resetBatch();
+  };
+
+  const changeImportType = (type: ImportType) => {
+    setImportType(type);
+    resetBatch();
+  };
+
+  const validate = async (): Promise<ImportPreviewRow[]> => {
+    const records = bulkImportService.buildRecords(dataRows, mapping, decimalComma);
+    const storageLocations = await locationService.getOccupancy();
+    return bulkImportService.validateRecords(records, importType, storageLocations);
+  };
+
+  const runPreview = async () => {
+    setIsValidating(true);
+    setResult(null);
 
-    // Try to parse as-is
-    return new Date(dateStr).toISOString();
+    try {
+      setPreview(await validate());
+    } catch (err) {
+      setResult({ dryRun: true, success: 0, skipped: 0, failed: 0, errors: [(err as Error).message], planned: [] });
+    } finally {
+      setIsValidating(false);
+    }
   };
 
   const processImport = async () => {
-    if (!csvData.trim()) return;
+    if (dataRows.length === 0 || mapping.packageId < 0) return;
 
     setIsProcessing(true);
     setResult(null);
 
     try {
-      const records = parseCSV(csvData);
-      const errors: string[] = [];
-      let successCount = 0;
-      let failedCount = 0;
-
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        throw new Error('User not authenticated');
+      // Validate again right before writing, the database may have changed since the preview
+      const checked = await validate();
+      setPreview(checked);
+
+      const invalid = checked.filter(row => !row.plan);
+      const errors = invalid.map(row => `Row ${row.record.rowNumber} (${row.record.packageId || 'no ID'}): ${row.errors.join('; ')}`);
+      const planned = checked.filter(row => row.plan);
+
+      if (dryRun) {
+        setResult({ dryRun: true, success: planned.length, skipped: 0, failed: invalid.length, errors, planned });
+        return;
+      }
+
+      if (planned.length === 0) {
+        setResult({ dryRun: false, success: 0, skipped: 0, failed: invalid.length, errors, planned });
+        return;
+      }
+
+      // The whole batch is written in one transaction on the server; one failing row fails it
+      const response = await bulkImportService.importBatch(batchId, importType, planned, sourceName);
+      if (!response.success || !response.result) {
+        setResult({
+          dryRun: false,
+          success: 0,
+          skipped: 0,
+          failed: checked.length,
+          errors: [response.error || 'Import failed', ...errors],
+          planned,
+        });
+        return;
       }
 
-      // Get the current max row_id to generate unique values
-      const { data: maxRowData } = await supabase
-        .from('shipments')
-        .select('row_id')
-        .order('row_id', { ascending: false })
-        .limit(1)
-        .maybeSingle();
-
-      let nextRowId = (maxRowData?.row_id || 0) + 1;
-
-      for (const record of records) {
-        try {
-          if (importType === 'incoming') {
-            // Create incoming shipment
-            const { data: shipment, error: shipmentError } = await supabase
-              .from('shipments')
-              .insert({
-                row_id: nextRowId++,
-                title: record.description || `Import: ${record.packageId}`,
-                sscc_numbers: record.packageId,
-                storage_location: record.location,
-                start: parseDate(record.arrivalDate),
-                status: 'completed',
-                shipment_type: 'incoming',
-                created_by: user.id,
-                completed_by: user.id,
-                completed_at: parseDate(record.arrivalDate),
-                notes: record.notes || `Imported historical data. Limit: ${record.limitWeeks || 'N/A'} weeks`,
-                archived: false,
-              })
-              .select()
-              .single();
-
-            if (shipmentError) throw shipmentError;
-
-            // Create package entry as stored
-            const { error: packageError } = await supabase
-              .from('packages')
-              .insert({
-                shipment_id: shipment.id,
-                sscc_number: record.packageId,
-                storage_location: record.location,
-                status: 'stored',
-                created_at: parseDate(record.arrivalDate),
-                updated_at: parseDate(record.arrivalDate),
-              });
-
-            if (packageError) throw packageError;
-
-          } else {
-            // For delivered: Find the package and create outgoing shipment
-            const { data: existingPkg, error: findError } = await supabase
-              .from('packages')
-              .select('id, shipment_id, sscc_number')
-              .eq('sscc_number', record.packageId)
-              .eq('status', 'stored')
-              .maybeSingle();
-
-            if (findError) throw findError;
-
-            if (!existingPkg) {
-              errors.push(`Package ${record.packageId} not found in stored packages`);
-              failedCount++;
-              continue;
-            }
-
-            // Create outgoing shipment
-            const { data: outgoingShipment, error: shipmentError } = await supabase
-              .from('shipments')
-              .insert({
-                row_id: nextRowId++,
-                title: record.description || `Delivery: ${record.packageId}`,
-                sscc_numbers: record.packageId,
-                storage_location: record.location,
-                start: parseDate(record.arrivalDate),
-                status: 'completed',
-                shipment_type: 'outgoing',
-                created_by: user.id,
-                completed_by: user.id,
-                completed_at: parseDate(record.arrivalDate),
-                notes: record.notes || 'Imported historical delivery data',
-                archived: false,
-              })
-              .select()
-              .single();
-
-            if (shipmentError) throw shipmentError;
-
-            // Update package status to pending (delivered)
-            const { error: updateError } = await supabase
-              .from('packages')
-              .update({
-                status: 'pending',
-                updated_at: parseDate(record.arrivalDate),
-              })
-              .eq('id', existingPkg.id);
-
-            if (updateError) throw updateError;
-          }
-
-          successCount++;
-        } catch (err: any) {
-          failedCount++;
-          errors.push(`${record.packageId}: ${err.message}`);
+      const batch = response.result;
+      for (const row of batch.results) {
+        if (row.status !== 'created') {
+          errors.push(`Row ${row.row_number} (${row.sscc}): ${row.status === 'skipped' ? 'skipped, ' : ''}${row.message}`);
         }
       }
 
       setResult({
-        success: successCount,
-        failed: failedCount,
+        dryRun: false,
+        replayed: batch.replayed,
+        success: batch.created,
+        skipped: batch.skipped,
+        failed: batch.failed + invalid.length,
         errors,
+        planned,
       });
 
+      await loadBatches();
     } catch (err: any) {
       setResult({
+        dryRun,
         success: 0,
+        skipped: 0,
         failed: 0,
         errors: [err.message],
+        planned: [],
       });
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const rollbackBatch = async (batch: ImportBatch) => {
+    if (!confirm(`Roll back the import of ${batch.created_count} package(s) from ${new Date(batch.created_at).toLocaleString()}? The shipments it created will be deleted${batch.import_type === 'delivered' ? ' and the packages returned to storage' : ''}.`)) {
+      return;
+    }
+
+    setRollingBackId(batch.id);
+    const response = await bulkImportService.rollbackBatch(batch.id);
+    setRollbackError(response.success ? '' : response.error || 'Rollback failed');
+    await loadBatches();
+    setRollingBackId(null);
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
+    // Allow picking the same file again after editing it
+    event.target.value = '';
+    const extension = file.name.split('.').pop()?.toLowerCase();
+
+    if (extension === 'xlsx') {
+      try {
+        const sheets = await readXlsx(await file.arrayBuffer());
+        if (sheets.length === 0) {
+          throw new Error('the workbook has no worksheets');
+        }
+
+        // Start on the first sheet that has data
+        const first = Math.max(sheets.findIndex(sheet => sheet.rows.length > 0), 0);
+        setCsvData('');
+        setWorkbook({ fileName: file.name, sheets });
+        setSheetIndex(first);
+        setFileError('');
+        setSourceName(file.name);
+        loadRows(sheets[first].rows);
+        setShowInstructions(false);
+      } catch (err) {
+        setFileError(`Could not read ${file.name}: ${(err as Error).message}`);
+      }
+      return;
+    }
+
     const reader = new FileReader();
     reader.onload = (e) => {
       const text = e.target?.result as string;
-      setCsvData(text);
+      updateCsvData(text, extension === 'tsv' ? '\t' : undefined);
+      setSourceName(file.name);
       setShowInstructions(false);
     };
     reader.readAsText(file);
   };
 
+  const validCount = preview?.filter(row => row.plan).length ?? 0;
+
   return (
     <div className="max-w-6xl mx-auto p-6">
       <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-6">
@@ -253,7 +277,7 @@ U423481,,ML2-B1,1/26/26,6,`;
           <label className="block text-sm font-medium text-slate-700 mb-3">Import Type</label>
           <div className="flex gap-4">
             <button
-              onClick={() => setImportType('incoming')}
+              onClick={() => changeImportType('incoming')}
               className={`flex-1 px-4 py-3 rounded-lg border-2 transition-all ${
                 importType === 'incoming'
                   ? 'border-blue-500 bg-blue-50 text-blue-700'
@@ -264,7 +288,7 @@ U423481,,ML2-B1,1/26/26,6,`;
               <div className="text-xs mt-1 opacity-80">Packages that arrived at warehouse</div>
             </button>
             <button
-              onClick={() => setImportType('delivered')}
+              onClick={() => changeImportType('delivered')}
               className={`flex-1 px-4 py-3 rounded-lg border-2 transition-all ${
                 importType === 'delivered'
                   ? 'border-green-500 bg-green-50 text-green-700'
@@ -283,18 +307,22 @@ U423481,,ML2-B1,1/26/26,6,`;
             <div className="flex items-start gap-3">
               <AlertCircle className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
               <div className="flex-1">
-                <h3 className="font-semibold text-blue-900 mb-2">CSV Format Instructions</h3>
+                <h3 className="font-semibold text-blue-900 mb-2">File Format Instructions</h3>
                 <p className="text-sm text-blue-800 mb-3">
-                  Your CSV file should have the following columns (order doesn't matter):
+                  Your CSV file needs a header row. Columns are matched by name and can be remapped below (order doesn't matter):
                 </p>
                 <ul className="text-sm text-blue-800 space-y-1 ml-4 list-disc">
                   <li><strong>Package ID / SSCC Number</strong> - Required</li>
-                  <li><strong>Location</strong> - Storage location</li>
-                  <li><strong>Arrival Date / Date</strong> - Date in MM/DD/YY or MM/DD/YYYY format</li>
+                  <li><strong>Location</strong> - Registered storage location code (see Storage Locations)</li>
+                  <li><strong>Arrival Date / Date</strong> - Date in {dateFormat === 'MDY' ? 'MM/DD/YY or MM/DD/YYYY' : 'DD/MM/YY or DD/MM/YYYY'} format (configured in Settings)</li>
                   <li><strong>Description</strong> - Optional description</li>
-                  <li><strong>Limit Weeks</strong> - Optional limit in weeks</li>
+                  <li><strong>Limit Weeks</strong> - Optional storage limit in weeks, used when no dwell rule matches</li>
                   <li><strong>Notes</strong> - Optional notes</li>
                 </ul>
+                <p className="text-sm text-blue-800 mt-2">
+                  Upload an Excel workbook (.xlsx) and pick the sheet, or a comma, semicolon or tab separated file.
+                  In CSV files, values containing the delimiter, quotes or line breaks must be wrapped in double quotes.
+                </p>
                 <div className="mt-3 pt-3 border-t border-blue-200">
                   <p className="text-xs font-semibold text-blue-900 mb-1">Sample CSV:</p>
                   <pre className="text-xs bg-white p-2 rounded border border-blue-200 overflow-x-auto">
@@ -314,59 +342,197 @@ U423481,,ML2-B1,1/26/26,6,`;
 
         {/* File Upload */}
         <div className="mb-6">
-          <label className="block text-sm font-medium text-slate-700 mb-2">Upload CSV File</label>
-          <div className="flex items-center gap-3">
+          <label className="block text-sm font-medium text-slate-700 mb-2">Upload File (.xlsx, .csv, .tsv)</label>
+          <div className="flex flex-wrap items-center gap-3">
             <label className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 cursor-pointer transition-colors">
               <Upload className="w-4 h-4" />
               Choose File
               <input
                 type="file"
-                accept=".csv,.txt"
+                accept=".xlsx,.csv,.tsv,.txt"
                 onChange={handleFileUpload}
                 className="hidden"
               />
             </label>
-            {csvData && (
+            {(csvData || workbook) && (
               <span className="text-sm text-green-600 flex items-center gap-2">
                 <CheckCircle className="w-4 h-4" />
-                File loaded ({csvData.split('\n').length - 1} rows)
+                {workbook ? workbook.fileName : 'Data'} loaded ({dataRows.length} rows)
               </span>
             )}
+            {workbook && workbook.sheets.length > 1 && (
+              <select
+                value={sheetIndex}
+                onChange={(e) => selectSheet(parseInt(e.target.value))}
+                className="px-3 py-2 text-sm border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {workbook.sheets.map((sheet, index) => (
+                  <option key={index} value={index}>
+                    {sheet.name} ({Math.max(sheet.rows.length - 1, 0)} rows)
+                  </option>
+                ))}
+              </select>
+            )}
+            {csvData && !workbook && (
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                Delimiter
+                <select
+                  value={delimiter}
+                  onChange={(e) => changeDelimiter(e.target.value)}
+                  className="px-2 py-1.5 text-sm border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {Object.entries(DELIMITER_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                {decimalComma && <span className="text-xs text-slate-500">decimal comma numbers</span>}
+              </label>
+            )}
           </div>
+          {fileError && (
+            <p className="text-sm text-red-600 mt-2">{fileError}</p>
+          )}
         </div>
 
         {/* CSV Preview/Editor */}
         <div className="mb-6">
           <label className="block text-sm font-medium text-slate-700 mb-2">CSV Data</label>
+          {workbook && (
+            <p className="text-sm text-slate-600 mb-2">
+              Rows are read from sheet "{workbook.sheets[sheetIndex].name}" of {workbook.fileName}. Pasting data below replaces the workbook.
+            </p>
+          )}
           <textarea
             value={csvData}
-            onChange={(e) => setCsvData(e.target.value)}
+            onChange={(e) => {
+              updateCsvData(e.target.value);
+              setSourceName('');
+            }}
             placeholder="Paste your CSV data here or upload a file above..."
             className="w-full h-64 px-3 py-2 border border-slate-300 rounded-lg font-mono text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
           />
           <p className="text-xs text-slate-500 mt-1">
-            You can paste Excel data directly (copy from Excel and paste here)
+            You can paste Excel data directly (copy from Excel and paste here). Comma, semicolon and tab separated data is detected automatically.
           </p>
         </div>
 
-        {/* Process Button */}
-        <button
-          onClick={processImport}
-          disabled={!csvData.trim() || isProcessing}
-          className="w-full px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-slate-300 disabled:cursor-not-allowed font-semibold transition-colors flex items-center justify-center gap-2"
-        >
-          {isProcessing ? (
-            <>
-              <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-              Processing...
-            </>
-          ) : (
-            <>
-              <Upload className="w-5 h-5" />
-              Import {importType === 'incoming' ? 'Incoming' : 'Delivered'} Packages
-            </>
-          )}
-        </button>
+        {/* Column Mapping */}
+        {headers.length > 0 && (
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-slate-700 mb-2">Column Mapping</label>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3 p-4 bg-slate-50 rounded-lg border border-slate-200">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field}>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">
+                    {label}{required && ' *'}
+                  </label>
+                  <select
+                    value={mapping[field]}
+                    onChange={(e) => updateMapping(field, parseInt(e.target.value))}
+                    className={`w-full px-2 py-1.5 text-sm border rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                      required && mapping[field] < 0 ? 'border-red-400' : 'border-slate-300'
+                    }`}
+                  >
+                    <option value={-1}>— Not mapped —</option>
+                    {headers.map((header, index) => (
+                      <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            {mapping.packageId < 0 && (
+              <p className="text-xs text-red-600 mt-1">Map the Package ID column to continue</p>
+            )}
+          </div>
+        )}
+
+        {/* Row Preview */}
+        {preview && (
+          <div className="mb-6">
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-slate-700">Preview</label>
+              <span className="text-xs text-slate-600">
+                {validCount} ready, {preview.length - validCount} with errors
+              </span>
+            </div>
+            <div className="max-h-96 overflow-auto border border-slate-200 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-slate-700">Row</th>
+                    <th className="px-3 py-2 text-left font-medium text-slate-700">Package ID</th>
+                    <th className="px-3 py-2 text-left font-medium text-slate-700">Date</th>
+                    <th className="px-3 py-2 text-left font-medium text-slate-700">Location</th>
+                    <th className="px-3 py-2 text-left font-medium text-slate-700">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {preview.map(row => (
+                    <tr key={row.record.rowNumber} className={row.plan ? '' : 'bg-red-50'}>
+                      <td className="px-3 py-2 text-slate-500">{row.record.rowNumber}</td>
+                      <td className="px-3 py-2 font-mono text-slate-900">{row.record.packageId || '-'}</td>
+                      <td className="px-3 py-2 text-slate-700">{row.record.arrivalDate || '-'}</td>
+                      <td className="px-3 py-2 text-slate-700">{row.plan?.storageLocation || row.record.location || '-'}</td>
+                      <td className="px-3 py-2">
+                        {row.errors.map((error, index) => (
+                          <p key={`e${index}`} className="text-xs text-red-700">✗ {error}</p>
+                        ))}
+                        {row.warnings.map((warning, index) => (
+                          <p key={`w${index}`} className="text-xs text-orange-700">! {warning}</p>
+                        ))}
+                        {row.plan && row.warnings.length === 0 && (
+                          <span className="text-xs text-green-700">✓ OK</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Actions */}
+        <label className="flex items-center gap-2 mb-3 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={dryRun}
+            onChange={(e) => {
+              setDryRun(e.target.checked);
+              setResult(null);
+            }}
+            className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+          />
+          Dry run - validate and list what would be created without writing anything
+        </label>
+        <div className="flex gap-3">
+          <button
+            onClick={runPreview}
+            disabled={dataRows.length === 0 || mapping.packageId < 0 || isValidating || isProcessing}
+            className="px-6 py-3 bg-slate-600 text-white rounded-lg hover:bg-slate-700 disabled:bg-slate-300 disabled:cursor-not-allowed font-semibold transition-colors flex items-center justify-center gap-2"
+          >
+            <Eye className="w-5 h-5" />
+            {isValidating ? 'Checking...' : 'Preview'}
+          </button>
+          <button
+            onClick={processImport}
+            disabled={dataRows.length === 0 || mapping.packageId < 0 || isProcessing || isValidating}
+            className="flex-1 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-slate-300 disabled:cursor-not-allowed font-semibold transition-colors flex items-center justify-center gap-2"
+          >
+            {isProcessing ? (
+              <>
+                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                Processing...
+              </>
+            ) : (
+              <>
+                <Upload className="w-5 h-5" />
+                {dryRun ? 'Dry Run' : 'Import'} {importType === 'incoming' ? 'Incoming' : 'Delivered'} Packages
+              </>
+            )}
+          </button>
+        </div>
 
         {/* Result */}
         {result && (
@@ -385,21 +551,54 @@ U423481,,ML2-B1,1/26/26,6,`;
                 <h3 className={`font-semibold mb-2 ${
                   result.failed === 0 ? 'text-green-900' : 'text-orange-900'
                 }`}>
-                  Import Complete
+                  {result.dryRun
+                    ? 'Dry Run Complete - nothing was written'
+                    : result.success === 0 && result.failed > 0
+                    ? 'Import Failed - nothing was written'
+                    : 'Import Complete'}
                 </h3>
+                {result.replayed && (
+                  <p className="text-sm text-slate-700 mb-2">
+                    This data was already imported; showing the earlier result. Change the data or mapping to import again.
+                  </p>
+                )}
                 <div className="space-y-1 text-sm">
                   <p className="text-green-700">
-                    ✓ Successfully imported: <strong>{result.success}</strong> packages
+                    ✓ {result.dryRun ? 'Would import' : 'Successfully imported'}: <strong>{result.success}</strong> packages
                   </p>
+                  {result.skipped > 0 && (
+                    <p className="text-slate-700">
+                      – Skipped as duplicates: <strong>{result.skipped}</strong> packages
+                    </p>
+                  )}
                   {result.failed > 0 && (
                     <p className="text-orange-700">
-                      ✗ Failed: <strong>{result.failed}</strong> packages
+                      ✗ {result.dryRun ? 'Would skip' : 'Failed'}: <strong>{result.failed}</strong> packages
                     </p>
                   )}
                 </div>
+                {result.dryRun && result.planned.length > 0 && (
+                  <div className="mt-3 pt-3 border-t border-green-200">
+                    <p className="text-sm font-semibold text-slate-900 mb-2">
+                      Would create {result.planned.length} completed {importType === 'incoming' ? 'incoming' : 'outgoing'} shipment(s)
+                      {importType === 'incoming'
+                        ? ` and ${result.planned.length} stored package(s)`
+                        : ` and mark ${result.planned.length} stored package(s) delivered`}:
+                    </p>
+                    <div className="max-h-40 overflow-y-auto">
+                      {result.planned.map(({ record, plan }) => plan && (
+                        <p key={record.rowNumber} className="text-xs text-slate-700 mb-1">
+                          • Row {record.rowNumber}: "{plan.title}" {record.packageId}
+                          {plan.storageLocation && ` at ${plan.storageLocation}`}, {new Date(plan.start).toLocaleDateString()}
+                          {plan.dwellLimitDays && `, limit ${plan.dwellLimitDays} days`}
+                        </p>
+                      ))}
+                    </div>
+                  </div>
+                )}
                 {result.errors.length > 0 && (
                   <div className="mt-3 pt-3 border-t border-orange-200">
-                    <p className="text-sm font-semibold text-orange-900 mb-2">Errors:</p>
+                    <p className="text-sm font-semibold text-orange-900 mb-2">Rows not imported:</p>
                     <div className="max-h-40 overflow-y-auto">
                       {result.errors.map((error, index) => (
                         <p key={index} className="text-xs text-orange-800 mb-1">• {error}</p>
@@ -411,6 +610,62 @@ U423481,,ML2-B1,1/26/26,6,`;
             </div>
           </div>
         )}
+
+        {/* Recent Imports */}
+        <div className="mt-8">
+          <h3 className="text-sm font-medium text-slate-700 mb-2">Recent Imports</h3>
+          {rollbackError && (
+            <p className="text-sm text-red-600 mb-2">{rollbackError}</p>
+          )}
+          {batches.length === 0 ? (
+            <p className="text-sm text-slate-500">No imports yet.</p>
+          ) : (
+            <div className="border border-slate-200 rounded-lg overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-slate-700">Imported</th>
+                    <th className="px-3 py-2 text-left font-medium text-slate-700">Type</th>
+                    <th className="px-3 py-2 text-left font-medium text-slate-700">Source</th>
+                    <th className="px-3 py-2 text-right font-medium text-slate-700">Created</th>
+                    <th className="px-3 py-2 text-right font-medium text-slate-700">Skipped</th>
+                    <th className="px-3 py-2 text-right font-medium text-slate-700">Failed</th>
+                    <th className="px-3 py-2 text-right font-medium text-slate-700"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {batches.map(batch => (
+                    <tr key={batch.id} className={batch.status === 'rolled_back' ? 'text-slate-400' : 'text-slate-700'}>
+                      <td className="px-3 py-2">{new Date(batch.created_at).toLocaleString()}</td>
+                      <td className="px-3 py-2 capitalize">{batch.import_type}</td>
+                      <td className="px-3 py-2">{batch.source_name || 'Pasted data'}</td>
+                      <td className="px-3 py-2 text-right">{batch.created_count}</td>
+                      <td className="px-3 py-2 text-right">{batch.skipped_count}</td>
+                      <td className="px-3 py-2 text-right">{batch.failed_count}</td>
+                      <td className="px-3 py-2 text-right">
+                        {batch.status === 'rolled_back' ? (
+                          <span className="text-xs">
+                            Rolled back {batch.rolled_back_at && new Date(batch.rolled_back_at).toLocaleDateString()}
+                          </span>
+                        ) : batch.created_count > 0 && (
+                          <button
+                            onClick={() => rollbackBatch(batch)}
+                            disabled={rollingBackId !== null}
+                            className="inline-flex items-center gap-1 px-2 py-1 text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                            title="Roll back this import"
+                          >
+                            <RotateCcw className={`w-3 h-3 ${rollingBackId === batch.id ? 'animate-spin' : ''}`} />
+                            Roll back
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -1,9 +1,14 @@
 import { useState, useEffect } from 'react';
-import { supabase, Shipment, Operator, Package as PackageType } from '../lib/supabase';
-import { X, Loader2, Package, Search, AlertTriangle } from 'lucide-react';
+import { supabase, Shipment, Operator, Package as PackageType, StorageLocationOccupancy } from '../lib/supabase';
+import { X, Loader2, Package, Search, AlertTriangle, CheckCircle2 } from 'lucide-react';
 import { PackageManager, PackageWithDeviation } from './PackageManager';
 import { auditService } from '../services/auditService';
 import { deviationService } from '../services/deviationService';
+import { packageLifecycleService, MAIN_PACKAGE_PATH, STORAGE_STATUSES, PackageStatus } from '../services/packageLifecycleService';
+import { locationService } from '../services/locationService';
+import { LocationSelect } from './LocationSelect';
+import { ScanInput, ScannedCode } from './ScanInput';
+import { reconciliationService, ReconciliationDeviation, RECONCILIATION_ISSUE_LABELS } from '../services/reconciliationService';
 
 type CompletionModalProps = {
   shipment: Shipment;
@@ -15,6 +20,7 @@ export function CompletionModal({ shipment, onClose, onComplete }: CompletionMod
   const [packages, setPackages] = useState<PackageType[]>([]);
   const [newPackagesList, setNewPackagesList] = useState<string[]>([]);
   const [packageLocations, setPackageLocations] = useState<Record<string, string>>({});
+  const [storageLocations, setStorageLocations] = useState<StorageLocationOccupancy[]>([]);
   const [packageDeviations, setPackageDeviations] = useState<Record<string, boolean>>({});
   const [packageDeviationNotes, setPackageDeviationNotes] = useState<Record<string, string>>({});
   const [newPackagesWithDeviations, setNewPackagesWithDeviations] = useState<PackageWithDeviation[]>([]);
@@ -26,13 +32,24 @@ export function CompletionModal({ shipment, onClose, onComplete }: CompletionMod
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
   const [loadingPackages, setLoadingPackages] = useState(true);
+  // Every scan in order, repeats included, so reconciliation can report duplicates
+  const [scanLog, setScanLog] = useState<string[]>([]);
+  const [skipReconciliation, setSkipReconciliation] = useState(false);
+  // Scanned SSCCs that weren't booked; they only become package rows when the task is completed
+  const [unexpectedSsccs, setUnexpectedSsccs] = useState<string[]>([]);
 
   useEffect(() => {
     loadOperators();
     loadPackages();
     loadOperatorAssignments();
+    loadStorageLocations();
   }, []);
 
+  const loadStorageLocations = async () => {
+    const data = await locationService.getOccupancy();
+    setStorageLocations(data);
+  };
+
   const loadOperators = async () => {
     const { data } = await supabase
       .from('operators')
@@ -104,6 +121,48 @@ export function CompletionModal({ shipment, onClose, onComplete }: CompletionMod
     setLoadingPackages(false);
   };
 
+  // Unsaved packages are keyed by SSCC until they get a row id
+  const draftPackageId = (sscc: string) => `unexpected:${sscc}`;
+  const draftPackages: PackageType[] = unexpectedSsccs.map(sscc => ({
+    id: draftPackageId(sscc),
+    shipment_id: shipment.id,
+    sscc_number: sscc,
+    storage_location: '',
+    status: 'expected',
+    created_at: '',
+    updated_at: ''
+  }));
+  const allPackages = [...packages, ...draftPackages];
+
+  const isIncoming = shipment.shipment_type === 'incoming';
+  const bookedSsccs = reconciliationService.parseBookedSsccs(shipment.sscc_numbers);
+  // With nothing scanned every booked SSCC is missing, unless the user explicitly skips it
+  const reconciliationSkipped = isIncoming && skipReconciliation && scanLog.length === 0;
+  const reconciliation = isIncoming && !reconciliationSkipped
+    ? reconciliationService.reconcile(bookedSsccs, scanLog)
+    : null;
+  const missingSsccs = new Set(reconciliation?.missing || []);
+  // Booked packages that weren't scanned stay expected and get no location
+  const receivedPackages = allPackages.filter(pkg => !missingSsccs.has(pkg.sscc_number));
+
+  // Packages this completion puts into each location, excluding ones already stored there
+  const getNewAssignments = () => {
+    const assignments: Record<string, number> = {};
+    if (shipment.shipment_type === 'outgoing') return assignments;
+
+    receivedPackages.forEach(pkg => {
+      const location = locationService.findLocation(storageLocations, packageLocations[pkg.id] || '');
+      if (!location) return;
+      const alreadyThere = STORAGE_STATUSES.includes(pkg.status) &&
+        pkg.storage_location?.toLowerCase() === location.code.toLowerCase();
+      if (!alreadyThere) {
+        assignments[location.code] = (assignments[location.code] || 0) + 1;
+      }
+    });
+
+    return assignments;
+  };
+
   const toggleOperator = (operatorName: string) => {
     if (selectedOperators.includes(operatorName)) {
       setSelectedOperators(selectedOperators.filter(o => o !== operatorName));
@@ -118,12 +177,26 @@ export function CompletionModal({ shipment, onClose, onComplete }: CompletionMod
       return;
     }
 
-    if (packages.length > 0) {
-      const missingLocations = packages.filter(pkg => !packageLocations[pkg.id]?.trim());
+    if (receivedPackages.length > 0) {
+      const missingLocations = receivedPackages.filter(pkg => !packageLocations[pkg.id]?.trim());
       if (missingLocations.length > 0) {
         setError(`Please specify storage location for all packages (${missingLocations.length} missing)`);
         return;
       }
+
+      const assignments = getNewAssignments();
+      const codes = [...new Set(receivedPackages.map(pkg => packageLocations[pkg.id].trim()))];
+      const problems = codes
+        .map(code => {
+          const location = locationService.findLocation(storageLocations, code);
+          return locationService.checkLocation(storageLocations, code, location ? assignments[location.code] || 0 : 0);
+        })
+        .filter(check => !check.valid);
+
+      if (problems.length > 0) {
+        setError(`Invalid storage locations: ${problems.map(p => p.error).join('; ')}`);
+        return;
+      }
     }
 
     if (selectedOperators.length === 0) {
@@ -131,6 +204,14 @@ export function CompletionModal({ shipment, onClose, onComplete }: CompletionMod
       return;
     }
 
+    if (reconciliation?.hasDiscrepancies &&
+        !confirm(
+          `Reconciliation found ${reconciliation.missing.length} missing, ${reconciliation.unexpected.length} unexpected ` +
+          `and ${reconciliation.duplicates.length} duplicate package(s). Deviations will be created for them. Complete?`
+        )) {
+      return;
+    }
+
     setSaving(true);
     setError('');
 
@@ -138,13 +219,85 @@ export function CompletionModal({ shipment, onClose, onComplete }: CompletionMod
       const { data: { user } } = await supabase.auth.getUser();
       const completedAt = new Date().toISOString();
 
-      for (const pkg of packages) {
-        const hasDeviation = packageDeviations[pkg.id] || false;
+      const isOutgoing = shipment.shipment_type === 'outgoing';
+
+      // Unexpected packages are inserted now, with the rest of the completion
+      const completionPackages = [...packages];
+      const draftIds = new Map<string, string>();
+      if (draftPackages.length > 0) {
+        const { data: inserted, error: insertError } = await supabase
+          .from('packages')
+          .insert(draftPackages.map(pkg => ({ shipment_id: shipment.id, sscc_number: pkg.sscc_number, status: 'expected' })))
+          .select();
+
+        if (insertError) throw insertError;
+
+        const remap = <T,>(values: Record<string, T>) => {
+          const remapped = { ...values };
+          (inserted || []).forEach(pkg => {
+            const draftId = draftPackageId(pkg.sscc_number);
+            if (draftId in remapped) {
+              remapped[pkg.id] = remapped[draftId];
+              delete remapped[draftId];
+            }
+          });
+          return remapped;
+        };
+
+        (inserted || []).forEach(pkg => {
+          draftIds.set(pkg.id, draftPackageId(pkg.sscc_number));
+          completionPackages.push(pkg);
+        });
+        // Keeps the new rows if a later step fails, so retrying doesn't insert them again
+        setPackages(current => [...current, ...(inserted || [])]);
+        setPackageLocations(remap);
+        setPackageDeviations(remap);
+        setPackageDeviationNotes(remap);
+        setUnexpectedSsccs([]);
+      }
+
+      const reconciliationDeviations = new Map<string, ReconciliationDeviation>();
+      reconciliation?.lines.forEach(line => {
+        const deviation = reconciliationService.getDeviation(line);
+        if (deviation) reconciliationDeviations.set(line.sscc, deviation);
+      });
+
+      const withUserNote = (pkgId: string, description: string) => {
+        const userNote = packageDeviationNotes[draftIds.get(pkgId) ?? pkgId] || '';
+        return userNote ? `${userNote}\n\nDetails: ${description}` : description;
+      };
+
+      // One deviation per SSCC, even when it has several package rows
+      const createReconciliationDeviation = async (sscc: string, packageId: string | null) => {
+        const deviation = reconciliationDeviations.get(sscc);
+        if (!deviation) return;
+        reconciliationDeviations.delete(sscc);
+
+        const result = await deviationService.createDeviation({
+          package_id: packageId,
+          shipment_id: shipment.id,
+          ...deviation,
+          description: packageId ? withUserNote(packageId, deviation.description) : deviation.description
+        });
+
+        if (!result.success) {
+          throw new Error(result.error || `Failed to record deviation for ${sscc}`);
+        }
+      };
+
+      for (const pkg of completionPackages) {
+        if (missingSsccs.has(pkg.sscc_number)) {
+          await createReconciliationDeviation(pkg.sscc_number, pkg.id);
+          continue;
+        }
+
+        const key = draftIds.get(pkg.id) ?? pkg.id;
+        const reconciled = reconciliationDeviations.has(pkg.sscc_number);
+        const hasDeviation = packageDeviations[key] || reconciled;
+        const location = packageLocations[key].trim();
         const { error: pkgError } = await supabase
           .from('packages')
           .update({
-            storage_location: packageLocations[pkg.id].trim(),
-            status: 'stored',
             has_deviation: hasDeviation,
             updated_at: completedAt
           })
@@ -152,12 +305,20 @@ export function CompletionModal({ shipment, onClose, onComplete }: CompletionMod
 
         if (pkgError) throw pkgError;
 
-        if (hasDeviation) {
-          const userNote = packageDeviationNotes[pkg.id] || '';
-          const defaultDescription = `Package ${pkg.sscc_number} flagged with issue during completion. Location: ${packageLocations[pkg.id].trim()}`;
-          const fullDescription = userNote
-            ? `${userNote}\n\nDetails: ${defaultDescription}`
-            : defaultDescription;
+        if (isOutgoing) {
+          await deliverPackage(pkg, location);
+        } else if (hasDeviation) {
+          await movePackage(pkg.id, pkg.status, 'putaway', location);
+          await movePackage(pkg.id, 'putaway', 'deviation_hold');
+        } else {
+          await movePackage(pkg.id, pkg.status, 'stored', location);
+        }
+
+        if (reconciled) {
+          await createReconciliationDeviation(pkg.sscc_number, pkg.id);
+        } else if (hasDeviation) {
+          const defaultDescription = `Package ${pkg.sscc_number} flagged with issue during completion. Location: ${location}`;
+          const fullDescription = withUserNote(pkg.id, defaultDescription);
 
           await deviationService.createDeviation({
             package_id: pkg.id,
@@ -169,9 +330,14 @@ export function CompletionModal({ shipment, onClose, onComplete }: CompletionMod
         }
       }
 
-      const allPackageNumbers = packages.map(p => p.sscc_number);
-      const allLocations = packages.length > 0
-        ? packages.map(pkg => `${pkg.sscc_number}: ${packageLocations[pkg.id]}`).join('; ')
+      // Booked SSCCs that never had a package row
+      for (const sscc of missingSsccs) {
+        await createReconciliationDeviation(sscc, null);
+      }
+
+      const allPackageNumbers = completionPackages.map(p => p.sscc_number);
+      const allLocations = receivedPackages.length > 0
+        ? receivedPackages.map(pkg => `${pkg.sscc_number}: ${packageLocations[pkg.id]}`).join('; ')
         : '';
 
       const { error: updateError } = await supabase
@@ -196,19 +362,68 @@ export function CompletionModal({ shipment, onClose, onComplete }: CompletionMod
         {
           title: shipment.title,
           previous_status: shipment.status,
-          packages_count: packages.length,
-          operators: selectedOperators
+          packages_count: completionPackages.length,
+          operators: selectedOperators,
+          reconciliation: reconciliation && {
+            booked: bookedSsccs.length,
+            scanned: scanLog.length,
+            missing: reconciliation.missing,
+            unexpected: reconciliation.unexpected,
+            duplicates: reconciliation.duplicates
+          },
+          reconciliation_skipped: reconciliationSkipped
         }
       );
 
       setSaving(false);
       onComplete();
     } catch (err) {
-      setError('Failed to update shipment');
+      console.error('Failed to complete shipment:', err);
+      setError(err instanceof Error && err.message ? `Failed to update shipment: ${err.message}` : 'Failed to update shipment');
       setSaving(false);
     }
   };
 
+  const movePackage = async (
+    packageId: string,
+    fromStatus: PackageStatus,
+    toStatus: PackageStatus,
+    storageLocation?: string
+  ) => {
+    // Packages already past the target on the main path only get their location updated
+    const fromIdx = MAIN_PACKAGE_PATH.indexOf(fromStatus);
+    const toIdx = MAIN_PACKAGE_PATH.indexOf(toStatus);
+    const target = fromIdx !== -1 && toIdx !== -1 && fromIdx > toIdx ? fromStatus : toStatus;
+
+    const result = await packageLifecycleService.transition(packageId, target, {
+      reason: `Completed "${shipment.title}"`,
+      storageLocation,
+      through: true
+    });
+
+    if (!result.success) {
+      throw new Error(result.error || 'Invalid package status transition');
+    }
+  };
+
+  const deliverPackage = async (pkg: PackageType, location: string) => {
+    await movePackage(pkg.id, pkg.status, 'delivered', location);
+
+    // The inbound row for the same SSCC is the one that sat in the warehouse
+    const { data: inboundRows, error: inboundError } = await supabase
+      .from('packages')
+      .select('id, status')
+      .eq('sscc_number', pkg.sscc_number)
+      .neq('shipment_id', shipment.id)
+      .in('status', ['stored', 'picked', 'loaded']);
+
+    if (inboundError) throw inboundError;
+
+    for (const inbound of inboundRows || []) {
+      await movePackage(inbound.id, inbound.status, 'delivered');
+    }
+  };
+
   const handleSaveNewPackages = async () => {
     if (newPackagesList.length === 0) {
       return;
@@ -220,7 +435,7 @@ export function CompletionModal({ shipment, onClose, onComplete }: CompletionMod
         return {
           shipment_id: shipment.id,
           sscc_number: sscc,
-          status: 'pending',
+          status: shipment.shipment_type === 'outgoing' ? 'picked' : 'expected',
           has_deviation: deviationInfo?.hasDeviation || false
         };
       });
@@ -234,6 +449,11 @@ export function CompletionModal({ shipment, onClose, onComplete }: CompletionMod
 
       if (data) {
         setPackages([...packages, ...data]);
+        // Packages added by hand were received, so they count as scanned
+        setScanLog(current => [
+          ...current,
+          ...data.map(pkg => pkg.sscc_number).filter(code => !current.includes(code))
+        ]);
         const newLocations = { ...packageLocations };
         const newDeviations = { ...packageDeviations };
         const newDeviationNotes = { ...packageDeviationNotes };
@@ -265,6 +485,16 @@ export function CompletionModal({ shipment, onClose, onComplete }: CompletionMod
       return;
     }
 
+    const draft = draftPackages.find(p => p.id === packageId);
+    if (draft) {
+      setUnexpectedSsccs(unexpectedSsccs.filter(code => code !== draft.sscc_number));
+      setScanLog(scanLog.filter(code => code !== draft.sscc_number));
+      const newLocations = { ...packageLocations };
+      delete newLocations[packageId];
+      setPackageLocations(newLocations);
+      return;
+    }
+
     try {
       const { error } = await supabase
         .from('packages')
@@ -273,7 +503,11 @@ export function CompletionModal({ shipment, onClose, onComplete }: CompletionMod
 
       if (error) throw error;
 
+      const removed = packages.find(p => p.id === packageId);
       setPackages(packages.filter(p => p.id !== packageId));
+      if (removed) {
+        setScanLog(scanLog.filter(code => code !== removed.sscc_number));
+      }
       const newLocations = { ...packageLocations };
       delete newLocations[packageId];
       setPackageLocations(newLocations);
@@ -289,6 +523,39 @@ export function CompletionModal({ shipment, onClose, onComplete }: CompletionMod
     return 'Complete Task';
   };
 
+  const handleScanPackage = ({ code }: ScannedCode) => {
+    const pkg = allPackages.find(p => p.sscc_number === code);
+    if (!pkg && !isIncoming) {
+      return `${code} is not in this shipment. Add it under Add/Remove Packages.`;
+    }
+    if (scanLog.includes(code)) {
+      if (!isIncoming) {
+        return `${code} was already scanned`;
+      }
+      setScanLog(current => [...current, code]);
+      return `${code} was already scanned; it will be reported as a duplicate`;
+    }
+
+    setScanLog(current => [...current, code]);
+    if (pkg) {
+      document.getElementById(`completion-package-${pkg.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    } else {
+      // A package that arrived without being booked is listed so it can be given a location
+      setUnexpectedSsccs(current => [...current, code]);
+      setPackageLocations(current => ({ ...current, [draftPackageId(code)]: '' }));
+    }
+  };
+
+  const newAssignments = getNewAssignments();
+  const scannedCount = allPackages.filter(pkg => scanLog.includes(pkg.sscc_number)).length;
+  const reconciliationGroups = reconciliation
+    ? [
+        { issue: 'missing' as const, ssccs: reconciliation.missing, className: 'text-red-700' },
+        { issue: 'unexpected' as const, ssccs: reconciliation.unexpected, className: 'text-orange-700' },
+        { issue: 'duplicate' as const, ssccs: reconciliation.duplicates, className: 'text-yellow-700' }
+      ].filter(group => group.ssccs.length > 0)
+    : [];
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
@@ -339,77 +606,134 @@ export function CompletionModal({ shipment, onClose, onComplete }: CompletionMod
             </label>
             {loadingPackages ? (
               <div className="text-sm text-slate-500 py-4 text-center">Loading packages...</div>
-            ) : packages.length === 0 ? (
+            ) : allPackages.length === 0 ? (
               <div className="text-sm text-slate-500 py-4 text-center">No packages found</div>
             ) : (
-              <div className="space-y-3 max-h-64 overflow-y-auto border border-slate-200 rounded-lg p-3">
-                {packages.map((pkg) => {
-                  const hasDeviation = packageDeviations[pkg.id] || false;
-                  return (
-                    <div
-                      key={pkg.id}
-                      className={`p-3 rounded-lg border transition-colors ${
-                        hasDeviation
-                          ? 'bg-orange-50 border-orange-300'
-                          : 'bg-white border-slate-200'
-                      }`}
-                    >
-                      <div className="flex items-center justify-between gap-2 mb-2">
-                        <div className="flex items-center gap-2 flex-1">
-                          <Package className="w-4 h-4 text-slate-400" />
-                          <span className={`text-sm font-semibold ${hasDeviation ? 'text-orange-900' : 'text-slate-900'}`}>
-                            {pkg.sscc_number}
-                          </span>
+              <div>
+                <div className="mb-2">
+                  <ScanInput
+                    onScan={handleScanPackage}
+                    placeholder="Scan a package label to find it"
+                    submitLabel="Find"
+                    compact
+                  />
+                  <p className="mt-1 text-xs text-slate-500">
+                    {scannedCount} of {allPackages.length} package{allPackages.length !== 1 ? 's' : ''} scanned
+                  </p>
+                </div>
+                {reconciliation && (
+                  <div className={`mb-2 p-3 rounded-lg border text-xs ${
+                    reconciliation.hasDiscrepancies ? 'bg-orange-50 border-orange-200' : 'bg-green-50 border-green-200'
+                  }`}>
+                    <p className="font-medium text-slate-900">
+                      Reconciliation: {reconciliation.matched.length} matched
+                      {reconciliationGroups.map(group => `, ${group.ssccs.length} ${RECONCILIATION_ISSUE_LABELS[group.issue].toLowerCase()}`).join('')}
+                    </p>
+                    {reconciliationGroups.map(group => (
+                      <p key={group.issue} className={`mt-1 break-all ${group.className}`}>
+                        {RECONCILIATION_ISSUE_LABELS[group.issue]}: {group.ssccs.join(', ')}
+                      </p>
+                    ))}
+                    {reconciliation.hasDiscrepancies && (
+                      <p className="mt-1 text-slate-600">Deviations are created for these on completion.</p>
+                    )}
+                  </div>
+                )}
+                <div className="space-y-3 max-h-64 overflow-y-auto border border-slate-200 rounded-lg p-3">
+                  {allPackages.map((pkg) => {
+                    const hasDeviation = packageDeviations[pkg.id] || false;
+                    const scanned = scanLog.includes(pkg.sscc_number);
+                    const missing = missingSsccs.has(pkg.sscc_number);
+                    return (
+                      <div
+                        key={pkg.id}
+                        id={`completion-package-${pkg.id}`}
+                        className={`p-3 rounded-lg border transition-colors ${
+                          missing
+                            ? 'bg-red-50 border-red-300'
+                            : hasDeviation
+                            ? 'bg-orange-50 border-orange-300'
+                            : scanned
+                            ? 'bg-green-50 border-green-300'
+                            : 'bg-white border-slate-200'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-2 mb-2">
+                          <div className="flex items-center gap-2 flex-1">
+                            <Package className="w-4 h-4 text-slate-400" />
+                            <span className={`text-sm font-semibold ${hasDeviation ? 'text-orange-900' : 'text-slate-900'}`}>
+                              {pkg.sscc_number}
+                            </span>
+                            {scanned && (
+                              <CheckCircle2 className="w-4 h-4 text-green-600" aria-label="Scanned" />
+                            )}
+                            {missing && (
+                              <span className="text-xs font-medium text-red-700">Not scanned</span>
+                            )}
+                            <button
+                              type="button"
+                              onClick={() => {
+                                setPackageDeviations({
+                                  ...packageDeviations,
+                                  [pkg.id]: !hasDeviation
+                                });
+                              }}
+                              className={`ml-2 flex items-center gap-1.5 px-2 py-1 rounded text-xs font-medium transition-colors ${
+                                hasDeviation
+                                  ? 'bg-orange-100 text-orange-700 hover:bg-orange-200'
+                                  : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                              }`}
+                              title={hasDeviation ? 'Mark as normal' : 'Mark as deviation'}
+                            >
+                              <AlertTriangle className={`w-3 h-3 ${hasDeviation ? 'text-orange-600' : 'text-slate-400'}`} />
+                              {hasDeviation ? 'Has Issue' : 'OK'}
+                            </button>
+                          </div>
                           <button
-                            type="button"
-                            onClick={() => {
-                              setPackageDeviations({
-                                ...packageDeviations,
-                                [pkg.id]: !hasDeviation
-                              });
-                            }}
-                            className={`ml-2 flex items-center gap-1.5 px-2 py-1 rounded text-xs font-medium transition-colors ${
-                              hasDeviation
-                                ? 'bg-orange-100 text-orange-700 hover:bg-orange-200'
-                                : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
-                            }`}
-                            title={hasDeviation ? 'Mark as normal' : 'Mark as deviation'}
+                            onClick={() => handleRemovePackage(pkg.id)}
+                            className="text-red-600 hover:text-red-700 hover:bg-red-50 p-1 rounded"
+                            title="Remove package"
                           >
-                            <AlertTriangle className={`w-3 h-3 ${hasDeviation ? 'text-orange-600' : 'text-slate-400'}`} />
-                            {hasDeviation ? 'Has Issue' : 'OK'}
+                            <X className="w-4 h-4" />
                           </button>
                         </div>
-                        <button
-                          onClick={() => handleRemovePackage(pkg.id)}
-                          className="text-red-600 hover:text-red-700 hover:bg-red-50 p-1 rounded"
-                          title="Remove package"
-                        >
-                          <X className="w-4 h-4" />
-                        </button>
-                      </div>
-                      {hasDeviation && (
-                        <div className="mb-2">
-                          <input
-                            type="text"
-                            value={packageDeviationNotes[pkg.id] || ''}
-                            onChange={(e) => setPackageDeviationNotes({ ...packageDeviationNotes, [pkg.id]: e.target.value })}
-                            className="w-full px-2 py-1.5 border border-orange-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 text-xs bg-white placeholder-slate-400"
-                            placeholder="Describe the issue (e.g., damaged, missing items, wrong location...)"
+                        {hasDeviation && (
+                          <div className="mb-2">
+                            <input
+                              type="text"
+                              value={packageDeviationNotes[pkg.id] || ''}
+                              onChange={(e) => setPackageDeviationNotes({ ...packageDeviationNotes, [pkg.id]: e.target.value })}
+                              className="w-full px-2 py-1.5 border border-orange-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 text-xs bg-white placeholder-slate-400"
+                              placeholder="Describe the issue (e.g., damaged, missing items, wrong location...)"
+                            />
+                          </div>
+                        )}
+                        {!missing && (
+                          <LocationSelect
+                            locations={storageLocations}
+                            value={packageLocations[pkg.id] || ''}
+                            onChange={(code) => setPackageLocations({ ...packageLocations, [pkg.id]: code })}
+                            reserved={newAssignments}
+                            ignoreCapacity={shipment.shipment_type === 'outgoing'}
                           />
-                        </div>
-                      )}
-                      <input
-                        type="text"
-                        value={packageLocations[pkg.id] || ''}
-                        onChange={(e) => setPackageLocations({ ...packageLocations, [pkg.id]: e.target.value })}
-                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
-                        placeholder="e.g., Warehouse A, Bay 12"
-                      />
-                    </div>
-                  );
-                })}
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
               </div>
             )}
+            {isIncoming && bookedSsccs.length > 0 && scanLog.length === 0 && (
+              <label className="mt-2 flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={skipReconciliation}
+                  onChange={(e) => setSkipReconciliation(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+                />
+                Complete without scanning; booked packages are not reconciled
+              </label>
+            )}
           </div>
 
           <div>
@@ -22,6 +22,7 @@ import {
   DeviationPriority,
   DeviationType
 } from '../services/deviationService';
+import { PACKAGE_STATUS_LABELS, isPackageStatus } from '../services/packageLifecycleService';
 
 const DEVIATION_TYPE_LABELS: Record<DeviationType, string> = {
   missing_from_booking: 'Missing from Booking',
@@ -46,7 +47,16 @@ const PRIORITY_COLORS: Record<DeviationPriority, string> = {
   urgent: 'bg-red-100 text-red-800'
 };
 
-export function DeviationsTab() {
+/** A jump from the global search to one deviation's details. */
+export type DeviationFocus = {
+  deviationId: string;
+};
+
+type DeviationsTabProps = {
+  focus?: DeviationFocus | null;
+};
+
+export function DeviationsTab({ focus }: DeviationsTabProps) {
   const [deviations, setDeviations] = useState<DeviationSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedDeviation, setSelectedDeviation] = useState<DeviationDetails | null>(null);
@@ -74,6 +84,12 @@ export function DeviationsTab() {
     return unsubscribe;
   }, [filterStatus, filterPriority]);
 
+  useEffect(() => {
+    if (focus) {
+      viewDetails(focus.deviationId);
+    }
+  }, [focus]);
+
   const loadDeviations = async () => {
     setLoading(true);
     const result = await deviationService.getDeviations({
@@ -437,9 +453,13 @@ export function DeviationsTab() {
                           <div className="flex items-center gap-3">
                             <span className="text-sm text-slate-600">{pkg.storage_location || 'No location'}</span>
                             <span className={`px-2 py-1 rounded text-xs ${
-                              pkg.status === 'completed' ? 'bg-green-100 text-green-800' : 'bg-slate-100 text-slate-700'
+                              pkg.status === 'stored' || pkg.status === 'delivered'
+                                ? 'bg-green-100 text-green-800'
+                                : pkg.status === 'deviation_hold' || pkg.status === 'quarantine'
+                                ? 'bg-orange-100 text-orange-800'
+                                : 'bg-slate-100 text-slate-700'
                             }`}>
-                              {pkg.status}
+                              {isPackageStatus(pkg.status) ? PACKAGE_STATUS_LABELS[pkg.status] : pkg.status}
                             </span>
                           </div>
                         </div>
@@ -0,0 +1,399 @@
+import { useState, useEffect } from 'react';
+import { DockDoor } from '../lib/supabase';
+import { DoorOpen, AlertTriangle, Plus, Check, X, ChevronLeft, ChevronRight, Edit2, Power } from 'lucide-react';
+import { dockService, DockBooking, INTENSITY_POINTS } from '../services/dockService';
+import {
+  loadDateSettings,
+  addWarehouseDays,
+  getWarehouseParts,
+  toWarehouseDateKey,
+  fromWarehouseInputValue,
+  formatWarehouseDate
+} from '../utils/dateTime';
+
+type DoorForm = {
+  id?: string;
+  name: string;
+  slot_minutes: number;
+  daily_capacity_points: number;
+  open_time: string;
+  close_time: string;
+  sort_order: number;
+};
+
+const EMPTY_DOOR: DoorForm = {
+  name: '',
+  slot_minutes: 30,
+  daily_capacity_points: 12,
+  open_time: '06:00',
+  close_time: '18:00',
+  sort_order: 0
+};
+
+const INTENSITY_COLORS: Record<DockBooking['intensity'], string> = {
+  low: 'bg-green-100 border-green-400 text-green-900',
+  medium: 'bg-yellow-100 border-yellow-400 text-yellow-900',
+  high: 'bg-red-100 border-red-400 text-red-900'
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(n => parseInt(n, 10));
+  return hours * 60 + (minutes || 0);
+};
+
+export function DockScheduleTab() {
+  const [doors, setDoors] = useState<DockDoor[]>([]);
+  const [bookings, setBookings] = useState<DockBooking[]>([]);
+  const [selectedDay, setSelectedDay] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [doorForm, setDoorForm] = useState<DoorForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+
+  useEffect(() => {
+    loadDateSettings().then(() => {
+      setSelectedDay(toWarehouseDateKey(new Date()));
+    });
+    loadDoors();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedDay) return;
+
+    const loadBookings = async () => {
+      setLoading(true);
+      const dayStart = new Date(fromWarehouseInputValue(`${selectedDay}T00:00`));
+      const data = await dockService.getBookings(dayStart, addWarehouseDays(dayStart, 1));
+      setBookings(data);
+      setLoading(false);
+    };
+
+    loadBookings();
+  }, [selectedDay]);
+
+  const loadDoors = async () => {
+    const data = await dockService.getDoors(true);
+    setDoors(data);
+  };
+
+  const shiftDay = (days: number) => {
+    const dayStart = new Date(fromWarehouseInputValue(`${selectedDay}T00:00`));
+    setSelectedDay(toWarehouseDateKey(addWarehouseDays(dayStart, days)));
+  };
+
+  const saveDoor = async () => {
+    if (!doorForm || !doorForm.name.trim()) return;
+
+    if (toMinutes(doorForm.close_time) <= toMinutes(doorForm.open_time)) {
+      setResult({ success: false, message: 'Closing time must be after opening time' });
+      return;
+    }
+
+    setSaving(true);
+    const existing = doors.find(d => d.id === doorForm.id);
+    const response = await dockService.saveDoor({ ...doorForm, active: existing?.active ?? true });
+
+    if (response.success) {
+      setResult({ success: true, message: `Saved ${doorForm.name.trim()}` });
+      setDoorForm(null);
+      loadDoors();
+    } else {
+      setResult({ success: false, message: response.error || 'Failed to save door' });
+    }
+    setSaving(false);
+  };
+
+  const toggleDoorActive = async (door: DockDoor) => {
+    const response = await dockService.saveDoor({ ...door, active: !door.active });
+    if (!response.success) {
+      setResult({ success: false, message: response.error || 'Failed to update door' });
+      return;
+    }
+    loadDoors();
+  };
+
+  const activeDoors = doors.filter(d => d.active);
+  const doubleBookings = dockService.findDoubleBookings(bookings);
+  const doorLoads = dockService.getDoorLoads(doors, bookings);
+  const overloadedDoors = doorLoads.filter(l => l.overCapacity);
+  const conflictIds = new Set(doubleBookings.flatMap(c => [c.first.id, c.second.id]));
+  const doorName = (id: string) => doors.find(d => d.id === id)?.name || 'Unknown door';
+  const formatTime = (value: string | null | undefined) =>
+    formatWarehouseDate(value || null, { hour: '2-digit', minute: '2-digit' }, '-');
+
+  const timelineStart = activeDoors.length > 0 ? Math.min(...activeDoors.map(d => toMinutes(d.open_time))) : 6 * 60;
+  const timelineEnd = activeDoors.length > 0 ? Math.max(...activeDoors.map(d => toMinutes(d.close_time))) : 18 * 60;
+  const timelineLength = Math.max(timelineEnd - timelineStart, 60);
+  const hourMarks: number[] = [];
+  for (let m = Math.ceil(timelineStart / 60) * 60; m <= timelineEnd; m += 60) {
+    hourMarks.push(m);
+  }
+
+  const getSlotStyle = (booking: DockBooking) => {
+    const start = getWarehouseParts(new Date(booking.slot_start!));
+    const startMinutes = start.hour * 60 + start.minute;
+    const endMinutes = booking.slot_end
+      ? startMinutes + (new Date(booking.slot_end).getTime() - new Date(booking.slot_start!).getTime()) / 60000
+      : startMinutes + 30;
+    const left = Math.max(0, (startMinutes - timelineStart) / timelineLength) * 100;
+    const width = Math.max(2, ((Math.min(endMinutes, timelineEnd) - Math.max(startMinutes, timelineStart)) / timelineLength) * 100);
+    return { left: `${left}%`, width: `${width}%` };
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold text-slate-900 flex items-center gap-2">
+          <DoorOpen className="w-6 h-6" />
+          Dock Schedule
+        </h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => shiftDay(-1)}
+            className="p-2 border border-slate-300 rounded-lg hover:bg-slate-50"
+            title="Previous day"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <input
+            type="date"
+            value={selectedDay}
+            onChange={(e) => e.target.value && setSelectedDay(e.target.value)}
+            className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={() => shiftDay(1)}
+            className="p-2 border border-slate-300 rounded-lg hover:bg-slate-50"
+            title="Next day"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {result && (
+        <div className={`p-3 rounded-lg flex items-center gap-2 text-sm ${result.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+          {result.success ? <Check className="w-4 h-4" /> : <X className="w-4 h-4" />}
+          {result.message}
+        </div>
+      )}
+
+      {(doubleBookings.length > 0 || overloadedDoors.length > 0) && (
+        <div className="bg-orange-50 border border-orange-200 rounded-lg p-4 space-y-1">
+          <p className="text-sm font-semibold text-orange-900 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" />
+            Schedule warnings
+          </p>
+          {doubleBookings.map(c => (
+            <p key={`${c.first.id}-${c.second.id}`} className="text-sm text-orange-800">
+              {doorName(c.doorId)} is double-booked: "{c.first.title}" ({formatTime(c.first.slot_start)}–{formatTime(c.first.slot_end)}) overlaps "{c.second.title}" ({formatTime(c.second.slot_start)}–{formatTime(c.second.slot_end)})
+            </p>
+          ))}
+          {overloadedDoors.map(l => (
+            <p key={l.doorId} className="text-sm text-orange-800">
+              {doorName(l.doorId)} is over capacity: {l.points} intensity points booked, capacity is {l.capacity}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-4">
+        {loading ? (
+          <div className="text-slate-600 text-sm">Loading schedule...</div>
+        ) : activeDoors.length === 0 ? (
+          <div className="text-slate-500 text-sm">No active dock doors. Add one below.</div>
+        ) : (
+          <div className="space-y-3">
+            <div className="relative h-5 ml-32 text-xs text-slate-500">
+              {hourMarks.map(m => (
+                <span
+                  key={m}
+                  className="absolute -translate-x-1/2"
+                  style={{ left: `${((m - timelineStart) / timelineLength) * 100}%` }}
+                >
+                  {String(Math.floor(m / 60)).padStart(2, '0')}:00
+                </span>
+              ))}
+            </div>
+
+            {activeDoors.map(door => {
+              const load = doorLoads.find(l => l.doorId === door.id);
+              const doorBookings = bookings.filter(b => b.dock_door_id === door.id && b.slot_start);
+              const openLeft = ((toMinutes(door.open_time) - timelineStart) / timelineLength) * 100;
+              const openWidth = ((toMinutes(door.close_time) - toMinutes(door.open_time)) / timelineLength) * 100;
+
+              return (
+                <div key={door.id} className="flex items-center gap-2">
+                  <div className="w-32 shrink-0">
+                    <p className="text-sm font-medium text-slate-900">{door.name}</p>
+                    <p className={`text-xs ${load?.overCapacity ? 'text-red-600 font-semibold' : 'text-slate-500'}`}>
+                      {load?.points || 0}/{door.daily_capacity_points} pts
+                    </p>
+                  </div>
+                  <div className="relative flex-1 h-12 bg-slate-100 rounded">
+                    <div
+                      className="absolute top-0 bottom-0 bg-white border-x border-slate-200"
+                      style={{ left: `${openLeft}%`, width: `${openWidth}%` }}
+                    />
+                    {doorBookings.map(booking => (
+                      <div
+                        key={booking.id}
+                        className={`absolute top-1 bottom-1 border rounded px-1 text-xs overflow-hidden whitespace-nowrap ${INTENSITY_COLORS[booking.intensity]} ${conflictIds.has(booking.id) ? 'ring-2 ring-orange-500' : ''} ${booking.status === 'completed' ? 'opacity-50' : ''}`}
+                        style={getSlotStyle(booking)}
+                        title={`${booking.title}\n${formatTime(booking.slot_start)}–${formatTime(booking.slot_end)} · ${booking.intensity} (${INTENSITY_POINTS[booking.intensity]} pts)`}
+                      >
+                        {formatTime(booking.slot_start)} {booking.title}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+
+            <p className="text-xs text-slate-500">
+              Shipments are booked into doors from the Shipments tab. Bookings are coloured by intensity; outlined bookings overlap another slot on the same door.
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
+          <h3 className="font-semibold text-slate-900">Dock Doors</h3>
+          <button
+            onClick={() => setDoorForm({ ...EMPTY_DOOR, sort_order: doors.length + 1 })}
+            className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-2 text-sm"
+          >
+            <Plus className="w-4 h-4" />
+            Add Door
+          </button>
+        </div>
+
+        {doorForm && (
+          <div className="p-4 bg-blue-50 border-b border-blue-200 grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+            <div className="col-span-2 md:col-span-1">
+              <label className="block text-xs font-medium text-slate-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={doorForm.name}
+                onChange={(e) => setDoorForm({ ...doorForm, name: e.target.value })}
+                placeholder="Door 4"
+                className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Slot (min)</label>
+              <input
+                type="number"
+                min={5}
+                step={5}
+                value={doorForm.slot_minutes}
+                onChange={(e) => setDoorForm({ ...doorForm, slot_minutes: parseInt(e.target.value, 10) || 30 })}
+                className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Capacity (pts/day)</label>
+              <input
+                type="number"
+                min={1}
+                value={doorForm.daily_capacity_points}
+                onChange={(e) => setDoorForm({ ...doorForm, daily_capacity_points: parseInt(e.target.value, 10) || 1 })}
+                className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Opens</label>
+              <input
+                type="time"
+                value={doorForm.open_time}
+                onChange={(e) => setDoorForm({ ...doorForm, open_time: e.target.value })}
+                className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Closes</label>
+              <input
+                type="time"
+                value={doorForm.close_time}
+                onChange={(e) => setDoorForm({ ...doorForm, close_time: e.target.value })}
+                className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+              />
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={saveDoor}
+                disabled={saving || !doorForm.name.trim()}
+                className="px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm disabled:opacity-50"
+              >
+                Save
+              </button>
+              <button
+                onClick={() => setDoorForm(null)}
+                className="px-3 py-1.5 bg-slate-200 text-slate-700 rounded-lg hover:bg-slate-300 text-sm"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        <table className="w-full">
+          <thead className="bg-slate-50 border-b border-slate-200">
+            <tr>
+              <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Door</th>
+              <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Slot Length</th>
+              <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Daily Capacity</th>
+              <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Hours</th>
+              <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Status</th>
+              <th className="px-4 py-2 text-right text-sm font-medium text-slate-700">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200">
+            {doors.map(door => (
+              <tr key={door.id} className="hover:bg-slate-50">
+                <td className="px-4 py-2 text-sm font-medium text-slate-900">{door.name}</td>
+                <td className="px-4 py-2 text-sm text-slate-600">{door.slot_minutes} min</td>
+                <td className="px-4 py-2 text-sm text-slate-600">{door.daily_capacity_points} pts</td>
+                <td className="px-4 py-2 text-sm text-slate-600">
+                  {door.open_time.slice(0, 5)}–{door.close_time.slice(0, 5)}
+                </td>
+                <td className="px-4 py-2">
+                  <span className={`px-2 py-1 text-xs font-medium rounded ${door.active ? 'bg-green-100 text-green-800' : 'bg-slate-100 text-slate-600'}`}>
+                    {door.active ? 'Active' : 'Inactive'}
+                  </span>
+                </td>
+                <td className="px-4 py-2 text-right">
+                  <div className="flex items-center justify-end gap-2">
+                    <button
+                      onClick={() => setDoorForm({
+                        id: door.id,
+                        name: door.name,
+                        slot_minutes: door.slot_minutes,
+                        daily_capacity_points: door.daily_capacity_points,
+                        open_time: door.open_time.slice(0, 5),
+                        close_time: door.close_time.slice(0, 5),
+                        sort_order: door.sort_order
+                      })}
+                      className="p-1 text-slate-500 hover:text-blue-600"
+                      title="Edit door"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => toggleDoorActive(door)}
+                      className={`p-1 ${door.active ? 'text-slate-500 hover:text-red-600' : 'text-slate-400 hover:text-green-600'}`}
+                      title={door.active ? 'Deactivate door' : 'Activate door'}
+                    >
+                      <Power className="w-4 h-4" />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,329 @@
+import { useState, useEffect } from 'react';
+import { Plus, Check, X, Edit2, Trash2, Power } from 'lucide-react';
+import {
+  dwellLimitService,
+  DwellLimitRule,
+  DwellRuleScope,
+  DwellSettings,
+  DEFAULT_DWELL_SETTINGS,
+  DWELL_RULE_SCOPE_LABELS,
+  parseWarningDays
+} from '../services/dwellLimitService';
+
+type RuleForm = {
+  id?: string;
+  scope: DwellRuleScope;
+  match_value: string;
+  limit_days: number;
+  notes: string;
+};
+
+const EMPTY_RULE: RuleForm = {
+  scope: 'title_prefix',
+  match_value: '',
+  limit_days: 42,
+  notes: ''
+};
+
+const MATCH_PLACEHOLDERS: Record<DwellRuleScope, string> = {
+  package: 'SSCC, e.g. G134U12G-3',
+  title_prefix: 'Customer prefix, e.g. HMP',
+  category: 'Category, e.g. INCOMING'
+};
+
+type DwellRulesPanelProps = {
+  onChange: () => void;
+};
+
+export function DwellRulesPanel({ onChange }: DwellRulesPanelProps) {
+  const [rules, setRules] = useState<DwellLimitRule[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [defaultLimit, setDefaultLimit] = useState(String(DEFAULT_DWELL_SETTINGS.defaultLimitDays));
+  const [warningDays, setWarningDays] = useState(DEFAULT_DWELL_SETTINGS.warningDays.join(', '));
+  const [ruleForm, setRuleForm] = useState<RuleForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+
+  useEffect(() => {
+    loadRules();
+    loadSettings();
+  }, []);
+
+  const loadRules = async () => {
+    const [data, categoryList] = await Promise.all([
+      dwellLimitService.getRules(),
+      dwellLimitService.getCategories()
+    ]);
+    setRules(data);
+    setCategories(categoryList.map(c => c.name));
+  };
+
+  const loadSettings = async () => {
+    const settings = await dwellLimitService.getSettings();
+    setDefaultLimit(String(settings.defaultLimitDays));
+    setWarningDays(settings.warningDays.join(', '));
+  };
+
+  const saveSettings = async () => {
+    const limit = parseInt(defaultLimit, 10);
+    if (!Number.isFinite(limit) || limit <= 0) {
+      setResult({ success: false, message: 'Default limit must be a positive number of days' });
+      return;
+    }
+
+    const settings: DwellSettings = { defaultLimitDays: limit, warningDays: parseWarningDays(warningDays) };
+    const response = await dwellLimitService.saveSettings(settings);
+
+    if (response.success) {
+      setWarningDays(settings.warningDays.join(', '));
+      setResult({ success: true, message: 'Dwell settings saved' });
+      onChange();
+    } else {
+      setResult({ success: false, message: response.error || 'Failed to save settings' });
+    }
+  };
+
+  const saveRule = async () => {
+    if (!ruleForm || !ruleForm.match_value.trim()) return;
+
+    setSaving(true);
+    const existing = rules.find(r => r.id === ruleForm.id);
+    const response = await dwellLimitService.saveRule({ ...ruleForm, active: existing?.active ?? true });
+
+    if (response.success) {
+      setResult({ success: true, message: `Saved rule for ${ruleForm.match_value.trim()}` });
+      setRuleForm(null);
+      await loadRules();
+      onChange();
+    } else {
+      setResult({ success: false, message: response.error || 'Failed to save rule' });
+    }
+    setSaving(false);
+  };
+
+  const toggleRule = async (rule: DwellLimitRule) => {
+    const response = await dwellLimitService.saveRule({ ...rule, active: !rule.active });
+    if (!response.success) {
+      setResult({ success: false, message: response.error || 'Failed to update rule' });
+      return;
+    }
+    await loadRules();
+    onChange();
+  };
+
+  const deleteRule = async (rule: DwellLimitRule) => {
+    if (!confirm(`Delete the ${DWELL_RULE_SCOPE_LABELS[rule.scope].toLowerCase()} rule for "${rule.match_value}"?`)) {
+      return;
+    }
+
+    const response = await dwellLimitService.deleteRule(rule.id);
+    if (!response.success) {
+      setResult({ success: false, message: response.error || 'Failed to delete rule' });
+      return;
+    }
+    await loadRules();
+    onChange();
+  };
+
+  return (
+    <div className="space-y-4">
+      {result && (
+        <div className={`p-3 rounded-lg flex items-center gap-2 text-sm ${result.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+          {result.success ? <Check className="w-4 h-4" /> : <X className="w-4 h-4" />}
+          {result.message}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg border border-slate-200 p-4">
+        <h3 className="font-semibold text-slate-900 mb-3">Defaults & Warnings</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Default limit (days)</label>
+            <input
+              type="number"
+              min={1}
+              value={defaultLimit}
+              onChange={(e) => setDefaultLimit(e.target.value)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Warn at days before expiry</label>
+            <input
+              type="text"
+              value={warningDays}
+              onChange={(e) => setWarningDays(e.target.value)}
+              placeholder="7, 1"
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <button
+            onClick={saveSettings}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            Save Settings
+          </button>
+        </div>
+        <p className="text-xs text-slate-500 mt-2">
+          The default applies when no rule matches and the package has no imported Limit Weeks.
+          Each warning threshold escalates the package's highlight in the report.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg border border-slate-200 overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold text-slate-900">Dwell Limit Rules</h3>
+            <p className="text-xs text-slate-500">Package rules win over title prefix rules, which win over category rules.</p>
+          </div>
+          <button
+            onClick={() => setRuleForm({ ...EMPTY_RULE, limit_days: parseInt(defaultLimit, 10) || EMPTY_RULE.limit_days })}
+            className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-2 text-sm"
+          >
+            <Plus className="w-4 h-4" />
+            Add Rule
+          </button>
+        </div>
+
+        {ruleForm && (
+          <div className="p-4 bg-blue-50 border-b border-blue-200 grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Applies to</label>
+              <select
+                value={ruleForm.scope}
+                onChange={(e) => setRuleForm({ ...ruleForm, scope: e.target.value as DwellRuleScope, match_value: '' })}
+                className="w-full px-2 py-1 border border-slate-300 rounded text-sm bg-white"
+              >
+                {(Object.keys(DWELL_RULE_SCOPE_LABELS) as DwellRuleScope[]).map(scope => (
+                  <option key={scope} value={scope}>{DWELL_RULE_SCOPE_LABELS[scope]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Match</label>
+              {ruleForm.scope === 'category' ? (
+                <select
+                  value={ruleForm.match_value}
+                  onChange={(e) => setRuleForm({ ...ruleForm, match_value: e.target.value })}
+                  className="w-full px-2 py-1 border border-slate-300 rounded text-sm bg-white"
+                >
+                  <option value="">Select category...</option>
+                  {[...categories, 'OTHER'].map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  value={ruleForm.match_value}
+                  onChange={(e) => setRuleForm({ ...ruleForm, match_value: e.target.value })}
+                  placeholder={MATCH_PLACEHOLDERS[ruleForm.scope]}
+                  className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+                />
+              )}
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Limit (days)</label>
+              <input
+                type="number"
+                min={1}
+                value={ruleForm.limit_days}
+                onChange={(e) => setRuleForm({ ...ruleForm, limit_days: parseInt(e.target.value, 10) || 1 })}
+                className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Notes</label>
+              <input
+                type="text"
+                value={ruleForm.notes}
+                onChange={(e) => setRuleForm({ ...ruleForm, notes: e.target.value })}
+                className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+              />
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={saveRule}
+                disabled={saving || !ruleForm.match_value.trim()}
+                className="px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm disabled:opacity-50"
+              >
+                Save
+              </button>
+              <button
+                onClick={() => setRuleForm(null)}
+                className="px-3 py-1.5 bg-slate-200 text-slate-700 rounded-lg hover:bg-slate-300 text-sm"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {rules.length === 0 ? (
+          <div className="p-4 text-sm text-slate-500">
+            No rules yet. Every package uses its imported limit or the default.
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Applies to</th>
+                <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Match</th>
+                <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Limit</th>
+                <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Notes</th>
+                <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Status</th>
+                <th className="px-4 py-2 text-right text-sm font-medium text-slate-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {rules.map(rule => (
+                <tr key={rule.id} className={`hover:bg-slate-50 ${!rule.active ? 'opacity-60' : ''}`}>
+                  <td className="px-4 py-2 text-sm text-slate-600">{DWELL_RULE_SCOPE_LABELS[rule.scope]}</td>
+                  <td className="px-4 py-2 text-sm font-mono text-slate-900">{rule.match_value}</td>
+                  <td className="px-4 py-2 text-sm text-slate-600">{rule.limit_days} days</td>
+                  <td className="px-4 py-2 text-sm text-slate-500">{rule.notes}</td>
+                  <td className="px-4 py-2">
+                    <span className={`px-2 py-1 text-xs font-medium rounded ${rule.active ? 'bg-green-100 text-green-800' : 'bg-slate-100 text-slate-600'}`}>
+                      {rule.active ? 'Active' : 'Inactive'}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <div className="flex items-center justify-end gap-2">
+                      <button
+                        onClick={() => setRuleForm({
+                          id: rule.id,
+                          scope: rule.scope,
+                          match_value: rule.match_value,
+                          limit_days: rule.limit_days,
+                          notes: rule.notes || ''
+                        })}
+                        className="p-1 text-slate-500 hover:text-blue-600"
+                        title="Edit rule"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => toggleRule(rule)}
+                        className={`p-1 ${rule.active ? 'text-slate-500 hover:text-red-600' : 'text-slate-400 hover:text-green-600'}`}
+                        title={rule.active ? 'Deactivate rule' : 'Activate rule'}
+                      >
+                        <Power className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => deleteRule(rule)}
+                        className="p-1 text-slate-500 hover:text-red-600"
+                        title="Delete rule"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
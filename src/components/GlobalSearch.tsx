@@ -0,0 +1,173 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  Search, Loader2, ClipboardList, Package as PackageIcon, AlertTriangle, Truck, X, type LucideIcon
+} from 'lucide-react';
+import {
+  searchService,
+  SearchResult,
+  SearchResultGroup,
+  SearchResultType,
+  SEARCH_MATCHED_FIELD_LABELS,
+  MIN_SEARCH_LENGTH
+} from '../services/searchService';
+import { formatWarehouseDate } from '../utils/dateTime';
+
+type GlobalSearchProps = {
+  onSelect: (result: SearchResult) => void;
+};
+
+const GROUP_ICONS: Record<SearchResultType, LucideIcon> = {
+  shipment: ClipboardList,
+  package: PackageIcon,
+  deviation: AlertTriangle,
+  vehicle: Truck
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  completed: 'bg-green-100 text-green-800',
+  stored: 'bg-green-100 text-green-800',
+  resolved: 'bg-green-100 text-green-800',
+  closed: 'bg-slate-100 text-slate-700',
+  delivered: 'bg-slate-100 text-slate-700',
+  in_progress: 'bg-blue-100 text-blue-800',
+  open: 'bg-orange-100 text-orange-800',
+  escalated: 'bg-red-100 text-red-800',
+  quarantine: 'bg-orange-100 text-orange-800',
+  deviation_hold: 'bg-orange-100 text-orange-800'
+};
+
+export function GlobalSearch({ onSelect }: GlobalSearchProps) {
+  const [query, setQuery] = useState('');
+  const [groups, setGroups] = useState<SearchResultGroup[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [searched, setSearched] = useState(false);
+  const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const latestQueryRef = useRef('');
+
+  useEffect(() => {
+    if (searchTimeoutRef.current) {
+      clearTimeout(searchTimeoutRef.current);
+    }
+
+    latestQueryRef.current = query;
+
+    if (query.trim().length < MIN_SEARCH_LENGTH) {
+      setGroups([]);
+      setSearched(false);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    searchTimeoutRef.current = setTimeout(async () => {
+      const found = await searchService.search(query);
+      // A slower response for an earlier query must not replace newer results
+      if (latestQueryRef.current !== query) return;
+      setGroups(found);
+      setSearched(true);
+      setSearching(false);
+    }, 300);
+
+    return () => {
+      if (searchTimeoutRef.current) {
+        clearTimeout(searchTimeoutRef.current);
+      }
+    };
+  }, [query]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && groups.length > 0 && !searching) {
+      onSelect(groups[0].results[0]);
+    }
+  };
+
+  const totalResults = groups.reduce((sum, group) => sum + group.results.length, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search SSCC, title, car reg, location, notes, operators or deviations..."
+          className="w-full pl-10 pr-10 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+          autoFocus
+        />
+        {searching ? (
+          <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 w-5 h-5 animate-spin text-blue-600" />
+        ) : query && (
+          <button
+            onClick={() => setQuery('')}
+            className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
+            title="Clear search"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+
+      {searched && !searching && totalResults === 0 && (
+        <div className="p-8 text-center">
+          <Search className="w-12 h-12 mx-auto mb-3 text-slate-300" />
+          <p className="text-sm font-medium text-slate-900 mb-1">No results for "{query.trim()}"</p>
+          <p className="text-xs text-slate-500">Try part of an SSCC, a registration or another spelling</p>
+        </div>
+      )}
+
+      {groups.length > 0 && (
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+          {groups.map(group => {
+            const GroupIcon = GROUP_ICONS[group.type];
+            return (
+              <div key={group.type} className="border border-slate-200 rounded-lg overflow-hidden">
+                <div className="px-4 py-2 bg-slate-50 border-b border-slate-200 flex items-center gap-2">
+                  <GroupIcon className="w-4 h-4 text-slate-500" />
+                  <span className="text-sm font-medium text-slate-700">{group.label}</span>
+                  <span className="text-xs text-slate-500">({group.results.length})</span>
+                </div>
+                <div className="divide-y divide-slate-200">
+                  {group.results.map(result => (
+                    <button
+                      key={`${result.result_type}-${result.result_id}`}
+                      onClick={() => onSelect(result)}
+                      className="w-full px-4 py-3 hover:bg-slate-50 transition-colors text-left"
+                    >
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="flex-1 min-w-0">
+                          <p className="font-semibold text-slate-900 truncate">{result.title || '(untitled)'}</p>
+                          {result.subtitle && (
+                            <p className="text-sm text-slate-600 truncate">{result.subtitle}</p>
+                          )}
+                          {result.matched_value && result.matched_value !== result.title && (
+                            <p className="text-xs text-slate-500 mt-1 truncate">
+                              {SEARCH_MATCHED_FIELD_LABELS[result.matched_field] || result.matched_field}: {result.matched_value}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                          {result.status && (
+                            <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${STATUS_COLORS[result.status] || 'bg-yellow-100 text-yellow-800'}`}>
+                              {result.status.replace(/_/g, ' ')}
+                            </span>
+                          )}
+                          {result.occurred_at && (
+                            <span className="text-xs text-slate-400">
+                              {formatWarehouseDate(result.occurred_at, { day: '2-digit', month: 'short', year: 'numeric' })}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
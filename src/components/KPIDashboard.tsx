@@ -1,10 +1,24 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { kpiService, OperatorPerformance, CategoryStatistics, OperatorMissingCategories, ShipmentStats, TaskCategory } from '../services/kpiService';
-import { TrendingUp, Award, BarChart3, AlertTriangle, RefreshCw, ChevronDown, ChevronRight, Calendar, Target, ShieldAlert, Search, X, Plus, Edit2, Trash2, Settings } from 'lucide-react';
-
-type TimeRange = 'today' | 'week' | 'month' | 'all';
-type ActiveView = 'rankings' | 'categories' | 'balance' | 'manage-categories';
+import { kpiService, OperatorPerformance, CategoryStatistics, OperatorMissingCategories, ShipmentStats, TaskCategory, KpiWeightSet, KpiFilters, WorkShift } from '../services/kpiService';
+import { TrendingUp, Award, BarChart3, AlertTriangle, RefreshCw, ChevronDown, ChevronRight, Calendar, Target, ShieldAlert, Search, X, Plus, Edit2, Trash2, Settings, Layers, ArrowLeftRight, LineChart, Timer } from 'lucide-react';
+import { KPIScoringModel } from './KPIScoringModel';
+import { KPIShiftsPanel } from './KPIShiftsPanel';
+import { KPITrends } from './KPITrends';
+import { KPIHandlingTimes } from './KPIHandlingTimes';
+import { addWarehouseDays, toWarehouseDateKey } from '../utils/dateTime';
+import {
+  KpiTimeRange,
+  KpiPeriod,
+  getKpiPeriod,
+  getPreviousKpiPeriod,
+  formatKpiPeriod,
+  compareOperatorPerformance,
+  compareCategories,
+  formatDelta
+} from '../utils/kpiPeriods';
+
+type ActiveView = 'rankings' | 'trends' | 'handling' | 'categories' | 'balance' | 'manage-categories' | 'scoring';
 
 (window as any).checkKPIAccess = async () => {
   console.group('🔍 Quick KPI Access Diagnostic');
@@ -56,11 +70,29 @@ export function KPIDashboard() {
   const [missingCategories, setMissingCategories] = useState<OperatorMissingCategories[]>([]);
   const [shipmentStats, setShipmentStats] = useState<ShipmentStats | null>(null);
   const [categories, setCategories] = useState<TaskCategory[]>([]);
+  const [weightSets, setWeightSets] = useState<KpiWeightSet[]>([]);
+  // null scores every task with the weight set effective when it was completed
+  const [weightVersion, setWeightVersion] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [hasAccess, setHasAccess] = useState(false);
+  const [isAdmin, setIsAdmin] = useState(false);
   const [expandedOperator, setExpandedOperator] = useState<string | null>(null);
   const [activeView, setActiveView] = useState<ActiveView>('rankings');
-  const [timeRange, setTimeRange] = useState<TimeRange>('all');
+  const [timeRange, setTimeRange] = useState<KpiTimeRange>('all');
+  const [customRange, setCustomRange] = useState(() => ({
+    from: toWarehouseDateKey(addWarehouseDays(new Date(), -6)),
+    to: toWarehouseDateKey()
+  }));
+  const [shifts, setShifts] = useState<WorkShift[]>([]);
+  const [shiftId, setShiftId] = useState<string | null>(null);
+  const [compare, setCompare] = useState(false);
+  // Filters of the last load, so the trends tab shows the same period without refetching on every render
+  const [appliedFilters, setAppliedFilters] = useState<{ filters: KpiFilters; period: KpiPeriod | null }>({
+    filters: {},
+    period: null
+  });
+  const [periods, setPeriods] = useState<{ current: KpiPeriod; previous: KpiPeriod } | null>(null);
+  const [previousPerformance, setPreviousPerformance] = useState<OperatorPerformance[] | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [categorySearchQuery, setCategorySearchQuery] = useState('');
   const [balanceSearchQuery, setBalanceSearchQuery] = useState('');
@@ -78,7 +110,7 @@ export function KPIDashboard() {
     if (hasAccess) {
       loadData();
     }
-  }, [timeRange, hasAccess]);
+  }, [timeRange, customRange, shiftId, compare, weightVersion, hasAccess]);
 
   const checkAccess = async () => {
     setLoading(true);
@@ -120,6 +152,7 @@ export function KPIDashboard() {
 
       if (isAdmin || hasKpiPermission) {
         console.log('✅ Access GRANTED - Loading KPI data...');
+        setIsAdmin(isAdmin);
         setHasAccess(true);
         await loadData();
       } else {
@@ -136,53 +169,43 @@ export function KPIDashboard() {
     console.groupEnd();
   };
 
-  const getDateRangeForFilter = (range: TimeRange): { start: string; end: string } | null => {
-    if (range === 'all') return null;
-
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-
-    let startDate: Date;
-    switch (range) {
-      case 'today':
-        startDate = today;
-        break;
-      case 'week':
-        startDate = new Date(today);
-        startDate.setDate(today.getDate() - 7);
-        break;
-      case 'month':
-        startDate = new Date(today);
-        startDate.setDate(today.getDate() - 30);
-        break;
-      default:
-        return null;
-    }
-
-    return {
-      start: startDate.toISOString(),
-      end: new Date().toISOString()
-    };
-  };
-
   const loadData = async () => {
     setLoading(true);
     console.group('📊 Loading KPI Data');
 
     try {
       console.log('🔄 Fetching data from database...');
-      const dateRange = getDateRangeForFilter(timeRange);
+      const period = getKpiPeriod(timeRange, customRange);
+      if (timeRange === 'custom' && !period) {
+        showMessage('error', 'Choose a start date on or before the end date');
+        return;
+      }
 
-      const [perfData, catData, missingData, statsData, categoriesData] = await Promise.all([
-        dateRange
-          ? kpiService.getFilteredOperatorPerformance(dateRange.start, dateRange.end)
-          : kpiService.getAllOperatorPerformance(),
-        kpiService.getCategoryStatistics(),
+      const filters: KpiFilters = {
+        startDate: period?.start.toISOString(),
+        endDate: period?.end.toISOString(),
+        weightVersion,
+        shiftId
+      };
+      const previousPeriod = compare && period ? getPreviousKpiPeriod(period) : null;
+
+      const [perfData, previousData, catData, missingData, statsData, categoriesData, weightSetData, shiftData] = await Promise.all([
+        period || shiftId
+          ? kpiService.getFilteredOperatorPerformance(filters)
+          : kpiService.getAllOperatorPerformance(weightVersion),
+        previousPeriod
+          ? kpiService.getFilteredOperatorPerformance({
+              ...filters,
+              startDate: previousPeriod.start.toISOString(),
+              endDate: previousPeriod.end.toISOString()
+            })
+          : Promise.resolve(null),
+        kpiService.getCategoryStatistics(weightVersion),
         kpiService.getOperatorsMissingCategories(),
-        dateRange
-          ? kpiService.getShipmentStats(dateRange.start, dateRange.end)
-          : kpiService.getShipmentStats(),
-        kpiService.getCategoryList()
+        kpiService.getShipmentStats(filters),
+        kpiService.getCategoryList(),
+        kpiService.getWeightSets(),
+        kpiService.getShifts()
       ]);
 
       console.log('✅ Data fetched successfully:', {
@@ -197,6 +220,11 @@ export function KPIDashboard() {
       setMissingCategories(missingData);
       setShipmentStats(statsData);
       setCategories(categoriesData);
+      setWeightSets(weightSetData);
+      setShifts(shiftData);
+      setPreviousPerformance(previousData);
+      setAppliedFilters({ filters, period });
+      setPeriods(period && previousPeriod ? { current: period, previous: previousPeriod } : null);
 
       console.log('✅ State updated successfully');
     } catch (error) {
@@ -303,6 +331,16 @@ export function KPIDashboard() {
     );
   };
 
+  // The weights shown next to intensity counts: the chosen version, or the one in effect today
+  const displayWeightSet = weightVersion !== null
+    ? weightSets.find(set => set.version === weightVersion) || null
+    : kpiService.getEffectiveWeightSet(weightSets, toWarehouseDateKey());
+
+  const operatorDeltas = previousPerformance ? compareOperatorPerformance(performance, previousPerformance) : null;
+  const categoryComparison = previousPerformance ? compareCategories(performance, previousPerformance) : [];
+  const deltaColor = (value: number) =>
+    value > 0 ? 'text-green-600' : value < 0 ? 'text-red-600' : 'text-slate-500';
+
   const filteredPerformance = performance.filter(op =>
     op.operator_name.toLowerCase().includes(searchQuery.toLowerCase())
   );
@@ -390,7 +428,20 @@ export function KPIDashboard() {
                 Month
               </button>
               <button
-                onClick={() => setTimeRange('all')}
+                onClick={() => setTimeRange('custom')}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                  timeRange === 'custom'
+                    ? 'bg-white text-blue-600 shadow-sm'
+                    : 'text-slate-600 hover:text-slate-900'
+                }`}
+              >
+                Custom
+              </button>
+              <button
+                onClick={() => {
+                  setTimeRange('all');
+                  setCompare(false);
+                }}
                 className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
                   timeRange === 'all'
                     ? 'bg-white text-blue-600 shadow-sm'
@@ -400,6 +451,19 @@ export function KPIDashboard() {
                 All Time
               </button>
             </div>
+            <select
+              value={weightVersion ?? ''}
+              onChange={(e) => setWeightVersion(e.target.value === '' ? null : Number(e.target.value))}
+              className="px-3 py-2 border border-slate-200 rounded-lg text-sm text-slate-700 bg-white focus:ring-2 focus:ring-blue-500"
+              title="Weight set used to score tasks"
+            >
+              <option value="">Scoring: as recorded</option>
+              {weightSets.map(set => (
+                <option key={set.id} value={set.version}>
+                  Scoring: v{set.version} {set.name}
+                </option>
+              ))}
+            </select>
             <button
               onClick={handleRefresh}
               disabled={loading}
@@ -411,6 +475,59 @@ export function KPIDashboard() {
           </div>
         </div>
 
+        <div className="flex flex-wrap items-center gap-3 mb-6 -mt-2">
+          {timeRange === 'custom' && (
+            <div className="flex items-center gap-2 text-sm text-slate-600">
+              <input
+                type="date"
+                value={customRange.from}
+                max={customRange.to}
+                onChange={(e) => setCustomRange({ ...customRange, from: e.target.value })}
+                className="px-2 py-1.5 border border-slate-200 rounded-lg text-sm"
+              />
+              <span>to</span>
+              <input
+                type="date"
+                value={customRange.to}
+                min={customRange.from}
+                onChange={(e) => setCustomRange({ ...customRange, to: e.target.value })}
+                className="px-2 py-1.5 border border-slate-200 rounded-lg text-sm"
+              />
+            </div>
+          )}
+          <select
+            value={shiftId ?? ''}
+            onChange={(e) => setShiftId(e.target.value || null)}
+            className="px-3 py-1.5 border border-slate-200 rounded-lg text-sm text-slate-700 bg-white focus:ring-2 focus:ring-blue-500"
+            title="Only count tasks completed during this shift (warehouse time)"
+          >
+            <option value="">All shifts</option>
+            {shifts.filter(shift => shift.active || shift.id === shiftId).map(shift => (
+              <option key={shift.id} value={shift.id}>
+                {shift.name} ({kpiService.formatShiftHours(shift)})
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => setCompare(!compare)}
+            disabled={timeRange === 'all'}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              compare
+                ? 'bg-blue-50 border-blue-300 text-blue-700'
+                : 'bg-white border-slate-200 text-slate-600 hover:text-slate-900'
+            }`}
+            title={timeRange === 'all' ? 'Pick a period to compare' : 'Compare to the previous period of the same length'}
+          >
+            <ArrowLeftRight className="w-4 h-4" />
+            Compare to previous period
+          </button>
+          {periods && (
+            <span className="text-xs text-slate-500">
+              {formatKpiPeriod(periods.current)} vs {formatKpiPeriod(periods.previous)}
+            </span>
+          )}
+        </div>
+
         <div className="flex gap-2 mb-6 border-b border-slate-200">
           <button
             onClick={() => setActiveView('rankings')}
@@ -425,6 +542,32 @@ export function KPIDashboard() {
               Rankings
             </div>
           </button>
+          <button
+            onClick={() => setActiveView('trends')}
+            className={`px-4 py-2 font-medium transition-colors ${
+              activeView === 'trends'
+                ? 'text-blue-600 border-b-2 border-blue-600'
+                : 'text-slate-600 hover:text-slate-900'
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <LineChart className="w-4 h-4" />
+              Trends
+            </div>
+          </button>
+          <button
+            onClick={() => setActiveView('handling')}
+            className={`px-4 py-2 font-medium transition-colors ${
+              activeView === 'handling'
+                ? 'text-blue-600 border-b-2 border-blue-600'
+                : 'text-slate-600 hover:text-slate-900'
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <Timer className="w-4 h-4" />
+              Handling Time
+            </div>
+          </button>
           <button
             onClick={() => setActiveView('categories')}
             className={`px-4 py-2 font-medium transition-colors ${
@@ -464,6 +607,19 @@ export function KPIDashboard() {
               Manage Categories
             </div>
           </button>
+          <button
+            onClick={() => setActiveView('scoring')}
+            className={`px-4 py-2 font-medium transition-colors ${
+              activeView === 'scoring'
+                ? 'text-blue-600 border-b-2 border-blue-600'
+                : 'text-slate-600 hover:text-slate-900'
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <Layers className="w-4 h-4" />
+              Scoring Model
+            </div>
+          </button>
         </div>
 
         {activeView === 'rankings' && (
@@ -517,137 +673,208 @@ export function KPIDashboard() {
               </div>
             ) : (
               <div className="space-y-3">
-                {filteredPerformance.map((op) => (
-                  <div
-                    key={op.operator_id}
-                    className="border border-slate-200 rounded-lg hover:shadow-md transition-shadow"
-                  >
+                {filteredPerformance.map((op) => {
+                  const delta = operatorDeltas?.get(op.operator_id);
+                  return (
                     <div
-                      onClick={() => toggleOperatorExpand(op.operator_id)}
-                      className="p-4 cursor-pointer hover:bg-slate-50 transition-colors"
+                      key={op.operator_id}
+                      className="border border-slate-200 rounded-lg hover:shadow-md transition-shadow"
                     >
-                      <div className="flex items-center gap-4">
-                        <button className="flex-shrink-0">
-                          {expandedOperator === op.operator_id ? (
-                            <ChevronDown className="w-5 h-5 text-slate-600" />
-                          ) : (
-                            <ChevronRight className="w-5 h-5 text-slate-600" />
-                          )}
-                        </button>
-
-                        <div className="flex-shrink-0">
-                          {getRankBadge(op.rank)}
-                        </div>
+                      <div
+                        onClick={() => toggleOperatorExpand(op.operator_id)}
+                        className="p-4 cursor-pointer hover:bg-slate-50 transition-colors"
+                      >
+                        <div className="flex items-center gap-4">
+                          <button className="flex-shrink-0">
+                            {expandedOperator === op.operator_id ? (
+                              <ChevronDown className="w-5 h-5 text-slate-600" />
+                            ) : (
+                              <ChevronRight className="w-5 h-5 text-slate-600" />
+                            )}
+                          </button>
 
-                        <div
-                          className="w-10 h-10 rounded-full flex items-center justify-center text-white font-bold flex-shrink-0"
-                          style={{ backgroundColor: op.operator_color || '#64748b' }}
-                        >
-                          {op.operator_name.charAt(0)}
-                        </div>
+                          <div className="flex-shrink-0">
+                            {getRankBadge(op.rank)}
+                          </div>
 
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center gap-2 mb-1">
-                            <span className="font-semibold text-slate-900">{op.operator_name}</span>
-                            {!op.active && (
-                              <span className="px-2 py-0.5 text-xs bg-slate-200 text-slate-600 rounded">Inactive</span>
-                            )}
+                          <div
+                            className="w-10 h-10 rounded-full flex items-center justify-center text-white font-bold flex-shrink-0"
+                            style={{ backgroundColor: op.operator_color || '#64748b' }}
+                          >
+                            {op.operator_name.charAt(0)}
                           </div>
-                          <div className="flex items-center gap-4 text-sm text-slate-600">
-                            <span>{op.total_completed_tasks} tasks</span>
-                            <span className="font-medium text-blue-600">{op.total_score} points</span>
-                            <span>{op.avg_score_per_task} avg</span>
-                            {op.active_days > 0 && (
-                              <span className="flex items-center gap-1">
-                                <Calendar className="w-3 h-3" />
-                                {op.active_days} days active
-                              </span>
-                            )}
+
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2 mb-1">
+                              <span className="font-semibold text-slate-900">{op.operator_name}</span>
+                              {!op.active && (
+                                <span className="px-2 py-0.5 text-xs bg-slate-200 text-slate-600 rounded">Inactive</span>
+                              )}
+                            </div>
+                            <div className="flex items-center gap-4 text-sm text-slate-600">
+                              <span>{op.total_completed_tasks} tasks</span>
+                              <span className="font-medium text-blue-600">{op.total_score} points</span>
+                              {delta && (
+                                <span className="flex items-center gap-2 text-xs" title="Change since the previous period">
+                                  <span className={`font-medium ${deltaColor(delta.score)}`}>{formatDelta(delta.score)} pts</span>
+                                  <span className={deltaColor(delta.tasks)}>{formatDelta(delta.tasks)} tasks</span>
+                                  {delta.rank === null ? (
+                                    <span className="px-1.5 py-0.5 bg-blue-100 text-blue-700 rounded">new</span>
+                                  ) : delta.rank !== 0 && (
+                                    <span className={deltaColor(delta.rank)}>
+                                      {delta.rank > 0 ? '▲' : '▼'}{Math.abs(delta.rank)}
+                                    </span>
+                                  )}
+                                </span>
+                              )}
+                              <span>{op.avg_score_per_task} avg</span>
+                              {op.active_days > 0 && (
+                                <span className="flex items-center gap-1">
+                                  <Calendar className="w-3 h-3" />
+                                  {op.active_days} days active
+                                </span>
+                              )}
+                            </div>
                           </div>
-                        </div>
 
-                        <div className="flex-shrink-0 w-48">
-                          <div className="flex items-center gap-2">
-                            <div className="flex-1 bg-slate-200 rounded-full h-3 overflow-hidden">
-                              <div
-                                className="h-full bg-gradient-to-r from-blue-500 to-blue-600 rounded-full transition-all duration-500"
-                                style={{ width: `${(op.total_score / getMaxScore()) * 100}%` }}
-                              />
+                          <div className="flex-shrink-0 w-48">
+                            <div className="flex items-center gap-2">
+                              <div className="flex-1 bg-slate-200 rounded-full h-3 overflow-hidden">
+                                <div
+                                  className="h-full bg-gradient-to-r from-blue-500 to-blue-600 rounded-full transition-all duration-500"
+                                  style={{ width: `${(op.total_score / getMaxScore()) * 100}%` }}
+                                />
+                              </div>
                             </div>
                           </div>
                         </div>
                       </div>
-                    </div>
 
-                    {expandedOperator === op.operator_id && (
-                      <div className="px-4 pb-4 pt-0 border-t border-slate-200 bg-slate-50">
-                        <div className="mt-4 grid grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
-                          <div className="p-3 bg-red-50 border border-red-200 rounded">
-                            <div className="text-xs text-red-600 font-medium mb-1">High Intensity</div>
-                            <div className="text-lg font-bold text-red-700">{op.high_intensity_count}</div>
-                            <div className="text-xs text-red-600">{op.high_intensity_count * 3} points</div>
-                          </div>
-                          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded">
-                            <div className="text-xs text-yellow-600 font-medium mb-1">Medium Intensity</div>
-                            <div className="text-lg font-bold text-yellow-700">{op.medium_intensity_count}</div>
-                            <div className="text-xs text-yellow-600">{op.medium_intensity_count * 2} points</div>
-                          </div>
-                          <div className="p-3 bg-green-50 border border-green-200 rounded">
-                            <div className="text-xs text-green-600 font-medium mb-1">Low Intensity</div>
-                            <div className="text-lg font-bold text-green-700">{op.low_intensity_count}</div>
-                            <div className="text-xs text-green-600">{op.low_intensity_count * 1} points</div>
-                          </div>
-                          <div className="p-3 bg-blue-50 border border-blue-200 rounded">
-                            <div className="text-xs text-blue-600 font-medium mb-1">Total Score</div>
-                            <div className="text-lg font-bold text-blue-700">{op.total_score}</div>
-                            <div className="text-xs text-blue-600">{op.avg_score_per_task} avg/task</div>
+                      {expandedOperator === op.operator_id && (
+                        <div className="px-4 pb-4 pt-0 border-t border-slate-200 bg-slate-50">
+                          <div className="mt-4 grid grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
+                            <div className="p-3 bg-red-50 border border-red-200 rounded">
+                              <div className="text-xs text-red-600 font-medium mb-1">High Intensity</div>
+                              <div className="text-lg font-bold text-red-700">{op.high_intensity_count}</div>
+                              <div className="text-xs text-red-600">{op.high_intensity_count * kpiService.getIntensityPoints('high', displayWeightSet)} intensity points</div>
+                            </div>
+                            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded">
+                              <div className="text-xs text-yellow-600 font-medium mb-1">Medium Intensity</div>
+                              <div className="text-lg font-bold text-yellow-700">{op.medium_intensity_count}</div>
+                              <div className="text-xs text-yellow-600">{op.medium_intensity_count * kpiService.getIntensityPoints('medium', displayWeightSet)} intensity points</div>
+                            </div>
+                            <div className="p-3 bg-green-50 border border-green-200 rounded">
+                              <div className="text-xs text-green-600 font-medium mb-1">Low Intensity</div>
+                              <div className="text-lg font-bold text-green-700">{op.low_intensity_count}</div>
+                              <div className="text-xs text-green-600">{op.low_intensity_count * kpiService.getIntensityPoints('low', displayWeightSet)} intensity points</div>
+                            </div>
+                            <div className="p-3 bg-blue-50 border border-blue-200 rounded">
+                              <div className="text-xs text-blue-600 font-medium mb-1">Total Score</div>
+                              <div className="text-lg font-bold text-blue-700">{op.total_score}</div>
+                              <div className="text-xs text-blue-600">{op.avg_score_per_task} avg/task</div>
+                            </div>
                           </div>
-                        </div>
 
-                        {op.category_breakdown.length > 0 && (
-                          <div>
-                            <h4 className="text-sm font-semibold text-slate-700 mb-3 flex items-center gap-2">
-                              <Target className="w-4 h-4" />
-                              Task Categories
-                            </h4>
-                            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-                              {op.category_breakdown.map((cat) => (
-                                <div
-                                  key={cat.category}
-                                  className="p-3 bg-white border border-slate-200 rounded-lg"
-                                >
-                                  <div className="flex items-center justify-between mb-2">
-                                    <span className={`font-semibold ${kpiService.getCategoryTextColor(cat.category)}`}>
-                                      {cat.category}
-                                    </span>
-                                    <span className="text-sm font-medium text-slate-700">{cat.task_count} tasks</span>
-                                  </div>
-                                  <div className="flex items-center justify-between text-sm">
-                                    <span className="text-slate-600">Score:</span>
-                                    <span className="font-bold text-blue-600">{cat.category_score}</span>
+                          {op.category_breakdown.length > 0 && (
+                            <div>
+                              <h4 className="text-sm font-semibold text-slate-700 mb-3 flex items-center gap-2">
+                                <Target className="w-4 h-4" />
+                                Task Categories
+                              </h4>
+                              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                                {op.category_breakdown.map((cat) => (
+                                  <div
+                                    key={cat.category}
+                                    className="p-3 bg-white border border-slate-200 rounded-lg"
+                                  >
+                                    <div className="flex items-center justify-between mb-2">
+                                      <span className={`font-semibold ${kpiService.getCategoryTextColor(cat.category)}`}>
+                                        {cat.category}
+                                      </span>
+                                      <span className="text-sm font-medium text-slate-700">{cat.task_count} tasks</span>
+                                    </div>
+                                    <div className="flex items-center justify-between text-sm">
+                                      <span className="text-slate-600">Score:</span>
+                                      <span className="font-bold text-blue-600">
+                                        {cat.category_score}
+                                        {delta && delta.categoryScores[cat.category] !== undefined && (
+                                          <span className={`ml-2 text-xs font-medium ${deltaColor(delta.categoryScores[cat.category])}`}>
+                                            {formatDelta(delta.categoryScores[cat.category])}
+                                          </span>
+                                        )}
+                                      </span>
+                                    </div>
+                                    <div className="flex items-center justify-between text-sm">
+                                      <span className="text-slate-600">Avg Intensity:</span>
+                                      <span className="font-medium text-slate-700">{cat.avg_intensity_score}</span>
+                                    </div>
                                   </div>
-                                  <div className="flex items-center justify-between text-sm">
-                                    <span className="text-slate-600">Avg Intensity:</span>
-                                    <span className="font-medium text-slate-700">{cat.avg_intensity_score}</span>
-                                  </div>
-                                </div>
-                              ))}
+                                ))}
+                              </div>
                             </div>
-                          </div>
-                        )}
-                      </div>
-                    )}
-                  </div>
-                ))}
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {categoryComparison.length > 0 && (
+              <div className="mt-6 border border-slate-200 rounded-lg overflow-hidden">
+                <div className="px-4 py-3 bg-slate-50 border-b border-slate-200">
+                  <h3 className="text-sm font-semibold text-slate-900">Categories vs Previous Period</h3>
+                </div>
+                <table className="w-full">
+                  <thead className="border-b border-slate-200">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-slate-600">Category</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-slate-600">Tasks</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-slate-600">Change</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-slate-600">Points</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-slate-600">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-200">
+                    {categoryComparison.map(row => (
+                      <tr key={row.category}>
+                        <td className={`px-4 py-2 text-sm font-semibold ${kpiService.getCategoryTextColor(row.category)}`}>{row.category}</td>
+                        <td className="px-4 py-2 text-sm text-right text-slate-700">{row.tasks}</td>
+                        <td className={`px-4 py-2 text-sm text-right ${deltaColor(row.tasks - row.previousTasks)}`}>
+                          {formatDelta(row.tasks - row.previousTasks)}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right text-slate-700">{Math.round(row.score * 100) / 100}</td>
+                        <td className={`px-4 py-2 text-sm text-right font-medium ${deltaColor(row.score - row.previousScore)}`}>
+                          {formatDelta(row.score - row.previousScore)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
               </div>
             )}
 
             <div className="mt-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
               <h3 className="text-sm font-semibold text-blue-900 mb-2">About KPI Scoring</h3>
               <ul className="text-sm text-blue-700 space-y-1">
-                <li>High intensity tasks: 3 points each</li>
-                <li>Medium intensity tasks: 2 points each</li>
-                <li>Low intensity tasks: 1 point each</li>
+                <li>
+                  {weightVersion !== null
+                    ? `Every task scored with version ${weightVersion}${displayWeightSet ? ` (${displayWeightSet.name})` : ''}`
+                    : 'Each task scored with the weight set in effect on the day it was completed'}
+                </li>
+                <li>High intensity tasks: {kpiService.getIntensityPoints('high', displayWeightSet)} points each</li>
+                <li>Medium intensity tasks: {kpiService.getIntensityPoints('medium', displayWeightSet)} points each</li>
+                <li>Low intensity tasks: {kpiService.getIntensityPoints('low', displayWeightSet)} points each</li>
+                {displayWeightSet && displayWeightSet.points_per_package > 0 && (
+                  <li>
+                    Plus {displayWeightSet.points_per_package} points per package
+                    {displayWeightSet.max_package_points !== null && `, up to ${displayWeightSet.max_package_points} per task`}
+                  </li>
+                )}
+                {displayWeightSet && (Object.keys(displayWeightSet.category_points).length > 0 || Object.keys(displayWeightSet.shipment_type_points).length > 0) && (
+                  <li>Plus category and shipment type points, see Scoring Model</li>
+                )}
                 <li>Rankings based on total points from completed deliveries</li>
                 <li>Task categories extracted from shipment title prefixes (INCOMING, OUTGOING, OPI, etc.)</li>
               </ul>
@@ -655,6 +882,21 @@ export function KPIDashboard() {
           </div>
         )}
 
+        {activeView === 'trends' && (
+          <KPITrends
+            filters={appliedFilters.filters}
+            period={appliedFilters.period}
+            categories={categories}
+          />
+        )}
+
+        {activeView === 'handling' && (
+          <KPIHandlingTimes
+            filters={appliedFilters.filters}
+            categories={categories}
+          />
+        )}
+
         {activeView === 'categories' && (
           <div className="space-y-4">
             <div className="mb-4">
@@ -884,6 +1126,25 @@ export function KPIDashboard() {
             </div>
           </div>
         )}
+
+        {activeView === 'scoring' && (
+          <div className="space-y-6">
+            <KPIScoringModel
+              weightSets={weightSets}
+              categories={categories.filter(cat => cat.active).map(cat => cat.name)}
+              canEdit={isAdmin}
+              onPublished={loadData}
+            />
+            <KPIShiftsPanel
+              shifts={shifts}
+              canEdit={isAdmin}
+              onChange={loadData}
+              onDeleted={(id) => {
+                if (id === shiftId) setShiftId(null);
+              }}
+            />
+          </div>
+        )}
       </div>
 
       {showCategoryModal && (
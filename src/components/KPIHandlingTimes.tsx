@@ -0,0 +1,257 @@
+import { useState, useEffect } from 'react';
+import { Timer, Turtle, Rabbit } from 'lucide-react';
+import { kpiService, KpiFilters, TaskHandlingTime, TaskCategory } from '../services/kpiService';
+import { formatWarehouseDate } from '../utils/dateTime';
+import { summarizeCategories, summarizeOperators, formatMinutes } from '../utils/kpiHandlingTimes';
+
+type KPIHandlingTimesProps = {
+  filters: KpiFilters;
+  categories: TaskCategory[];
+};
+
+type OutlierFilter = 'all' | 'slow' | 'fast';
+
+const OUTLIER_FACTOR = 2;
+const OTHER_CATEGORY_COLOR = '#94a3b8';
+
+export function KPIHandlingTimes({ filters, categories }: KPIHandlingTimesProps) {
+  const [rows, setRows] = useState<TaskHandlingTime[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [outlierFilter, setOutlierFilter] = useState<OutlierFilter>('all');
+
+  useEffect(() => {
+    // Ignore a slower response for filters that have since changed
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    kpiService.getTaskHandlingTimes(filters, OUTLIER_FACTOR)
+      .then(data => {
+        if (!cancelled) setRows(data);
+      })
+      .catch(err => {
+        if (!cancelled) setError((err as Error).message || 'Failed to load handling times');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters]);
+
+  const categoryColors = new Map(categories.map(cat => [cat.name, cat.color]));
+  const categorySummaries = summarizeCategories(rows);
+  const operatorSummaries = summarizeOperators(rows);
+  const outliers = rows.filter(row => row.outlier && (outlierFilter === 'all' || row.outlier === outlierFilter));
+  const slowCount = rows.filter(row => row.outlier === 'slow').length;
+  const fastCount = rows.filter(row => row.outlier === 'fast').length;
+
+  const formatDateTime = (value: string) =>
+    formatWarehouseDate(value, { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+  const categoryLabel = (category: string) => (
+    <div className="flex items-center gap-2">
+      <div
+        className="w-3 h-3 rounded-full"
+        style={{ backgroundColor: categoryColors.get(category) || OTHER_CATEGORY_COLOR }}
+      />
+      <span className="font-medium text-slate-900">{category}</span>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-slate-900 mb-1">Handling Time</h3>
+        <p className="text-sm text-slate-600">
+          Time each operator spent on a task, from their work sessions between start and completion,
+          without pauses. Tasks taking more than {OUTLIER_FACTOR}× or less than 1/{OUTLIER_FACTOR} of
+          their category median are flagged once a category has at least 5 timed tasks.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 text-red-800 text-sm">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12 text-slate-500">Loading handling times...</div>
+      ) : rows.length === 0 ? (
+        <div className="text-center py-12 bg-slate-50 rounded-lg">
+          <Timer className="w-12 h-12 text-slate-400 mx-auto mb-3" />
+          <p className="text-slate-600 font-medium">No timed tasks in this period</p>
+          <p className="text-sm text-slate-500 mt-1">Handling time is recorded for tasks started after work sessions were introduced.</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+              <div className="text-sm text-blue-600 font-medium mb-1">Timed Tasks</div>
+              <div className="text-3xl font-bold text-blue-900">{rows.length}</div>
+            </div>
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <div className="text-sm text-red-600 font-medium mb-1">Slow Outliers</div>
+              <div className="text-3xl font-bold text-red-900">{slowCount}</div>
+            </div>
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+              <div className="text-sm text-green-600 font-medium mb-1">Fast Outliers</div>
+              <div className="text-3xl font-bold text-green-900">{fastCount}</div>
+            </div>
+          </div>
+
+          <div className="border border-slate-200 rounded-lg overflow-hidden">
+            <div className="px-4 py-3 border-b border-slate-200 font-semibold text-slate-900">By Category</div>
+            <table className="w-full">
+              <thead className="bg-slate-50 border-b border-slate-200">
+                <tr>
+                  <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Category</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-slate-700">Timed Tasks</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-slate-700">Median per Task</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-slate-700">Median per Package</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-slate-700">Slow / Fast</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {categorySummaries.map(cat => (
+                  <tr key={cat.category} className="hover:bg-slate-50">
+                    <td className="px-4 py-2 text-sm">{categoryLabel(cat.category)}</td>
+                    <td className="px-4 py-2 text-sm text-right text-slate-900">{cat.tasks}</td>
+                    <td className="px-4 py-2 text-sm text-right text-slate-900">{formatMinutes(cat.medianMinutes)}</td>
+                    <td className="px-4 py-2 text-sm text-right text-slate-900">
+                      {cat.medianMinutesPerPackage === null ? '—' : `${cat.medianMinutesPerPackage.toFixed(1)} min`}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right">
+                      <span className="text-red-600">{cat.slow}</span>
+                      <span className="text-slate-400"> / </span>
+                      <span className="text-green-600">{cat.fast}</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="border border-slate-200 rounded-lg overflow-hidden">
+            <div className="px-4 py-3 border-b border-slate-200">
+              <div className="font-semibold text-slate-900">By Operator</div>
+              <p className="text-xs text-slate-500">
+                Relative time is the operator's median task time against the category median; below 1.00× is faster than typical.
+              </p>
+            </div>
+            <table className="w-full">
+              <thead className="bg-slate-50 border-b border-slate-200">
+                <tr>
+                  <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Operator</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-slate-700">Timed Tasks</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-slate-700">Total Time</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-slate-700">Median per Task</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-slate-700">Per Package</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-slate-700">Relative Time</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-slate-700">Slow / Fast</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {operatorSummaries.map(op => (
+                  <tr key={op.operatorId} className="hover:bg-slate-50">
+                    <td className="px-4 py-2 text-sm">
+                      <div className="flex items-center gap-2">
+                        <div
+                          className="w-3 h-3 rounded-full"
+                          style={{ backgroundColor: op.operatorColor || '#64748b' }}
+                        />
+                        <span className="font-medium text-slate-900">{op.operatorName}</span>
+                      </div>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right text-slate-900">{op.tasks}</td>
+                    <td className="px-4 py-2 text-sm text-right text-slate-900">{formatMinutes(op.totalMinutes)}</td>
+                    <td className="px-4 py-2 text-sm text-right text-slate-900">{formatMinutes(op.medianMinutes)}</td>
+                    <td className="px-4 py-2 text-sm text-right text-slate-900">
+                      {op.minutesPerPackage === null ? '—' : `${op.minutesPerPackage.toFixed(1)} min`}
+                    </td>
+                    <td className={`px-4 py-2 text-sm text-right font-medium ${
+                      op.relativeSpeed === null ? 'text-slate-400'
+                        : op.relativeSpeed > 1 ? 'text-red-600'
+                        : op.relativeSpeed < 1 ? 'text-green-600'
+                        : 'text-slate-900'
+                    }`}>
+                      {op.relativeSpeed === null ? '—' : `${op.relativeSpeed.toFixed(2)}×`}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right">
+                      <span className="text-red-600">{op.slow}</span>
+                      <span className="text-slate-400"> / </span>
+                      <span className="text-green-600">{op.fast}</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="border border-slate-200 rounded-lg overflow-hidden">
+            <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
+              <div className="font-semibold text-slate-900">Outliers</div>
+              <div className="flex bg-slate-100 rounded-lg p-1">
+                {(['all', 'slow', 'fast'] as OutlierFilter[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setOutlierFilter(option)}
+                    className={`px-3 py-1 rounded text-sm font-medium capitalize transition-colors ${
+                      outlierFilter === option ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-600 hover:text-slate-900'
+                    }`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {outliers.length === 0 ? (
+              <div className="p-4 text-sm text-slate-500">No outliers in this period.</div>
+            ) : (
+              <table className="w-full">
+                <thead className="bg-slate-50 border-b border-slate-200">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Task</th>
+                    <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Operator</th>
+                    <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Category</th>
+                    <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Completed</th>
+                    <th className="px-4 py-2 text-right text-sm font-medium text-slate-700">Time</th>
+                    <th className="px-4 py-2 text-right text-sm font-medium text-slate-700">Category Median</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200">
+                  {outliers.map(row => (
+                    <tr key={`${row.shipment_id}-${row.operator_id}`} className="hover:bg-slate-50">
+                      <td className="px-4 py-2 text-sm">
+                        <div className="flex items-center gap-2">
+                          {row.outlier === 'slow'
+                            ? <Turtle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                            : <Rabbit className="w-4 h-4 text-green-600 flex-shrink-0" />}
+                          <span className="text-slate-900">{row.title}</span>
+                        </div>
+                        <div className="text-xs text-slate-500 ml-6">
+                          {row.package_count} package{row.package_count === 1 ? '' : 's'} · {row.session_count} session{row.session_count === 1 ? '' : 's'}
+                        </div>
+                      </td>
+                      <td className="px-4 py-2 text-sm text-slate-900">{row.operator_name}</td>
+                      <td className="px-4 py-2 text-sm">{categoryLabel(row.category)}</td>
+                      <td className="px-4 py-2 text-sm text-slate-600 whitespace-nowrap">{formatDateTime(row.completed_at)}</td>
+                      <td className={`px-4 py-2 text-sm text-right font-medium ${row.outlier === 'slow' ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatMinutes(Number(row.handling_minutes))}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-slate-600">
+                        {formatMinutes(Number(row.category_median_minutes))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,292 @@
+import { useState } from 'react';
+import { Plus, Check, X, Layers } from 'lucide-react';
+import {
+  kpiService,
+  KpiWeightSet,
+  KpiWeightSetInput,
+  KpiShipmentType,
+  IntensityLevel,
+  DEFAULT_INTENSITY_POINTS
+} from '../services/kpiService';
+import { toWarehouseDateKey } from '../utils/dateTime';
+
+type KPIScoringModelProps = {
+  weightSets: KpiWeightSet[];
+  categories: string[];
+  canEdit: boolean;
+  onPublished: () => void;
+};
+
+const INTENSITIES: IntensityLevel[] = ['low', 'medium', 'high'];
+const SHIPMENT_TYPES: KpiShipmentType[] = ['incoming', 'outgoing', 'general'];
+
+const describePoints = (points: Record<string, number | undefined>) => {
+  const entries = Object.entries(points).filter(([, value]) => value);
+  return entries.length > 0
+    ? entries.map(([key, value]) => `${key} ${value}`).join(', ')
+    : 'none';
+};
+
+const describePackagePoints = (set: KpiWeightSet) => {
+  if (!set.points_per_package) return 'none';
+  return `${set.points_per_package} each${set.max_package_points !== null ? `, max ${set.max_package_points}` : ''}`;
+};
+
+const withoutZeros = <T extends Record<string, number | undefined>>(points: T) =>
+  Object.fromEntries(Object.entries(points).filter(([, value]) => value)) as T;
+
+export function KPIScoringModel({ weightSets, categories, canEdit, onPublished }: KPIScoringModelProps) {
+  const [form, setForm] = useState<KpiWeightSetInput | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+
+  const today = toWarehouseDateKey();
+  const currentSet = kpiService.getEffectiveWeightSet(weightSets, today);
+
+  const startNewVersion = () => {
+    setResult(null);
+    setForm({
+      name: '',
+      effective_from: today,
+      intensity_points: { ...DEFAULT_INTENSITY_POINTS, ...currentSet?.intensity_points },
+      category_points: { ...currentSet?.category_points },
+      shipment_type_points: { ...currentSet?.shipment_type_points },
+      points_per_package: currentSet?.points_per_package ?? 0,
+      max_package_points: currentSet?.max_package_points ?? null,
+      notes: ''
+    });
+  };
+
+  const publish = async () => {
+    if (!form || !form.name.trim() || !form.effective_from) return;
+
+    const backdated = form.effective_from < today;
+    if (!confirm(
+      `Publish "${form.name.trim()}" effective from ${form.effective_from}?` +
+      (backdated ? ' Scores "as recorded" for tasks completed since then will change.' : '') +
+      ' Published versions cannot be edited.'
+    )) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const created = await kpiService.createWeightSet({
+        ...form,
+        name: form.name.trim(),
+        category_points: withoutZeros(form.category_points),
+        shipment_type_points: withoutZeros(form.shipment_type_points)
+      });
+      setResult({ success: true, message: `Published version ${created.version}: ${created.name}` });
+      setForm(null);
+      onPublished();
+    } catch (error) {
+      setResult({ success: false, message: (error as Error).message || 'Failed to publish weight set' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const pointsInput = (value: number | undefined, onChange: (value: number) => void) => (
+    <input
+      type="number"
+      min={0}
+      step={0.5}
+      value={value ?? 0}
+      onChange={(e) => onChange(Math.max(0, parseFloat(e.target.value) || 0))}
+      className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900 mb-2">Scoring Model</h3>
+          <p className="text-sm text-slate-600">
+            A task scores its intensity, category, shipment type and package points under the
+            weight set effective on the day it was completed. Pick a version above to rescore
+            every period under the same rules.
+          </p>
+        </div>
+        {canEdit && !form && (
+          <button
+            onClick={startNewVersion}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex-shrink-0"
+          >
+            <Plus className="w-4 h-4" />
+            New Version
+          </button>
+        )}
+      </div>
+
+      {result && (
+        <div className={`p-3 rounded-lg flex items-center gap-2 text-sm ${result.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+          {result.success ? <Check className="w-4 h-4" /> : <X className="w-4 h-4" />}
+          {result.message}
+        </div>
+      )}
+
+      {form && (
+        <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Package-weighted 2026"
+                className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Effective from</label>
+              <input
+                type="date"
+                value={form.effective_from}
+                onChange={(e) => setForm({ ...form, effective_from: e.target.value })}
+                className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Notes</label>
+              <input
+                type="text"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="text-xs font-semibold text-slate-700 mb-2">Points per intensity</div>
+            <div className="grid grid-cols-3 gap-3">
+              {INTENSITIES.map(intensity => (
+                <div key={intensity}>
+                  <label className="block text-xs text-slate-600 mb-1">{kpiService.getIntensityLabel(intensity)}</label>
+                  {pointsInput(form.intensity_points[intensity], value =>
+                    setForm({ ...form, intensity_points: { ...form.intensity_points, [intensity]: value } })
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-xs font-semibold text-slate-700 mb-2">Points per shipment type</div>
+            <div className="grid grid-cols-3 gap-3">
+              {SHIPMENT_TYPES.map(type => (
+                <div key={type}>
+                  <label className="block text-xs text-slate-600 mb-1 capitalize">{type}</label>
+                  {pointsInput(form.shipment_type_points[type], value =>
+                    setForm({ ...form, shipment_type_points: { ...form.shipment_type_points, [type]: value } })
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-xs font-semibold text-slate-700 mb-2">Points per task category</div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {[...categories, 'OTHER'].map(category => (
+                <div key={category}>
+                  <label className="block text-xs text-slate-600 mb-1">{category}</label>
+                  {pointsInput(form.category_points[category], value =>
+                    setForm({ ...form, category_points: { ...form.category_points, [category]: value } })
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-semibold text-slate-700 mb-1">Points per package</label>
+              {pointsInput(form.points_per_package, value => setForm({ ...form, points_per_package: value }))}
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-700 mb-1">Max package points per task</label>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={form.max_package_points ?? ''}
+                onChange={(e) => setForm({
+                  ...form,
+                  max_package_points: e.target.value === '' ? null : Math.max(0, parseFloat(e.target.value) || 0)
+                })}
+                placeholder="No cap"
+                className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={publish}
+              disabled={saving || !form.name.trim() || !form.effective_from}
+              className="px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm disabled:opacity-50"
+            >
+              {saving ? 'Publishing...' : 'Publish Version'}
+            </button>
+            <button
+              onClick={() => setForm(null)}
+              className="px-3 py-1.5 bg-slate-200 text-slate-700 rounded-lg hover:bg-slate-300 text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {weightSets.length === 0 ? (
+        <div className="text-center py-12 bg-slate-50 rounded-lg">
+          <Layers className="w-12 h-12 text-slate-400 mx-auto mb-3" />
+          <p className="text-slate-600 font-medium">No weight sets published</p>
+        </div>
+      ) : (
+        <div className="border border-slate-200 rounded-lg overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Version</th>
+                <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Effective from</th>
+                <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Intensity</th>
+                <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Shipment type</th>
+                <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Category</th>
+                <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Packages</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {weightSets.map(set => (
+                <tr key={set.id} className="hover:bg-slate-50 align-top">
+                  <td className="px-4 py-2 text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold text-slate-900">v{set.version}</span>
+                      {set.id === currentSet?.id && (
+                        <span className="px-2 py-0.5 bg-green-100 text-green-700 text-xs font-medium rounded">Current</span>
+                      )}
+                      {set.effective_from > today && (
+                        <span className="px-2 py-0.5 bg-blue-100 text-blue-700 text-xs font-medium rounded">Scheduled</span>
+                      )}
+                    </div>
+                    <div className="text-slate-700">{set.name}</div>
+                    {set.notes && <div className="text-xs text-slate-500">{set.notes}</div>}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-slate-600 whitespace-nowrap">{set.effective_from}</td>
+                  <td className="px-4 py-2 text-sm text-slate-600">{describePoints(set.intensity_points)}</td>
+                  <td className="px-4 py-2 text-sm text-slate-600">{describePoints(set.shipment_type_points)}</td>
+                  <td className="px-4 py-2 text-sm text-slate-600">{describePoints(set.category_points)}</td>
+                  <td className="px-4 py-2 text-sm text-slate-600">{describePackagePoints(set)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
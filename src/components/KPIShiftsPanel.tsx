@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { Plus, Check, X, Edit2, Trash2, Power, Clock } from 'lucide-react';
+import { kpiService, WorkShift } from '../services/kpiService';
+
+type ShiftForm = {
+  id?: string;
+  name: string;
+  start_time: string;
+  end_time: string;
+  active: boolean;
+};
+
+const EMPTY_SHIFT: ShiftForm = {
+  name: '',
+  start_time: '06:00',
+  end_time: '14:00',
+  active: true
+};
+
+type KPIShiftsPanelProps = {
+  shifts: WorkShift[];
+  canEdit: boolean;
+  onChange: () => void;
+  /** Lets the dashboard drop a filter on a shift that no longer exists. */
+  onDeleted: (id: string) => void;
+};
+
+export function KPIShiftsPanel({ shifts, canEdit, onChange, onDeleted }: KPIShiftsPanelProps) {
+  const [shiftForm, setShiftForm] = useState<ShiftForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+
+  const saveShift = async (shift: ShiftForm) => {
+    if (!shift.name.trim()) return;
+
+    setSaving(true);
+    try {
+      await kpiService.saveShift(shift);
+      setResult({ success: true, message: `Saved shift ${shift.name.trim()}` });
+      setShiftForm(null);
+      onChange();
+    } catch (error) {
+      setResult({ success: false, message: (error as Error).message || 'Failed to save shift' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteShift = async (shift: WorkShift) => {
+    if (!confirm(`Delete the ${shift.name} shift?`)) return;
+
+    try {
+      await kpiService.deleteShift(shift.id);
+      onDeleted(shift.id);
+      onChange();
+    } catch (error) {
+      setResult({ success: false, message: (error as Error).message || 'Failed to delete shift' });
+    }
+  };
+
+  return (
+    <div className="border border-slate-200 rounded-lg overflow-hidden">
+      <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold text-slate-900">Shifts</h3>
+          <p className="text-xs text-slate-500">
+            Filter KPIs by the warehouse time a task was completed. An end before the start runs past midnight.
+          </p>
+        </div>
+        {canEdit && (
+          <button
+            onClick={() => setShiftForm({ ...EMPTY_SHIFT })}
+            className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-2 text-sm"
+          >
+            <Plus className="w-4 h-4" />
+            Add Shift
+          </button>
+        )}
+      </div>
+
+      {result && (
+        <div className={`px-4 py-2 flex items-center gap-2 text-sm ${result.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+          {result.success ? <Check className="w-4 h-4" /> : <X className="w-4 h-4" />}
+          {result.message}
+        </div>
+      )}
+
+      {shiftForm && (
+        <div className="p-4 bg-blue-50 border-b border-blue-200 grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+          <div>
+            <label className="block text-xs font-medium text-slate-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={shiftForm.name}
+              onChange={(e) => setShiftForm({ ...shiftForm, name: e.target.value })}
+              placeholder="e.g. Early"
+              className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-700 mb-1">Starts</label>
+            <input
+              type="time"
+              value={shiftForm.start_time}
+              onChange={(e) => setShiftForm({ ...shiftForm, start_time: e.target.value })}
+              className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-700 mb-1">Ends</label>
+            <input
+              type="time"
+              value={shiftForm.end_time}
+              onChange={(e) => setShiftForm({ ...shiftForm, end_time: e.target.value })}
+              className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => saveShift(shiftForm)}
+              disabled={saving || !shiftForm.name.trim() || !shiftForm.start_time || !shiftForm.end_time}
+              className="px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => setShiftForm(null)}
+              className="px-3 py-1.5 bg-slate-200 text-slate-700 rounded-lg hover:bg-slate-300 text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {shifts.length === 0 ? (
+        <div className="p-4 text-sm text-slate-500">No shifts defined.</div>
+      ) : (
+        <div className="divide-y divide-slate-200">
+          {shifts.map(shift => (
+            <div key={shift.id} className={`px-4 py-2 flex items-center justify-between ${!shift.active ? 'opacity-60' : ''}`}>
+              <div className="flex items-center gap-3">
+                <Clock className="w-4 h-4 text-slate-400" />
+                <span className="font-medium text-slate-900">{shift.name}</span>
+                <span className="text-sm text-slate-600">{kpiService.formatShiftHours(shift)}</span>
+                {!shift.active && (
+                  <span className="px-2 py-0.5 bg-slate-200 text-slate-600 text-xs font-medium rounded">Inactive</span>
+                )}
+              </div>
+              {canEdit && (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setShiftForm({
+                      id: shift.id,
+                      name: shift.name,
+                      start_time: shift.start_time.slice(0, 5),
+                      end_time: shift.end_time.slice(0, 5),
+                      active: shift.active
+                    })}
+                    className="p-1 text-slate-500 hover:text-blue-600"
+                    title="Edit shift"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => saveShift({ ...shift, active: !shift.active })}
+                    className={`p-1 ${shift.active ? 'text-slate-500 hover:text-red-600' : 'text-slate-400 hover:text-green-600'}`}
+                    title={shift.active ? 'Deactivate shift' : 'Activate shift'}
+                  >
+                    <Power className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => deleteShift(shift)}
+                    className="p-1 text-slate-500 hover:text-red-600"
+                    title="Delete shift"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
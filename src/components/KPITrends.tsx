@@ -0,0 +1,342 @@
+import { useState, useEffect } from 'react';
+import { LineChart, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { kpiService, KpiBucket, KpiFilters, OperatorPerformancePoint, TaskCategory } from '../services/kpiService';
+import { KpiPeriod } from '../utils/kpiPeriods';
+import { toWarehouseDateKey } from '../utils/dateTime';
+import {
+  TrendBucket,
+  getBucketKeys,
+  buildTrend,
+  getScorePerHour,
+  getTrendChange,
+  formatBucketLabel
+} from '../utils/kpiTrends';
+
+type KPITrendsProps = {
+  filters: KpiFilters;
+  /** null for all time: the chart then spans the buckets that have data. */
+  period: KpiPeriod | null;
+  categories: TaskCategory[];
+};
+
+const MAX_BUCKETS = 60;
+const OTHER_CATEGORY_COLOR = '#94a3b8';
+
+// Days off would otherwise drag the throughput trend towards whichever half had more of them
+const getActiveTasks = (b: TrendBucket) => (b.tasks > 0 ? b.tasks : null);
+
+function TrendBadge({ change }: { change: number | null }) {
+  if (change === null) {
+    return <span className="text-xs text-slate-400">No trend yet</span>;
+  }
+
+  const rounded = Math.round(change);
+  if (rounded === 0) {
+    return (
+      <span className="flex items-center gap-1 text-xs font-medium text-slate-600">
+        <Minus className="w-3 h-3" />
+        Flat
+      </span>
+    );
+  }
+
+  return (
+    <span className={`flex items-center gap-1 text-xs font-medium ${rounded > 0 ? 'text-green-600' : 'text-red-600'}`}>
+      {rounded > 0 ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+      {rounded > 0 ? '+' : ''}{rounded}%
+    </span>
+  );
+}
+
+function BarChart({
+  buckets,
+  bucket,
+  value,
+  format,
+  color
+}: {
+  buckets: TrendBucket[];
+  bucket: KpiBucket;
+  value: (b: TrendBucket) => number | null;
+  format: (value: number) => string;
+  color: string;
+}) {
+  const max = Math.max(0, ...buckets.map(b => value(b) ?? 0));
+  const labelEvery = Math.ceil(buckets.length / 10);
+
+  return (
+    <div>
+      <div className="flex items-end gap-px h-32">
+        {buckets.map(b => {
+          const v = value(b);
+          return (
+            <div
+              key={b.key}
+              className="flex-1 h-full flex items-end"
+              title={`${formatBucketLabel(b.key, bucket)}: ${v === null ? 'no activity' : format(v)}`}
+            >
+              <div
+                className={`w-full rounded-t ${color}`}
+                style={{ height: `${max > 0 && v ? (v / max) * 100 : 0}%` }}
+              />
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex gap-px mt-1">
+        {buckets.map((b, index) => (
+          <div key={b.key} className="flex-1 text-[10px] text-slate-500 text-center overflow-visible whitespace-nowrap">
+            {index % labelEvery === 0 ? formatBucketLabel(b.key, bucket) : ''}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function KPITrends({ filters, period, categories }: KPITrendsProps) {
+  const [bucket, setBucket] = useState<KpiBucket>(period && period.days <= 31 ? 'day' : 'week');
+  const [operatorId, setOperatorId] = useState<string | null>(null);
+  const [points, setPoints] = useState<OperatorPerformancePoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Ignore a slower response for filters that have since changed
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    kpiService.getPerformanceTimeSeries(bucket, filters)
+      .then(data => {
+        if (!cancelled) setPoints(data);
+      })
+      .catch(err => {
+        if (!cancelled) setError((err as Error).message || 'Failed to load KPI trends');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bucket, filters]);
+
+  const bucketDays = points.map(point => point.bucket_start).sort();
+  const firstDay = period ? toWarehouseDateKey(period.start) : bucketDays[0];
+  const lastDay = period ? toWarehouseDateKey(period.end) : bucketDays[bucketDays.length - 1];
+  const keys = firstDay && lastDay ? getBucketKeys(firstDay, lastDay, bucket, MAX_BUCKETS) : [];
+  const truncated = keys.length === MAX_BUCKETS && keys[0] > firstDay;
+
+  const trend = buildTrend(points, keys, operatorId);
+  const operators = [...new Map(points.map(point => [point.operator_id, point])).values()]
+    .sort((a, b) => a.operator_name.localeCompare(b.operator_name));
+
+  const categoryColors = new Map(categories.map(cat => [cat.name, cat.color]));
+  const categoryNames = [...new Set(trend.flatMap(b => Object.keys(b.categories)))]
+    .sort((a, b) => a.localeCompare(b));
+
+  const operatorTrends = operators.map(op => {
+    const series = buildTrend(points, keys, op.operator_id);
+    const tasks = series.reduce((sum, b) => sum + b.tasks, 0);
+    const score = series.reduce((sum, b) => sum + b.score, 0);
+    const hours = series.reduce((sum, b) => sum + b.activeHours, 0);
+    return {
+      op,
+      series,
+      tasks,
+      scorePerHour: hours > 0 ? score / hours : null,
+      throughputChange: getTrendChange(series.map(getActiveTasks)),
+      scorePerHourChange: getTrendChange(series.map(getScorePerHour))
+    };
+  });
+  const maxOperatorTasks = Math.max(0, ...operatorTrends.flatMap(t => t.series.map(b => b.tasks)));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900 mb-1">Trends</h3>
+          <p className="text-sm text-slate-600">
+            Completed tasks per {bucket === 'day' ? 'day' : 'week'} for the selected period and shift.
+            Active hours are the clock hours in which an operator completed at least one task.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={operatorId ?? ''}
+            onChange={(e) => setOperatorId(e.target.value || null)}
+            className="px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white"
+          >
+            <option value="">All operators</option>
+            {operators.map(op => (
+              <option key={op.operator_id} value={op.operator_id}>{op.operator_name}</option>
+            ))}
+          </select>
+          <div className="flex bg-slate-100 rounded-lg p-1">
+            {(['day', 'week'] as KpiBucket[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setBucket(option)}
+                className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                  bucket === option ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-600 hover:text-slate-900'
+                }`}
+              >
+                {option === 'day' ? 'Daily' : 'Weekly'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 text-red-800 text-sm">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12 text-slate-500">Loading trends...</div>
+      ) : keys.length === 0 || points.length === 0 ? (
+        <div className="text-center py-12 bg-slate-50 rounded-lg">
+          <LineChart className="w-12 h-12 text-slate-400 mx-auto mb-3" />
+          <p className="text-slate-600 font-medium">No completed tasks in this period</p>
+        </div>
+      ) : (
+        <>
+          {truncated && (
+            <p className="text-xs text-slate-500">
+              Showing the last {MAX_BUCKETS} {bucket === 'day' ? 'days' : 'weeks'}.
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div className="border border-slate-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="font-semibold text-slate-900">Throughput</h4>
+                <TrendBadge change={getTrendChange(trend.map(getActiveTasks))} />
+              </div>
+              <BarChart
+                buckets={trend}
+                bucket={bucket}
+                value={b => b.tasks}
+                format={v => `${v} tasks`}
+                color="bg-blue-500"
+              />
+            </div>
+
+            <div className="border border-slate-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="font-semibold text-slate-900">Score per Active Hour</h4>
+                <TrendBadge change={getTrendChange(trend.map(getScorePerHour))} />
+              </div>
+              <BarChart
+                buckets={trend}
+                bucket={bucket}
+                value={getScorePerHour}
+                format={v => `${v.toFixed(2)} points/hour`}
+                color="bg-green-500"
+              />
+            </div>
+          </div>
+
+          <div className="border border-slate-200 rounded-lg p-4">
+            <h4 className="font-semibold text-slate-900 mb-3">Category Mix</h4>
+            <div className="flex items-end gap-px h-32">
+              {trend.map(b => (
+                <div
+                  key={b.key}
+                  className="flex-1 h-full flex flex-col-reverse rounded-t overflow-hidden bg-slate-50"
+                  title={`${formatBucketLabel(b.key, bucket)}: ${
+                    b.tasks > 0
+                      ? Object.entries(b.categories).map(([cat, count]) => `${cat} ${count}`).join(', ')
+                      : 'no activity'
+                  }`}
+                >
+                  {categoryNames.map(cat => (b.categories[cat] || 0) > 0 && (
+                    <div
+                      key={cat}
+                      style={{
+                        height: `${(b.categories[cat] / b.tasks) * 100}%`,
+                        backgroundColor: categoryColors.get(cat) || OTHER_CATEGORY_COLOR
+                      }}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-3 mt-3">
+              {categoryNames.map(cat => (
+                <div key={cat} className="flex items-center gap-1 text-xs text-slate-600">
+                  <div
+                    className="w-3 h-3 rounded"
+                    style={{ backgroundColor: categoryColors.get(cat) || OTHER_CATEGORY_COLOR }}
+                  />
+                  {cat}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="border border-slate-200 rounded-lg overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-slate-50 border-b border-slate-200">
+                <tr>
+                  <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Operator</th>
+                  <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Tasks per {bucket}</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-slate-700">Tasks</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-slate-700">Throughput Trend</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-slate-700">Points/Hour</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-slate-700">Points/Hour Trend</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {operatorTrends.map(t => (
+                  <tr
+                    key={t.op.operator_id}
+                    onClick={() => setOperatorId(operatorId === t.op.operator_id ? null : t.op.operator_id)}
+                    className={`cursor-pointer hover:bg-slate-50 ${operatorId === t.op.operator_id ? 'bg-blue-50' : ''}`}
+                  >
+                    <td className="px-4 py-2 text-sm">
+                      <div className="flex items-center gap-2">
+                        <div
+                          className="w-3 h-3 rounded-full"
+                          style={{ backgroundColor: t.op.operator_color || '#64748b' }}
+                        />
+                        <span className="font-medium text-slate-900">{t.op.operator_name}</span>
+                      </div>
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className="flex items-end gap-px h-6 w-40">
+                        {t.series.map(b => (
+                          <div
+                            key={b.key}
+                            className="flex-1 bg-blue-400 rounded-t"
+                            style={{ height: `${maxOperatorTasks > 0 ? (b.tasks / maxOperatorTasks) * 100 : 0}%` }}
+                          />
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right text-slate-900">{t.tasks}</td>
+                    <td className="px-4 py-2">
+                      <div className="flex justify-end"><TrendBadge change={t.throughputChange} /></div>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right text-slate-900">
+                      {t.scorePerHour === null ? '—' : t.scorePerHour.toFixed(2)}
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className="flex justify-end"><TrendBadge change={t.scorePerHourChange} /></div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-slate-500">
+            Trends compare the average of the first half of the {bucket === 'day' ? 'days' : 'weeks'} with
+            activity against the second half.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
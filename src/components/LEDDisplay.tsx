@@ -1,7 +1,9 @@
 import { useState, useEffect, useRef } from 'react';
-import { supabase, Shipment, Operator, Announcement } from '../lib/supabase';
-import { Package, Clock, Truck, Users, AlertCircle, RefreshCw, Bell, X, Radio } from 'lucide-react';
+import { supabase, Shipment, Operator, Announcement, DockDoor } from '../lib/supabase';
+import { Package, Clock, Truck, Users, AlertCircle, RefreshCw, Bell, X, Radio, DoorOpen } from 'lucide-react';
 import { liveAudioService } from '../services/liveAudioService';
+import { dockService, DockBooking } from '../services/dockService';
+import { loadDateSettings, startOfWarehouseDay, addWarehouseDays, formatWarehouseDate } from '../utils/dateTime';
 
 const PAGE_SIZE = 4;
 const REFRESH_SECONDS = 5;
@@ -22,6 +24,14 @@ interface AudioSession {
   started_at: string;
 }
 
+const getTodayDateRange = () => {
+  const today = startOfWarehouseDay(new Date());
+  return {
+    start: today.toISOString(),
+    end: addWarehouseDays(today, 1).toISOString()
+  };
+};
+
 export function LEDDisplay() {
   const [shipments, setShipments] = useState<Shipment[]>([]);
   const [operators, setOperators] = useState<Operator[]>([]);
@@ -32,9 +42,12 @@ export function LEDDisplay() {
   const [loading, setLoading] = useState(true);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [rotateSeconds, setRotateSeconds] = useState(3);
+  const [dockArrivals, setDockArrivals] = useState<{ door: DockDoor; booking: DockBooking }[]>([]);
   const refreshIntervalRef = useRef<NodeJS.Timeout>();
   const rotationIntervalRef = useRef<NodeJS.Timeout>();
   const welcomeTimeoutRef = useRef<NodeJS.Timeout>();
+  // Read by the refresh interval, which would only see the first render's state
+  const welcomeMessageIdRef = useRef<string | null>(null);
   const previousShipmentCountRef = useRef<number>(0);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const audioCleanupRef = useRef<(() => void) | null>(null);
@@ -61,18 +74,75 @@ export function LEDDisplay() {
       }
     };
 
+    const setupRealtimeSubscription = () => {
+      const shipmentsChannel = supabase
+        .channel('shipments-led-changes')
+        .on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'shipments' },
+          () => {
+            loadShipments();
+          }
+        )
+        .subscribe();
+
+      const operatorsChannel = supabase
+        .channel('operators-led-changes')
+        .on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'operators' },
+          () => {
+            loadOperators();
+          }
+        )
+        .subscribe();
+
+      const announcementsChannel = supabase
+        .channel('announcements-led-changes')
+        .on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'announcements' },
+          () => {
+            loadAnnouncements();
+          }
+        )
+        .subscribe();
+
+      const welcomeChannel = supabase
+        .channel('welcome-messages-changes')
+        .on(
+          'postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'led_welcome_messages' },
+          () => {
+            loadWelcomeMessages();
+          }
+        )
+        .subscribe();
+
+      return () => {
+        supabase.removeChannel(shipmentsChannel);
+        supabase.removeChannel(operatorsChannel);
+        supabase.removeChannel(announcementsChannel);
+        supabase.removeChannel(welcomeChannel);
+      };
+    };
+
     loadSettings();
-    loadShipments();
+    loadDateSettings().then(() => {
+      loadShipments();
+      loadDockArrivals();
+    });
     loadOperators();
     loadAnnouncements();
     loadWelcomeMessages();
     checkForActiveAudioSession();
-    setupRealtimeSubscription();
-    setupSettingsSubscription();
+    const removeRealtimeSubscription = setupRealtimeSubscription();
+    const removeSettingsSubscription = setupSettingsSubscription();
     setupAudioSessionListener();
 
     refreshIntervalRef.current = setInterval(() => {
       loadShipments();
+      loadDockArrivals();
       loadAnnouncements();
       loadWelcomeMessages();
     }, REFRESH_SECONDS * 1000);
@@ -90,6 +160,8 @@ export function LEDDisplay() {
       if (audioCleanupRef.current) {
         audioCleanupRef.current();
       }
+      removeRealtimeSubscription();
+      removeSettingsSubscription();
       liveAudioService.stopPlayback();
     };
   }, []);
@@ -117,59 +189,6 @@ export function LEDDisplay() {
     audioCleanupRef.current = cleanup;
   };
 
-  const setupRealtimeSubscription = () => {
-    const shipmentsChannel = supabase
-      .channel('shipments-led-changes')
-      .on(
-        'postgres_changes',
-        { event: '*', schema: 'public', table: 'shipments' },
-        () => {
-          loadShipments();
-        }
-      )
-      .subscribe();
-
-    const operatorsChannel = supabase
-      .channel('operators-led-changes')
-      .on(
-        'postgres_changes',
-        { event: '*', schema: 'public', table: 'operators' },
-        () => {
-          loadOperators();
-        }
-      )
-      .subscribe();
-
-    const announcementsChannel = supabase
-      .channel('announcements-led-changes')
-      .on(
-        'postgres_changes',
-        { event: '*', schema: 'public', table: 'announcements' },
-        () => {
-          loadAnnouncements();
-        }
-      )
-      .subscribe();
-
-    const welcomeChannel = supabase
-      .channel('welcome-messages-changes')
-      .on(
-        'postgres_changes',
-        { event: 'INSERT', schema: 'public', table: 'led_welcome_messages' },
-        () => {
-          loadWelcomeMessages();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(shipmentsChannel);
-      supabase.removeChannel(operatorsChannel);
-      supabase.removeChannel(announcementsChannel);
-      supabase.removeChannel(welcomeChannel);
-    };
-  };
-
   const setupSettingsSubscription = () => {
     const defaultSound = 'data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmwhBTGH0fPTgjMGHm7A7+OZUQ0PUqzm77BdGQs9lt300YIxBSV+zPLYijgIFmS56umhUg4KR6Xh8K9gHQU2jNPy1YU4BhxtwO7lmVENEFCr5O+wXBkLPJbd8tN+MQUmfsvy2Io3CBZkuunooVIOCkek4PCwYRwFNo3T8tWFOAYbbc/u5ZlRDQ9Rq+TwsFwYCz2W3fLTfjEFJn/L8tiKNwgWZLrp6KFSDAZGpeDwsGEcBTaN0/LVhTgGG23P7uWZUQ0PUavk8LBcGAs9lt3y034xBSZ/y/LYijcIFmS66eiVUgwGRqXg8K9hHAU2jdPy1YU4BhttwO7lmVENDlGr5PCwXBgLPZbd8tN+MQUmf8vy2Io3CBdkuunooVILBkak4PCwYR0GNo3T8tWFOAYbbcDu5ZlRDQ5Rq+TwsFwYCz2X3fLTfjEFJn/L8tiKNwgXZLrp6KFSCwdGpODwsGEdBjaN0/LVhTgGG23A7uWZUQ0OUavk8LBcGAs9l93y034xBSZ/y/LYijcIF2S66eiVUgsHRqTg8LBhHQU1jdPy1YU4BhttMO7mmFENDlGs5O+wXRkLPZfd8tN+MQUmf8vy14o3CBdkuunqoVILB0ak4PCwYR0FNY3T8tWFOAYbbTDu5ZhRDQ5RrOTvsF0ZCz2X3fLTfjEFJn/L8teKNwgXZLrp6qFSCwdGpODwsGEdBTWN0/LVhTgGG20w7uWYUQ0OUazk77BdGQs9l93y034xBSZ/y/LXijcIF2S66eqhUgsHRqTg8LBhHQU1jdPy1IY4Bhxtwe7lmFENDlGs5O+wXRkLPZfd8tN+MQUmf8vy14o3CBdkuunooVILB0ak4PCwYR0FNY3T8tSGOAYcbcHu5ZhRDQ5RrOTvsF0ZCz2X3fLTfjEFJn/L8teKNwgXZLrp6KFSCwdGpODwsGEdBTWN0/LUhjgGHG3B7uWYUQ0OUazk77BdGQs9l93y034xBSZ/y/LXijcIF2S66eihUgsHRqTg8LBhHQU1jdPy1IY4Bhxtwe7lmFENDlGs5O+wXRkLPZfd8tN+MQUmf8vy14o3CBdkuunooVILB0ak4PCwYR0FNY3T8tSGOAYcbcHu5ZhRDQ5RrOTvsF0ZCz2X3fLTfjEFJn/L8teKNwgXZLrp6KFSCwdGpODwsGEdBTWN0/LUhjgGHG3B7uWYUQ0OUavk77BdGQs9l93y034xBSZ/y/LXijcIF2S66eihUgsHRqTg8LBhHQU1jdPy1IY4BhxtM+7lmFENDlGs5O+wXRkLPZfd8tN+MQUmf8vy14o3CBdkuunooVILB0ak4PCwYR0FNY3T8tSGOAYcbTPu5ZhRDQ5Rq+TvsF0ZCz2X3fLTfjEFJn/L8teKNwgXZLrp6KFSCwdGpODwsGEdBTWN0/LUhjgGHG0z7uWYUQ0OUavk77BdGQs9l93y034xBSZ/y/LXijcIF2S66eihUgsHRqTg8LBhHQU1jdPy1IY4BhxtM+7lmFENDlGr5O+wXRkLPZfd8tN+MQUmf8vy14o3CBdkuunooVILB0ak4PCwYR0FNY3T8tSGOAYcbTPu5ZhRDQ5Rq+TvsF0ZCz2X3fLTfjEFJn/L8teKNwgXZLrp6KFSCwdGpODwsGEdBTWN0/LUhjgGHG0z7uWYUQ0OUavk77BdGAs=';
 
@@ -234,15 +253,13 @@ export function LEDDisplay() {
     };
   }, [shipments, rotateSeconds]);
 
-  const getTodayDateRange = () => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    return {
-      start: today.toISOString(),
-      end: tomorrow.toISOString()
-    };
+  const loadDockArrivals = async () => {
+    const dateRange = getTodayDateRange();
+    const [doors, bookings] = await Promise.all([
+      dockService.getDoors(),
+      dockService.getBookings(new Date(dateRange.start), new Date(dateRange.end))
+    ]);
+    setDockArrivals(dockService.getNextArrivals(doors, bookings));
   };
 
   const loadOperators = async () => {
@@ -296,7 +313,8 @@ export function LEDDisplay() {
 
       if (error) throw error;
 
-      if (data && (!welcomeMessage || welcomeMessage.id !== data.id)) {
+      if (data && welcomeMessageIdRef.current !== data.id) {
+        welcomeMessageIdRef.current = data.id;
         setWelcomeMessage(data);
 
         if (welcomeTimeoutRef.current) {
@@ -309,9 +327,11 @@ export function LEDDisplay() {
             .update({ displayed: true, displayed_at: new Date().toISOString() })
             .eq('id', data.id);
 
+          welcomeMessageIdRef.current = null;
           setWelcomeMessage(null);
         }, data.display_duration * 1000);
-      } else if (!data && welcomeMessage) {
+      } else if (!data && welcomeMessageIdRef.current) {
+        welcomeMessageIdRef.current = null;
         setWelcomeMessage(null);
       }
     } catch (err) {
@@ -357,15 +377,12 @@ export function LEDDisplay() {
   };
 
   const formatDate = (dateString: string | null) => {
-    if (!dateString) return 'Time TBA';
-    const date = new Date(dateString);
-    return date.toLocaleString('en-GB', {
+    return formatWarehouseDate(dateString, {
       day: '2-digit',
       month: 'short',
       hour: '2-digit',
-      minute: '2-digit',
-      timeZone: 'UTC'
-    });
+      minute: '2-digit'
+    }, 'Time TBA');
   };
 
   const isArrivingSoon = (dateString: string | null) => {
@@ -439,7 +456,7 @@ export function LEDDisplay() {
     if (diffMinutes < 60) return `${diffMinutes}m ago`;
     const diffHours = Math.floor(diffMinutes / 60);
     if (diffHours < 24) return `${diffHours}h ago`;
-    return lastUpdated.toLocaleString('en-GB', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+    return formatWarehouseDate(lastUpdated, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
   };
 
   return (
@@ -579,6 +596,23 @@ export function LEDDisplay() {
           </div>
         )}
 
+        {dockArrivals.length > 0 && (
+          <div className="mb-4 md:mb-6 flex flex-wrap gap-2 md:gap-3">
+            {dockArrivals.map(({ door, booking }) => (
+              <div
+                key={door.id}
+                className="flex items-center gap-2 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2"
+                title={booking.title}
+              >
+                <DoorOpen className="w-5 h-5 text-blue-400" />
+                <span className="text-base md:text-xl font-bold text-white">
+                  {door.name}: next arrival {formatWarehouseDate(booking.slot_start || null, { hour: '2-digit', minute: '2-digit' })}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {visibleShipments.length === 0 ? (
           <div className="flex items-center justify-center py-16 md:py-32">
             <div className="text-center">
@@ -0,0 +1,87 @@
+import { StorageLocationOccupancy } from '../lib/supabase';
+import { locationService } from '../services/locationService';
+
+type LocationSelectProps = {
+  locations: StorageLocationOccupancy[];
+  value: string;
+  onChange: (code: string) => void;
+  reserved?: Record<string, number>;
+  ignoreCapacity?: boolean;
+  disabled?: boolean;
+  className?: string;
+};
+
+/**
+ * Picker for registered storage locations, grouped by zone. Blocked, inactive
+ * and full locations are listed but cannot be chosen; `reserved` counts
+ * packages already assigned elsewhere in the same form.
+ */
+export function LocationSelect({
+  locations,
+  value,
+  onChange,
+  reserved = {},
+  ignoreCapacity = false,
+  disabled = false,
+  className = ''
+}: LocationSelectProps) {
+  const selected = locationService.findLocation(locations, value);
+  const isUnknown = value.trim() !== '' && !selected;
+
+  const zones = [...new Set(locations.map(l => l.zone))];
+
+  const getFree = (location: StorageLocationOccupancy) =>
+    location.capacity - location.occupied - (reserved[location.code] || 0);
+
+  const getOptionLabel = (location: StorageLocationOccupancy) => {
+    if (location.blocked) return `${location.code} (blocked)`;
+    if (!location.active) return `${location.code} (inactive)`;
+    if (ignoreCapacity) return location.code;
+    const free = getFree(location);
+    return free > 0 ? `${location.code} · ${free} free` : `${location.code} (full)`;
+  };
+
+  const isSelectable = (location: StorageLocationOccupancy) => {
+    if (location.code === selected?.code) return true;
+    if (location.blocked || !location.active) return false;
+    return ignoreCapacity || getFree(location) > 0;
+  };
+
+  return (
+    <div>
+      <select
+        value={selected?.code ?? value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm bg-white ${
+          isUnknown ? 'border-red-400 text-red-700' : 'border-slate-300'
+        } ${className}`}
+      >
+        <option value="">Select storage location...</option>
+        {isUnknown && (
+          <option value={value}>{value} (not registered)</option>
+        )}
+        {zones.map(zone => (
+          <optgroup key={zone} label={`Zone ${zone}`}>
+            {locations
+              .filter(l => l.zone === zone)
+              .map(location => (
+                <option
+                  key={location.id}
+                  value={location.code}
+                  disabled={!isSelectable(location)}
+                >
+                  {getOptionLabel(location)}
+                </option>
+              ))}
+          </optgroup>
+        ))}
+      </select>
+      {isUnknown && (
+        <p className="text-xs text-red-600 mt-1">
+          "{value}" is not a registered location. Choose one from the list.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -14,6 +14,13 @@ import {
   History
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import {
+  packageLifecycleService,
+  PackageStatusHistoryEntry,
+  PACKAGE_STATUS_LABELS,
+  HOLD_STATUSES,
+  isPackageStatus
+} from '../services/packageLifecycleService';
 
 type Package = {
   id: string;
@@ -53,6 +60,7 @@ type PackageDetailsModalProps = {
 export function PackageDetailsModal({ packageData, onClose }: PackageDetailsModalProps) {
   const [pkg, setPkg] = useState(packageData);
   const [allPackages, setAllPackages] = useState<Package[]>([]);
+  const [timeline, setTimeline] = useState<PackageStatusHistoryEntry[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -95,6 +103,9 @@ export function PackageDetailsModal({ packageData, onClose }: PackageDetailsModa
 
       setPkg(fullPackage);
 
+      const history = await packageLifecycleService.getHistoryForSscc(fullPackage.sscc_number);
+      setTimeline(packageLifecycleService.mergeTimeline(history));
+
       if (fullPackage.shipment_id) {
         const { data: shipmentPackages } = await supabase
           .from('packages')
@@ -116,14 +127,25 @@ export function PackageDetailsModal({ packageData, onClose }: PackageDetailsModa
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'stored':
+      case 'delivered':
         return <CheckCircle className="w-5 h-5 text-green-600" />;
-      case 'pending':
+      case 'quarantine':
+      case 'deviation_hold':
+        return <AlertTriangle className="w-5 h-5 text-orange-600" />;
+      case 'expected':
+      case 'received':
+      case 'putaway':
+      case 'picked':
+      case 'loaded':
         return <Circle className="w-5 h-5 text-yellow-600" />;
       default:
         return <XCircle className="w-5 h-5 text-slate-400" />;
     }
   };
 
+  const getStatusLabel = (status: string) =>
+    isPackageStatus(status) ? PACKAGE_STATUS_LABELS[status] : status;
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'high':
@@ -193,8 +215,8 @@ export function PackageDetailsModal({ packageData, onClose }: PackageDetailsModa
                     <span className="text-sm text-slate-600">Status</span>
                     <div className="flex items-center gap-2">
                       {getStatusIcon(pkg.status)}
-                      <span className="text-sm font-medium text-slate-900 capitalize">
-                        {pkg.status}
+                      <span className="text-sm font-medium text-slate-900">
+                        {getStatusLabel(pkg.status)}
                       </span>
                     </div>
                   </div>
@@ -307,6 +329,50 @@ export function PackageDetailsModal({ packageData, onClose }: PackageDetailsModa
               </div>
             )}
 
+            <div className="bg-white rounded-lg border border-slate-200 p-4">
+              <h3 className="text-sm font-semibold text-slate-900 flex items-center gap-2 mb-3">
+                <Clock className="w-4 h-4" />
+                Lifecycle Timeline
+              </h3>
+              {timeline.length === 0 ? (
+                <p className="text-sm text-slate-600 italic">No status history recorded</p>
+              ) : (
+                <ol className="relative border-l-2 border-slate-200 ml-2 space-y-4">
+                  {timeline.map((entry) => (
+                    <li key={entry.id} className="ml-4">
+                      <span
+                        className={`absolute -left-[7px] mt-1 w-3 h-3 rounded-full ${
+                          HOLD_STATUSES.includes(entry.to_status)
+                            ? 'bg-orange-500'
+                            : entry.to_status === 'delivered'
+                            ? 'bg-green-600'
+                            : 'bg-blue-600'
+                        }`}
+                      />
+                      <div className="flex flex-wrap items-baseline justify-between gap-2">
+                        <p className="text-sm font-medium text-slate-900">
+                          {PACKAGE_STATUS_LABELS[entry.to_status]}
+                          {entry.from_status && (
+                            <span className="text-xs font-normal text-slate-500">
+                              {' '}from {PACKAGE_STATUS_LABELS[entry.from_status]}
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-slate-600">
+                          {new Date(entry.changed_at).toLocaleString()}
+                        </p>
+                      </div>
+                      <p className="text-xs text-slate-600">
+                        {entry.changed_by_name || 'System'}
+                        {entry.shipment_title && ` · ${entry.shipment_title}`}
+                        {entry.reason && ` · ${entry.reason}`}
+                      </p>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+
             {pkg.has_deviation && pkg.deviation && (
               <div className="bg-orange-50 rounded-lg border-2 border-orange-200 p-4">
                 <div className="flex items-start gap-3 mb-3">
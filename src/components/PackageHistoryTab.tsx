@@ -1,30 +1,36 @@
 import { useState, useEffect } from 'react';
 import { Search, Package, Calendar, MapPin, TrendingUp, TrendingDown, Clock, AlertTriangle } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import {
+  packageLifecycleService,
+  PackageStatus,
+  PackageStatusHistoryEntry,
+  PACKAGE_STATUS_LABELS,
+  HOLD_STATUSES,
+  STORAGE_STATUSES
+} from '../services/packageLifecycleService';
 
 type PackageHistory = {
   id: string;
   sscc_number: string;
   storage_location: string;
-  status: 'stored' | 'pending';
+  status: PackageStatus;
   created_at: string;
   updated_at: string;
   has_deviation: boolean;
   deviation_notes: string | null;
-  incoming_shipment: {
-    id: string;
-    title: string;
-    start: string;
-    completed_at: string | null;
-    created_by_name: string;
-  } | null;
-  outgoing_shipment: {
-    id: string;
-    title: string;
-    start: string;
-    completed_at: string | null;
-    created_by_name: string;
-  } | null;
+  timeline: PackageStatusHistoryEntry[];
+};
+
+type PackageRow = {
+  id: string;
+  sscc_number: string;
+  storage_location: string | null;
+  status: PackageStatus;
+  created_at: string;
+  updated_at: string;
+  has_deviation: boolean | null;
+  deviation_notes: string | null;
 };
 
 export function PackageHistoryTab() {
@@ -56,70 +62,41 @@ export function PackageHistoryTab() {
           created_at,
           updated_at,
           has_deviation,
-          deviation_notes,
-          shipment_id
+          deviation_notes
         `)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
 
-      // Get all shipments
-      const { data: shipmentsData } = await supabase
-        .from('shipments')
-        .select(`
-          id,
-          title,
-          start,
-          completed_at,
-          shipment_type,
-          sscc_numbers,
-          created_by
-        `);
-
-      // Get user profiles for names
-      const { data: profilesData } = await supabase
-        .from('user_profiles')
-        .select('user_id, full_name');
+      const rows: PackageRow[] = packagesData || [];
+      const entries = await packageLifecycleService.getHistory(rows.map(p => p.id));
 
-      const profileMap = new Map(profilesData?.map(p => [p.user_id, p.full_name]) || []);
+      // An SSCC can have an inbound row and an outgoing manifest row; show them as one package
+      const rowsBySscc = new Map<string, PackageRow[]>();
+      for (const row of rows) {
+        const list = rowsBySscc.get(row.sscc_number) || [];
+        list.push(row);
+        rowsBySscc.set(row.sscc_number, list);
+      }
 
-      // Build history
       const history: PackageHistory[] = [];
 
-      for (const pkg of packagesData || []) {
-        const incomingShipment = shipmentsData?.find(
-          s => s.shipment_type === 'incoming' &&
-          (s.id === pkg.shipment_id || s.sscc_numbers?.includes(pkg.sscc_number))
-        );
-
-        const outgoingShipment = shipmentsData?.find(
-          s => s.shipment_type === 'outgoing' &&
-          s.sscc_numbers?.includes(pkg.sscc_number)
-        );
+      for (const [sscc, ssccRows] of rowsBySscc) {
+        const rowIds = new Set(ssccRows.map(r => r.id));
+        const timeline = packageLifecycleService.mergeTimeline(entries.filter(e => rowIds.has(e.package_id)));
+        const storedRow = ssccRows.find(r => STORAGE_STATUSES.includes(r.status)) || ssccRows[ssccRows.length - 1];
+        const latest = timeline[timeline.length - 1];
 
         history.push({
-          id: pkg.id,
-          sscc_number: pkg.sscc_number,
-          storage_location: pkg.storage_location || '-',
-          status: pkg.status,
-          created_at: pkg.created_at,
-          updated_at: pkg.updated_at,
-          has_deviation: pkg.has_deviation || false,
-          deviation_notes: pkg.deviation_notes,
-          incoming_shipment: incomingShipment ? {
-            id: incomingShipment.id,
-            title: incomingShipment.title || 'Incoming',
-            start: incomingShipment.start,
-            completed_at: incomingShipment.completed_at,
-            created_by_name: profileMap.get(incomingShipment.created_by) || 'Unknown',
-          } : null,
-          outgoing_shipment: outgoingShipment ? {
-            id: outgoingShipment.id,
-            title: outgoingShipment.title || 'Outgoing',
-            start: outgoingShipment.start,
-            completed_at: outgoingShipment.completed_at,
-            created_by_name: profileMap.get(outgoingShipment.created_by) || 'Unknown',
-          } : null,
+          id: storedRow.id,
+          sscc_number: sscc,
+          storage_location: storedRow.storage_location || '-',
+          status: latest?.to_status || storedRow.status,
+          created_at: ssccRows[ssccRows.length - 1].created_at,
+          updated_at: ssccRows[0].updated_at,
+          has_deviation: ssccRows.some(r => r.has_deviation),
+          deviation_notes: ssccRows.find(r => r.deviation_notes)?.deviation_notes || null,
+          timeline
         });
       }
 
@@ -136,9 +113,9 @@ export function PackageHistoryTab() {
 
     // Status filter
     if (statusFilter === 'stored') {
-      filtered = filtered.filter(p => p.status === 'stored');
+      filtered = filtered.filter(p => STORAGE_STATUSES.includes(p.status));
     } else if (statusFilter === 'delivered') {
-      filtered = filtered.filter(p => p.status === 'pending' || p.outgoing_shipment);
+      filtered = filtered.filter(p => p.status === 'delivered');
     }
 
     // Search filter
@@ -165,6 +142,12 @@ export function PackageHistoryTab() {
     });
   };
 
+  const getStorageStart = (pkg: PackageHistory) =>
+    pkg.timeline.find(e => e.to_status === 'stored')?.changed_at || null;
+
+  const getDeliveredAt = (pkg: PackageHistory) =>
+    pkg.timeline.find(e => e.to_status === 'delivered')?.changed_at || null;
+
   const calculateDuration = (start: string, end: string | null) => {
     const startDate = new Date(start);
     const endDate = end ? new Date(end) : new Date();
@@ -241,13 +224,13 @@ export function PackageHistoryTab() {
           <div className="bg-green-50 border border-green-200 rounded-lg p-4">
             <div className="text-green-600 text-sm font-medium mb-1">In Warehouse</div>
             <div className="text-2xl font-bold text-green-900">
-              {packages.filter(p => p.status === 'stored').length}
+              {packages.filter(p => STORAGE_STATUSES.includes(p.status)).length}
             </div>
           </div>
           <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
             <div className="text-purple-600 text-sm font-medium mb-1">Delivered</div>
             <div className="text-2xl font-bold text-purple-900">
-              {packages.filter(p => p.outgoing_shipment).length}
+              {packages.filter(p => p.status === 'delivered').length}
             </div>
           </div>
           <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
@@ -277,9 +260,9 @@ export function PackageHistoryTab() {
                 className={`border-2 rounded-lg p-4 transition-colors ${
                   pkg.has_deviation
                     ? 'border-orange-300 bg-orange-50'
-                    : pkg.status === 'stored'
-                    ? 'border-green-300 bg-green-50'
-                    : 'border-purple-300 bg-purple-50'
+                    : pkg.status === 'delivered'
+                    ? 'border-purple-300 bg-purple-50'
+                    : 'border-green-300 bg-green-50'
                 }`}
               >
                 <div className="flex items-start justify-between mb-3">
@@ -287,16 +270,16 @@ export function PackageHistoryTab() {
                     <div className={`p-2 rounded-lg ${
                       pkg.has_deviation
                         ? 'bg-orange-200'
-                        : pkg.status === 'stored'
-                        ? 'bg-green-200'
-                        : 'bg-purple-200'
+                        : pkg.status === 'delivered'
+                        ? 'bg-purple-200'
+                        : 'bg-green-200'
                     }`}>
                       <Package className={`w-5 h-5 ${
                         pkg.has_deviation
                           ? 'text-orange-700'
-                          : pkg.status === 'stored'
-                          ? 'text-green-700'
-                          : 'text-purple-700'
+                          : pkg.status === 'delivered'
+                          ? 'text-purple-700'
+                          : 'text-green-700'
                       }`} />
                     </div>
                     <div>
@@ -310,75 +293,59 @@ export function PackageHistoryTab() {
                   <div className={`px-3 py-1 rounded-full text-sm font-semibold ${
                     pkg.has_deviation
                       ? 'bg-orange-200 text-orange-800'
-                      : pkg.status === 'stored'
-                      ? 'bg-green-200 text-green-800'
-                      : 'bg-purple-200 text-purple-800'
+                      : pkg.status === 'delivered'
+                      ? 'bg-purple-200 text-purple-800'
+                      : 'bg-green-200 text-green-800'
                   }`}>
-                    {pkg.has_deviation ? 'Has Deviation' : pkg.status === 'stored' ? 'In Warehouse' : 'Delivered'}
+                    {PACKAGE_STATUS_LABELS[pkg.status]}{pkg.has_deviation && ' · Has Deviation'}
                   </div>
                 </div>
 
                 {/* Timeline */}
-                <div className="grid grid-cols-2 gap-4 pl-11">
-                  {/* Incoming */}
-                  {pkg.incoming_shipment ? (
-                    <div className="bg-white border border-slate-200 rounded-lg p-3">
-                      <div className="flex items-center gap-2 mb-2">
-                        <TrendingDown className="w-4 h-4 text-blue-600" />
-                        <span className="text-sm font-semibold text-slate-900">Arrival</span>
-                      </div>
-                      <div className="text-xs text-slate-600 space-y-1">
-                        <div className="flex items-center gap-1">
-                          <Calendar className="w-3 h-3" />
-                          {formatDate(pkg.incoming_shipment.start)}
-                        </div>
-                        <div className="text-slate-500">{pkg.incoming_shipment.title}</div>
-                        <div className="text-slate-500">By: {pkg.incoming_shipment.created_by_name}</div>
-                      </div>
+                <div className="pl-11">
+                  {pkg.timeline.length === 0 ? (
+                    <div className="bg-slate-50 border border-slate-200 rounded-lg p-3 text-sm text-slate-500">
+                      No status history recorded
                     </div>
                   ) : (
-                    <div className="bg-slate-50 border border-slate-200 rounded-lg p-3">
-                      <div className="text-sm text-slate-500">No arrival data</div>
-                    </div>
+                    <ol className="flex flex-wrap items-stretch gap-2">
+                      {pkg.timeline.map((entry) => (
+                        <li
+                          key={entry.id}
+                          className="bg-white border border-slate-200 rounded-lg p-3 min-w-[150px]"
+                        >
+                          <div className="flex items-center gap-2 mb-1">
+                            {entry.to_status === 'delivered' ? (
+                              <TrendingUp className="w-4 h-4 text-purple-600" />
+                            ) : entry.to_status === 'received' || entry.to_status === 'expected' ? (
+                              <TrendingDown className="w-4 h-4 text-blue-600" />
+                            ) : HOLD_STATUSES.includes(entry.to_status) ? (
+                              <AlertTriangle className="w-4 h-4 text-orange-600" />
+                            ) : (
+                              <Clock className="w-4 h-4 text-green-600" />
+                            )}
+                            <span className="text-sm font-semibold text-slate-900">
+                              {PACKAGE_STATUS_LABELS[entry.to_status]}
+                            </span>
+                          </div>
+                          <div className="text-xs text-slate-600 space-y-1">
+                            <div className="flex items-center gap-1">
+                              <Calendar className="w-3 h-3" />
+                              {formatDate(entry.changed_at)}
+                            </div>
+                            {entry.shipment_title && <div className="text-slate-500">{entry.shipment_title}</div>}
+                            {entry.reason && <div className="text-slate-500">{entry.reason}</div>}
+                            <div className="text-slate-500">By: {entry.changed_by_name || 'System'}</div>
+                          </div>
+                        </li>
+                      ))}
+                    </ol>
                   )}
 
-                  {/* Outgoing */}
-                  {pkg.outgoing_shipment ? (
-                    <div className="bg-white border border-slate-200 rounded-lg p-3">
-                      <div className="flex items-center gap-2 mb-2">
-                        <TrendingUp className="w-4 h-4 text-purple-600" />
-                        <span className="text-sm font-semibold text-slate-900">Delivery</span>
-                      </div>
-                      <div className="text-xs text-slate-600 space-y-1">
-                        <div className="flex items-center gap-1">
-                          <Calendar className="w-3 h-3" />
-                          {formatDate(pkg.outgoing_shipment.start)}
-                        </div>
-                        <div className="text-slate-500">{pkg.outgoing_shipment.title}</div>
-                        <div className="text-slate-500">By: {pkg.outgoing_shipment.created_by_name}</div>
-                        {pkg.incoming_shipment && (
-                          <div className="flex items-center gap-1 text-orange-600 font-medium">
-                            <Clock className="w-3 h-3" />
-                            Storage: {calculateDuration(pkg.incoming_shipment.start, pkg.outgoing_shipment.start)}
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                  ) : pkg.status === 'stored' ? (
-                    <div className="bg-slate-50 border border-slate-200 rounded-lg p-3">
-                      <div className="text-sm text-slate-500 flex items-center gap-2">
-                        <Clock className="w-4 h-4 text-green-600" />
-                        Currently in warehouse
-                        {pkg.incoming_shipment && (
-                          <span className="text-green-600 font-medium">
-                            ({calculateDuration(pkg.incoming_shipment.start, null)})
-                          </span>
-                        )}
-                      </div>
-                    </div>
-                  ) : (
-                    <div className="bg-slate-50 border border-slate-200 rounded-lg p-3">
-                      <div className="text-sm text-slate-500">No delivery data</div>
+                  {getStorageStart(pkg) && (
+                    <div className="mt-2 flex items-center gap-1 text-xs text-orange-600 font-medium">
+                      <Clock className="w-3 h-3" />
+                      Storage: {calculateDuration(getStorageStart(pkg)!, getDeliveredAt(pkg))}
                     </div>
                   )}
                 </div>
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, X, AlertTriangle, Package } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { X, AlertTriangle, Package } from 'lucide-react';
+import { supabase, StorageLocation } from '../lib/supabase';
+import { locationService } from '../services/locationService';
+import { ScanInput, ScannedCode } from './ScanInput';
 
 export interface PackageWithDeviation {
   sscc: string;
@@ -39,10 +41,11 @@ export function PackageManager({
   onDeviationChange,
   shipmentType = 'general'
 }: PackageManagerProps) {
-  const [newPackage, setNewPackage] = useState('');
   const [storedPackages, setStoredPackages] = useState<StoredPackage[]>([]);
   const [showDropdown, setShowDropdown] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
+  const [storageLocations, setStorageLocations] = useState<StorageLocation[]>([]);
+  const [locationFilter, setLocationFilter] = useState('');
   const [deviationStates, setDeviationStates] = useState<Record<string, boolean>>(() => {
     const initial: Record<string, boolean> = {};
     packagesWithDeviations.forEach(pkg => {
@@ -63,9 +66,15 @@ export function PackageManager({
   useEffect(() => {
     if (shipmentType === 'outgoing') {
       loadStoredPackages();
+      loadStorageLocations();
     }
   }, [shipmentType]);
 
+  const loadStorageLocations = async () => {
+    const data = await locationService.getLocations();
+    setStorageLocations(data);
+  };
+
   const loadStoredPackages = async () => {
     try {
       const { data, error } = await supabase
@@ -89,25 +98,28 @@ export function PackageManager({
     setSearchTerm('');
   };
 
+  // Only registered locations that currently hold stored packages are offered as filters
+  const locationOptions = React.useMemo(() => {
+    const used = new Set(storedPackages.map(pkg => pkg.storage_location?.toLowerCase()));
+    return storageLocations.filter(location => used.has(location.code.toLowerCase()));
+  }, [storedPackages, storageLocations]);
+
   const filteredStoredPackages = React.useMemo(() => {
-    if (!searchTerm.trim()) return storedPackages;
     const query = searchTerm.toLowerCase().trim();
     return storedPackages.filter(pkg =>
-      pkg.sscc_number.toLowerCase().includes(query)
+      (!locationFilter || pkg.storage_location?.toLowerCase() === locationFilter.toLowerCase()) &&
+      (!query ||
+        pkg.sscc_number.toLowerCase().includes(query) ||
+        pkg.storage_location?.toLowerCase().includes(query))
     );
-  }, [storedPackages, searchTerm]);
+  }, [storedPackages, searchTerm, locationFilter]);
 
-  const addPackage = () => {
-    const trimmed = newPackage.trim();
-    if (!trimmed) return;
-
-    if (packages.includes(trimmed)) {
-      alert('This SSCC number is already added');
-      return;
+  const addPackage = ({ code }: ScannedCode) => {
+    if (packages.includes(code)) {
+      return 'This SSCC number is already added';
     }
 
-    onChange([...packages, trimmed]);
-    setNewPackage('');
+    onChange([...packages, code]);
   };
 
   const removePackage = (index: number) => {
@@ -162,13 +174,6 @@ export function PackageManager({
     onDeviationChange(updatedPackages);
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter') {
-      e.preventDefault();
-      addPackage();
-    }
-  };
-
   return (
     <div className={compact ? '' : 'space-y-2'}>
       {showLabel && (
@@ -210,7 +215,21 @@ export function PackageManager({
                   autoFocus
                   className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 text-sm"
                 />
-                {searchTerm && (
+                {locationOptions.length > 0 && (
+                  <select
+                    value={locationFilter}
+                    onChange={(e) => setLocationFilter(e.target.value)}
+                    className="w-full mt-2 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 text-sm bg-white"
+                  >
+                    <option value="">All locations</option>
+                    {locationOptions.map(location => (
+                      <option key={location.id} value={location.code}>
+                        {location.code}{location.blocked ? ' (blocked)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {(searchTerm || locationFilter) && (
                   <div className="text-xs text-slate-600 mt-1">
                     Found {filteredStoredPackages.length} package{filteredStoredPackages.length !== 1 ? 's' : ''}
                   </div>
@@ -245,6 +264,9 @@ export function PackageManager({
                         {pkg.storage_location && (
                           <div className={`text-xs mt-0.5 ${isAdded ? 'text-slate-400' : 'text-slate-500'}`}>
                             Location: {pkg.storage_location}
+                            {storageLocations.length > 0 && !locationService.findLocation(storageLocations, pkg.storage_location) && (
+                              <span className="ml-1 text-red-600">(not registered)</span>
+                            )}
                           </div>
                         )}
                       </button>
@@ -252,7 +274,7 @@ export function PackageManager({
                   })
                 ) : (
                   <div className="px-3 py-4 text-center text-slate-500 text-sm">
-                    {searchTerm ? `No packages matching "${searchTerm}"` : 'No packages found'}
+                    {searchTerm || locationFilter ? 'No packages matching the filters' : 'No packages found'}
                   </div>
                 )}
               </div>
@@ -261,25 +283,13 @@ export function PackageManager({
         </div>
       )}
 
-      <div className={`flex gap-2 ${compact ? 'mb-2' : 'mb-3'}`}>
-        <input
-          type="text"
-          value={newPackage}
-          onChange={(e) => setNewPackage(e.target.value)}
-          onKeyPress={handleKeyPress}
-          placeholder={shipmentType === 'outgoing' ? 'Or enter SSCC manually' : 'Enter SSCC number (e.g., HU6827)'}
+      <div className={compact ? 'mb-2' : 'mb-3'}>
+        <ScanInput
+          onScan={addPackage}
+          placeholder={shipmentType === 'outgoing' ? 'Or scan / enter SSCC manually' : 'Scan or enter SSCC number (e.g., HU6827)'}
           disabled={disabled}
-          className={`flex-1 ${compact ? 'px-2 py-1.5 text-sm' : 'px-3 py-2'} border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-slate-100`}
+          compact={compact}
         />
-        <button
-          type="button"
-          onClick={addPackage}
-          disabled={disabled || !newPackage.trim()}
-          className={`${compact ? 'px-3 py-1.5 text-sm' : 'px-4 py-2'} bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-slate-300 disabled:cursor-not-allowed flex items-center gap-2 font-medium transition-colors`}
-        >
-          <Plus className={compact ? 'w-3 h-3' : 'w-4 h-4'} />
-          Add
-        </button>
       </div>
 
       {packages.length > 0 && (
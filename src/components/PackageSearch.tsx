@@ -1,6 +1,11 @@
 import { useState } from 'react';
-import { Search, Package as PackageIcon, Loader2 } from 'lucide-react';
+import { Search, Package as PackageIcon, Loader2, Camera, AlertTriangle } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { PACKAGE_STATUS_LABELS, isPackageStatus } from '../services/packageLifecycleService';
+import { audioService } from '../services/audioNotifications';
+import { parseScannedCode, looksLikeGs1Barcode, GS1_GROUP_SEPARATOR } from '../utils/gs1';
+import { isCameraScanSupported } from '../utils/barcodeDetector';
+import { CameraScanner } from './ScanInput';
 
 type Package = {
   id: string;
@@ -38,15 +43,48 @@ export function PackageSearch({ onSelectPackage }: PackageSearchProps) {
   const [searching, setSearching] = useState(false);
   const [results, setResults] = useState<Package[]>([]);
   const [searched, setSearched] = useState(false);
+  const [scanError, setScanError] = useState('');
+  const [showCamera, setShowCamera] = useState(false);
 
-  const handleSearch = async () => {
+  /**
+   * Scanned barcodes are validated and reduced to their SSCC for an exact
+   * lookup; anything else is searched as part of an SSCC. Returns null for a
+   * rejected scan.
+   */
+  const resolveSearch = (raw: string): { term: string; exact: boolean } | null => {
+    if (!looksLikeGs1Barcode(raw)) {
+      setScanError('');
+      return { term: raw.trim(), exact: false };
+    }
+
+    const parsed = parseScannedCode(raw);
+    audioService.playScanFeedback(parsed.valid);
+
+    if (!parsed.valid) {
+      setScanError(parsed.error);
+      return null;
+    }
+
+    setScanError('');
+    setSearchTerm(parsed.code);
+    return { term: parsed.code, exact: true };
+  };
+
+  const handleSearch = () => {
     if (!searchTerm.trim()) return;
 
+    const resolved = resolveSearch(searchTerm);
+    if (resolved) {
+      runSearch(resolved.term, resolved.exact);
+    }
+  };
+
+  const runSearch = async (term: string, exact: boolean) => {
     setSearching(true);
     setSearched(true);
 
     try {
-      const { data: packages, error } = await supabase
+      const query = supabase
         .from('packages')
         .select(`
           *,
@@ -59,31 +97,40 @@ export function PackageSearch({ onSelectPackage }: PackageSearchProps) {
             completed_at
           )
         `)
-        .ilike('sscc_number', `%${searchTerm.trim()}%`)
         .order('created_at', { ascending: false })
         .limit(20);
 
+      const { data: packages, error } = exact
+        ? await query.eq('sscc_number', term)
+        : await query.ilike('sscc_number', `%${term}%`);
+
       if (error) throw error;
 
       if (packages) {
-        const packagesWithDeviations = await Promise.all(
-          packages.map(async (pkg) => {
-            if (pkg.has_deviation) {
-              const { data: deviation } = await supabase
-                .from('package_deviations')
-                .select('id, deviation_type, description, status, priority, created_at')
-                .eq('package_id', pkg.id)
-                .order('created_at', { ascending: false })
-                .limit(1)
-                .single();
-
-              return { ...pkg, deviation };
+        const deviationPackageIds = packages.filter(pkg => pkg.has_deviation).map(pkg => pkg.id);
+        const latestDeviations = new Map<string, Package['deviation']>();
+
+        if (deviationPackageIds.length > 0) {
+          const { data: deviations, error: deviationError } = await supabase
+            .from('package_deviations')
+            .select('id, package_id, deviation_type, description, status, priority, created_at')
+            .in('package_id', deviationPackageIds)
+            .order('created_at', { ascending: false });
+
+          if (deviationError) throw deviationError;
+
+          // Newest first, so the first deviation seen per package is its latest
+          for (const { package_id, ...deviation } of deviations || []) {
+            if (!latestDeviations.has(package_id)) {
+              latestDeviations.set(package_id, deviation);
             }
-            return pkg;
-          })
-        );
+          }
+        }
 
-        setResults(packagesWithDeviations);
+        setResults(packages.map(pkg => {
+          const deviation = latestDeviations.get(pkg.id);
+          return deviation ? { ...pkg, deviation } : pkg;
+        }));
       }
     } catch (error) {
       console.error('Search error:', error);
@@ -93,9 +140,16 @@ export function PackageSearch({ onSelectPackage }: PackageSearchProps) {
     }
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter') {
       handleSearch();
+      return;
+    }
+
+    // Keyboard-wedge scanners send FNC1 as Ctrl+] (the GS control character)
+    if (e.ctrlKey && e.key === ']') {
+      e.preventDefault();
+      setSearchTerm(current => current + GS1_GROUP_SEPARATOR);
     }
   };
 
@@ -109,12 +163,26 @@ export function PackageSearch({ onSelectPackage }: PackageSearchProps) {
             <input
               type="text"
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              onKeyPress={handleKeyPress}
-              placeholder="Search by SSCC number (e.g., HU6827)"
+              onChange={(e) => {
+                setSearchTerm(e.target.value);
+                setScanError('');
+              }}
+              onKeyDown={handleKeyDown}
+              placeholder="Scan a label or search by SSCC number (e.g., HU6827)"
               className="w-full pl-10 pr-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+              autoComplete="off"
+              spellCheck={false}
             />
           </div>
+          {isCameraScanSupported() && (
+            <button
+              onClick={() => setShowCamera(true)}
+              className="px-4 py-3 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors"
+              title="Scan with camera"
+            >
+              <Camera className="w-5 h-5" />
+            </button>
+          )}
           <button
             onClick={handleSearch}
             disabled={!searchTerm.trim() || searching}
@@ -133,8 +201,27 @@ export function PackageSearch({ onSelectPackage }: PackageSearchProps) {
             )}
           </button>
         </div>
+        {scanError && (
+          <p className="mt-2 text-sm text-red-600 flex items-center gap-1">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            {scanError}
+          </p>
+        )}
       </div>
 
+      {showCamera && (
+        <CameraScanner
+          onDetected={(raw) => {
+            const resolved = resolveSearch(raw);
+            if (!resolved) return false;
+            setShowCamera(false);
+            runSearch(resolved.term, resolved.exact);
+            return true;
+          }}
+          onClose={() => setShowCamera(false)}
+        />
+      )}
+
       {searched && (
         <div className="bg-white rounded-lg border border-slate-200">
           {searching ? (
@@ -193,12 +280,14 @@ export function PackageSearch({ onSelectPackage }: PackageSearchProps) {
                           className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
                             pkg.status === 'stored'
                               ? 'bg-green-100 text-green-800'
-                              : pkg.status === 'pending'
-                              ? 'bg-yellow-100 text-yellow-800'
-                              : 'bg-slate-100 text-slate-800'
+                              : pkg.status === 'quarantine' || pkg.status === 'deviation_hold'
+                              ? 'bg-orange-100 text-orange-800'
+                              : pkg.status === 'delivered'
+                              ? 'bg-slate-100 text-slate-800'
+                              : 'bg-yellow-100 text-yellow-800'
                           }`}
                         >
-                          {pkg.status}
+                          {isPackageStatus(pkg.status) ? PACKAGE_STATUS_LABELS[pkg.status] : pkg.status}
                         </span>
                         <span className="text-xs text-slate-400">
                           {new Date(pkg.created_at).toLocaleDateString()}
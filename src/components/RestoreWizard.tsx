@@ -0,0 +1,419 @@
+import { useState, useEffect } from 'react';
+import { Upload, RotateCcw, Download, Search, ChevronDown, ChevronRight, AlertCircle, CheckCircle2 } from 'lucide-react';
+import {
+  backupService,
+  BackupContents,
+  BackupSnapshot,
+  RestorableTable,
+  TableRestorePlan,
+  BACKUP_FORMAT_VERSION,
+  BACKUP_ONLY_TABLES,
+  RESTORABLE_TABLES
+} from '../services/backupService';
+import { addWarehouseDays, formatWarehouseDate, fromWarehouseInputValue } from '../utils/dateTime';
+
+const DATE_TIME_FORMAT: Intl.DateTimeFormatOptions = {
+  day: '2-digit',
+  month: 'short',
+  year: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+};
+
+const MAX_LISTED_ROWS = 50;
+
+interface RestoreWizardProps {
+  /** A backup loaded elsewhere, e.g. from stored backups, to restore instead of a file. */
+  initialBackup?: BackupContents | null;
+  disabled?: boolean;
+  onBusyChange?: (busy: boolean) => void;
+}
+
+/**
+ * Restores chosen tables (optionally only rows created within a date range)
+ * from a backup file after showing what would be added, changed and removed.
+ * Every restore is preceded by a server-side snapshot that can be undone.
+ */
+export function RestoreWizard({ initialBackup = null, disabled = false, onBusyChange }: RestoreWizardProps) {
+  const [backup, setBackup] = useState<BackupContents | null>(null);
+  const [tables, setTables] = useState<RestorableTable[]>(RESTORABLE_TABLES.map(t => t.table));
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [plans, setPlans] = useState<TableRestorePlan[] | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [snapshots, setSnapshots] = useState<BackupSnapshot[]>([]);
+  const [working, setWorking] = useState(false);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+
+  useEffect(() => {
+    loadSnapshots();
+  }, []);
+
+  useEffect(() => {
+    if (initialBackup) {
+      selectBackup(initialBackup);
+    }
+  }, [initialBackup]);
+
+  const loadSnapshots = async () => {
+    setSnapshots(await backupService.getSnapshots());
+  };
+
+  const setBusy = (busy: boolean) => {
+    setWorking(busy);
+    onBusyChange?.(busy);
+  };
+
+  const selectBackup = (contents: BackupContents) => {
+    setResult(null);
+    setPlans(null);
+    setBackup(contents);
+    setTables(RESTORABLE_TABLES.map(t => t.table).filter(table => contents.tables[table]));
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setResult(null);
+    setPlans(null);
+
+    try {
+      selectBackup(await backupService.readBackupFile(file));
+    } catch (err) {
+      setBackup(null);
+      setResult({ success: false, message: (err as Error).message });
+    }
+  };
+
+  const toggleTable = (table: RestorableTable) => {
+    setPlans(null);
+    setTables(prev => prev.includes(table) ? prev.filter(t => t !== table) : [...prev, table]);
+  };
+
+  const analyze = async () => {
+    if (!backup) return;
+
+    setBusy(true);
+    setResult(null);
+
+    try {
+      // Date inputs are warehouse calendar days; the range includes the whole "to" day
+      const from = fromDate ? new Date(fromWarehouseInputValue(`${fromDate}T00:00`)) : null;
+      const to = toDate
+        ? new Date(addWarehouseDays(new Date(fromWarehouseInputValue(`${toDate}T00:00`)), 1).getTime() - 1)
+        : null;
+
+      if (from && to && from > to) {
+        throw new Error('The start date is after the end date');
+      }
+
+      setPlans(await backupService.planRestore(backup, { tables, from, to }));
+    } catch (err) {
+      setPlans(null);
+      setResult({ success: false, message: `Analysis failed: ${(err as Error).message}` });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const restore = async () => {
+    if (!backup || !plans) return;
+
+    const restorable = plans.filter(plan => plan.errors.length === 0);
+    const summary = restorable
+      .map(plan => `- ${labelOf(plan.table)}: +${plan.added.length} ~${plan.changed.length} -${plan.removed.length}`)
+      .join('\n');
+
+    if (!confirm(
+      `Restore the following changes from ${backup.sourceName}?\n\n${summary}\n\n` +
+      'A snapshot of the current data is taken first so this restore can be undone.'
+    )) {
+      return;
+    }
+
+    setBusy(true);
+    setResult(null);
+
+    const response = await backupService.applyRestore(restorable, backup.sourceName);
+
+    if (response.success) {
+      setResult({ success: true, message: 'Restore completed. A safety snapshot was saved and is listed below.' });
+      setPlans(null);
+      await loadSnapshots();
+    } else {
+      setResult({ success: false, message: `Restore failed, nothing was changed: ${response.error}` });
+    }
+
+    setBusy(false);
+  };
+
+  const undo = async (snapshot: BackupSnapshot) => {
+    if (!confirm(
+      `Undo the restore of ${snapshot.tables.map(labelOf).join(', ')} from ` +
+      `${formatWarehouseDate(snapshot.created_at, DATE_TIME_FORMAT)}?\n\n` +
+      'Rows it added are removed and rows it changed or removed are put back, including data removed with them. ' +
+      'Rows created since are kept; the undo is refused if any restored row was edited since.'
+    )) {
+      return;
+    }
+
+    setBusy(true);
+    setResult(null);
+
+    const response = await backupService.undoRestore(snapshot.id);
+
+    setResult(response.success
+      ? { success: true, message: 'Restore undone' }
+      : { success: false, message: `Undo failed: ${response.error}` });
+    setPlans(null);
+    await loadSnapshots();
+    setBusy(false);
+  };
+
+  const download = async (snapshot: BackupSnapshot) => {
+    const response = await backupService.downloadSnapshot(snapshot);
+    if (!response.success) {
+      setResult({ success: false, message: `Download failed: ${response.error}` });
+    }
+  };
+
+  const labelOf = (table: RestorableTable) =>
+    RESTORABLE_TABLES.find(t => t.table === table)?.label || table;
+
+  const hasChanges = plans?.some(plan =>
+    plan.errors.length === 0 && plan.added.length + plan.changed.length + plan.removed.length > 0
+  );
+  const isDisabled = disabled || working;
+  const backupOnlyTables = BACKUP_ONLY_TABLES.filter(table => backup?.tables[table]);
+
+  return (
+    <div className="space-y-4">
+      {result && (
+        <div className={`p-3 rounded-lg border flex items-start gap-2 text-sm ${
+          result.success ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-800'
+        }`}>
+          {result.success ? <CheckCircle2 className="w-4 h-4 mt-0.5 flex-shrink-0" /> : <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />}
+          {result.message}
+        </div>
+      )}
+
+      <div>
+        <input
+          type="file"
+          accept=".zip,.json"
+          onChange={handleFile}
+          disabled={isDisabled}
+          className="hidden"
+          id="restore-file-input"
+        />
+        <label
+          htmlFor="restore-file-input"
+          className={`w-full px-4 py-3 border-2 border-dashed rounded-lg flex items-center justify-center gap-2 font-medium transition-colors cursor-pointer ${
+            isDisabled
+              ? 'border-slate-300 bg-slate-100 text-slate-400 cursor-not-allowed'
+              : 'border-amber-300 bg-amber-50 text-amber-700 hover:bg-amber-100 hover:border-amber-400'
+          }`}
+        >
+          <Upload className="w-4 h-4" />
+          {backup ? `${backup.sourceName} — choose another file` : 'Select Backup File'}
+        </label>
+        <p className="text-xs text-slate-500 mt-2">
+          Supported formats: backup archives (.zip) and older JSON backups created by this system
+          {backup?.createdAt && ` · backup taken ${formatWarehouseDate(backup.createdAt, DATE_TIME_FORMAT)}`}
+        </p>
+      </div>
+
+      {backup && (
+        <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg text-xs text-slate-600 space-y-1">
+          <p>
+            Format version {backup.formatVersion}
+            {backup.formatVersion < BACKUP_FORMAT_VERSION
+              ? `, upgraded to version ${BACKUP_FORMAT_VERSION}`
+              : ', row counts and checksums verified'}
+          </p>
+          {backup.notes.map(note => <p key={note}>{note}</p>)}
+        </div>
+      )}
+
+      {backup && (
+        <div className="space-y-3">
+          <div>
+            <p className="text-sm font-medium text-slate-700 mb-2">Tables to restore</p>
+            <div className="grid grid-cols-2 gap-2">
+              {RESTORABLE_TABLES.map(({ table, label }) => (
+                <label key={table} className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={tables.includes(table)}
+                    onChange={() => toggleTable(table)}
+                    disabled={isDisabled || !backup.tables[table]}
+                  />
+                  {label}
+                  <span className="text-xs text-slate-500">
+                    ({backup.tables[table]?.length ?? 'not in backup'})
+                  </span>
+                </label>
+              ))}
+            </div>
+            {backupOnlyTables.length > 0 && (
+              <p className="text-xs text-slate-500 mt-2">
+                Also in the backup but not restorable here: {backupOnlyTables.join(', ')}. These keep their
+                current contents; the audit logs are append-only and can't be rewritten.
+              </p>
+            )}
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-slate-700 mb-2">Only rows created between (optional)</p>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={fromDate}
+                onChange={(e) => { setFromDate(e.target.value); setPlans(null); }}
+                disabled={isDisabled}
+                className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm"
+              />
+              <span className="text-sm text-slate-500">and</span>
+              <input
+                type="date"
+                value={toDate}
+                onChange={(e) => { setToDate(e.target.value); setPlans(null); }}
+                disabled={isDisabled}
+                className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm"
+              />
+            </div>
+            <p className="text-xs text-slate-500 mt-1">
+              Rows outside the range are left untouched, both in the backup and in the current data.
+            </p>
+          </div>
+
+          <button
+            onClick={analyze}
+            disabled={isDisabled || tables.length === 0}
+            className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-800 disabled:bg-slate-300 disabled:cursor-not-allowed flex items-center justify-center gap-2 text-sm font-medium transition-colors"
+          >
+            <Search className="w-4 h-4" />
+            {working && !plans ? 'Analyzing...' : 'Validate & Compare'}
+          </button>
+        </div>
+      )}
+
+      {plans && (
+        <div className="space-y-2">
+          {plans.map(plan => {
+            const isOpen = expanded === plan.table;
+            const blocked = plan.errors.length > 0;
+
+            return (
+              <div key={plan.table} className={`border rounded-lg ${blocked ? 'border-red-200' : 'border-slate-200'}`}>
+                <button
+                  onClick={() => setExpanded(isOpen ? null : plan.table)}
+                  className="w-full px-3 py-2 flex items-center justify-between text-sm"
+                >
+                  <span className="flex items-center gap-2 font-medium text-slate-900">
+                    {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    {labelOf(plan.table)}
+                    {blocked && <span className="text-xs text-red-700">(will be skipped)</span>}
+                  </span>
+                  <span className="flex gap-3 text-xs">
+                    <span className="text-green-700">+{plan.added.length} added</span>
+                    <span className="text-amber-700">~{plan.changed.length} changed</span>
+                    <span className="text-red-700">-{plan.removed.length} removed</span>
+                    <span className="text-slate-500">{plan.unchanged} unchanged</span>
+                  </span>
+                </button>
+
+                {(plan.errors.length > 0 || plan.warnings.length > 0) && (
+                  <div className="px-3 pb-2 space-y-1">
+                    {plan.errors.map(message => (
+                      <p key={message} className="text-xs text-red-700">✗ {message}</p>
+                    ))}
+                    {plan.warnings.map(message => (
+                      <p key={message} className="text-xs text-amber-700">! {message}</p>
+                    ))}
+                  </div>
+                )}
+
+                {isOpen && (
+                  <div className="px-3 pb-3 text-xs space-y-1 max-h-64 overflow-y-auto border-t border-slate-100 pt-2">
+                    {plan.added.slice(0, MAX_LISTED_ROWS).map(row => (
+                      <p key={`a-${row.id}`} className="text-green-700">+ {backupService.rowLabel(plan.table, row)}</p>
+                    ))}
+                    {plan.changed.slice(0, MAX_LISTED_ROWS).map(change => (
+                      <p key={`c-${change.after.id}`} className="text-amber-700">
+                        ~ {backupService.rowLabel(plan.table, change.after)}
+                        <span className="text-slate-500"> ({change.columns.join(', ')})</span>
+                      </p>
+                    ))}
+                    {plan.removed.slice(0, MAX_LISTED_ROWS).map(row => (
+                      <p key={`r-${row.id}`} className="text-red-700">- {backupService.rowLabel(plan.table, row)}</p>
+                    ))}
+                    {[plan.added, plan.changed, plan.removed].some(list => list.length > MAX_LISTED_ROWS) && (
+                      <p className="text-slate-500">Only the first {MAX_LISTED_ROWS} rows of each kind are listed.</p>
+                    )}
+                    {plan.added.length + plan.changed.length + plan.removed.length === 0 && (
+                      <p className="text-slate-500">No differences</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <button
+            onClick={restore}
+            disabled={isDisabled || !hasChanges}
+            className="w-full px-4 py-3 bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:bg-slate-300 disabled:cursor-not-allowed flex items-center justify-center gap-2 font-medium transition-colors"
+          >
+            <Upload className="w-4 h-4" />
+            {working ? 'Restoring...' : hasChanges ? 'Restore Changes' : 'Nothing to Restore'}
+          </button>
+        </div>
+      )}
+
+      {snapshots.length > 0 && (
+        <div className="pt-4 border-t border-slate-200">
+          <h4 className="text-sm font-semibold text-slate-900 mb-2">Safety Snapshots</h4>
+          <div className="space-y-2">
+            {snapshots.map(snapshot => (
+              <div key={snapshot.id} className="flex items-center justify-between gap-2 text-xs">
+                <div className="min-w-0">
+                  <p className="text-slate-900 font-medium truncate">
+                    {snapshot.reason}{snapshot.source_name && ` · ${snapshot.source_name}`}
+                  </p>
+                  <p className="text-slate-500">
+                    {formatWarehouseDate(snapshot.created_at, DATE_TIME_FORMAT)}
+                    {' · '}
+                    {snapshot.tables.map(table => `${labelOf(table)} ${snapshot.row_counts[table] ?? 0}`).join(', ')}
+                    {snapshot.undone_at && ` · undone ${formatWarehouseDate(snapshot.undone_at, DATE_TIME_FORMAT)}`}
+                  </p>
+                </div>
+                <div className="flex gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => download(snapshot)}
+                    className="p-1.5 text-slate-600 hover:bg-slate-100 rounded"
+                    title="Download snapshot"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                  {snapshot.undoable && !snapshot.undone_at && (
+                    <button
+                      onClick={() => undo(snapshot)}
+                      disabled={isDisabled}
+                      className="p-1.5 text-amber-700 hover:bg-amber-50 rounded disabled:text-slate-300"
+                      title="Undo this restore"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
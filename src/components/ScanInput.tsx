@@ -0,0 +1,288 @@
+import { useState, useEffect, useRef } from 'react';
+import { ScanLine, Camera, X, CheckCircle2, AlertTriangle, Loader2 } from 'lucide-react';
+import { parseScannedCode, Gs1Fields, GS1_GROUP_SEPARATOR } from '../utils/gs1';
+import { audioService } from '../services/audioNotifications';
+import { getBarcodeDetector, isCameraScanSupported, BarcodeDetectorInstance } from '../utils/barcodeDetector';
+
+export type ScannedCode = {
+  /** The package SSCC: 18 digits for GS1 labels, or a legacy code as entered. */
+  code: string;
+  gs1: boolean;
+  fields: Gs1Fields;
+};
+
+type ScanInputProps = {
+  /** Return an error message to reject a well-formed code, e.g. one that is already added. */
+  onScan: (scan: ScannedCode) => string | void;
+  placeholder?: string;
+  disabled?: boolean;
+  compact?: boolean;
+  autoFocus?: boolean;
+  allowLegacyCodes?: boolean;
+  submitLabel?: string;
+};
+
+const CAMERA_FORMATS = ['code_128', 'data_matrix', 'qr_code'];
+const CAMERA_SCAN_INTERVAL_MS = 250;
+// A label held in view is reported once; it has to leave the frame this long to count again
+const CAMERA_REPEAT_COOLDOWN_MS = 2000;
+
+const describeFields = (fields: Gs1Fields) =>
+  [
+    fields.count !== undefined && `${fields.count} items`,
+    fields.contentGtin && `GTIN ${fields.contentGtin}`,
+    fields.batch && `batch ${fields.batch}`,
+    fields.bestBefore && `best before ${fields.bestBefore}`,
+    fields.expiry && `expires ${fields.expiry}`
+  ].filter(Boolean).join(' · ');
+
+export function ScanInput({
+  onScan,
+  placeholder = 'Scan or type SSCC',
+  disabled = false,
+  compact = false,
+  autoFocus = false,
+  allowLegacyCodes = true,
+  submitLabel = 'Add'
+}: ScanInputProps) {
+  const [value, setValue] = useState('');
+  const [error, setError] = useState('');
+  const [lastScan, setLastScan] = useState<ScannedCode | null>(null);
+  const [showCamera, setShowCamera] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const cameraSupported = isCameraScanSupported();
+
+  const submit = (raw: string) => {
+    const parsed = parseScannedCode(raw, { allowLegacyCodes });
+    const rejection = parsed.valid
+      ? onScan({ code: parsed.code, gs1: parsed.gs1, fields: parsed.fields })
+      : parsed.error;
+
+    if (rejection) {
+      setError(rejection);
+      audioService.playScanFeedback(false);
+      inputRef.current?.select();
+      return false;
+    }
+
+    if (parsed.valid) {
+      setLastScan({ code: parsed.code, gs1: parsed.gs1, fields: parsed.fields });
+    }
+    setError('');
+    setValue('');
+    audioService.playScanFeedback(true);
+    inputRef.current?.focus();
+    return true;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (value.trim()) submit(value);
+      return;
+    }
+
+    // Keyboard-wedge scanners send FNC1 as Ctrl+] (the GS control character)
+    if (e.ctrlKey && e.key === ']') {
+      e.preventDefault();
+      setValue(current => current + GS1_GROUP_SEPARATOR);
+    }
+  };
+
+  const lastScanDetails = lastScan ? describeFields(lastScan.fields) : '';
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <ScanLine className={`absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 ${compact ? 'w-3.5 h-3.5' : 'w-4 h-4'}`} />
+          <input
+            ref={inputRef}
+            type="text"
+            value={value}
+            onChange={(e) => {
+              setValue(e.target.value);
+              if (error) setError('');
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder={placeholder}
+            disabled={disabled}
+            autoFocus={autoFocus}
+            autoComplete="off"
+            spellCheck={false}
+            className={`w-full ${compact ? 'pl-8 pr-2 py-1.5 text-sm' : 'pl-9 pr-3 py-2'} border rounded-lg focus:ring-2 disabled:bg-slate-100 ${
+              error
+                ? 'border-red-400 focus:ring-red-500 focus:border-red-500'
+                : 'border-slate-300 focus:ring-blue-500 focus:border-blue-500'
+            }`}
+          />
+        </div>
+        {cameraSupported && (
+          <button
+            type="button"
+            onClick={() => setShowCamera(true)}
+            disabled={disabled}
+            className={`${compact ? 'px-2 py-1.5' : 'px-3 py-2'} border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 disabled:opacity-50`}
+            title="Scan with camera"
+          >
+            <Camera className={compact ? 'w-3.5 h-3.5' : 'w-4 h-4'} />
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => submit(value)}
+          disabled={disabled || !value.trim()}
+          className={`${compact ? 'px-3 py-1.5 text-sm' : 'px-4 py-2'} bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-slate-300 disabled:cursor-not-allowed font-medium transition-colors`}
+        >
+          {submitLabel}
+        </button>
+      </div>
+
+      {error ? (
+        <p className="mt-1 text-xs text-red-600 flex items-center gap-1">
+          <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+          {error}
+        </p>
+      ) : lastScan && (
+        <p className="mt-1 text-xs text-green-700 flex items-center gap-1">
+          <CheckCircle2 className="w-3 h-3 flex-shrink-0" />
+          {lastScan.code}{lastScanDetails ? ` · ${lastScanDetails}` : ''}
+        </p>
+      )}
+
+      {showCamera && (
+        <CameraScanner
+          onDetected={submit}
+          onClose={() => {
+            setShowCamera(false);
+            inputRef.current?.focus();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+type CameraScannerProps = {
+  /** Returns whether the code was accepted. */
+  onDetected: (raw: string) => boolean;
+  onClose: () => void;
+};
+
+export function CameraScanner({ onDetected, onClose }: CameraScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onDetectedRef = useRef(onDetected);
+  const [status, setStatus] = useState<'starting' | 'scanning' | 'error'>('starting');
+  const [message, setMessage] = useState('');
+
+  onDetectedRef.current = onDetected;
+
+  useEffect(() => {
+    const BarcodeDetector = getBarcodeDetector();
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let stopped = false;
+    let lastRaw = '';
+    let lastRawAt = 0;
+
+    const scanFrame = async (detector: BarcodeDetectorInstance) => {
+      if (stopped || !videoRef.current) return;
+
+      try {
+        const [barcode] = await detector.detect(videoRef.current);
+        if (barcode && !stopped) {
+          const now = Date.now();
+          const repeated = barcode.rawValue === lastRaw && now - lastRawAt < CAMERA_REPEAT_COOLDOWN_MS;
+          lastRaw = barcode.rawValue;
+          lastRawAt = now;
+
+          if (!repeated) {
+            const accepted = onDetectedRef.current(barcode.rawValue);
+            setMessage(accepted ? 'Scanned. Point the camera at the next label.' : 'That label was rejected.');
+          }
+        }
+      } catch (error) {
+        console.error('Error detecting barcode:', error);
+      }
+
+      if (!stopped) {
+        timer = setTimeout(() => scanFrame(detector), CAMERA_SCAN_INTERVAL_MS);
+      }
+    };
+
+    const start = async () => {
+      if (!BarcodeDetector || !isCameraScanSupported()) {
+        setStatus('error');
+        setMessage('Camera scanning is not supported in this browser');
+        return;
+      }
+
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (stopped) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+
+        setStatus('scanning');
+        scanFrame(new BarcodeDetector({ formats: CAMERA_FORMATS }));
+      } catch (error) {
+        console.error('Error starting camera:', error);
+        setStatus('error');
+        setMessage((error as Error).message || 'Could not open the camera');
+      }
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center p-4 z-[60]">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
+          <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+            <Camera className="w-5 h-5 text-blue-600" />
+            Camera Scan
+          </h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="relative bg-black aspect-[4/3]">
+          <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+          {status === 'starting' && (
+            <div className="absolute inset-0 flex items-center justify-center text-white text-sm">
+              <Loader2 className="w-5 h-5 animate-spin mr-2" />
+              Starting camera...
+            </div>
+          )}
+          {status === 'scanning' && (
+            <div className="absolute inset-x-8 top-1/2 h-0.5 bg-red-500 opacity-75" />
+          )}
+        </div>
+        <div className="px-4 py-3 text-sm">
+          {status === 'error' ? (
+            <p className="text-red-600">{message}</p>
+          ) : (
+            <p className="text-slate-600">{message || 'Hold the label barcode inside the frame.'}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,42 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { testSheetConnection } from '../services/googleSheets';
-import { Check, X, Loader2, Upload } from 'lucide-react';
+import {
+  testSheetConnection,
+  fetchSheetPreview,
+  applyColumnMapping,
+  loadColumnMapping,
+  saveColumnMapping,
+  ColumnMappingProfile,
+  MappedShipmentField,
+  SheetTable,
+  MAPPED_FIELDS,
+  DEFAULT_COLUMN_MAPPING
+} from '../services/googleSheets';
+import {
+  DateInputFormat,
+  DEFAULT_DATE_SETTINGS,
+  TIMEZONE_SETTING_KEY,
+  DATE_FORMAT_SETTING_KEY,
+  isValidTimeZone,
+  loadDateSettings
+} from '../utils/dateTime';
+import { Check, X, Loader2, Upload, Eye } from 'lucide-react';
+
+const PREVIEW_ROW_COUNT = 5;
 
 export function SettingsTab() {
   const [spreadsheetId, setSpreadsheetId] = useState('');
   const [worksheetName, setWorksheetName] = useState('Live');
+  const [sheetPushUrl, setSheetPushUrl] = useState('');
+  const [mappingProfile, setMappingProfile] = useState<ColumnMappingProfile>(DEFAULT_COLUMN_MAPPING);
+  const [previewTable, setPreviewTable] = useState<SheetTable | null>(null);
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const [savingMapping, setSavingMapping] = useState(false);
+  const [mappingResult, setMappingResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [timeZone, setTimeZone] = useState(DEFAULT_DATE_SETTINGS.timeZone);
+  const [dateInputFormat, setDateInputFormat] = useState<DateInputFormat>(DEFAULT_DATE_SETTINGS.inputFormat);
+  const [savingDateSettings, setSavingDateSettings] = useState(false);
+  const [dateSettingsResult, setDateSettingsResult] = useState<{ success: boolean; message: string } | null>(null);
   const [notificationSoundUrl, setNotificationSoundUrl] = useState('');
   const [uploadedFileName, setUploadedFileName] = useState('');
   const [rotationSeconds, setRotationSeconds] = useState('3');
@@ -23,12 +54,19 @@ export function SettingsTab() {
     const { data } = await supabase
       .from('app_settings')
       .select('key, value')
-      .in('key', ['spreadsheet_id', 'worksheet_name', 'notification_sound_url', 'led_rotation_seconds']);
+      .in('key', [
+        'spreadsheet_id',
+        'worksheet_name',
+        'notification_sound_url',
+        'led_rotation_seconds',
+        'sheet_push_url'
+      ]);
 
     if (data) {
       const settings = Object.fromEntries(data.map(s => [s.key, s.value]));
       setSpreadsheetId(settings.spreadsheet_id || '');
       setWorksheetName(settings.worksheet_name || 'Live');
+      setSheetPushUrl(settings.sheet_push_url || '');
       setNotificationSoundUrl(settings.notification_sound_url || '');
       setRotationSeconds(settings.led_rotation_seconds || '3');
 
@@ -36,13 +74,19 @@ export function SettingsTab() {
         setUploadedFileName('Uploaded audio file');
       }
     }
+
+    setMappingProfile(await loadColumnMapping());
+
+    const dateSettings = await loadDateSettings();
+    setTimeZone(dateSettings.timeZone);
+    setDateInputFormat(dateSettings.inputFormat);
   };
 
   const handleTest = async () => {
     setTesting(true);
     setTestResult(null);
 
-    const result = await testSheetConnection(spreadsheetId, worksheetName);
+    const result = await testSheetConnection(spreadsheetId, worksheetName, mappingProfile);
 
     if (result.success) {
       setTestResult({
@@ -64,13 +108,78 @@ export function SettingsTab() {
 
     await supabase.from('app_settings').upsert([
       { key: 'spreadsheet_id', value: spreadsheetId },
-      { key: 'worksheet_name', value: worksheetName }
+      { key: 'worksheet_name', value: worksheetName },
+      { key: 'sheet_push_url', value: sheetPushUrl }
     ], { onConflict: 'key' });
 
     setSaving(false);
     setTestResult({ success: true, message: 'Settings saved successfully!' });
   };
 
+  const handleSaveDateSettings = async () => {
+    if (!isValidTimeZone(timeZone.trim())) {
+      setDateSettingsResult({ success: false, message: `Unknown timezone "${timeZone}". Use an IANA name such as Europe/Oslo.` });
+      return;
+    }
+
+    setSavingDateSettings(true);
+
+    const { error } = await supabase.from('app_settings').upsert([
+      { key: TIMEZONE_SETTING_KEY, value: timeZone.trim() },
+      { key: DATE_FORMAT_SETTING_KEY, value: dateInputFormat }
+    ], { onConflict: 'key' });
+
+    if (error) {
+      setDateSettingsResult({ success: false, message: `Failed to save: ${error.message}` });
+    } else {
+      await loadDateSettings();
+      setDateSettingsResult({ success: true, message: 'Date settings saved. Imports and filters now use them.' });
+    }
+
+    setSavingDateSettings(false);
+  };
+
+  const handleLoadPreview = async () => {
+    setLoadingPreview(true);
+    setMappingResult(null);
+
+    const result = await fetchSheetPreview(spreadsheetId, worksheetName);
+
+    if (result.success && result.table) {
+      setPreviewTable(result.table);
+    } else {
+      setPreviewTable(null);
+      setMappingResult({ success: false, message: result.error || 'Failed to load sheet preview' });
+    }
+
+    setLoadingPreview(false);
+  };
+
+  const updateMappingField = (field: MappedShipmentField, header: string) => {
+    setMappingProfile({
+      ...mappingProfile,
+      fields: { ...mappingProfile.fields, [field]: header }
+    });
+  };
+
+  const handleSaveMapping = async () => {
+    setSavingMapping(true);
+
+    const fields = Object.fromEntries(
+      Object.entries(mappingProfile.fields)
+        .map(([field, header]) => [field, (header || '').trim()])
+        .filter(([, header]) => header)
+    );
+    const result = await saveColumnMapping({ ...mappingProfile, fields });
+
+    setMappingResult(result.success
+      ? { success: true, message: 'Column mapping saved. The next sync will use it.' }
+      : { success: false, message: `Failed to save: ${result.error}` });
+    setSavingMapping(false);
+  };
+
+  const preview = previewTable ? applyColumnMapping(previewTable, mappingProfile, PREVIEW_ROW_COUNT) : null;
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -179,6 +288,24 @@ export function SettingsTab() {
           />
         </div>
 
+        <div>
+          <label htmlFor="sheetPushUrl" className="block text-sm font-medium text-slate-700 mb-1">
+            Write-back URL
+          </label>
+          <input
+            id="sheetPushUrl"
+            type="text"
+            value={sheetPushUrl}
+            onChange={(e) => setSheetPushUrl(e.target.value)}
+            placeholder="https://script.google.com/macros/s/.../exec"
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <p className="mt-1 text-xs text-slate-500">
+            Apps Script web app that writes app edits back to the sheet. Status, operators, storage location
+            and notes are synced both ways when mapped below. Leave empty for one-way sync.
+          </p>
+        </div>
+
         {testResult && (
           <div className={`flex items-start gap-2 p-4 rounded-lg ${
             testResult.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
@@ -214,13 +341,186 @@ export function SettingsTab() {
       </div>
 
       <div className="mt-8 p-4 bg-slate-50 rounded-lg">
-        <h3 className="font-medium text-slate-900 mb-2">Required Columns</h3>
-        <ul className="text-sm text-slate-600 space-y-1">
-          <li>• sscc_numbers</li>
-          <li>• title</li>
-          <li>• start</li>
-          <li>• Car reg no</li>
-        </ul>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-medium text-slate-900">Column Mapping</h3>
+          <button
+            onClick={handleLoadPreview}
+            disabled={loadingPreview || !spreadsheetId}
+            className="px-3 py-1.5 text-sm bg-slate-600 text-white rounded-lg hover:bg-slate-700 disabled:bg-slate-300 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            {loadingPreview ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+            Load Preview
+          </button>
+        </div>
+        <p className="text-xs text-slate-500 mb-4">
+          Sheet header used for each shipment field. Headers are matched case-insensitively, so a column can
+          move without breaking the import. Fields marked * are required.
+        </p>
+
+        <datalist id="sheet-headers">
+          {previewTable?.columns.filter(col => col.label).map(col => (
+            <option key={col.id} value={col.label} />
+          ))}
+        </datalist>
+
+        <div className="grid grid-cols-2 gap-3">
+          {MAPPED_FIELDS.map(({ field, label, required }) => {
+            const isMissing = preview?.missing.includes(field);
+            return (
+              <div key={field}>
+                <label className="block text-xs font-medium text-slate-600 mb-1">
+                  {label}{required && ' *'}
+                </label>
+                <input
+                  type="text"
+                  list="sheet-headers"
+                  value={mappingProfile.fields[field] || ''}
+                  onChange={(e) => updateMappingField(field, e.target.value)}
+                  placeholder="Not mapped"
+                  className={`w-full px-3 py-1.5 text-sm border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                    isMissing ? 'border-red-400 bg-red-50' : 'border-slate-300'
+                  }`}
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        {preview && (
+          <div className="mt-4">
+            {preview.missing.length > 0 && (
+              <p className="text-sm text-red-700 mb-2">
+                Not found in sheet: {preview.missing.map(field => mappingProfile.fields[field] || field).join(', ')}
+              </p>
+            )}
+            <div className="overflow-x-auto border border-slate-200 rounded-lg bg-white">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-100">
+                  <tr>
+                    {MAPPED_FIELDS.filter(({ field }) => preview.resolved.columns[field]).map(({ field, label }) => (
+                      <th key={field} className="px-2 py-1.5 text-left font-medium text-slate-700 whitespace-nowrap">
+                        {label}
+                        <span className="ml-1 text-slate-400">({preview.resolved.columns[field]!.id})</span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {preview.rows.length === 0 ? (
+                    <tr>
+                      <td className="px-2 py-3 text-center text-slate-500" colSpan={MAPPED_FIELDS.length}>
+                        No rows to import
+                      </td>
+                    </tr>
+                  ) : (
+                    preview.rows.map((row, index) => (
+                      <tr key={index}>
+                        {MAPPED_FIELDS.filter(({ field }) => preview.resolved.columns[field]).map(({ field }) => (
+                          <td key={field} className="px-2 py-1.5 text-slate-700 whitespace-nowrap">
+                            {row[field] || <span className="text-slate-300">—</span>}
+                          </td>
+                        ))}
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {mappingResult && (
+          <div className={`mt-4 flex items-start gap-2 p-4 rounded-lg ${
+            mappingResult.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}>
+            {mappingResult.success ? (
+              <Check className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            ) : (
+              <X className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            )}
+            <p className="text-sm">{mappingResult.message}</p>
+          </div>
+        )}
+
+        <div className="mt-4 flex gap-3">
+          <button
+            onClick={handleSaveMapping}
+            disabled={savingMapping}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-slate-300 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            {savingMapping && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save Mapping
+          </button>
+          <button
+            onClick={() => setMappingProfile(DEFAULT_COLUMN_MAPPING)}
+            className="px-4 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 border border-slate-300"
+          >
+            Reset to Default
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-12 pt-8 border-t border-slate-200">
+        <h2 className="text-xl font-semibold text-slate-900 mb-6">Date &amp; Time</h2>
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="timeZone" className="block text-sm font-medium text-slate-700 mb-1">
+              Warehouse Timezone
+            </label>
+            <input
+              id="timeZone"
+              type="text"
+              value={timeZone}
+              onChange={(e) => setTimeZone(e.target.value)}
+              placeholder="Europe/Oslo"
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <p className="mt-1 text-xs text-slate-500">
+              Sheet and import times are read in this timezone, and day/week filters and the LED display use it.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="dateInputFormat" className="block text-sm font-medium text-slate-700 mb-1">
+              Date Input Format
+            </label>
+            <select
+              id="dateInputFormat"
+              value={dateInputFormat}
+              onChange={(e) => setDateInputFormat(e.target.value as DateInputFormat)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+            >
+              <option value="DMY">DD/MM/YYYY</option>
+              <option value="MDY">MM/DD/YYYY</option>
+            </select>
+            <p className="mt-1 text-xs text-slate-500">
+              How numeric dates like 05/03/2026 in the sheet and in bulk imports are read
+            </p>
+          </div>
+
+          {dateSettingsResult && (
+            <div className={`flex items-start gap-2 p-4 rounded-lg ${
+              dateSettingsResult.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+            }`}>
+              {dateSettingsResult.success ? (
+                <Check className="w-5 h-5 flex-shrink-0 mt-0.5" />
+              ) : (
+                <X className="w-5 h-5 flex-shrink-0 mt-0.5" />
+              )}
+              <p className="text-sm">{dateSettingsResult.message}</p>
+            </div>
+          )}
+
+          <button
+            onClick={handleSaveDateSettings}
+            disabled={savingDateSettings}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-slate-300 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            {savingDateSettings && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save Date Settings
+          </button>
+        </div>
       </div>
 
       <div className="mt-12 pt-8 border-t border-slate-200">
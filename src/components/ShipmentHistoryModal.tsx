@@ -0,0 +1,104 @@
+import { useState, useEffect } from 'react';
+import { X, Loader2, History, RotateCcw, User } from 'lucide-react';
+import { Shipment } from '../lib/supabase';
+import { auditService, AuditLogEntry } from '../services/auditService';
+import { ShipmentRevertModal } from './ShipmentRevertModal';
+import { formatWarehouseDate } from '../utils/dateTime';
+
+type ShipmentHistoryModalProps = {
+  shipment: Shipment;
+  onClose: () => void;
+  onReverted: () => void;
+};
+
+export function ShipmentHistoryModal({ shipment, onClose, onReverted }: ShipmentHistoryModalProps) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revertEntryId, setRevertEntryId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadHistory(shipment.id);
+  }, [shipment.id]);
+
+  const loadHistory = async (shipmentId: string) => {
+    setLoading(true);
+    setEntries(await auditService.getShipmentHistory(shipmentId));
+    setLoading(false);
+  };
+
+  const formatDateTime = (value: string) =>
+    formatWarehouseDate(value, { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+            <History className="w-5 h-5 text-blue-600" />
+            History: {shipment.title}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4">
+          {loading ? (
+            <div className="flex items-center justify-center py-8 text-slate-500">
+              <Loader2 className="w-5 h-5 animate-spin mr-2" />
+              Loading history...
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-slate-500 py-8 text-center">No changes have been logged for this shipment.</p>
+          ) : (
+            <ul className="divide-y divide-slate-200">
+              {entries.map((entry, index) => (
+                <li key={entry.id} className="py-3 flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-900">
+                      {entry.action_type.replace(/_/g, ' ').replace(/^./, c => c.toUpperCase())}
+                      {index === 0 && <span className="ml-2 text-xs font-normal text-slate-500">current</span>}
+                    </p>
+                    {entry.changes_summary && (
+                      <p className="text-sm text-slate-600 mt-0.5">{entry.changes_summary}</p>
+                    )}
+                    <p className="text-xs text-slate-500 mt-1 flex items-center gap-1">
+                      {formatDateTime(entry.action_timestamp)}
+                      <User className="w-3 h-3 ml-2" />
+                      {entry.action_by_email || (entry.action_by ? 'Unknown user' : 'System')}
+                    </p>
+                  </div>
+                  {index > 0 && (
+                    <button
+                      onClick={() => setRevertEntryId(entry.id)}
+                      className="flex-shrink-0 flex items-center gap-1 px-3 py-1 text-sm text-amber-700 hover:bg-amber-50 rounded"
+                      title="Revert the shipment to how it was after this change"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Revert to this version
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {revertEntryId && (
+        <ShipmentRevertModal
+          auditEntryId={revertEntryId}
+          onClose={() => setRevertEntryId(null)}
+          onReverted={() => {
+            setRevertEntryId(null);
+            loadHistory(shipment.id);
+            onReverted();
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { X, Loader2, AlertTriangle, RotateCcw } from 'lucide-react';
+import { auditService, ShipmentRevertPlan } from '../services/auditService';
+import { notificationService } from '../services/notificationService';
+import { pushShipmentsToSheet } from '../services/googleSheets';
+import { formatWarehouseDate } from '../utils/dateTime';
+
+type ShipmentRevertModalProps = {
+  /** The shipment audit entry whose resulting version to revert to. */
+  auditEntryId: string;
+  onClose: () => void;
+  onReverted: (shipmentId: string) => void;
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  start: 'Arrival Time',
+  car_reg_no: 'Vehicle Reg',
+  sscc_numbers: 'SSCC Numbers',
+  storage_location: 'Storage Location',
+  notes: 'Notes',
+  status: 'Status',
+  intensity: 'Intensity',
+  dock_door_id: 'Dock Door',
+  slot_start: 'Slot Start',
+  slot_end: 'Slot End',
+  completed_at: 'Completed At',
+  completed_by: 'Completed By'
+};
+
+const TIME_FIELDS = ['start', 'slot_start', 'slot_end', 'completed_at'];
+
+const formatDateTime = (value: string) =>
+  formatWarehouseDate(value, { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const formatField = (field: string, value: unknown) => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (TIME_FIELDS.includes(field) && typeof value === 'string') return formatDateTime(value);
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export function ShipmentRevertModal({ auditEntryId, onClose, onReverted }: ShipmentRevertModalProps) {
+  const [plan, setPlan] = useState<ShipmentRevertPlan | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [reverting, setReverting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadPlan(auditEntryId);
+  }, [auditEntryId]);
+
+  const loadPlan = async (entryId: string) => {
+    setLoading(true);
+    const result = await auditService.previewShipmentRevert(entryId);
+    if (result.success && result.plan) {
+      setPlan(result.plan);
+    } else {
+      setError(result.error || 'Failed to load this version');
+    }
+    setLoading(false);
+  };
+
+  const notifyOperators = async (reverted: ShipmentRevertPlan) => {
+    if (reverted.operators_added.length === 0 && reverted.operators_removed.length === 0) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const { data: operators } = await supabase.from('operators').select('id, name');
+    const findOperator = (value: string) => (operators || []).find(op => op.id === value || op.name === value);
+
+    for (const { value } of reverted.operators_added) {
+      const operator = findOperator(value);
+      if (operator) {
+        await notificationService.notifyOperatorAssigned(operator.id, operator.name, user?.id);
+      }
+    }
+
+    for (const { value } of reverted.operators_removed) {
+      const operator = findOperator(value);
+      if (operator) {
+        await notificationService.notifyOperatorRemoved(operator.id, operator.name, user?.id);
+      }
+    }
+  };
+
+  const handleRevert = async () => {
+    if (!plan) return;
+
+    if (plan.deviations_removed.length > 0 &&
+        !confirm(`${plan.deviations_removed.length} deviation(s) will be deleted together with their packages. Revert anyway?`)) {
+      return;
+    }
+
+    setReverting(true);
+    setError('');
+
+    const result = await auditService.revertShipment(auditEntryId);
+
+    if (result.success && result.plan) {
+      await notifyOperators(result.plan);
+      pushShipmentsToSheet([result.plan.shipment_id]);
+      onReverted(result.plan.shipment_id);
+    } else {
+      setError(result.error || 'Failed to revert shipment');
+      setReverting(false);
+    }
+  };
+
+  const fieldChanges = plan?.field_changes.filter(change => change.field !== 'assigned_operators') || [];
+  const statusChange = plan?.field_changes.find(change => change.field === 'status');
+  const hasChanges = plan
+    ? plan.field_changes.length > 0 || plan.packages_to_add.length > 0 || plan.packages_to_remove.length > 0
+    : false;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+            <RotateCcw className="w-5 h-5 text-amber-600" />
+            Revert Shipment
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 text-red-800 rounded-lg text-sm">{error}</div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8 text-slate-500">
+              <Loader2 className="w-5 h-5 animate-spin mr-2" />
+              Loading version...
+            </div>
+          ) : plan && (
+            <>
+              <p className="text-sm text-slate-600">
+                Revert <span className="font-medium text-slate-900">{plan.shipment_title}</span> to how it was right after
+                the <span className="font-medium">{plan.entry.action_type.replace(/_/g, ' ')}</span> entry
+                of {formatDateTime(plan.entry.action_timestamp)}
+                {plan.entry.changes_summary ? ` (${plan.entry.changes_summary})` : ''}.
+              </p>
+
+              {!plan.complete_history && (
+                <div className="p-3 bg-amber-50 text-amber-800 rounded-lg text-sm">
+                  The history of this shipment doesn't go back to its creation. Fields that were never logged keep their current values.
+                </div>
+              )}
+
+              {!hasChanges ? (
+                <div className="p-3 bg-slate-50 text-slate-600 rounded-lg text-sm">
+                  The shipment already matches this version.
+                </div>
+              ) : (
+                <>
+                  {fieldChanges.length > 0 && (
+                    <table className="w-full text-sm border border-slate-200 rounded">
+                      <thead className="bg-slate-50 text-left text-slate-600">
+                        <tr>
+                          <th className="px-3 py-2 font-medium">Field</th>
+                          <th className="px-3 py-2 font-medium">Current</th>
+                          <th className="px-3 py-2 font-medium">After Revert</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-200">
+                        {fieldChanges.map(change => (
+                          <tr key={change.field}>
+                            <td className="px-3 py-2 text-slate-700">{FIELD_LABELS[change.field] || change.field}</td>
+                            <td className="px-3 py-2 text-red-700 break-all">{formatField(change.field, change.current)}</td>
+                            <td className="px-3 py-2 text-green-700 break-all">{formatField(change.field, change.reverted)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+
+                  {(plan.operators_added.length > 0 || plan.operators_removed.length > 0) && (
+                    <div className="text-sm text-slate-700 space-y-1">
+                      {plan.operators_added.length > 0 && (
+                        <p>Operators assigned: {plan.operators_added.map(op => op.name).join(', ')}</p>
+                      )}
+                      {plan.operators_removed.length > 0 && (
+                        <p>Operators removed: {plan.operators_removed.map(op => op.name).join(', ')}</p>
+                      )}
+                    </div>
+                  )}
+
+                  {(plan.packages_to_add.length > 0 || plan.packages_to_remove.length > 0 ||
+                    plan.deviations_removed.length > 0 || plan.open_deviations > 0 ||
+                    statusChange?.current === 'completed') && (
+                    <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900 space-y-2">
+                      <p className="font-medium flex items-center gap-2">
+                        <AlertTriangle className="w-4 h-4" />
+                        Side effects
+                      </p>
+                      {plan.packages_to_remove.length > 0 && (
+                        <p>
+                          {plan.packages_to_remove.length} package(s) will be deleted, including their status history:{' '}
+                          {plan.packages_to_remove.map(pkg => `${pkg.sscc_number} (${pkg.status})`).join(', ')}
+                        </p>
+                      )}
+                      {plan.deviations_removed.length > 0 && (
+                        <p className="text-red-800">
+                          {plan.deviations_removed.length} deviation(s) on those packages will be deleted:{' '}
+                          {plan.deviations_removed.map(dev => `${dev.sscc_number} ${dev.deviation_type.replace(/_/g, ' ')} (${dev.status})`).join(', ')}
+                        </p>
+                      )}
+                      {plan.packages_to_add.length > 0 && (
+                        <p>
+                          {plan.packages_to_add.length} package(s) will be added as new: {plan.packages_to_add.join(', ')}
+                        </p>
+                      )}
+                      {statusChange?.current === 'completed' && (
+                        <p>The shipment will no longer count as completed in KPIs. Package statuses set at completion are not changed.</p>
+                      )}
+                      {plan.open_deviations > 0 && (
+                        <p>{plan.open_deviations} open deviation(s) on this shipment stay as they are.</p>
+                      )}
+                    </div>
+                  )}
+                </>
+              )}
+
+              <p className="text-xs text-slate-500">The revert is recorded as a new entry in the audit log.</p>
+            </>
+          )}
+        </div>
+
+        <div className="sticky bottom-0 bg-white border-t border-slate-200 px-6 py-4 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-slate-700 hover:bg-slate-100 rounded-lg"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleRevert}
+            disabled={!plan || !hasChanges || reverting}
+            className="flex items-center gap-2 px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-50"
+          >
+            {reverting ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+            Revert to This Version
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
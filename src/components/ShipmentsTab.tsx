@@ -1,40 +1,57 @@
 import { useState, useEffect, useRef } from 'react';
-import { supabase, Shipment } from '../lib/supabase';
-import { Package, CheckCircle2, Clock, Info, Download, Trash2, Plus, Pencil, X, Search, Zap, ArrowDown, Truck, ClipboardList } from 'lucide-react';
+import { supabase, Shipment, DockDoor } from '../lib/supabase';
+import { Package, CheckCircle2, Clock, Info, Download, Trash2, Plus, Pencil, X, Search, Zap, ArrowDown, Truck, ClipboardList, AlertTriangle, History, Timer } from 'lucide-react';
 import { CompletionModal } from './CompletionModal';
+import { SyncConflictsModal } from './SyncConflictsModal';
+import { ShipmentHistoryModal } from './ShipmentHistoryModal';
+import { WorkSessionsModal } from './WorkSessionsModal';
 import { PackageManager } from './PackageManager';
 import { notificationService } from '../services/notificationService';
 import { auditService } from '../services/auditService';
+import { dockService } from '../services/dockService';
 import { IntensityLevel } from '../services/kpiService';
+import { pushShipmentsToSheet, getOpenSyncConflicts } from '../services/googleSheets';
+import {
+  loadDateSettings,
+  startOfWarehouseDay,
+  startOfWarehouseWeek,
+  startOfWarehouseMonth,
+  addWarehouseDays,
+  getWarehouseParts,
+  getWarehouseWeekday,
+  toWarehouseDateKey,
+  formatWarehouseDate,
+  toWarehouseInputValue,
+  fromWarehouseInputValue
+} from '../utils/dateTime';
 
 const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
 const WEEK_NUMBERS = ['Week 1', 'Week 2', 'Week 3', 'Week 4'];
 
-const getCurrentWeekStart = () => {
-  const today = new Date();
-  const dayOfWeek = today.getDay();
-  const diff = dayOfWeek === 0 ? -6 : 1 - dayOfWeek;
-  const monday = new Date(today);
-  monday.setDate(today.getDate() + diff);
-  monday.setHours(0, 0, 0, 0);
-  return monday;
-};
+const getCurrentWeekStart = () => startOfWarehouseWeek(new Date());
 
 const getWeekdayDate = (weekdayIndex: number) => {
-  const weekStart = getCurrentWeekStart();
-  const date = new Date(weekStart);
-  date.setDate(weekStart.getDate() + weekdayIndex);
-  return date;
+  return addWarehouseDays(getCurrentWeekStart(), weekdayIndex);
 };
 
 const formatWeekdayLabel = (weekday: string, index: number) => {
   const date = getWeekdayDate(index);
-  const day = date.getDate();
-  const month = date.toLocaleString('en-GB', { month: 'short' });
+  const day = getWarehouseParts(date).day;
+  const month = formatWarehouseDate(date, { month: 'short' });
   return `${weekday} ${day} ${month}`;
 };
 
-export function ShipmentsTab() {
+/** A jump from the global search: one shipment, or every shipment matching a search. */
+export type ShipmentFocus = {
+  shipmentId?: string;
+  search?: string;
+};
+
+type ShipmentsTabProps = {
+  focus?: ShipmentFocus | null;
+};
+
+export function ShipmentsTab({ focus }: ShipmentsTabProps) {
   const [allShipments, setAllShipments] = useState<Shipment[]>([]);
   const [shipments, setShipments] = useState<Shipment[]>([]);
   const [operators, setOperators] = useState<Array<{ id: string; name: string }>>([]);
@@ -55,15 +72,45 @@ export function ShipmentsTab() {
   const [shipmentType, setShipmentType] = useState<'incoming' | 'outgoing' | 'general'>('general');
   const [intensity, setIntensity] = useState<IntensityLevel>('medium');
   const [editingIntensity, setEditingIntensity] = useState<IntensityLevel>('medium');
+  const [syncConflictCount, setSyncConflictCount] = useState(0);
+  const [showSyncConflicts, setShowSyncConflicts] = useState(false);
+  const [historyShipment, setHistoryShipment] = useState<Shipment | null>(null);
+  const [workSessionShipment, setWorkSessionShipment] = useState<Shipment | null>(null);
+  const [dockDoors, setDockDoors] = useState<DockDoor[]>([]);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const scrollToHighlightRef = useRef(false);
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   useEffect(() => {
     initializeNotifications();
-    loadShipments();
+    loadDateSettings().then(() => loadShipments());
     loadOperators();
+    loadDockDoors();
+    loadSyncConflicts();
     setupRealtimeSubscription();
   }, []);
 
+  useEffect(() => {
+    if (!focus) return;
+
+    setSelectedDate('all');
+    setSelectedStatus('all');
+    setSelectedType('all');
+    setSearchQuery(focus.search || '');
+    setHighlightedId(focus.shipmentId || null);
+    scrollToHighlightRef.current = !!focus.shipmentId;
+  }, [focus]);
+
+  useEffect(() => {
+    if (!highlightedId || !scrollToHighlightRef.current) return;
+
+    const row = document.getElementById(`shipment-row-${highlightedId}`);
+    if (row) {
+      row.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      scrollToHighlightRef.current = false;
+    }
+  }, [highlightedId, shipments]);
+
   const initializeNotifications = async () => {
     await notificationService.initialize();
   };
@@ -90,17 +137,14 @@ export function ShipmentsTab() {
   }, [selectedDate, selectedStatus, selectedType, allShipments]);
 
   const getDateRangeForFilter = (filter: string) => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const today = startOfWarehouseDay(new Date());
 
     if (filter === 'all') {
       return null;
     }
 
     if (filter === 'today') {
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      return { start: today, end: tomorrow };
+      return { start: today, end: addWarehouseDays(today, 1) };
     }
 
     if (filter.startsWith('Monday') || filter.startsWith('Tuesday') || filter.startsWith('Wednesday') || filter.startsWith('Thursday') || filter.startsWith('Friday')) {
@@ -108,28 +152,18 @@ export function ShipmentsTab() {
       const dayIndex = WEEKDAYS.indexOf(weekdayName);
       if (dayIndex !== -1) {
         const targetDate = getWeekdayDate(dayIndex);
-        const nextDay = new Date(targetDate);
-        nextDay.setDate(targetDate.getDate() + 1);
-        return { start: targetDate, end: nextDay };
+        return { start: targetDate, end: addWarehouseDays(targetDate, 1) };
       }
     }
 
     const weekIndex = WEEK_NUMBERS.indexOf(filter);
     if (weekIndex !== -1) {
-      const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
-      monthStart.setHours(0, 0, 0, 0);
-      const weekStart = new Date(monthStart);
-      weekStart.setDate(monthStart.getDate() + weekIndex * 7);
-      const weekEnd = new Date(weekStart);
-      weekEnd.setDate(weekStart.getDate() + 7);
-      return { start: weekStart, end: weekEnd };
+      const weekStart = addWarehouseDays(startOfWarehouseMonth(today), weekIndex * 7);
+      return { start: weekStart, end: addWarehouseDays(weekStart, 7) };
     }
 
     if (filter === 'monthly') {
-      const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
-      monthStart.setHours(0, 0, 0, 0);
-      const monthEnd = new Date(today.getFullYear(), today.getMonth() + 1, 1);
-      return { start: monthStart, end: monthEnd };
+      return { start: startOfWarehouseMonth(today), end: startOfWarehouseMonth(today, 1) };
     }
 
     return null;
@@ -245,13 +279,15 @@ export function ShipmentsTab() {
     }
   };
 
+  const loadDockDoors = async () => {
+    const doors = await dockService.getDoors();
+    setDockDoors(doors);
+  };
+
   const loadOperatorAssignments = () => {
     const assignments: Record<string, string[]> = {};
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+    const today = startOfWarehouseDay(new Date());
 
     allShipments
       .filter(s => {
@@ -259,8 +295,7 @@ export function ShipmentsTab() {
           return false;
         }
 
-        const shipmentDate = new Date(s.start);
-        shipmentDate.setHours(0, 0, 0, 0);
+        const shipmentDate = startOfWarehouseDay(new Date(s.start));
 
         const isToday = shipmentDate.getTime() === today.getTime();
         const isNotCompleted = s.status !== 'completed';
@@ -279,6 +314,18 @@ export function ShipmentsTab() {
     setOperatorAssignments(assignments);
   };
 
+  const loadSyncConflicts = async () => {
+    const conflicts = await getOpenSyncConflicts();
+    setSyncConflictCount(conflicts.length);
+  };
+
+  const pushToSheet = async (shipmentIds: string[]) => {
+    const result = await pushShipmentsToSheet(shipmentIds);
+    if (result.conflicts) {
+      loadSyncConflicts();
+    }
+  };
+
   const loadPackagesForShipment = async (shipmentId: string) => {
     const { data } = await supabase
       .from('packages')
@@ -343,18 +390,18 @@ export function ShipmentsTab() {
         shipment.title
       );
     }
+
+    pushToSheet([id]);
   };
 
   const formatDate = (dateString: string | null) => {
     if (!dateString) return 'N/A';
-    const date = new Date(dateString);
-    return date.toLocaleString('en-GB', {
+    return formatWarehouseDate(dateString, {
       day: '2-digit',
       month: '2-digit',
       year: 'numeric',
       hour: '2-digit',
-      minute: '2-digit',
-      timeZone: 'UTC'
+      minute: '2-digit'
     });
   };
 
@@ -432,33 +479,26 @@ export function ShipmentsTab() {
   };
 
   const downloadDailyReport = () => {
-    const today = new Date();
-    const dateStr = today.toISOString().split('T')[0];
+    const dateStr = toWarehouseDateKey(new Date());
     const filename = `shipments-daily-${dateStr}.csv`;
     exportToCSV(shipments, filename);
   };
 
+  // Week 1 runs from the 1st through the Sunday after the first Monday, so any days
+  // before that Monday join the first full week; later weeks run Monday to Sunday.
+  // `end` is exclusive (midnight after the last day) in the warehouse timezone.
   const getWeekRange = (weekNumber: number) => {
-    const today = new Date();
-    const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
-    monthStart.setHours(0, 0, 0, 0);
+    const monthStart = startOfWarehouseMonth(new Date());
+    const weekday = getWarehouseWeekday(monthStart);
+    const daysUntilMonday = (8 - weekday) % 7;
+    const firstWeekEnd = addWarehouseDays(monthStart, daysUntilMonday + 7);
 
     if (weekNumber === 1) {
-      const firstWeekEnd = new Date(monthStart);
-      const daysUntilMonday = (8 - firstWeekEnd.getDay()) % 7;
-      firstWeekEnd.setDate(monthStart.getDate() + daysUntilMonday + 6);
       return { start: monthStart, end: firstWeekEnd };
-    } else {
-      const firstWeekEnd = new Date(monthStart);
-      const daysUntilMonday = (8 - firstWeekEnd.getDay()) % 7;
-      firstWeekEnd.setDate(monthStart.getDate() + daysUntilMonday + 6);
-
-      const weekStart = new Date(firstWeekEnd);
-      weekStart.setDate(firstWeekEnd.getDate() + 1 + (weekNumber - 2) * 7);
-      const weekEnd = new Date(weekStart);
-      weekEnd.setDate(weekStart.getDate() + 6);
-      return { start: weekStart, end: weekEnd };
     }
+
+    const weekStart = addWarehouseDays(firstWeekEnd, (weekNumber - 2) * 7);
+    return { start: weekStart, end: addWarehouseDays(weekStart, 7) };
   };
 
   const downloadWeekReport = (weekNumber: number) => {
@@ -467,27 +507,26 @@ export function ShipmentsTab() {
     const weekShipments = allShipments.filter(s => {
       if (!s.start) return false;
       const shipmentDate = new Date(s.start);
-      return shipmentDate >= start && shipmentDate <= end;
+      return shipmentDate >= start && shipmentDate < end;
     });
 
-    const startStr = start.toISOString().split('T')[0];
-    const endStr = end.toISOString().split('T')[0];
+    const startStr = toWarehouseDateKey(start);
+    const endStr = toWarehouseDateKey(addWarehouseDays(end, -1));
     const filename = `shipments-week${weekNumber}-${startStr}-to-${endStr}.csv`;
     exportToCSV(weekShipments, filename);
   };
 
   const downloadMonthlyReport = () => {
-    const today = new Date();
-    const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
-    const monthEnd = new Date(today.getFullYear(), today.getMonth() + 1, 0);
+    const monthStart = startOfWarehouseMonth(new Date());
+    const monthEnd = startOfWarehouseMonth(new Date(), 1);
 
     const monthShipments = allShipments.filter(s => {
       if (!s.start) return false;
       const shipmentDate = new Date(s.start);
-      return shipmentDate >= monthStart && shipmentDate <= monthEnd;
+      return shipmentDate >= monthStart && shipmentDate < monthEnd;
     });
 
-    const monthName = monthStart.toLocaleString('en-GB', { month: 'long', year: 'numeric' });
+    const monthName = formatWarehouseDate(monthStart, { month: 'long', year: 'numeric' });
     const filename = `shipments-${monthName.replace(' ', '-')}.csv`;
     exportToCSV(monthShipments, filename);
   };
@@ -526,7 +565,7 @@ export function ShipmentsTab() {
       row_id: Math.floor(Math.random() * 1000000),
       title: formData.get('title') as string,
       sscc_numbers: packagesList.length > 0 ? packagesList.join(', ') : '',
-      start: formData.get('start') as string,
+      start: fromWarehouseInputValue(formData.get('start') as string),
       car_reg_no: formData.get('car_reg_no') as string,
       status: 'pending',
       shipment_type: shipmentType,
@@ -551,7 +590,7 @@ export function ShipmentsTab() {
       const packagesData = packagesList.map(sscc => ({
         shipment_id: shipmentData.id,
         sscc_number: sscc,
-        status: 'pending'
+        status: shipmentType === 'outgoing' ? 'picked' : 'expected'
       }));
 
       const { error: packagesError } = await supabase
@@ -608,13 +647,17 @@ export function ShipmentsTab() {
 
     const { data: { user } } = await supabase.auth.getUser();
 
+    const door = dockDoors.find(d => d.id === formData.get('dock_door_id')) || null;
+    const slotStart = door ? fromWarehouseInputValue(formData.get('slot_start') as string) : '';
+
     const updates = {
       title: formData.get('title') as string,
       sscc_numbers: editingPackagesList.length > 0 ? editingPackagesList.join(', ') : '',
-      start: formData.get('start') as string,
+      start: fromWarehouseInputValue(formData.get('start') as string),
       car_reg_no: formData.get('car_reg_no') as string,
       intensity: editingIntensity,
       assigned_operators: selectedOperators,
+      notes: formData.get('notes') as string,
       updated_at: new Date().toISOString(),
       updated_by: user?.id
     };
@@ -623,6 +666,27 @@ export function ShipmentsTab() {
       const currentShipment = allShipments.find(s => s.id === id);
       const previousOperators = currentShipment?.assigned_operators || [];
 
+      const newDoorId = door && slotStart ? door.id : null;
+      const slotChanged = !!currentShipment && (
+        newDoorId !== (currentShipment.dock_door_id ?? null) ||
+        (newDoorId ? new Date(slotStart).getTime() : null) !==
+          (currentShipment.slot_start ? new Date(currentShipment.slot_start).getTime() : null)
+      );
+
+      if (currentShipment && slotChanged) {
+        let slotResult = await dockService.assignSlot(currentShipment, door, slotStart || null);
+
+        if (slotResult.conflict) {
+          const other = slotResult.conflict;
+          if (!window.confirm(`${door?.name} is already booked for "${other.title}" at ${formatDate(other.slot_start || null)}. Save this overlapping slot anyway?`)) {
+            return;
+          }
+          slotResult = await dockService.assignSlot(currentShipment, door, slotStart || null, undefined, true);
+        }
+
+        if (!slotResult.success) throw new Error(slotResult.error);
+      }
+
       const { error: shipmentError } = await supabase
         .from('shipments')
         .update(updates)
@@ -630,16 +694,30 @@ export function ShipmentsTab() {
 
       if (shipmentError) throw shipmentError;
 
-      await supabase
+      // Only add and remove the packages that changed so existing ones keep their status history
+      const { data: existingPackages } = await supabase
         .from('packages')
-        .delete()
+        .select('id, sscc_number')
         .eq('shipment_id', id);
 
-      if (editingPackagesList.length > 0) {
-        const packagesData = editingPackagesList.map(sscc => ({
+      const removedPackageIds = (existingPackages || [])
+        .filter(p => !editingPackagesList.includes(p.sscc_number))
+        .map(p => p.id);
+      const addedPackages = editingPackagesList
+        .filter(sscc => !(existingPackages || []).some(p => p.sscc_number === sscc));
+
+      if (removedPackageIds.length > 0) {
+        await supabase
+          .from('packages')
+          .delete()
+          .in('id', removedPackageIds);
+      }
+
+      if (addedPackages.length > 0) {
+        const packagesData = addedPackages.map(sscc => ({
           shipment_id: id,
           sscc_number: sscc,
-          status: 'pending'
+          status: currentShipment?.shipment_type === 'outgoing' ? 'picked' : 'expected'
         }));
 
         const { error: packagesError } = await supabase
@@ -661,9 +739,14 @@ export function ShipmentsTab() {
         currentShipment?.car_reg_no !== updates.car_reg_no ||
         editingPackagesList.length !== (currentShipment?.sscc_numbers?.split(', ').filter(s => s).length || 0);
 
+      // The dock slot is audited by dockService.assignSlot
       const changes = auditService.generateChangesSummary(
         currentShipment || {},
-        { ...updates, sscc_numbers: updates.sscc_numbers }
+        {
+          ...updates,
+          dock_door_id: currentShipment?.dock_door_id,
+          slot_start: currentShipment?.slot_start
+        }
       );
 
       if (changes.length > 0) {
@@ -734,6 +817,7 @@ export function ShipmentsTab() {
       setSelectedOperators([]);
       setEditingPackagesList([]);
       loadShipments();
+      pushToSheet([id]);
       alert('Delivery updated successfully!');
     } catch (err) {
       console.error('Failed to update shipment:', err);
@@ -824,6 +908,15 @@ export function ShipmentsTab() {
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-xl font-semibold text-slate-900">Shipments</h2>
           <div className="flex gap-2">
+            {syncConflictCount > 0 && (
+              <button
+                onClick={() => setShowSyncConflicts(true)}
+                className="px-4 py-2 bg-orange-100 text-orange-800 border border-orange-300 rounded-lg hover:bg-orange-200 flex items-center gap-2 text-sm"
+              >
+                <AlertTriangle className="w-4 h-4" />
+                {syncConflictCount} Sync Conflict{syncConflictCount === 1 ? '' : 's'}
+              </button>
+            )}
             <button
               onClick={() => setShowNewShipment(!showNewShipment)}
               className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-2 text-sm"
@@ -1257,7 +1350,17 @@ export function ShipmentsTab() {
               </tr>
             ) : (
               shipments.map((shipment) => (
-                <tr key={shipment.id} className={editingId === shipment.id ? 'bg-blue-50' : 'hover:bg-slate-50'}>
+                <tr
+                  key={shipment.id}
+                  id={`shipment-row-${shipment.id}`}
+                  className={
+                    editingId === shipment.id
+                      ? 'bg-blue-50'
+                      : highlightedId === shipment.id
+                      ? 'bg-yellow-50 ring-2 ring-inset ring-yellow-400'
+                      : 'hover:bg-slate-50'
+                  }
+                >
                   {editingId === shipment.id ? (
                     <>
                       <td colSpan={8} className="px-4 py-3">
@@ -1274,7 +1377,7 @@ export function ShipmentsTab() {
                             <input
                               type="datetime-local"
                               name="start"
-                              defaultValue={shipment.start ? new Date(shipment.start).toISOString().slice(0, 16) : ''}
+                              defaultValue={toWarehouseInputValue(shipment.start)}
                               required
                               className="px-2 py-1 border border-slate-300 rounded text-sm"
                             />
@@ -1295,6 +1398,26 @@ export function ShipmentsTab() {
                               placeholder="Car Registration"
                               className="px-2 py-1 border border-slate-300 rounded text-sm"
                             />
+                            <select
+                              name="dock_door_id"
+                              defaultValue={shipment.dock_door_id || ''}
+                              className="px-2 py-1 border border-slate-300 rounded text-sm bg-white"
+                              title="Dock Door"
+                            >
+                              <option value="">No dock door</option>
+                              {dockDoors.map(door => (
+                                <option key={door.id} value={door.id}>
+                                  {door.name} ({door.slot_minutes} min slots)
+                                </option>
+                              ))}
+                            </select>
+                            <input
+                              type="datetime-local"
+                              name="slot_start"
+                              defaultValue={toWarehouseInputValue(shipment.slot_start || shipment.start)}
+                              className="px-2 py-1 border border-slate-300 rounded text-sm"
+                              title="Dock Slot Start"
+                            />
                           </div>
 
                           <div>
@@ -1307,6 +1430,16 @@ export function ShipmentsTab() {
                             />
                           </div>
 
+                          <div>
+                            <label className="block text-xs font-medium text-slate-700 mb-1">Notes</label>
+                            <textarea
+                              name="notes"
+                              defaultValue={shipment.notes}
+                              rows={2}
+                              className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+                            />
+                          </div>
+
                           <div>
                             <label className="block text-xs font-medium text-slate-700 mb-1">Assign Operators</label>
                             <input
@@ -1420,6 +1553,11 @@ export function ShipmentsTab() {
                       </td>
                       <td className="px-4 py-3 text-sm text-slate-600">
                         {formatDate(shipment.start)}
+                        {shipment.dock_door_id && shipment.slot_start && (
+                          <div className="text-xs text-blue-700">
+                            {dockDoors.find(d => d.id === shipment.dock_door_id)?.name || 'Dock'} · {formatWarehouseDate(shipment.slot_start, { hour: '2-digit', minute: '2-digit' })}
+                          </div>
+                        )}
                       </td>
                       <td className="px-4 py-3 text-sm text-slate-600">
                         {shipment.car_reg_no}
@@ -1477,6 +1615,20 @@ export function ShipmentsTab() {
                           >
                             <Pencil className="w-4 h-4" />
                           </button>
+                          <button
+                            onClick={() => setWorkSessionShipment(shipment)}
+                            className="px-3 py-1 text-sm text-slate-600 hover:bg-slate-100 rounded"
+                            title="Work time"
+                          >
+                            <Timer className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => setHistoryShipment(shipment)}
+                            className="px-3 py-1 text-sm text-slate-600 hover:bg-slate-100 rounded"
+                            title="History and revert"
+                          >
+                            <History className="w-4 h-4" />
+                          </button>
                           <button
                             onClick={() => deleteShipment(shipment.id)}
                             disabled={deleting === shipment.id}
@@ -1501,11 +1653,43 @@ export function ShipmentsTab() {
           shipment={selectedShipment}
           onClose={() => setSelectedShipment(null)}
           onComplete={() => {
+            pushToSheet([selectedShipment.id]);
             setSelectedShipment(null);
             loadShipments();
           }}
         />
       )}
+
+      {historyShipment && (
+        <ShipmentHistoryModal
+          shipment={historyShipment}
+          onClose={() => setHistoryShipment(null)}
+          onReverted={loadShipments}
+        />
+      )}
+
+      {workSessionShipment && (
+        <WorkSessionsModal
+          shipment={workSessionShipment}
+          operators={operators}
+          onClose={() => setWorkSessionShipment(null)}
+          onChanged={() => {
+            // Starting work moves a pending shipment to in progress
+            loadShipments();
+            pushToSheet([workSessionShipment.id]);
+          }}
+        />
+      )}
+
+      {showSyncConflicts && (
+        <SyncConflictsModal
+          onClose={() => setShowSyncConflicts(false)}
+          onResolved={() => {
+            loadSyncConflicts();
+            loadShipments();
+          }}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,278 @@
+import { useState, useEffect } from 'react';
+import { Check, X, Download, FileText, Send, RefreshCw, ChevronDown, ChevronRight } from 'lucide-react';
+import {
+  storageDigestService,
+  StorageDigest,
+  DigestChannel,
+  DigestDeliverySettings,
+  DigestDeliveryStatus,
+  DIGEST_CHANNEL_LABELS
+} from '../services/storageDigestService';
+
+const DELIVERY_STATUS_COLORS: Record<DigestDeliveryStatus, string> = {
+  pending: 'bg-slate-100 text-slate-700',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  skipped: 'bg-slate-100 text-slate-500'
+};
+
+export function StorageDigestPanel() {
+  const [digests, setDigests] = useState<StorageDigest[]>([]);
+  const [settings, setSettings] = useState<DigestDeliverySettings>({ channel: 'none', webhookUrl: '', recipients: '' });
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+
+  useEffect(() => {
+    loadDigests();
+    loadSettings();
+  }, []);
+
+  const loadDigests = async () => {
+    setLoading(true);
+    const data = await storageDigestService.getDigests();
+    setDigests(data);
+    setLoading(false);
+  };
+
+  const loadSettings = async () => {
+    setSettings(await storageDigestService.getDeliverySettings());
+  };
+
+  const saveSettings = async () => {
+    const response = await storageDigestService.saveDeliverySettings(settings);
+    setResult(response.success
+      ? { success: true, message: 'Delivery settings saved' }
+      : { success: false, message: response.error || 'Failed to save settings' });
+  };
+
+  const generate = async (deliver: boolean) => {
+    setWorking(true);
+    setResult(null);
+
+    const response = await storageDigestService.generate(deliver);
+
+    if (!response.success) {
+      setResult({ success: false, message: response.error || 'Failed to generate digest' });
+    } else if (response.delivery?.status === 'failed') {
+      setResult({ success: false, message: `Digest generated, delivery failed: ${response.delivery.error}` });
+    } else {
+      setResult({
+        success: true,
+        message: response.delivery?.status === 'sent' ? 'Digest generated and delivered' : 'Digest generated'
+      });
+    }
+
+    await loadDigests();
+    setWorking(false);
+  };
+
+  const resend = async (digest: StorageDigest) => {
+    if (!confirm(`Send the digest for ${digest.digest_date} again via ${DIGEST_CHANNEL_LABELS[settings.channel]}?`)) {
+      return;
+    }
+
+    setWorking(true);
+    const response = await storageDigestService.resend(digest.id);
+
+    if (!response.success || response.delivery?.status === 'failed') {
+      setResult({ success: false, message: response.error || response.delivery?.error || 'Delivery failed' });
+    } else {
+      setResult({ success: true, message: `Digest for ${digest.digest_date} ${response.delivery?.status === 'sent' ? 'delivered' : 'not delivered (channel disabled)'}` });
+    }
+
+    await loadDigests();
+    setWorking(false);
+  };
+
+  const exportPdf = (digest: StorageDigest) => {
+    if (!storageDigestService.exportPdf(digest)) {
+      setResult({ success: false, message: 'Allow pop-ups for this site to export PDF' });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {result && (
+        <div className={`p-3 rounded-lg flex items-center gap-2 text-sm ${result.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+          {result.success ? <Check className="w-4 h-4" /> : <X className="w-4 h-4" />}
+          {result.message}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg border border-slate-200 p-4">
+        <h3 className="font-semibold text-slate-900 mb-3">Delivery</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Channel</label>
+            <select
+              value={settings.channel}
+              onChange={(e) => setSettings({ ...settings, channel: e.target.value as DigestChannel })}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+            >
+              {(Object.keys(DIGEST_CHANNEL_LABELS) as DigestChannel[]).map(channel => (
+                <option key={channel} value={channel}>{DIGEST_CHANNEL_LABELS[channel]}</option>
+              ))}
+            </select>
+          </div>
+          {settings.channel === 'webhook' && (
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-slate-700 mb-1">Webhook URL</label>
+              <input
+                type="url"
+                value={settings.webhookUrl}
+                onChange={(e) => setSettings({ ...settings, webhookUrl: e.target.value })}
+                placeholder="https://example.com/hooks/storage-digest"
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          )}
+          {settings.channel === 'smtp' && (
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-slate-700 mb-1">Recipients</label>
+              <input
+                type="text"
+                value={settings.recipients}
+                onChange={(e) => setSettings({ ...settings, recipients: e.target.value })}
+                placeholder="warehouse@example.com, manager@example.com"
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          )}
+        </div>
+        <p className="text-xs text-slate-500 mt-2">
+          The digest is generated daily by the storage-digest function. SMTP server details are configured as function secrets.
+        </p>
+        <div className="flex flex-wrap gap-2 mt-3">
+          <button
+            onClick={saveSettings}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            Save Delivery Settings
+          </button>
+          <button
+            onClick={() => generate(false)}
+            disabled={working}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-600 text-white rounded-lg hover:bg-slate-700 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${working ? 'animate-spin' : ''}`} />
+            Generate Now
+          </button>
+          <button
+            onClick={() => generate(true)}
+            disabled={working || settings.channel === 'none'}
+            className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+          >
+            <Send className="w-4 h-4" />
+            Generate & Send
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg border border-slate-200 overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-200">
+          <h3 className="font-semibold text-slate-900">Daily Digests</h3>
+        </div>
+
+        {loading ? (
+          <div className="p-4 text-sm text-slate-600">Loading digests...</div>
+        ) : digests.length === 0 ? (
+          <div className="p-4 text-sm text-slate-500">No digests generated yet.</div>
+        ) : (
+          <div className="divide-y divide-slate-200">
+            {digests.map(digest => {
+              const expanded = expandedId === digest.id;
+
+              return (
+                <div key={digest.id}>
+                  <div className="px-4 py-3 flex flex-wrap items-center gap-4 hover:bg-slate-50">
+                    <button
+                      onClick={() => setExpandedId(expanded ? null : digest.id)}
+                      className="flex items-center gap-2 font-medium text-slate-900"
+                    >
+                      {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      {digest.digest_date}
+                    </button>
+                    <span className="text-sm text-red-700 font-semibold">{digest.overdue_count} overdue</span>
+                    <span className="text-sm text-orange-700">{digest.expiring_count} nearing limit</span>
+                    <span className="text-sm text-slate-500">{digest.total_stored} stored</span>
+                    <span
+                      className={`px-2 py-1 text-xs font-medium rounded ${DELIVERY_STATUS_COLORS[digest.delivery_status]}`}
+                      title={digest.delivery_error || undefined}
+                    >
+                      {DIGEST_CHANNEL_LABELS[digest.delivery_channel]}: {digest.delivery_status}
+                    </span>
+                    <div className="flex items-center gap-2 ml-auto">
+                      <button
+                        onClick={() => storageDigestService.exportCsv(digest)}
+                        className="flex items-center gap-1 px-2 py-1 text-sm text-slate-600 hover:text-blue-600"
+                        title="Export CSV"
+                      >
+                        <Download className="w-4 h-4" />
+                        CSV
+                      </button>
+                      <button
+                        onClick={() => exportPdf(digest)}
+                        className="flex items-center gap-1 px-2 py-1 text-sm text-slate-600 hover:text-blue-600"
+                        title="Export PDF"
+                      >
+                        <FileText className="w-4 h-4" />
+                        PDF
+                      </button>
+                      <button
+                        onClick={() => resend(digest)}
+                        disabled={working || settings.channel === 'none'}
+                        className="flex items-center gap-1 px-2 py-1 text-sm text-slate-600 hover:text-green-600 disabled:opacity-50"
+                        title="Send again"
+                      >
+                        <Send className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {digest.delivery_status === 'failed' && digest.delivery_error && (
+                    <p className="px-4 pb-2 text-xs text-red-600">{digest.delivery_error}</p>
+                  )}
+
+                  {expanded && (
+                    <div className="px-4 pb-4 overflow-x-auto">
+                      {digest.items.length === 0 ? (
+                        <p className="text-sm text-slate-500">No packages needed attention.</p>
+                      ) : (
+                        <table className="w-full text-sm">
+                          <thead className="bg-slate-50">
+                            <tr>
+                              <th className="px-3 py-2 text-left font-medium text-slate-700">Package ID</th>
+                              <th className="px-3 py-2 text-left font-medium text-slate-700">Description</th>
+                              <th className="px-3 py-2 text-left font-medium text-slate-700">Location</th>
+                              <th className="px-3 py-2 text-left font-medium text-slate-700">Expires</th>
+                              <th className="px-3 py-2 text-right font-medium text-slate-700">Days Left</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-slate-100">
+                            {digest.items.map((item, index) => (
+                              <tr key={`${item.sscc}-${index}`} className={item.overdue ? 'bg-red-50' : 'bg-orange-50'}>
+                                <td className="px-3 py-2 font-mono text-slate-900">{item.sscc}</td>
+                                <td className="px-3 py-2 text-slate-700">{item.title || '-'}</td>
+                                <td className="px-3 py-2 text-slate-700">{item.location || '-'}</td>
+                                <td className="px-3 py-2 text-slate-700">{item.expires}</td>
+                                <td className={`px-3 py-2 text-right font-semibold ${item.overdue ? 'text-red-700' : 'text-orange-700'}`}>
+                                  {item.days_left}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
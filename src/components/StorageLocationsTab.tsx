@@ -0,0 +1,312 @@
+import { useState, useEffect } from 'react';
+import { StorageLocation } from '../lib/supabase';
+import { MapPin, Plus, Check, X, Edit2, Power, Ban, Search } from 'lucide-react';
+import { locationService } from '../services/locationService';
+
+type LocationForm = {
+  id?: string;
+  zone: string;
+  aisle: string;
+  bay: string;
+  code: string;
+  capacity: number;
+  notes: string;
+};
+
+const EMPTY_LOCATION: LocationForm = {
+  zone: '',
+  aisle: '',
+  bay: '',
+  code: '',
+  capacity: 10,
+  notes: ''
+};
+
+export function StorageLocationsTab() {
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [occupied, setOccupied] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [locationForm, setLocationForm] = useState<LocationForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+
+  useEffect(() => {
+    loadLocations();
+  }, []);
+
+  const loadLocations = async () => {
+    setLoading(true);
+    const [data, occupancy] = await Promise.all([
+      locationService.getLocations(true),
+      locationService.getOccupancy()
+    ]);
+    setLocations(data);
+    setOccupied(Object.fromEntries(occupancy.map(o => [o.id, o.occupied])));
+    setLoading(false);
+  };
+
+  const saveLocation = async () => {
+    if (!locationForm || !locationForm.zone.trim()) return;
+
+    setSaving(true);
+    const existing = locations.find(l => l.id === locationForm.id);
+    const response = await locationService.saveLocation({
+      ...locationForm,
+      blocked: existing?.blocked ?? false,
+      active: existing?.active ?? true
+    });
+
+    if (response.success && response.location) {
+      setResult({ success: true, message: `Saved ${response.location.code}` });
+      setLocationForm(null);
+      loadLocations();
+    } else {
+      setResult({ success: false, message: response.error || 'Failed to save location' });
+    }
+    setSaving(false);
+  };
+
+  const updateFlags = async (location: StorageLocation, flags: Partial<Pick<StorageLocation, 'blocked' | 'active'>>) => {
+    const response = await locationService.saveLocation({ ...location, ...flags });
+    if (!response.success) {
+      setResult({ success: false, message: response.error || 'Failed to update location' });
+      return;
+    }
+    loadLocations();
+  };
+
+  const toggleBlocked = (location: StorageLocation) => {
+    if (!location.blocked && (occupied[location.id] || 0) > 0 &&
+        !confirm(`${location.code} holds ${occupied[location.id]} package(s). They stay there, but nothing new can be put away until it is unblocked. Continue?`)) {
+      return;
+    }
+    updateFlags(location, { blocked: !location.blocked });
+  };
+
+  const toggleActive = (location: StorageLocation) => {
+    if (location.active && (occupied[location.id] || 0) > 0) {
+      setResult({ success: false, message: `${location.code} still holds ${occupied[location.id]} package(s) and cannot be deactivated` });
+      return;
+    }
+    updateFlags(location, { active: !location.active });
+  };
+
+  const query = searchTerm.toLowerCase().trim();
+  const filteredLocations = locations.filter(l =>
+    !query ||
+    l.code.toLowerCase().includes(query) ||
+    l.zone.toLowerCase().includes(query) ||
+    l.notes?.toLowerCase().includes(query)
+  );
+  const previewCode = locationForm
+    ? locationForm.code.trim() || locationService.buildCode(locationForm.zone, locationForm.aisle, locationForm.bay)
+    : '';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold text-slate-900 flex items-center gap-2">
+          <MapPin className="w-6 h-6" />
+          Storage Locations
+        </h2>
+        <button
+          onClick={() => setLocationForm({ ...EMPTY_LOCATION })}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          Add Location
+        </button>
+      </div>
+
+      {result && (
+        <div className={`p-3 rounded-lg flex items-center gap-2 text-sm ${result.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+          {result.success ? <Check className="w-4 h-4" /> : <X className="w-4 h-4" />}
+          {result.message}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-200">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search by code, zone or notes..."
+              className="w-full pl-9 pr-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+            />
+          </div>
+        </div>
+
+        {locationForm && (
+          <div className="p-4 bg-blue-50 border-b border-blue-200 grid grid-cols-2 md:grid-cols-7 gap-3 items-end">
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Zone</label>
+              <input
+                type="text"
+                value={locationForm.zone}
+                onChange={(e) => setLocationForm({ ...locationForm, zone: e.target.value })}
+                placeholder="ML2"
+                className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Aisle</label>
+              <input
+                type="text"
+                value={locationForm.aisle}
+                onChange={(e) => setLocationForm({ ...locationForm, aisle: e.target.value })}
+                placeholder="B"
+                className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Bay</label>
+              <input
+                type="text"
+                value={locationForm.bay}
+                onChange={(e) => setLocationForm({ ...locationForm, bay: e.target.value })}
+                placeholder="1"
+                className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Code</label>
+              <input
+                type="text"
+                value={locationForm.code}
+                onChange={(e) => setLocationForm({ ...locationForm, code: e.target.value })}
+                placeholder={locationService.buildCode(locationForm.zone, locationForm.aisle, locationForm.bay) || 'Auto'}
+                disabled={!!locationForm.id && (occupied[locationForm.id] || 0) > 0}
+                title={locationForm.id && (occupied[locationForm.id] || 0) > 0 ? 'Packages are stored here; move them before renaming' : undefined}
+                className="w-full px-2 py-1 border border-slate-300 rounded text-sm disabled:bg-slate-100"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Capacity (pkgs)</label>
+              <input
+                type="number"
+                min={1}
+                value={locationForm.capacity}
+                onChange={(e) => setLocationForm({ ...locationForm, capacity: parseInt(e.target.value, 10) || 1 })}
+                className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Notes</label>
+              <input
+                type="text"
+                value={locationForm.notes}
+                onChange={(e) => setLocationForm({ ...locationForm, notes: e.target.value })}
+                className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+              />
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={saveLocation}
+                disabled={saving || !locationForm.zone.trim()}
+                className="px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm disabled:opacity-50"
+                title={previewCode ? `Save as ${previewCode}` : undefined}
+              >
+                Save
+              </button>
+              <button
+                onClick={() => setLocationForm(null)}
+                className="px-3 py-1.5 bg-slate-200 text-slate-700 rounded-lg hover:bg-slate-300 text-sm"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="p-4 text-slate-600 text-sm">Loading locations...</div>
+        ) : filteredLocations.length === 0 ? (
+          <div className="p-4 text-slate-500 text-sm">
+            {locations.length === 0 ? 'No storage locations registered yet.' : 'No locations match your search.'}
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Code</th>
+                <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Zone / Aisle / Bay</th>
+                <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Occupancy</th>
+                <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Status</th>
+                <th className="px-4 py-2 text-left text-sm font-medium text-slate-700">Notes</th>
+                <th className="px-4 py-2 text-right text-sm font-medium text-slate-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {filteredLocations.map(location => {
+                const count = occupied[location.id] || 0;
+                const level = locationService.getOccupancyLevel(count, location.capacity);
+
+                return (
+                  <tr key={location.id} className={`hover:bg-slate-50 ${!location.active ? 'opacity-60' : ''}`}>
+                    <td className="px-4 py-2 text-sm font-medium text-slate-900">{location.code}</td>
+                    <td className="px-4 py-2 text-sm text-slate-600">
+                      {[location.zone, location.aisle || '-', location.bay || '-'].join(' / ')}
+                    </td>
+                    <td className={`px-4 py-2 text-sm ${
+                      level === 'over' ? 'text-red-600 font-semibold' : level === 'full' ? 'text-amber-600 font-semibold' : 'text-slate-600'
+                    }`}>
+                      {count}/{location.capacity}
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className="flex gap-1">
+                        <span className={`px-2 py-1 text-xs font-medium rounded ${location.active ? 'bg-green-100 text-green-800' : 'bg-slate-100 text-slate-600'}`}>
+                          {location.active ? 'Active' : 'Inactive'}
+                        </span>
+                        {location.blocked && (
+                          <span className="px-2 py-1 text-xs font-medium rounded bg-red-100 text-red-800">Blocked</span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-slate-500">{location.notes}</td>
+                    <td className="px-4 py-2 text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <button
+                          onClick={() => setLocationForm({
+                            id: location.id,
+                            zone: location.zone,
+                            aisle: location.aisle || '',
+                            bay: location.bay || '',
+                            code: location.code,
+                            capacity: location.capacity,
+                            notes: location.notes || ''
+                          })}
+                          className="p-1 text-slate-500 hover:text-blue-600"
+                          title="Edit location"
+                        >
+                          <Edit2 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => toggleBlocked(location)}
+                          className={`p-1 ${location.blocked ? 'text-red-600 hover:text-green-600' : 'text-slate-500 hover:text-red-600'}`}
+                          title={location.blocked ? 'Unblock location' : 'Block location'}
+                        >
+                          <Ban className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => toggleActive(location)}
+                          className={`p-1 ${location.active ? 'text-slate-500 hover:text-red-600' : 'text-slate-400 hover:text-green-600'}`}
+                          title={location.active ? 'Deactivate location' : 'Activate location'}
+                        >
+                          <Power className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import { useState, useEffect } from 'react';
+import { Check, X, Download, RefreshCw, Upload, HardDrive } from 'lucide-react';
+import {
+  backupService,
+  BackupContents,
+  BackupRetentionPolicy,
+  StoredBackup,
+  StoredBackupStatus
+} from '../services/backupService';
+import { formatWarehouseDate } from '../utils/dateTime';
+
+const STATUS_COLORS: Record<StoredBackupStatus, string> = {
+  running: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  expired: 'bg-slate-100 text-slate-500'
+};
+
+const RETENTION_FIELDS: { key: keyof BackupRetentionPolicy; label: string }[] = [
+  { key: 'daily', label: 'Daily backups' },
+  { key: 'weekly', label: 'Weekly backups' },
+  { key: 'monthly', label: 'Monthly backups' }
+];
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+interface StoredBackupsPanelProps {
+  /** Called with the contents of a stored backup the user wants to restore. */
+  onRestore: (backup: BackupContents) => void;
+}
+
+export function StoredBackupsPanel({ onRestore }: StoredBackupsPanelProps) {
+  const [backups, setBackups] = useState<StoredBackup[]>([]);
+  const [policy, setPolicy] = useState<BackupRetentionPolicy>({ daily: 7, weekly: 4, monthly: 12 });
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+
+  useEffect(() => {
+    loadBackups();
+    loadPolicy();
+  }, []);
+
+  const loadBackups = async () => {
+    setLoading(true);
+    setBackups(await backupService.getStoredBackups());
+    setLoading(false);
+  };
+
+  const loadPolicy = async () => {
+    setPolicy(await backupService.getRetentionPolicy());
+  };
+
+  const savePolicy = async () => {
+    if (!confirm('Save the retention policy and delete stored backups it no longer keeps?')) {
+      return;
+    }
+
+    setWorking(true);
+    const saved = await backupService.saveRetentionPolicy(policy);
+    const response = saved.success ? await backupService.applyRetention() : saved;
+
+    setResult(response.success
+      ? { success: true, message: 'Retention policy saved and applied' }
+      : { success: false, message: response.error || 'Failed to save retention policy' });
+
+    await loadBackups();
+    setWorking(false);
+  };
+
+  const backUpNow = async () => {
+    setWorking(true);
+    setResult(null);
+
+    const response = await backupService.runServerBackup();
+
+    setResult(response.success
+      ? { success: true, message: `Backup stored${response.expired ? `, ${response.expired} expired backup(s) deleted` : ''}` }
+      : { success: false, message: response.error || 'Backup failed' });
+
+    await loadBackups();
+    setWorking(false);
+  };
+
+  const restore = async (backup: StoredBackup) => {
+    setWorking(true);
+    setResult(null);
+
+    try {
+      onRestore(await backupService.readStoredBackup(backup));
+      setResult({ success: true, message: 'Backup loaded into the restore wizard above' });
+    } catch (err) {
+      setResult({ success: false, message: `Could not read backup: ${(err as Error).message}` });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const download = async (backup: StoredBackup) => {
+    const response = await backupService.downloadStoredBackup(backup);
+    if (!response.success) {
+      setResult({ success: false, message: `Download failed: ${response.error}` });
+    }
+  };
+
+  const dateTime = (value: string) =>
+    formatWarehouseDate(value, { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="space-y-4">
+      {result && (
+        <div className={`p-3 rounded-lg flex items-center gap-2 text-sm ${result.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+          {result.success ? <Check className="w-4 h-4" /> : <X className="w-4 h-4" />}
+          {result.message}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg border border-slate-200 p-4">
+        <h3 className="font-semibold text-slate-900 mb-3">Retention</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {RETENTION_FIELDS.map(({ key, label }) => (
+            <div key={key}>
+              <label className="block text-sm font-medium text-slate-700 mb-1">{label}</label>
+              <input
+                type="number"
+                min="0"
+                value={policy[key]}
+                onChange={(e) => setPolicy({ ...policy, [key]: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500 mt-2">
+          The scheduled-backup function stores a full backup daily and keeps the newest backup of each of the last days, weeks and months set here. The newest backup is always kept.
+        </p>
+        <div className="flex flex-wrap gap-2 mt-3">
+          <button
+            onClick={savePolicy}
+            disabled={working}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Save Retention Policy
+          </button>
+          <button
+            onClick={backUpNow}
+            disabled={working}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-600 text-white rounded-lg hover:bg-slate-700 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${working ? 'animate-spin' : ''}`} />
+            Back Up Now
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg border border-slate-200 overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-200 flex items-center gap-2">
+          <HardDrive className="w-4 h-4 text-slate-600" />
+          <h3 className="font-semibold text-slate-900">Stored Backups</h3>
+        </div>
+
+        {loading ? (
+          <div className="p-4 text-sm text-slate-600">Loading backups...</div>
+        ) : backups.length === 0 ? (
+          <div className="p-4 text-sm text-slate-500">No stored backups yet.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-left text-slate-600">
+                <tr>
+                  <th className="px-4 py-2 font-medium">Created</th>
+                  <th className="px-4 py-2 font-medium">Status</th>
+                  <th className="px-4 py-2 font-medium">Size</th>
+                  <th className="px-4 py-2 font-medium">Rows</th>
+                  <th className="px-4 py-2 font-medium">Kept As</th>
+                  <th className="px-4 py-2 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {backups.map(backup => (
+                  <tr key={backup.id} className="hover:bg-slate-50">
+                    <td className="px-4 py-2 text-slate-900">
+                      {dateTime(backup.created_at)}
+                      {backup.trigger === 'manual' && <span className="ml-2 text-xs text-slate-500">manual</span>}
+                    </td>
+                    <td className="px-4 py-2">
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_COLORS[backup.status]}`} title={backup.error || undefined}>
+                        {backup.status}
+                      </span>
+                      {backup.status === 'failed' && backup.error && (
+                        <p className="text-xs text-red-700 mt-1">{backup.error}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-slate-700">{backup.size_bytes ? formatSize(backup.size_bytes) : '—'}</td>
+                    <td className="px-4 py-2 text-slate-700">
+                      {Object.values(backup.row_counts).reduce((sum, count) => sum + count, 0) || '—'}
+                    </td>
+                    <td className="px-4 py-2 text-slate-500 text-xs">{backup.retained_as.join(', ') || '—'}</td>
+                    <td className="px-4 py-2">
+                      {backup.status === 'completed' && (
+                        <div className="flex justify-end gap-1">
+                          <button
+                            onClick={() => download(backup)}
+                            className="p-1.5 text-slate-600 hover:bg-slate-100 rounded"
+                            title="Download backup"
+                          >
+                            <Download className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => restore(backup)}
+                            disabled={working}
+                            className="p-1.5 text-amber-700 hover:bg-amber-50 rounded disabled:text-slate-300"
+                            title="Restore from this backup"
+                          >
+                            <Upload className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
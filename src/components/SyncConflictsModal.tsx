@@ -0,0 +1,132 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { X, Loader2, AlertTriangle, FileSpreadsheet, Monitor } from 'lucide-react';
+import { SyncConflict, getOpenSyncConflicts, resolveSyncConflict } from '../services/googleSheets';
+
+type SyncConflictsModalProps = {
+  onClose: () => void;
+  onResolved: () => void;
+};
+
+const FIELD_LABELS: Record<SyncConflict['field'], string> = {
+  status: 'Status',
+  assigned_operators: 'Operators',
+  storage_location: 'Storage Location',
+  notes: 'Notes'
+};
+
+export function SyncConflictsModal({ onClose, onResolved }: SyncConflictsModalProps) {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadConflicts();
+  }, []);
+
+  const loadConflicts = async () => {
+    setLoading(true);
+    const data = await getOpenSyncConflicts();
+    setConflicts(data);
+    setLoading(false);
+  };
+
+  const handleResolve = async (conflict: SyncConflict, resolution: 'local' | 'sheet') => {
+    setResolvingId(conflict.id);
+    setError('');
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const result = await resolveSyncConflict(conflict.id, resolution, user?.id || null);
+
+    if (result.success) {
+      setConflicts(conflicts.filter(c => c.id !== conflict.id));
+      onResolved();
+    } else {
+      setError(result.error || 'Failed to resolve conflict');
+    }
+
+    setResolvingId(null);
+  };
+
+  const formatValue = (value: string) => value || '(empty)';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-orange-500" />
+            Sheet Sync Conflicts
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          <p className="text-sm text-slate-600">
+            These fields were changed both in the app and in the Google Sheet since the last sync.
+            Choose which value to keep; the other side is updated to match.
+          </p>
+
+          {error && (
+            <div className="p-3 bg-red-50 text-red-800 rounded-lg text-sm">{error}</div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8 text-slate-500">
+              <Loader2 className="w-5 h-5 animate-spin mr-2" />
+              Loading conflicts...
+            </div>
+          ) : conflicts.length === 0 ? (
+            <div className="py-8 text-center text-slate-500 text-sm">No open conflicts</div>
+          ) : (
+            conflicts.map((conflict) => (
+              <div key={conflict.id} className="border border-orange-200 bg-orange-50 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <div>
+                    <p className="text-sm font-semibold text-slate-900">
+                      {conflict.shipment?.title || 'Unknown shipment'}
+                    </p>
+                    <p className="text-xs text-slate-600">
+                      {FIELD_LABELS[conflict.field]} · SSCC {conflict.shipment?.sscc_numbers || '-'} · Last synced value: {formatValue(conflict.base_value)}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <button
+                    onClick={() => handleResolve(conflict, 'local')}
+                    disabled={resolvingId === conflict.id}
+                    className="text-left p-3 bg-white border border-slate-200 rounded-lg hover:border-blue-500 disabled:opacity-50"
+                  >
+                    <span className="flex items-center gap-1 text-xs font-medium text-blue-700 mb-1">
+                      <Monitor className="w-3 h-3" />
+                      Keep app value
+                    </span>
+                    <span className="text-sm text-slate-900 break-words">{formatValue(conflict.local_value)}</span>
+                  </button>
+                  <button
+                    onClick={() => handleResolve(conflict, 'sheet')}
+                    disabled={resolvingId === conflict.id}
+                    className="text-left p-3 bg-white border border-slate-200 rounded-lg hover:border-green-500 disabled:opacity-50"
+                  >
+                    <span className="flex items-center gap-1 text-xs font-medium text-green-700 mb-1">
+                      <FileSpreadsheet className="w-3 h-3" />
+                      Keep sheet value
+                    </span>
+                    <span className="text-sm text-slate-900 break-words">{formatValue(conflict.sheet_value)}</span>
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,19 @@
 import { useState, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
-import { Package, AlertTriangle, Download, RefreshCw, Search } from 'lucide-react';
+import { supabase, StorageLocationOccupancy } from '../lib/supabase';
+import { Package, AlertTriangle, Download, RefreshCw, Search, MapPin, List, Clock, Settings, Mail } from 'lucide-react';
+import { STORAGE_STATUSES } from '../services/packageLifecycleService';
+import { locationService, OccupancyLevel } from '../services/locationService';
+import {
+  dwellLimitService,
+  getDwellStatus,
+  matchTaskCategory,
+  resolveDwellLimit,
+  DEFAULT_DWELL_SETTINGS,
+  DWELL_LIMIT_SOURCE_LABELS,
+  DwellLimitSource
+} from '../services/dwellLimitService';
+import { DwellRulesPanel } from './DwellRulesPanel';
+import { StorageDigestPanel } from './StorageDigestPanel';
 
 type PackageReport = {
   package_id: string;
@@ -10,16 +23,36 @@ type PackageReport = {
   expires: string;
   days_left: number;
   total_days: number;
-  status: 'Active' | 'Overdue';
+  limit_days: number;
+  limit_source: DwellLimitSource;
+  // Escalation stage: 0 within limit, 1..n warning thresholds crossed, n + 1 overdue
+  stage: number;
+  warning_days: number | null;
+  status: 'Active' | 'Expiring' | 'Overdue';
   notes: string;
 };
 
+const OCCUPANCY_COLORS: Record<OccupancyLevel, string> = {
+  free: 'bg-white border-slate-200',
+  full: 'bg-amber-50 border-amber-400',
+  over: 'bg-red-50 border-red-500'
+};
+
+const OCCUPANCY_BAR_COLORS: Record<OccupancyLevel, string> = {
+  free: 'bg-green-500',
+  full: 'bg-amber-500',
+  over: 'bg-red-600'
+};
+
 export function WarehouseReportTab() {
   const [packages, setPackages] = useState<PackageReport[]>([]);
   const [filteredPackages, setFilteredPackages] = useState<PackageReport[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
-  const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'overdue'>('all');
+  const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'expiring' | 'overdue'>('all');
+  const [view, setView] = useState<'packages' | 'occupancy' | 'rules' | 'digests'>('packages');
+  const [warningDays, setWarningDays] = useState<number[]>(DEFAULT_DWELL_SETTINGS.warningDays);
+  const [occupancy, setOccupancy] = useState<StorageLocationOccupancy[]>([]);
 
   useEffect(() => {
     loadWarehouseReport();
@@ -40,6 +73,7 @@ export function WarehouseReportTab() {
           sscc_number,
           storage_location,
           status,
+          dwell_limit_days,
           created_at,
           shipment_id,
           shipments!inner(
@@ -52,30 +86,48 @@ export function WarehouseReportTab() {
             notes
           )
         `)
-        .eq('status', 'stored')
+        .in('status', STORAGE_STATUSES)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
 
+      const [rules, settings, categories] = await Promise.all([
+        dwellLimitService.getRules(),
+        dwellLimitService.getSettings(),
+        dwellLimitService.getCategories()
+      ]);
+      setWarningDays(settings.warningDays);
+
       const now = new Date();
       const report: PackageReport[] = (packagesData || []).map((pkg: any) => {
         const arrivalDate = new Date(pkg.shipments.start || pkg.created_at);
-        const expiryDate = new Date(arrivalDate);
-        expiryDate.setDate(expiryDate.getDate() + 42);
-
-        const totalDays = Math.floor((now.getTime() - arrivalDate.getTime()) / (1000 * 60 * 60 * 24));
-        const daysLeft = Math.floor((expiryDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-        const status: 'Active' | 'Overdue' = daysLeft < 0 ? 'Overdue' : 'Active';
+        const title = pkg.shipments.title || '';
+        const limit = resolveDwellLimit(
+          {
+            sscc: pkg.sscc_number,
+            title,
+            category: matchTaskCategory(title, categories),
+            importedLimitDays: pkg.dwell_limit_days
+          },
+          rules,
+          settings
+        );
+        const dwell = getDwellStatus(arrivalDate, limit.limitDays, settings.warningDays, now);
+        const crossed = settings.warningDays.filter(days => dwell.daysLeft <= days);
 
         return {
           package_id: pkg.sscc_number,
-          description: pkg.shipments.title || '',
+          description: title,
           location: pkg.storage_location || '',
           arrival: arrivalDate.toISOString().split('T')[0],
-          expires: expiryDate.toISOString().split('T')[0],
-          days_left: daysLeft,
-          total_days: totalDays,
-          status,
+          expires: dwell.expires.toISOString().split('T')[0],
+          days_left: dwell.daysLeft,
+          total_days: dwell.totalDays,
+          limit_days: limit.limitDays,
+          limit_source: limit.source,
+          stage: dwell.stage,
+          warning_days: crossed.length > 0 ? crossed[crossed.length - 1] : null,
+          status: dwell.overdue ? 'Overdue' : dwell.stage > 0 ? 'Expiring' : 'Active',
           notes: pkg.shipments.notes || '',
         };
       });
@@ -83,6 +135,7 @@ export function WarehouseReportTab() {
       report.sort((a, b) => a.days_left - b.days_left);
 
       setPackages(report);
+      setOccupancy(await locationService.getOccupancy());
     } catch (err) {
       console.error('Failed to load warehouse report:', err);
     } finally {
@@ -95,6 +148,8 @@ export function WarehouseReportTab() {
 
     if (statusFilter === 'active') {
       filtered = filtered.filter(p => p.status === 'Active');
+    } else if (statusFilter === 'expiring') {
+      filtered = filtered.filter(p => p.status === 'Expiring');
     } else if (statusFilter === 'overdue') {
       filtered = filtered.filter(p => p.status === 'Overdue');
     }
@@ -112,7 +167,7 @@ export function WarehouseReportTab() {
   };
 
   const exportToCSV = () => {
-    const headers = ['Package ID', 'Description', 'Location', 'Arrival', 'Expires', 'Days Left', 'Total Days', 'Status', 'Notes'];
+    const headers = ['Package ID', 'Description', 'Location', 'Arrival', 'Expires', 'Days Left', 'Total Days', 'Limit Days', 'Limit Source', 'Status', 'Notes'];
     const rows = filteredPackages.map(pkg => [
       pkg.package_id,
       pkg.description,
@@ -121,6 +176,8 @@ export function WarehouseReportTab() {
       pkg.expires,
       pkg.days_left.toString(),
       pkg.total_days.toString(),
+      pkg.limit_days.toString(),
+      DWELL_LIMIT_SOURCE_LABELS[pkg.limit_source],
       pkg.status,
       pkg.notes
     ]);
@@ -135,8 +192,41 @@ export function WarehouseReportTab() {
   };
 
   const activeCount = packages.filter(p => p.status === 'Active').length;
+  const expiringCount = packages.filter(p => p.status === 'Expiring').length;
   const overdueCount = packages.filter(p => p.status === 'Overdue').length;
 
+  // The last warning stage before overdue gets the strongest highlight
+  const getStageRowClass = (pkg: PackageReport, index: number) => {
+    if (pkg.status === 'Overdue') return 'bg-red-50';
+    if (pkg.stage >= warningDays.length && pkg.stage > 0) return 'bg-orange-100';
+    if (pkg.stage > 0) return 'bg-yellow-50';
+    return index % 2 === 0 ? 'bg-blue-50' : 'bg-white';
+  };
+
+  const getStageTextClass = (pkg: PackageReport) => {
+    if (pkg.status === 'Overdue') return 'text-red-700';
+    if (pkg.stage >= warningDays.length && pkg.stage > 0) return 'text-orange-700';
+    if (pkg.stage > 0) return 'text-yellow-700';
+    return 'text-green-700';
+  };
+
+  const occupancyZones = [...new Set(occupancy.map(l => l.zone))].map(zone => {
+    const locations = occupancy.filter(l => l.zone === zone && (l.active || l.occupied > 0));
+    return {
+      zone,
+      locations,
+      occupied: locations.reduce((sum, l) => sum + l.occupied, 0),
+      capacity: locations.filter(l => l.active && !l.blocked).reduce((sum, l) => sum + l.capacity, 0)
+    };
+  }).filter(z => z.locations.length > 0);
+  const fullCount = occupancy.filter(l => locationService.getOccupancyLevel(l.occupied, l.capacity) === 'full').length;
+  const overCount = occupancy.filter(l => locationService.getOccupancyLevel(l.occupied, l.capacity) === 'over').length;
+  const unregisteredLocations = [...new Set(
+    packages
+      .map(p => p.location)
+      .filter(location => location && !locationService.findLocation(occupancy, location))
+  )];
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -150,7 +240,7 @@ export function WarehouseReportTab() {
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-2xl font-bold text-slate-900">Warehouse Report</h2>
-          <p className="text-sm text-slate-600 mt-1">Track packages currently in warehouse (6-week storage limit)</p>
+          <p className="text-sm text-slate-600 mt-1">Track packages currently in warehouse against their storage limits</p>
         </div>
         <div className="flex items-center gap-3">
           <button
@@ -170,7 +260,7 @@ export function WarehouseReportTab() {
         </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <div className="bg-blue-50 rounded-lg p-6 border border-blue-200">
           <div className="flex items-center gap-3 mb-2">
             <Package className="w-6 h-6 text-blue-600" />
@@ -186,7 +276,18 @@ export function WarehouseReportTab() {
             <h3 className="text-sm font-medium text-green-900">Active</h3>
           </div>
           <p className="text-3xl font-bold text-green-700">{activeCount}</p>
-          <p className="text-xs text-green-600 mt-1">Within 6-week limit</p>
+          <p className="text-xs text-green-600 mt-1">Within storage limit</p>
+        </div>
+
+        <div className="bg-orange-50 rounded-lg p-6 border border-orange-200">
+          <div className="flex items-center gap-3 mb-2">
+            <Clock className="w-6 h-6 text-orange-600" />
+            <h3 className="text-sm font-medium text-orange-900">Expiring Soon</h3>
+          </div>
+          <p className="text-3xl font-bold text-orange-700">{expiringCount}</p>
+          <p className="text-xs text-orange-600 mt-1">
+            {warningDays.length > 0 ? `Within ${warningDays[0]} days of limit` : 'No warning thresholds set'}
+          </p>
         </div>
 
         <div className="bg-red-50 rounded-lg p-6 border border-red-200">
@@ -195,148 +296,278 @@ export function WarehouseReportTab() {
             <h3 className="text-sm font-medium text-red-900">Overdue</h3>
           </div>
           <p className="text-3xl font-bold text-red-700">{overdueCount}</p>
-          <p className="text-xs text-red-600 mt-1">Beyond 6-week limit</p>
+          <p className="text-xs text-red-600 mt-1">Beyond storage limit</p>
         </div>
       </div>
 
-      <div className="bg-white rounded-lg border border-slate-200 p-4">
-        <div className="flex flex-wrap items-center gap-4 mb-4">
-          <div className="flex-1 relative">
-            <Search className="w-5 h-5 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
-            <input
-              type="text"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              placeholder="Search by Package ID, Description, or Location..."
-              className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-            />
-          </div>
-          <div className="flex gap-2">
-            <button
-              onClick={() => setStatusFilter('all')}
-              className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                statusFilter === 'all'
-                  ? 'bg-slate-600 text-white'
-                  : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
-              }`}
-            >
-              All ({packages.length})
-            </button>
-            <button
-              onClick={() => setStatusFilter('active')}
-              className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                statusFilter === 'active'
-                  ? 'bg-green-600 text-white'
-                  : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
-              }`}
-            >
-              Active ({activeCount})
-            </button>
-            <button
-              onClick={() => setStatusFilter('overdue')}
-              className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                statusFilter === 'overdue'
-                  ? 'bg-red-600 text-white'
-                  : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
-              }`}
-            >
-              Overdue ({overdueCount})
-            </button>
-          </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => setView('packages')}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors ${
+            view === 'packages' ? 'bg-slate-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+          }`}
+        >
+          <List className="w-4 h-4" />
+          Packages
+        </button>
+        <button
+          onClick={() => setView('occupancy')}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors ${
+            view === 'occupancy' ? 'bg-slate-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+          }`}
+        >
+          <MapPin className="w-4 h-4" />
+          Occupancy
+          {overCount + fullCount > 0 && (
+            <span className={`text-xs px-2 py-0.5 rounded ${overCount > 0 ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'}`}>
+              {overCount + fullCount}
+            </span>
+          )}
+        </button>
+        <button
+          onClick={() => setView('rules')}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors ${
+            view === 'rules' ? 'bg-slate-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+          }`}
+        >
+          <Settings className="w-4 h-4" />
+          Dwell Rules
+        </button>
+        <button
+          onClick={() => setView('digests')}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors ${
+            view === 'digests' ? 'bg-slate-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+          }`}
+        >
+          <Mail className="w-4 h-4" />
+          Daily Digests
+        </button>
+      </div>
+
+      {view === 'rules' && <DwellRulesPanel onChange={loadWarehouseReport} />}
+
+      {view === 'digests' && <StorageDigestPanel />}
+
+      {view === 'occupancy' && (
+        <div className="space-y-4">
+          {unregisteredLocations.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-sm font-semibold text-red-900 flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4" />
+                Packages in unregistered locations
+              </p>
+              <p className="text-sm text-red-800 mt-1">{unregisteredLocations.join(', ')}</p>
+            </div>
+          )}
+
+          {occupancyZones.length === 0 ? (
+            <div className="bg-white rounded-lg border border-slate-200 p-12 text-center text-slate-500">
+              No storage locations registered
+            </div>
+          ) : (
+            occupancyZones.map(({ zone, locations, occupied, capacity }) => (
+              <div key={zone} className="bg-white rounded-lg border border-slate-200 p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="font-semibold text-slate-900">Zone {zone}</h3>
+                  <span className="text-sm text-slate-600">{occupied}/{capacity} packages</span>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3">
+                  {locations.map(location => {
+                    const level = locationService.getOccupancyLevel(location.occupied, location.capacity);
+                    return (
+                      <div
+                        key={location.id}
+                        className={`rounded-lg border-2 p-3 ${location.blocked ? 'bg-slate-100 border-slate-300' : OCCUPANCY_COLORS[level]}`}
+                        title={[location.aisle && `Aisle ${location.aisle}`, location.bay && `Bay ${location.bay}`].filter(Boolean).join(' · ')}
+                      >
+                        <div className="flex items-center justify-between gap-1">
+                          <span className="text-sm font-mono font-semibold text-slate-900 truncate">{location.code}</span>
+                          {location.blocked && (
+                            <span className="text-xs font-medium text-slate-600">Blocked</span>
+                          )}
+                        </div>
+                        <div className="mt-2 h-2 bg-slate-200 rounded">
+                          <div
+                            className={`h-2 rounded ${OCCUPANCY_BAR_COLORS[level]}`}
+                            style={{ width: `${Math.min(100, (location.occupied / location.capacity) * 100)}%` }}
+                          />
+                        </div>
+                        <p className={`text-xs mt-1 ${
+                          level === 'over' ? 'text-red-700 font-semibold' : level === 'full' ? 'text-amber-700 font-semibold' : 'text-slate-600'
+                        }`}>
+                          {location.occupied}/{location.capacity}
+                          {level === 'over' && ' · over capacity'}
+                          {level === 'full' && ' · full'}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))
+          )}
         </div>
+      )}
+
+      {view === 'packages' && (
+        <div className="bg-white rounded-lg border border-slate-200 p-4">
+          <div className="flex flex-wrap items-center gap-4 mb-4">
+            <div className="flex-1 relative">
+              <Search className="w-5 h-5 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search by Package ID, Description, or Location..."
+                className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setStatusFilter('all')}
+                className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                  statusFilter === 'all'
+                    ? 'bg-slate-600 text-white'
+                    : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                }`}
+              >
+                All ({packages.length})
+              </button>
+              <button
+                onClick={() => setStatusFilter('active')}
+                className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                  statusFilter === 'active'
+                    ? 'bg-green-600 text-white'
+                    : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                }`}
+              >
+                Active ({activeCount})
+              </button>
+              <button
+                onClick={() => setStatusFilter('expiring')}
+                className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                  statusFilter === 'expiring'
+                    ? 'bg-orange-600 text-white'
+                    : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                }`}
+              >
+                Expiring ({expiringCount})
+              </button>
+              <button
+                onClick={() => setStatusFilter('overdue')}
+                className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                  statusFilter === 'overdue'
+                    ? 'bg-red-600 text-white'
+                    : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                }`}
+              >
+                Overdue ({overdueCount})
+              </button>
+            </div>
+          </div>
 
-        <div className="overflow-x-auto">
-          <table className="w-full border-collapse">
-            <thead>
-              <tr className="bg-slate-100 border-b-2 border-slate-300">
-                <th className="text-left py-3 px-4 text-sm font-bold text-slate-700 border-r border-slate-300">Package ID</th>
-                <th className="text-left py-3 px-4 text-sm font-bold text-slate-700 border-r border-slate-300">Description</th>
-                <th className="text-left py-3 px-4 text-sm font-bold text-slate-700 border-r border-slate-300">Location</th>
-                <th className="text-left py-3 px-4 text-sm font-bold text-slate-700 border-r border-slate-300">Arrival</th>
-                <th className="text-left py-3 px-4 text-sm font-bold text-slate-700 border-r border-slate-300">Expires</th>
-                <th className="text-right py-3 px-4 text-sm font-bold text-slate-700 border-r border-slate-300">Days Left</th>
-                <th className="text-right py-3 px-4 text-sm font-bold text-slate-700 border-r border-slate-300">Total Days</th>
-                <th className="text-left py-3 px-4 text-sm font-bold text-slate-700 border-r border-slate-300">Status</th>
-                <th className="text-left py-3 px-4 text-sm font-bold text-slate-700">Notes</th>
-              </tr>
-            </thead>
-            <tbody>
-              {filteredPackages.length === 0 ? (
-                <tr>
-                  <td colSpan={9} className="text-center py-12 text-slate-500">
-                    {searchQuery || statusFilter !== 'all' ? 'No packages match your filters' : 'No packages in warehouse'}
-                  </td>
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-slate-100 border-b-2 border-slate-300">
+                  <th className="text-left py-3 px-4 text-sm font-bold text-slate-700 border-r border-slate-300">Package ID</th>
+                  <th className="text-left py-3 px-4 text-sm font-bold text-slate-700 border-r border-slate-300">Description</th>
+                  <th className="text-left py-3 px-4 text-sm font-bold text-slate-700 border-r border-slate-300">Location</th>
+                  <th className="text-left py-3 px-4 text-sm font-bold text-slate-700 border-r border-slate-300">Arrival</th>
+                  <th className="text-left py-3 px-4 text-sm font-bold text-slate-700 border-r border-slate-300">Expires</th>
+                  <th className="text-right py-3 px-4 text-sm font-bold text-slate-700 border-r border-slate-300">Days Left</th>
+                  <th className="text-right py-3 px-4 text-sm font-bold text-slate-700 border-r border-slate-300">Total Days</th>
+                  <th className="text-left py-3 px-4 text-sm font-bold text-slate-700 border-r border-slate-300">Limit</th>
+                  <th className="text-left py-3 px-4 text-sm font-bold text-slate-700 border-r border-slate-300">Status</th>
+                  <th className="text-left py-3 px-4 text-sm font-bold text-slate-700">Notes</th>
                 </tr>
-              ) : (
-                filteredPackages.map((pkg, index) => (
-                  <tr
-                    key={pkg.package_id + index}
-                    className={`border-b border-slate-200 hover:bg-slate-50 ${
-                      pkg.status === 'Overdue' ? 'bg-red-50' : index % 2 === 0 ? 'bg-blue-50' : 'bg-white'
-                    }`}
-                  >
-                    <td className="py-3 px-4 text-sm font-mono text-slate-900 border-r border-slate-200">
-                      {pkg.package_id}
-                    </td>
-                    <td className="py-3 px-4 text-sm text-slate-700 border-r border-slate-200">
-                      {pkg.description || '-'}
-                    </td>
-                    <td className="py-3 px-4 text-sm text-slate-700 border-r border-slate-200">
-                      {pkg.location || '-'}
-                    </td>
-                    <td className="py-3 px-4 text-sm text-slate-700 border-r border-slate-200">
-                      {pkg.arrival}
-                    </td>
-                    <td className="py-3 px-4 text-sm text-slate-700 border-r border-slate-200">
-                      {pkg.expires}
-                    </td>
-                    <td className={`py-3 px-4 text-sm text-right font-semibold border-r border-slate-200 ${
-                      pkg.days_left < 0 ? 'text-red-700' : pkg.days_left <= 7 ? 'text-orange-700' : 'text-green-700'
-                    }`}>
-                      {pkg.days_left}
-                    </td>
-                    <td className="py-3 px-4 text-sm text-right text-slate-700 border-r border-slate-200">
-                      {pkg.total_days}
-                    </td>
-                    <td className="py-3 px-4 border-r border-slate-200">
-                      <span className={`text-sm font-semibold px-3 py-1 rounded ${
-                        pkg.status === 'Overdue'
-                          ? 'bg-red-100 text-red-800'
-                          : 'bg-green-100 text-green-800'
-                      }`}>
-                        {pkg.status}
-                      </span>
-                    </td>
-                    <td className="py-3 px-4 text-sm text-slate-600 max-w-xs truncate">
-                      {pkg.notes || '-'}
+              </thead>
+              <tbody>
+                {filteredPackages.length === 0 ? (
+                  <tr>
+                    <td colSpan={10} className="text-center py-12 text-slate-500">
+                      {searchQuery || statusFilter !== 'all' ? 'No packages match your filters' : 'No packages in warehouse'}
                     </td>
                   </tr>
-                ))
-              )}
-            </tbody>
-          </table>
-        </div>
+                ) : (
+                  filteredPackages.map((pkg, index) => (
+                    <tr
+                      key={pkg.package_id + index}
+                      className={`border-b border-slate-200 hover:bg-slate-50 ${getStageRowClass(pkg, index)}`}
+                    >
+                      <td className="py-3 px-4 text-sm font-mono text-slate-900 border-r border-slate-200">
+                        {pkg.package_id}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-slate-700 border-r border-slate-200">
+                        {pkg.description || '-'}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-slate-700 border-r border-slate-200">
+                        {pkg.location || '-'}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-slate-700 border-r border-slate-200">
+                        {pkg.arrival}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-slate-700 border-r border-slate-200">
+                        {pkg.expires}
+                      </td>
+                      <td className={`py-3 px-4 text-sm text-right font-semibold border-r border-slate-200 ${getStageTextClass(pkg)}`}>
+                        {pkg.days_left}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-right text-slate-700 border-r border-slate-200">
+                        {pkg.total_days}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-slate-700 border-r border-slate-200 whitespace-nowrap">
+                        {pkg.limit_days}d
+                        <span className="ml-1 text-xs text-slate-500">({DWELL_LIMIT_SOURCE_LABELS[pkg.limit_source]})</span>
+                      </td>
+                      <td className="py-3 px-4 border-r border-slate-200">
+                        <span className={`text-sm font-semibold px-3 py-1 rounded whitespace-nowrap ${
+                          pkg.status === 'Overdue'
+                            ? 'bg-red-100 text-red-800'
+                            : pkg.status === 'Expiring'
+                              ? 'bg-orange-100 text-orange-800'
+                              : 'bg-green-100 text-green-800'
+                        }`}>
+                          {pkg.status === 'Expiring' && pkg.warning_days !== null
+                            ? `≤ ${pkg.warning_days}d left`
+                            : pkg.status}
+                        </span>
+                      </td>
+                      <td className="py-3 px-4 text-sm text-slate-600 max-w-xs truncate">
+                        {pkg.notes || '-'}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
 
-        {filteredPackages.length > 0 && (
-          <div className="mt-4 pt-4 border-t border-slate-200">
-            <div className="flex items-center justify-between text-sm text-slate-600">
-              <div>
-                Showing <strong>{filteredPackages.length}</strong> of <strong>{packages.length}</strong> packages
-              </div>
-              <div className="flex items-center gap-6">
-                <div className="flex items-center gap-2">
-                  <div className="w-4 h-4 bg-green-100 border border-green-300 rounded"></div>
-                  <span>Active</span>
+          {filteredPackages.length > 0 && (
+            <div className="mt-4 pt-4 border-t border-slate-200">
+              <div className="flex items-center justify-between text-sm text-slate-600">
+                <div>
+                  Showing <strong>{filteredPackages.length}</strong> of <strong>{packages.length}</strong> packages
                 </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-4 h-4 bg-red-100 border border-red-300 rounded"></div>
-                  <span>Overdue</span>
+                <div className="flex items-center gap-6">
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 bg-green-100 border border-green-300 rounded"></div>
+                    <span>Active</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 bg-orange-100 border border-orange-300 rounded"></div>
+                    <span>Expiring</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 bg-red-100 border border-red-300 rounded"></div>
+                    <span>Overdue</span>
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
-        )}
-      </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,171 @@
+import { useState, useEffect } from 'react';
+import { X, Loader2, Timer, Play, Pause, User } from 'lucide-react';
+import { Shipment, ShipmentWorkSession } from '../lib/supabase';
+import { workSessionService } from '../services/workSessionService';
+import { formatWarehouseDate } from '../utils/dateTime';
+
+type WorkSessionsModalProps = {
+  shipment: Shipment;
+  operators: Array<{ id: string; name: string }>;
+  onClose: () => void;
+  onChanged: () => void;
+};
+
+const END_REASON_LABELS: Record<NonNullable<ShipmentWorkSession['end_reason']>, string> = {
+  paused: 'Paused',
+  completed: 'Completed',
+  unassigned: 'Unassigned'
+};
+
+export function WorkSessionsModal({ shipment, operators, onClose, onChanged }: WorkSessionsModalProps) {
+  const [sessions, setSessions] = useState<ShipmentWorkSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyOperatorId, setBusyOperatorId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    loadSessions(shipment.id);
+  }, [shipment.id]);
+
+  // Keep running timers current while the modal is open
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const loadSessions = async (shipmentId: string) => {
+    setLoading(true);
+    setSessions(await workSessionService.getSessions(shipmentId));
+    setNow(new Date());
+    setLoading(false);
+  };
+
+  const assignedOperators = (shipment.assigned_operators || [])
+    .map(name => operators.find(op => op.name === name))
+    .filter((op): op is { id: string; name: string } => !!op);
+  const states = workSessionService.getOperatorStates(assignedOperators, sessions, now);
+  const operatorNames = new Map(operators.map(op => [op.id, op.name]));
+  const isCompleted = shipment.status === 'completed';
+
+  const toggleOperator = async (operatorId: string, working: boolean) => {
+    setBusyOperatorId(operatorId);
+    setError(null);
+
+    const result = working
+      ? await workSessionService.pauseSession(shipment.id, operatorId)
+      : await workSessionService.startSession(shipment.id, operatorId);
+
+    if (result.success) {
+      await loadSessions(shipment.id);
+      onChanged();
+    } else {
+      setError(result.error || 'Failed to update work session');
+    }
+    setBusyOperatorId(null);
+  };
+
+  const formatDateTime = (value: string) =>
+    formatWarehouseDate(value, { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+            <Timer className="w-5 h-5 text-blue-600" />
+            Work Time: {shipment.title}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-6">
+          {error && (
+            <div className="p-3 rounded-lg bg-red-50 text-red-800 text-sm">{error}</div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8 text-slate-500">
+              <Loader2 className="w-5 h-5 animate-spin mr-2" />
+              Loading work sessions...
+            </div>
+          ) : (
+            <>
+              <div>
+                <h3 className="text-sm font-semibold text-slate-700 mb-2">Operators</h3>
+                {states.length === 0 ? (
+                  <p className="text-sm text-slate-500">Assign operators to the task to track their work time.</p>
+                ) : (
+                  <ul className="divide-y divide-slate-200 border border-slate-200 rounded-lg">
+                    {states.map(state => {
+                      const working = !!state.openSession;
+                      return (
+                        <li key={state.operatorId} className="px-4 py-3 flex items-center justify-between gap-4">
+                          <div>
+                            <p className="text-sm font-medium text-slate-900">{state.operatorName}</p>
+                            <p className="text-xs text-slate-500">
+                              {working
+                                ? `Working since ${formatDateTime(state.openSession!.started_at)}`
+                                : state.sessionCount > 0 ? 'Paused' : 'Not started'}
+                              {state.sessionCount > 0 && ` · ${workSessionService.formatDuration(state.workedMs)} worked`}
+                            </p>
+                          </div>
+                          {!isCompleted && (
+                            <button
+                              onClick={() => toggleOperator(state.operatorId, working)}
+                              disabled={busyOperatorId !== null}
+                              className={`flex items-center gap-1 px-3 py-1 text-sm rounded disabled:opacity-50 ${
+                                working ? 'text-amber-700 hover:bg-amber-50' : 'text-blue-600 hover:bg-blue-50'
+                              }`}
+                            >
+                              {working ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                              {working ? 'Pause' : state.sessionCount > 0 ? 'Resume' : 'Start'}
+                            </button>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold text-slate-700 mb-2">Sessions</h3>
+                {sessions.length === 0 ? (
+                  <p className="text-sm text-slate-500">
+                    No work recorded yet. Sessions start when the task is started and end when it is paused or completed.
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-slate-200">
+                    {sessions.map(session => (
+                      <li key={session.id} className="py-2 flex items-center justify-between gap-4 text-sm">
+                        <span className="flex items-center gap-1 text-slate-900">
+                          <User className="w-3 h-3 text-slate-400" />
+                          {operatorNames.get(session.operator_id) || 'Unknown operator'}
+                        </span>
+                        <span className="text-slate-600">
+                          {formatDateTime(session.started_at)} – {session.ended_at ? formatDateTime(session.ended_at) : 'now'}
+                        </span>
+                        <span className="text-slate-900 font-medium">
+                          {workSessionService.formatDuration(workSessionService.getSessionMs(session, now))}
+                        </span>
+                        <span className="text-xs text-slate-500 w-20 text-right">
+                          {session.end_reason ? END_REASON_LABELS[session.end_reason] : 'Running'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
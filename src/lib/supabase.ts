@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import type { PackageStatus } from '../../supabase/functions/_shared/packageLifecycle.ts';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -45,6 +46,44 @@ export type Shipment = {
   created_by_email?: string;
   updated_by_email?: string;
   completed_by_email?: string;
+  dock_door_id?: string | null;
+  slot_start?: string | null;
+  slot_end?: string | null;
+  import_batch_id?: string | null;
+};
+
+export type DockDoor = {
+  id: string;
+  name: string;
+  slot_minutes: number;
+  daily_capacity_points: number;
+  open_time: string;
+  close_time: string;
+  active: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+};
+
+export type StorageLocation = {
+  id: string;
+  code: string;
+  zone: string;
+  aisle: string;
+  bay: string;
+  capacity: number;
+  blocked: boolean;
+  active: boolean;
+  notes: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type StorageLocationOccupancy = Pick<
+  StorageLocation,
+  'id' | 'code' | 'zone' | 'aisle' | 'bay' | 'capacity' | 'blocked' | 'active'
+> & {
+  occupied: number;
 };
 
 export type Operator = {
@@ -55,6 +94,18 @@ export type Operator = {
   created_at: string;
 };
 
+export type ShipmentWorkSession = {
+  id: string;
+  shipment_id: string;
+  operator_id: string;
+  started_at: string;
+  ended_at: string | null;
+  end_reason: 'paused' | 'completed' | 'unassigned' | null;
+  started_by: string | null;
+  ended_by: string | null;
+  created_at: string;
+};
+
 export type AppSetting = {
   id: string;
   key: string;
@@ -68,7 +119,10 @@ export type Package = {
   shipment_id: string;
   sscc_number: string;
   storage_location: string;
-  status: 'pending' | 'stored' | 'completed';
+  status: PackageStatus;
+  has_deviation?: boolean;
+  dwell_limit_days?: number | null;
+  import_batch_id?: string | null;
   created_at: string;
   updated_at: string;
 };
@@ -169,6 +169,15 @@ export class AudioNotificationService {
     }
   }
 
+  /** Scanner feedback. Never throws, so a blocked or missing AudioContext can't stop a scan. */
+  async playScanFeedback(success: boolean) {
+    try {
+      await this.playSound(success ? 'beep-single' : 'alert-critical');
+    } catch (error) {
+      console.warn('Scan feedback sound unavailable:', error);
+    }
+  }
+
   private playSoundInternal(soundType: SoundType) {
     switch (soundType) {
       case 'chime-soft':
@@ -1,4 +1,6 @@
 import { supabase } from '../lib/supabase';
+import { toCsvCell } from '../utils/csv';
+import { addWarehouseDays, toWarehouseDateKey } from '../utils/dateTime';
 
 export type AuditActionType =
   | 'created'
@@ -8,7 +10,8 @@ export type AuditActionType =
   | 'deleted'
   | 'archived'
   | 'operator_assigned'
-  | 'operator_removed';
+  | 'operator_removed'
+  | 'reverted';
 
 export interface AuditLogEntry {
   id: string;
@@ -24,6 +27,177 @@ export interface AuditLogEntry {
   shipment_row_id?: number;
 }
 
+export type AuditEntityType =
+  | 'shipments'
+  | 'packages'
+  | 'package_deviations'
+  | 'operators'
+  | 'task_categories'
+  | 'announcements'
+  | 'app_settings'
+  | 'user_profiles'
+  | 'notification_settings';
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  shipments: 'Shipment',
+  packages: 'Package',
+  package_deviations: 'Deviation',
+  operators: 'Operator',
+  task_categories: 'Category',
+  announcements: 'Announcement',
+  app_settings: 'Setting',
+  user_profiles: 'User',
+  notification_settings: 'Notification Setting'
+};
+
+/** One entry of the combined audit trail (entity, shipment and deviation logs). */
+export interface AuditTrailEntry {
+  id: string;
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  entity_label: string;
+  action: string;
+  actor_id: string | null;
+  actor_email: string;
+  changed_at: string;
+  old_data: Record<string, unknown> | null;
+  new_data: Record<string, unknown> | null;
+  /** Field-level diff; empty for shipment and deviation entries. */
+  changes: Record<string, { old: unknown; new: unknown }>;
+  summary: string;
+}
+
+export interface AuditTrailFilters {
+  /** ISO timestamps; `to` is exclusive. */
+  from?: string | null;
+  to?: string | null;
+  entityType?: AuditEntityType | 'all';
+  /** A user id, 'system' for changes without a signed-in user, or 'all'. */
+  actorId?: string;
+  action?: string;
+  /** Shipment or package id, entity label or SSCC. */
+  reference?: string;
+  /** Full-text search over labels, summaries, users and row data. */
+  query?: string;
+}
+
+/** Position after the last entry of a page; entries are ordered by changed_at, id descending. */
+export interface AuditTrailCursor {
+  changedAt: string;
+  id: string;
+}
+
+export interface AuditTrailPage {
+  entries: AuditTrailEntry[];
+  nextCursor: AuditTrailCursor | null;
+}
+
+export interface AuditReport {
+  id: string;
+  period_from: string;
+  period_to: string;
+  generated_by: string | null;
+  generated_at: string;
+  entry_count: number;
+  content_sha256: string;
+  signature: string;
+  key_id: string;
+}
+
+export interface AuditReportVerification {
+  report: AuditReport;
+  /** The signature stored for the report still matches its metadata. */
+  signatureValid: boolean;
+  /** The file's report header is the one that was issued. */
+  headerMatches: boolean;
+  /** The file's entries hash to the signed value. */
+  contentMatches: boolean;
+  /** The audit trail for the period still hashes to the signed value. */
+  logUnchanged: boolean;
+}
+
+/** What reverting a shipment to the version after an audit entry would change. */
+export interface ShipmentRevertPlan {
+  shipment_id: string;
+  shipment_title: string;
+  entry: {
+    id: string;
+    action_type: AuditActionType;
+    action_timestamp: string;
+    changes_summary: string | null;
+  };
+  /** False when the log doesn't reach back to creation; unlogged fields keep their values. */
+  complete_history: boolean;
+  field_changes: { field: string; current: unknown; reverted: unknown }[];
+  packages_to_add: string[];
+  packages_to_remove: { id: string; sscc_number: string; status: string }[];
+  /** Deviations deleted together with the removed packages. */
+  deviations_removed: { id: string; sscc_number: string; deviation_type: string; status: string }[];
+  open_deviations: number;
+  /** `value` is the entry as stored in `assigned_operators`. */
+  operators_added: { value: string; name: string }[];
+  operators_removed: { value: string; name: string }[];
+  current: Record<string, unknown>;
+  reverted: Record<string, unknown>;
+}
+
+/** Audit tables protected by a hash chain, see `verify_audit_chain`. */
+export type AuditChainTable = 'shipment_audit_log' | 'deviation_history';
+
+export const AUDIT_CHAIN_TABLES: Record<AuditChainTable, string> = {
+  shipment_audit_log: 'Shipment audit log',
+  deviation_history: 'Deviation history'
+};
+
+export type AuditChainBreakReason = 'hash_mismatch' | 'prev_hash_mismatch' | 'sequence_gap' | 'unchained';
+
+export const AUDIT_CHAIN_BREAK_LABELS: Record<AuditChainBreakReason, string> = {
+  hash_mismatch: 'Entry content was changed',
+  prev_hash_mismatch: 'Link to the previous entry was changed',
+  sequence_gap: 'Entries before this one were removed',
+  unchained: 'Entry was added outside the chain'
+};
+
+export interface AuditChainVerification {
+  table: AuditChainTable;
+  checked: number;
+  valid: boolean;
+  /** First entry whose link doesn't verify; every later link is untrusted as well. */
+  first_break: {
+    seq: number | null;
+    id: string;
+    reason: AuditChainBreakReason;
+    at: string;
+  } | null;
+}
+
+const AUDIT_REPORT_FORMAT = 'delivery-system-audit-report';
+const EXPORT_PAGE_SIZE = 1000;
+
+const AUDIT_CSV_COLUMNS: { header: string; value: (entry: AuditTrailEntry) => unknown }[] = [
+  { header: 'Timestamp', value: entry => entry.changed_at },
+  { header: 'Entity', value: entry => AUDIT_ENTITY_LABELS[entry.entity_type] || entry.entity_type },
+  { header: 'Entity ID', value: entry => entry.entity_id },
+  { header: 'Label', value: entry => entry.entity_label },
+  { header: 'Action', value: entry => entry.action },
+  { header: 'User', value: entry => entry.actor_email || (entry.actor_id ? 'Unknown user' : 'System') },
+  { header: 'User ID', value: entry => entry.actor_id },
+  { header: 'Summary', value: entry => entry.summary },
+  { header: 'Changes', value: entry => Object.keys(entry.changes || {}).length > 0 ? entry.changes : null },
+  { header: 'Previous Data', value: entry => entry.old_data },
+  { header: 'New Data', value: entry => entry.new_data },
+  { header: 'Entry ID', value: entry => entry.id }
+];
+
+const csvValue = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  return toCsvCell(typeof value === 'object' ? JSON.stringify(value) : String(value));
+};
+
+/** Report files are `{"report":…,"entries":…}` with the entries kept byte-for-byte as hashed. */
+const reportFilePrefix = (report: AuditReport & { format: string }) =>
+  `{"report":${JSON.stringify(report)},"entries":`;
+
 export class AuditService {
   async logShipmentChange(
     shipmentId: string,
@@ -199,6 +373,136 @@ export class AuditService {
     }
   }
 
+  /** One page of the audit trail with every filter applied in the database. */
+  async searchAuditTrail(
+    filters: AuditTrailFilters = {},
+    cursor: AuditTrailCursor | null = null,
+    pageSize: number = 100
+  ): Promise<AuditTrailPage> {
+    try {
+      return await this.fetchAuditPage(filters, cursor, pageSize);
+    } catch (err) {
+      console.error('Failed to search audit trail:', err);
+      return { entries: [], nextCursor: null };
+    }
+  }
+
+  /** Downloads every entry matching the filters as CSV, not just the loaded pages. */
+  async exportCsv(filters: AuditTrailFilters): Promise<{ success: boolean; count?: number; error?: string }> {
+    try {
+      const rows = [AUDIT_CSV_COLUMNS.map(column => column.header).join(',')];
+      let cursor: AuditTrailCursor | null = null;
+
+      do {
+        const page: AuditTrailPage = await this.fetchAuditPage(filters, cursor, EXPORT_PAGE_SIZE);
+        rows.push(...page.entries.map(entry => AUDIT_CSV_COLUMNS.map(column => csvValue(column.value(entry))).join(',')));
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      const blob = new Blob([rows.join('\n')], { type: 'text/csv;charset=utf-8;' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `audit-log-${new Date().toISOString().replace(/:/g, '-').split('.')[0]}.csv`;
+      a.click();
+      URL.revokeObjectURL(url);
+
+      return { success: true, count: rows.length - 1 };
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Signs every audit entry in [from, to) on the server and downloads the report.
+   * The signing key stays in the database; auditors check the file with `verifyReport`.
+   */
+  async createReport(from: string, to: string): Promise<{ success: boolean; report?: AuditReport; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('create_audit_report', { p_from: from, p_to: to });
+
+      if (error) throw error;
+
+      const { report, content } = data as { report: AuditReport; content: string };
+      const header = { format: AUDIT_REPORT_FORMAT, ...report };
+
+      const lastDay = addWarehouseDays(new Date(report.period_to), -1);
+
+      const blob = new Blob([`${reportFilePrefix(header)}${content}}`], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `audit-report-${toWarehouseDateKey(new Date(report.period_from))}-to-${toWarehouseDateKey(lastDay)}-${report.id.slice(0, 8)}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+
+      return { success: true, report };
+    } catch (error) {
+      console.error('Error creating audit report:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  async verifyReport(file: File): Promise<AuditReportVerification> {
+    const text = await file.text();
+
+    let header: AuditReport & { format: string };
+    try {
+      header = JSON.parse(text).report;
+    } catch {
+      throw new Error('Not a valid audit report file');
+    }
+
+    if (header?.format !== AUDIT_REPORT_FORMAT || !header.id) {
+      throw new Error('Not a valid audit report file');
+    }
+
+    const prefix = reportFilePrefix(header);
+    if (!text.startsWith(prefix) || !text.endsWith('}')) {
+      throw new Error('The report file has been reformatted; verify the original download');
+    }
+
+    const { data, error } = await supabase.rpc('verify_audit_report', {
+      p_report_id: header.id,
+      p_content: text.slice(prefix.length, -1)
+    });
+
+    if (error) throw error;
+    if (!data?.found) {
+      throw new Error('This report was not issued by this system');
+    }
+
+    const report = data.report as AuditReport;
+
+    return {
+      report,
+      signatureValid: data.signature_valid,
+      headerMatches: header.signature === report.signature &&
+        header.content_sha256 === report.content_sha256 &&
+        header.entry_count === report.entry_count &&
+        new Date(header.period_from).getTime() === new Date(report.period_from).getTime() &&
+        new Date(header.period_to).getTime() === new Date(report.period_to).getTime(),
+      contentMatches: data.content_matches,
+      logUnchanged: data.log_unchanged
+    };
+  }
+
+  /** Users that can appear as actors, for the actor filter. */
+  async getAuditActors(): Promise<{ id: string; email: string }[]> {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('id, email')
+      .order('email');
+
+    if (error) {
+      console.error('Error fetching audit actors:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
   async getUserActivity(userId: string, limit: number = 50): Promise<AuditLogEntry[]> {
     try {
       const { data, error } = await supabase
@@ -220,6 +524,78 @@ export class AuditService {
     }
   }
 
+  async previewShipmentRevert(auditEntryId: string): Promise<{ success: boolean; plan?: ShipmentRevertPlan; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('preview_shipment_revert', { p_audit_id: auditEntryId });
+      if (error) throw error;
+
+      return { success: true, plan: data };
+    } catch (error) {
+      console.error('Error previewing shipment revert:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /** Reverts the shipment to the version after the entry; the server logs a `reverted` entry. */
+  async revertShipment(auditEntryId: string): Promise<{ success: boolean; plan?: ShipmentRevertPlan; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('revert_shipment', { p_audit_id: auditEntryId });
+      if (error) throw error;
+
+      return { success: true, plan: data };
+    } catch (error) {
+      console.error('Error reverting shipment:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /** Recomputes the hash chain of each protected audit table on the server. */
+  async verifyChains(): Promise<{ success: boolean; results?: AuditChainVerification[]; error?: string }> {
+    try {
+      const results: AuditChainVerification[] = [];
+
+      for (const table of Object.keys(AUDIT_CHAIN_TABLES) as AuditChainTable[]) {
+        const { data, error } = await supabase.rpc('verify_audit_chain', { p_table: table });
+        if (error) throw error;
+        results.push(data);
+      }
+
+      return { success: true, results };
+    } catch (error) {
+      console.error('Error verifying audit chain:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  private async fetchAuditPage(
+    filters: AuditTrailFilters,
+    cursor: AuditTrailCursor | null,
+    pageSize: number
+  ): Promise<AuditTrailPage> {
+    const { data, error } = await supabase.rpc('search_audit_trail', {
+      p_from: filters.from || null,
+      p_to: filters.to || null,
+      p_entity_type: filters.entityType && filters.entityType !== 'all' ? filters.entityType : null,
+      p_actor: filters.actorId && filters.actorId !== 'all' ? filters.actorId : null,
+      p_action: filters.action && filters.action !== 'all' ? filters.action : null,
+      p_reference: filters.reference?.trim() || null,
+      p_query: filters.query?.trim() || null,
+      p_cursor_at: cursor?.changedAt ?? null,
+      p_cursor_id: cursor?.id ?? null,
+      p_limit: pageSize
+    });
+
+    if (error) throw error;
+
+    const entries: AuditTrailEntry[] = data || [];
+    const last = entries[entries.length - 1];
+
+    return {
+      entries,
+      nextCursor: entries.length === pageSize && last ? { changedAt: last.changed_at, id: last.id } : null
+    };
+  }
+
   generateChangesSummary(previousData: any, newData: any): string[] {
     const changes: string[] = [];
 
@@ -251,6 +627,11 @@ export class AuditService {
       changes.push(`packages`);
     }
 
+    if ((previousData.dock_door_id ?? null) !== (newData.dock_door_id ?? null) ||
+        (previousData.slot_start ?? null) !== (newData.slot_start ?? null)) {
+      changes.push(`dock slot`);
+    }
+
     return changes;
   }
 }
@@ -0,0 +1,772 @@
+import { supabase } from '../lib/supabase';
+import { locationService } from './locationService';
+import {
+  BACKUP_FORMAT_VERSION,
+  BACKUP_TABLES,
+  readBackup,
+  writeBackup,
+  type BackupManifest,
+  type BackupRow
+} from '../../supabase/functions/_shared/backupFormat.ts';
+
+import {
+  BACKUP_BUCKET,
+  BACKUP_RETENTION_DAILY_SETTING_KEY,
+  BACKUP_RETENTION_MONTHLY_SETTING_KEY,
+  BACKUP_RETENTION_WEEKLY_SETTING_KEY,
+  buildRetentionPolicy,
+  type BackupRetentionPolicy,
+  type BackupRetentionReason
+} from '../../supabase/functions/_shared/backupRetention.ts';
+
+export type { BackupManifest, BackupRow, BackupRetentionPolicy, BackupRetentionReason };
+export { BACKUP_FORMAT_VERSION, BACKUP_TABLES };
+
+export type RestorableTable =
+  | 'import_batches'
+  | 'operators'
+  | 'task_categories'
+  | 'work_shifts'
+  | 'kpi_weight_sets'
+  | 'shipments'
+  | 'packages'
+  | 'package_status_history'
+  | 'package_deviations'
+  | 'shipment_work_sessions'
+  | 'announcements'
+  | 'notification_settings';
+
+/** Restorable tables in dependency order, parents first. */
+export const RESTORABLE_TABLES: {
+  table: RestorableTable;
+  label: string;
+  /** Columns shown to identify a row in the diff. */
+  labelColumns: string[];
+  /** Unique columns besides `id` that a restored row must not collide on. */
+  uniqueColumns: string[];
+  /** Timestamp the date range applies to; `created_at` when not set. */
+  dateColumn?: string;
+}[] = [
+  { table: 'import_batches', label: 'Import Batches', labelColumns: ['source_name', 'import_type'], uniqueColumns: [] },
+  { table: 'operators', label: 'Operators', labelColumns: ['name'], uniqueColumns: ['name'] },
+  { table: 'task_categories', label: 'Task Categories', labelColumns: ['name'], uniqueColumns: ['name'] },
+  { table: 'work_shifts', label: 'Work Shifts', labelColumns: ['name'], uniqueColumns: ['name'] },
+  { table: 'kpi_weight_sets', label: 'KPI Weight Sets', labelColumns: ['version', 'name'], uniqueColumns: ['version'] },
+  { table: 'shipments', label: 'Shipments', labelColumns: ['row_id', 'title'], uniqueColumns: ['row_id'] },
+  { table: 'packages', label: 'Packages', labelColumns: ['sscc_number', 'status'], uniqueColumns: [] },
+  {
+    table: 'package_status_history',
+    label: 'Package Status History',
+    labelColumns: ['from_status', 'to_status', 'changed_at'],
+    uniqueColumns: [],
+    dateColumn: 'changed_at'
+  },
+  { table: 'package_deviations', label: 'Package Deviations', labelColumns: ['deviation_type', 'status'], uniqueColumns: [] },
+  { table: 'shipment_work_sessions', label: 'Work Sessions', labelColumns: ['started_at', 'end_reason'], uniqueColumns: [] },
+  { table: 'announcements', label: 'Announcements', labelColumns: ['title'], uniqueColumns: [] },
+  { table: 'notification_settings', label: 'Notification Settings', labelColumns: ['setting_key'], uniqueColumns: ['setting_key'] }
+];
+
+/**
+ * Backed-up tables the wizard can't restore. The audit logs are append-only
+ * (shipment and deviation history are also hash-chained); the other tables
+ * are kept in the backup for reference.
+ */
+export const BACKUP_ONLY_TABLES = BACKUP_TABLES.filter(
+  table => !RESTORABLE_TABLES.some(config => config.table === table)
+);
+
+/** Foreign keys checked against the rows each side will hold after the restore. */
+const RESTORE_REFERENCES: { table: RestorableTable; column: string; parent: RestorableTable }[] = [
+  { table: 'package_status_history', column: 'package_id', parent: 'packages' },
+  { table: 'package_status_history', column: 'shipment_id', parent: 'shipments' },
+  { table: 'package_deviations', column: 'package_id', parent: 'packages' },
+  { table: 'package_deviations', column: 'shipment_id', parent: 'shipments' },
+  { table: 'shipment_work_sessions', column: 'shipment_id', parent: 'shipments' },
+  { table: 'shipment_work_sessions', column: 'operator_id', parent: 'operators' }
+];
+
+export interface BackupContents {
+  createdAt: string;
+  sourceName: string;
+  tables: Record<string, BackupRow[]>;
+  /** Format version the file was written in. */
+  formatVersion: number;
+  notes: string[];
+}
+
+/** Rows outside the range are left alone on both sides; null bounds are open. */
+export interface RestoreScope {
+  tables: RestorableTable[];
+  from: Date | null;
+  to: Date | null;
+}
+
+export interface RowChange {
+  before: BackupRow;
+  after: BackupRow;
+  columns: string[];
+}
+
+export interface TableRestorePlan {
+  table: RestorableTable;
+  added: BackupRow[];
+  changed: RowChange[];
+  removed: BackupRow[];
+  unchanged: number;
+  /** Problems that make this table impossible to restore. */
+  errors: string[];
+  warnings: string[];
+}
+
+export type StoredBackupStatus = 'running' | 'completed' | 'failed' | 'expired';
+
+/** A backup archive written to the backups bucket by the scheduled-backup function. */
+export interface StoredBackup {
+  id: string;
+  created_at: string;
+  completed_at: string | null;
+  trigger: 'scheduled' | 'manual';
+  status: StoredBackupStatus;
+  file_path: string;
+  size_bytes: number;
+  format_version: number | null;
+  row_counts: Record<string, number>;
+  retained_as: BackupRetentionReason[];
+  error: string;
+  expired_at: string | null;
+}
+
+type BackupFunctionResult = {
+  success: boolean;
+  error?: string;
+  backup?: { id: string; filePath: string; sizeBytes: number } | null;
+  expired?: number;
+};
+
+export interface BackupSnapshot {
+  id: string;
+  created_at: string;
+  created_by: string | null;
+  reason: string;
+  source_name: string;
+  tables: RestorableTable[];
+  row_counts: Record<string, number>;
+  undone_at: string | null;
+  /** Only snapshots taken by a restore record what to revert. */
+  undoable: boolean;
+}
+
+type ColumnInfo = {
+  table_name: string;
+  column_name: string;
+  data_type: string;
+  is_nullable: boolean;
+  has_default: boolean;
+};
+
+const PAGE_SIZE = 1000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}(:?\d{2})?)?)?$/;
+
+function matchesType(value: unknown, dataType: string): boolean {
+  if (value === null) return true;
+
+  switch (dataType) {
+    case 'uuid':
+      return typeof value === 'string' && UUID_PATTERN.test(value);
+    case 'integer':
+    case 'bigint':
+    case 'smallint':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'numeric':
+    case 'real':
+    case 'double precision':
+      return typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)));
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'date':
+    case 'timestamp with time zone':
+    case 'timestamp without time zone':
+      return typeof value === 'string' && ISO_DATE_PATTERN.test(value) && !isNaN(new Date(value).getTime());
+    case 'ARRAY':
+      return Array.isArray(value);
+    case 'text':
+    case 'character varying':
+      return typeof value === 'string';
+    default:
+      return true;
+  }
+}
+
+/** Compares values the way Postgres would, so "…+00:00" and "…Z" timestamps are equal. */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || a === undefined || b === null || b === undefined) return a == b;
+
+  if (typeof a === 'string' && typeof b === 'string' && ISO_DATE_PATTERN.test(a) && ISO_DATE_PATTERN.test(b)) {
+    return new Date(a).getTime() === new Date(b).getTime();
+  }
+
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function inRange(row: BackupRow, scope: RestoreScope, dateColumn = 'created_at'): boolean {
+  if (!scope.from && !scope.to) return true;
+
+  const value = row[dateColumn];
+  const date = typeof value === 'string' ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) return false;
+
+  return (!scope.from || date >= scope.from) && (!scope.to || date <= scope.to);
+}
+
+class BackupService {
+  /**
+   * Exports all tables into a backup archive and downloads it. Tables are
+   * read in pages, so their size is not capped.
+   */
+  async createBackup(
+    onProgress?: (table: string, rows: number) => void
+  ): Promise<{ success: boolean; manifest?: BackupManifest; error?: string }> {
+    try {
+      const { archive, manifest } = writeBackup(async (table, afterId, limit) => {
+        let query = supabase.from(table).select('*').order('id').limit(limit);
+        if (afterId) {
+          query = query.gt('id', afterId);
+        }
+
+        const { data, error } = await query;
+        if (error) throw new Error(`${table}: ${error.message}`);
+
+        return (data || []) as BackupRow[];
+      }, onProgress);
+
+      const blob = await new Response(archive, { headers: { 'Content-Type': 'application/zip' } }).blob();
+      const timestamp = manifest.created_at.replace(/:/g, '-').split('.')[0];
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `delivery-system-backup-${timestamp}.zip`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      return { success: true, manifest };
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Reads a backup archive or an older JSON backup, verifying checksums and
+   * upgrading it to the current format.
+   */
+  async readBackupFile(file: File): Promise<BackupContents> {
+    const backup = await readBackup(file);
+
+    return {
+      createdAt: backup.manifest.created_at,
+      sourceName: file.name,
+      tables: backup.tables,
+      formatVersion: backup.upgradedFrom ?? backup.manifest.format_version,
+      notes: backup.notes
+    };
+  }
+
+  /**
+   * Validates the backup against the live schema and works out, per table,
+   * which rows the restore would add, change and remove within the scope.
+   */
+  async planRestore(backup: BackupContents, scope: RestoreScope): Promise<TableRestorePlan[]> {
+    const { data: schemaRows, error } = await supabase.rpc('get_restore_schema', { p_tables: scope.tables });
+    if (error) throw error;
+
+    const schema = new Map<string, ColumnInfo[]>();
+    for (const column of (schemaRows || []) as ColumnInfo[]) {
+      schema.set(column.table_name, [...(schema.get(column.table_name) || []), column]);
+    }
+
+    const current = new Map<RestorableTable, BackupRow[]>();
+    for (const table of scope.tables) {
+      current.set(table, await this.loadRows(table));
+    }
+
+    const plans = RESTORABLE_TABLES
+      .filter(({ table }) => scope.tables.includes(table))
+      .map(({ table }) => this.planTable(
+        table,
+        backup.tables[table] || [],
+        current.get(table) || [],
+        schema.get(table) || [],
+        scope
+      ));
+
+    await this.checkReferences(plans, current);
+
+    return plans;
+  }
+
+  /**
+   * Applies the plans in one transaction on the server. A snapshot of the
+   * affected tables is taken first; its id is returned for undoing.
+   */
+  async applyRestore(
+    plans: TableRestorePlan[],
+    sourceName: string
+  ): Promise<{ success: boolean; snapshotId?: string; error?: string }> {
+    try {
+      const changes = plans
+        .filter(plan => plan.errors.length === 0)
+        .map(plan => ({
+          table: plan.table,
+          upsert: [...plan.added, ...plan.changed.map(change => change.after)],
+          delete: plan.removed.map(row => row.id)
+        }));
+
+      const { data, error } = await supabase.rpc('apply_restore', {
+        p_changes: changes,
+        p_source_name: sourceName
+      });
+
+      if (error) throw error;
+
+      return { success: true, snapshotId: data?.snapshot_id };
+    } catch (error) {
+      console.error('Error applying restore:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  async getStoredBackups(limit = 50): Promise<StoredBackup[]> {
+    try {
+      const { data, error } = await supabase
+        .from('stored_backups')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return data || [];
+    } catch (error) {
+      console.error('Error loading stored backups:', error);
+      return [];
+    }
+  }
+
+  /** Writes a backup to storage now instead of waiting for the scheduled run. */
+  async runServerBackup(): Promise<BackupFunctionResult> {
+    return this.invoke({ action: 'backup' });
+  }
+
+  /** Re-applies the retention policy to stored backups, e.g. after it was changed. */
+  async applyRetention(): Promise<BackupFunctionResult> {
+    return this.invoke({ action: 'prune' });
+  }
+
+  async getRetentionPolicy(): Promise<BackupRetentionPolicy> {
+    const { data, error } = await supabase
+      .from('app_settings')
+      .select('key, value')
+      .in('key', [BACKUP_RETENTION_DAILY_SETTING_KEY, BACKUP_RETENTION_WEEKLY_SETTING_KEY, BACKUP_RETENTION_MONTHLY_SETTING_KEY]);
+
+    if (error) {
+      console.error('Error loading backup retention settings:', error);
+    }
+
+    const settings = Object.fromEntries((data || []).map(s => [s.key, s.value]));
+    return buildRetentionPolicy(
+      settings[BACKUP_RETENTION_DAILY_SETTING_KEY],
+      settings[BACKUP_RETENTION_WEEKLY_SETTING_KEY],
+      settings[BACKUP_RETENTION_MONTHLY_SETTING_KEY]
+    );
+  }
+
+  async saveRetentionPolicy(policy: BackupRetentionPolicy): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.from('app_settings').upsert([
+        { key: BACKUP_RETENTION_DAILY_SETTING_KEY, value: String(policy.daily) },
+        { key: BACKUP_RETENTION_WEEKLY_SETTING_KEY, value: String(policy.weekly) },
+        { key: BACKUP_RETENTION_MONTHLY_SETTING_KEY, value: String(policy.monthly) }
+      ], { onConflict: 'key' });
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error saving backup retention settings:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /** Downloads a stored backup from the bucket and reads it like an uploaded file. */
+  async readStoredBackup(backup: StoredBackup): Promise<BackupContents> {
+    const blob = await this.fetchStoredBackup(backup);
+    return this.readBackupFile(new File([blob], backup.file_path.split('/').pop() || backup.file_path));
+  }
+
+  async downloadStoredBackup(backup: StoredBackup): Promise<{ success: boolean; error?: string }> {
+    try {
+      const blob = await this.fetchStoredBackup(backup);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = backup.file_path.split('/').pop() || 'backup.zip';
+      a.click();
+      URL.revokeObjectURL(url);
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error downloading stored backup:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  async getSnapshots(limit = 20): Promise<BackupSnapshot[]> {
+    try {
+      const { data, error } = await supabase
+        .from('backup_snapshots')
+        .select('id, created_at, created_by, reason, source_name, tables, row_counts, undone_at, undoable')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return data || [];
+    } catch (error) {
+      console.error('Error loading backup snapshots:', error);
+      return [];
+    }
+  }
+
+  async undoRestore(snapshotId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.rpc('undo_restore', { p_snapshot_id: snapshotId });
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error undoing restore:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /** Downloads a snapshot as a backup file that the restore wizard accepts. */
+  async downloadSnapshot(snapshot: BackupSnapshot): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('backup_snapshots')
+        .select('data')
+        .eq('id', snapshot.id)
+        .single();
+
+      if (error) throw error;
+
+      const backup = {
+        metadata: {
+          timestamp: snapshot.created_at,
+          version: '1.0',
+          recordCounts: snapshot.row_counts
+        },
+        data: data.data
+      };
+
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `snapshot-${snapshot.created_at.replace(/:/g, '-').split('.')[0]}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error downloading snapshot:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  rowLabel(table: RestorableTable, row: BackupRow): string {
+    const config = RESTORABLE_TABLES.find(t => t.table === table);
+    const parts = (config?.labelColumns || [])
+      .map(column => row[column])
+      .filter(value => value !== null && value !== undefined && value !== '');
+    return parts.length > 0 ? parts.join(' · ') : row.id;
+  }
+
+  private async fetchStoredBackup(backup: StoredBackup): Promise<Blob> {
+    if (backup.status !== 'completed') {
+      throw new Error(`Backup is ${backup.status}`);
+    }
+
+    const { data, error } = await supabase.storage.from(BACKUP_BUCKET).download(backup.file_path);
+    if (error) throw error;
+
+    return data;
+  }
+
+  private async invoke(body: Record<string, unknown>): Promise<BackupFunctionResult> {
+    try {
+      // The function only accepts admins; the anon key is not enough
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Not authenticated');
+
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/scheduled-backup`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body)
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error invoking scheduled backup:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  private async loadRows(table: RestorableTable, columns = '*'): Promise<BackupRow[]> {
+    const rows: BackupRow[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(table)
+        .select(columns)
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      rows.push(...((data || []) as unknown as BackupRow[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return rows;
+  }
+
+  private planTable(
+    table: RestorableTable,
+    backupRows: BackupRow[],
+    currentRows: BackupRow[],
+    columns: ColumnInfo[],
+    scope: RestoreScope
+  ): TableRestorePlan {
+    const plan: TableRestorePlan = { table, added: [], changed: [], removed: [], unchanged: 0, errors: [], warnings: [] };
+    const dateColumn = RESTORABLE_TABLES.find(t => t.table === table)?.dateColumn;
+
+    if (columns.length === 0) {
+      plan.errors.push('Table not found in the current schema');
+      return plan;
+    }
+
+    const known = new Map(columns.map(column => [column.column_name, column]));
+    const unknown = new Set<string>();
+    const invalid = new Map<string, number>();
+    const missing = new Map<string, number>();
+
+    // Columns dropped since the backup was taken cannot be written
+    const rows = backupRows.map(row => {
+      const cleaned: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(row)) {
+        if (known.has(key)) {
+          cleaned[key] = value;
+        } else {
+          unknown.add(key);
+        }
+      }
+      return cleaned as BackupRow;
+    });
+
+    for (const row of rows) {
+      for (const column of columns) {
+        const value = row[column.column_name];
+        if ((value === undefined || value === null) && !column.is_nullable && !column.has_default) {
+          missing.set(column.column_name, (missing.get(column.column_name) || 0) + 1);
+        } else if (value !== undefined && !matchesType(value, column.data_type)) {
+          invalid.set(column.column_name, (invalid.get(column.column_name) || 0) + 1);
+        }
+      }
+    }
+
+    if (rows.some(row => !row.id)) {
+      missing.set('id', rows.filter(row => !row.id).length);
+    }
+
+    for (const [column, count] of missing) {
+      plan.errors.push(`${count} row(s) are missing required column "${column}"`);
+    }
+    for (const [column, count] of invalid) {
+      plan.errors.push(`${count} row(s) have invalid values in "${column}" (expected ${known.get(column)?.data_type})`);
+    }
+    if (unknown.size > 0) {
+      plan.warnings.push(`Columns no longer in the schema are ignored: ${Array.from(unknown).join(', ')}`);
+    }
+
+    const currentById = new Map(currentRows.map(row => [row.id, row]));
+    const backupIds = new Set(rows.map(row => row.id));
+
+    for (const row of rows) {
+      if (!row.id || !inRange(row, scope, dateColumn)) continue;
+
+      const existing = currentById.get(row.id);
+      if (!existing) {
+        plan.added.push(row);
+        continue;
+      }
+
+      // Columns added after the backup are left as they are, so they do not count as changes
+      const changedColumns = Object.keys(row).filter(column => !sameValue(row[column], existing[column]));
+      if (changedColumns.length > 0) {
+        plan.changed.push({ before: existing, after: row, columns: changedColumns });
+      } else {
+        plan.unchanged++;
+      }
+    }
+
+    plan.removed = currentRows.filter(row => !backupIds.has(row.id) && inRange(row, scope, dateColumn));
+
+    if (scope.from || scope.to) {
+      const undated = rows.filter(row => !row[dateColumn || 'created_at']).length;
+      if (undated > 0) {
+        plan.warnings.push(`${undated} row(s) have no ${dateColumn || 'created_at'} and are outside any date range`);
+      }
+    }
+
+    this.checkUniqueColumns(plan, currentRows);
+
+    return plan;
+  }
+
+  /** Flags restored rows whose unique values are held by rows that stay. */
+  private checkUniqueColumns(plan: TableRestorePlan, currentRows: BackupRow[]) {
+    const config = RESTORABLE_TABLES.find(t => t.table === plan.table);
+    const upserts = [...plan.added, ...plan.changed.map(change => change.after)];
+    const upsertIds = new Set(upserts.map(row => row.id));
+    const removedIds = new Set(plan.removed.map(row => row.id));
+
+    for (const column of config?.uniqueColumns || []) {
+      const owners = new Map<string, string>();
+      for (const row of currentRows) {
+        if (!removedIds.has(row.id) && !upsertIds.has(row.id) && row[column] !== null && row[column] !== undefined) {
+          owners.set(String(row[column]), row.id);
+        }
+      }
+
+      const conflicts: string[] = [];
+      for (const row of upserts) {
+        if (row[column] === null || row[column] === undefined) continue;
+        const key = String(row[column]);
+        const owner = owners.get(key);
+        if (owner && owner !== row.id) {
+          conflicts.push(key);
+        }
+        owners.set(key, row.id);
+      }
+
+      if (conflicts.length > 0) {
+        plan.errors.push(`${conflicts.length} row(s) would duplicate ${column} already in use: ${conflicts.slice(0, 5).join(', ')}${conflicts.length > 5 ? ', …' : ''}`);
+      }
+    }
+  }
+
+  /** Cross-table checks on the state the restore would leave behind. */
+  private async checkReferences(plans: TableRestorePlan[], current: Map<RestorableTable, BackupRow[]>) {
+    const shipmentPlan = plans.find(plan => plan.table === 'shipments');
+    const packagePlan = plans.find(plan => plan.table === 'packages');
+
+    if (shipmentPlan && shipmentPlan.removed.length > 0) {
+      const removedIds = new Set(shipmentPlan.removed.map(row => row.id));
+      const packageRows = current.get('packages') || await this.loadRows('packages', 'id, shipment_id');
+      const packageRemovedIds = new Set((packagePlan?.removed || []).map(row => row.id));
+      const cascaded = packageRows.filter(row =>
+        removedIds.has(String(row.shipment_id)) && !packageRemovedIds.has(row.id)
+      ).length;
+
+      if (cascaded > 0) {
+        shipmentPlan.warnings.push(`Removing ${shipmentPlan.removed.length} shipment(s) also deletes ${cascaded} package(s) attached to them; undo brings them back`);
+      }
+    }
+
+    for (const reference of RESTORE_REFERENCES) {
+      const plan = plans.find(p => p.table === reference.table);
+      if (!plan) continue;
+
+      const upserts = [...plan.added, ...plan.changed.map(change => change.after)];
+      const referenced = upserts.filter(row => row[reference.column]);
+      if (referenced.length === 0) continue;
+
+      const parentIds = await this.finalIds(reference.parent, plans, current);
+      const dangling = referenced.filter(row => !parentIds.has(String(row[reference.column]))).length;
+      if (dangling > 0) {
+        const parentLabel = RESTORABLE_TABLES.find(t => t.table === reference.parent)?.label.toLowerCase();
+        plan.errors.push(`${dangling} row(s) belong to ${parentLabel} that will not exist (${reference.column}); include ${parentLabel} or widen the date range`);
+      }
+    }
+
+    const deviationPlan = plans.find(plan => plan.table === 'package_deviations');
+    if (deviationPlan && deviationPlan.added.length > 0) {
+      deviationPlan.warnings.push('Deviation history is append-only and not restored; re-added deviations keep only the history still on record');
+    }
+
+    const shipmentIds = await this.finalIds('shipments', plans, current);
+    const batchIds = await this.finalIds('import_batches', plans, current);
+
+    for (const plan of [shipmentPlan, packagePlan]) {
+      if (!plan) continue;
+
+      const upserts = [...plan.added, ...plan.changed.map(change => change.after)];
+      const unbatched = upserts.filter(row => row.import_batch_id && !batchIds.has(String(row.import_batch_id))).length;
+      if (unbatched > 0) {
+        plan.errors.push(`${unbatched} row(s) belong to import batches that will not exist; include import batches`);
+      }
+    }
+
+    if (!packagePlan) return;
+
+    const upserts = [...packagePlan.added, ...packagePlan.changed.map(change => change.after)];
+    if (upserts.length === 0) return;
+
+    const orphaned = upserts.filter(row => !shipmentIds.has(String(row.shipment_id))).length;
+    if (orphaned > 0) {
+      packagePlan.errors.push(`${orphaned} package(s) belong to shipments that will not exist; include shipments or widen the date range`);
+    }
+
+    const locations = await locationService.getLocations(true);
+    const unknownLocations = new Set(
+      upserts
+        .map(row => String(row.storage_location || '').trim())
+        .filter(code => code && !locationService.findLocation(locations, code))
+    );
+    if (unknownLocations.size > 0) {
+      packagePlan.errors.push(`Storage locations not in the registry: ${Array.from(unknownLocations).slice(0, 5).join(', ')}${unknownLocations.size > 5 ? ', …' : ''}`);
+    }
+  }
+
+  /** Ids the table will hold once the restore is done; the live ids if it is not restored. */
+  private async finalIds(
+    table: RestorableTable,
+    plans: TableRestorePlan[],
+    current: Map<RestorableTable, BackupRow[]>
+  ): Promise<Set<string>> {
+    const plan = plans.find(p => p.table === table);
+    const rows = current.get(table) || await this.loadRows(table, 'id');
+
+    if (!plan || plan.errors.length > 0) {
+      return new Set(rows.map(row => row.id));
+    }
+
+    const removed = new Set(plan.removed.map(row => row.id));
+    return new Set([
+      ...rows.map(row => row.id).filter(id => !removed.has(id)),
+      ...plan.added.map(row => row.id)
+    ]);
+  }
+}
+
+export const backupService = new BackupService();
@@ -0,0 +1,331 @@
+import { supabase, StorageLocationOccupancy } from '../lib/supabase';
+import { parseWarehouseDate } from '../utils/dateTime';
+import { locationService } from './locationService';
+import type { PackageStatus } from './packageLifecycleService';
+
+export type ImportType = 'incoming' | 'delivered';
+
+export type ImportField = 'packageId' | 'description' | 'location' | 'arrivalDate' | 'limitWeeks' | 'notes';
+
+/** Column index per field; -1 when the field is not mapped. */
+export type ImportMapping = Record<ImportField, number>;
+
+export interface ImportRecord {
+  rowNumber: number;
+  packageId: string;
+  description?: string;
+  location: string;
+  arrivalDate: string;
+  limitWeeks?: number;
+  notes?: string;
+}
+
+/** What importing a row writes: one completed shipment, plus a stored package for arrivals. */
+export interface ImportPlan {
+  title: string;
+  shipmentType: 'incoming' | 'outgoing';
+  start: string;
+  storageLocation: string;
+  notes: string;
+  dwellLimitDays: number | null;
+  packageId?: string;
+}
+
+export interface ImportPreviewRow {
+  record: ImportRecord;
+  errors: string[];
+  warnings: string[];
+  plan?: ImportPlan;
+}
+
+export type ImportRowStatus = 'created' | 'skipped' | 'failed';
+
+export interface ImportRowResult {
+  row_number: number;
+  sscc: string;
+  status: ImportRowStatus;
+  message: string;
+  shipment_id: string | null;
+  package_id: string | null;
+  previous_status: PackageStatus | null;
+}
+
+export interface ImportBatchResult {
+  batch_id: string;
+  /** True when the batch had already been imported and the stored result was returned. */
+  replayed: boolean;
+  status: 'completed' | 'rolled_back';
+  created: number;
+  skipped: number;
+  failed: number;
+  results: ImportRowResult[];
+}
+
+export interface ImportBatch {
+  id: string;
+  import_type: ImportType;
+  source_name: string;
+  status: 'completed' | 'rolled_back';
+  row_count: number;
+  created_count: number;
+  skipped_count: number;
+  failed_count: number;
+  results: ImportRowResult[];
+  created_by: string | null;
+  created_at: string;
+  rolled_back_by: string | null;
+  rolled_back_at: string | null;
+}
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: 'packageId', label: 'Package ID / SSCC', required: true, aliases: ['packageid', 'package', 'sscc', 'ssccnumber', 'sscc18', 'packagenumber', 'palletid'] },
+  { field: 'description', label: 'Description', required: false, aliases: ['description', 'desc', 'title'] },
+  { field: 'location', label: 'Location', required: false, aliases: ['location', 'storagelocation', 'loc', 'bin'] },
+  { field: 'arrivalDate', label: 'Date', required: false, aliases: ['arrivaldate', 'arrival', 'date', 'deliverydate', 'delivereddate'] },
+  { field: 'limitWeeks', label: 'Limit Weeks', required: false, aliases: ['limitweeks', 'limit', 'weeks', 'storagelimit'] },
+  { field: 'notes', label: 'Notes', required: false, aliases: ['notes', 'note', 'comment', 'comments', 'remarks'] }
+];
+
+const LOOKUP_CHUNK_SIZE = 200;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+class BulkImportService {
+  /**
+   * Maps headers to fields by exact name or alias, ignoring case, spaces and
+   * punctuation. Each column is used for one field at most.
+   */
+  guessMapping(headers: string[]): ImportMapping {
+    const normalized = headers.map(normalizeHeader);
+    const used = new Set<number>();
+    const mapping = {} as ImportMapping;
+
+    for (const { field, aliases } of IMPORT_FIELDS) {
+      const index = normalized.findIndex((header, i) => !used.has(i) && aliases.includes(header));
+      mapping[field] = index;
+      if (index >= 0) used.add(index);
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Turns parsed data rows from a CSV file or worksheet into records. Row
+   * numbers count the header as row 1. With `decimalComma` (European
+   * semicolon files) numbers are read as "1.234,5".
+   */
+  buildRecords(rows: string[][], mapping: ImportMapping, decimalComma = false): ImportRecord[] {
+    const value = (row: string[], field: ImportField) =>
+      mapping[field] >= 0 ? (row[mapping[field]] ?? '').trim() : '';
+
+    return rows.map((row, index) => {
+      const weeks = value(row, 'limitWeeks');
+      return {
+        rowNumber: index + 2,
+        packageId: value(row, 'packageId'),
+        description: value(row, 'description') || undefined,
+        location: value(row, 'location'),
+        arrivalDate: value(row, 'arrivalDate'),
+        limitWeeks: weeks ? this.parseNumber(weeks, decimalComma) : undefined,
+        notes: value(row, 'notes') || undefined
+      };
+    });
+  }
+
+  parseNumber(value: string, decimalComma: boolean): number {
+    const normalized = decimalComma
+      ? value.replace(/[\s.]/g, '').replace(',', '.')
+      : value.replace(/[\s,]/g, '');
+    return normalized ? Number(normalized) : NaN;
+  }
+
+  /**
+   * Checks every record against the database without writing anything and
+   * returns what importing it would create. Rows with errors have no plan.
+   */
+  async validateRecords(
+    records: ImportRecord[],
+    importType: ImportType,
+    locations: StorageLocationOccupancy[]
+  ): Promise<ImportPreviewRow[]> {
+    const existing = await this.findExistingPackages(records.map(r => r.packageId).filter(Boolean));
+    const firstRow = new Map<string, number>();
+
+    return records.map(record => {
+      const errors: string[] = [];
+      const warnings: string[] = [];
+      const key = record.packageId.toUpperCase();
+
+      if (!record.packageId) {
+        errors.push('Missing package ID');
+      } else if (firstRow.has(key)) {
+        errors.push(`Duplicate of row ${firstRow.get(key)}`);
+      } else {
+        firstRow.set(key, record.rowNumber);
+      }
+
+      let start = new Date().toISOString();
+      if (!record.arrivalDate) {
+        warnings.push('No date, today will be used');
+      } else {
+        // Numeric dates follow the configured DD/MM or MM/DD order, in the warehouse timezone
+        const parsed = parseWarehouseDate(record.arrivalDate);
+        if (parsed) {
+          start = parsed.toISOString();
+        } else {
+          errors.push(`Invalid date "${record.arrivalDate}"`);
+        }
+      }
+
+      if (record.limitWeeks !== undefined && !(record.limitWeeks > 0)) {
+        errors.push('Limit weeks must be a number above 0');
+      }
+
+      const matches = existing.get(key) || [];
+      let storageLocation = record.location;
+
+      if (importType === 'incoming') {
+        if (matches.length > 0) {
+          errors.push(`SSCC already exists (${matches.map(m => m.status).join(', ')})`);
+        }
+
+        // Reject typos before anything is written instead of creating phantom locations
+        if (record.location) {
+          const check = locationService.checkLocation(locations, record.location, 0);
+          if (check.valid) {
+            storageLocation = check.location?.code ?? record.location;
+          } else {
+            errors.push(check.error || 'Invalid storage location');
+          }
+        } else {
+          warnings.push('No storage location');
+        }
+      } else if (record.packageId && !matches.some(m => m.status === 'stored')) {
+        errors.push(matches.length > 0
+          ? `Package is ${matches.map(m => m.status).join(', ')}, not stored`
+          : 'Package not found in stored packages');
+      }
+
+      if (errors.length > 0) {
+        return { record, errors, warnings };
+      }
+
+      const plan: ImportPlan = importType === 'incoming'
+        ? {
+            title: record.description || `Import: ${record.packageId}`,
+            shipmentType: 'incoming',
+            start,
+            storageLocation,
+            notes: record.notes || `Imported historical data. Limit: ${record.limitWeeks || 'N/A'} weeks`,
+            dwellLimitDays: record.limitWeeks ? Math.round(record.limitWeeks * 7) : null
+          }
+        : {
+            title: record.description || `Delivery: ${record.packageId}`,
+            shipmentType: 'outgoing',
+            start,
+            storageLocation,
+            notes: record.notes || 'Imported historical delivery data',
+            dwellLimitDays: null,
+            packageId: matches.find(m => m.status === 'stored')?.id
+          };
+
+      return { record, errors, warnings, plan };
+    });
+  }
+
+  /**
+   * Sends the planned rows to the bulk_import_packages RPC, which writes the
+   * whole batch in one transaction. A failing row fails the batch and nothing
+   * is written. Re-sending the same batch id returns the earlier result
+   * instead of importing twice.
+   */
+  async importBatch(
+    batchId: string,
+    importType: ImportType,
+    rows: ImportPreviewRow[],
+    sourceName: string
+  ): Promise<{ success: boolean; result?: ImportBatchResult; error?: string }> {
+    try {
+      const payload = rows.flatMap(({ record, plan }) => plan ? [{
+        row_number: record.rowNumber,
+        sscc: record.packageId,
+        title: plan.title,
+        start: plan.start,
+        storage_location: plan.storageLocation,
+        notes: plan.notes,
+        dwell_limit_days: plan.dwellLimitDays
+      }] : []);
+
+      const { data, error } = await supabase.rpc('bulk_import_packages', {
+        p_batch_id: batchId,
+        p_import_type: importType,
+        p_rows: payload,
+        p_source_name: sourceName
+      });
+
+      if (error) throw error;
+
+      return { success: true, result: data };
+    } catch (error) {
+      console.error('Error importing batch:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  async getBatches(limit = 20): Promise<ImportBatch[]> {
+    try {
+      const { data, error } = await supabase
+        .from('import_batches')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return data || [];
+    } catch (error) {
+      console.error('Error loading import batches:', error);
+      return [];
+    }
+  }
+
+  /** Removes everything the batch created; refused once its packages have moved on. */
+  async rollbackBatch(batchId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.rpc('rollback_import_batch', { p_batch_id: batchId });
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error rolling back import batch:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /** Package rows per upper-cased SSCC, looked up in chunks to keep URLs short. */
+  private async findExistingPackages(
+    ssccs: string[]
+  ): Promise<Map<string, { id: string; status: PackageStatus }[]>> {
+    const result = new Map<string, { id: string; status: PackageStatus }[]>();
+    const unique = Array.from(new Set(ssccs));
+
+    for (let i = 0; i < unique.length; i += LOOKUP_CHUNK_SIZE) {
+      const { data, error } = await supabase
+        .from('packages')
+        .select('id, sscc_number, status')
+        .in('sscc_number', unique.slice(i, i + LOOKUP_CHUNK_SIZE));
+
+      if (error) throw error;
+
+      for (const pkg of data || []) {
+        const key = pkg.sscc_number.toUpperCase();
+        result.set(key, [...(result.get(key) || []), { id: pkg.id, status: pkg.status }]);
+      }
+    }
+
+    return result;
+  }
+}
+
+export const bulkImportService = new BulkImportService();
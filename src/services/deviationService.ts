@@ -1,4 +1,5 @@
 import { supabase } from '../lib/supabase';
+import { packageLifecycleService } from './packageLifecycleService';
 
 export type DeviationType = 'missing_from_booking' | 'damaged' | 'wrong_quantity' | 'incorrect_location' | 'other';
 export type DeviationStatus = 'open' | 'in_progress' | 'resolved' | 'escalated' | 'closed';
@@ -202,13 +203,31 @@ class DeviationService {
         updateData.resolved_at = new Date().toISOString();
       }
 
-      const { error } = await supabase
+      const { data: deviation, error } = await supabase
         .from('package_deviations')
         .update(updateData)
-        .eq('id', deviationId);
+        .eq('id', deviationId)
+        .select('package_id')
+        .single();
 
       if (error) throw error;
 
+      // A resolved deviation releases the package from its hold back into stock
+      if ((status === 'resolved' || status === 'closed') && deviation?.package_id) {
+        const { data: pkg } = await supabase
+          .from('packages')
+          .select('id, status')
+          .eq('id', deviation.package_id)
+          .maybeSingle();
+
+        if (pkg?.status === 'deviation_hold') {
+          const release = await packageLifecycleService.transition(pkg.id, 'stored', {
+            reason: `Deviation ${status}`
+          });
+          if (!release.success) throw new Error(release.error);
+        }
+      }
+
       return { success: true };
     } catch (error) {
       console.error('Error updating deviation status:', error);
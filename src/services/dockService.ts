@@ -0,0 +1,265 @@
+import { supabase, DockDoor, Shipment } from '../lib/supabase';
+import { auditService } from './auditService';
+
+export type DockBooking = Pick<
+  Shipment,
+  'id' | 'title' | 'intensity' | 'status' | 'dock_door_id' | 'slot_start' | 'slot_end'
+>;
+
+export interface DoubleBooking {
+  doorId: string;
+  first: DockBooking;
+  second: DockBooking;
+}
+
+export interface DoorLoad {
+  doorId: string;
+  points: number;
+  capacity: number;
+  overCapacity: boolean;
+}
+
+export const INTENSITY_POINTS: Record<Shipment['intensity'], number> = {
+  low: 1,
+  medium: 2,
+  high: 3
+};
+
+class DockService {
+  async getDoors(includeInactive = false): Promise<DockDoor[]> {
+    try {
+      let query = supabase
+        .from('dock_doors')
+        .select('*')
+        .order('sort_order')
+        .order('name');
+
+      if (!includeInactive) {
+        query = query.eq('active', true);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      return data || [];
+    } catch (error) {
+      console.error('Error loading dock doors:', error);
+      return [];
+    }
+  }
+
+  async saveDoor(
+    door: Partial<DockDoor> & { name: string }
+  ): Promise<{ success: boolean; door?: DockDoor; error?: string }> {
+    try {
+      const payload = {
+        name: door.name.trim(),
+        slot_minutes: door.slot_minutes ?? 30,
+        daily_capacity_points: door.daily_capacity_points ?? 12,
+        open_time: door.open_time ?? '06:00',
+        close_time: door.close_time ?? '18:00',
+        active: door.active ?? true,
+        sort_order: door.sort_order ?? 0,
+        updated_at: new Date().toISOString()
+      };
+
+      const { data, error } = door.id
+        ? await supabase.from('dock_doors').update(payload).eq('id', door.id).select().single()
+        : await supabase.from('dock_doors').insert(payload).select().single();
+
+      if (error) throw error;
+
+      return { success: true, door: data };
+    } catch (error) {
+      console.error('Error saving dock door:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  async getBookings(start: Date, end: Date): Promise<DockBooking[]> {
+    try {
+      const { data, error } = await supabase
+        .from('shipments')
+        .select('id, title, intensity, status, dock_door_id, slot_start, slot_end')
+        .eq('archived', false)
+        .not('dock_door_id', 'is', null)
+        .gte('slot_start', start.toISOString())
+        .lt('slot_start', end.toISOString())
+        .order('slot_start');
+
+      if (error) throw error;
+
+      return data || [];
+    } catch (error) {
+      console.error('Error loading dock bookings:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Books a shipment into a door. The slot length defaults to the door's
+   * slot_minutes; passing a null door clears the booking. A slot overlapping
+   * another booking on the door is not saved but returned as `conflict`,
+   * unless allowDoubleBooking is set.
+   */
+  async assignSlot(
+    shipment: Shipment,
+    door: DockDoor | null,
+    slotStart: string | null,
+    slotMinutes?: number,
+    allowDoubleBooking = false
+  ): Promise<{ success: boolean; error?: string; conflict?: DockBooking }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      let slotEnd: string | null = null;
+      if (door && slotStart) {
+        const minutes = slotMinutes ?? door.slot_minutes;
+        slotEnd = new Date(new Date(slotStart).getTime() + minutes * 60000).toISOString();
+
+        if (!allowDoubleBooking) {
+          const conflict = await this.findSlotConflict(shipment, door.id, slotStart, slotEnd);
+          if (conflict) {
+            return { success: false, error: `${door.name} is already booked for "${conflict.title}"`, conflict };
+          }
+        }
+      }
+
+      const updates = {
+        dock_door_id: door && slotStart ? door.id : null,
+        slot_start: door && slotStart ? slotStart : null,
+        slot_end: slotEnd,
+        updated_by: user?.id || null
+      };
+
+      const { error } = await supabase
+        .from('shipments')
+        .update(updates)
+        .eq('id', shipment.id);
+
+      if (error) throw error;
+
+      await auditService.logShipmentUpdate(
+        shipment.id,
+        user?.id || null,
+        {
+          dock_door_id: shipment.dock_door_id ?? null,
+          slot_start: shipment.slot_start ?? null,
+          slot_end: shipment.slot_end ?? null
+        },
+        updates,
+        [door && slotStart ? `dock slot (${door.name})` : 'dock slot cleared']
+      );
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error assigning dock slot:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  private async findSlotConflict(
+    shipment: Shipment,
+    doorId: string,
+    slotStart: string,
+    slotEnd: string
+  ): Promise<DockBooking | null> {
+    const { data, error } = await supabase
+      .from('shipments')
+      .select('id, title, intensity, status, dock_door_id, slot_start, slot_end')
+      .eq('archived', false)
+      .eq('dock_door_id', doorId)
+      .neq('id', shipment.id)
+      .lt('slot_start', slotEnd)
+      .or(`slot_end.is.null,slot_end.gt.${slotStart}`);
+
+    if (error) throw error;
+
+    const candidate: DockBooking = {
+      id: shipment.id,
+      title: shipment.title,
+      intensity: shipment.intensity,
+      status: shipment.status,
+      dock_door_id: doorId,
+      slot_start: slotStart,
+      slot_end: slotEnd
+    };
+
+    const overlap = this.findDoubleBookings([...(data || []), candidate])
+      .find(c => c.first.id === shipment.id || c.second.id === shipment.id);
+    if (!overlap) return null;
+
+    return overlap.first.id === shipment.id ? overlap.second : overlap.first;
+  }
+
+  /** Pairs of bookings on the same door whose slots overlap. */
+  findDoubleBookings(bookings: DockBooking[]): DoubleBooking[] {
+    const conflicts: DoubleBooking[] = [];
+    const byDoor = new Map<string, DockBooking[]>();
+
+    for (const booking of bookings) {
+      if (!booking.dock_door_id || !booking.slot_start) continue;
+      const list = byDoor.get(booking.dock_door_id) || [];
+      list.push(booking);
+      byDoor.set(booking.dock_door_id, list);
+    }
+
+    for (const [doorId, list] of byDoor) {
+      const sorted = [...list].sort((a, b) => a.slot_start!.localeCompare(b.slot_start!));
+      for (let i = 0; i < sorted.length; i++) {
+        const endA = new Date(sorted[i].slot_end || sorted[i].slot_start!).getTime();
+        for (let j = i + 1; j < sorted.length; j++) {
+          const startB = new Date(sorted[j].slot_start!).getTime();
+          if (startB >= endA) break;
+          conflicts.push({ doorId, first: sorted[i], second: sorted[j] });
+        }
+      }
+    }
+
+    return conflicts;
+  }
+
+  /** Intensity points booked on each door compared to its daily capacity. */
+  getDoorLoads(doors: DockDoor[], bookings: DockBooking[]): DoorLoad[] {
+    return doors.map(door => {
+      const points = bookings
+        .filter(b => b.dock_door_id === door.id)
+        .reduce((sum, b) => sum + (INTENSITY_POINTS[b.intensity] || 0), 0);
+
+      return {
+        doorId: door.id,
+        points,
+        capacity: door.daily_capacity_points,
+        overCapacity: points > door.daily_capacity_points
+      };
+    });
+  }
+
+  /** Next upcoming, not yet completed booking per door, in door order. */
+  getNextArrivals(
+    doors: DockDoor[],
+    bookings: DockBooking[],
+    now: Date = new Date()
+  ): { door: DockDoor; booking: DockBooking }[] {
+    const result: { door: DockDoor; booking: DockBooking }[] = [];
+
+    for (const door of doors) {
+      const next = bookings
+        .filter(b =>
+          b.dock_door_id === door.id &&
+          b.status !== 'completed' &&
+          b.slot_start &&
+          new Date(b.slot_end || b.slot_start).getTime() > now.getTime()
+        )
+        .sort((a, b) => a.slot_start!.localeCompare(b.slot_start!))[0];
+
+      if (next) {
+        result.push({ door, booking: next });
+      }
+    }
+
+    return result;
+  }
+}
+
+export const dockService = new DockService();
@@ -0,0 +1,143 @@
+import { supabase } from '../lib/supabase';
+import {
+  DWELL_DEFAULT_LIMIT_SETTING_KEY,
+  DWELL_WARNING_DAYS_SETTING_KEY,
+  DEFAULT_DWELL_SETTINGS,
+  buildDwellSettings
+} from '../../supabase/functions/_shared/dwellLimits.ts';
+import type {
+  DwellLimitRule,
+  DwellRuleScope,
+  DwellSettings,
+  TaskCategoryMatcher
+} from '../../supabase/functions/_shared/dwellLimits.ts';
+
+export type {
+  DwellLimit,
+  DwellLimitRule,
+  DwellLimitSource,
+  DwellRuleScope,
+  DwellSettings,
+  DwellStatus,
+  TaskCategoryMatcher
+} from '../../supabase/functions/_shared/dwellLimits.ts';
+export {
+  DEFAULT_DWELL_SETTINGS,
+  DWELL_RULE_SCOPE_LABELS,
+  DWELL_LIMIT_SOURCE_LABELS,
+  getDwellStatus,
+  matchTaskCategory,
+  parseWarningDays,
+  resolveDwellLimit
+} from '../../supabase/functions/_shared/dwellLimits.ts';
+
+class DwellLimitService {
+  async getRules(): Promise<DwellLimitRule[]> {
+    try {
+      const { data, error } = await supabase
+        .from('dwell_limit_rules')
+        .select('*')
+        .order('scope')
+        .order('match_value');
+
+      if (error) throw error;
+
+      return data || [];
+    } catch (error) {
+      console.error('Error loading dwell limit rules:', error);
+      return [];
+    }
+  }
+
+  async saveRule(
+    rule: Partial<DwellLimitRule> & { scope: DwellRuleScope; match_value: string; limit_days: number }
+  ): Promise<{ success: boolean; rule?: DwellLimitRule; error?: string }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const payload = {
+        scope: rule.scope,
+        match_value: rule.match_value.trim(),
+        limit_days: rule.limit_days,
+        active: rule.active ?? true,
+        notes: rule.notes ?? '',
+        updated_at: new Date().toISOString()
+      };
+
+      const { data, error } = rule.id
+        ? await supabase.from('dwell_limit_rules').update(payload).eq('id', rule.id).select().single()
+        : await supabase
+            .from('dwell_limit_rules')
+            .insert({ ...payload, created_by: user?.id || null })
+            .select()
+            .single();
+
+      if (error) throw error;
+
+      return { success: true, rule: data };
+    } catch (error) {
+      console.error('Error saving dwell limit rule:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  async deleteRule(id: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.from('dwell_limit_rules').delete().eq('id', id);
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting dwell limit rule:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  async getSettings(): Promise<DwellSettings> {
+    const { data, error } = await supabase
+      .from('app_settings')
+      .select('key, value')
+      .in('key', [DWELL_DEFAULT_LIMIT_SETTING_KEY, DWELL_WARNING_DAYS_SETTING_KEY]);
+
+    if (error) {
+      console.error('Error loading dwell settings:', error);
+      return DEFAULT_DWELL_SETTINGS;
+    }
+
+    const settings = Object.fromEntries((data || []).map(s => [s.key, s.value]));
+    return buildDwellSettings(settings[DWELL_DEFAULT_LIMIT_SETTING_KEY], settings[DWELL_WARNING_DAYS_SETTING_KEY]);
+  }
+
+  async saveSettings(settings: DwellSettings): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.from('app_settings').upsert([
+        { key: DWELL_DEFAULT_LIMIT_SETTING_KEY, value: String(settings.defaultLimitDays) },
+        { key: DWELL_WARNING_DAYS_SETTING_KEY, value: settings.warningDays.join(',') }
+      ], { onConflict: 'key' });
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error saving dwell settings:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /** Active task categories, for matching titles the same way get_task_category() does. */
+  async getCategories(): Promise<TaskCategoryMatcher[]> {
+    const { data, error } = await supabase
+      .from('task_categories')
+      .select('name, sort_order')
+      .eq('active', true);
+
+    if (error) {
+      console.error('Error loading task categories:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+}
+
+export const dwellLimitService = new DwellLimitService();
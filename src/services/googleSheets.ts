@@ -1,52 +1,23 @@
-type SheetRow = {
-  sscc_numbers: string;
-  title: string;
-  start: string;
-  car_reg_no: string;
-};
-
-function parseGoogleSheetDate(value: any): string {
-  if (!value) return '';
-
-  const str = value.toString().trim();
-
-  if (str.startsWith('Date(')) {
-    const dateMatch = str.match(/Date\((\d+),(\d+),(\d+),(\d+),(\d+),(\d+)\)/);
-    if (dateMatch) {
-      const year = parseInt(dateMatch[1]);
-      const month = parseInt(dateMatch[2]);
-      const day = parseInt(dateMatch[3]);
-      const hour = parseInt(dateMatch[4]);
-      const minute = parseInt(dateMatch[5]);
-      const second = parseInt(dateMatch[6]);
-
-      const date = new Date(year, month, day, hour, minute, second);
-      return date.toISOString();
-    }
-  }
-
-  const datePatterns = [
-    /(\w+)\s+(\d+),\s+(\d+),\s+(\d+):(\d+):(\d+)/,
-    /(\d{1,2})\/(\d{1,2})\/(\d{4})\s+(\d{1,2}):(\d{2})/,
-    /(\d{4})-(\d{2})-(\d{2})/
-  ];
-
-  for (const pattern of datePatterns) {
-    if (pattern.test(str)) {
-      const parsed = new Date(str);
-      if (!isNaN(parsed.getTime())) {
-        return parsed.toISOString();
-      }
-    }
-  }
-
-  const parsed = new Date(str);
-  if (!isNaN(parsed.getTime())) {
-    return parsed.toISOString();
-  }
-
-  return '';
-}
+import { supabase } from '../lib/supabase';
+import { parseWarehouseSheetDate } from '../utils/dateTime';
+import {
+  COLUMN_MAPPING_SETTING_KEY,
+  DEFAULT_COLUMN_MAPPING,
+  MAPPED_FIELDS,
+  parseColumnMapping,
+  resolveColumnMapping
+} from '../../supabase/functions/_shared/sheetMapping.ts';
+import type {
+  ColumnMappingProfile,
+  MappedShipmentField,
+  ResolvedColumnMapping,
+  SheetColumn
+} from '../../supabase/functions/_shared/sheetMapping.ts';
+
+export type { ColumnMappingProfile, MappedShipmentField };
+export { MAPPED_FIELDS, DEFAULT_COLUMN_MAPPING };
+
+export type SheetRow = Partial<Record<MappedShipmentField, string>>;
 
 function parseGoogleVisualizationResponse(text: string) {
   try {
@@ -61,115 +32,223 @@ function parseGoogleVisualizationResponse(text: string) {
   }
 }
 
-function findColumnIndex(cols: string[], targetName: string): number {
-  const normalized = targetName.toLowerCase().trim().replace(/\s+/g, ' ');
+export type SheetTable = {
+  columns: SheetColumn[];
+  rows: unknown[][];
+};
 
-  return cols.findIndex((col: string) => {
-    const colLower = col.toLowerCase().trim().replace(/\s+/g, ' ');
-    return colLower === normalized ||
-           colLower.includes(normalized) ||
-           normalized.includes(colLower);
-  });
-}
+async function fetchSheetTable(spreadsheetId: string, worksheetName: string): Promise<SheetTable> {
+  if (!spreadsheetId.trim()) {
+    throw new Error('Spreadsheet ID is required');
+  }
 
-export async function testSheetConnection(
-  spreadsheetId: string,
-  worksheetName: string
-): Promise<{ success: boolean; error?: string; rowCount?: number }> {
-  try {
-    if (!spreadsheetId.trim()) {
-      return { success: false, error: 'Spreadsheet ID is required' };
-    }
+  const response = await fetch(
+    `https://docs.google.com/spreadsheets/d/${spreadsheetId}/gviz/tq?sheet=${encodeURIComponent(worksheetName || 'Sheet1')}&tqx=out:json`,
+    { mode: 'cors' }
+  );
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: Sheet not accessible`);
+  }
 
-    const response = await fetch(
-      `https://docs.google.com/spreadsheets/d/${spreadsheetId}/gviz/tq?sheet=${encodeURIComponent(worksheetName || 'Sheet1')}&tqx=out:json`,
-      { mode: 'cors' }
-    );
+  const text = await response.text();
+  const data = parseGoogleVisualizationResponse(text);
 
-    if (!response.ok) {
-      return { success: false, error: `HTTP ${response.status}: Sheet not accessible` };
-    }
+  if (!data.table || !data.table.cols) {
+    throw new Error('Invalid sheet structure');
+  }
 
-    const text = await response.text();
-    const data = parseGoogleVisualizationResponse(text);
+  return {
+    columns: data.table.cols.map((col: { id: string; label?: string }) => ({ id: col.id, label: col.label || '' })),
+    rows: (data.table.rows || []).map((row: { c: ({ v: unknown } | null)[] }) => row.c.map(cell => cell?.v ?? null))
+  };
+}
 
-    if (!data.table || !data.table.cols) {
-      return { success: false, error: 'Invalid sheet structure' };
-    }
+/**
+ * Maps raw sheet rows to shipment fields using the same header resolution
+ * and row filter as the sync-google-sheets Edge Function.
+ */
+export function applyColumnMapping(
+  table: SheetTable,
+  profile: ColumnMappingProfile,
+  limit?: number
+): { rows: SheetRow[]; missing: MappedShipmentField[]; resolved: ResolvedColumnMapping } {
+  const resolved = resolveColumnMapping(table.columns, profile);
+  const filterIndex = table.columns.findIndex(col => col.id === resolved.filterColumnId);
+  const mappedFields = Object.keys(resolved.columns) as MappedShipmentField[];
+
+  let sourceRows = table.rows.filter(cells => {
+    if (filterIndex === -1) return true;
+    const value = cells[filterIndex];
+    return value !== null && value !== undefined && value !== '';
+  });
+  if (limit !== undefined) {
+    sourceRows = sourceRows.slice(0, limit);
+  }
 
-    const cols = data.table.cols.map((col: any) => col.label || '');
+  const rows = sourceRows.map(cells => {
+    const row: SheetRow = {};
+    for (const field of mappedFields) {
+      const index = table.columns.indexOf(resolved.columns[field]!);
+      const value = cells[index];
+      row[field] = field === 'start' ? parseWarehouseSheetDate(value) : value?.toString() || '';
+    }
+    return row;
+  });
 
-    const requiredColumns = ['sscc_numbers', 'title', 'start', 'car reg no'];
-    const foundIndexes = requiredColumns.map(name => findColumnIndex(cols, name));
+  return { rows, missing: resolved.missing, resolved };
+}
 
-    const missingColumns = requiredColumns.filter((name, idx) => foundIndexes[idx] === -1);
+export async function testSheetConnection(
+  spreadsheetId: string,
+  worksheetName: string,
+  profile: ColumnMappingProfile = DEFAULT_COLUMN_MAPPING
+): Promise<{ success: boolean; error?: string; rowCount?: number }> {
+  try {
+    const table = await fetchSheetTable(spreadsheetId, worksheetName);
+    const { rows, missing } = applyColumnMapping(table, profile);
 
-    if (missingColumns.length > 0) {
+    if (missing.length > 0) {
       return {
         success: false,
-        error: `Missing required columns: ${missingColumns.join(', ')}. Found: ${cols.join(', ')}`
+        error: `Missing required columns: ${missing.map(field => profile.fields[field] || field).join(', ')}. Found: ${table.columns.map(col => col.label).join(', ')}`
       };
     }
 
-    const rowCount = data.table.rows?.length || 0;
-    return { success: true, rowCount };
-  } catch (error: any) {
-    return { success: false, error: error?.message || 'Failed to parse sheet data' };
+    return { success: true, rowCount: rows.length };
+  } catch (error) {
+    return { success: false, error: (error as Error)?.message || 'Failed to parse sheet data' };
   }
 }
 
-export async function fetchSheetData(
+export async function fetchSheetPreview(
   spreadsheetId: string,
   worksheetName: string
+): Promise<{ success: boolean; table?: SheetTable; error?: string }> {
+  try {
+    const table = await fetchSheetTable(spreadsheetId, worksheetName);
+    return { success: true, table };
+  } catch (error) {
+    return { success: false, error: (error as Error)?.message || 'Failed to parse sheet data' };
+  }
+}
+
+export async function fetchSheetData(
+  spreadsheetId: string,
+  worksheetName: string,
+  profile: ColumnMappingProfile = DEFAULT_COLUMN_MAPPING
 ): Promise<{ success: boolean; data?: SheetRow[]; error?: string }> {
   try {
-    if (!spreadsheetId.trim()) {
-      return { success: false, error: 'Spreadsheet ID is required' };
+    const table = await fetchSheetTable(spreadsheetId, worksheetName);
+    const { rows, missing } = applyColumnMapping(table, profile);
+
+    if (missing.length > 0) {
+      return {
+        success: false,
+        error: `Could not find all required columns. Found: ${table.columns.map(col => col.label).join(', ')}`
+      };
     }
 
-    const response = await fetch(
-      `https://docs.google.com/spreadsheets/d/${spreadsheetId}/gviz/tq?sheet=${encodeURIComponent(worksheetName || 'Sheet1')}&tqx=out:json`,
-      { mode: 'cors' }
-    );
+    return { success: true, data: rows };
+  } catch (error) {
+    return { success: false, error: (error as Error)?.message || 'Failed to parse sheet data' };
+  }
+}
 
-    if (!response.ok) {
-      return { success: false, error: `HTTP ${response.status}: Sheet not accessible` };
-    }
+export async function loadColumnMapping(): Promise<ColumnMappingProfile> {
+  const { data } = await supabase
+    .from('app_settings')
+    .select('value')
+    .eq('key', COLUMN_MAPPING_SETTING_KEY)
+    .maybeSingle();
 
-    const text = await response.text();
-    const data = parseGoogleVisualizationResponse(text);
+  return parseColumnMapping(data?.value);
+}
 
-    if (!data.table) {
-      return { success: false, error: 'Invalid sheet structure' };
-    }
+export async function saveColumnMapping(profile: ColumnMappingProfile): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase
+    .from('app_settings')
+    .upsert([{ key: COLUMN_MAPPING_SETTING_KEY, value: JSON.stringify(profile) }], { onConflict: 'key' });
 
-    const cols = data.table.cols.map((col: any) => col.label || '');
+  if (error) {
+    console.error('Error saving column mapping:', error);
+    return { success: false, error: error.message };
+  }
 
-    const ssccIndex = findColumnIndex(cols, 'sscc_numbers');
-    const titleIndex = findColumnIndex(cols, 'title');
-    const startIndex = findColumnIndex(cols, 'start');
-    const carRegIndex = findColumnIndex(cols, 'car reg no');
+  return { success: true };
+}
 
-    if (ssccIndex === -1 || titleIndex === -1 || startIndex === -1 || carRegIndex === -1) {
-      return {
-        success: false,
-        error: `Could not find all required columns. Found: ${cols.join(', ')}`
-      };
-    }
+export type SyncConflict = {
+  id: string;
+  sync_log_id: string | null;
+  shipment_id: string;
+  row_id: number | null;
+  field: 'status' | 'assigned_operators' | 'storage_location' | 'notes';
+  base_value: string;
+  local_value: string;
+  sheet_value: string;
+  status: 'open' | 'kept_local' | 'kept_sheet';
+  created_at: string;
+  shipment?: { title: string; sscc_numbers: string } | null;
+};
 
-    if (!data.table.rows || data.table.rows.length === 0) {
-      return { success: true, data: [] };
-    }
+type SyncFunctionResult = {
+  success: boolean;
+  error?: string;
+  pushed?: number;
+  conflicts?: number;
+};
 
-    const rows: SheetRow[] = data.table.rows.map((row: any) => ({
-      sscc_numbers: row.c[ssccIndex]?.v?.toString() || '',
-      title: row.c[titleIndex]?.v?.toString() || '',
-      start: parseGoogleSheetDate(row.c[startIndex]?.v),
-      car_reg_no: row.c[carRegIndex]?.v?.toString() || ''
-    }));
+async function invokeSheetSync(body: Record<string, unknown>): Promise<SyncFunctionResult> {
+  try {
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/sync-google-sheets`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body)
+    });
+
+    return await response.json();
+  } catch (error) {
+    return { success: false, error: (error as Error)?.message || 'Sheet sync request failed' };
+  }
+}
 
-    return { success: true, data: rows };
-  } catch (error: any) {
-    return { success: false, error: error?.message || 'Failed to parse sheet data' };
+export async function pushShipmentsToSheet(shipmentIds: string[]): Promise<SyncFunctionResult> {
+  if (shipmentIds.length === 0) {
+    return { success: true, pushed: 0, conflicts: 0 };
+  }
+
+  const result = await invokeSheetSync({ action: 'push', shipmentIds });
+
+  if (!result.success) {
+    console.error('Failed to push shipments to sheet:', result.error);
+  }
+
+  return result;
+}
+
+export async function getOpenSyncConflicts(): Promise<SyncConflict[]> {
+  const { data, error } = await supabase
+    .from('sync_conflicts')
+    .select('*, shipment:shipments(title, sscc_numbers)')
+    .eq('status', 'open')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching sync conflicts:', error);
+    return [];
   }
+
+  return data || [];
+}
+
+export async function resolveSyncConflict(
+  conflictId: string,
+  resolution: 'local' | 'sheet',
+  resolvedBy: string | null
+): Promise<{ success: boolean; error?: string }> {
+  return invokeSheetSync({ action: 'resolve', conflictId, resolution, resolvedBy });
 }
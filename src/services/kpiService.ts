@@ -1,7 +1,56 @@
-import { supabase } from '../lib/supabase';
+import { supabase, Shipment } from '../lib/supabase';
 
 export type IntensityLevel = 'low' | 'medium' | 'high';
 
+export type KpiShipmentType = Shipment['shipment_type'];
+
+export interface KpiWeightSet {
+  id: string;
+  version: number;
+  name: string;
+  /** First completion day (YYYY-MM-DD) the set scores when no version is chosen. */
+  effective_from: string;
+  intensity_points: Partial<Record<IntensityLevel, number>>;
+  category_points: Record<string, number>;
+  shipment_type_points: Partial<Record<KpiShipmentType, number>>;
+  points_per_package: number;
+  max_package_points: number | null;
+  notes: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type KpiWeightSetInput = Pick<
+  KpiWeightSet,
+  'name' | 'effective_from' | 'intensity_points' | 'category_points' | 'shipment_type_points' |
+  'points_per_package' | 'max_package_points' | 'notes'
+>;
+
+export interface WorkShift {
+  id: string;
+  name: string;
+  /** Warehouse-local HH:MM:SS; an end before the start runs past midnight. */
+  start_time: string;
+  end_time: string;
+  active: boolean;
+  sort_order: number;
+  created_at: string;
+}
+
+export interface KpiFilters {
+  startDate?: string;
+  endDate?: string;
+  /** null scores each task with the weight set in effect when it was completed. */
+  weightVersion?: number | null;
+  shiftId?: string | null;
+}
+
+export const DEFAULT_INTENSITY_POINTS: Record<IntensityLevel, number> = {
+  low: 1,
+  medium: 2,
+  high: 3
+};
+
 export interface OperatorPerformance {
   operator_id: string;
   operator_name: string;
@@ -24,6 +73,8 @@ export interface OperatorPerformance {
   first_completion_date: string | null;
   last_completion_date: string | null;
   category_breakdown: CategoryBreakdown[];
+  /** Weight set versions that scored the tasks, more than one when scored as recorded. */
+  weight_versions?: number[];
 }
 
 export interface CategoryBreakdown {
@@ -72,11 +123,49 @@ export interface ShipmentStats {
   total_points: number;
 }
 
+export type KpiBucket = 'day' | 'week';
+
+/** One operator's performance in one warehouse day or week (Monday start). */
+export interface OperatorPerformancePoint {
+  /** YYYY-MM-DD of the first day of the bucket. */
+  bucket_start: string;
+  operator_id: string;
+  operator_name: string;
+  operator_color: string;
+  task_count: number;
+  score: number;
+  /** Clock hours in which the operator completed at least one task. */
+  active_hours: number;
+  category_breakdown: { category: string; task_count: number; category_score: number }[];
+}
+
+/** One operator's handling time on one completed task, from their work sessions. */
+export interface TaskHandlingTime {
+  operator_id: string;
+  operator_name: string;
+  operator_color: string;
+  shipment_id: string;
+  title: string;
+  category: string;
+  package_count: number;
+  completed_at: string;
+  session_count: number;
+  handling_minutes: number;
+  minutes_per_package: number | null;
+  category_task_count: number;
+  category_median_minutes: number;
+  category_median_minutes_per_package: number | null;
+  /** Against the category median; null when normal or the category has too few timed tasks. */
+  outlier: 'slow' | 'fast' | null;
+}
+
 export class KPIService {
-  async getAllOperatorPerformance(): Promise<OperatorPerformance[]> {
+  async getAllOperatorPerformance(weightVersion?: number | null): Promise<OperatorPerformance[]> {
     console.log('🔄 KPI Service: Fetching all operator performance...');
 
-    const { data, error } = await supabase.rpc('get_operator_performance');
+    const { data, error } = await supabase.rpc('get_operator_performance', {
+      p_weight_version: weightVersion ?? null
+    });
 
     if (error) {
       console.error('❌ KPI Service: Error fetching operator performance:', error);
@@ -105,8 +194,10 @@ export class KPIService {
     return data?.[0] || null;
   }
 
-  async getCategoryStatistics(): Promise<CategoryStatistics[]> {
-    const { data, error } = await supabase.rpc('get_category_statistics');
+  async getCategoryStatistics(weightVersion?: number | null): Promise<CategoryStatistics[]> {
+    const { data, error } = await supabase.rpc('get_category_statistics', {
+      p_weight_version: weightVersion ?? null
+    });
 
     if (error) {
       console.error('Error fetching category statistics:', error);
@@ -136,13 +227,12 @@ export class KPIService {
     }
   }
 
-  async getFilteredOperatorPerformance(
-    startDate?: string,
-    endDate?: string
-  ): Promise<OperatorPerformance[]> {
+  async getFilteredOperatorPerformance(filters: KpiFilters = {}): Promise<OperatorPerformance[]> {
     const { data, error } = await supabase.rpc('get_filtered_operator_performance', {
-      p_start_date: startDate || null,
-      p_end_date: endDate || null
+      p_start_date: filters.startDate || null,
+      p_end_date: filters.endDate || null,
+      p_weight_version: filters.weightVersion ?? null,
+      p_shift_id: filters.shiftId || null
     });
 
     if (error) {
@@ -153,10 +243,12 @@ export class KPIService {
     return data || [];
   }
 
-  async getShipmentStats(startDate?: string, endDate?: string): Promise<ShipmentStats> {
+  async getShipmentStats(filters: KpiFilters = {}): Promise<ShipmentStats> {
     const { data, error } = await supabase.rpc('get_total_shipment_stats', {
-      p_start_date: startDate || null,
-      p_end_date: endDate || null
+      p_start_date: filters.startDate || null,
+      p_end_date: filters.endDate || null,
+      p_weight_version: filters.weightVersion ?? null,
+      p_shift_id: filters.shiftId || null
     });
 
     if (error) {
@@ -174,6 +266,45 @@ export class KPIService {
     };
   }
 
+  async getPerformanceTimeSeries(
+    bucket: KpiBucket,
+    filters: KpiFilters = {}
+  ): Promise<OperatorPerformancePoint[]> {
+    const { data, error } = await supabase.rpc('get_operator_performance_timeseries', {
+      p_start_date: filters.startDate || null,
+      p_end_date: filters.endDate || null,
+      p_bucket: bucket,
+      p_weight_version: filters.weightVersion ?? null,
+      p_shift_id: filters.shiftId || null
+    });
+
+    if (error) {
+      console.error('Error fetching performance time series:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  async getTaskHandlingTimes(
+    filters: Omit<KpiFilters, 'weightVersion'> = {},
+    outlierFactor = 2
+  ): Promise<TaskHandlingTime[]> {
+    const { data, error } = await supabase.rpc('get_task_handling_times', {
+      p_start_date: filters.startDate || null,
+      p_end_date: filters.endDate || null,
+      p_shift_id: filters.shiftId || null,
+      p_outlier_factor: outlierFactor
+    });
+
+    if (error) {
+      console.error('Error fetching task handling times:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
   async getCategoryList(): Promise<TaskCategory[]> {
     const { data, error } = await supabase.rpc('get_category_list');
 
@@ -238,17 +369,107 @@ export class KPIService {
     return data;
   }
 
-  getIntensityPoints(intensity: IntensityLevel): number {
-    switch (intensity) {
-      case 'high':
-        return 3;
-      case 'medium':
-        return 2;
-      case 'low':
-        return 1;
-      default:
-        return 0;
+  async getWeightSets(): Promise<KpiWeightSet[]> {
+    const { data, error } = await supabase
+      .from('kpi_weight_sets')
+      .select('*')
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching KPI weight sets:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  /** Publishes the input as the next version. Existing versions are never changed. */
+  async createWeightSet(input: KpiWeightSetInput): Promise<KpiWeightSet> {
+    const { data, error } = await supabase.rpc('create_kpi_weight_set', {
+      p_name: input.name,
+      p_effective_from: input.effective_from,
+      p_intensity_points: input.intensity_points,
+      p_category_points: input.category_points,
+      p_shipment_type_points: input.shipment_type_points,
+      p_points_per_package: input.points_per_package,
+      p_max_package_points: input.max_package_points,
+      p_notes: input.notes
+    });
+
+    if (error) {
+      console.error('Error creating KPI weight set:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async getShifts(): Promise<WorkShift[]> {
+    const { data, error } = await supabase
+      .from('work_shifts')
+      .select('*')
+      .order('sort_order')
+      .order('start_time');
+
+    if (error) {
+      console.error('Error fetching work shifts:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  async saveShift(shift: Pick<WorkShift, 'name' | 'start_time' | 'end_time' | 'active'> & { id?: string }): Promise<void> {
+    const values = {
+      name: shift.name.trim(),
+      start_time: shift.start_time,
+      end_time: shift.end_time,
+      active: shift.active
+    };
+
+    const { error } = shift.id
+      ? await supabase.from('work_shifts').update(values).eq('id', shift.id)
+      : await supabase.from('work_shifts').insert(values);
+
+    if (error) {
+      console.error('Error saving work shift:', error);
+      throw error;
+    }
+  }
+
+  async deleteShift(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('work_shifts')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting work shift:', error);
+      throw error;
+    }
+  }
+
+  /** "06:00–14:00" for a shift. */
+  formatShiftHours(shift: Pick<WorkShift, 'start_time' | 'end_time'>): string {
+    return `${shift.start_time.slice(0, 5)}–${shift.end_time.slice(0, 5)}`;
+  }
+
+  /**
+   * The set that scores tasks completed on the given day (YYYY-MM-DD), the
+   * same choice kpi_weight_set_for makes in the database.
+   */
+  getEffectiveWeightSet(weightSets: KpiWeightSet[], day: string): KpiWeightSet | null {
+    const byEffectiveDate = [...weightSets].sort((a, b) =>
+      b.effective_from.localeCompare(a.effective_from) || b.version - a.version
+    );
+    return byEffectiveDate.find(set => set.effective_from <= day) || byEffectiveDate[byEffectiveDate.length - 1] || null;
+  }
+
+  getIntensityPoints(intensity: IntensityLevel, weightSet?: KpiWeightSet | null): number {
+    if (weightSet) {
+      return weightSet.intensity_points[intensity] ?? 0;
     }
+    return DEFAULT_INTENSITY_POINTS[intensity] ?? 0;
   }
 
   getIntensityLabel(intensity: IntensityLevel): string {
@@ -0,0 +1,152 @@
+import { supabase, StorageLocation, StorageLocationOccupancy } from '../lib/supabase';
+
+export type OccupancyLevel = 'free' | 'full' | 'over';
+
+export interface LocationCheck {
+  valid: boolean;
+  location?: StorageLocationOccupancy;
+  error?: string;
+}
+
+class LocationService {
+  async getLocations(includeInactive = false): Promise<StorageLocation[]> {
+    try {
+      let query = supabase
+        .from('storage_locations')
+        .select('*')
+        .order('zone')
+        .order('aisle')
+        .order('bay')
+        .order('code');
+
+      if (!includeInactive) {
+        query = query.eq('active', true);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      return data || [];
+    } catch (error) {
+      console.error('Error loading storage locations:', error);
+      return [];
+    }
+  }
+
+  /** Every registered location with the number of packages currently stored there. */
+  async getOccupancy(): Promise<StorageLocationOccupancy[]> {
+    try {
+      const { data, error } = await supabase
+        .from('storage_location_occupancy')
+        .select('*')
+        .order('zone')
+        .order('aisle')
+        .order('bay')
+        .order('code');
+
+      if (error) throw error;
+
+      return data || [];
+    } catch (error) {
+      console.error('Error loading storage location occupancy:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Creates or updates a location. Without an explicit code the code is built
+   * from the hierarchy, e.g. zone "ML2", aisle "B", bay "1" → "ML2-B-1".
+   */
+  async saveLocation(
+    location: Partial<StorageLocation> & { zone: string }
+  ): Promise<{ success: boolean; location?: StorageLocation; error?: string }> {
+    try {
+      const zone = location.zone.trim();
+      const aisle = (location.aisle || '').trim();
+      const bay = (location.bay || '').trim();
+      const code = (location.code || '').trim() || this.buildCode(zone, aisle, bay);
+
+      if (!zone || !code) {
+        throw new Error('Zone and code are required');
+      }
+
+      const payload = {
+        code,
+        zone,
+        aisle,
+        bay,
+        capacity: location.capacity ?? 10,
+        blocked: location.blocked ?? false,
+        active: location.active ?? true,
+        notes: location.notes ?? '',
+        updated_at: new Date().toISOString()
+      };
+
+      const { data, error } = location.id
+        ? await supabase.from('storage_locations').update(payload).eq('id', location.id).select().single()
+        : await supabase.from('storage_locations').insert(payload).select().single();
+
+      if (error) throw error;
+
+      return { success: true, location: data };
+    } catch (error) {
+      console.error('Error saving storage location:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  buildCode(zone: string, aisle: string, bay: string): string {
+    return [zone, aisle, bay].map(part => part.trim()).filter(Boolean).join('-');
+  }
+
+  /** Case-insensitive lookup, matching the database's normalisation. */
+  findLocation<T extends Pick<StorageLocation, 'code'>>(locations: T[], code: string): T | undefined {
+    const needle = code.trim().toLowerCase();
+    if (!needle) return undefined;
+    return locations.find(location => location.code.toLowerCase() === needle);
+  }
+
+  getOccupancyLevel(occupied: number, capacity: number): OccupancyLevel {
+    if (occupied > capacity) return 'over';
+    if (occupied >= capacity) return 'full';
+    return 'free';
+  }
+
+  /**
+   * Checks that `adding` more packages can be put into the location with the
+   * given code on top of those already stored there. With `adding` = 0 only
+   * the blocked/active flags are checked.
+   */
+  checkLocation(
+    locations: StorageLocationOccupancy[],
+    code: string,
+    adding = 1
+  ): LocationCheck {
+    if (!code.trim()) {
+      return { valid: false, error: 'No storage location selected' };
+    }
+
+    const location = this.findLocation(locations, code);
+
+    if (!location) {
+      return { valid: false, error: `Unknown storage location "${code.trim()}"` };
+    }
+    if (!location.active) {
+      return { valid: false, location, error: `${location.code} is inactive` };
+    }
+    if (location.blocked) {
+      return { valid: false, location, error: `${location.code} is blocked` };
+    }
+    if (adding > 0 && location.occupied + adding > location.capacity) {
+      return {
+        valid: false,
+        location,
+        error: `${location.code} has room for ${Math.max(location.capacity - location.occupied, 0)} more package(s), ${adding} assigned`
+      };
+    }
+
+    return { valid: true, location };
+  }
+}
+
+export const locationService = new LocationService();
@@ -0,0 +1,140 @@
+import { supabase, Package } from '../lib/supabase';
+import type { PackageStatus } from '../../supabase/functions/_shared/packageLifecycle.ts';
+
+export type { PackageStatus };
+export {
+  MAIN_PACKAGE_PATH,
+  HOLD_STATUSES,
+  STORAGE_STATUSES,
+  PACKAGE_STATUS_LABELS,
+  getAllowedTransitions,
+  canTransition,
+  canWalkTo,
+  isPackageStatus
+} from '../../supabase/functions/_shared/packageLifecycle.ts';
+
+export interface PackageStatusHistoryEntry {
+  id: string;
+  package_id: string;
+  shipment_id: string | null;
+  from_status: PackageStatus | null;
+  to_status: PackageStatus;
+  reason: string;
+  changed_by: string | null;
+  changed_at: string;
+  changed_by_name?: string | null;
+  shipment_title?: string | null;
+}
+
+const HISTORY_CHUNK_SIZE = 200;
+
+class PackageLifecycleService {
+  /**
+   * Moves a package to a new status through the transition_package_status
+   * RPC. With `through`, intermediate states on the main path are walked and
+   * logged one by one (e.g. expected → received → putaway → stored).
+   */
+  async transition(
+    packageId: string,
+    toStatus: PackageStatus,
+    options: { reason?: string; storageLocation?: string; through?: boolean } = {}
+  ): Promise<{ success: boolean; package?: Package; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('transition_package_status', {
+        p_package_id: packageId,
+        p_to_status: toStatus,
+        p_reason: options.reason ?? null,
+        p_storage_location: options.storageLocation ?? null,
+        p_through: options.through ?? false
+      });
+
+      if (error) throw error;
+
+      return { success: true, package: data };
+    } catch (error) {
+      console.error('Error transitioning package status:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /** Status history of all package rows sharing the given SSCC, oldest first. */
+  async getHistoryForSscc(ssccNumber: string): Promise<PackageStatusHistoryEntry[]> {
+    try {
+      const { data: packageRows, error: packagesError } = await supabase
+        .from('packages')
+        .select('id')
+        .eq('sscc_number', ssccNumber);
+
+      if (packagesError) throw packagesError;
+
+      return this.getHistory((packageRows || []).map(p => p.id));
+    } catch (error) {
+      console.error('Error loading package history:', error);
+      return [];
+    }
+  }
+
+  async getHistory(packageIds: string[]): Promise<PackageStatusHistoryEntry[]> {
+    if (packageIds.length === 0) return [];
+
+    try {
+      const data: (Omit<PackageStatusHistoryEntry, 'shipment_title' | 'changed_by_name'> & {
+        shipment: { title: string } | null;
+      })[] = [];
+
+      // Chunked so long id lists stay within URL length limits
+      for (let i = 0; i < packageIds.length; i += HISTORY_CHUNK_SIZE) {
+        const { data: chunk, error } = await supabase
+          .from('package_status_history')
+          .select('*, shipment:shipments(title)')
+          .in('package_id', packageIds.slice(i, i + HISTORY_CHUNK_SIZE))
+          .order('changed_at', { ascending: true });
+
+        if (error) throw error;
+        data.push(...(chunk || []));
+      }
+
+      data.sort((a, b) => a.changed_at.localeCompare(b.changed_at));
+
+      const userIds = [...new Set(data.map(h => h.changed_by).filter(Boolean))];
+      const { data: profiles } = userIds.length > 0
+        ? await supabase.from('user_profiles').select('id, full_name, email').in('id', userIds)
+        : { data: [] };
+
+      const profileMap = new Map((profiles || []).map(p => [p.id, p.full_name || p.email]));
+
+      return data.map(({ shipment, ...entry }) => ({
+        ...entry,
+        shipment_title: shipment?.title ?? null,
+        changed_by_name: entry.changed_by ? profileMap.get(entry.changed_by) ?? null : null
+      }));
+    } catch (error) {
+      console.error('Error loading package history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Collapses history from several package rows (the inbound row and the
+   * outgoing shipment's manifest row) into one timeline, dropping repeated
+   * steps.
+   */
+  mergeTimeline(entries: PackageStatusHistoryEntry[]): PackageStatusHistoryEntry[] {
+    const sorted = [...entries].sort((a, b) => a.changed_at.localeCompare(b.changed_at));
+    const seen = new Set<PackageStatus>();
+    const timeline: PackageStatusHistoryEntry[] = [];
+
+    for (const entry of sorted) {
+      const previous = timeline[timeline.length - 1];
+      if (previous && previous.to_status === entry.to_status) continue;
+      // A manifest row starting at a step the package already passed adds nothing
+      if (entry.from_status === null && seen.has(entry.to_status)) continue;
+      seen.add(entry.to_status);
+      timeline.push(entry);
+    }
+
+    return timeline;
+  }
+}
+
+export const packageLifecycleService = new PackageLifecycleService();
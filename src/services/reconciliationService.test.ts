@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { RECONCILIATION_ISSUE_LABELS, reconciliationService } from './reconciliationService';
+
+describe('parseBookedSsccs', () => {
+  it('splits, trims and keeps duplicates in booking order', () => {
+    expect(reconciliationService.parseBookedSsccs(' A, B ,,A,')).toEqual(['A', 'B', 'A']);
+  });
+
+  it('treats a missing booking as empty', () => {
+    expect(reconciliationService.parseBookedSsccs(null)).toEqual([]);
+    expect(reconciliationService.parseBookedSsccs(undefined)).toEqual([]);
+    expect(reconciliationService.parseBookedSsccs('')).toEqual([]);
+  });
+});
+
+describe('reconcile', () => {
+  it('matches a receipt that scanned exactly the booking', () => {
+    const result = reconciliationService.reconcile(['A', 'B'], ['B', 'A']);
+    expect(result.matched).toEqual(['A', 'B']);
+    expect(result.hasDiscrepancies).toBe(false);
+    expect(result.lines).toEqual([
+      { sscc: 'A', booked: 1, scanned: 1, issues: [] },
+      { sscc: 'B', booked: 1, scanned: 1, issues: [] }
+    ]);
+  });
+
+  it('sorts SSCCs into missing, unexpected and duplicates', () => {
+    const result = reconciliationService.reconcile(['A', 'B', 'C', 'C'], ['A', 'A', 'C', 'D']);
+    expect(result.matched).toEqual([]);
+    expect(result.missing).toEqual(['B']);
+    expect(result.unexpected).toEqual(['D']);
+    expect(result.duplicates).toEqual(['A', 'C']);
+    expect(result.hasDiscrepancies).toBe(true);
+  });
+
+  it('flags an SSCC booked twice and never scanned as both missing and duplicate', () => {
+    const { lines } = reconciliationService.reconcile(['A', 'A'], []);
+    expect(lines).toEqual([{ sscc: 'A', booked: 2, scanned: 0, issues: ['missing', 'duplicate'] }]);
+  });
+
+  it('lists booked SSCCs before unexpected ones', () => {
+    const { lines } = reconciliationService.reconcile(['B', 'A'], ['X', 'A']);
+    expect(lines.map(line => line.sscc)).toEqual(['B', 'A', 'X']);
+  });
+});
+
+describe('getDeviation', () => {
+  it('records nothing for a reconciled line', () => {
+    expect(reconciliationService.getDeviation({ sscc: 'A', booked: 1, scanned: 1, issues: [] })).toBeNull();
+  });
+
+  it('records a missing package as a high priority quantity deviation', () => {
+    expect(reconciliationService.getDeviation({ sscc: 'A', booked: 1, scanned: 0, issues: ['missing'] })).toEqual({
+      deviation_type: 'wrong_quantity',
+      priority: 'high',
+      description: 'Found by receipt reconciliation. Package A was booked but not received.'
+    });
+  });
+
+  it('records an unexpected package as missing from the booking', () => {
+    expect(reconciliationService.getDeviation({ sscc: 'X', booked: 0, scanned: 2, issues: ['unexpected', 'duplicate'] })).toEqual({
+      deviation_type: 'missing_from_booking',
+      priority: 'medium',
+      description: 'Found by receipt reconciliation. Package X was received but is not on the booking. SSCC X was booked 0 times and scanned 2 times.'
+    });
+  });
+
+  it('records a duplicate as a quantity deviation', () => {
+    expect(reconciliationService.getDeviation({ sscc: 'A', booked: 1, scanned: 2, issues: ['duplicate'] })).toEqual({
+      deviation_type: 'wrong_quantity',
+      priority: 'medium',
+      description: 'Found by receipt reconciliation. SSCC A was booked 1 time and scanned 2 times.'
+    });
+  });
+});
+
+describe('RECONCILIATION_ISSUE_LABELS', () => {
+  it('labels every issue', () => {
+    expect(Object.keys(RECONCILIATION_ISSUE_LABELS).sort()).toEqual(['duplicate', 'missing', 'unexpected']);
+  });
+});
@@ -0,0 +1,117 @@
+import { DeviationType, DeviationPriority } from './deviationService';
+
+export type ReconciliationIssue = 'missing' | 'unexpected' | 'duplicate';
+
+export interface ReconciliationLine {
+  sscc: string;
+  /** How many times the SSCC appears in the booking. */
+  booked: number;
+  /** How many times it was scanned on receipt. */
+  scanned: number;
+  issues: ReconciliationIssue[];
+}
+
+export interface ReconciliationResult {
+  lines: ReconciliationLine[];
+  matched: string[];
+  missing: string[];
+  unexpected: string[];
+  duplicates: string[];
+  hasDiscrepancies: boolean;
+}
+
+export interface ReconciliationDeviation {
+  deviation_type: DeviationType;
+  priority: DeviationPriority;
+  description: string;
+}
+
+export const RECONCILIATION_ISSUE_LABELS: Record<ReconciliationIssue, string> = {
+  missing: 'Missing',
+  unexpected: 'Unexpected',
+  duplicate: 'Duplicate'
+};
+
+const countOccurrences = (values: string[]) => {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return counts;
+};
+
+const times = (count: number) => `${count} time${count === 1 ? '' : 's'}`;
+
+class ReconciliationService {
+  /** The booked SSCCs of a shipment, in booking order, duplicates kept. */
+  parseBookedSsccs(ssccNumbers: string | null | undefined): string[] {
+    return (ssccNumbers || '')
+      .split(',')
+      .map(sscc => sscc.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Compares the booked SSCCs with every scan made on receipt, duplicates
+   * included. Booked but never scanned is missing, scanned but not booked is
+   * unexpected, and an SSCC booked or scanned more than once is a duplicate.
+   */
+  reconcile(booked: string[], scanned: string[]): ReconciliationResult {
+    const bookedCounts = countOccurrences(booked);
+    const scannedCounts = countOccurrences(scanned);
+    const ssccs = [...new Set([...booked, ...scanned])];
+
+    const lines = ssccs.map(sscc => {
+      const line: ReconciliationLine = {
+        sscc,
+        booked: bookedCounts.get(sscc) || 0,
+        scanned: scannedCounts.get(sscc) || 0,
+        issues: []
+      };
+
+      if (line.booked > 0 && line.scanned === 0) line.issues.push('missing');
+      if (line.booked === 0 && line.scanned > 0) line.issues.push('unexpected');
+      if (line.booked > 1 || line.scanned > 1) line.issues.push('duplicate');
+
+      return line;
+    });
+
+    const withIssue = (issue: ReconciliationIssue) =>
+      lines.filter(line => line.issues.includes(issue)).map(line => line.sscc);
+
+    return {
+      lines,
+      matched: lines.filter(line => line.issues.length === 0).map(line => line.sscc),
+      missing: withIssue('missing'),
+      unexpected: withIssue('unexpected'),
+      duplicates: withIssue('duplicate'),
+      hasDiscrepancies: lines.some(line => line.issues.length > 0)
+    };
+  }
+
+  /**
+   * The deviation to record for one line, or null when it reconciles. An
+   * unexpected package wasn't on the booking (missing_from_booking); missing
+   * packages and duplicates mean the booked quantity is off (wrong_quantity).
+   */
+  getDeviation(line: ReconciliationLine): ReconciliationDeviation | null {
+    if (line.issues.length === 0) return null;
+
+    const details: string[] = [];
+    if (line.issues.includes('missing')) {
+      details.push(`Package ${line.sscc} was booked but not received.`);
+    }
+    if (line.issues.includes('unexpected')) {
+      details.push(`Package ${line.sscc} was received but is not on the booking.`);
+    }
+    if (line.issues.includes('duplicate')) {
+      details.push(`SSCC ${line.sscc} was booked ${times(line.booked)} and scanned ${times(line.scanned)}.`);
+    }
+
+    return {
+      deviation_type: line.issues.includes('unexpected') ? 'missing_from_booking' : 'wrong_quantity',
+      priority: line.issues.includes('missing') ? 'high' : 'medium',
+      description: `Found by receipt reconciliation. ${details.join(' ')}`
+    };
+  }
+}
+
+export const reconciliationService = new ReconciliationService();
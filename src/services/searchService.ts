@@ -0,0 +1,77 @@
+import { supabase } from '../lib/supabase';
+
+export type SearchResultType = 'shipment' | 'package' | 'deviation' | 'vehicle';
+
+export interface SearchResult {
+  result_type: SearchResultType;
+  /** Record id, or the registration for vehicles. */
+  result_id: string;
+  title: string;
+  subtitle: string;
+  matched_field: string;
+  matched_value: string | null;
+  rank: number;
+  shipment_id: string | null;
+  status: string | null;
+  occurred_at: string | null;
+}
+
+export interface SearchResultGroup {
+  type: SearchResultType;
+  label: string;
+  results: SearchResult[];
+}
+
+/** Group labels; groups are listed by their best match, not in this order. */
+export const SEARCH_RESULT_GROUPS: Record<SearchResultType, string> = {
+  shipment: 'Shipments',
+  package: 'Packages',
+  deviation: 'Deviations',
+  vehicle: 'Vehicles'
+};
+
+export const SEARCH_MATCHED_FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  car_reg_no: 'Car Reg',
+  storage_location: 'Location',
+  sscc_numbers: 'SSCC',
+  sscc_number: 'SSCC',
+  notes: 'Notes',
+  operator: 'Operator',
+  description: 'Description'
+};
+
+export const MIN_SEARCH_LENGTH = 2;
+
+class SearchService {
+  async search(query: string, limitPerType = 10): Promise<SearchResultGroup[]> {
+    if (query.trim().length < MIN_SEARCH_LENGTH) return [];
+
+    try {
+      const { data, error } = await supabase.rpc('global_search', {
+        p_query: query,
+        p_limit: limitPerType
+      });
+
+      if (error) throw error;
+
+      const results = (data || []) as SearchResult[];
+
+      return (Object.keys(SEARCH_RESULT_GROUPS) as SearchResultType[])
+        .map(type => ({
+          type,
+          label: SEARCH_RESULT_GROUPS[type],
+          results: results
+            .filter(result => result.result_type === type)
+            .sort((a, b) => b.rank - a.rank)
+        }))
+        .filter(group => group.results.length > 0)
+        .sort((a, b) => b.results[0].rank - a.results[0].rank);
+    } catch (error) {
+      console.error('Error running global search:', error);
+      return [];
+    }
+  }
+}
+
+export const searchService = new SearchService();
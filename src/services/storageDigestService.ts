@@ -0,0 +1,188 @@
+import { supabase } from '../lib/supabase';
+import {
+  DIGEST_CHANNEL_SETTING_KEY,
+  DIGEST_RECIPIENTS_SETTING_KEY,
+  DIGEST_WEBHOOK_URL_SETTING_KEY,
+  digestItemsToCsv,
+  parseDigestChannel
+} from '../../supabase/functions/_shared/storageDigest.ts';
+import type {
+  DigestChannel,
+  DigestDeliveryStatus,
+  DigestItem
+} from '../../supabase/functions/_shared/storageDigest.ts';
+import { DWELL_LIMIT_SOURCE_LABELS } from '../../supabase/functions/_shared/dwellLimits.ts';
+
+export type { DigestChannel, DigestDeliveryStatus, DigestItem };
+export { DIGEST_CHANNEL_LABELS } from '../../supabase/functions/_shared/storageDigest.ts';
+
+export interface StorageDigest {
+  id: string;
+  digest_date: string;
+  generated_at: string;
+  total_stored: number;
+  overdue_count: number;
+  expiring_count: number;
+  items: DigestItem[];
+  delivery_channel: DigestChannel;
+  delivery_status: DigestDeliveryStatus;
+  delivery_error: string;
+  delivered_at: string | null;
+}
+
+export interface DigestDeliverySettings {
+  channel: DigestChannel;
+  webhookUrl: string;
+  recipients: string;
+}
+
+type DigestFunctionResult = {
+  success: boolean;
+  error?: string;
+  digestId?: string;
+  delivery?: { status: DigestDeliveryStatus; error?: string };
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char] as string));
+
+class StorageDigestService {
+  async getDigests(limit = 30): Promise<StorageDigest[]> {
+    try {
+      const { data, error } = await supabase
+        .from('storage_digests')
+        .select('*')
+        .order('digest_date', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return data || [];
+    } catch (error) {
+      console.error('Error loading storage digests:', error);
+      return [];
+    }
+  }
+
+  async getDeliverySettings(): Promise<DigestDeliverySettings> {
+    const { data, error } = await supabase
+      .from('app_settings')
+      .select('key, value')
+      .in('key', [DIGEST_CHANNEL_SETTING_KEY, DIGEST_WEBHOOK_URL_SETTING_KEY, DIGEST_RECIPIENTS_SETTING_KEY]);
+
+    if (error) {
+      console.error('Error loading digest settings:', error);
+    }
+
+    const settings = Object.fromEntries((data || []).map(s => [s.key, s.value]));
+    return {
+      channel: parseDigestChannel(settings[DIGEST_CHANNEL_SETTING_KEY]),
+      webhookUrl: settings[DIGEST_WEBHOOK_URL_SETTING_KEY] || '',
+      recipients: settings[DIGEST_RECIPIENTS_SETTING_KEY] || ''
+    };
+  }
+
+  async saveDeliverySettings(settings: DigestDeliverySettings): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.from('app_settings').upsert([
+        { key: DIGEST_CHANNEL_SETTING_KEY, value: settings.channel },
+        { key: DIGEST_WEBHOOK_URL_SETTING_KEY, value: settings.webhookUrl.trim() },
+        { key: DIGEST_RECIPIENTS_SETTING_KEY, value: settings.recipients.trim() }
+      ], { onConflict: 'key' });
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error saving digest settings:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /** Builds today's digest now instead of waiting for the scheduled run. */
+  async generate(deliver: boolean): Promise<DigestFunctionResult> {
+    return this.invoke({ action: 'generate', deliver });
+  }
+
+  async resend(digestId: string): Promise<DigestFunctionResult> {
+    return this.invoke({ action: 'deliver', digestId });
+  }
+
+  exportCsv(digest: StorageDigest) {
+    const blob = new Blob([digestItemsToCsv(digest.items)], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `storage-digest-${digest.digest_date}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  }
+
+  /** Opens a printable version of the digest; the browser's print dialog saves it as PDF. */
+  exportPdf(digest: StorageDigest): boolean {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return false;
+
+    const rows = digest.items.map(item => `
+      <tr class="${item.overdue ? 'overdue' : ''}">
+        <td>${escapeHtml(item.sscc)}</td>
+        <td>${escapeHtml(item.title)}</td>
+        <td>${escapeHtml(item.location)}</td>
+        <td>${item.arrival}</td>
+        <td>${item.expires}</td>
+        <td class="num">${item.days_left}</td>
+        <td>${item.limit_days}d (${DWELL_LIMIT_SOURCE_LABELS[item.limit_source]})</td>
+      </tr>`).join('');
+
+    printWindow.document.write(`<!DOCTYPE html>
+<html>
+<head>
+  <title>Storage digest ${digest.digest_date}</title>
+  <style>
+    body { font-family: sans-serif; font-size: 12px; margin: 24px; }
+    h1 { font-size: 18px; margin-bottom: 4px; }
+    table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+    th, td { border: 1px solid #cbd5e1; padding: 4px 6px; text-align: left; }
+    th { background: #f1f5f9; }
+    td.num { text-align: right; }
+    tr.overdue td { background: #fee2e2; }
+  </style>
+</head>
+<body>
+  <h1>Storage digest ${digest.digest_date}</h1>
+  <p>${digest.total_stored} package(s) in storage, ${digest.overdue_count} overdue, ${digest.expiring_count} nearing their limit.
+  Generated ${new Date(digest.generated_at).toLocaleString()}.</p>
+  <table>
+    <thead>
+      <tr><th>Package ID</th><th>Description</th><th>Location</th><th>Arrival</th><th>Expires</th><th>Days Left</th><th>Limit</th></tr>
+    </thead>
+    <tbody>${rows || '<tr><td colspan="7">No packages need attention.</td></tr>'}</tbody>
+  </table>
+</body>
+</html>`);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+    return true;
+  }
+
+  private async invoke(body: Record<string, unknown>): Promise<DigestFunctionResult> {
+    try {
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/storage-digest`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body)
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error invoking storage digest:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+}
+
+export const storageDigestService = new StorageDigestService();
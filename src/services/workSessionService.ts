@@ -0,0 +1,104 @@
+import { supabase, ShipmentWorkSession } from '../lib/supabase';
+
+export interface OperatorWorkState {
+  operatorId: string;
+  operatorName: string;
+  /** The open session, null while paused or not started. */
+  openSession: ShipmentWorkSession | null;
+  sessionCount: number;
+  /** Worked milliseconds, counting an open session up to `now`. */
+  workedMs: number;
+}
+
+class WorkSessionService {
+  async getSessions(shipmentId: string): Promise<ShipmentWorkSession[]> {
+    try {
+      const { data, error } = await supabase
+        .from('shipment_work_sessions')
+        .select('*')
+        .eq('shipment_id', shipmentId)
+        .order('started_at');
+
+      if (error) throw error;
+
+      return data || [];
+    } catch (error) {
+      console.error('Error loading work sessions:', error);
+      return [];
+    }
+  }
+
+  /** Starts or resumes one operator; a pending shipment moves to in_progress. */
+  async startSession(
+    shipmentId: string,
+    operatorId: string
+  ): Promise<{ success: boolean; session?: ShipmentWorkSession; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('start_work_session', {
+        p_shipment_id: shipmentId,
+        p_operator_id: operatorId
+      });
+
+      if (error) throw error;
+
+      return { success: true, session: data };
+    } catch (error) {
+      console.error('Error starting work session:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  async pauseSession(
+    shipmentId: string,
+    operatorId: string
+  ): Promise<{ success: boolean; session?: ShipmentWorkSession; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('pause_work_session', {
+        p_shipment_id: shipmentId,
+        p_operator_id: operatorId
+      });
+
+      if (error) throw error;
+
+      return { success: true, session: data };
+    } catch (error) {
+      console.error('Error pausing work session:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /** Work state per operator, in the given operator order. */
+  getOperatorStates(
+    operators: Array<{ id: string; name: string }>,
+    sessions: ShipmentWorkSession[],
+    now: Date = new Date()
+  ): OperatorWorkState[] {
+    return operators.map(operator => {
+      const own = sessions.filter(s => s.operator_id === operator.id);
+      return {
+        operatorId: operator.id,
+        operatorName: operator.name,
+        openSession: own.find(s => !s.ended_at) || null,
+        sessionCount: own.length,
+        workedMs: own.reduce((sum, s) => sum + this.getSessionMs(s, now), 0)
+      };
+    });
+  }
+
+  getSessionMs(session: ShipmentWorkSession, now: Date = new Date()): number {
+    const end = session.ended_at ? new Date(session.ended_at).getTime() : now.getTime();
+    return Math.max(0, end - new Date(session.started_at).getTime());
+  }
+
+  /** "1h 05m", "12m" or "<1m". */
+  formatDuration(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    if (minutes < 1) return '<1m';
+    const hours = Math.floor(minutes / 60);
+    return hours > 0
+      ? `${hours}h ${String(minutes % 60).padStart(2, '0')}m`
+      : `${minutes}m`;
+  }
+}
+
+export const workSessionService = new WorkSessionService();
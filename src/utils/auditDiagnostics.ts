@@ -0,0 +1,126 @@
+/**
+ * Audit Log Integrity Diagnostics Utility
+ *
+ * Usage in browser console:
+ *
+ * import { auditDiagnostics } from './utils/auditDiagnostics';
+ *
+ * // Verify every hash-chained audit table
+ * await auditDiagnostics.runFullDiagnostic();
+ *
+ * // Verify one table
+ * await auditDiagnostics.checkChain('shipment_audit_log');
+ */
+
+import { supabase } from '../lib/supabase';
+import {
+  AUDIT_CHAIN_BREAK_LABELS,
+  AUDIT_CHAIN_TABLES,
+  AuditChainTable,
+  AuditChainVerification
+} from '../services/auditService';
+
+interface DiagnosticResult {
+  component: string;
+  status: 'OK' | 'WARNING' | 'ERROR' | 'INFO';
+  message: string;
+  details?: unknown;
+  timestamp: Date;
+}
+
+class AuditDiagnostics {
+  private results: DiagnosticResult[] = [];
+
+  private log(component: string, status: DiagnosticResult['status'], message: string, details?: unknown) {
+    const result: DiagnosticResult = {
+      component,
+      status,
+      message,
+      details,
+      timestamp: new Date()
+    };
+    this.results.push(result);
+
+    const emoji = status === 'OK' ? '✅' : status === 'WARNING' ? '⚠️' : status === 'ERROR' ? '❌' : 'ℹ️';
+    console.log(`${emoji} [${component}] ${message}`, details || '');
+
+    return result;
+  }
+
+  async checkChain(table: AuditChainTable) {
+    const component = AUDIT_CHAIN_TABLES[table];
+    console.group(`🔗 ${component} Hash Chain`);
+    try {
+      const startTime = performance.now();
+      const { data, error } = await supabase.rpc('verify_audit_chain', { p_table: table });
+      const loadTime = performance.now() - startTime;
+
+      if (error) {
+        this.log(component, 'ERROR', 'Failed to verify hash chain', error);
+        console.groupEnd();
+        return false;
+      }
+
+      const result = data as AuditChainVerification;
+
+      if (result.first_break) {
+        this.log(component, 'ERROR', `First broken link: ${AUDIT_CHAIN_BREAK_LABELS[result.first_break.reason]}`, {
+          ...result.first_break,
+          verifiedBeforeBreak: result.checked - 1
+        });
+      } else if (result.checked === 0) {
+        this.log(component, 'INFO', 'No entries to verify', null);
+      } else {
+        this.log(component, 'OK', `${result.checked} entries verified`, {
+          verifyTime: `${loadTime.toFixed(2)}ms`
+        });
+      }
+
+      console.groupEnd();
+      return result.valid;
+    } catch (error) {
+      this.log(component, 'ERROR', 'Exception during chain verification', error);
+      console.groupEnd();
+      return false;
+    }
+  }
+
+  async runFullDiagnostic() {
+    console.log('%c🔍 AUDIT LOG INTEGRITY CHECK', 'font-size: 20px; font-weight: bold; color: #3B82F6;');
+
+    this.results = [];
+    const checkResults = [];
+
+    for (const table of Object.keys(AUDIT_CHAIN_TABLES) as AuditChainTable[]) {
+      checkResults.push({ table, intact: await this.checkChain(table) });
+    }
+
+    console.table(checkResults);
+
+    const broken = checkResults.filter(r => !r.intact).length;
+    if (broken === 0) {
+      console.log('\n%c✅ AUDIT LOG INTACT', 'font-size: 14px; font-weight: bold; color: #10B981;');
+    } else {
+      console.log('\n%c❌ AUDIT LOG HAS BEEN ALTERED', 'font-size: 14px; font-weight: bold; color: #EF4444;');
+    }
+
+    return {
+      intact: broken === 0,
+      checkResults,
+      results: this.results
+    };
+  }
+
+  getResults() {
+    return this.results;
+  }
+}
+
+// Export singleton instance
+export const auditDiagnostics = new AuditDiagnostics();
+
+// Make available globally for console debugging
+if (typeof window !== 'undefined') {
+  (window as unknown as { auditDiagnostics: AuditDiagnostics }).auditDiagnostics = auditDiagnostics;
+  console.log('💡 Audit Diagnostics available: auditDiagnostics.runFullDiagnostic()');
+}
@@ -0,0 +1,21 @@
+/**
+ * Access to the browser's BarcodeDetector API (Chromium-based browsers),
+ * which is not in the TypeScript DOM lib yet.
+ */
+
+export type DetectedBarcode = { rawValue: string };
+
+export type BarcodeDetectorInstance = {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+};
+
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorInstance;
+
+export function getBarcodeDetector(): BarcodeDetectorConstructor | undefined {
+  if (typeof window === 'undefined') return undefined;
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+}
+
+export function isCameraScanSupported(): boolean {
+  return !!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia;
+}
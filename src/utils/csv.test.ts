@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { detectDelimiter, parseCsv, toCsvCell } from './csv';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('sscc,title\n123,Pallet A\n456,Pallet B')).toEqual([
+      ['sscc', 'title'],
+      ['123', 'Pallet A'],
+      ['456', 'Pallet B']
+    ]);
+  });
+
+  it('keeps delimiters, line breaks and doubled quotes inside quoted fields', () => {
+    expect(parseCsv('"a,b","line one\nline two","say ""hi"""')).toEqual([
+      ['a,b', 'line one\nline two', 'say "hi"']
+    ]);
+  });
+
+  it('ignores whitespace before an opening quote', () => {
+    expect(parseCsv('1,  "quoted"')).toEqual([['1', 'quoted']]);
+  });
+
+  it('accepts CRLF, LF and CR line endings', () => {
+    expect(parseCsv('a,b\r\nc,d\re,f\ng,h')).toEqual([['a', 'b'], ['c', 'd'], ['e', 'f'], ['g', 'h']]);
+  });
+
+  it('strips a leading byte order mark', () => {
+    expect(parseCsv('\uFEFFsscc\n123')).toEqual([['sscc'], ['123']]);
+  });
+
+  it('drops fully empty lines but keeps rows of empty cells', () => {
+    expect(parseCsv('a,b\n\n  \n,\nc,d\n')).toEqual([['a', 'b'], ['', ''], ['c', 'd']]);
+  });
+
+  it('uses the given delimiter', () => {
+    expect(parseCsv('a;1,5\nb;2,25', ';')).toEqual([['a', '1,5'], ['b', '2,25']]);
+    expect(parseCsv('a\tb', '\t')).toEqual([['a', 'b']]);
+  });
+});
+
+describe('toCsvCell', () => {
+  it('leaves plain values unquoted', () => {
+    expect(toCsvCell('Pallet A')).toBe('Pallet A');
+  });
+
+  it('quotes values with delimiters, quotes or line breaks', () => {
+    expect(toCsvCell('a,b')).toBe('"a,b"');
+    expect(toCsvCell('say "hi"')).toBe('"say ""hi"""');
+    expect(toCsvCell('two\nlines')).toBe('"two\nlines"');
+    expect(toCsvCell('a;b', ';')).toBe('"a;b"');
+    expect(toCsvCell('a,b', ';')).toBe('a,b');
+  });
+
+  it('round-trips through parseCsv', () => {
+    const values = ['plain', 'a,b', 'say "hi"', 'two\r\nlines', ''];
+    expect(parseCsv(values.map(value => toCsvCell(value)).join(','))).toEqual([values]);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('recognises comma, semicolon, tab and pipe files', () => {
+    expect(detectDelimiter('sscc,title\n1,A')).toBe(',');
+    expect(detectDelimiter('sscc;title\n1;A')).toBe(';');
+    expect(detectDelimiter('sscc\ttitle\n1\tA')).toBe('\t');
+    expect(detectDelimiter('sscc|title\n1|A')).toBe('|');
+  });
+
+  it('picks semicolons over the decimal commas in their values', () => {
+    expect(detectDelimiter('sscc;weight;volume\n1;12,5;0,75\n2;3,25;1,5')).toBe(';');
+  });
+
+  it('ignores delimiters inside quoted fields', () => {
+    expect(detectDelimiter('sscc;title\n1;"Pallet, A"\n2;"B, C"')).toBe(';');
+  });
+
+  it('falls back to a comma for single-column files', () => {
+    expect(detectDelimiter('sscc\n1\n2')).toBe(',');
+  });
+});
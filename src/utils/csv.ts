@@ -0,0 +1,111 @@
+/**
+ * RFC 4180 CSV parsing and delimiter detection.
+ *
+ * Handles quoted fields containing delimiters, line breaks and doubled quotes,
+ * CRLF/LF/CR line endings and a leading byte order mark. Fully empty lines are
+ * dropped; everything else keeps its cell count so row numbers line up with
+ * the source file.
+ */
+
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+  };
+
+  const endRow = () => {
+    endField();
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field.trim() === '') {
+      // Whitespace before an opening quote is not part of the value
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\r') {
+      endRow();
+      if (input[i + 1] === '\n') i++;
+    } else if (char === '\n') {
+      endRow();
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/** Quotes a value for CSV output when it contains a delimiter, quote or line break. */
+export function toCsvCell(value: string, delimiter = ','): string {
+  return /["\r\n]/.test(value) || value.includes(delimiter)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+const DETECTION_SAMPLE_LENGTH = 10000;
+
+/**
+ * Guesses the delimiter from the start of the text: the candidate that splits
+ * the header into several columns and keeps the most following rows at the
+ * same width wins. Semicolon files with decimal commas therefore resolve to
+ * ';' because their header contains no commas.
+ */
+export function detectDelimiter(text: string): string {
+  let sample = text.slice(0, DETECTION_SAMPLE_LENGTH);
+  if (text.length > DETECTION_SAMPLE_LENGTH) {
+    sample = sample.slice(0, Math.max(sample.lastIndexOf('\n'), 0));
+  }
+
+  let best = ',';
+  let bestScore = 0;
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const rows = parseCsv(sample, delimiter);
+    const width = rows[0]?.length ?? 0;
+    if (width < 2) continue;
+
+    const score = rows.filter(row => row.length === width).length * width;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,77 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {
+    from: () => ({
+      select: () => ({
+        in: () => Promise.resolve({
+          data: [
+            { key: 'warehouse_timezone', value: 'Europe/Oslo' },
+            { key: 'date_input_format', value: 'DMY' }
+          ],
+          error: null
+        })
+      })
+    })
+  }
+}));
+
+import {
+  addWarehouseDays,
+  formatWarehouseDate,
+  fromWarehouseInputValue,
+  getDateSettings,
+  getWarehouseWeekday,
+  loadDateSettings,
+  parseWarehouseDate,
+  parseWarehouseSheetDate,
+  startOfWarehouseDay,
+  startOfWarehouseWeek,
+  toWarehouseDateKey,
+  toWarehouseInputValue
+} from './dateTime';
+
+describe('warehouse date helpers', () => {
+  beforeAll(async () => {
+    await loadDateSettings();
+  });
+
+  it('uses the settings loaded from app_settings', () => {
+    expect(getDateSettings()).toEqual({ timeZone: 'Europe/Oslo', inputFormat: 'DMY' });
+  });
+
+  it('switches the warehouse day at local midnight', () => {
+    expect(toWarehouseDateKey(new Date('2026-10-19T21:59:59Z'))).toBe('2026-10-19');
+    expect(toWarehouseDateKey(new Date('2026-10-19T22:00:00Z'))).toBe('2026-10-20');
+    expect(startOfWarehouseDay(new Date('2026-10-20T05:00:00Z')).toISOString()).toBe('2026-10-19T22:00:00.000Z');
+  });
+
+  it('keeps warehouse days whole across DST transitions', () => {
+    const autumn = startOfWarehouseDay(new Date('2026-10-25T12:00:00Z'));
+    expect(autumn.toISOString()).toBe('2026-10-24T22:00:00.000Z');
+    expect(addWarehouseDays(autumn, 1).toISOString()).toBe('2026-10-25T23:00:00.000Z');
+    expect(toWarehouseDateKey(addWarehouseDays(autumn, 1))).toBe('2026-10-26');
+  });
+
+  it('counts late Sunday evening to the week that started on Monday', () => {
+    const sundayEvening = new Date('2026-10-25T22:30:00Z');
+    expect(getWarehouseWeekday(sundayEvening)).toBe(0);
+    expect(startOfWarehouseWeek(sundayEvening).toISOString()).toBe('2026-10-18T22:00:00.000Z');
+  });
+
+  it('parses typed and sheet dates day-first', () => {
+    expect(parseWarehouseDate('05/03/2026 08:00')?.toISOString()).toBe('2026-03-05T07:00:00.000Z');
+    expect(parseWarehouseDate('03/13/2026')).toBeNull();
+    expect(parseWarehouseSheetDate('Date(2026,2,29,12,0,0)')).toBe('2026-03-29T10:00:00.000Z');
+  });
+
+  it('converts datetime-local values in the warehouse timezone', () => {
+    expect(fromWarehouseInputValue('2026-03-29T03:30')).toBe('2026-03-29T01:30:00.000Z');
+    expect(toWarehouseInputValue('2026-03-29T01:30:00.000Z')).toBe('2026-03-29T03:30');
+  });
+
+  it('formats in the warehouse timezone', () => {
+    expect(formatWarehouseDate('2026-10-19T22:30:00Z', { hour: '2-digit', minute: '2-digit' })).toBe('00:30');
+    expect(formatWarehouseDate(null, { hour: '2-digit' })).toBe('N/A');
+  });
+});
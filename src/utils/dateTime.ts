@@ -0,0 +1,108 @@
+/**
+ * Warehouse date/time helpers for the web app.
+ *
+ * Wraps the shared module used by the Edge Functions and keeps the warehouse
+ * timezone and date input format from app_settings in memory, so synchronous
+ * helpers such as week filters can use them once loadDateSettings() has run.
+ */
+
+import { supabase } from '../lib/supabase';
+import {
+  DATE_FORMAT_SETTING_KEY,
+  DEFAULT_DATE_SETTINGS,
+  TIMEZONE_SETTING_KEY,
+  addZonedDays,
+  buildDateSettings,
+  fromZonedInputValue,
+  getZonedParts,
+  getZonedWeekday,
+  parseDateString,
+  parseSheetDate,
+  startOfZonedDay,
+  startOfZonedMonth,
+  startOfZonedWeek,
+  toZonedInputValue
+} from '../../supabase/functions/_shared/dateTime.ts';
+import type { DateInputFormat, DateSettings } from '../../supabase/functions/_shared/dateTime.ts';
+
+export type { DateInputFormat, DateSettings };
+export { DATE_FORMAT_SETTING_KEY, DEFAULT_DATE_SETTINGS, TIMEZONE_SETTING_KEY, isValidTimeZone } from '../../supabase/functions/_shared/dateTime.ts';
+
+let currentSettings: DateSettings = DEFAULT_DATE_SETTINGS;
+
+export async function loadDateSettings(): Promise<DateSettings> {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('key, value')
+    .in('key', [TIMEZONE_SETTING_KEY, DATE_FORMAT_SETTING_KEY]);
+
+  if (error) {
+    console.error('Error loading date settings:', error);
+    return currentSettings;
+  }
+
+  const settings = Object.fromEntries((data || []).map(s => [s.key, s.value]));
+  currentSettings = buildDateSettings(settings[TIMEZONE_SETTING_KEY], settings[DATE_FORMAT_SETTING_KEY]);
+  return currentSettings;
+}
+
+export function getDateSettings(): DateSettings {
+  return currentSettings;
+}
+
+export function parseWarehouseDate(value: string): Date | null {
+  return parseDateString(value, currentSettings);
+}
+
+export function parseWarehouseSheetDate(value: unknown): string {
+  return parseSheetDate(value, currentSettings);
+}
+
+export function startOfWarehouseDay(date: Date = new Date()): Date {
+  return startOfZonedDay(date, currentSettings.timeZone);
+}
+
+export function startOfWarehouseWeek(date: Date = new Date()): Date {
+  return startOfZonedWeek(date, currentSettings.timeZone);
+}
+
+export function startOfWarehouseMonth(date: Date = new Date(), monthOffset = 0): Date {
+  return startOfZonedMonth(date, currentSettings.timeZone, monthOffset);
+}
+
+export function addWarehouseDays(date: Date, days: number): Date {
+  return addZonedDays(date, days, currentSettings.timeZone);
+}
+
+export function getWarehouseParts(date: Date = new Date()) {
+  return getZonedParts(date, currentSettings.timeZone);
+}
+
+/** Day of week in the warehouse timezone, 0 = Sunday. */
+export function getWarehouseWeekday(date: Date = new Date()): number {
+  return getZonedWeekday(date, currentSettings.timeZone);
+}
+
+/** YYYY-MM-DD of the instant's warehouse calendar day, e.g. for file names. */
+export function toWarehouseDateKey(date: Date = new Date()): string {
+  return toZonedInputValue(date, currentSettings.timeZone).slice(0, 10);
+}
+
+export function toWarehouseInputValue(value: string | Date | null): string {
+  return toZonedInputValue(value, currentSettings.timeZone);
+}
+
+export function fromWarehouseInputValue(value: string): string {
+  return fromZonedInputValue(value, currentSettings.timeZone);
+}
+
+export function formatWarehouseDate(
+  value: string | Date | null,
+  options: Intl.DateTimeFormatOptions,
+  fallback = 'N/A'
+): string {
+  if (!value) return fallback;
+  const date = typeof value === 'string' ? new Date(value) : value;
+  if (isNaN(date.getTime())) return fallback;
+  return date.toLocaleString('en-GB', { ...options, timeZone: currentSettings.timeZone });
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { GS1_GROUP_SEPARATOR, gs1CheckDigit, isValidSscc, looksLikeGs1Barcode, parseScannedCode } from './gs1';
+
+const SSCC = '376123450000012347';
+const GTIN = '07612345000015';
+const GS = GS1_GROUP_SEPARATOR;
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+const parse = (raw: string, allowLegacyCodes = true) => parseScannedCode(raw, { allowLegacyCodes, now: NOW });
+
+describe('check digits', () => {
+  it('computes the GS1 mod-10 check digit', () => {
+    // EAN-13 4006381333931
+    expect(gs1CheckDigit('400638133393')).toBe(1);
+    expect(gs1CheckDigit(SSCC.slice(0, -1))).toBe(7);
+  });
+
+  it('validates SSCCs by length, digits and check digit', () => {
+    expect(isValidSscc(SSCC)).toBe(true);
+    expect(isValidSscc('376123450000012348')).toBe(false);
+    expect(isValidSscc(SSCC.slice(1))).toBe(false);
+    expect(isValidSscc('37612345000001234A')).toBe(false);
+  });
+});
+
+describe('parseScannedCode', () => {
+  it('accepts a bare SSCC', () => {
+    expect(parse(` ${SSCC} `)).toEqual({ valid: true, code: SSCC, gs1: true, fields: { sscc: SSCC } });
+  });
+
+  it('reads the human-readable form with bracketed identifiers', () => {
+    expect(parse(`(00) ${SSCC} (02)${GTIN}(37)12(10)LOT 7`)).toEqual({
+      valid: true,
+      code: SSCC,
+      gs1: true,
+      fields: { sscc: SSCC, contentGtin: GTIN, count: 12, batch: 'LOT7' }
+    });
+  });
+
+  it('reads raw element strings behind a symbology identifier or a leading FNC1', () => {
+    expect(parse(`]C100${SSCC}1526033110ABC${GS}3712`)).toEqual({
+      valid: true,
+      code: SSCC,
+      gs1: true,
+      fields: { sscc: SSCC, bestBefore: '2026-03-31', batch: 'ABC', count: 12 }
+    });
+    expect(parse(`${GS}00${SSCC}`)).toMatchObject({ valid: true, code: SSCC });
+  });
+
+  it('reads dates with day 00 and the century nearest the current year', () => {
+    expect(parse(`(00)${SSCC}(17)260200`)).toMatchObject({ fields: { expiry: '2026-02-28' } });
+    expect(parse(`(00)${SSCC}(15)751231`)).toMatchObject({ fields: { bestBefore: '2075-12-31' } });
+    expect(parse(`(00)${SSCC}(15)991231`)).toMatchObject({ fields: { bestBefore: '1999-12-31' } });
+  });
+
+  it('explains why a barcode was rejected', () => {
+    expect(parse('(00)376123450000012348')).toEqual({ valid: false, error: 'Invalid SSCC check digit: 376123450000012348' });
+    expect(parse(`(02)${GTIN}`)).toEqual({ valid: false, error: 'The barcode has no SSCC (00)' });
+    expect(parse(`(00)${SSCC}(99)X`)).toEqual({ valid: false, error: 'Unsupported application identifier (99)' });
+    expect(parse(`(00)${SSCC}(17)261301`)).toEqual({ valid: false, error: 'Invalid date in (17): 261301' });
+    expect(parse(`(00)${SSCC}1`)).toEqual({ valid: false, error: '(00) must be 18 characters' });
+  });
+
+  it('accepts legacy package codes only when allowed', () => {
+    expect(parse('HU6827')).toEqual({ valid: true, code: 'HU6827', gs1: false, fields: {} });
+    expect(parse('HU6827', false)).toEqual({ valid: false, error: 'Not a package code: HU6827' });
+  });
+
+  it('rejects empty input and short numbers', () => {
+    expect(parse('   ')).toEqual({ valid: false, error: 'Nothing was scanned' });
+    expect(parse('12345')).toEqual({ valid: false, error: 'An SSCC has 18 digits; got 5' });
+  });
+});
+
+describe('looksLikeGs1Barcode', () => {
+  it('tells barcodes from partial codes typed into a search box', () => {
+    expect(looksLikeGs1Barcode(`(00)${SSCC}`)).toBe(true);
+    expect(looksLikeGs1Barcode(`]C100${SSCC}`)).toBe(true);
+    expect(looksLikeGs1Barcode(`00${SSCC}${GS}3712`)).toBe(true);
+    expect(looksLikeGs1Barcode(SSCC)).toBe(true);
+    expect(looksLikeGs1Barcode('37612')).toBe(false);
+    expect(looksLikeGs1Barcode('HU6827')).toBe(false);
+  });
+});
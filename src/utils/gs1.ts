@@ -0,0 +1,237 @@
+/**
+ * GS1-128 barcode parsing and SSCC validation.
+ *
+ * Accepts what scanners and people actually produce: the human-readable form
+ * with bracketed application identifiers (`(00)376...(37)12`), the raw element
+ * string with FNC1 sent as the GS character (optionally behind a `]C1`
+ * symbology identifier), a bare 18-digit SSCC and, when allowed, the legacy
+ * alphanumeric package codes (e.g. HU6827) that predate SSCC labels.
+ */
+
+/** FNC1 / group separator between variable-length elements. */
+export const GS1_GROUP_SEPARATOR = '\x1d';
+
+export interface Gs1Fields {
+  /** AI 00 - Serial Shipping Container Code */
+  sscc?: string;
+  /** AI 02 - GTIN of the trade items contained in the logistic unit */
+  contentGtin?: string;
+  /** AI 37 - Count of trade items contained in the logistic unit */
+  count?: number;
+  /** AI 10 - Batch or lot number */
+  batch?: string;
+  /** AI 15 - Best before date, YYYY-MM-DD */
+  bestBefore?: string;
+  /** AI 17 - Expiration date, YYYY-MM-DD */
+  expiry?: string;
+}
+
+export type ScanParseResult =
+  | { valid: true; code: string; gs1: boolean; fields: Gs1Fields }
+  | { valid: false; error: string };
+
+type ApplicationIdentifier = {
+  field: keyof Gs1Fields;
+  /** Fixed data length, or the maximum for variable-length elements. */
+  length: number;
+  fixed: boolean;
+};
+
+const APPLICATION_IDENTIFIERS: Record<string, ApplicationIdentifier> = {
+  '00': { field: 'sscc', length: 18, fixed: true },
+  '02': { field: 'contentGtin', length: 14, fixed: true },
+  '10': { field: 'batch', length: 20, fixed: false },
+  '15': { field: 'bestBefore', length: 6, fixed: true },
+  '17': { field: 'expiry', length: 6, fixed: true },
+  '37': { field: 'count', length: 8, fixed: false }
+};
+
+const SYMBOLOGY_IDENTIFIER = /^\][A-Za-z][0-9A-Za-z]/;
+const LEGACY_CODE = /^[A-Za-z0-9][A-Za-z0-9\-_./]*$/;
+
+/** GS1 mod-10 check digit for the given digits (without the check digit). */
+export function gs1CheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const digit = Number(digits[digits.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+function hasValidCheckDigit(digits: string): boolean {
+  return gs1CheckDigit(digits.slice(0, -1)) === Number(digits[digits.length - 1]);
+}
+
+export function isValidSscc(value: string): boolean {
+  return /^\d{18}$/.test(value) && hasValidCheckDigit(value);
+}
+
+/**
+ * YYMMDD to YYYY-MM-DD. The century is the one that puts the year within
+ * 49 years before or 50 years after the current year, and day 00 means the
+ * last day of the month, both as the GS1 General Specifications define them.
+ */
+function parseGs1Date(value: string, now: Date): string | null {
+  if (!/^\d{6}$/.test(value)) return null;
+
+  const yy = Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  let day = Number(value.slice(4, 6));
+  if (month < 1 || month > 12) return null;
+
+  const currentYear = now.getFullYear();
+  let year = Math.floor(currentYear / 100) * 100 + yy;
+  if (year - currentYear > 50) year -= 100;
+  else if (year - currentYear < -49) year += 100;
+
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day === 0) day = daysInMonth;
+  if (day > daysInMonth) return null;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function parseElement(ai: string, data: string, fields: Gs1Fields, now: Date): string | null {
+  const definition = APPLICATION_IDENTIFIERS[ai];
+  if (!definition) return `Unsupported application identifier (${ai})`;
+
+  if (definition.fixed ? data.length !== definition.length : data.length === 0 || data.length > definition.length) {
+    return `(${ai}) must be ${definition.fixed ? '' : 'up to '}${definition.length} characters`;
+  }
+
+  switch (ai) {
+    case '00':
+      if (!/^\d{18}$/.test(data)) return 'SSCC (00) must be 18 digits';
+      if (!hasValidCheckDigit(data)) return `Invalid SSCC check digit: ${data}`;
+      fields.sscc = data;
+      break;
+    case '02':
+      if (!/^\d{14}$/.test(data)) return 'Content GTIN (02) must be 14 digits';
+      if (!hasValidCheckDigit(data)) return `Invalid GTIN check digit: ${data}`;
+      fields.contentGtin = data;
+      break;
+    case '37':
+      if (!/^\d+$/.test(data)) return 'Count (37) must be numeric';
+      fields.count = Number(data);
+      break;
+    case '10':
+      fields.batch = data;
+      break;
+    case '15':
+    case '17': {
+      const date = parseGs1Date(data, now);
+      if (!date) return `Invalid date in (${ai}): ${data}`;
+      fields[definition.field as 'bestBefore' | 'expiry'] = date;
+      break;
+    }
+  }
+
+  return null;
+}
+
+function parseBracketed(input: string, fields: Gs1Fields, now: Date): string | null {
+  const pattern = /\((\d{2})\)([^(]*)/g;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(input)) !== null) {
+    if (match.index !== consumed) return 'Unexpected characters between application identifiers';
+    consumed = pattern.lastIndex;
+
+    const error = parseElement(match[1], match[2].replace(/\s+/g, '').split(GS1_GROUP_SEPARATOR).join(''), fields, now);
+    if (error) return error;
+  }
+
+  return consumed === input.length ? null : 'Unexpected characters after the last application identifier';
+}
+
+function parseElementString(input: string, fields: Gs1Fields, now: Date): string | null {
+  let position = 0;
+
+  while (position < input.length) {
+    if (input[position] === GS1_GROUP_SEPARATOR) {
+      position++;
+      continue;
+    }
+
+    const ai = input.slice(position, position + 2);
+    const definition = APPLICATION_IDENTIFIERS[ai];
+    if (!definition) return `Unsupported application identifier (${ai})`;
+    position += 2;
+
+    let data: string;
+    if (definition.fixed) {
+      data = input.slice(position, position + definition.length);
+      position += definition.length;
+    } else {
+      const separator = input.indexOf(GS1_GROUP_SEPARATOR, position);
+      const end = separator === -1 ? input.length : separator;
+      data = input.slice(position, end);
+      position = end;
+    }
+
+    const error = parseElement(ai, data, fields, now);
+    if (error) return error;
+  }
+
+  return null;
+}
+
+/**
+ * Whether text is meant as a barcode, as opposed to a partial SSCC or legacy
+ * code typed into a search box.
+ */
+export function looksLikeGs1Barcode(raw: string): boolean {
+  const input = raw.trim();
+  return input.startsWith('(') ||
+    SYMBOLOGY_IDENTIFIER.test(input) ||
+    input.includes(GS1_GROUP_SEPARATOR) ||
+    /^\d{18,}$/.test(input);
+}
+
+/**
+ * Parses one scanned or typed package code. The result's `code` is what gets
+ * stored as the package's SSCC: the 18 digits for GS1 input, or the legacy
+ * code as entered.
+ */
+export function parseScannedCode(
+  raw: string,
+  options: { allowLegacyCodes?: boolean; now?: Date } = {}
+): ScanParseResult {
+  const { allowLegacyCodes = true, now = new Date() } = options;
+
+  let input = raw.trim();
+  const hasSymbologyIdentifier = SYMBOLOGY_IDENTIFIER.test(input);
+  if (hasSymbologyIdentifier) {
+    input = input.slice(3);
+  }
+  if (input.startsWith(GS1_GROUP_SEPARATOR)) {
+    input = input.slice(1);
+  }
+
+  if (!input) return { valid: false, error: 'Nothing was scanned' };
+
+  const fields: Gs1Fields = {};
+  let error: string | null;
+
+  if (input.startsWith('(')) {
+    error = parseBracketed(input, fields, now);
+  } else if (/^\d{18}$/.test(input) && !hasSymbologyIdentifier) {
+    // A bare SSCC without its (00) identifier
+    error = parseElement('00', input, fields, now);
+  } else if (hasSymbologyIdentifier || input.includes(GS1_GROUP_SEPARATOR) || /^\d{20,}$/.test(input)) {
+    error = parseElementString(input, fields, now);
+  } else if (allowLegacyCodes && LEGACY_CODE.test(input) && /\D/.test(input)) {
+    return { valid: true, code: input, gs1: false, fields: {} };
+  } else if (/^\d+$/.test(input)) {
+    return { valid: false, error: `An SSCC has 18 digits; got ${input.length}` };
+  } else {
+    return { valid: false, error: `Not a package code: ${input}` };
+  }
+
+  if (error) return { valid: false, error };
+  if (!fields.sscc) return { valid: false, error: 'The barcode has no SSCC (00)' };
+
+  return { valid: true, code: fields.sscc, gs1: true, fields };
+}
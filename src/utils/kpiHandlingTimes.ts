@@ -0,0 +1,102 @@
+/**
+ * Handling time summaries built from get_task_handling_times.
+ *
+ * The RPC returns one row per timed task and operator with the category
+ * medians already applied; these helpers roll the rows up per category and
+ * per operator for the dashboard.
+ */
+
+import { TaskHandlingTime } from '../services/kpiService';
+
+export interface CategoryHandlingSummary {
+  category: string;
+  tasks: number;
+  medianMinutes: number;
+  medianMinutesPerPackage: number | null;
+  slow: number;
+  fast: number;
+}
+
+export interface OperatorHandlingSummary {
+  operatorId: string;
+  operatorName: string;
+  operatorColor: string;
+  tasks: number;
+  totalMinutes: number;
+  medianMinutes: number;
+  /** Minutes over packages handled, for tasks that had packages. */
+  minutesPerPackage: number | null;
+  /**
+   * Median of the task's time divided by its category median, so operators
+   * working on different categories can be compared; 1 is typical.
+   */
+  relativeSpeed: number | null;
+  slow: number;
+  fast: number;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+const groupBy = <T>(rows: T[], key: (row: T) => string) => {
+  const groups = new Map<string, T[]>();
+  rows.forEach(row => {
+    const list = groups.get(key(row)) || [];
+    list.push(row);
+    groups.set(key(row), list);
+  });
+  return groups;
+};
+
+/** Per category, most timed tasks first. */
+export function summarizeCategories(rows: TaskHandlingTime[]): CategoryHandlingSummary[] {
+  return [...groupBy(rows, row => row.category).entries()]
+    .map(([category, list]) => ({
+      category,
+      tasks: list.length,
+      medianMinutes: Number(list[0].category_median_minutes),
+      medianMinutesPerPackage: list[0].category_median_minutes_per_package === null
+        ? null
+        : Number(list[0].category_median_minutes_per_package),
+      slow: list.filter(row => row.outlier === 'slow').length,
+      fast: list.filter(row => row.outlier === 'fast').length
+    }))
+    .sort((a, b) => b.tasks - a.tasks);
+}
+
+/** Per operator, fastest relative to the category medians first. */
+export function summarizeOperators(rows: TaskHandlingTime[]): OperatorHandlingSummary[] {
+  return [...groupBy(rows, row => row.operator_id).values()]
+    .map(list => {
+      const withPackages = list.filter(row => row.package_count > 0);
+      const packages = withPackages.reduce((sum, row) => sum + row.package_count, 0);
+      const packageMinutes = withPackages.reduce((sum, row) => sum + Number(row.handling_minutes), 0);
+
+      return {
+        operatorId: list[0].operator_id,
+        operatorName: list[0].operator_name,
+        operatorColor: list[0].operator_color,
+        tasks: list.length,
+        totalMinutes: list.reduce((sum, row) => sum + Number(row.handling_minutes), 0),
+        medianMinutes: median(list.map(row => Number(row.handling_minutes))) ?? 0,
+        minutesPerPackage: packages > 0 ? packageMinutes / packages : null,
+        relativeSpeed: median(list
+          .filter(row => Number(row.category_median_minutes) > 0)
+          .map(row => Number(row.handling_minutes) / Number(row.category_median_minutes))),
+        slow: list.filter(row => row.outlier === 'slow').length,
+        fast: list.filter(row => row.outlier === 'fast').length
+      };
+    })
+    .sort((a, b) => (a.relativeSpeed ?? Infinity) - (b.relativeSpeed ?? Infinity));
+}
+
+/** "45m", "2h 05m"; handling times are in minutes with one decimal. */
+export function formatMinutes(minutes: number): string {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded}m`;
+  return `${Math.floor(rounded / 60)}h ${String(rounded % 60).padStart(2, '0')}m`;
+}
@@ -0,0 +1,143 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { OperatorPerformance } from '../services/kpiService';
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {
+    from: () => ({
+      select: () => ({
+        in: () => Promise.resolve({
+          data: [{ key: 'warehouse_timezone', value: 'Europe/Oslo' }],
+          error: null
+        })
+      })
+    })
+  }
+}));
+
+import { loadDateSettings } from './dateTime';
+import {
+  compareCategories,
+  compareOperatorPerformance,
+  formatDelta,
+  formatKpiPeriod,
+  getKpiPeriod,
+  getPreviousKpiPeriod
+} from './kpiPeriods';
+
+// Only the fields the comparisons read; the rest of the KPI row doesn't matter here
+const operator = (
+  id: string,
+  rank: number | null,
+  categories: Record<string, [tasks: number, score: number]>
+): OperatorPerformance => {
+  const breakdown = Object.entries(categories).map(([category, [tasks, score]]) => ({ category, task_count: tasks, category_score: score }));
+  return {
+    operator_id: id,
+    rank,
+    total_completed_tasks: breakdown.reduce((sum, cat) => sum + cat.task_count, 0),
+    total_score: breakdown.reduce((sum, cat) => sum + cat.category_score, 0),
+    category_breakdown: breakdown
+  } as OperatorPerformance;
+};
+
+const noCustomRange = { from: '', to: '' };
+
+describe('KPI periods', () => {
+  beforeAll(async () => {
+    await loadDateSettings();
+  });
+
+  // 12:00 in Oslo, summer time
+  const now = new Date('2026-10-19T10:00:00Z');
+
+  it('starts rolling ranges at warehouse midnight and runs them up to now', () => {
+    expect(getKpiPeriod('today', noCustomRange, now)).toEqual({
+      start: new Date('2026-10-18T22:00:00Z'),
+      end: now,
+      days: 1
+    });
+    expect(getKpiPeriod('week', noCustomRange, now)).toEqual({
+      start: new Date('2026-10-12T22:00:00Z'),
+      end: now,
+      days: 7
+    });
+  });
+
+  it('keeps the month start at midnight across a DST change', () => {
+    const winter = new Date('2026-11-10T11:00:00Z');
+    expect(getKpiPeriod('month', noCustomRange, winter)?.start).toEqual(new Date('2026-10-11T22:00:00Z'));
+  });
+
+  it('covers whole warehouse days for custom ranges, counting calendar days', () => {
+    expect(getKpiPeriod('custom', { from: '2026-10-24', to: '2026-10-26' }, now)).toEqual({
+      start: new Date('2026-10-23T22:00:00Z'),
+      end: new Date('2026-10-26T22:59:59.999Z'),
+      days: 3
+    });
+  });
+
+  it('has no period for all time or incomplete custom ranges', () => {
+    expect(getKpiPeriod('all', noCustomRange, now)).toBeNull();
+    expect(getKpiPeriod('custom', { from: '2026-10-24', to: '' }, now)).toBeNull();
+    expect(getKpiPeriod('custom', { from: '2026-10-26', to: '2026-10-24' }, now)).toBeNull();
+  });
+
+  it('compares today so far with yesterday up to the same time', () => {
+    const today = getKpiPeriod('today', noCustomRange, now)!;
+    expect(getPreviousKpiPeriod(today)).toEqual({
+      start: new Date('2026-10-17T22:00:00Z'),
+      end: new Date('2026-10-18T10:00:00Z'),
+      days: 1
+    });
+  });
+
+  it('ends the previous custom period before the current one', () => {
+    const period = getKpiPeriod('custom', { from: '2026-10-24', to: '2026-10-26' }, now)!;
+    // Shifting by warehouse days keeps whole seconds, so 23:59:59.999 becomes 23:59:59
+    expect(getPreviousKpiPeriod(period)).toEqual({
+      start: new Date('2026-10-20T22:00:00Z'),
+      end: new Date('2026-10-23T21:59:59Z'),
+      days: 3
+    });
+  });
+
+  it('formats a period as warehouse dates', () => {
+    expect(formatKpiPeriod(getKpiPeriod('today', noCustomRange, now)!)).toBe('19 Oct 2026');
+    expect(formatKpiPeriod(getKpiPeriod('custom', { from: '2026-10-24', to: '2026-10-26' }, now)!)).toBe('24 Oct 2026 – 26 Oct 2026');
+  });
+});
+
+describe('compareOperatorPerformance', () => {
+  it('reports score, task, rank and category changes per operator', () => {
+    const deltas = compareOperatorPerformance(
+      [operator('a', 1, { Picking: [4, 40], Loading: [1, 5] }), operator('b', 2, { Picking: [2, 20] })],
+      [operator('a', 2, { Picking: [2, 30] }), operator('c', 1, { Picking: [9, 90] })]
+    );
+
+    expect(deltas.get('a')).toEqual({ score: 15, tasks: 3, rank: 1, categoryScores: { Picking: 10, Loading: 5 } });
+    expect(deltas.get('b')).toEqual({ score: 20, tasks: 2, rank: null, categoryScores: { Picking: 20 } });
+    expect(deltas.has('c')).toBe(false);
+  });
+});
+
+describe('compareCategories', () => {
+  it('totals categories over operators, largest current score first', () => {
+    expect(compareCategories(
+      [operator('a', 1, { Picking: [4, 40], Loading: [1, 5] }), operator('b', 2, { Picking: [2, 20] })],
+      [operator('a', 1, { Picking: [2, 30], Returns: [3, 12] })]
+    )).toEqual([
+      { category: 'Picking', tasks: 6, score: 60, previousTasks: 2, previousScore: 30 },
+      { category: 'Loading', tasks: 1, score: 5, previousTasks: 0, previousScore: 0 },
+      { category: 'Returns', tasks: 0, score: 0, previousTasks: 3, previousScore: 12 }
+    ]);
+  });
+});
+
+describe('formatDelta', () => {
+  it('signs and rounds changes', () => {
+    expect(formatDelta(12.5)).toBe('+12.5');
+    expect(formatDelta(-3)).toBe('-3');
+    expect(formatDelta(0.001)).toBe('±0');
+    expect(formatDelta(1 / 3)).toBe('+0.33');
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * KPI dashboard periods and period-over-period comparison.
+ *
+ * Periods are built from warehouse calendar days, so "today" and custom
+ * ranges mean the same hours for every user regardless of browser timezone.
+ */
+
+import { OperatorPerformance } from '../services/kpiService';
+import { addWarehouseDays, formatWarehouseDate, fromWarehouseInputValue, startOfWarehouseDay } from './dateTime';
+
+export type KpiTimeRange = 'today' | 'week' | 'month' | 'custom' | 'all';
+
+export interface KpiPeriod {
+  start: Date;
+  /** Inclusive, matching the `<=` end filter of the KPI functions. */
+  end: Date;
+  /** Calendar days covered; the previous period starts this many days earlier. */
+  days: number;
+}
+
+export interface OperatorDelta {
+  score: number;
+  tasks: number;
+  /** Places gained since the previous period, null when the operator had no tasks then. */
+  rank: number | null;
+  /** Score change per category the operator worked in this period. */
+  categoryScores: Record<string, number>;
+}
+
+export interface CategoryComparison {
+  category: string;
+  tasks: number;
+  score: number;
+  previousTasks: number;
+  previousScore: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const startOfInputDay = (day: string): Date | null => {
+  const iso = fromWarehouseInputValue(`${day}T00:00`);
+  return iso ? new Date(iso) : null;
+};
+
+/** The period for a range, or null for all time and incomplete custom ranges. */
+export function getKpiPeriod(
+  range: KpiTimeRange,
+  custom: { from: string; to: string },
+  now: Date = new Date()
+): KpiPeriod | null {
+  const today = startOfWarehouseDay(now);
+
+  switch (range) {
+    case 'today':
+      return { start: today, end: now, days: 1 };
+    // Rolling ranges include today, so the last 7 days start six days back
+    case 'week':
+      return { start: addWarehouseDays(today, -6), end: now, days: 7 };
+    case 'month':
+      return { start: addWarehouseDays(today, -29), end: now, days: 30 };
+    case 'custom': {
+      if (!custom.from || !custom.to || custom.from > custom.to) return null;
+      const start = startOfInputDay(custom.from);
+      const lastDay = startOfInputDay(custom.to);
+      if (!start || !lastDay) return null;
+
+      // Count days on the calendar so a DST change doesn't shorten the range
+      const days = Math.round((Date.parse(custom.to) - Date.parse(custom.from)) / MS_PER_DAY) + 1;
+      return { start, end: new Date(addWarehouseDays(lastDay, 1).getTime() - 1), days };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * The same span immediately before. A rolling period that runs up to now is
+ * compared with the same hours of the earlier days ("today so far" against
+ * yesterday up to this time), never overlapping the current period.
+ */
+export function getPreviousKpiPeriod(period: KpiPeriod): KpiPeriod {
+  const start = addWarehouseDays(period.start, -period.days);
+  const shiftedEnd = addWarehouseDays(period.end, -period.days);
+  const end = new Date(Math.min(shiftedEnd.getTime(), period.start.getTime() - 1));
+  return { start, end, days: period.days };
+}
+
+export function formatKpiPeriod(period: KpiPeriod): string {
+  const options: Intl.DateTimeFormatOptions = { day: '2-digit', month: 'short', year: 'numeric' };
+  const start = formatWarehouseDate(period.start, options);
+  const end = formatWarehouseDate(period.end, options);
+  return start === end ? start : `${start} – ${end}`;
+}
+
+export function compareOperatorPerformance(
+  current: OperatorPerformance[],
+  previous: OperatorPerformance[]
+): Map<string, OperatorDelta> {
+  const previousById = new Map(previous.map(op => [op.operator_id, op]));
+
+  return new Map(current.map(op => {
+    const before = previousById.get(op.operator_id);
+    const previousCategoryScores = new Map(
+      (before?.category_breakdown || []).map(cat => [cat.category, Number(cat.category_score)])
+    );
+
+    return [op.operator_id, {
+      score: Number(op.total_score) - Number(before?.total_score ?? 0),
+      tasks: op.total_completed_tasks - (before?.total_completed_tasks ?? 0),
+      rank: before?.rank && op.rank ? before.rank - op.rank : null,
+      categoryScores: Object.fromEntries((op.category_breakdown || []).map(cat => [
+        cat.category,
+        Number(cat.category_score) - (previousCategoryScores.get(cat.category) ?? 0)
+      ]))
+    }];
+  }));
+}
+
+const totalsByCategory = (performance: OperatorPerformance[]) => {
+  const totals = new Map<string, { tasks: number; score: number }>();
+  performance.forEach(op => {
+    (op.category_breakdown || []).forEach(cat => {
+      const total = totals.get(cat.category) || { tasks: 0, score: 0 };
+      total.tasks += cat.task_count;
+      total.score += Number(cat.category_score);
+      totals.set(cat.category, total);
+    });
+  });
+  return totals;
+};
+
+/** Category totals across all operators for both periods, largest current score first. */
+export function compareCategories(
+  current: OperatorPerformance[],
+  previous: OperatorPerformance[]
+): CategoryComparison[] {
+  const now = totalsByCategory(current);
+  const before = totalsByCategory(previous);
+  const categories = [...new Set([...now.keys(), ...before.keys()])];
+
+  return categories
+    .map(category => ({
+      category,
+      tasks: now.get(category)?.tasks ?? 0,
+      score: now.get(category)?.score ?? 0,
+      previousTasks: before.get(category)?.tasks ?? 0,
+      previousScore: before.get(category)?.score ?? 0
+    }))
+    .sort((a, b) => b.score - a.score || b.previousScore - a.previousScore);
+}
+
+/** "+12.5", "-3" or "±0", rounded to two decimals. */
+export function formatDelta(value: number): string {
+  const rounded = Math.round(value * 100) / 100;
+  if (rounded === 0) return '±0';
+  return rounded > 0 ? `+${rounded}` : `${rounded}`;
+}
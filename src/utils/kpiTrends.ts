@@ -0,0 +1,104 @@
+/**
+ * KPI trend series built from get_operator_performance_timeseries.
+ *
+ * The RPC only returns buckets an operator worked in; these helpers lay the
+ * rows out on a continuous run of warehouse days or weeks so gaps show as
+ * zero instead of being skipped.
+ */
+
+import { KpiBucket, OperatorPerformancePoint } from '../services/kpiService';
+
+export interface TrendBucket {
+  /** YYYY-MM-DD of the first day of the bucket. */
+  key: string;
+  tasks: number;
+  score: number;
+  activeHours: number;
+  /** Tasks per category. */
+  categories: Record<string, number>;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Day keys are plain calendar dates, so UTC arithmetic never crosses a DST change
+const parseDayKey = (key: string) => Date.parse(`${key}T00:00:00Z`);
+const toDayKey = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/** The first day of the bucket holding a day, weeks starting on Monday like Postgres. */
+export function getBucketKey(day: string, bucket: KpiBucket): string {
+  if (bucket === 'day') return day;
+  const time = parseDayKey(day);
+  const daysSinceMonday = (new Date(time).getUTCDay() + 6) % 7;
+  return toDayKey(time - daysSinceMonday * MS_PER_DAY);
+}
+
+/** Every bucket from the one holding firstDay to the one holding lastDay, keeping the last `limit`. */
+export function getBucketKeys(firstDay: string, lastDay: string, bucket: KpiBucket, limit: number): string[] {
+  const step = (bucket === 'day' ? 1 : 7) * MS_PER_DAY;
+  const first = parseDayKey(getBucketKey(firstDay, bucket));
+  const last = parseDayKey(getBucketKey(lastDay, bucket));
+  if (isNaN(first) || isNaN(last) || first > last) return [];
+
+  const start = Math.max(first, last - (limit - 1) * step);
+  const keys: string[] = [];
+  for (let time = start; time <= last; time += step) {
+    keys.push(toDayKey(time));
+  }
+  return keys;
+}
+
+/** Team totals per bucket, or one operator's when operatorId is set. */
+export function buildTrend(
+  points: OperatorPerformancePoint[],
+  keys: string[],
+  operatorId: string | null
+): TrendBucket[] {
+  const buckets = new Map<string, TrendBucket>(
+    keys.map(key => [key, { key, tasks: 0, score: 0, activeHours: 0, categories: {} }])
+  );
+
+  points.forEach(point => {
+    if (operatorId && point.operator_id !== operatorId) return;
+    const bucket = buckets.get(point.bucket_start);
+    if (!bucket) return;
+
+    bucket.tasks += point.task_count;
+    bucket.score += Number(point.score);
+    bucket.activeHours += point.active_hours;
+    (point.category_breakdown || []).forEach(cat => {
+      bucket.categories[cat.category] = (bucket.categories[cat.category] || 0) + cat.task_count;
+    });
+  });
+
+  return [...buckets.values()];
+}
+
+export function getScorePerHour(bucket: TrendBucket): number | null {
+  return bucket.activeHours > 0 ? bucket.score / bucket.activeHours : null;
+}
+
+/**
+ * Percentage change between the average of the first and second half of the
+ * buckets that have a value, or null with fewer than two such buckets.
+ */
+export function getTrendChange(values: (number | null)[]): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length < 2) return null;
+
+  const half = Math.floor(present.length / 2);
+  const average = (list: number[]) => list.reduce((sum, value) => sum + value, 0) / list.length;
+  const before = average(present.slice(0, half));
+  const after = average(present.slice(present.length - half));
+
+  if (before === 0) return null;
+  return ((after - before) / before) * 100;
+}
+
+export function formatBucketLabel(key: string, bucket: KpiBucket): string {
+  const label = new Date(parseDayKey(key)).toLocaleDateString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    timeZone: 'UTC'
+  });
+  return bucket === 'week' ? `Wk ${label}` : label;
+}
@@ -0,0 +1,89 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { JSDOM } from 'jsdom';
+import { createZipStream } from '../../supabase/functions/_shared/zip.ts';
+import { readXlsx } from './xlsx';
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const WORKBOOK_FILES: Record<string, string> = {
+  'xl/workbook.xml': `<?xml version="1.0" encoding="UTF-8"?>
+    <workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">
+      <sheets>
+        <sheet name="Packages" sheetId="1" r:id="rId1"/>
+        <sheet name="Notes" sheetId="2" r:id="rId2"/>
+      </sheets>
+    </workbook>`,
+  'xl/_rels/workbook.xml.rels': `<?xml version="1.0" encoding="UTF-8"?>
+    <Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+      <Relationship Id="rId1" Target="worksheets/sheet1.xml"/>
+      <Relationship Id="rId2" Target="/xl/worksheets/sheet2.xml"/>
+    </Relationships>`,
+  'xl/sharedStrings.xml': `<?xml version="1.0" encoding="UTF-8"?>
+    <sst xmlns="${MAIN_NS}">
+      <si><t>SSCC</t></si>
+      <si><t>Arrival</t></si>
+      <si><r><t>Pallet </t></r><r><t>A</t></r><rPh><t>ignored</t></rPh></si>
+    </sst>`,
+  'xl/styles.xml': `<?xml version="1.0" encoding="UTF-8"?>
+    <styleSheet xmlns="${MAIN_NS}">
+      <numFmts><numFmt numFmtId="164" formatCode="dd/mm/yyyy"/><numFmt numFmtId="165" formatCode="0.00&quot; kg&quot;"/></numFmts>
+      <cellXfs>
+        <xf numFmtId="0"/>
+        <xf numFmtId="164"/>
+        <xf numFmtId="22"/>
+        <xf numFmtId="165"/>
+      </cellXfs>
+    </styleSheet>`,
+  'xl/worksheets/sheet1.xml': `<?xml version="1.0" encoding="UTF-8"?>
+    <worksheet xmlns="${MAIN_NS}">
+      <sheetData>
+        <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c></row>
+        <row r="2"><c r="A2"><v>123456789012345678</v></c><c r="B2" s="1"><v>46041</v></c><c r="C2" t="b"><v>1</v></c></row>
+        <row r="3"><c r="A3" t="inlineStr"><is><t>00123</t></is></c><c r="C3" s="2"><v>46041.5</v></c></row>
+        <row r="4"><c r="A4" t="s"><v>99</v></c></row>
+        <row r="5"><c r="B5" s="3"><v>12.5</v></c><c r="D5" t="str"><v>=SUM()</v></c></row>
+      </sheetData>
+    </worksheet>`
+};
+
+async function createWorkbook(files: Record<string, string>): Promise<ArrayBuffer> {
+  async function* entries() {
+    for (const [name, xml] of Object.entries(files)) {
+      yield { name, data: new Blob([xml]).stream() };
+    }
+  }
+  return new Response(createZipStream(entries())).arrayBuffer();
+}
+
+describe('readXlsx', () => {
+  beforeAll(() => {
+    // Node has no DOMParser; the browser's is stood in for by jsdom's
+    vi.stubGlobal('DOMParser', new JSDOM().window.DOMParser);
+  });
+
+  it('reads every sheet in workbook order, with relative and absolute targets', async () => {
+    const sheets = await readXlsx(await createWorkbook(WORKBOOK_FILES));
+
+    expect(sheets.map(sheet => sheet.name)).toEqual(['Packages', 'Notes']);
+    expect(sheets[1].rows).toEqual([]);
+  });
+
+  it('reads shared, inline, boolean, number and date cells', async () => {
+    const [sheet] = await readXlsx(await createWorkbook(WORKBOOK_FILES));
+
+    expect(sheet.rows).toEqual([
+      ['SSCC', 'Arrival', 'Pallet A'],
+      ['123456789012345678', '2026-01-19', 'TRUE'],
+      ['00123', '', '2026-01-19 12:00'],
+      ['', '12.5', '', '=SUM()']
+    ]);
+  });
+
+  it('rejects files that are not workbooks', async () => {
+    await expect(readXlsx(new TextEncoder().encode('sscc,title').buffer as ArrayBuffer))
+      .rejects.toThrow('Not a valid .xlsx file');
+    await expect(readXlsx(await createWorkbook({ 'word/document.xml': '<document/>' })))
+      .rejects.toThrow('Not an Excel workbook');
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Minimal .xlsx reader for imports.
+ *
+ * An .xlsx file is a zip archive of XML parts. Entries are read with the
+ * shared zip reader and parsed with DOMParser, so no spreadsheet library is
+ * needed. Only cell values are read: shared and inline strings, numbers,
+ * booleans and formula results. Numbers in date formats are returned
+ * as "YYYY-MM-DD" (or "YYYY-MM-DD HH:MM") wall-clock strings, which the
+ * warehouse date parser understands.
+ */
+
+import { readZipDirectory, readZipEntry, type ZipEntry } from '../../supabase/functions/_shared/zip.ts';
+
+export interface SpreadsheetSheet {
+  name: string;
+  rows: string[][];
+}
+
+const RELATIONSHIP_ID_NAMESPACES = [
+  'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  'http://purl.oclc.org/ooxml/officeDocument/relationships'
+];
+
+// Built-in number formats that display dates or times
+const BUILT_IN_DATE_FORMATS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58
+]);
+
+/** Reads every worksheet of an .xlsx workbook, in workbook order. */
+export async function readXlsx(data: ArrayBuffer): Promise<SpreadsheetSheet[]> {
+  const source = new Blob([data]);
+  let entries: Map<string, ZipEntry>;
+  try {
+    entries = await readZipDirectory(source);
+  } catch {
+    throw new Error('Not a valid .xlsx file');
+  }
+
+  const readXml = async (path: string): Promise<Document | null> => {
+    const entry = entries.get(path);
+    if (!entry) return null;
+    const text = new TextDecoder().decode(await readZipEntry(source, entry));
+    return new DOMParser().parseFromString(text, 'application/xml');
+  };
+
+  const workbook = await readXml('xl/workbook.xml');
+  if (!workbook) {
+    throw new Error('Not an Excel workbook (xl/workbook.xml missing)');
+  }
+
+  const [relations, sharedStrings, styles] = await Promise.all([
+    readXml('xl/_rels/workbook.xml.rels'),
+    readXml('xl/sharedStrings.xml'),
+    readXml('xl/styles.xml')
+  ]);
+
+  const targets = new Map<string, string>();
+  for (const rel of elements(relations, 'Relationship')) {
+    const target = rel.getAttribute('Target') || '';
+    targets.set(rel.getAttribute('Id') || '', target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  }
+
+  const strings = elements(sharedStrings, 'si').map(textOf);
+  const dateStyles = readDateStyles(styles);
+  const date1904 = ['1', 'true'].includes(elements(workbook, 'workbookPr')[0]?.getAttribute('date1904') || '');
+
+  const sheets: SpreadsheetSheet[] = [];
+
+  for (const sheet of elements(workbook, 'sheet')) {
+    const relationId = RELATIONSHIP_ID_NAMESPACES
+      .map(ns => sheet.getAttributeNS(ns, 'id'))
+      .find(Boolean);
+    const path = relationId ? targets.get(relationId) : undefined;
+    const document = path ? await readXml(path) : null;
+
+    sheets.push({
+      name: sheet.getAttribute('name') || `Sheet${sheets.length + 1}`,
+      rows: document ? readRows(document, strings, dateStyles, date1904) : []
+    });
+  }
+
+  return sheets;
+}
+
+function elements(document: Document | Element | null, localName: string): Element[] {
+  return document ? Array.from(document.getElementsByTagNameNS('*', localName)) : [];
+}
+
+/** Text of a string item, skipping phonetic runs. */
+function textOf(item: Element): string {
+  return elements(item, 't')
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent || '')
+    .join('');
+}
+
+/** Indexes of cell styles (the `s` attribute) whose number format shows a date. */
+function readDateStyles(styles: Document | null): Set<number> {
+  const customDateFormats = new Set<number>();
+  for (const format of elements(styles, 'numFmt')) {
+    const code = (format.getAttribute('formatCode') || '')
+      .replace(/"[^"]*"/g, '')
+      .replace(/\\./g, '')
+      .replace(/\[[^\]]*\]/g, '');
+    if (/[dmyhs]/i.test(code)) {
+      customDateFormats.add(parseInt(format.getAttribute('numFmtId') || '', 10));
+    }
+  }
+
+  const result = new Set<number>();
+  const cellXfs = elements(styles, 'cellXfs')[0];
+  const xfs = cellXfs ? Array.from(cellXfs.children).filter(el => el.localName === 'xf') : [];
+
+  xfs.forEach((xf, index) => {
+    const formatId = parseInt(xf.getAttribute('numFmtId') || '0', 10);
+    if (BUILT_IN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) {
+      result.add(index);
+    }
+  });
+
+  return result;
+}
+
+function readRows(sheet: Document, strings: string[], dateStyles: Set<number>, date1904: boolean): string[][] {
+  const rows: string[][] = [];
+
+  for (const row of elements(sheet, 'row')) {
+    const values: string[] = [];
+
+    for (const cell of Array.from(row.children).filter(el => el.localName === 'c')) {
+      const ref = cell.getAttribute('r');
+      const column = ref ? columnIndex(ref) : values.length;
+      values[column] = cellValue(cell, strings, dateStyles, date1904);
+    }
+
+    // Blank rows are dropped, the same as empty lines in CSV files
+    const filled = Array.from(values, value => value ?? '');
+    if (filled.some(value => value.trim() !== '')) {
+      rows.push(filled);
+    }
+  }
+
+  return rows;
+}
+
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function cellValue(cell: Element, strings: string[], dateStyles: Set<number>, date1904: boolean): string {
+  const type = cell.getAttribute('t') || 'n';
+  const raw = elements(cell, 'v')[0]?.textContent ?? '';
+
+  switch (type) {
+    case 's':
+      return strings[parseInt(raw, 10)] ?? '';
+    case 'inlineStr': {
+      const inline = elements(cell, 'is')[0];
+      return inline ? textOf(inline) : '';
+    }
+    case 'b':
+      return raw === '1' ? 'TRUE' : 'FALSE';
+    case 'n': {
+      const style = parseInt(cell.getAttribute('s') || '-1', 10);
+      const serial = Number(raw);
+      return raw !== '' && dateStyles.has(style) && !isNaN(serial)
+        ? serialToDateString(serial, date1904)
+        : raw;
+    }
+    default:
+      // Formula strings (str), errors (e) and ISO dates (d) are stored as text
+      return raw;
+  }
+}
+
+/** Converts an Excel serial day number to a wall-clock date string. */
+function serialToDateString(serial: number, date1904: boolean): string {
+  // Serial 25569 is 1970-01-01 in the 1900 date system
+  const days = serial + (date1904 ? 1462 : 0) - 25569;
+  const date = new Date(Math.round(days * 86400) * 1000);
+  const iso = date.toISOString();
+  const time = iso.slice(11, 16);
+
+  return time === '00:00' ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${time}`;
+}
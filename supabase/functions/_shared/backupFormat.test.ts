@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { BACKUP_FORMAT_VERSION, BACKUP_PAGE_SIZE, BACKUP_TABLES, readBackup, writeBackup, type BackupRow } from "./backupFormat.ts";
+
+const id = (n: number) => `00000000-0000-0000-0000-${n.toString().padStart(12, "0")}`;
+
+// Enough shipments to span several pages; every other table is empty
+const SHIPMENTS: BackupRow[] = Array.from({ length: BACKUP_PAGE_SIZE * 2 + 5 }, (_, i) => ({
+  id: id(i + 1),
+  title: `Shipment ${i + 1}`,
+  notes: i % 2 === 0 ? "ÆØÅ\nline two" : null,
+}));
+
+async function createArchive() {
+  const requests: string[] = [];
+  const progress: string[] = [];
+  const { archive, manifest } = writeBackup(async (table, afterId, limit) => {
+    requests.push(`${table}:${afterId ?? ""}`);
+    const rows = table === "shipments" ? SHIPMENTS : [];
+    return rows.filter((row) => afterId === null || row.id > afterId).slice(0, limit);
+  }, (table, rows) => progress.push(`${table}:${rows}`));
+
+  const blob = await new Response(archive).blob();
+  return { blob, manifest, requests, progress };
+}
+
+describe("backup archives", () => {
+  it("writes every table page by page and reads the rows back", async () => {
+    const { blob, manifest, requests, progress } = await createArchive();
+
+    expect(requests.filter((request) => request.startsWith("shipments:"))).toEqual([
+      "shipments:",
+      `shipments:${id(BACKUP_PAGE_SIZE)}`,
+      `shipments:${id(BACKUP_PAGE_SIZE * 2)}`,
+    ]);
+    expect(progress).toHaveLength(BACKUP_TABLES.length);
+    expect(manifest.tables.shipments.rows).toBe(SHIPMENTS.length);
+
+    const backup = await readBackup(blob);
+    expect(backup.manifest).toEqual(manifest);
+    expect(backup.manifest.format_version).toBe(BACKUP_FORMAT_VERSION);
+    expect(backup.tables.shipments).toEqual(SHIPMENTS);
+    expect(backup.tables.operators).toEqual([]);
+    expect(backup.notes).toEqual([]);
+  });
+
+  it("rejects archives whose table files were altered", async () => {
+    const { blob } = await createArchive();
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+
+    // Flip a byte inside the first table file's gzip data, past its 10-byte gzip header
+    const nameEnd = new TextDecoder().decode(bytes.subarray(0, 200)).indexOf(".gz") + 3;
+    bytes[nameEnd + 12] ^= 0xff;
+
+    await expect(readBackup(new Blob([bytes]))).rejects.toThrow("the backup is damaged");
+  });
+
+  it("upgrades version 1 JSON backups", async () => {
+    const legacy = {
+      metadata: { timestamp: "2025-01-01T00:00:00Z" },
+      data: { shipments: [{ id: id(1) }], audit_logs: [{ id: id(2) }] },
+    };
+    const backup = await readBackup(new Blob([JSON.stringify(legacy)]));
+
+    expect(backup.upgradedFrom).toBe(1);
+    expect(backup.tables.shipment_audit_log).toEqual([{ id: id(2) }]);
+    expect(backup.manifest.tables.shipments).toEqual({ file: "", rows: 1, sha256: "" });
+  });
+});
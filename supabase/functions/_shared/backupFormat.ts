@@ -0,0 +1,293 @@
+// Backup archive format.
+//
+// A backup is a zip archive holding one gzipped NDJSON file per table
+// (`tables/<name>.ndjson.gz`, one row per line) and a `manifest.json` with the
+// format version, row counts and a SHA-256 of every table file. Archives are
+// streamed both ways: tables are fetched page by page only as the archive is
+// consumed, and read back entry by entry from a Blob, with checksums computed
+// as the bytes pass. Only the rows read back are held in memory, never the
+// archive or a whole table file.
+//
+// Written by the admin panel (src/services/backupService.ts) and by scheduled
+// backups, and read back by the restore wizard. Older backups are upgraded to
+// the current format version when read; add a step to BACKUP_UPGRADES
+// whenever a table or column is renamed or removed. Only web-standard APIs
+// are used so the file runs in browsers and Edge Functions alike.
+
+import { createSha256, type Sha256 } from "./sha256.ts";
+import { createZipStream, isZip, openZipEntry, readZipDirectory, readZipEntry, type ZipStreamFile } from "./zip.ts";
+
+export const BACKUP_FORMAT = "delivery-system-backup";
+export const BACKUP_FORMAT_VERSION = 2;
+
+/** Backed-up tables in dependency order, parents first. */
+export const BACKUP_TABLES = [
+  "operators",
+  "task_categories",
+  "storage_locations",
+  "dwell_limit_rules",
+  "dock_doors",
+  "work_shifts",
+  "kpi_weight_sets",
+  "import_batches",
+  "shipments",
+  "packages",
+  "package_status_history",
+  "package_deviations",
+  "deviation_history",
+  "shipment_audit_log",
+  "sync_conflicts",
+  "shipment_work_sessions",
+  "operator_assignment_history",
+  "led_welcome_messages",
+  "announcements",
+  "notification_settings",
+  "user_notification_preferences",
+  "storage_digests",
+  "app_settings",
+  "user_profiles",
+  "entity_audit_log",
+] as const;
+
+export const BACKUP_PAGE_SIZE = 1000;
+
+export type BackupRow = Record<string, unknown> & { id: string };
+
+export type BackupTableEntry = {
+  file: string;
+  rows: number;
+  sha256: string;
+};
+
+export type BackupManifest = {
+  format: string;
+  format_version: number;
+  created_at: string;
+  tables: Record<string, BackupTableEntry>;
+};
+
+export type BackupData = {
+  manifest: BackupManifest;
+  tables: Record<string, BackupRow[]>;
+  /** Format version the backup was written in, when it had to be upgraded. */
+  upgradedFrom: number | null;
+  /** Caveats about the contents, e.g. tables older versions did not include. */
+  notes: string[];
+};
+
+/** Returns up to `limit` rows of the table with ids after `afterId`, ordered by id. */
+export type FetchBackupPage = (table: string, afterId: string | null, limit: number) => Promise<BackupRow[]>;
+
+type BackupUpgrade = (data: BackupData) => void;
+
+// Step n upgrades a backup from format version n to n + 1
+const BACKUP_UPGRADES: Record<number, BackupUpgrade> = {
+  1: (data) => {
+    // Version 1 stored the newest 1,000 shipment audit entries as "audit_logs"
+    if (data.tables.audit_logs) {
+      data.tables.shipment_audit_log = data.tables.audit_logs;
+      delete data.tables.audit_logs;
+      data.notes.push("Version 1 backups only hold the newest 1,000 shipment audit log entries.");
+    }
+  },
+};
+
+/** Passes chunks through unchanged, adding them to `hash`. */
+function hashing(hash: Sha256): TransformStream<Uint8Array, Uint8Array> {
+  return new TransformStream({
+    transform(chunk, controller) {
+      hash.update(chunk);
+      controller.enqueue(chunk);
+    },
+  });
+}
+
+/**
+ * Streams every table in BACKUP_TABLES through `fetchPage` into a backup
+ * archive. Pages are fetched only as the archive is read, so memory use does
+ * not grow with the database. The manifest is filled in as tables finish and
+ * written as the last entry; it is complete once `archive` has been read to
+ * the end. `onProgress` is called once per table as it is finished.
+ */
+export function writeBackup(
+  fetchPage: FetchBackupPage,
+  onProgress?: (table: string, rows: number) => void,
+): { archive: ReadableStream<Uint8Array>; manifest: BackupManifest } {
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    format_version: BACKUP_FORMAT_VERSION,
+    created_at: new Date().toISOString(),
+    tables: {},
+  };
+  const encoder = new TextEncoder();
+
+  async function* files(): AsyncGenerator<ZipStreamFile> {
+    for (const table of BACKUP_TABLES) {
+      const file = `tables/${table}.ndjson.gz`;
+      const hash = createSha256();
+      let rows = 0;
+      let afterId: string | null = null;
+
+      const ndjson = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          // Keyset pagination keeps pages stable while rows are being added
+          const page = await fetchPage(table, afterId, BACKUP_PAGE_SIZE);
+          if (page.length > 0) {
+            controller.enqueue(encoder.encode(page.map((row) => JSON.stringify(row) + "\n").join("")));
+            rows += page.length;
+            afterId = page[page.length - 1].id;
+          }
+          if (page.length < BACKUP_PAGE_SIZE) {
+            controller.close();
+          }
+        },
+      });
+
+      yield { name: file, data: ndjson.pipeThrough(new CompressionStream("gzip")).pipeThrough(hashing(hash)) };
+
+      // The zip stream has read the whole file by the time it asks for the next one
+      manifest.tables[table] = { file, rows, sha256: hash.digestHex() };
+      onProgress?.(table, rows);
+    }
+
+    yield { name: "manifest.json", data: new Blob([JSON.stringify(manifest, null, 2)]).stream() };
+  }
+
+  return { archive: createZipStream(files()), manifest };
+}
+
+/**
+ * Reads a backup archive, or a version 1 JSON backup, verifies row counts and
+ * checksums and upgrades it to the current format version. Throws when the
+ * backup is damaged or was written by a newer version of the app.
+ */
+export async function readBackup(source: Blob): Promise<BackupData> {
+  const data = (await isZip(source)) ? await readArchive(source) : readLegacyJson(await source.text());
+  const version = data.manifest.format_version;
+
+  if (version > BACKUP_FORMAT_VERSION) {
+    throw new Error(`Backup format version ${version} is newer than this app supports (${BACKUP_FORMAT_VERSION})`);
+  }
+
+  for (let step = version; step < BACKUP_FORMAT_VERSION; step++) {
+    const upgrade = BACKUP_UPGRADES[step];
+    if (!upgrade) {
+      throw new Error(`No upgrade from backup format version ${step}`);
+    }
+    upgrade(data);
+  }
+
+  // Backups taken before a table was added to BACKUP_TABLES don't hold it
+  const missing = BACKUP_TABLES.filter((table) => !data.tables[table]);
+  if (missing.length > 0) {
+    data.notes.push(`Not included in this backup: ${missing.join(", ")}.`);
+  }
+
+  if (version < BACKUP_FORMAT_VERSION) {
+    data.upgradedFrom = version;
+    data.manifest = {
+      ...data.manifest,
+      format_version: BACKUP_FORMAT_VERSION,
+      tables: Object.fromEntries(
+        Object.entries(data.tables).map(([table, rows]) => [table, { file: "", rows: rows.length, sha256: "" }]),
+      ),
+    };
+  }
+
+  return data;
+}
+
+async function readArchive(source: Blob): Promise<BackupData> {
+  const entries = await readZipDirectory(source);
+  const manifestEntry = entries.get("manifest.json");
+  if (!manifestEntry) {
+    throw new Error("Not a backup archive (manifest.json missing)");
+  }
+
+  const decoder = new TextDecoder();
+  const manifest = JSON.parse(decoder.decode(await readZipEntry(source, manifestEntry))) as BackupManifest;
+  if (manifest.format !== BACKUP_FORMAT || !Number.isInteger(manifest.format_version)) {
+    throw new Error("Not a backup archive created by this system");
+  }
+
+  const tables: Record<string, BackupRow[]> = {};
+
+  for (const [table, info] of Object.entries(manifest.tables || {})) {
+    const entry = entries.get(info.file);
+    if (!entry) {
+      throw new Error(`Backup is incomplete: ${info.file} is missing`);
+    }
+
+    // Hashes the compressed bytes while they are inflated and parsed line by line
+    const hash = createSha256();
+    const rows: BackupRow[] = [];
+    const reader = (await openZipEntry(source, entry))
+      .pipeThrough(hashing(hash))
+      .pipeThrough(new DecompressionStream("gzip"))
+      .pipeThrough(new TextDecoderStream())
+      .getReader();
+    let pending = "";
+
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        const lines = (pending + value).split("\n");
+        pending = lines.pop() ?? "";
+        for (const line of lines) {
+          if (line.trim() !== "") rows.push(JSON.parse(line) as BackupRow);
+        }
+      }
+      if (pending.trim() !== "") rows.push(JSON.parse(pending) as BackupRow);
+    } catch {
+      throw new Error(`Could not read ${table}: the backup is damaged`);
+    }
+
+    if (hash.digestHex() !== info.sha256) {
+      throw new Error(`Checksum mismatch in ${table}: the backup is damaged`);
+    }
+
+    if (rows.length !== info.rows) {
+      throw new Error(`Row count mismatch in ${table}: manifest lists ${info.rows}, file holds ${rows.length}`);
+    }
+
+    tables[table] = rows;
+  }
+
+  return { manifest, tables, upgradedFrom: null, notes: [] };
+}
+
+/** Version 1: a single JSON document `{ metadata, data: { table: rows } }` without checksums. */
+function readLegacyJson(text: string): BackupData {
+  let backup: { metadata?: { timestamp?: string }; data?: Record<string, unknown> };
+
+  try {
+    backup = JSON.parse(text);
+  } catch {
+    throw new Error("The file is neither a backup archive nor valid JSON");
+  }
+
+  if (!backup.metadata || !backup.data || typeof backup.data !== "object") {
+    throw new Error("Invalid backup file format");
+  }
+
+  const tables: Record<string, BackupRow[]> = {};
+  for (const [table, rows] of Object.entries(backup.data)) {
+    if (Array.isArray(rows)) {
+      tables[table] = rows as BackupRow[];
+    }
+  }
+
+  return {
+    manifest: {
+      format: BACKUP_FORMAT,
+      format_version: 1,
+      created_at: backup.metadata.timestamp || "",
+      tables: {},
+    },
+    tables,
+    upgradedFrom: null,
+    notes: ["Version 1 backups carry no checksums, so their integrity cannot be verified."],
+  };
+}
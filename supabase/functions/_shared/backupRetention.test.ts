@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildRetentionPolicy,
+  DEFAULT_BACKUP_RETENTION,
+  selectBackupsToKeep,
+  type BackupRetentionPolicy,
+} from "./backupRetention.ts";
+
+// Europe/Oslo is UTC+2 until 25 October 2026 and UTC+1 afterwards
+const OSLO = "Europe/Oslo";
+const NONE: BackupRetentionPolicy = { daily: 0, weekly: 0, monthly: 0 };
+
+const backups = (...createdAt: string[]) => createdAt.map((created_at) => ({ id: created_at, created_at }));
+const kept = (keep: Map<string, string[]>) => Object.fromEntries(keep);
+
+describe("buildRetentionPolicy", () => {
+  it("reads the counts from the settings", () => {
+    expect(buildRetentionPolicy("3", "2", "0")).toEqual({ daily: 3, weekly: 2, monthly: 0 });
+  });
+
+  it("falls back to the defaults for missing, negative or unreadable values", () => {
+    expect(buildRetentionPolicy(null, "-1", "lots")).toEqual(DEFAULT_BACKUP_RETENTION);
+    expect(buildRetentionPolicy(undefined, "", undefined)).toEqual(DEFAULT_BACKUP_RETENTION);
+  });
+});
+
+describe("selectBackupsToKeep", () => {
+  it("keeps nothing when there are no backups", () => {
+    expect(selectBackupsToKeep([], DEFAULT_BACKUP_RETENTION, OSLO).size).toBe(0);
+  });
+
+  it("always keeps the newest backup, whatever the order they are listed in", () => {
+    const keep = selectBackupsToKeep(backups("2026-10-18T10:00:00Z", "2026-10-20T10:00:00Z"), NONE, OSLO);
+    expect(kept(keep)).toEqual({ "2026-10-20T10:00:00Z": ["latest"] });
+  });
+
+  it("keeps the newest backup of each warehouse day", () => {
+    const keep = selectBackupsToKeep(
+      backups(
+        "2026-10-20T10:00:00Z",
+        // 00:30 on 20 October in Oslo, the same warehouse day as the one above
+        "2026-10-19T22:30:00Z",
+        // 23:30 on 19 October in Oslo
+        "2026-10-19T21:30:00Z",
+        "2026-10-18T10:00:00Z",
+      ),
+      { ...NONE, daily: 2 },
+      OSLO,
+    );
+
+    expect(kept(keep)).toEqual({
+      "2026-10-20T10:00:00Z": ["latest", "daily"],
+      "2026-10-19T21:30:00Z": ["daily"],
+    });
+  });
+
+  it("keeps the newest backup of each warehouse week, starting on Monday", () => {
+    const keep = selectBackupsToKeep(
+      backups(
+        // 00:30 on Monday 26 October in Oslo
+        "2026-10-25T23:30:00Z",
+        // 23:30 on Sunday 25 October in Oslo, still the week of 19 October
+        "2026-10-25T22:30:00Z",
+        "2026-10-20T10:00:00Z",
+        "2026-10-12T10:00:00Z",
+      ),
+      { ...NONE, weekly: 2 },
+      OSLO,
+    );
+
+    expect(kept(keep)).toEqual({
+      "2026-10-25T23:30:00Z": ["latest", "weekly"],
+      "2026-10-25T22:30:00Z": ["weekly"],
+    });
+  });
+
+  it("keeps the newest backup of each warehouse month", () => {
+    const keep = selectBackupsToKeep(
+      backups(
+        // 00:30 on 1 November in Oslo
+        "2026-10-31T23:30:00Z",
+        "2026-10-31T22:30:00Z",
+        "2026-10-01T10:00:00Z",
+        "2026-09-30T10:00:00Z",
+      ),
+      { ...NONE, monthly: 2 },
+      OSLO,
+    );
+
+    expect(kept(keep)).toEqual({
+      "2026-10-31T23:30:00Z": ["latest", "monthly"],
+      "2026-10-31T22:30:00Z": ["monthly"],
+    });
+  });
+
+  it("lists every reason a backup is kept for", () => {
+    const keep = selectBackupsToKeep(
+      backups("2026-10-20T10:00:00Z", "2026-10-19T10:00:00Z", "2026-10-12T10:00:00Z", "2026-09-15T10:00:00Z"),
+      { daily: 2, weekly: 2, monthly: 2 },
+      OSLO,
+    );
+
+    expect(kept(keep)).toEqual({
+      "2026-10-20T10:00:00Z": ["latest", "daily", "weekly", "monthly"],
+      "2026-10-19T10:00:00Z": ["daily"],
+      "2026-10-12T10:00:00Z": ["weekly"],
+      "2026-09-15T10:00:00Z": ["monthly"],
+    });
+  });
+});
@@ -0,0 +1,84 @@
+// Retention policy for backups stored by the scheduled-backup Edge Function.
+//
+// Grandfather-father-son rotation: the newest backup of each of the last N
+// warehouse days, weeks and months is kept, and everything else is deleted.
+// The admin panel (src/services/backupService.ts) uses the setting keys and
+// defaults to edit the policy.
+
+import { startOfZonedWeek, toZonedInputValue } from "./dateTime.ts";
+
+export type BackupRetentionPolicy = {
+  daily: number;
+  weekly: number;
+  monthly: number;
+};
+
+export type BackupRetentionReason = "latest" | "daily" | "weekly" | "monthly";
+
+export const BACKUP_RETENTION_DAILY_SETTING_KEY = "backup_retention_daily";
+export const BACKUP_RETENTION_WEEKLY_SETTING_KEY = "backup_retention_weekly";
+export const BACKUP_RETENTION_MONTHLY_SETTING_KEY = "backup_retention_monthly";
+
+export const DEFAULT_BACKUP_RETENTION: BackupRetentionPolicy = {
+  daily: 7,
+  weekly: 4,
+  monthly: 12,
+};
+
+export const BACKUP_BUCKET = "backups";
+
+function parseCount(value: string | null | undefined, fallback: number): number {
+  const count = parseInt(value || "", 10);
+  return Number.isFinite(count) && count >= 0 ? count : fallback;
+}
+
+export function buildRetentionPolicy(
+  daily: string | null | undefined,
+  weekly: string | null | undefined,
+  monthly: string | null | undefined,
+): BackupRetentionPolicy {
+  return {
+    daily: parseCount(daily, DEFAULT_BACKUP_RETENTION.daily),
+    weekly: parseCount(weekly, DEFAULT_BACKUP_RETENTION.weekly),
+    monthly: parseCount(monthly, DEFAULT_BACKUP_RETENTION.monthly),
+  };
+}
+
+/**
+ * Returns the ids of backups the policy keeps, with the reasons each is kept.
+ * The newest backup is always kept, whatever the policy says.
+ */
+export function selectBackupsToKeep(
+  backups: { id: string; created_at: string }[],
+  policy: BackupRetentionPolicy,
+  timeZone: string,
+): Map<string, BackupRetentionReason[]> {
+  const keep = new Map<string, BackupRetentionReason[]>();
+  const newestFirst = [...backups].sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  const mark = (id: string, reason: BackupRetentionReason) => {
+    keep.set(id, [...(keep.get(id) || []), reason]);
+  };
+
+  const keepPerPeriod = (reason: BackupRetentionReason, count: number, periodOf: (date: Date) => string) => {
+    const seen = new Set<string>();
+    for (const backup of newestFirst) {
+      if (seen.size >= count) break;
+      const period = periodOf(new Date(backup.created_at));
+      if (!seen.has(period)) {
+        seen.add(period);
+        mark(backup.id, reason);
+      }
+    }
+  };
+
+  if (newestFirst.length > 0) {
+    mark(newestFirst[0].id, "latest");
+  }
+
+  keepPerPeriod("daily", policy.daily, (date) => toZonedInputValue(date, timeZone).slice(0, 10));
+  keepPerPeriod("weekly", policy.weekly, (date) => toZonedInputValue(startOfZonedWeek(date, timeZone), timeZone).slice(0, 10));
+  keepPerPeriod("monthly", policy.monthly, (date) => toZonedInputValue(date, timeZone).slice(0, 7));
+
+  return keep;
+}
@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import {
+  addZonedDays,
+  buildDateSettings,
+  fromZonedInputValue,
+  parseDateString,
+  parseSheetDate,
+  startOfZonedDay,
+  startOfZonedMonth,
+  startOfZonedWeek,
+  toZonedInputValue,
+  zonedTimeToUtc,
+  type DateSettings,
+} from "./dateTime.ts";
+
+// Europe/Oslo is UTC+1 in winter and UTC+2 in summer. In 2026 the clocks go
+// forward on 29 March (02:00 -> 03:00) and back on 25 October (03:00 -> 02:00).
+const OSLO = "Europe/Oslo";
+const DMY: DateSettings = { timeZone: OSLO, inputFormat: "DMY" };
+const MDY: DateSettings = { timeZone: OSLO, inputFormat: "MDY" };
+const HOUR = 60 * 60 * 1000;
+
+const iso = (date: Date | null) => date?.toISOString() ?? null;
+
+describe("zonedTimeToUtc", () => {
+  it("uses the winter and summer offsets", () => {
+    expect(iso(zonedTimeToUtc({ year: 2026, month: 1, day: 15, hour: 8, minute: 0, second: 0 }, OSLO)))
+      .toBe("2026-01-15T07:00:00.000Z");
+    expect(iso(zonedTimeToUtc({ year: 2026, month: 7, day: 15, hour: 8, minute: 0, second: 0 }, OSLO)))
+      .toBe("2026-07-15T06:00:00.000Z");
+  });
+
+  it("handles the hours around the spring transition", () => {
+    expect(iso(zonedTimeToUtc({ year: 2026, month: 3, day: 29, hour: 1, minute: 30, second: 0 }, OSLO)))
+      .toBe("2026-03-29T00:30:00.000Z");
+    expect(iso(zonedTimeToUtc({ year: 2026, month: 3, day: 29, hour: 3, minute: 30, second: 0 }, OSLO)))
+      .toBe("2026-03-29T01:30:00.000Z");
+  });
+
+  it("handles the hours around the autumn transition", () => {
+    expect(iso(zonedTimeToUtc({ year: 2026, month: 10, day: 25, hour: 0, minute: 30, second: 0 }, OSLO)))
+      .toBe("2026-10-24T22:30:00.000Z");
+    expect(iso(zonedTimeToUtc({ year: 2026, month: 10, day: 25, hour: 12, minute: 0, second: 0 }, OSLO)))
+      .toBe("2026-10-25T11:00:00.000Z");
+  });
+});
+
+describe("zoned calendar days", () => {
+  it("starts the day at local midnight, not UTC midnight", () => {
+    expect(iso(startOfZonedDay(new Date("2026-10-19T22:30:00Z"), OSLO))).toBe("2026-10-19T22:00:00.000Z");
+    expect(iso(startOfZonedDay(new Date("2026-10-19T21:59:59Z"), OSLO))).toBe("2026-10-18T22:00:00.000Z");
+  });
+
+  it("gives DST days 23 and 25 hours", () => {
+    const spring = startOfZonedDay(new Date("2026-03-29T12:00:00Z"), OSLO);
+    const autumn = startOfZonedDay(new Date("2026-10-25T12:00:00Z"), OSLO);
+
+    expect(addZonedDays(spring, 1, OSLO).getTime() - spring.getTime()).toBe(23 * HOUR);
+    expect(addZonedDays(autumn, 1, OSLO).getTime() - autumn.getTime()).toBe(25 * HOUR);
+  });
+
+  it("keeps the wall-clock time when adding days across a transition", () => {
+    const noon = zonedTimeToUtc({ year: 2026, month: 3, day: 28, hour: 12, minute: 0, second: 0 }, OSLO);
+    expect(toZonedInputValue(addZonedDays(noon, 1, OSLO), OSLO)).toBe("2026-03-29T12:00");
+    expect(toZonedInputValue(addZonedDays(noon, -1, OSLO), OSLO)).toBe("2026-03-27T12:00");
+  });
+
+  it("starts the week on Monday and counts Sunday to the week before", () => {
+    // Sunday 25 October 2026, 23:30 local
+    const sunday = new Date("2026-10-25T22:30:00Z");
+    expect(iso(startOfZonedWeek(sunday, OSLO))).toBe("2026-10-18T22:00:00.000Z");
+    // Monday 26 October 2026, 00:30 local
+    const monday = new Date("2026-10-25T23:30:00Z");
+    expect(iso(startOfZonedWeek(monday, OSLO))).toBe("2026-10-25T23:00:00.000Z");
+  });
+
+  it("starts the month at local midnight and shifts across years", () => {
+    const date = new Date("2026-01-10T12:00:00Z");
+    expect(iso(startOfZonedMonth(date, OSLO))).toBe("2025-12-31T23:00:00.000Z");
+    expect(iso(startOfZonedMonth(date, OSLO, -1))).toBe("2025-11-30T23:00:00.000Z");
+  });
+});
+
+describe("parseDateString", () => {
+  it("reads numeric dates in the configured order", () => {
+    expect(iso(parseDateString("05/03/2026", DMY))).toBe("2026-03-04T23:00:00.000Z");
+    expect(iso(parseDateString("05/03/2026", MDY))).toBe("2026-05-02T22:00:00.000Z");
+  });
+
+  it("rejects days and months that don't exist in the configured order", () => {
+    expect(parseDateString("13/01/2026", MDY)).toBeNull();
+    expect(parseDateString("31/02/2026", DMY)).toBeNull();
+    expect(iso(parseDateString("13/01/2026", DMY))).toBe("2026-01-12T23:00:00.000Z");
+  });
+
+  it("accepts dot and dash separators, two-digit years and times", () => {
+    expect(iso(parseDateString("31.12.25 14:30", DMY))).toBe("2025-12-31T13:30:00.000Z");
+    expect(iso(parseDateString("1-26-26", MDY))).toBe("2026-01-25T23:00:00.000Z");
+    expect(iso(parseDateString("1/2/99", MDY))).toBe("1999-01-01T23:00:00.000Z");
+  });
+
+  it("reads ISO and named-month dates regardless of the order setting", () => {
+    expect(iso(parseDateString("2026-07-01 08:00", MDY))).toBe("2026-07-01T06:00:00.000Z");
+    expect(iso(parseDateString("Jan 26, 2026, 14:30:00", DMY))).toBe("2026-01-26T13:30:00.000Z");
+  });
+
+  it("keeps an explicit offset instead of the warehouse timezone", () => {
+    expect(iso(parseDateString("2026-07-01T08:00:00Z", DMY))).toBe("2026-07-01T08:00:00.000Z");
+    expect(iso(parseDateString("2026-07-01T08:00:00+05:00", DMY))).toBe("2026-07-01T03:00:00.000Z");
+  });
+
+  it("returns null for empty or unreadable values", () => {
+    expect(parseDateString("  ", DMY)).toBeNull();
+    expect(parseDateString("next tuesday", DMY)).toBeNull();
+    expect(parseDateString("2026-01-01 25:00", DMY)).toBeNull();
+  });
+});
+
+describe("parseSheetDate", () => {
+  it("reads Date(...) values with a zero-based month as warehouse wall-clock time", () => {
+    expect(parseSheetDate("Date(2026,0,26,14,30,0)", DMY)).toBe("2026-01-26T13:30:00.000Z");
+    expect(parseSheetDate("Date(2026,0,26,14,30,0)", { timeZone: "UTC", inputFormat: "MDY" }))
+      .toBe("2026-01-26T14:30:00.000Z");
+  });
+
+  it("reads date-only Date(...) values as local midnight", () => {
+    expect(parseSheetDate("Date(2026,6,1)", DMY)).toBe("2026-06-30T22:00:00.000Z");
+  });
+
+  it("falls back to text parsing in the configured order", () => {
+    expect(parseSheetDate("05/03/2026 08:00", DMY)).toBe("2026-03-05T07:00:00.000Z");
+    expect(parseSheetDate("05/03/2026 08:00", MDY)).toBe("2026-05-03T06:00:00.000Z");
+  });
+
+  it("returns an empty string for empty or invalid cells", () => {
+    expect(parseSheetDate(null, DMY)).toBe("");
+    expect(parseSheetDate("", DMY)).toBe("");
+    expect(parseSheetDate("TBD", DMY)).toBe("");
+  });
+});
+
+describe("input values", () => {
+  it("round-trips datetime-local values in the timezone", () => {
+    const instant = fromZonedInputValue("2026-10-25T01:30", OSLO);
+    expect(instant).toBe("2026-10-24T23:30:00.000Z");
+    expect(toZonedInputValue(instant, OSLO)).toBe("2026-10-25T01:30");
+  });
+
+  it("returns an empty string for missing or invalid values", () => {
+    expect(toZonedInputValue(null, OSLO)).toBe("");
+    expect(toZonedInputValue("not a date", OSLO)).toBe("");
+    expect(fromZonedInputValue("", OSLO)).toBe("");
+  });
+});
+
+describe("buildDateSettings", () => {
+  it("falls back to the defaults for unknown values", () => {
+    expect(buildDateSettings("Mars/Olympus_Mons", "YMD")).toEqual({ timeZone: "UTC", inputFormat: "MDY" });
+    expect(buildDateSettings(OSLO, "DMY")).toEqual(DMY);
+  });
+});
@@ -0,0 +1,277 @@
+// Date and time handling in the warehouse timezone.
+//
+// Shared by the Edge Functions and the web app (through src/utils/dateTime.ts)
+// so imports, filters and displays agree on what "Monday 08:00" means no
+// matter which timezone the runtime or browser happens to use. Relies only on
+// Intl, which is available in Deno and all supported browsers.
+
+export type DateInputFormat = "DMY" | "MDY";
+
+export type DateSettings = {
+  // IANA timezone name, e.g. "Europe/Oslo"
+  timeZone: string;
+  // Order of day and month in numeric dates such as 05/03/2026
+  inputFormat: DateInputFormat;
+};
+
+export type ZonedParts = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+export const TIMEZONE_SETTING_KEY = "warehouse_timezone";
+export const DATE_FORMAT_SETTING_KEY = "date_input_format";
+
+// Matches the behaviour from before these were configurable: sheet
+// wall-clock times were stored and displayed as UTC, and numeric dates
+// such as 1/26/26 were read month first.
+export const DEFAULT_DATE_SETTINGS: DateSettings = {
+  timeZone: "UTC",
+  inputFormat: "MDY",
+};
+
+const MONTH_NAMES = [
+  "jan", "feb", "mar", "apr", "may", "jun",
+  "jul", "aug", "sep", "oct", "nov", "dec",
+];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function buildDateSettings(
+  timeZone: string | null | undefined,
+  inputFormat: string | null | undefined
+): DateSettings {
+  return {
+    timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_DATE_SETTINGS.timeZone,
+    inputFormat: inputFormat === "MDY" ? "MDY" : inputFormat === "DMY" ? "DMY" : DEFAULT_DATE_SETTINGS.inputFormat,
+  };
+}
+
+/** Wall-clock parts of an instant as seen in the given timezone. */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = Object.fromEntries(
+    getPartsFormatter(timeZone)
+      .formatToParts(date)
+      .filter((part) => part.type !== "literal")
+      .map((part) => [part.type, parseInt(part.value, 10)])
+  );
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/** Converts a wall-clock time in the given timezone to the matching instant. */
+export function zonedTimeToUtc(parts: ZonedParts, timeZone: string): Date {
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+
+  // Two passes settle the offset across DST transitions
+  let guess = asUtc;
+  for (let i = 0; i < 2; i++) {
+    const seen = getZonedParts(new Date(guess), timeZone);
+    const seenAsUtc = Date.UTC(seen.year, seen.month - 1, seen.day, seen.hour, seen.minute, seen.second);
+    guess = guess + (asUtc - seenAsUtc);
+  }
+
+  return new Date(guess);
+}
+
+function expandYear(year: number): number {
+  if (year >= 100) return year;
+  return year > 50 ? 1900 + year : 2000 + year;
+}
+
+function isValidParts(parts: ZonedParts): boolean {
+  const check = new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
+  return check.getUTCFullYear() === parts.year &&
+    check.getUTCMonth() === parts.month - 1 &&
+    check.getUTCDate() === parts.day &&
+    parts.hour < 24 && parts.minute < 60 && parts.second < 60;
+}
+
+/**
+ * Parses a date string entered in the warehouse, interpreting times without
+ * an explicit offset in the warehouse timezone. Supports ISO dates,
+ * numeric dates in the configured DD/MM or MM/DD order (with /, . or -
+ * separators and 2- or 4-digit years) and "Jan 26, 2026, 14:30:00".
+ * Returns null when the value cannot be parsed.
+ */
+export function parseDateString(value: string, settings: DateSettings): Date | null {
+  const str = value.trim();
+  if (!str) return null;
+
+  // ISO with explicit offset or Z: the instant is unambiguous
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i.test(str)) {
+    const parsed = new Date(str);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+
+  let parts: ZonedParts | null = null;
+
+  const iso = str.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  const numeric = str.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})(?:[,\s]+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  const named = str.match(/^([A-Za-z]{3,})\.?\s+(\d{1,2}),?\s+(\d{4})(?:,?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+
+  if (iso) {
+    parts = {
+      year: parseInt(iso[1], 10),
+      month: parseInt(iso[2], 10),
+      day: parseInt(iso[3], 10),
+      hour: parseInt(iso[4] || "0", 10),
+      minute: parseInt(iso[5] || "0", 10),
+      second: parseInt(iso[6] || "0", 10),
+    };
+  } else if (numeric) {
+    const first = parseInt(numeric[1], 10);
+    const second = parseInt(numeric[2], 10);
+    parts = {
+      year: expandYear(parseInt(numeric[3], 10)),
+      month: settings.inputFormat === "MDY" ? first : second,
+      day: settings.inputFormat === "MDY" ? second : first,
+      hour: parseInt(numeric[4] || "0", 10),
+      minute: parseInt(numeric[5] || "0", 10),
+      second: parseInt(numeric[6] || "0", 10),
+    };
+  } else if (named) {
+    const monthIndex = MONTH_NAMES.indexOf(named[1].slice(0, 3).toLowerCase());
+    if (monthIndex !== -1) {
+      parts = {
+        year: parseInt(named[3], 10),
+        month: monthIndex + 1,
+        day: parseInt(named[2], 10),
+        hour: parseInt(named[4] || "0", 10),
+        minute: parseInt(named[5] || "0", 10),
+        second: parseInt(named[6] || "0", 10),
+      };
+    }
+  }
+
+  if (!parts || !isValidParts(parts)) return null;
+
+  return zonedTimeToUtc(parts, settings.timeZone);
+}
+
+/**
+ * Parses a Google Sheets cell value. The visualization API returns dates as
+ * "Date(2026,0,26,14,30,0)" with a zero-based month and no timezone; those
+ * are wall-clock times in the warehouse timezone. Returns an ISO string, or
+ * "" when the value is empty or invalid.
+ */
+export function parseSheetDate(value: unknown, settings: DateSettings): string {
+  if (value === null || value === undefined || value === "") return "";
+
+  const str = String(value).trim();
+
+  const dateMatch = str.match(/^Date\((\d+),(\d+),(\d+)(?:,(\d+),(\d+),(\d+))?\)$/);
+  if (dateMatch) {
+    return zonedTimeToUtc({
+      year: parseInt(dateMatch[1], 10),
+      month: parseInt(dateMatch[2], 10) + 1,
+      day: parseInt(dateMatch[3], 10),
+      hour: parseInt(dateMatch[4] || "0", 10),
+      minute: parseInt(dateMatch[5] || "0", 10),
+      second: parseInt(dateMatch[6] || "0", 10),
+    }, settings.timeZone).toISOString();
+  }
+
+  const parsed = parseDateString(str, settings);
+  return parsed ? parsed.toISOString() : "";
+}
+
+/** Midnight of the given instant's calendar day in the timezone. */
+export function startOfZonedDay(date: Date, timeZone: string): Date {
+  const parts = getZonedParts(date, timeZone);
+  return zonedTimeToUtc({ ...parts, hour: 0, minute: 0, second: 0 }, timeZone);
+}
+
+/** Adds calendar days in the timezone, keeping the wall-clock time. */
+export function addZonedDays(date: Date, days: number, timeZone: string): Date {
+  const parts = getZonedParts(date, timeZone);
+  const shifted = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + days));
+  return zonedTimeToUtc({
+    ...parts,
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  }, timeZone);
+}
+
+/** Day of week in the timezone, 0 = Sunday. */
+export function getZonedWeekday(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay();
+}
+
+/** Monday 00:00 of the week containing the given instant. */
+export function startOfZonedWeek(date: Date, timeZone: string): Date {
+  const weekday = getZonedWeekday(date, timeZone);
+  const diff = weekday === 0 ? -6 : 1 - weekday;
+  return startOfZonedDay(addZonedDays(date, diff, timeZone), timeZone);
+}
+
+/** First day of the instant's month, 00:00, shifted by the given number of months. */
+export function startOfZonedMonth(date: Date, timeZone: string, monthOffset = 0): Date {
+  const parts = getZonedParts(date, timeZone);
+  const shifted = new Date(Date.UTC(parts.year, parts.month - 1 + monthOffset, 1));
+  return zonedTimeToUtc({
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: 1,
+    hour: 0,
+    minute: 0,
+    second: 0,
+  }, timeZone);
+}
+
+/** Value for an <input type="datetime-local"> showing the instant in the timezone. */
+export function toZonedInputValue(value: string | Date | null, timeZone: string): string {
+  if (!value) return "";
+  const date = typeof value === "string" ? new Date(value) : value;
+  if (isNaN(date.getTime())) return "";
+
+  const p = getZonedParts(date, timeZone);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+/** ISO instant for a datetime-local value entered in the timezone. */
+export function fromZonedInputValue(value: string, timeZone: string): string {
+  const parsed = parseDateString(value.replace("T", " "), { timeZone, inputFormat: "DMY" });
+  return parsed ? parsed.toISOString() : "";
+}
@@ -0,0 +1,162 @@
+// Storage dwell-time limits and warning stages.
+//
+// Shared by the WarehouseReportTab (via src/services/dwellLimitService.ts) and
+// the Edge Functions, so a package gets the same limit everywhere. Keep this
+// file free of Deno and browser specific APIs.
+
+export type DwellRuleScope = "package" | "title_prefix" | "category";
+
+export type DwellLimitRule = {
+  id: string;
+  scope: DwellRuleScope;
+  // SSCC for package rules, title prefix or task category name otherwise
+  match_value: string;
+  limit_days: number;
+  active: boolean;
+  notes: string;
+};
+
+export type DwellLimitSource = DwellRuleScope | "imported" | "default";
+
+export type DwellLimit = {
+  limitDays: number;
+  source: DwellLimitSource;
+  rule?: DwellLimitRule;
+};
+
+export type DwellSettings = {
+  defaultLimitDays: number;
+  // Days before expiry at which warnings escalate, largest first, e.g. [7, 1]
+  warningDays: number[];
+};
+
+export type DwellStatus = {
+  expires: Date;
+  daysLeft: number;
+  totalDays: number;
+  // 0 = within limit, 1..warningDays.length = warning stages, then overdue
+  stage: number;
+  overdue: boolean;
+};
+
+export type TaskCategoryMatcher = {
+  name: string;
+  sort_order: number;
+};
+
+export const DWELL_DEFAULT_LIMIT_SETTING_KEY = "dwell_default_limit_days";
+export const DWELL_WARNING_DAYS_SETTING_KEY = "dwell_warning_days";
+
+// The fixed six-week limit the warehouse report used before rules existed
+export const DEFAULT_DWELL_SETTINGS: DwellSettings = {
+  defaultLimitDays: 42,
+  warningDays: [7, 1],
+};
+
+export const DWELL_RULE_SCOPE_LABELS: Record<DwellRuleScope, string> = {
+  package: "Package",
+  title_prefix: "Title prefix",
+  category: "Category",
+};
+
+export const DWELL_LIMIT_SOURCE_LABELS: Record<DwellLimitSource, string> = {
+  ...DWELL_RULE_SCOPE_LABELS,
+  imported: "Imported",
+  default: "Default",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Parses a comma separated list such as "7, 1" into distinct positive days, largest first. */
+export function parseWarningDays(value: string | null | undefined): number[] {
+  if (!value) return [...DEFAULT_DWELL_SETTINGS.warningDays];
+
+  const days = value
+    .split(",")
+    .map((part) => parseInt(part.trim(), 10))
+    .filter((day) => Number.isFinite(day) && day > 0);
+
+  return [...new Set(days)].sort((a, b) => b - a);
+}
+
+export function buildDwellSettings(
+  defaultLimitDays: string | null | undefined,
+  warningDays: string | null | undefined,
+): DwellSettings {
+  const limit = parseInt(defaultLimitDays || "", 10);
+  return {
+    defaultLimitDays: Number.isFinite(limit) && limit > 0 ? limit : DEFAULT_DWELL_SETTINGS.defaultLimitDays,
+    warningDays: parseWarningDays(warningDays),
+  };
+}
+
+/**
+ * Same prefix matching as get_task_category() in the database: the first
+ * active category by sort order whose name starts the title, else OTHER.
+ */
+export function matchTaskCategory(title: string, categories: TaskCategoryMatcher[]): string {
+  const upperTitle = (title || "").trim().toUpperCase();
+  if (!upperTitle) return "OTHER";
+
+  const match = [...categories]
+    .sort((a, b) => a.sort_order - b.sort_order || b.name.length - a.name.length)
+    .find((category) => upperTitle.startsWith(category.name.toUpperCase()));
+
+  return match?.name ?? "OTHER";
+}
+
+/**
+ * Picks the limit for one package. Precedence: a rule for the package itself,
+ * the longest matching title prefix rule, a rule for the task category, the
+ * limit imported with the package, then the default.
+ */
+export function resolveDwellLimit(
+  pkg: { sscc: string; title: string; category: string; importedLimitDays?: number | null },
+  rules: DwellLimitRule[],
+  settings: DwellSettings,
+): DwellLimit {
+  const active = rules.filter((rule) => rule.active);
+  const sscc = pkg.sscc.trim().toUpperCase();
+  const title = (pkg.title || "").trim().toUpperCase();
+  const category = pkg.category.toUpperCase();
+
+  const packageRule = active.find(
+    (rule) => rule.scope === "package" && rule.match_value.trim().toUpperCase() === sscc,
+  );
+  if (packageRule) return { limitDays: packageRule.limit_days, source: "package", rule: packageRule };
+
+  const prefixRule = active
+    .filter((rule) => rule.scope === "title_prefix" && rule.match_value.trim() !== "")
+    .filter((rule) => title.startsWith(rule.match_value.trim().toUpperCase()))
+    .sort((a, b) => b.match_value.trim().length - a.match_value.trim().length)[0];
+  if (prefixRule) return { limitDays: prefixRule.limit_days, source: "title_prefix", rule: prefixRule };
+
+  const categoryRule = active.find(
+    (rule) => rule.scope === "category" && rule.match_value.trim().toUpperCase() === category,
+  );
+  if (categoryRule) return { limitDays: categoryRule.limit_days, source: "category", rule: categoryRule };
+
+  if (pkg.importedLimitDays && pkg.importedLimitDays > 0) {
+    return { limitDays: pkg.importedLimitDays, source: "imported" };
+  }
+
+  return { limitDays: settings.defaultLimitDays, source: "default" };
+}
+
+export function getDwellStatus(
+  arrival: Date,
+  limitDays: number,
+  warningDays: number[],
+  now: Date = new Date(),
+): DwellStatus {
+  const expires = new Date(arrival.getTime() + limitDays * DAY_MS);
+  const daysLeft = Math.floor((expires.getTime() - now.getTime()) / DAY_MS);
+  const totalDays = Math.floor((now.getTime() - arrival.getTime()) / DAY_MS);
+  const overdue = daysLeft < 0;
+
+  const stage = overdue
+    ? warningDays.length + 1
+    : warningDays.filter((days) => daysLeft <= days).length;
+
+  return { expires, daysLeft, totalDays, stage, overdue };
+}
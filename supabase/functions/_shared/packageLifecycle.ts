@@ -0,0 +1,82 @@
+// Package lifecycle states and allowed transitions.
+//
+// Mirrors is_valid_package_transition() in the database, which is the source
+// of truth and rejects invalid updates. The app uses this copy to offer only
+// valid actions and to label timelines. Keep the two in sync.
+
+export type PackageStatus =
+  | "expected"
+  | "received"
+  | "putaway"
+  | "stored"
+  | "picked"
+  | "loaded"
+  | "delivered"
+  | "quarantine"
+  | "deviation_hold";
+
+export const MAIN_PACKAGE_PATH: PackageStatus[] = [
+  "expected",
+  "received",
+  "putaway",
+  "stored",
+  "picked",
+  "loaded",
+  "delivered",
+];
+
+export const HOLD_STATUSES: PackageStatus[] = ["quarantine", "deviation_hold"];
+
+// Statuses in which the package occupies a storage location. Picked packages
+// are excluded: they are staged for an outgoing shipment.
+export const STORAGE_STATUSES: PackageStatus[] = ["stored", "quarantine", "deviation_hold"];
+
+export const PACKAGE_STATUS_LABELS: Record<PackageStatus, string> = {
+  expected: "Expected",
+  received: "Received",
+  putaway: "Putaway",
+  stored: "Stored",
+  picked: "Picked",
+  loaded: "Loaded",
+  delivered: "Delivered",
+  quarantine: "Quarantine",
+  deviation_hold: "Deviation Hold",
+};
+
+const FORWARD_TRANSITIONS: Record<PackageStatus, PackageStatus[]> = {
+  expected: ["received"],
+  received: ["putaway"],
+  putaway: ["stored"],
+  stored: ["picked"],
+  picked: ["loaded", "stored"],
+  loaded: ["delivered", "picked"],
+  delivered: [],
+  quarantine: ["received", "putaway", "stored"],
+  deviation_hold: ["received", "putaway", "stored", "picked", "loaded"],
+};
+
+export function isPackageStatus(value: string): value is PackageStatus {
+  return value in PACKAGE_STATUS_LABELS;
+}
+
+/** Statuses a package can move to directly from the given status. */
+export function getAllowedTransitions(from: PackageStatus): PackageStatus[] {
+  if (from === "delivered") return [];
+  const holds = HOLD_STATUSES.filter((hold) => hold !== from);
+  return [...FORWARD_TRANSITIONS[from], ...holds];
+}
+
+export function canTransition(from: PackageStatus, to: PackageStatus): boolean {
+  return from === to || getAllowedTransitions(from).includes(to);
+}
+
+/**
+ * True when `to` can be reached from `from` by walking forward along the
+ * main path, which transition_package_status does with p_through = true.
+ */
+export function canWalkTo(from: PackageStatus, to: PackageStatus): boolean {
+  const fromIdx = MAIN_PACKAGE_PATH.indexOf(from);
+  const toIdx = MAIN_PACKAGE_PATH.indexOf(to);
+  if (fromIdx !== -1 && toIdx > fromIdx) return true;
+  return canTransition(from, to);
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { createSha256 } from "./sha256.ts";
+
+async function subtleHex(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function hashInChunks(data: Uint8Array, chunkSize: number): string {
+  const hash = createSha256();
+  for (let offset = 0; offset < data.length; offset += chunkSize) {
+    hash.update(data.subarray(offset, offset + chunkSize));
+  }
+  return hash.digestHex();
+}
+
+describe("createSha256", () => {
+  it("matches the published test vectors", () => {
+    expect(hashInChunks(new Uint8Array(0), 1))
+      .toBe("e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855");
+    expect(hashInChunks(new TextEncoder().encode("abc"), 1))
+      .toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+  });
+
+  it("matches crypto.subtle around the block and padding boundaries, however the data is split", async () => {
+    for (const length of [55, 56, 63, 64, 65, 119, 120, 1000]) {
+      const data = Uint8Array.from({ length }, (_, i) => (i * 31 + length) & 0xff);
+      const expected = await subtleHex(data);
+
+      for (const chunkSize of [1, 7, 64, 100, length]) {
+        expect(hashInChunks(data, chunkSize)).toBe(expected);
+      }
+    }
+  });
+
+  it("refuses updates once finished", () => {
+    const hash = createSha256();
+    hash.digestHex();
+    expect(() => hash.update(new Uint8Array(1))).toThrow("already finished");
+  });
+});
@@ -0,0 +1,158 @@
+// Column mapping between the Google Sheet and the shipments table.
+//
+// Shared by the sync-google-sheets Edge Function and the SettingsTab preview
+// (imported from src/services/googleSheets.ts), so both resolve headers the
+// same way. Keep this file free of Deno and browser specific APIs.
+
+export type MappedShipmentField =
+  | "sscc_numbers"
+  | "title"
+  | "start"
+  | "car_reg_no"
+  | "storage_location"
+  | "shipment_type"
+  | "intensity"
+  | "status"
+  | "assigned_operators"
+  | "notes";
+
+export type ColumnMappingProfile = {
+  name: string;
+  // Sheet header name for each mapped field. Unmapped fields are not imported.
+  fields: Partial<Record<MappedShipmentField, string>>;
+  // Header of the column that must be non-empty for a row to be imported.
+  // Falls back to LEGACY_FILTER_COLUMN when not set.
+  filterHeader?: string;
+};
+
+export type SheetColumn = {
+  id: string;
+  label: string;
+};
+
+export type ResolvedColumnMapping = {
+  columns: Partial<Record<MappedShipmentField, SheetColumn>>;
+  filterColumnId: string;
+  missing: MappedShipmentField[];
+};
+
+export const COLUMN_MAPPING_SETTING_KEY = "sheet_column_mapping";
+
+// Column D was the hard-coded import filter before mapping profiles existed
+export const LEGACY_FILTER_COLUMN = "D";
+
+export const MAPPED_FIELDS: { field: MappedShipmentField; label: string; required: boolean }[] = [
+  { field: "sscc_numbers", label: "SSCC Numbers", required: true },
+  { field: "title", label: "Title", required: true },
+  { field: "start", label: "Arrival (start)", required: true },
+  { field: "car_reg_no", label: "Car Reg No", required: true },
+  { field: "storage_location", label: "Storage Location", required: false },
+  { field: "shipment_type", label: "Shipment Type", required: false },
+  { field: "intensity", label: "Intensity", required: false },
+  { field: "status", label: "Status", required: false },
+  { field: "assigned_operators", label: "Operators", required: false },
+  { field: "notes", label: "Notes", required: false },
+];
+
+export const DEFAULT_COLUMN_MAPPING: ColumnMappingProfile = {
+  name: "Default",
+  fields: {
+    sscc_numbers: "sscc_numbers",
+    title: "title",
+    start: "start",
+    car_reg_no: "car reg no",
+  },
+};
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Finds a header by exact (case and whitespace insensitive) match first,
+ * then by partial match so "Car reg no." still resolves "car reg no".
+ */
+export function findColumnIndex(labels: string[], targetName: string): number {
+  const normalized = normalizeHeader(targetName);
+  if (!normalized) return -1;
+
+  const exact = labels.findIndex((label) => normalizeHeader(label) === normalized);
+  if (exact !== -1) return exact;
+
+  return labels.findIndex((label) => {
+    const labelNormalized = normalizeHeader(label);
+    return labelNormalized !== "" &&
+      (labelNormalized.includes(normalized) || normalized.includes(labelNormalized));
+  });
+}
+
+export function parseColumnMapping(value: string | null | undefined): ColumnMappingProfile {
+  if (!value) return DEFAULT_COLUMN_MAPPING;
+
+  try {
+    const parsed = JSON.parse(value);
+    if (!parsed || typeof parsed.fields !== "object") {
+      return DEFAULT_COLUMN_MAPPING;
+    }
+
+    const fields: Partial<Record<MappedShipmentField, string>> = {};
+    for (const { field } of MAPPED_FIELDS) {
+      const header = parsed.fields[field];
+      if (typeof header === "string" && header.trim()) {
+        fields[field] = header.trim();
+      }
+    }
+
+    return {
+      name: typeof parsed.name === "string" && parsed.name ? parsed.name : "Custom",
+      fields,
+      filterHeader: typeof parsed.filterHeader === "string" ? parsed.filterHeader.trim() : undefined,
+    };
+  } catch {
+    return DEFAULT_COLUMN_MAPPING;
+  }
+}
+
+export function resolveColumnMapping(
+  columns: SheetColumn[],
+  profile: ColumnMappingProfile
+): ResolvedColumnMapping {
+  const labels = columns.map((col) => col.label || "");
+  const resolved: Partial<Record<MappedShipmentField, SheetColumn>> = {};
+  const missing: MappedShipmentField[] = [];
+
+  for (const { field, required } of MAPPED_FIELDS) {
+    const header = profile.fields[field];
+    const index = header ? findColumnIndex(labels, header) : -1;
+
+    if (index !== -1) {
+      resolved[field] = columns[index];
+    } else if (required || header) {
+      missing.push(field);
+    }
+  }
+
+  let filterColumnId = LEGACY_FILTER_COLUMN;
+  if (profile.filterHeader) {
+    const index = findColumnIndex(labels, profile.filterHeader);
+    if (index !== -1) filterColumnId = columns[index].id;
+  }
+
+  return { columns: resolved, filterColumnId, missing };
+}
+
+export function normalizeShipmentType(value: string): "incoming" | "outgoing" | "general" | null {
+  const normalized = value.trim().toLowerCase();
+  if (["incoming", "inbound", "in"].includes(normalized)) return "incoming";
+  if (["outgoing", "outbound", "out"].includes(normalized)) return "outgoing";
+  if (normalized === "general") return "general";
+  return null;
+}
+
+export function normalizeIntensity(value: string): "low" | "medium" | "high" | null {
+  const normalized = value.trim().toLowerCase();
+  if (["low", "medium", "high"].includes(normalized)) {
+    return normalized as "low" | "medium" | "high";
+  }
+  return null;
+}
@@ -0,0 +1,166 @@
+// Daily overdue-storage digest.
+//
+// Built by the storage-digest Edge Function and exported from the admin panel
+// (via src/services/storageDigestService.ts), so the stored digest, the CSV
+// download and the delivered message contain the same rows. Keep this file
+// free of Deno and browser specific APIs.
+
+import { toZonedInputValue } from "./dateTime.ts";
+import {
+  DWELL_LIMIT_SOURCE_LABELS,
+  type DwellLimitRule,
+  type DwellLimitSource,
+  type DwellSettings,
+  type TaskCategoryMatcher,
+  getDwellStatus,
+  matchTaskCategory,
+  resolveDwellLimit,
+} from "./dwellLimits.ts";
+
+export type DigestChannel = "none" | "webhook" | "smtp";
+
+export type DigestDeliveryStatus = "pending" | "sent" | "failed" | "skipped";
+
+export type DigestItem = {
+  sscc: string;
+  title: string;
+  location: string;
+  arrival: string;
+  expires: string;
+  days_left: number;
+  limit_days: number;
+  limit_source: DwellLimitSource;
+  stage: number;
+  overdue: boolean;
+};
+
+export type StoredPackageRow = {
+  sscc_number: string;
+  storage_location: string | null;
+  dwell_limit_days: number | null;
+  created_at: string;
+  shipments: { title: string | null; start: string | null } | null;
+};
+
+export const DIGEST_CHANNEL_SETTING_KEY = "digest_channel";
+export const DIGEST_WEBHOOK_URL_SETTING_KEY = "digest_webhook_url";
+export const DIGEST_RECIPIENTS_SETTING_KEY = "digest_recipients";
+
+export const DIGEST_CHANNEL_LABELS: Record<DigestChannel, string> = {
+  none: "Not delivered",
+  webhook: "Webhook",
+  smtp: "Email (SMTP)",
+};
+
+export function parseDigestChannel(value: string | null | undefined): DigestChannel {
+  return value === "webhook" || value === "smtp" ? value : "none";
+}
+
+export function parseRecipients(value: string | null | undefined): string[] {
+  return (value || "")
+    .split(/[,;\n]/)
+    .map((email) => email.trim())
+    .filter((email) => email.includes("@"));
+}
+
+/**
+ * Stored packages that crossed a warning threshold or their limit, most urgent first.
+ * Arrival and expiry dates are calendar days in the warehouse timezone.
+ */
+export function buildDigestItems(
+  packages: StoredPackageRow[],
+  rules: DwellLimitRule[],
+  settings: DwellSettings,
+  categories: TaskCategoryMatcher[],
+  timeZone: string,
+  now: Date = new Date(),
+): DigestItem[] {
+  const items: DigestItem[] = [];
+
+  for (const pkg of packages) {
+    const title = pkg.shipments?.title || "";
+    const arrival = new Date(pkg.shipments?.start || pkg.created_at);
+    const limit = resolveDwellLimit(
+      {
+        sscc: pkg.sscc_number,
+        title,
+        category: matchTaskCategory(title, categories),
+        importedLimitDays: pkg.dwell_limit_days,
+      },
+      rules,
+      settings,
+    );
+    const dwell = getDwellStatus(arrival, limit.limitDays, settings.warningDays, now);
+
+    if (dwell.stage === 0) continue;
+
+    items.push({
+      sscc: pkg.sscc_number,
+      title,
+      location: pkg.storage_location || "",
+      arrival: toZonedInputValue(arrival, timeZone).slice(0, 10),
+      expires: toZonedInputValue(dwell.expires, timeZone).slice(0, 10),
+      days_left: dwell.daysLeft,
+      limit_days: limit.limitDays,
+      limit_source: limit.source,
+      stage: dwell.stage,
+      overdue: dwell.overdue,
+    });
+  }
+
+  return items.sort((a, b) => a.days_left - b.days_left);
+}
+
+const CSV_HEADERS = [
+  "Package ID",
+  "Description",
+  "Location",
+  "Arrival",
+  "Expires",
+  "Days Left",
+  "Limit Days",
+  "Limit Source",
+  "Status",
+];
+
+function csvCell(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+export function digestItemsToCsv(items: DigestItem[]): string {
+  const rows = items.map((item) => [
+    item.sscc,
+    item.title,
+    item.location,
+    item.arrival,
+    item.expires,
+    String(item.days_left),
+    String(item.limit_days),
+    DWELL_LIMIT_SOURCE_LABELS[item.limit_source],
+    item.overdue ? "Overdue" : "Expiring",
+  ]);
+
+  return [CSV_HEADERS, ...rows].map((row) => row.map(csvCell).join(",")).join("\n");
+}
+
+/** Plain-text summary used as the email body. */
+export function digestToText(digestDate: string, items: DigestItem[], totalStored: number): string {
+  const overdue = items.filter((item) => item.overdue);
+  const expiring = items.filter((item) => !item.overdue);
+
+  const line = (item: DigestItem) =>
+    `- ${item.sscc} ${item.location ? `[${item.location}] ` : ""}${item.title || "(no description)"}: ` +
+    (item.overdue
+      ? `${Math.abs(item.days_left)} day(s) over the ${item.limit_days}-day limit`
+      : `${item.days_left} day(s) left of ${item.limit_days}`);
+
+  return [
+    `Storage digest for ${digestDate}`,
+    "",
+    `${totalStored} package(s) in storage, ${overdue.length} overdue, ${expiring.length} nearing their limit.`,
+    "",
+    ...(overdue.length > 0 ? ["Overdue:", ...overdue.map(line), ""] : []),
+    ...(expiring.length > 0 ? ["Nearing limit:", ...expiring.map(line), ""] : []),
+    items.length === 0 ? "No packages need attention today." : "",
+  ].join("\n").trim();
+}
@@ -0,0 +1,242 @@
+// Minimal zip archive reader and writer.
+//
+// Used to read .xlsx workbooks in the admin panel (src/utils/xlsx.ts) and to
+// stream backup archives in the browser and in Edge Functions. Archives are
+// read from a Blob, slice by slice, and written as a stream, so neither side
+// needs the whole archive in memory. Entries are written uncompressed
+// ("stored"); callers compress the data themselves where it pays off. Only
+// web-standard APIs are used so the file runs in both environments. ZIP64
+// archives are not supported.
+
+export type ZipEntry = {
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+};
+
+export type ZipStreamFile = {
+  name: string;
+  data: ReadableStream<Uint8Array>;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/** Computes a CRC-32; pass the previous result to continue it over the next chunk. */
+export function crc32(data: Uint8Array, previous = 0): number {
+  let crc = (previous ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function readBytes(source: Blob, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await source.slice(start, end).arrayBuffer());
+}
+
+export async function isZip(source: Blob): Promise<boolean> {
+  const bytes = await readBytes(source, 0, 4);
+  return bytes.length === 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+/** Reads the central directory; entry names are returned without a leading slash. */
+export async function readZipDirectory(source: Blob): Promise<Map<string, ZipEntry>> {
+  // The end of central directory record sits within the last 64 KB (plus its own 22 bytes)
+  const tailStart = Math.max(0, source.size - 65557);
+  const tail = await readBytes(source, tailStart, source.size);
+  const tailView = new DataView(tail.buffer, tail.byteOffset, tail.byteLength);
+
+  let end = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tailView.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error("Not a valid zip archive");
+  }
+
+  const count = tailView.getUint16(end + 10, true);
+  const size = tailView.getUint32(end + 12, true);
+  const start = tailView.getUint32(end + 16, true);
+  if (start === 0xffffffff) {
+    throw new Error("Archive is too large to read");
+  }
+
+  const bytes = await readBytes(source, start, start + size);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const entries = new Map<string, ZipEntry>();
+  const decoder = new TextDecoder();
+  let offset = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error("Corrupt zip archive");
+    }
+
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name.replace(/^\//, ""), {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localOffset: view.getUint32(offset + 42, true),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/** Streams the entry's contents, inflating deflated entries. */
+export async function openZipEntry(source: Blob, entry: ZipEntry): Promise<ReadableStream<Uint8Array>> {
+  const header = await readBytes(source, entry.localOffset, entry.localOffset + 30);
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  if (header.length < 30 || view.getUint32(0, true) !== 0x04034b50) {
+    throw new Error("Corrupt zip archive");
+  }
+
+  const start = entry.localOffset + 30 + view.getUint16(26, true) + view.getUint16(28, true);
+  const data = source.slice(start, start + entry.compressedSize).stream();
+
+  if (entry.method === 0) return data;
+  if (entry.method !== 8) {
+    throw new Error(`Unsupported compression method ${entry.method}`);
+  }
+
+  return data.pipeThrough(new DecompressionStream("deflate-raw"));
+}
+
+/** Returns the entry's contents, inflating deflated entries. */
+export async function readZipEntry(source: Blob, entry: ZipEntry): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(await openZipEntry(source, entry)).arrayBuffer());
+}
+
+/**
+ * Streams the files into a zip archive with stored (uncompressed) entries.
+ * Each file is read once, when the archive reaches it, and the next file is
+ * only requested after that. Sizes and CRCs follow each file in a data
+ * descriptor, so nothing is buffered.
+ */
+export function createZipStream(files: AsyncIterable<ZipStreamFile>, modified: Date = new Date()): ReadableStream<Uint8Array> {
+  const chunks = zipChunks(files, modified);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const next = await chunks.next();
+      if (next.done) {
+        controller.close();
+      } else {
+        controller.enqueue(next.value);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+async function* zipChunks(files: AsyncIterable<ZipStreamFile>, modified: Date): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  const dosTime = (modified.getHours() << 11) | (modified.getMinutes() << 5) | (modified.getSeconds() >> 1);
+  const dosDate = ((modified.getFullYear() - 1980) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate();
+  const written: { name: Uint8Array; crc: number; size: number; localOffset: number }[] = [];
+  let offset = 0;
+
+  for await (const file of files) {
+    const name = encoder.encode(file.name);
+    const localOffset = offset;
+
+    const header = new Uint8Array(30 + name.length);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, 0x04034b50, true);
+    headerView.setUint16(4, 20, true);
+    // Bit 3: CRC and sizes follow the data; bit 11: names are UTF-8
+    headerView.setUint16(6, 0x0808, true);
+    headerView.setUint16(8, 0, true);
+    headerView.setUint16(10, dosTime, true);
+    headerView.setUint16(12, dosDate, true);
+    headerView.setUint16(26, name.length, true);
+    header.set(name, 30);
+    yield header;
+    offset += header.length;
+
+    let crc = 0;
+    let size = 0;
+    const reader = file.data.getReader();
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        crc = crc32(value, crc);
+        size += value.length;
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+    offset += size;
+
+    const descriptor = new Uint8Array(16);
+    const descriptorView = new DataView(descriptor.buffer);
+    descriptorView.setUint32(0, 0x08074b50, true);
+    descriptorView.setUint32(4, crc, true);
+    descriptorView.setUint32(8, size, true);
+    descriptorView.setUint32(12, size, true);
+    yield descriptor;
+    offset += descriptor.length;
+
+    if (offset > 0xffffffff || written.length >= 0xffff) {
+      throw new Error("Archive is too large");
+    }
+    written.push({ name, crc, size, localOffset });
+  }
+
+  const centralSize = written.reduce((sum, entry) => sum + 46 + entry.name.length, 0);
+  if (offset + centralSize + 22 > 0xffffffff) {
+    throw new Error("Archive is too large");
+  }
+
+  const output = new Uint8Array(centralSize + 22);
+  const view = new DataView(output.buffer);
+  let position = 0;
+
+  for (const entry of written) {
+    view.setUint32(position, 0x02014b50, true);
+    view.setUint16(position + 4, 20, true);
+    view.setUint16(position + 6, 20, true);
+    view.setUint16(position + 8, 0x0808, true);
+    view.setUint16(position + 10, 0, true);
+    view.setUint16(position + 12, dosTime, true);
+    view.setUint16(position + 14, dosDate, true);
+    view.setUint32(position + 16, entry.crc, true);
+    view.setUint32(position + 20, entry.size, true);
+    view.setUint32(position + 24, entry.size, true);
+    view.setUint16(position + 28, entry.name.length, true);
+    view.setUint32(position + 42, entry.localOffset, true);
+    output.set(entry.name, position + 46);
+    position += 46 + entry.name.length;
+  }
+
+  view.setUint32(position, 0x06054b50, true);
+  view.setUint16(position + 8, written.length, true);
+  view.setUint16(position + 10, written.length, true);
+  view.setUint32(position + 12, centralSize, true);
+  view.setUint32(position + 16, offset, true);
+
+  yield output;
+}
@@ -0,0 +1,256 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import { TIMEZONE_SETTING_KEY, buildDateSettings, toZonedInputValue } from "../_shared/dateTime.ts";
+import { type BackupRow, writeBackup } from "../_shared/backupFormat.ts";
+import {
+  BACKUP_BUCKET,
+  BACKUP_RETENTION_DAILY_SETTING_KEY,
+  BACKUP_RETENTION_MONTHLY_SETTING_KEY,
+  BACKUP_RETENTION_WEEKLY_SETTING_KEY,
+  buildRetentionPolicy,
+  selectBackupsToKeep,
+} from "../_shared/backupRetention.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+async function loadSettings(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from("app_settings")
+    .select("key, value")
+    .in("key", [
+      TIMEZONE_SETTING_KEY,
+      BACKUP_RETENTION_DAILY_SETTING_KEY,
+      BACKUP_RETENTION_WEEKLY_SETTING_KEY,
+      BACKUP_RETENTION_MONTHLY_SETTING_KEY,
+    ]);
+
+  if (error) throw error;
+
+  const settingsMap = Object.fromEntries((data || []).map((s) => [s.key, s.value]));
+
+  return {
+    dates: buildDateSettings(settingsMap[TIMEZONE_SETTING_KEY], undefined),
+    retention: buildRetentionPolicy(
+      settingsMap[BACKUP_RETENTION_DAILY_SETTING_KEY],
+      settingsMap[BACKUP_RETENTION_WEEKLY_SETTING_KEY],
+      settingsMap[BACKUP_RETENTION_MONTHLY_SETTING_KEY]
+    ),
+  };
+}
+
+async function runBackup(supabase: SupabaseClient, trigger: "scheduled" | "manual", timeZone: string) {
+  const { data: record, error: insertError } = await supabase
+    .from("stored_backups")
+    .insert({ trigger, status: "running" })
+    .select()
+    .single();
+
+  if (insertError) throw insertError;
+
+  try {
+    const { archive, manifest } = writeBackup(async (table, afterId, limit) => {
+      let query = supabase.from(table).select("*").order("id").limit(limit);
+      if (afterId) {
+        query = query.gt("id", afterId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw new Error(`${table}: ${error.message}`);
+
+      return (data || []) as BackupRow[];
+    });
+
+    // Grouped by warehouse month so the bucket stays browsable
+    const localTime = toZonedInputValue(new Date(manifest.created_at), timeZone);
+    const filePath = `${localTime.slice(0, 7)}/delivery-system-backup-${localTime.replace(":", "-")}-${record.id.slice(0, 8)}.zip`;
+
+    // The archive is uploaded as it is written, so it is never held in memory
+    let sizeBytes = 0;
+    const body = archive.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          sizeBytes += chunk.length;
+          controller.enqueue(chunk);
+        },
+      }),
+    );
+
+    const { error: uploadError } = await supabase.storage
+      .from(BACKUP_BUCKET)
+      .upload(filePath, body, { contentType: "application/zip", upsert: false, duplex: "half" });
+
+    if (uploadError) throw uploadError;
+
+    const { error: updateError } = await supabase
+      .from("stored_backups")
+      .update({
+        status: "completed",
+        completed_at: new Date().toISOString(),
+        file_path: filePath,
+        size_bytes: sizeBytes,
+        format_version: manifest.format_version,
+        row_counts: Object.fromEntries(
+          Object.entries(manifest.tables).map(([table, entry]) => [table, entry.rows])
+        ),
+      })
+      .eq("id", record.id);
+
+    if (updateError) throw updateError;
+
+    return { id: record.id as string, filePath, sizeBytes };
+  } catch (error) {
+    await supabase
+      .from("stored_backups")
+      .update({
+        status: "failed",
+        completed_at: new Date().toISOString(),
+        error: (error as Error).message,
+      })
+      .eq("id", record.id);
+
+    throw error;
+  }
+}
+
+async function applyRetention(
+  supabase: SupabaseClient,
+  settings: Awaited<ReturnType<typeof loadSettings>>
+) {
+  const { data, error } = await supabase
+    .from("stored_backups")
+    .select("id, created_at, file_path")
+    .eq("status", "completed");
+
+  if (error) throw error;
+
+  const backups = data || [];
+  const keep = selectBackupsToKeep(backups, settings.retention, settings.dates.timeZone);
+  const expired = backups.filter((backup) => !keep.has(backup.id));
+
+  for (const [id, reasons] of keep) {
+    await supabase.from("stored_backups").update({ retained_as: reasons }).eq("id", id);
+  }
+
+  if (expired.length === 0) return 0;
+
+  const { error: removeError } = await supabase.storage
+    .from(BACKUP_BUCKET)
+    .remove(expired.map((backup) => backup.file_path));
+
+  if (removeError) throw removeError;
+
+  const { error: updateError } = await supabase
+    .from("stored_backups")
+    .update({ status: "expired", expired_at: new Date().toISOString(), retained_as: [] })
+    .in("id", expired.map((backup) => backup.id));
+
+  if (updateError) throw updateError;
+
+  return expired.length;
+}
+
+/**
+ * The scheduler calls with the service-role key and may only run the scheduled
+ * backup; a signed-in admin may also start a manual backup or a prune.
+ * Returns null for anyone else.
+ */
+async function authorizeCaller(
+  req: Request,
+  supabase: SupabaseClient,
+  supabaseUrl: string,
+  serviceRoleKey: string
+): Promise<"scheduler" | "admin" | null> {
+  const token = (req.headers.get("Authorization") || "").replace("Bearer ", "");
+  if (!token) return null;
+  if (token === serviceRoleKey) return "scheduler";
+
+  const supabaseClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY") ?? "");
+  const { data: { user }, error } = await supabaseClient.auth.getUser(token);
+  if (error || !user) return null;
+
+  const { data: profile } = await supabase
+    .from("user_profiles")
+    .select("role")
+    .eq("id", user.id)
+    .maybeSingle();
+
+  return profile?.role === "admin" || profile?.role === "super_admin" ? "admin" : null;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseKey) {
+      throw new Error("Missing Supabase credentials");
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const caller = await authorizeCaller(req, supabase, supabaseUrl, supabaseKey);
+    if (!caller) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: "Only admins can run backups",
+        }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const settings = await loadSettings(supabase);
+
+    // Scheduled runs write a backup, then prune by the retention policy; the body is ignored.
+    // Admins start a manual backup ("backup") or only re-apply retention ("prune"), e.g.
+    // after the policy was changed.
+    const body = caller === "admin" ? await req.json().catch(() => ({})) : {};
+    const action = caller === "admin" ? body.action || "backup" : "scheduled";
+
+    if (!["scheduled", "backup", "prune"].includes(action)) {
+      throw new Error(`Unknown action ${action}`);
+    }
+
+    const backup = action === "prune"
+      ? null
+      : await runBackup(supabase, action === "scheduled" ? "scheduled" : "manual", settings.dates.timeZone);
+    const expired = await applyRetention(supabase, settings);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        backup,
+        expired,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Scheduled backup error:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: (error as Error).message,
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
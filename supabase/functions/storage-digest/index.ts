@@ -0,0 +1,314 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import nodemailer from "npm:nodemailer@6.9.10";
+import {
+  DATE_FORMAT_SETTING_KEY,
+  TIMEZONE_SETTING_KEY,
+  buildDateSettings,
+  toZonedInputValue,
+} from "../_shared/dateTime.ts";
+import {
+  DWELL_DEFAULT_LIMIT_SETTING_KEY,
+  DWELL_WARNING_DAYS_SETTING_KEY,
+  buildDwellSettings,
+} from "../_shared/dwellLimits.ts";
+import { STORAGE_STATUSES } from "../_shared/packageLifecycle.ts";
+import {
+  DIGEST_CHANNEL_SETTING_KEY,
+  DIGEST_RECIPIENTS_SETTING_KEY,
+  DIGEST_WEBHOOK_URL_SETTING_KEY,
+  type DigestChannel,
+  type DigestItem,
+  type StoredPackageRow,
+  buildDigestItems,
+  digestItemsToCsv,
+  digestToText,
+  parseDigestChannel,
+  parseRecipients,
+} from "../_shared/storageDigest.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const PAGE_SIZE = 1000;
+
+type StorageDigest = {
+  id: string;
+  digest_date: string;
+  generated_at: string;
+  total_stored: number;
+  overdue_count: number;
+  expiring_count: number;
+  items: DigestItem[];
+};
+
+type DeliverySettings = {
+  channel: DigestChannel;
+  webhookUrl: string;
+  recipients: string[];
+};
+
+async function loadSettings(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from("app_settings")
+    .select("key, value")
+    .in("key", [
+      TIMEZONE_SETTING_KEY,
+      DATE_FORMAT_SETTING_KEY,
+      DWELL_DEFAULT_LIMIT_SETTING_KEY,
+      DWELL_WARNING_DAYS_SETTING_KEY,
+      DIGEST_CHANNEL_SETTING_KEY,
+      DIGEST_WEBHOOK_URL_SETTING_KEY,
+      DIGEST_RECIPIENTS_SETTING_KEY,
+    ]);
+
+  if (error) throw error;
+
+  const settingsMap = Object.fromEntries((data || []).map((s) => [s.key, s.value]));
+
+  return {
+    dates: buildDateSettings(settingsMap[TIMEZONE_SETTING_KEY], settingsMap[DATE_FORMAT_SETTING_KEY]),
+    dwell: buildDwellSettings(
+      settingsMap[DWELL_DEFAULT_LIMIT_SETTING_KEY],
+      settingsMap[DWELL_WARNING_DAYS_SETTING_KEY]
+    ),
+    delivery: {
+      channel: parseDigestChannel(settingsMap[DIGEST_CHANNEL_SETTING_KEY]),
+      webhookUrl: (settingsMap[DIGEST_WEBHOOK_URL_SETTING_KEY] || "").trim(),
+      recipients: parseRecipients(settingsMap[DIGEST_RECIPIENTS_SETTING_KEY]),
+    } as DeliverySettings,
+  };
+}
+
+async function loadStoredPackages(supabase: SupabaseClient): Promise<StoredPackageRow[]> {
+  const rows: StoredPackageRow[] = [];
+
+  // Paged so large warehouses are not cut off at the default row limit
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("packages")
+      .select("sscc_number, storage_location, dwell_limit_days, created_at, shipments!inner(title, start)")
+      .in("status", STORAGE_STATUSES)
+      .order("created_at")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    rows.push(...((data || []) as unknown as StoredPackageRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+async function generateDigest(
+  supabase: SupabaseClient,
+  settings: Awaited<ReturnType<typeof loadSettings>>
+): Promise<StorageDigest> {
+  const now = new Date();
+  const [packages, rulesResult, categoriesResult] = await Promise.all([
+    loadStoredPackages(supabase),
+    supabase.from("dwell_limit_rules").select("*"),
+    supabase.from("task_categories").select("name, sort_order").eq("active", true),
+  ]);
+
+  if (rulesResult.error) throw rulesResult.error;
+  if (categoriesResult.error) throw categoriesResult.error;
+
+  const items = buildDigestItems(
+    packages,
+    rulesResult.data || [],
+    settings.dwell,
+    categoriesResult.data || [],
+    settings.dates.timeZone,
+    now
+  );
+
+  const { data, error } = await supabase
+    .from("storage_digests")
+    .upsert({
+      digest_date: toZonedInputValue(now, settings.dates.timeZone).slice(0, 10),
+      generated_at: now.toISOString(),
+      total_stored: packages.length,
+      overdue_count: items.filter((item) => item.overdue).length,
+      expiring_count: items.filter((item) => !item.overdue).length,
+      items,
+      delivery_channel: settings.delivery.channel,
+      delivery_status: "pending",
+      delivery_error: "",
+      delivered_at: null,
+    }, { onConflict: "digest_date" })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data as StorageDigest;
+}
+
+async function sendWebhook(url: string, digest: StorageDigest) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      type: "storage_digest",
+      digest_date: digest.digest_date,
+      generated_at: digest.generated_at,
+      total_stored: digest.total_stored,
+      overdue_count: digest.overdue_count,
+      expiring_count: digest.expiring_count,
+      items: digest.items,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+  }
+}
+
+async function sendEmail(recipients: string[], digest: StorageDigest) {
+  const host = Deno.env.get("DIGEST_SMTP_HOST");
+  const from = Deno.env.get("DIGEST_SMTP_FROM");
+
+  if (!host || !from) {
+    throw new Error("DIGEST_SMTP_HOST and DIGEST_SMTP_FROM must be set");
+  }
+  if (recipients.length === 0) {
+    throw new Error("No digest recipients configured");
+  }
+
+  const user = Deno.env.get("DIGEST_SMTP_USER");
+  const transport = nodemailer.createTransport({
+    host,
+    port: parseInt(Deno.env.get("DIGEST_SMTP_PORT") || "587", 10),
+    secure: Deno.env.get("DIGEST_SMTP_TLS") === "true",
+    auth: user ? { user, pass: Deno.env.get("DIGEST_SMTP_PASS") || "" } : undefined,
+  });
+
+  await transport.sendMail({
+    from,
+    to: recipients.join(", "),
+    subject: `Storage digest ${digest.digest_date}: ${digest.overdue_count} overdue, ${digest.expiring_count} nearing limit`,
+    text: digestToText(digest.digest_date, digest.items, digest.total_stored),
+    attachments: [
+      {
+        filename: `storage-digest-${digest.digest_date}.csv`,
+        content: digestItemsToCsv(digest.items),
+        contentType: "text/csv",
+      },
+    ],
+  });
+}
+
+async function deliverDigest(
+  supabase: SupabaseClient,
+  delivery: DeliverySettings,
+  digest: StorageDigest
+) {
+  let status: "sent" | "failed" | "skipped" = "sent";
+  let deliveryError = "";
+
+  try {
+    if (delivery.channel === "webhook") {
+      if (!delivery.webhookUrl) throw new Error("No digest webhook URL configured");
+      await sendWebhook(delivery.webhookUrl, digest);
+    } else if (delivery.channel === "smtp") {
+      await sendEmail(delivery.recipients, digest);
+    } else {
+      status = "skipped";
+    }
+  } catch (error) {
+    console.error("Digest delivery error:", error);
+    status = "failed";
+    deliveryError = (error as Error).message;
+  }
+
+  await supabase
+    .from("storage_digests")
+    .update({
+      delivery_channel: delivery.channel,
+      delivery_status: status,
+      delivery_error: deliveryError,
+      delivered_at: status === "sent" ? new Date().toISOString() : null,
+    })
+    .eq("id", digest.id);
+
+  return { status, error: deliveryError || undefined };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseKey) {
+      throw new Error("Missing Supabase credentials");
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const settings = await loadSettings(supabase);
+
+    // Scheduled runs send no body: generate today's digest and deliver it
+    const body = await req.json().catch(() => ({}));
+    const action = body.action || "generate";
+
+    let digest: StorageDigest;
+
+    if (action === "deliver") {
+      if (!body.digestId) {
+        throw new Error("digestId is required");
+      }
+
+      const { data, error } = await supabase
+        .from("storage_digests")
+        .select("*")
+        .eq("id", body.digestId)
+        .single();
+
+      if (error) throw error;
+      digest = data as StorageDigest;
+    } else {
+      digest = await generateDigest(supabase, settings);
+    }
+
+    const delivery = body.deliver === false
+      ? { status: "pending" as const }
+      : await deliverDigest(supabase, settings.delivery, digest);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        digestId: digest.id,
+        digestDate: digest.digest_date,
+        overdue: digest.overdue_count,
+        expiring: digest.expiring_count,
+        delivery,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Storage digest error:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: (error as Error).message,
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -1,5 +1,22 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
-import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import {
+  COLUMN_MAPPING_SETTING_KEY,
+  type ColumnMappingProfile,
+  type ResolvedColumnMapping,
+  type SheetColumn,
+  normalizeIntensity,
+  normalizeShipmentType,
+  parseColumnMapping,
+  resolveColumnMapping,
+} from "../_shared/sheetMapping.ts";
+import {
+  DATE_FORMAT_SETTING_KEY,
+  type DateSettings,
+  TIMEZONE_SETTING_KEY,
+  buildDateSettings,
+  parseSheetDate,
+} from "../_shared/dateTime.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,49 +24,6 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
-function parseGoogleSheetDate(value: any): string {
-  if (!value) return "";
-
-  const str = value.toString().trim();
-
-  if (str.startsWith("Date(")) {
-    const dateMatch = str.match(/Date\((\d+),(\d+),(\d+),(\d+),(\d+),(\d+)\)/);
-    if (dateMatch) {
-      const year = parseInt(dateMatch[1]);
-      const month = parseInt(dateMatch[2]);
-      const day = parseInt(dateMatch[3]);
-      const hour = parseInt(dateMatch[4]);
-      const minute = parseInt(dateMatch[5]);
-      const second = parseInt(dateMatch[6]);
-
-      const date = new Date(year, month, day, hour, minute, second);
-      return date.toISOString();
-    }
-  }
-
-  const datePatterns = [
-    /(\w+)\s+(\d+),\s+(\d+),\s+(\d+):(\d+):(\d+)/,
-    /(\d{1,2})\/((\d{1,2})\/((\d{4})\s+(\d{1,2}):(\d{2})/,
-    /(\d{4})-(\d{2})-(\d{2})/,
-  ];
-
-  for (const pattern of datePatterns) {
-    if (pattern.test(str)) {
-      const parsed = new Date(str);
-      if (!isNaN(parsed.getTime())) {
-        return parsed.toISOString();
-      }
-    }
-  }
-
-  const parsed = new Date(str);
-  if (!isNaN(parsed.getTime())) {
-    return parsed.toISOString();
-  }
-
-  return "";
-}
-
 function parseGoogleVisualizationResponse(text: string) {
   try {
     const jsonStart = text.indexOf("{");
@@ -64,19 +38,164 @@ function parseGoogleVisualizationResponse(text: string) {
   }
 }
 
+type SyncedField = "status" | "assigned_operators" | "storage_location" | "notes";
+
+const SYNCED_FIELDS: SyncedField[] = [
+  "status",
+  "assigned_operators",
+  "storage_location",
+  "notes",
+];
+
+const SHIPMENT_STATUSES = ["pending", "in_progress", "completed"];
+
+type ShipmentSyncRecord = {
+  id: string;
+  row_id?: number;
+  sscc_numbers?: string;
+  title?: string;
+  status: string;
+  assigned_operators: string[] | null;
+  storage_location: string | null;
+  notes: string | null;
+  sheet_snapshot: Record<string, string> | null;
+};
+
+type SheetRow = {
+  sscc_numbers: string;
+  title: string;
+  start: string;
+  car_reg_no: string;
+  extra: Record<string, string>;
+  fields: Partial<Record<SyncedField, string>>;
+};
+
+type SyncSettings = {
+  spreadsheetId: string;
+  worksheetName: string;
+  pushUrl: string;
+  profile: ColumnMappingProfile;
+  dates: DateSettings;
+};
+
+// Sheet column letters resolved from the mapping profile. A synced field
+// without a mapped column is neither compared nor pushed.
+type SheetLayout = {
+  columns: Partial<Record<SyncedField, string>>;
+  ssccColumn: string;
+  titleColumn: string;
+};
+
+type DetectedConflict = {
+  shipment_id: string;
+  row_id: number | null;
+  field: SyncedField;
+  base_value: string;
+  local_value: string;
+  sheet_value: string;
+};
+
+type RowOutcome = {
+  updates: Record<string, unknown>;
+  snapshot: Record<string, string>;
+  toPush: Partial<Record<SyncedField, string>>;
+  conflicts: DetectedConflict[];
+};
+
+function normalizeOperators(value: string): string {
+  return value
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .join(", ");
+}
+
+function normalizeStatus(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, "_");
+}
+
+function toSheetValue(field: SyncedField, shipment: ShipmentSyncRecord): string {
+  if (field === "assigned_operators") {
+    return (shipment.assigned_operators || []).join(", ");
+  }
+  return (shipment[field] ?? "").toString();
+}
+
+function fromSheetValue(field: SyncedField, value: string): string | string[] {
+  if (field === "assigned_operators") {
+    return value ? value.split(", ") : [];
+  }
+  return value;
+}
+
+function normalizeSheetValue(field: SyncedField, value: string): string {
+  if (field === "assigned_operators") return normalizeOperators(value);
+  if (field === "status") return normalizeStatus(value);
+  return value.trim();
+}
+
+function buildSheetUrl(settings: SyncSettings, query: string): string {
+  return `https://docs.google.com/spreadsheets/d/${settings.spreadsheetId}/gviz/query?sheet=${encodeURIComponent(
+    settings.worksheetName
+  )}&tqx=out:json&tq=${encodeURIComponent(query)}`;
+}
+
+/**
+ * Reads the header row and resolves the saved mapping profile to column
+ * letters. Fails when a required header is missing so a moved or renamed
+ * column stops the sync instead of importing the wrong data.
+ */
+async function loadSheetLayout(
+  settings: SyncSettings
+): Promise<{ mapping: ResolvedColumnMapping; layout: SheetLayout }> {
+  const response = await fetch(buildSheetUrl(settings, "SELECT * LIMIT 0"));
+  const text = await response.text();
+  const data = parseGoogleVisualizationResponse(text);
+
+  if (!data || !data.table || !data.table.cols) {
+    throw new Error("Invalid response structure");
+  }
+
+  const columns: SheetColumn[] = data.table.cols.map((col: { id: string; label?: string }) => ({
+    id: col.id,
+    label: col.label || "",
+  }));
+  const mapping = resolveColumnMapping(columns, settings.profile);
+
+  if (mapping.missing.length > 0) {
+    throw new Error(
+      `Sheet columns not found for mapping "${settings.profile.name}": ${mapping.missing.join(", ")}. Found: ${columns.map((c) => c.label).join(", ")}`
+    );
+  }
+
+  const layout: SheetLayout = {
+    columns: {},
+    ssccColumn: mapping.columns.sscc_numbers!.id,
+    titleColumn: mapping.columns.title!.id,
+  };
+  for (const field of SYNCED_FIELDS) {
+    const column = mapping.columns[field];
+    if (column) layout.columns[field] = column.id;
+  }
+
+  return { mapping, layout };
+}
+
 async function fetchSheetData(
-  spreadsheetId: string,
-  worksheetName: string
-): Promise<any[]> {
+  settings: SyncSettings,
+  mapping: ResolvedColumnMapping
+): Promise<SheetRow[]> {
   try {
-    const query = encodeURIComponent(
-      `SELECT A, C, N, AO WHERE D is not null ORDER BY N`
+    const mappedFields = Object.keys(mapping.columns) as (keyof typeof mapping.columns)[];
+    const selectColumns = mappedFields.map((field) => mapping.columns[field]!.id).join(", ");
+    const startColumn = mapping.columns.start!.id;
+
+    const response = await fetch(
+      buildSheetUrl(
+        settings,
+        `SELECT ${selectColumns} WHERE ${mapping.filterColumnId} is not null ORDER BY ${startColumn}`
+      )
     );
-    const url = `https://docs.google.com/spreadsheets/d/${spreadsheetId}/gviz/query?sheet=${encodeURIComponent(
-      worksheetName
-    )}&tqx=out:json&tq=${query}`;
-
-    const response = await fetch(url);
     const text = await response.text();
     const data = parseGoogleVisualizationResponse(text);
 
@@ -85,12 +204,36 @@ async function fetchSheetData(
       return [];
     }
 
-    const rows: any[] = data.table.rows.map((row: any) => ({
-      sscc_numbers: row.c[0]?.v?.toString() || "",
-      title: row.c[1]?.v?.toString() || "",
-      start: parseGoogleSheetDate(row.c[2]?.v),
-      car_reg_no: row.c[3]?.v?.toString() || "",
-    }));
+    const rows: SheetRow[] = data.table.rows.map((row: any) => {
+      const values: Record<string, string> = {};
+      mappedFields.forEach((field, index) => {
+        values[field] = field === "start"
+          ? parseSheetDate(row.c[index]?.v, settings.dates)
+          : row.c[index]?.v?.toString() || "";
+      });
+
+      const fields: Partial<Record<SyncedField, string>> = {};
+      for (const field of SYNCED_FIELDS) {
+        if (field in values) {
+          fields[field] = normalizeSheetValue(field, values[field]);
+        }
+      }
+
+      const extra: Record<string, string> = {};
+      const shipmentType = values.shipment_type ? normalizeShipmentType(values.shipment_type) : null;
+      const intensity = values.intensity ? normalizeIntensity(values.intensity) : null;
+      if (shipmentType) extra.shipment_type = shipmentType;
+      if (intensity) extra.intensity = intensity;
+
+      return {
+        sscc_numbers: values.sscc_numbers || "",
+        title: values.title || "",
+        start: values.start || "",
+        car_reg_no: values.car_reg_no || "",
+        extra,
+        fields,
+      };
+    });
 
     return rows;
   } catch (error) {
@@ -99,6 +242,505 @@ async function fetchSheetData(
   }
 }
 
+/**
+ * Writes field values back to the sheet through the configured web app
+ * (e.g. a Google Apps Script deployed as a web app). The sheet's gviz
+ * endpoint is read-only, so the web app locates the row by its SSCC and
+ * title columns and sets the given column letters.
+ */
+async function pushRowToSheet(
+  settings: SyncSettings,
+  layout: SheetLayout,
+  row: { sscc_numbers: string; title: string },
+  values: Partial<Record<SyncedField, string>>
+): Promise<void> {
+  const cells: Record<string, string> = {};
+  for (const field of SYNCED_FIELDS) {
+    const column = layout.columns[field];
+    if (column && values[field] !== undefined) {
+      cells[column] = values[field] as string;
+    }
+  }
+
+  const response = await fetch(settings.pushUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      spreadsheetId: settings.spreadsheetId,
+      worksheetName: settings.worksheetName,
+      match: { [layout.ssccColumn]: row.sscc_numbers, [layout.titleColumn]: row.title },
+      values: cells,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Sheet write failed with HTTP ${response.status}`);
+  }
+}
+
+/**
+ * Three-way comparison of each synced field against the value agreed at the
+ * last sync. Sheet-only edits are applied locally, app-only edits are queued
+ * for push, and edits on both sides become conflicts.
+ */
+function reconcileRow(
+  existing: ShipmentSyncRecord | null,
+  sheetRow: SheetRow,
+  key: string,
+  layout: SheetLayout,
+  errors: string[]
+): RowOutcome {
+  const outcome: RowOutcome = {
+    updates: {},
+    snapshot: { ...(existing?.sheet_snapshot || {}) },
+    toPush: {},
+    conflicts: [],
+  };
+
+  for (const field of SYNCED_FIELDS) {
+    if (!layout.columns[field]) continue;
+
+    const sheetValue = sheetRow.fields[field] ?? "";
+
+    if (field === "status" && sheetValue && !SHIPMENT_STATUSES.includes(sheetValue)) {
+      errors.push(`SSCC ${key}: unknown status "${sheetValue}" in sheet`);
+      continue;
+    }
+
+    if (!existing || !existing.sheet_snapshot) {
+      // First sync of this row: a filled sheet cell wins, otherwise the app value is pushed
+      const localValue = existing ? toSheetValue(field, existing) : "";
+      if (sheetValue || !localValue) {
+        if (sheetValue) outcome.updates[field] = fromSheetValue(field, sheetValue);
+        outcome.snapshot[field] = sheetValue;
+      } else {
+        outcome.toPush[field] = localValue;
+      }
+      continue;
+    }
+
+    const baseValue = existing.sheet_snapshot[field] ?? "";
+    const localValue = toSheetValue(field, existing);
+    const sheetChanged = sheetValue !== baseValue;
+    const localChanged = localValue !== baseValue;
+
+    if (sheetChanged && localChanged) {
+      if (sheetValue === localValue) {
+        outcome.snapshot[field] = sheetValue;
+      } else {
+        outcome.conflicts.push({
+          shipment_id: existing.id,
+          row_id: existing.row_id ?? null,
+          field,
+          base_value: baseValue,
+          local_value: localValue,
+          sheet_value: sheetValue,
+        });
+      }
+    } else if (sheetChanged) {
+      outcome.updates[field] = fromSheetValue(field, sheetValue);
+      outcome.snapshot[field] = sheetValue;
+    } else if (localChanged) {
+      outcome.toPush[field] = localValue;
+    }
+  }
+
+  if (outcome.updates.status === "completed" && existing?.status !== "completed") {
+    outcome.updates.completed_at = new Date().toISOString();
+  }
+
+  return outcome;
+}
+
+async function recordConflicts(
+  supabase: SupabaseClient,
+  syncLogId: string | null,
+  conflicts: DetectedConflict[]
+) {
+  for (const conflict of conflicts) {
+    // A newer detection supersedes the open conflict for the same field
+    await supabase
+      .from("sync_conflicts")
+      .delete()
+      .eq("shipment_id", conflict.shipment_id)
+      .eq("field", conflict.field)
+      .eq("status", "open");
+
+    await supabase.from("sync_conflicts").insert({
+      ...conflict,
+      sync_log_id: syncLogId,
+    });
+  }
+}
+
+async function writeSyncLog(
+  supabase: SupabaseClient,
+  direction: "pull" | "push" | "resolve",
+  counts: { imported: number; skipped: number; pushed: number; conflicts: number },
+  errors: string[]
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("sync_logs")
+    .insert({
+      direction,
+      imported: counts.imported,
+      skipped: counts.skipped,
+      pushed: counts.pushed,
+      conflicts: counts.conflicts,
+      errors: errors.length,
+      error_details: errors.join("\n"),
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error("Failed to write sync log:", error);
+    return null;
+  }
+
+  return data.id;
+}
+
+async function loadSettings(supabase: SupabaseClient): Promise<SyncSettings | string> {
+  const { data: settings } = await supabase
+    .from("app_settings")
+    .select("key, value")
+    .in("key", [
+      "spreadsheet_id",
+      "worksheet_name",
+      "sheet_push_url",
+      COLUMN_MAPPING_SETTING_KEY,
+      TIMEZONE_SETTING_KEY,
+      DATE_FORMAT_SETTING_KEY,
+    ]);
+
+  if (!settings || settings.length === 0) {
+    return "Google Sheets not configured";
+  }
+
+  const settingsMap = Object.fromEntries(
+    settings.map((s) => [s.key, s.value])
+  );
+
+  if (!settingsMap.spreadsheet_id) {
+    return "Spreadsheet ID not configured";
+  }
+
+  return {
+    spreadsheetId: settingsMap.spreadsheet_id,
+    worksheetName: settingsMap.worksheet_name || "Live",
+    pushUrl: settingsMap.sheet_push_url || "",
+    profile: parseColumnMapping(settingsMap[COLUMN_MAPPING_SETTING_KEY]),
+    dates: buildDateSettings(
+      settingsMap[TIMEZONE_SETTING_KEY],
+      settingsMap[DATE_FORMAT_SETTING_KEY]
+    ),
+  };
+}
+
+const SYNC_RECORD_COLUMNS = "id, row_id, sscc_numbers, status, assigned_operators, storage_location, notes, sheet_snapshot";
+// Keeps `.in()` filters well inside the URL length limit
+const SSCC_BATCH_SIZE = 200;
+
+/**
+ * A sheet row is matched to its shipment by the SSCC cell. Row positions are
+ * not stable: inserting, deleting or sorting rows in the sheet moves them.
+ */
+function sheetRowKey(sscc: string | null | undefined): string {
+  return (sscc || "").trim();
+}
+
+async function loadSyncRecordsByKey(
+  supabase: SupabaseClient,
+  keys: string[]
+): Promise<Map<string, ShipmentSyncRecord[]>> {
+  const existingByKey = new Map<string, ShipmentSyncRecord[]>();
+
+  for (let start = 0; start < keys.length; start += SSCC_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from("shipments")
+      .select(SYNC_RECORD_COLUMNS)
+      .in("sscc_numbers", keys.slice(start, start + SSCC_BATCH_SIZE));
+
+    if (error) throw error;
+
+    for (const shipment of (data || []) as ShipmentSyncRecord[]) {
+      const key = sheetRowKey(shipment.sscc_numbers);
+      existingByKey.set(key, [...(existingByKey.get(key) || []), shipment]);
+    }
+  }
+
+  return existingByKey;
+}
+
+async function loadTargetKeys(supabase: SupabaseClient, shipmentIds: string[]): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from("shipments")
+    .select("sscc_numbers")
+    .in("id", shipmentIds);
+
+  if (error) throw error;
+
+  return new Set((data || []).map((shipment) => sheetRowKey(shipment.sscc_numbers)).filter(Boolean));
+}
+
+async function loadNextRowId(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase
+    .from("shipments")
+    .select("row_id")
+    .order("row_id", { ascending: false })
+    .limit(1);
+
+  if (error) throw error;
+
+  return (data?.[0]?.row_id ?? 1) + 1;
+}
+
+async function syncRows(
+  supabase: SupabaseClient,
+  settings: SyncSettings,
+  direction: "pull" | "push",
+  shipmentIds: string[] | null
+) {
+  let imported = 0;
+  let skipped = 0;
+  let pushed = 0;
+  const errors: string[] = [];
+  const conflicts: DetectedConflict[] = [];
+
+  let sheet: { mapping: ResolvedColumnMapping; layout: SheetLayout };
+  try {
+    sheet = await loadSheetLayout(settings);
+  } catch (error) {
+    errors.push((error as Error).message);
+    await writeSyncLog(supabase, direction, { imported, skipped, pushed, conflicts: 0 }, errors);
+    throw error;
+  }
+
+  const { layout } = sheet;
+  const sheetRows = await fetchSheetData(settings, sheet.mapping);
+
+  let targetKeys: Set<string> | null = null;
+  let existingByKey: Map<string, ShipmentSyncRecord[]>;
+  let nextRowId: number;
+  const rowsByKey = new Map<string, SheetRow[]>();
+  let unkeyedRows = 0;
+
+  try {
+    // A targeted push only visits the rows of the given shipments
+    if (shipmentIds) {
+      targetKeys = await loadTargetKeys(supabase, shipmentIds);
+    }
+
+    for (const row of sheetRows) {
+      const key = sheetRowKey(row.sscc_numbers);
+      if (!key) {
+        unkeyedRows++;
+        continue;
+      }
+      if (targetKeys && !targetKeys.has(key)) continue;
+      rowsByKey.set(key, [...(rowsByKey.get(key) || []), row]);
+    }
+
+    existingByKey = await loadSyncRecordsByKey(supabase, [...rowsByKey.keys()]);
+    nextRowId = await loadNextRowId(supabase);
+  } catch (error) {
+    errors.push((error as Error).message);
+    await writeSyncLog(supabase, direction, { imported, skipped, pushed, conflicts: 0 }, errors);
+    throw error;
+  }
+
+  if (unkeyedRows > 0 && !targetKeys) {
+    errors.push(`${unkeyedRows} sheet row(s) without an SSCC were skipped`);
+    skipped += unkeyedRows;
+  }
+
+  for (const [key, rows] of rowsByKey) {
+    const matches = existingByKey.get(key) || [];
+
+    // Ambiguous rows are left alone rather than merged into the wrong shipment
+    if (rows.length > 1) {
+      errors.push(`SSCC ${key}: ${rows.length} sheet rows share this SSCC, skipped`);
+      skipped++;
+      continue;
+    }
+    if (matches.length > 1) {
+      errors.push(`SSCC ${key}: ${matches.length} shipments share this SSCC, skipped`);
+      skipped++;
+      continue;
+    }
+
+    const row = rows[0];
+    const existing = matches[0] || null;
+    let shipmentId: string;
+
+    const now = new Date().toISOString();
+    const outcome = reconcileRow(existing, row, key, layout, errors);
+
+    if (existing && existing.status === "completed") {
+      shipmentId = existing.id;
+
+      // Completed rows are no longer pulled; sheet edits to them become conflicts
+      const sheetFields = Object.keys(outcome.updates).filter((field) => field !== "completed_at") as SyncedField[];
+      for (const field of sheetFields) {
+        const sheetValue = outcome.snapshot[field] ?? "";
+        const localValue = toSheetValue(field, existing);
+        if (sheetValue === localValue) continue;
+
+        const baseValue = existing.sheet_snapshot?.[field] ?? "";
+        outcome.snapshot[field] = baseValue;
+        outcome.conflicts.push({
+          shipment_id: existing.id,
+          row_id: existing.row_id ?? null,
+          field,
+          base_value: baseValue,
+          local_value: localValue,
+          sheet_value: sheetValue,
+        });
+      }
+      outcome.updates = {};
+      skipped++;
+    } else {
+      const values = {
+        sscc_numbers: row.sscc_numbers,
+        title: row.title,
+        start: row.start,
+        car_reg_no: row.car_reg_no,
+        ...row.extra,
+        ...outcome.updates,
+        updated_at: now,
+      };
+
+      const { data: saved, error } = existing
+        ? await supabase.from("shipments").update(values).eq("id", existing.id).select("id").single()
+        : await supabase.from("shipments").insert({ ...values, row_id: nextRowId }).select("id").single();
+
+      if (error) {
+        errors.push(`SSCC ${key}: ${error.message}`);
+        continue;
+      }
+      if (!existing) nextRowId++;
+      shipmentId = saved.id;
+      imported++;
+    }
+
+    const pushFields = Object.keys(outcome.toPush) as SyncedField[];
+    if (pushFields.length > 0) {
+      if (!settings.pushUrl) {
+        errors.push(`SSCC ${key}: local changes not pushed, sheet_push_url not configured`);
+      } else {
+        try {
+          await pushRowToSheet(settings, layout, row, outcome.toPush);
+          for (const field of pushFields) {
+            outcome.snapshot[field] = outcome.toPush[field] as string;
+          }
+          pushed += pushFields.length;
+        } catch (error) {
+          errors.push(`SSCC ${key}: ${(error as Error).message}`);
+        }
+      }
+    }
+
+    conflicts.push(...outcome.conflicts);
+
+    await supabase
+      .from("shipments")
+      .update({ sheet_snapshot: outcome.snapshot, sheet_synced_at: now })
+      .eq("id", shipmentId);
+  }
+
+  const syncLogId = await writeSyncLog(
+    supabase,
+    direction,
+    { imported, skipped, pushed, conflicts: conflicts.length },
+    errors
+  );
+  await recordConflicts(supabase, syncLogId, conflicts);
+
+  console.log(
+    `Sheet sync (${direction}): imported ${imported}, skipped ${skipped}, pushed ${pushed}, conflicts ${conflicts.length}, errors: ${errors.length}`
+  );
+
+  return { imported, skipped, pushed, conflicts: conflicts.length, errors };
+}
+
+async function resolveConflict(
+  supabase: SupabaseClient,
+  settings: SyncSettings,
+  conflictId: string,
+  resolution: "local" | "sheet",
+  resolvedBy: string | null
+) {
+  const { data: conflict } = await supabase
+    .from("sync_conflicts")
+    .select("*")
+    .eq("id", conflictId)
+    .eq("status", "open")
+    .maybeSingle();
+
+  if (!conflict) {
+    throw new Error("Conflict not found or already resolved");
+  }
+
+  const field = conflict.field as SyncedField;
+  const { data: shipment } = await supabase
+    .from("shipments")
+    .select("id, sscc_numbers, title, status, assigned_operators, storage_location, notes, sheet_snapshot")
+    .eq("id", conflict.shipment_id)
+    .single();
+
+  const snapshot = { ...(shipment.sheet_snapshot || {}) };
+  let pushed = 0;
+
+  if (resolution === "sheet") {
+    const updates: Record<string, unknown> = {
+      [field]: fromSheetValue(field, conflict.sheet_value),
+      updated_at: new Date().toISOString(),
+    };
+    if (field === "status" && conflict.sheet_value === "completed" && shipment.status !== "completed") {
+      updates.completed_at = new Date().toISOString();
+    }
+
+    const { error } = await supabase
+      .from("shipments")
+      .update(updates)
+      .eq("id", shipment.id);
+
+    if (error) throw error;
+    snapshot[field] = conflict.sheet_value;
+  } else {
+    if (!settings.pushUrl) {
+      throw new Error("sheet_push_url not configured");
+    }
+    const { layout } = await loadSheetLayout(settings);
+    const localValue = toSheetValue(field, shipment);
+    await pushRowToSheet(settings, layout, shipment, { [field]: localValue });
+    snapshot[field] = localValue;
+    pushed = 1;
+  }
+
+  await supabase
+    .from("shipments")
+    .update({ sheet_snapshot: snapshot, sheet_synced_at: new Date().toISOString() })
+    .eq("id", shipment.id);
+
+  await supabase
+    .from("sync_conflicts")
+    .update({
+      status: resolution === "sheet" ? "kept_sheet" : "kept_local",
+      resolved_by: resolvedBy,
+      resolved_at: new Date().toISOString(),
+    })
+    .eq("id", conflictId);
+
+  await writeSyncLog(
+    supabase,
+    "resolve",
+    { imported: resolution === "sheet" ? 1 : 0, skipped: 0, pushed, conflicts: 0 },
+    []
+  );
+}
+
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -117,16 +759,13 @@ Deno.serve(async (req: Request) => {
 
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    const { data: settings } = await supabase
-      .from("app_settings")
-      .select("key, value")
-      .in("key", ["spreadsheet_id", "worksheet_name"]);
+    const settings = await loadSettings(supabase);
 
-    if (!settings || settings.length === 0) {
+    if (typeof settings === "string") {
       return new Response(
         JSON.stringify({
           success: false,
-          error: "Google Sheets not configured",
+          error: settings,
         }),
         {
           headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -134,74 +773,42 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const settingsMap = Object.fromEntries(
-      (settings as any[]).map((s) => [s.key, s.value])
-    );
-    const spreadsheetId = settingsMap.spreadsheet_id;
-    const worksheetName = settingsMap.worksheet_name || "Live";
+    // Scheduled runs send no body and perform a full pull
+    const body = await req.json().catch(() => ({}));
+    const action = body.action || "pull";
+
+    if (action === "resolve") {
+      if (!body.conflictId || !["local", "sheet"].includes(body.resolution)) {
+        throw new Error("conflictId and resolution (local or sheet) are required");
+      }
+
+      await resolveConflict(
+        supabase,
+        settings,
+        body.conflictId,
+        body.resolution,
+        body.resolvedBy || null
+      );
 
-    if (!spreadsheetId) {
       return new Response(
-        JSON.stringify({
-          success: false,
-          error: "Spreadsheet ID not configured",
-        }),
+        JSON.stringify({ success: true }),
         {
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         }
       );
     }
 
-    const sheetRows = await fetchSheetData(spreadsheetId, worksheetName);
-
-    let imported = 0;
-    let skipped = 0;
-    let errors: string[] = [];
-
-    for (let i = 0; i < sheetRows.length; i++) {
-      const row = sheetRows[i];
-      const rowId = i + 2;
-
-      const { data: existing } = await supabase
-        .from("shipments")
-        .select("id, status")
-        .eq("row_id", rowId)
-        .maybeSingle();
-
-      if (existing && existing.status === "completed") {
-        skipped++;
-        continue;
-      }
-
-      const { error } = await supabase.from("shipments").upsert(
-        {
-          row_id: rowId,
-          sscc_numbers: row.sscc_numbers,
-          title: row.title,
-          start: row.start,
-          car_reg_no: row.car_reg_no,
-          updated_at: new Date().toISOString(),
-        },
-        { onConflict: "row_id" }
-      );
-
-      if (error) {
-        errors.push(`Row ${i + 1}: ${error.message}`);
-      } else {
-        imported++;
-      }
-    }
-
-    console.log(
-      `Sheet sync: imported ${imported}, skipped ${skipped}, errors: ${errors.length}`
+    const result = await syncRows(
+      supabase,
+      settings,
+      action === "push" ? "push" : "pull",
+      action === "push" ? body.shipmentIds || [] : null
     );
 
     return new Response(
       JSON.stringify({
         success: true,
-        imported,
-        skipped,
-        errors,
+        ...result,
       }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -0,0 +1,129 @@
+/*
+  # Two-Way Google Sheets Sync with Conflict Detection
+
+  ## Overview
+  The sheet sync previously only pulled four columns into `shipments`. This migration adds the
+  bookkeeping needed to push app edits (status, operators, storage location, notes) back to the
+  sheet and to detect rows that were edited on both sides since the last sync.
+
+  ## Changes to Existing Tables
+
+  ### shipments
+  - `sheet_snapshot` (jsonb) - Values of the synced fields as agreed at the last successful sync.
+    A field whose local value differs from the snapshot was edited in the app; a field whose sheet
+    value differs from the snapshot was edited in the sheet.
+  - `sheet_synced_at` (timestamptz) - When the row was last reconciled with the sheet
+
+  ### sync_logs
+  - `direction` (text) - pull (scheduled sync), push (app edit) or resolve (conflict resolution)
+  - `pushed` (integer) - Number of field values written back to the sheet
+  - `conflicts` (integer) - Number of conflicts detected during the run
+
+  ## New Tables
+
+  ### sync_conflicts
+  One row per field edited on both sides, linked to the sync run that found it.
+  - `id` (uuid, primary key)
+  - `sync_log_id` (uuid, foreign key) - Sync run that detected the conflict
+  - `shipment_id` (uuid, foreign key) - Affected shipment
+  - `row_id` (integer) - Sheet row of the shipment
+  - `field` (text) - status, assigned_operators, storage_location or notes
+  - `base_value` (text) - Value at the last sync
+  - `local_value` (text) - Value in the app
+  - `sheet_value` (text) - Value in the sheet
+  - `status` (text) - open, kept_local or kept_sheet
+  - `resolved_by` (uuid, foreign key, nullable) - User who resolved the conflict
+  - `resolved_at` (timestamptz, nullable)
+  - `created_at` (timestamptz)
+
+  ## Security
+  - Authenticated users can view sync conflicts
+  - Conflicts are written and resolved by the sync-google-sheets Edge Function (service role)
+
+  ## Important Notes
+  - Only one open conflict exists per shipment and field; a newer detection replaces the older one
+  - Write-back requires `sheet_push_url` and the per-field column settings in app_settings
+*/
+
+-- ============================================
+-- Add sync tracking fields to shipments
+-- ============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'shipments' AND column_name = 'sheet_snapshot'
+  ) THEN
+    ALTER TABLE shipments ADD COLUMN sheet_snapshot jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'shipments' AND column_name = 'sheet_synced_at'
+  ) THEN
+    ALTER TABLE shipments ADD COLUMN sheet_synced_at timestamptz;
+  END IF;
+END $$;
+
+-- ============================================
+-- Extend sync_logs
+-- ============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'sync_logs' AND column_name = 'direction'
+  ) THEN
+    ALTER TABLE sync_logs ADD COLUMN direction text DEFAULT 'pull'
+      CHECK (direction IN ('pull', 'push', 'resolve'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'sync_logs' AND column_name = 'pushed'
+  ) THEN
+    ALTER TABLE sync_logs ADD COLUMN pushed integer DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'sync_logs' AND column_name = 'conflicts'
+  ) THEN
+    ALTER TABLE sync_logs ADD COLUMN conflicts integer DEFAULT 0;
+  END IF;
+END $$;
+
+-- ============================================
+-- Create sync_conflicts table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS sync_conflicts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sync_log_id uuid REFERENCES sync_logs(id) ON DELETE CASCADE,
+  shipment_id uuid NOT NULL REFERENCES shipments(id) ON DELETE CASCADE,
+  row_id integer,
+  field text NOT NULL CHECK (field IN ('status', 'assigned_operators', 'storage_location', 'notes')),
+  base_value text DEFAULT '',
+  local_value text DEFAULT '',
+  sheet_value text DEFAULT '',
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'kept_local', 'kept_sheet')),
+  resolved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_conflicts_open_field
+  ON sync_conflicts(shipment_id, field) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_sync_conflicts_sync_log_id ON sync_conflicts(sync_log_id);
+CREATE INDEX IF NOT EXISTS idx_sync_conflicts_created_at ON sync_conflicts(created_at DESC);
+
+ALTER TABLE sync_conflicts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view sync conflicts"
+  ON sync_conflicts FOR SELECT
+  TO authenticated
+  USING (true);
+
+COMMENT ON TABLE sync_conflicts IS 'Fields edited both in the app and in the Google Sheet since the last sync. Resolved through the sync-google-sheets Edge Function.';
@@ -0,0 +1,172 @@
+/*
+  # Create Dock Door Scheduling
+
+  ## Overview
+  Shipments only carried a `start` timestamp. This migration adds dock doors as a schedulable
+  resource so each shipment can be booked into a door and a time slot, and the schedule can
+  warn about double bookings and days where the intensity load exceeds a door's capacity.
+
+  ## New Tables
+
+  ### dock_doors
+  - `id` (uuid, primary key)
+  - `name` (text, unique) - Display name, e.g. "Door 3"
+  - `slot_minutes` (integer) - Default slot length for bookings at this door
+  - `daily_capacity_points` (integer) - Maximum intensity points per day (low 1, medium 2, high 3)
+  - `open_time` / `close_time` (time) - Operating hours shown on the timeline
+  - `active` (boolean) - Inactive doors cannot be booked
+  - `sort_order` (integer)
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## Changes to Existing Tables
+
+  ### shipments
+  - `dock_door_id` (uuid, foreign key, nullable) - Assigned door
+  - `slot_start` (timestamptz, nullable) - Start of the booked slot
+  - `slot_end` (timestamptz, nullable) - End of the booked slot
+
+  ### shipments_with_users (view)
+  - Recreated so `s.*` includes the new columns
+
+  ## Security
+  - Authenticated users can view doors; only admins can create, update or delete them
+  - Anonymous users can view active doors (for LED display)
+
+  ## Important Notes
+  - A door with bookings cannot be deleted while shipments reference it; deactivate it instead
+  - Overlap and capacity checks are warnings, not constraints, so planners can overbook knowingly
+*/
+
+-- ============================================
+-- Create dock_doors table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS dock_doors (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  slot_minutes integer NOT NULL DEFAULT 30 CHECK (slot_minutes > 0),
+  daily_capacity_points integer NOT NULL DEFAULT 12 CHECK (daily_capacity_points > 0),
+  open_time time NOT NULL DEFAULT '06:00',
+  close_time time NOT NULL DEFAULT '18:00',
+  active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE dock_doors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view dock doors"
+  ON dock_doors FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Anonymous users can view active dock doors"
+  ON dock_doors FOR SELECT
+  TO anon
+  USING (active = true);
+
+CREATE POLICY "Only admins can insert dock doors"
+  ON dock_doors FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Only admins can update dock doors"
+  ON dock_doors FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'super_admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Only admins can delete dock doors"
+  ON dock_doors FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'super_admin')
+    )
+  );
+
+-- ============================================
+-- Add door booking fields to shipments
+-- ============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'shipments' AND column_name = 'dock_door_id'
+  ) THEN
+    ALTER TABLE shipments ADD COLUMN dock_door_id uuid REFERENCES dock_doors(id) ON DELETE RESTRICT;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'shipments' AND column_name = 'slot_start'
+  ) THEN
+    ALTER TABLE shipments ADD COLUMN slot_start timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'shipments' AND column_name = 'slot_end'
+  ) THEN
+    ALTER TABLE shipments ADD COLUMN slot_end timestamptz;
+  END IF;
+END $$;
+
+ALTER TABLE shipments DROP CONSTRAINT IF EXISTS shipments_slot_range_check;
+ALTER TABLE shipments ADD CONSTRAINT shipments_slot_range_check
+  CHECK (slot_start IS NULL OR slot_end IS NULL OR slot_end > slot_start);
+
+CREATE INDEX IF NOT EXISTS idx_shipments_dock_door_slot
+  ON shipments(dock_door_id, slot_start)
+  WHERE dock_door_id IS NOT NULL;
+
+-- ============================================
+-- Recreate shipments_with_users so it exposes the new columns
+-- ============================================
+
+DROP VIEW IF EXISTS shipments_with_users;
+CREATE VIEW shipments_with_users AS
+SELECT
+  s.*,
+  creator.email as created_by_email,
+  updater.email as updated_by_email,
+  completer.email as completed_by_email
+FROM shipments s
+LEFT JOIN auth.users creator ON s.created_by = creator.id
+LEFT JOIN auth.users updater ON s.updated_by = updater.id
+LEFT JOIN auth.users completer ON s.completed_by = completer.id;
+
+GRANT SELECT ON shipments_with_users TO authenticated;
+GRANT SELECT ON shipments_with_users TO anon;
+
+-- ============================================
+-- Seed default doors
+-- ============================================
+
+INSERT INTO dock_doors (name, sort_order)
+VALUES ('Door 1', 1), ('Door 2', 2), ('Door 3', 3)
+ON CONFLICT (name) DO NOTHING;
+
+COMMENT ON TABLE dock_doors IS 'Dock doors that shipments are booked into. Capacity is measured in intensity points per day (low 1, medium 2, high 3).';
@@ -0,0 +1,299 @@
+/*
+  # Package Lifecycle State Machine
+
+  ## Overview
+  Package status used to be a loose `pending | stored | completed` that clients could set to
+  anything. This migration introduces an explicit lifecycle and enforces it in the database:
+
+    expected → received → putaway → stored → picked → loaded → delivered
+
+  plus two side states, `quarantine` and `deviation_hold`, that a package can enter from any
+  active state and leave again once cleared. Every status change is recorded with who made it
+  and when, so the package timeline no longer has to be inferred from shipment pairs.
+
+  ## Status Mapping for Existing Data
+  - `pending` packages of a completed outgoing shipment, or whose SSCC is one of the SSCCs
+    listed on one → `delivered` (historical bulk imports marked delivered packages as `pending`)
+  - `pending` packages on an open outgoing shipment → `picked`
+  - other `pending`, and NULL → `expected`
+  - `stored` → `stored`
+  - `completed` → `delivered`
+  - Values are matched exactly. Any other value stops the migration with the list of unmapped
+    values, so it can be mapped by hand instead of being guessed
+
+  ## New Tables
+
+  ### package_status_history
+  - `id` (uuid, primary key)
+  - `package_id` (uuid, foreign key) - Package that changed
+  - `shipment_id` (uuid, nullable) - Shipment the package belonged to at the time
+  - `from_status` (text, nullable) - Previous status, null for the initial entry
+  - `to_status` (text) - New status
+  - `reason` (text) - Optional note, e.g. the shipment that moved it
+  - `changed_by` (uuid, nullable) - auth.uid() of the user making the change
+  - `changed_at` (timestamptz)
+
+  ## New Functions
+  - `is_valid_package_transition(from, to)` - The transition table
+  - `enforce_package_status_transition()` - BEFORE trigger rejecting invalid transitions
+  - `log_package_status_change()` - AFTER trigger writing package_status_history
+  - `transition_package_status(...)` - RPC used by the app; can walk several steps along the
+    main path in one call, logging each step
+
+  ## Security
+  - Authenticated users can view history; rows are only written by the trigger
+
+  ## Important Notes
+  - Inserts may start in any status (historical imports and restores create stored or
+    delivered packages directly); legacy `pending`/`completed` values are mapped on insert
+  - Updates that change status must follow the transition table
+*/
+
+-- ============================================
+-- Map existing statuses and replace the constraint
+-- ============================================
+
+ALTER TABLE packages DROP CONSTRAINT IF EXISTS packages_status_check;
+
+UPDATE packages p
+SET status = 'delivered'
+WHERE p.status = 'pending'
+AND EXISTS (
+  SELECT 1 FROM shipments s
+  WHERE s.shipment_type = 'outgoing'
+  AND s.status = 'completed'
+  AND (
+    s.id = p.shipment_id
+    -- Whole list entries only: a substring match would also hit longer SSCCs containing this one
+    OR p.sscc_number IN (
+      SELECT trim(listed)
+      FROM unnest(string_to_array(COALESCE(s.sscc_numbers, ''), ',')) listed
+    )
+  )
+);
+
+-- Packages listed on an open outgoing shipment have been picked from stock
+UPDATE packages p
+SET status = 'picked'
+WHERE p.status = 'pending'
+AND EXISTS (
+  SELECT 1 FROM shipments s
+  WHERE s.id = p.shipment_id
+  AND s.shipment_type = 'outgoing'
+  AND s.status != 'completed'
+);
+
+UPDATE packages SET status = 'expected' WHERE status = 'pending' OR status IS NULL;
+UPDATE packages SET status = 'delivered' WHERE status = 'completed';
+
+DO $$
+DECLARE
+  v_unmapped text;
+BEGIN
+  SELECT string_agg(DISTINCT quote_literal(status), ', ') INTO v_unmapped
+  FROM packages
+  WHERE status NOT IN ('expected', 'stored', 'picked', 'delivered');
+
+  IF v_unmapped IS NOT NULL THEN
+    RAISE EXCEPTION 'Unmapped package status value(s): %. Map them to a lifecycle status before running this migration', v_unmapped;
+  END IF;
+END $$;
+
+ALTER TABLE packages ALTER COLUMN status SET DEFAULT 'expected';
+ALTER TABLE packages ALTER COLUMN status SET NOT NULL;
+
+ALTER TABLE packages ADD CONSTRAINT packages_status_check
+CHECK (status IN (
+  'expected', 'received', 'putaway', 'stored', 'picked', 'loaded', 'delivered',
+  'quarantine', 'deviation_hold'
+));
+
+CREATE INDEX IF NOT EXISTS idx_packages_status ON packages(status);
+
+-- ============================================
+-- Create package_status_history table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS package_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  package_id uuid NOT NULL REFERENCES packages(id) ON DELETE CASCADE,
+  shipment_id uuid REFERENCES shipments(id) ON DELETE SET NULL,
+  from_status text,
+  to_status text NOT NULL,
+  reason text DEFAULT '',
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_package_status_history_package
+  ON package_status_history(package_id, changed_at);
+
+ALTER TABLE package_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view package status history"
+  ON package_status_history FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Seed one initial entry per existing package so every timeline has a starting point
+INSERT INTO package_status_history (package_id, shipment_id, from_status, to_status, reason, changed_at)
+SELECT p.id, p.shipment_id, NULL, p.status, 'Status at lifecycle migration', p.updated_at
+FROM packages p
+WHERE NOT EXISTS (
+  SELECT 1 FROM package_status_history h WHERE h.package_id = p.id
+);
+
+-- ============================================
+-- Transition table
+-- ============================================
+
+CREATE OR REPLACE FUNCTION is_valid_package_transition(p_from text, p_to text)
+RETURNS boolean AS $$
+BEGIN
+  IF p_from = p_to THEN
+    RETURN true;
+  END IF;
+
+  -- Holds can be entered from any active state
+  IF p_to IN ('quarantine', 'deviation_hold') THEN
+    RETURN p_from NOT IN ('delivered');
+  END IF;
+
+  RETURN CASE p_from
+    WHEN 'expected' THEN p_to IN ('received')
+    WHEN 'received' THEN p_to IN ('putaway')
+    WHEN 'putaway' THEN p_to IN ('stored')
+    WHEN 'stored' THEN p_to IN ('picked')
+    WHEN 'picked' THEN p_to IN ('loaded', 'stored')
+    WHEN 'loaded' THEN p_to IN ('delivered', 'picked')
+    WHEN 'quarantine' THEN p_to IN ('received', 'putaway', 'stored')
+    WHEN 'deviation_hold' THEN p_to IN ('received', 'putaway', 'stored', 'picked', 'loaded')
+    ELSE false
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ============================================
+-- Enforcement and logging triggers
+-- ============================================
+
+CREATE OR REPLACE FUNCTION enforce_package_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    -- Older clients and backups still send the previous status values
+    NEW.status := CASE NEW.status
+      WHEN 'pending' THEN 'expected'
+      WHEN 'completed' THEN 'delivered'
+      ELSE COALESCE(NEW.status, 'expected')
+    END;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IS DISTINCT FROM NEW.status
+     AND NOT is_valid_package_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Invalid package status transition from % to % for package %',
+      OLD.status, NEW.status, NEW.sscc_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_enforce_package_status_transition ON packages;
+CREATE TRIGGER trigger_enforce_package_status_transition
+  BEFORE INSERT OR UPDATE OF status ON packages
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_package_status_transition();
+
+CREATE OR REPLACE FUNCTION log_package_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO package_status_history (
+      package_id,
+      shipment_id,
+      from_status,
+      to_status,
+      reason,
+      changed_by
+    ) VALUES (
+      NEW.id,
+      NEW.shipment_id,
+      CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.status END,
+      NEW.status,
+      COALESCE(NULLIF(current_setting('app.package_status_reason', true), ''),
+        CASE WHEN TG_OP = 'INSERT' THEN 'Package created' ELSE '' END),
+      auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_log_package_status_change ON packages;
+CREATE TRIGGER trigger_log_package_status_change
+  AFTER INSERT OR UPDATE OF status ON packages
+  FOR EACH ROW
+  EXECUTE FUNCTION log_package_status_change();
+
+-- ============================================
+-- Transition RPC
+-- ============================================
+
+CREATE OR REPLACE FUNCTION transition_package_status(
+  p_package_id uuid,
+  p_to_status text,
+  p_reason text DEFAULT NULL,
+  p_storage_location text DEFAULT NULL,
+  p_through boolean DEFAULT false
+)
+RETURNS packages AS $$
+DECLARE
+  v_main_path text[] := ARRAY['expected', 'received', 'putaway', 'stored', 'picked', 'loaded', 'delivered'];
+  v_package packages;
+  v_from_idx int;
+  v_to_idx int;
+  v_step text;
+BEGIN
+  SELECT * INTO v_package FROM packages WHERE id = p_package_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Package % not found', p_package_id;
+  END IF;
+
+  PERFORM set_config('app.package_status_reason', COALESCE(p_reason, ''), true);
+
+  IF p_storage_location IS NOT NULL THEN
+    UPDATE packages
+    SET storage_location = p_storage_location, updated_at = now()
+    WHERE id = p_package_id;
+  END IF;
+
+  v_from_idx := array_position(v_main_path, v_package.status);
+  v_to_idx := array_position(v_main_path, p_to_status);
+
+  -- Walk the main path one step at a time so each step is validated and logged
+  IF p_through AND v_from_idx IS NOT NULL AND v_to_idx IS NOT NULL AND v_to_idx > v_from_idx + 1 THEN
+    FOR i IN (v_from_idx + 1)..v_to_idx LOOP
+      v_step := v_main_path[i];
+      UPDATE packages SET status = v_step, updated_at = now() WHERE id = p_package_id;
+    END LOOP;
+  ELSIF v_package.status IS DISTINCT FROM p_to_status THEN
+    UPDATE packages SET status = p_to_status, updated_at = now() WHERE id = p_package_id;
+  END IF;
+
+  PERFORM set_config('app.package_status_reason', '', true);
+
+  SELECT * INTO v_package FROM packages WHERE id = p_package_id;
+  RETURN v_package;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION is_valid_package_transition TO authenticated;
+GRANT EXECUTE ON FUNCTION transition_package_status TO authenticated;
+
+COMMENT ON TABLE package_status_history IS 'Every package status change, written by trigger. The lifecycle is expected → received → putaway → stored → picked → loaded → delivered, with quarantine and deviation_hold as side states.';
+COMMENT ON FUNCTION transition_package_status IS 'Moves a package to a new status, optionally walking the main lifecycle path step by step, and optionally setting its storage location';
@@ -0,0 +1,195 @@
+/*
+  # Create Storage Location Registry
+
+  ## Overview
+  `storage_location` on packages was free text, so a typo created a phantom location that
+  nobody could find again. This migration adds a managed registry of locations organised as
+  zone → aisle → bay, each with a capacity in packages and blocked/active flags, and validates
+  package locations against it.
+
+  ## New Tables
+
+  ### storage_locations
+  - `id` (uuid, primary key)
+  - `code` (text, unique) - Location code written on packages, e.g. "ML2-B1"
+  - `zone` (text) - Top level of the hierarchy, e.g. "ML2"
+  - `aisle` (text) - Optional aisle within the zone
+  - `bay` (text) - Optional bay within the aisle
+  - `capacity` (integer) - Number of packages the location holds
+  - `blocked` (boolean) - Temporarily unusable (damage, maintenance); existing packages stay
+  - `active` (boolean) - Retired locations are hidden from pickers
+  - `notes` (text)
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## New Views
+  - `storage_location_occupancy` - Each location with the number of packages currently in
+    storage there (stored, quarantine or deviation hold)
+
+  ## Validation
+  - `validate_package_storage_location()` trigger on packages: a non-empty location must match a
+    registered code (case-insensitive, normalised to the registered spelling), and a package
+    cannot be moved into a blocked or inactive location
+
+  ## Security
+  - Authenticated users can view locations; only admins can create, update or delete them
+
+  ## Important Notes
+  - Every location already used by a package is registered up front, split on "-" into
+    zone/aisle/bay, so existing data stays valid
+  - Capacity is not enforced by the database; the app warns and the occupancy view highlights
+    full and over-capacity bays
+*/
+
+-- ============================================
+-- Create storage_locations table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS storage_locations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE,
+  zone text NOT NULL,
+  aisle text DEFAULT '',
+  bay text DEFAULT '',
+  capacity integer NOT NULL DEFAULT 10 CHECK (capacity > 0),
+  blocked boolean NOT NULL DEFAULT false,
+  active boolean NOT NULL DEFAULT true,
+  notes text DEFAULT '',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_storage_locations_code_lower
+  ON storage_locations(lower(code));
+
+CREATE INDEX IF NOT EXISTS idx_storage_locations_hierarchy
+  ON storage_locations(zone, aisle, bay);
+
+ALTER TABLE storage_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view storage locations"
+  ON storage_locations FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only admins can insert storage locations"
+  ON storage_locations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Only admins can update storage locations"
+  ON storage_locations FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'super_admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Only admins can delete storage locations"
+  ON storage_locations FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'super_admin')
+    )
+  );
+
+-- ============================================
+-- Register locations already in use
+-- ============================================
+
+INSERT INTO storage_locations (code, zone, aisle, bay, notes)
+SELECT DISTINCT ON (lower(trim(storage_location)))
+  trim(storage_location),
+  split_part(trim(storage_location), '-', 1),
+  split_part(trim(storage_location), '-', 2),
+  split_part(trim(storage_location), '-', 3),
+  'Registered from existing package data'
+FROM packages
+WHERE trim(COALESCE(storage_location, '')) != ''
+ON CONFLICT DO NOTHING;
+
+-- ============================================
+-- Validate package locations
+-- ============================================
+
+CREATE OR REPLACE FUNCTION validate_package_storage_location()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_location storage_locations;
+BEGIN
+  IF trim(COALESCE(NEW.storage_location, '')) = '' THEN
+    NEW.storage_location := '';
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_location
+  FROM storage_locations
+  WHERE lower(code) = lower(trim(NEW.storage_location));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown storage location "%"', NEW.storage_location
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  -- Packages already in a location may stay there after it is blocked
+  IF (TG_OP = 'INSERT' OR lower(COALESCE(OLD.storage_location, '')) != lower(v_location.code))
+     AND (v_location.blocked OR NOT v_location.active) THEN
+    RAISE EXCEPTION 'Storage location "%" is %', v_location.code,
+      CASE WHEN v_location.blocked THEN 'blocked' ELSE 'inactive' END
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.storage_location := v_location.code;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_validate_package_storage_location ON packages;
+CREATE TRIGGER trigger_validate_package_storage_location
+  BEFORE INSERT OR UPDATE OF storage_location ON packages
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_package_storage_location();
+
+-- ============================================
+-- Occupancy view
+-- ============================================
+
+CREATE OR REPLACE VIEW storage_location_occupancy AS
+SELECT
+  l.id,
+  l.code,
+  l.zone,
+  l.aisle,
+  l.bay,
+  l.capacity,
+  l.blocked,
+  l.active,
+  COUNT(p.id)::integer AS occupied
+FROM storage_locations l
+LEFT JOIN packages p
+  ON p.storage_location = l.code
+  AND p.status IN ('stored', 'quarantine', 'deviation_hold')
+GROUP BY l.id;
+
+GRANT SELECT ON storage_location_occupancy TO authenticated;
+
+COMMENT ON TABLE storage_locations IS 'Registry of storage locations (zone → aisle → bay). Package storage_location values must match a registered code.';
+COMMENT ON VIEW storage_location_occupancy IS 'Packages currently in storage per location, for capacity checks and the occupancy report';
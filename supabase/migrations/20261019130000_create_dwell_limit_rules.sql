@@ -0,0 +1,127 @@
+/*
+  # Configurable Storage Dwell Limits
+
+  ## Overview
+  The warehouse report used a fixed 42-day limit for every package, and the "Limit Weeks"
+  column of historical imports was dropped. This migration stores the imported limit on the
+  package and adds rules that set the limit per package, per title prefix (customer) or per
+  task category. Warning thresholds and the fallback limit live in app_settings.
+
+  Precedence, highest first: package rule, longest matching title prefix rule, category rule,
+  imported limit, default limit.
+
+  ## New Tables
+
+  ### dwell_limit_rules
+  - `id` (uuid, primary key)
+  - `scope` (text) - `package`, `title_prefix` or `category`
+  - `match_value` (text) - SSCC, title prefix or task category name (case-insensitive)
+  - `limit_days` (integer) - Allowed storage time in days
+  - `active` (boolean)
+  - `notes` (text)
+  - `created_by` (uuid)
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## Modified Tables
+  - `packages.dwell_limit_days` (integer, nullable) - Limit imported with the package
+
+  ## Settings
+  - `dwell_default_limit_days` - Fallback limit, seeded with 42
+  - `dwell_warning_days` - Comma separated days before expiry at which warnings escalate,
+    seeded with "7,1"
+
+  ## Security
+  - Authenticated users can view rules; only admins can create, update or delete them
+*/
+
+-- ============================================
+-- Imported limit on packages
+-- ============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'packages' AND column_name = 'dwell_limit_days'
+  ) THEN
+    ALTER TABLE packages ADD COLUMN dwell_limit_days integer CHECK (dwell_limit_days > 0);
+  END IF;
+END $$;
+
+-- ============================================
+-- Create dwell_limit_rules table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS dwell_limit_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope text NOT NULL CHECK (scope IN ('package', 'title_prefix', 'category')),
+  match_value text NOT NULL CHECK (trim(match_value) != ''),
+  limit_days integer NOT NULL CHECK (limit_days > 0),
+  active boolean NOT NULL DEFAULT true,
+  notes text DEFAULT '',
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dwell_limit_rules_scope_match
+  ON dwell_limit_rules(scope, upper(trim(match_value)));
+
+ALTER TABLE dwell_limit_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view dwell limit rules"
+  ON dwell_limit_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only admins can insert dwell limit rules"
+  ON dwell_limit_rules FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Only admins can update dwell limit rules"
+  ON dwell_limit_rules FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'super_admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Only admins can delete dwell limit rules"
+  ON dwell_limit_rules FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'super_admin')
+    )
+  );
+
+-- ============================================
+-- Default settings
+-- ============================================
+
+INSERT INTO app_settings (key, value) VALUES
+  ('dwell_default_limit_days', '42'),
+  ('dwell_warning_days', '7,1')
+ON CONFLICT (key) DO NOTHING;
+
+COMMENT ON TABLE dwell_limit_rules IS 'Storage dwell limits per package (SSCC), title prefix or task category. Precedence: package, longest title prefix, category, imported packages.dwell_limit_days, dwell_default_limit_days setting.';
+COMMENT ON COLUMN packages.dwell_limit_days IS 'Storage limit in days imported with the package (Limit Weeks column), used when no dwell rule matches';
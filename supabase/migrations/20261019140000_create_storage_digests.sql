@@ -0,0 +1,74 @@
+/*
+  # Daily Overdue-Storage Digest
+
+  ## Overview
+  Overdue packages were only visible while someone had the warehouse report open. The
+  `storage-digest` Edge Function now runs once a day, computes stored packages that crossed a
+  warning threshold or their dwell limit, writes one digest row per day and delivers it by
+  webhook or SMTP.
+
+  ## New Tables
+
+  ### storage_digests
+  - `id` (uuid, primary key)
+  - `digest_date` (date, unique) - Warehouse-local day the digest covers; re-running the same
+    day replaces it
+  - `generated_at` (timestamptz)
+  - `total_stored` (integer) - Packages in storage when generated
+  - `overdue_count`, `expiring_count` (integer)
+  - `items` (jsonb) - Package rows: sscc, title, location, arrival, expires, days_left,
+    limit_days, limit_source, stage, overdue
+  - `delivery_channel` (text) - `none`, `webhook` or `smtp`
+  - `delivery_status` (text) - `pending`, `sent`, `failed` or `skipped`
+  - `delivery_error` (text)
+  - `delivered_at` (timestamptz)
+
+  ## Settings
+  - `digest_channel` - `none`, `webhook` or `smtp`
+  - `digest_webhook_url` - Receives the digest as JSON
+  - `digest_recipients` - Comma separated email addresses
+
+  ## Security
+  - Authenticated users can view digests; rows are written by the Edge Function with the
+    service role
+
+  ## Important Notes
+  - Schedule `storage-digest` daily the same way as `sync-google-sheets`; scheduled runs send no
+    body
+  - SMTP server details are Edge Function secrets, not settings: DIGEST_SMTP_HOST,
+    DIGEST_SMTP_PORT, DIGEST_SMTP_USER, DIGEST_SMTP_PASS, DIGEST_SMTP_FROM and DIGEST_SMTP_TLS.
+    Point them (or the webhook URL) at a local stand-in such as MailHog when testing
+*/
+
+CREATE TABLE IF NOT EXISTS storage_digests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  digest_date date NOT NULL UNIQUE,
+  generated_at timestamptz NOT NULL DEFAULT now(),
+  total_stored integer NOT NULL DEFAULT 0,
+  overdue_count integer NOT NULL DEFAULT 0,
+  expiring_count integer NOT NULL DEFAULT 0,
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  delivery_channel text NOT NULL DEFAULT 'none'
+    CHECK (delivery_channel IN ('none', 'webhook', 'smtp')),
+  delivery_status text NOT NULL DEFAULT 'pending'
+    CHECK (delivery_status IN ('pending', 'sent', 'failed', 'skipped')),
+  delivery_error text DEFAULT '',
+  delivered_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_storage_digests_date ON storage_digests(digest_date DESC);
+
+ALTER TABLE storage_digests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view storage digests"
+  ON storage_digests FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO app_settings (key, value) VALUES
+  ('digest_channel', 'none'),
+  ('digest_webhook_url', ''),
+  ('digest_recipients', '')
+ON CONFLICT (key) DO NOTHING;
+
+COMMENT ON TABLE storage_digests IS 'One overdue-storage digest per warehouse day, written by the storage-digest Edge Function';
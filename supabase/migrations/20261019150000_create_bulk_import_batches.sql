@@ -0,0 +1,416 @@
+/*
+  # Transactional Bulk Import Batches
+
+  ## Overview
+  Bulk import used to read the highest `row_id` in the browser and insert shipments and
+  packages one request at a time. Two concurrent imports collided on `row_id`, and a row that
+  failed halfway left an orphan shipment behind. Imports now go through a single RPC that
+  receives the whole batch, runs in one transaction and returns a result per row. Every row
+  it writes is tagged with the batch, so a whole batch can be rolled back afterwards.
+
+  ## New Tables
+
+  ### import_batches
+  - `id` (uuid, primary key) - Generated by the client; submitting the same id again returns
+    the stored result instead of importing twice
+  - `import_type` (text) - `incoming` or `delivered`
+  - `source_name` (text) - File name the rows came from
+  - `status` (text) - `completed` or `rolled_back`
+  - `row_count`, `created_count`, `skipped_count`, `failed_count` (integer)
+  - `results` (jsonb) - Per-row results: row_number, sscc, status, message, shipment_id,
+    package_id and, for deliveries, previous_status
+  - `created_by`, `created_at`
+  - `rolled_back_by`, `rolled_back_at`
+
+  ## Modified Tables
+  - `shipments.import_batch_id`, `packages.import_batch_id` (uuid, nullable) - Batch that
+    created the row
+
+  ## New Functions
+  - `bulk_import_packages(p_batch_id, p_import_type, p_rows, p_source_name)` - Imports the
+    batch. Rows are jsonb objects with row_number, sscc, title, start, storage_location, notes
+    and dwell_limit_days. Each row runs in its own savepoint: a failing row is reported as
+    `failed` without leaving partial writes, the rest of the batch still commits
+  - `rollback_import_batch(p_batch_id)` - Deletes the shipments and packages a batch created
+    and returns delivered packages to their previous status
+
+  ## Deduplication
+  - Incoming rows whose SSCC already exists in `packages`, or appears earlier in the batch,
+    are `skipped`
+  - Delivered rows need a `stored` package with the SSCC; a package is delivered at most once
+    per batch
+
+  ## Security
+  - Both functions are SECURITY DEFINER and limited to admins, matching who may insert and
+    delete shipments
+  - Authenticated users can view batches
+
+  ## Important Notes
+  - Imports take a transaction-level advisory lock, so concurrent imports are serialised and
+    `row_id` values are allocated without collisions
+  - A batch can only be rolled back while its packages are still in the status the import
+    left them in
+  - `app.package_status_override` lets the rollback return delivered packages to `stored`,
+    which the transition table otherwise forbids; the change is still logged
+*/
+
+-- ============================================
+-- Batches
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS import_batches (
+  id uuid PRIMARY KEY,
+  import_type text NOT NULL CHECK (import_type IN ('incoming', 'delivered')),
+  source_name text DEFAULT '',
+  status text NOT NULL DEFAULT 'completed' CHECK (status IN ('completed', 'rolled_back')),
+  row_count integer NOT NULL DEFAULT 0,
+  created_count integer NOT NULL DEFAULT 0,
+  skipped_count integer NOT NULL DEFAULT 0,
+  failed_count integer NOT NULL DEFAULT 0,
+  results jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  rolled_back_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  rolled_back_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_created_at ON import_batches(created_at DESC);
+
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view import batches"
+  ON import_batches FOR SELECT
+  TO authenticated
+  USING (true);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'shipments' AND column_name = 'import_batch_id'
+  ) THEN
+    ALTER TABLE shipments ADD COLUMN import_batch_id uuid REFERENCES import_batches(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'packages' AND column_name = 'import_batch_id'
+  ) THEN
+    ALTER TABLE packages ADD COLUMN import_batch_id uuid REFERENCES import_batches(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_shipments_import_batch ON shipments(import_batch_id) WHERE import_batch_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_packages_import_batch ON packages(import_batch_id) WHERE import_batch_id IS NOT NULL;
+
+-- ============================================
+-- Allow rollbacks to bypass the transition table
+-- ============================================
+
+CREATE OR REPLACE FUNCTION enforce_package_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    -- Older clients and backups still send the previous status values
+    NEW.status := CASE NEW.status
+      WHEN 'pending' THEN 'expected'
+      WHEN 'completed' THEN 'delivered'
+      ELSE COALESCE(NEW.status, 'expected')
+    END;
+    RETURN NEW;
+  END IF;
+
+  -- Set for the current transaction only, by rollback_import_batch
+  IF current_setting('app.package_status_override', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IS DISTINCT FROM NEW.status
+     AND NOT is_valid_package_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Invalid package status transition from % to % for package %',
+      OLD.status, NEW.status, NEW.sscc_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- Import RPC
+-- ============================================
+
+CREATE OR REPLACE FUNCTION bulk_import_packages(
+  p_batch_id uuid,
+  p_import_type text,
+  p_rows jsonb,
+  p_source_name text DEFAULT ''
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_batch import_batches;
+  v_row jsonb;
+  v_sscc text;
+  v_start timestamptz;
+  v_next_row_id integer;
+  v_shipment_id uuid;
+  v_package_id uuid;
+  v_previous_status text;
+  v_status text;
+  v_message text;
+  v_seen text[] := ARRAY[]::text[];
+  v_results jsonb := '[]'::jsonb;
+  v_created integer := 0;
+  v_skipped integer := 0;
+  v_failed integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = v_user_id
+    AND role IN ('admin', 'super_admin')
+  ) THEN
+    RAISE EXCEPTION 'Permission denied: only admins can import packages';
+  END IF;
+
+  IF p_import_type NOT IN ('incoming', 'delivered') THEN
+    RAISE EXCEPTION 'Unknown import type %', p_import_type;
+  END IF;
+
+  -- Serialise imports: row_id allocation and SSCC checks must not interleave
+  PERFORM pg_advisory_xact_lock(hashtext('bulk_import_packages'));
+
+  INSERT INTO import_batches (id, import_type, source_name, row_count, created_by)
+  VALUES (p_batch_id, p_import_type, COALESCE(p_source_name, ''), jsonb_array_length(p_rows), v_user_id)
+  ON CONFLICT (id) DO NOTHING;
+
+  -- The batch was already submitted: return its result instead of importing twice
+  IF NOT FOUND THEN
+    SELECT * INTO v_batch FROM import_batches WHERE id = p_batch_id;
+    RETURN jsonb_build_object(
+      'batch_id', v_batch.id,
+      'replayed', true,
+      'status', v_batch.status,
+      'created', v_batch.created_count,
+      'skipped', v_batch.skipped_count,
+      'failed', v_batch.failed_count,
+      'results', v_batch.results
+    );
+  END IF;
+
+  SELECT COALESCE(MAX(row_id), 0) + 1 INTO v_next_row_id FROM shipments;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows) LOOP
+    v_sscc := trim(COALESCE(v_row->>'sscc', ''));
+    v_shipment_id := NULL;
+    v_package_id := NULL;
+    v_previous_status := NULL;
+    v_status := 'created';
+    v_message := '';
+
+    BEGIN
+      v_start := COALESCE(NULLIF(v_row->>'start', '')::timestamptz, now());
+
+      IF v_sscc = '' THEN
+        v_status := 'failed';
+        v_message := 'Missing package ID';
+      ELSIF upper(v_sscc) = ANY(v_seen) THEN
+        v_status := 'skipped';
+        v_message := 'Duplicate SSCC in this batch';
+      ELSIF p_import_type = 'incoming' THEN
+        IF EXISTS (SELECT 1 FROM packages WHERE sscc_number = v_sscc) THEN
+          v_status := 'skipped';
+          v_message := 'SSCC already exists';
+        ELSE
+          INSERT INTO shipments (
+            row_id, title, sscc_numbers, storage_location, start, status, shipment_type,
+            created_by, completed_by, completed_at, notes, archived, import_batch_id
+          ) VALUES (
+            v_next_row_id, COALESCE(NULLIF(v_row->>'title', ''), 'Import: ' || v_sscc), v_sscc,
+            COALESCE(v_row->>'storage_location', ''), v_start, 'completed', 'incoming',
+            v_user_id, v_user_id, v_start, COALESCE(v_row->>'notes', ''), false, p_batch_id
+          )
+          RETURNING id INTO v_shipment_id;
+
+          INSERT INTO packages (
+            shipment_id, sscc_number, storage_location, status, dwell_limit_days,
+            created_at, updated_at, import_batch_id
+          ) VALUES (
+            v_shipment_id, v_sscc, COALESCE(v_row->>'storage_location', ''), 'stored',
+            NULLIF(v_row->>'dwell_limit_days', '')::integer, v_start, v_start, p_batch_id
+          )
+          RETURNING id INTO v_package_id;
+
+          v_next_row_id := v_next_row_id + 1;
+        END IF;
+      ELSE
+        SELECT id, status INTO v_package_id, v_previous_status
+        FROM packages
+        WHERE sscc_number = v_sscc
+        AND status = 'stored'
+        ORDER BY created_at DESC
+        LIMIT 1
+        FOR UPDATE;
+
+        IF v_package_id IS NULL THEN
+          v_status := 'failed';
+          v_message := 'Package not found in stored packages';
+        ELSE
+          INSERT INTO shipments (
+            row_id, title, sscc_numbers, storage_location, start, status, shipment_type,
+            created_by, completed_by, completed_at, notes, archived, import_batch_id
+          ) VALUES (
+            v_next_row_id, COALESCE(NULLIF(v_row->>'title', ''), 'Delivery: ' || v_sscc), v_sscc,
+            COALESCE(v_row->>'storage_location', ''), v_start, 'completed', 'outgoing',
+            v_user_id, v_user_id, v_start, COALESCE(v_row->>'notes', ''), false, p_batch_id
+          )
+          RETURNING id INTO v_shipment_id;
+
+          -- Walk the stored package through picked and loaded to delivered
+          PERFORM transition_package_status(
+            v_package_id,
+            'delivered',
+            'Imported delivery "' || COALESCE(NULLIF(v_row->>'title', ''), 'Delivery: ' || v_sscc) || '"',
+            NULL,
+            true
+          );
+
+          UPDATE packages SET updated_at = v_start WHERE id = v_package_id;
+
+          v_next_row_id := v_next_row_id + 1;
+        END IF;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      -- Only this row's savepoint is rolled back
+      v_status := 'failed';
+      v_message := SQLERRM;
+      v_shipment_id := NULL;
+      v_package_id := NULL;
+      v_previous_status := NULL;
+    END;
+
+    IF v_sscc <> '' AND v_status <> 'failed' THEN
+      v_seen := array_append(v_seen, upper(v_sscc));
+    END IF;
+
+    IF v_status = 'created' THEN
+      v_created := v_created + 1;
+    ELSIF v_status = 'skipped' THEN
+      v_skipped := v_skipped + 1;
+    ELSE
+      v_failed := v_failed + 1;
+    END IF;
+
+    v_results := v_results || jsonb_build_array(jsonb_build_object(
+      'row_number', (v_row->>'row_number')::integer,
+      'sscc', v_sscc,
+      'status', v_status,
+      'message', v_message,
+      'shipment_id', v_shipment_id,
+      'package_id', v_package_id,
+      'previous_status', v_previous_status
+    ));
+  END LOOP;
+
+  UPDATE import_batches
+  SET created_count = v_created,
+      skipped_count = v_skipped,
+      failed_count = v_failed,
+      results = v_results
+  WHERE id = p_batch_id;
+
+  RETURN jsonb_build_object(
+    'batch_id', p_batch_id,
+    'replayed', false,
+    'status', 'completed',
+    'created', v_created,
+    'skipped', v_skipped,
+    'failed', v_failed,
+    'results', v_results
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- Rollback RPC
+-- ============================================
+
+CREATE OR REPLACE FUNCTION rollback_import_batch(p_batch_id uuid)
+RETURNS import_batches AS $$
+DECLARE
+  v_batch import_batches;
+  v_changed integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'super_admin')
+  ) THEN
+    RAISE EXCEPTION 'Permission denied: only admins can roll back imports';
+  END IF;
+
+  SELECT * INTO v_batch FROM import_batches WHERE id = p_batch_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import batch % not found', p_batch_id;
+  END IF;
+
+  IF v_batch.status = 'rolled_back' THEN
+    RETURN v_batch;
+  END IF;
+
+  IF v_batch.import_type = 'incoming' THEN
+    SELECT COUNT(*) INTO v_changed
+    FROM packages
+    WHERE import_batch_id = p_batch_id
+    AND status <> 'stored';
+
+    IF v_changed > 0 THEN
+      RAISE EXCEPTION '% package(s) from this batch have moved on since the import and cannot be rolled back', v_changed;
+    END IF;
+
+    -- Status history cascades with the packages
+    DELETE FROM packages WHERE import_batch_id = p_batch_id;
+  ELSE
+    SELECT COUNT(*) INTO v_changed
+    FROM jsonb_array_elements(v_batch.results) r
+    JOIN packages p ON p.id = (r->>'package_id')::uuid
+    WHERE r->>'status' = 'created'
+    AND p.status <> 'delivered';
+
+    IF v_changed > 0 THEN
+      RAISE EXCEPTION '% package(s) from this batch have changed status since the import and cannot be rolled back', v_changed;
+    END IF;
+
+    PERFORM set_config('app.package_status_override', 'on', true);
+    PERFORM set_config('app.package_status_reason', 'Import batch rolled back', true);
+
+    UPDATE packages p
+    SET status = r->>'previous_status', updated_at = now()
+    FROM jsonb_array_elements(v_batch.results) r
+    WHERE p.id = (r->>'package_id')::uuid
+    AND r->>'status' = 'created';
+
+    PERFORM set_config('app.package_status_override', '', true);
+    PERFORM set_config('app.package_status_reason', '', true);
+  END IF;
+
+  DELETE FROM shipments WHERE import_batch_id = p_batch_id;
+
+  UPDATE import_batches
+  SET status = 'rolled_back',
+      rolled_back_by = auth.uid(),
+      rolled_back_at = now()
+  WHERE id = p_batch_id
+  RETURNING * INTO v_batch;
+
+  RETURN v_batch;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION bulk_import_packages TO authenticated;
+GRANT EXECUTE ON FUNCTION rollback_import_batch TO authenticated;
+
+COMMENT ON TABLE import_batches IS 'One row per bulk import call, with per-row results; the id doubles as the idempotency key';
+COMMENT ON FUNCTION bulk_import_packages IS 'Imports a batch of incoming or delivered packages in one transaction, skipping SSCCs that already exist';
+COMMENT ON FUNCTION rollback_import_batch IS 'Removes the shipments and packages an import batch created and returns delivered packages to stored';
@@ -0,0 +1,353 @@
+/*
+  # Selective Restore With Safety Snapshots
+
+  ## Overview
+  Restoring a backup used to delete every package and shipment from the browser and insert
+  the backup rows afterwards, so one bad file wiped everything. Restores now go through a
+  wizard that validates the backup against the live schema and shows which rows would be
+  added, changed or removed. The chosen changes are applied here in one transaction, after a
+  snapshot of the affected tables has been taken so the restore can be undone.
+
+  ## New Tables
+
+  ### backup_snapshots
+  - `id` (uuid, primary key)
+  - `created_at` (timestamptz)
+  - `created_by` (uuid) - User whose restore triggered the snapshot
+  - `reason` (text) - e.g. "Before restore"
+  - `source_name` (text) - Backup file the restore came from
+  - `tables` (text[]) - Tables captured
+  - `row_counts` (jsonb) - Rows per table
+  - `data` (jsonb) - Full table contents, keyed by table name
+  - `undone_at`, `undone_by` - Set when the restore was undone from this snapshot
+
+  ## New Functions
+  - `get_restore_schema(p_tables)` - Columns, types and nullability of restorable tables
+  - `apply_restore(p_changes, p_source_name)` - Snapshots the tables, then deletes and upserts
+    the given rows. `p_changes` is an array of `{ table, upsert: [...rows], delete: [...ids] }`
+  - `undo_restore(p_snapshot_id)` - Puts the tables back to the snapshot (after taking a new
+    snapshot, so the undo can be undone as well)
+
+  ## Security
+  - Snapshots contain full table data and are visible to admins only
+  - All functions are SECURITY DEFINER, limited to admins and to the restorable tables:
+    operators, shipments, packages and notification_settings
+
+  ## Important Notes
+  - Upserts only write the columns present in the backup rows; columns added since the backup
+    was taken keep their defaults or current values
+  - During a restore `app.package_status_override` lets packages return to earlier statuses and
+    `app.restore_in_progress` lets them be restored into blocked or inactive locations
+*/
+
+CREATE TABLE IF NOT EXISTS backup_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  reason text NOT NULL DEFAULT '',
+  source_name text DEFAULT '',
+  tables text[] NOT NULL DEFAULT '{}',
+  row_counts jsonb NOT NULL DEFAULT '{}'::jsonb,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  undone_at timestamptz,
+  undone_by uuid REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_backup_snapshots_created_at ON backup_snapshots(created_at DESC);
+
+ALTER TABLE backup_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view backup snapshots"
+  ON backup_snapshots FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'super_admin')
+    )
+  );
+
+-- ============================================
+-- Restored packages may sit in locations blocked since
+-- ============================================
+
+CREATE OR REPLACE FUNCTION validate_package_storage_location()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_location storage_locations;
+BEGIN
+  IF trim(COALESCE(NEW.storage_location, '')) = '' THEN
+    NEW.storage_location := '';
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_location
+  FROM storage_locations
+  WHERE lower(code) = lower(trim(NEW.storage_location));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown storage location "%"', NEW.storage_location
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  -- Packages already in a location may stay there after it is blocked, and restores put
+  -- packages back where they were
+  IF (TG_OP = 'INSERT' OR lower(COALESCE(OLD.storage_location, '')) != lower(v_location.code))
+     AND (v_location.blocked OR NOT v_location.active)
+     AND COALESCE(current_setting('app.restore_in_progress', true), '') != 'on' THEN
+    RAISE EXCEPTION 'Storage location "%" is %', v_location.code,
+      CASE WHEN v_location.blocked THEN 'blocked' ELSE 'inactive' END
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.storage_location := v_location.code;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- Helpers
+-- ============================================
+
+CREATE OR REPLACE FUNCTION restorable_tables()
+RETURNS text[] AS $$
+  -- Dependency order: parents before children
+  SELECT ARRAY['operators', 'shipments', 'packages', 'notification_settings'];
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION assert_restore_admin()
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'super_admin')
+  ) THEN
+    RAISE EXCEPTION 'Permission denied: only admins can restore backups';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION create_backup_snapshot(
+  p_tables text[],
+  p_reason text,
+  p_source_name text DEFAULT ''
+)
+RETURNS uuid AS $$
+DECLARE
+  v_table text;
+  v_rows jsonb;
+  v_data jsonb := '{}'::jsonb;
+  v_counts jsonb := '{}'::jsonb;
+  v_id uuid;
+BEGIN
+  FOREACH v_table IN ARRAY p_tables LOOP
+    IF NOT v_table = ANY(restorable_tables()) THEN
+      RAISE EXCEPTION 'Table % cannot be restored', v_table;
+    END IF;
+
+    EXECUTE format('SELECT COALESCE(jsonb_agg(to_jsonb(t)), ''[]''::jsonb) FROM %I t', v_table)
+      INTO v_rows;
+
+    v_data := v_data || jsonb_build_object(v_table, v_rows);
+    v_counts := v_counts || jsonb_build_object(v_table, jsonb_array_length(v_rows));
+  END LOOP;
+
+  INSERT INTO backup_snapshots (created_by, reason, source_name, tables, row_counts, data)
+  VALUES (auth.uid(), p_reason, COALESCE(p_source_name, ''), p_tables, v_counts, v_data)
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION restore_upsert_rows(p_table text, p_rows jsonb)
+RETURNS integer AS $$
+DECLARE
+  v_columns text[];
+  v_column_list text;
+  v_update_list text;
+  v_count integer;
+BEGIN
+  IF p_rows IS NULL OR jsonb_array_length(p_rows) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  -- Only columns that exist in the table and appear in the rows are written
+  SELECT array_agg(c.column_name::text ORDER BY c.ordinal_position)
+  INTO v_columns
+  FROM information_schema.columns c
+  WHERE c.table_schema = 'public'
+  AND c.table_name = p_table
+  AND EXISTS (SELECT 1 FROM jsonb_array_elements(p_rows) r WHERE r ? c.column_name);
+
+  SELECT
+    string_agg(quote_ident(col), ', '),
+    string_agg(format('%I = EXCLUDED.%I', col, col), ', ') FILTER (WHERE col <> 'id')
+  INTO v_column_list, v_update_list
+  FROM unnest(v_columns) AS col;
+
+  EXECUTE format(
+    'INSERT INTO %I (%s) SELECT %s FROM jsonb_populate_recordset(NULL::%I, $1) ON CONFLICT (id) DO %s',
+    p_table,
+    v_column_list,
+    v_column_list,
+    p_table,
+    CASE WHEN v_update_list IS NULL THEN 'NOTHING' ELSE 'UPDATE SET ' || v_update_list END
+  ) USING p_rows;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- RPCs
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_restore_schema(p_tables text[])
+RETURNS TABLE (
+  table_name text,
+  column_name text,
+  data_type text,
+  is_nullable boolean,
+  has_default boolean
+) AS $$
+BEGIN
+  PERFORM assert_restore_admin();
+
+  RETURN QUERY
+  SELECT
+    c.table_name::text,
+    c.column_name::text,
+    c.data_type::text,
+    c.is_nullable = 'YES',
+    c.column_default IS NOT NULL
+  FROM information_schema.columns c
+  WHERE c.table_schema = 'public'
+  AND c.table_name = ANY(p_tables)
+  AND c.table_name = ANY(restorable_tables())
+  ORDER BY c.table_name, c.ordinal_position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION apply_restore(p_changes jsonb, p_source_name text DEFAULT '')
+RETURNS jsonb AS $$
+DECLARE
+  v_tables text[];
+  v_table text;
+  v_change jsonb;
+  v_snapshot_id uuid;
+  v_count integer;
+  v_summary jsonb := '{}'::jsonb;
+BEGIN
+  PERFORM assert_restore_admin();
+
+  SELECT array_agg(t ORDER BY array_position(restorable_tables(), t))
+  INTO v_tables
+  FROM (SELECT DISTINCT c->>'table' AS t FROM jsonb_array_elements(p_changes) c) tables;
+
+  IF v_tables IS NULL THEN
+    RAISE EXCEPTION 'Nothing to restore';
+  END IF;
+
+  v_snapshot_id := create_backup_snapshot(v_tables, 'Before restore', p_source_name);
+
+  PERFORM set_config('app.package_status_override', 'on', true);
+  PERFORM set_config('app.restore_in_progress', 'on', true);
+  PERFORM set_config('app.package_status_reason', 'Restored from backup', true);
+
+  -- Children first when deleting, parents first when writing
+  FOR v_table IN
+    SELECT t FROM unnest(v_tables) t
+    ORDER BY array_position(restorable_tables(), t) DESC
+  LOOP
+    SELECT c INTO v_change FROM jsonb_array_elements(p_changes) c WHERE c->>'table' = v_table LIMIT 1;
+
+    EXECUTE format('DELETE FROM %I WHERE id = ANY($1)', v_table)
+      USING ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_change->'delete', '[]'::jsonb))::uuid);
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    v_summary := v_summary || jsonb_build_object(v_table, jsonb_build_object('deleted', v_count));
+  END LOOP;
+
+  FOREACH v_table IN ARRAY v_tables LOOP
+    SELECT c INTO v_change FROM jsonb_array_elements(p_changes) c WHERE c->>'table' = v_table LIMIT 1;
+
+    v_count := restore_upsert_rows(v_table, v_change->'upsert');
+    v_summary := jsonb_set(v_summary, ARRAY[v_table, 'upserted'], to_jsonb(v_count));
+  END LOOP;
+
+  PERFORM set_config('app.package_status_override', '', true);
+  PERFORM set_config('app.restore_in_progress', '', true);
+  PERFORM set_config('app.package_status_reason', '', true);
+
+  RETURN jsonb_build_object('snapshot_id', v_snapshot_id, 'tables', v_summary);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION undo_restore(p_snapshot_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_snapshot backup_snapshots;
+  v_table text;
+  v_new_snapshot_id uuid;
+BEGIN
+  PERFORM assert_restore_admin();
+
+  SELECT * INTO v_snapshot FROM backup_snapshots WHERE id = p_snapshot_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Snapshot % not found', p_snapshot_id;
+  END IF;
+
+  IF v_snapshot.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This restore was already undone on %', v_snapshot.undone_at;
+  END IF;
+
+  v_new_snapshot_id := create_backup_snapshot(v_snapshot.tables, 'Before undoing restore', v_snapshot.source_name);
+
+  PERFORM set_config('app.package_status_override', 'on', true);
+  PERFORM set_config('app.restore_in_progress', 'on', true);
+  PERFORM set_config('app.package_status_reason', 'Restore undone', true);
+
+  -- Remove rows the restore added, children first
+  FOR v_table IN
+    SELECT t FROM unnest(v_snapshot.tables) t
+    ORDER BY array_position(restorable_tables(), t) DESC
+  LOOP
+    EXECUTE format('DELETE FROM %I WHERE NOT (id = ANY($1))', v_table)
+      USING ARRAY(SELECT (r->>'id')::uuid FROM jsonb_array_elements(v_snapshot.data->v_table) r);
+  END LOOP;
+
+  FOR v_table IN
+    SELECT t FROM unnest(v_snapshot.tables) t
+    ORDER BY array_position(restorable_tables(), t)
+  LOOP
+    PERFORM restore_upsert_rows(v_table, v_snapshot.data->v_table);
+  END LOOP;
+
+  PERFORM set_config('app.package_status_override', '', true);
+  PERFORM set_config('app.restore_in_progress', '', true);
+  PERFORM set_config('app.package_status_reason', '', true);
+
+  UPDATE backup_snapshots
+  SET undone_at = now(), undone_by = auth.uid()
+  WHERE id = p_snapshot_id;
+
+  RETURN jsonb_build_object('snapshot_id', v_new_snapshot_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Internal helpers are only reachable through the RPCs above
+REVOKE EXECUTE ON FUNCTION create_backup_snapshot FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION restore_upsert_rows FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION get_restore_schema TO authenticated;
+GRANT EXECUTE ON FUNCTION apply_restore TO authenticated;
+GRANT EXECUTE ON FUNCTION undo_restore TO authenticated;
+
+COMMENT ON TABLE backup_snapshots IS 'Table contents captured before each restore, so the restore can be undone';
+COMMENT ON FUNCTION apply_restore IS 'Applies the deletes and upserts chosen in the restore wizard in one transaction, after snapshotting the affected tables';
+COMMENT ON FUNCTION undo_restore IS 'Returns the tables of a snapshot to the captured contents';
@@ -0,0 +1,27 @@
+/*
+  # Restore Import Batches
+
+  ## Overview
+  Backups are now written as versioned archives (one gzipped NDJSON file per table plus a
+  manifest with row counts and SHA-256 checksums) that cover every table. Shipments and
+  packages reference `import_batches` through `import_batch_id`, so restoring them from a
+  backup taken after a bulk import fails unless the batches come back too. This adds
+  `import_batches` to the restorable tables, ahead of shipments.
+
+  ## Changed Functions
+  - `restorable_tables()` - Now `import_batches`, `operators`, `shipments`, `packages`,
+    `notification_settings`
+
+  ## Security
+  - No change: restore functions remain limited to admins
+
+  ## Important Notes
+  - Snapshots taken before this migration do not include import batches; undoing them leaves
+    import batches untouched
+*/
+
+CREATE OR REPLACE FUNCTION restorable_tables()
+RETURNS text[] AS $$
+  -- Dependency order: parents before children
+  SELECT ARRAY['import_batches', 'operators', 'shipments', 'packages', 'notification_settings'];
+$$ LANGUAGE sql IMMUTABLE;
@@ -0,0 +1,98 @@
+/*
+  # Scheduled Server-Side Backups
+
+  ## Overview
+  Backups used to exist only when an admin downloaded one from the Backup & Restore tab, and
+  `backup-to-sheets` only copies non-archived shipments. The `scheduled-backup` Edge Function
+  now writes a full backup archive (the same format as the manual download) to the private
+  `backups` storage bucket on a schedule, records it here and prunes older backups by a
+  daily/weekly/monthly retention policy.
+
+  ## New Tables
+
+  ### stored_backups
+  - `id` (uuid, primary key)
+  - `created_at` (timestamptz) - When the run started
+  - `completed_at` (timestamptz)
+  - `trigger` (text) - `scheduled` or `manual`
+  - `status` (text) - `running`, `completed`, `failed` or `expired` (deleted by retention)
+  - `file_path` (text) - Object path in the `backups` bucket
+  - `size_bytes` (bigint)
+  - `format_version` (integer) - Backup format version of the archive
+  - `row_counts` (jsonb) - Rows per table, from the manifest
+  - `retained_as` (text[]) - Why retention keeps the backup: latest, daily, weekly, monthly
+  - `error` (text) - Why the run failed
+  - `expired_at` (timestamptz)
+
+  ## Storage
+  - Private bucket `backups`; admins can download objects, only the service role writes
+
+  ## Settings
+  - `backup_retention_daily`, `backup_retention_weekly`, `backup_retention_monthly` - How many
+    days, weeks and months keep their newest backup (defaults 7, 4 and 12)
+
+  ## Security
+  - Stored backups and their files are visible to admins only
+
+  ## Important Notes
+  - Schedule `scheduled-backup` daily the same way as `sync-google-sheets`; scheduled runs send
+    no body
+  - Periods are warehouse-local days, weeks and months; the newest backup is always kept
+*/
+
+CREATE TABLE IF NOT EXISTS stored_backups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz,
+  trigger text NOT NULL DEFAULT 'scheduled'
+    CHECK (trigger IN ('scheduled', 'manual')),
+  status text NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'completed', 'failed', 'expired')),
+  file_path text NOT NULL DEFAULT '',
+  size_bytes bigint NOT NULL DEFAULT 0,
+  format_version integer,
+  row_counts jsonb NOT NULL DEFAULT '{}'::jsonb,
+  retained_as text[] NOT NULL DEFAULT '{}',
+  error text DEFAULT '',
+  expired_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_stored_backups_created ON stored_backups(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stored_backups_status ON stored_backups(status);
+
+ALTER TABLE stored_backups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view stored backups"
+  ON stored_backups FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'super_admin')
+    )
+  );
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('backups', 'backups', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Admins can download backups"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'backups'
+    AND EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'super_admin')
+    )
+  );
+
+INSERT INTO app_settings (key, value) VALUES
+  ('backup_retention_daily', '7'),
+  ('backup_retention_weekly', '4'),
+  ('backup_retention_monthly', '12')
+ON CONFLICT (key) DO NOTHING;
+
+COMMENT ON TABLE stored_backups IS 'Backup archives written to the backups storage bucket by the scheduled-backup Edge Function';
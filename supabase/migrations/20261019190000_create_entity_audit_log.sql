@@ -0,0 +1,232 @@
+/*
+  # Generic Entity Audit Log
+
+  ## Overview
+  `shipment_audit_log` only covers shipments and `deviation_history` only deviations; changes
+  to operators, packages, categories, announcements, settings, user roles and notification
+  settings left no trace. One trigger now records every insert, update and delete on those
+  tables with the actor, before/after JSON and a field-level diff. The `audit_trail` view
+  combines it with the shipment and deviation logs so the Audit Log tab can filter all of them
+  by entity type and actor.
+
+  ## New Tables
+
+  ### entity_audit_log
+  - `id` (uuid, primary key)
+  - `entity_type` (text) - Table the row belongs to
+  - `entity_id` (uuid) - Row id
+  - `entity_label` (text) - Human-readable name of the row, e.g. operator name or SSCC
+  - `action` (text) - `created`, `updated` or `deleted`
+  - `actor_id` (uuid) - `auth.uid()` of the change; null for service-role changes
+  - `actor_email` (text) - Actor's email at the time of the change
+  - `changed_at` (timestamptz)
+  - `old_data`, `new_data` (jsonb) - Full row before and after
+  - `changes` (jsonb) - `{ column: { old, new } }` for every changed column
+  - `summary` (text) - e.g. "Updated: name, color"
+
+  ## New Views
+  - `audit_trail` - `entity_audit_log`, `shipment_audit_log` (entity type `shipments`) and
+    `deviation_history` (entity type `package_deviations`) in one shape
+
+  ## Audited Tables
+  operators, packages, task_categories, announcements, app_settings, user_profiles,
+  notification_settings
+
+  ## Security
+  - Entries are written by a SECURITY DEFINER trigger only; admins can read them
+  - `audit_trail` runs with the caller's permissions, so non-admins only see the shipment and
+    deviation entries they could already read
+
+  ## Important Notes
+  - Updates that only touch `updated_at` are not logged
+  - Shipments stay in `shipment_audit_log`, which carries the app's own change summaries
+*/
+
+CREATE TABLE IF NOT EXISTS entity_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type text NOT NULL,
+  entity_id uuid,
+  entity_label text DEFAULT '',
+  action text NOT NULL CHECK (action IN ('created', 'updated', 'deleted')),
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_email text DEFAULT '',
+  changed_at timestamptz NOT NULL DEFAULT now(),
+  old_data jsonb,
+  new_data jsonb,
+  changes jsonb NOT NULL DEFAULT '{}'::jsonb,
+  summary text DEFAULT ''
+);
+
+CREATE INDEX IF NOT EXISTS idx_entity_audit_changed_at ON entity_audit_log(changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_entity_audit_entity ON entity_audit_log(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_entity_audit_actor ON entity_audit_log(actor_id, changed_at DESC);
+
+ALTER TABLE entity_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view entity audit log"
+  ON entity_audit_log FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'super_admin')
+    )
+  );
+
+-- ============================================
+-- Trigger
+-- ============================================
+
+-- TG_ARGV[0] names the column used as the row's label
+CREATE OR REPLACE FUNCTION record_entity_audit()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old jsonb := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  v_new jsonb := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  v_row jsonb := COALESCE(v_new, v_old);
+  v_changes jsonb := '{}'::jsonb;
+  v_action text;
+  v_summary text;
+  v_actor_email text := '';
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    SELECT COALESCE(jsonb_object_agg(key, jsonb_build_object('old', v_old->key, 'new', value)), '{}'::jsonb)
+    INTO v_changes
+    FROM jsonb_each(v_new)
+    WHERE key != 'updated_at'
+    AND v_old->key IS DISTINCT FROM value;
+
+    IF v_changes = '{}'::jsonb THEN
+      RETURN NULL;
+    END IF;
+
+    v_action := 'updated';
+    SELECT 'Updated: ' || string_agg(key, ', ' ORDER BY key) INTO v_summary FROM jsonb_object_keys(v_changes) key;
+  ELSIF TG_OP = 'INSERT' THEN
+    v_action := 'created';
+    v_summary := 'Created';
+  ELSE
+    v_action := 'deleted';
+    v_summary := 'Deleted';
+  END IF;
+
+  IF auth.uid() IS NOT NULL THEN
+    SELECT COALESCE(email, '') INTO v_actor_email FROM auth.users WHERE id = auth.uid();
+  END IF;
+
+  INSERT INTO entity_audit_log (
+    entity_type, entity_id, entity_label, action, actor_id, actor_email,
+    old_data, new_data, changes, summary
+  ) VALUES (
+    TG_TABLE_NAME,
+    (v_row->>'id')::uuid,
+    COALESCE(v_row->>TG_ARGV[0], ''),
+    v_action,
+    auth.uid(),
+    COALESCE(v_actor_email, ''),
+    v_old,
+    v_new,
+    v_changes,
+    v_summary
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS audit_operators ON operators;
+CREATE TRIGGER audit_operators
+  AFTER INSERT OR UPDATE OR DELETE ON operators
+  FOR EACH ROW EXECUTE FUNCTION record_entity_audit('name');
+
+DROP TRIGGER IF EXISTS audit_packages ON packages;
+CREATE TRIGGER audit_packages
+  AFTER INSERT OR UPDATE OR DELETE ON packages
+  FOR EACH ROW EXECUTE FUNCTION record_entity_audit('sscc_number');
+
+DROP TRIGGER IF EXISTS audit_task_categories ON task_categories;
+CREATE TRIGGER audit_task_categories
+  AFTER INSERT OR UPDATE OR DELETE ON task_categories
+  FOR EACH ROW EXECUTE FUNCTION record_entity_audit('name');
+
+DROP TRIGGER IF EXISTS audit_announcements ON announcements;
+CREATE TRIGGER audit_announcements
+  AFTER INSERT OR UPDATE OR DELETE ON announcements
+  FOR EACH ROW EXECUTE FUNCTION record_entity_audit('title');
+
+DROP TRIGGER IF EXISTS audit_app_settings ON app_settings;
+CREATE TRIGGER audit_app_settings
+  AFTER INSERT OR UPDATE OR DELETE ON app_settings
+  FOR EACH ROW EXECUTE FUNCTION record_entity_audit('key');
+
+DROP TRIGGER IF EXISTS audit_user_profiles ON user_profiles;
+CREATE TRIGGER audit_user_profiles
+  AFTER INSERT OR UPDATE OR DELETE ON user_profiles
+  FOR EACH ROW EXECUTE FUNCTION record_entity_audit('email');
+
+DROP TRIGGER IF EXISTS audit_notification_settings ON notification_settings;
+CREATE TRIGGER audit_notification_settings
+  AFTER INSERT OR UPDATE OR DELETE ON notification_settings
+  FOR EACH ROW EXECUTE FUNCTION record_entity_audit('setting_key');
+
+-- ============================================
+-- Combined view
+-- ============================================
+
+CREATE OR REPLACE VIEW audit_trail
+WITH (security_invoker = true) AS
+SELECT
+  eal.id,
+  eal.entity_type,
+  eal.entity_id,
+  eal.entity_label,
+  eal.action,
+  eal.actor_id,
+  eal.actor_email,
+  eal.changed_at,
+  eal.old_data,
+  eal.new_data,
+  eal.changes,
+  eal.summary
+FROM entity_audit_log eal
+UNION ALL
+SELECT
+  sal.id,
+  'shipments',
+  sal.shipment_id,
+  COALESCE(
+    CASE WHEN sal.shipment_row_id IS NOT NULL THEN '#' || sal.shipment_row_id || ' ' END, ''
+  ) || COALESCE(sal.shipment_title, ''),
+  sal.action_type,
+  sal.action_by,
+  COALESCE(sal.action_by_email, ''),
+  sal.action_timestamp,
+  sal.previous_data,
+  sal.new_data,
+  '{}'::jsonb,
+  COALESCE(sal.changes_summary, '')
+FROM shipment_audit_log_with_users sal
+UNION ALL
+SELECT
+  dh.id,
+  'package_deviations',
+  dh.deviation_id,
+  COALESCE(p.sscc_number, ''),
+  dh.action_type,
+  dh.action_by,
+  COALESCE(up.email, ''),
+  dh.created_at,
+  dh.previous_value,
+  dh.new_value,
+  '{}'::jsonb,
+  COALESCE(NULLIF(dh.comment, ''), initcap(replace(dh.action_type, '_', ' ')))
+FROM deviation_history dh
+LEFT JOIN package_deviations pd ON pd.id = dh.deviation_id
+LEFT JOIN packages p ON p.id = pd.package_id
+LEFT JOIN user_profiles up ON up.id = dh.action_by;
+
+GRANT SELECT ON audit_trail TO authenticated;
+
+COMMENT ON TABLE entity_audit_log IS 'Trigger-written change log for operators, packages, categories, announcements, settings, user profiles and notification settings';
+COMMENT ON VIEW audit_trail IS 'Entity, shipment and deviation audit entries in one shape, filterable by entity type and actor';
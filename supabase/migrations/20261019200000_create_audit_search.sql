@@ -0,0 +1,267 @@
+/*
+  # Server-Side Audit Search and Signed Audit Reports
+
+  ## Overview
+  The Audit Log tab loaded the newest N entries of `audit_trail` and filtered them in the
+  browser, so anything older than the limit could not be found. `search_audit_trail` applies
+  every filter in the database and pages with a (changed_at, id) cursor, so the whole history
+  is searchable and exportable.
+
+  Auditors can also request a signed report for a period. `create_audit_report` stores the
+  SHA-256 of the period's entries and an HMAC-SHA256 signature over the report metadata,
+  using a key that never leaves the database. `verify_audit_report` checks a report file
+  against that record and tells whether the log for the period has changed since.
+
+  ## New Functions
+  - `search_audit_trail(p_from, p_to, p_entity_type, p_actor, p_action, p_reference, p_query,
+    p_cursor_at, p_cursor_id, p_limit)` - Filtered `audit_trail` page, newest first
+    - `p_actor` is a user id or `system` for changes without a signed-in user
+    - `p_reference` matches a shipment/package id, entity label, or SSCC in the row data
+    - `p_query` is full-text (web search syntax) over labels, summaries, actors and row data
+    - Pass the last row's `changed_at` and `id` as the cursor to get the next page
+  - `create_audit_report(p_from, p_to)` - Signs the entries in [p_from, p_to) and returns
+    `{ report, content }`, where `content` is the exact JSON text that was hashed
+  - `verify_audit_report(p_report_id, p_content)` - Recomputes hash and signature
+
+  ## New Tables
+
+  ### audit_reports
+  - `id` (uuid, primary key)
+  - `period_from`, `period_to` (timestamptz) - Covered period, end exclusive
+  - `generated_by` (uuid) - Admin who requested the report
+  - `generated_at` (timestamptz)
+  - `entry_count` (integer)
+  - `content_sha256` (text) - Hex SHA-256 of the report's entries JSON
+  - `signature` (text) - Hex HMAC-SHA256 of the report metadata
+  - `key_id` (uuid) - Signing key used
+
+  ### audit_signing_keys
+  - `id` (uuid, primary key)
+  - `secret` (bytea) - Random 32-byte HMAC key
+  - `active` (boolean) - New reports are signed with the newest active key
+
+  ## Security
+  - `search_audit_trail` runs with the caller's permissions, like `audit_trail` itself
+  - Only admins can create reports or read `audit_reports`
+  - `audit_signing_keys` has RLS enabled and no policies; only the SECURITY DEFINER report
+    functions read it
+  - Any signed-in user can verify a report; verification only returns the check results
+
+  ## Important Notes
+  - Uses pgcrypto's `hmac` and `gen_random_bytes` from the `extensions` schema
+  - Reports always cover every entity type; filters only apply to searches
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- ============================================
+-- Search
+-- ============================================
+
+CREATE OR REPLACE FUNCTION search_audit_trail(
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_entity_type text DEFAULT NULL,
+  p_actor text DEFAULT NULL,
+  p_action text DEFAULT NULL,
+  p_reference text DEFAULT NULL,
+  p_query text DEFAULT NULL,
+  p_cursor_at timestamptz DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 100
+)
+RETURNS SETOF audit_trail AS $$
+  SELECT t.*
+  FROM audit_trail t
+  WHERE (p_from IS NULL OR t.changed_at >= p_from)
+  AND (p_to IS NULL OR t.changed_at < p_to)
+  AND (p_entity_type IS NULL OR t.entity_type = p_entity_type)
+  AND (
+    p_actor IS NULL
+    OR (p_actor = 'system' AND t.actor_id IS NULL)
+    OR t.actor_id::text = p_actor
+  )
+  AND (p_action IS NULL OR t.action = p_action)
+  AND (
+    NULLIF(trim(p_reference), '') IS NULL
+    OR t.entity_id::text = trim(p_reference)
+    OR COALESCE(t.new_data->>'shipment_id', t.old_data->>'shipment_id') = trim(p_reference)
+    OR t.entity_label ILIKE '%' || trim(p_reference) || '%'
+    OR COALESCE(t.new_data->>'sscc_number', t.old_data->>'sscc_number', '') ILIKE '%' || trim(p_reference) || '%'
+    OR COALESCE(t.new_data->>'sscc_numbers', '') ILIKE '%' || trim(p_reference) || '%'
+    OR COALESCE(t.old_data->>'sscc_numbers', '') ILIKE '%' || trim(p_reference) || '%'
+  )
+  AND (
+    NULLIF(trim(p_query), '') IS NULL
+    OR to_tsvector('simple', concat_ws(' ',
+      t.entity_label, t.summary, t.actor_email, t.action, t.old_data::text, t.new_data::text
+    )) @@ websearch_to_tsquery('simple', p_query)
+  )
+  AND (p_cursor_at IS NULL OR (t.changed_at, t.id) < (p_cursor_at, p_cursor_id))
+  ORDER BY t.changed_at DESC, t.id DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 100), 1), 1000);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_audit_trail(timestamptz, timestamptz, text, text, text, text, text, timestamptz, uuid, integer) TO authenticated;
+
+COMMENT ON FUNCTION search_audit_trail IS 'Filtered, cursor-paginated audit_trail search (newest first) with date range, entity, actor, action, reference/SSCC and full-text filters';
+
+-- shipment_audit_log and entity_audit_log already have one
+CREATE INDEX IF NOT EXISTS idx_deviation_history_created_at ON deviation_history(created_at DESC);
+
+-- ============================================
+-- Signed reports
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS audit_signing_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  secret bytea NOT NULL DEFAULT extensions.gen_random_bytes(32),
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE audit_signing_keys ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO audit_signing_keys (active)
+SELECT true
+WHERE NOT EXISTS (SELECT 1 FROM audit_signing_keys WHERE active);
+
+CREATE TABLE IF NOT EXISTS audit_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  period_from timestamptz NOT NULL,
+  period_to timestamptz NOT NULL,
+  generated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  generated_at timestamptz NOT NULL DEFAULT now(),
+  entry_count integer NOT NULL DEFAULT 0,
+  content_sha256 text NOT NULL,
+  signature text NOT NULL,
+  key_id uuid NOT NULL REFERENCES audit_signing_keys(id),
+  CHECK (period_from < period_to)
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_reports_generated_at ON audit_reports(generated_at DESC);
+
+ALTER TABLE audit_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view audit reports"
+  ON audit_reports FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'super_admin')
+    )
+  );
+
+-- Entries of a period as the JSON text that gets hashed, oldest first
+CREATE OR REPLACE FUNCTION audit_report_content(p_from timestamptz, p_to timestamptz)
+RETURNS text AS $$
+  SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.changed_at, t.id), '[]'::jsonb)::text
+  FROM audit_trail t
+  WHERE t.changed_at >= p_from
+  AND t.changed_at < p_to;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION audit_report_content(timestamptz, timestamptz) FROM PUBLIC, anon, authenticated;
+
+-- The signed fields, in a fixed order
+CREATE OR REPLACE FUNCTION audit_report_signature(p_report audit_reports)
+RETURNS text AS $$
+  SELECT encode(extensions.hmac(
+    convert_to(jsonb_build_object(
+      'id', p_report.id,
+      'period_from', p_report.period_from,
+      'period_to', p_report.period_to,
+      'generated_by', p_report.generated_by,
+      'generated_at', p_report.generated_at,
+      'entry_count', p_report.entry_count,
+      'content_sha256', p_report.content_sha256
+    )::text, 'UTF8'),
+    k.secret,
+    'sha256'
+  ), 'hex')
+  FROM audit_signing_keys k
+  WHERE k.id = p_report.key_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION audit_report_signature(audit_reports) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION create_audit_report(p_from timestamptz, p_to timestamptz)
+RETURNS jsonb AS $$
+DECLARE
+  v_report audit_reports;
+  v_content text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'super_admin')
+  ) THEN
+    RAISE EXCEPTION 'Only admins can create audit reports';
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_from >= p_to THEN
+    RAISE EXCEPTION 'The report period must end after it starts';
+  END IF;
+
+  v_content := audit_report_content(p_from, p_to);
+
+  v_report.id := gen_random_uuid();
+  v_report.period_from := p_from;
+  v_report.period_to := p_to;
+  v_report.generated_by := auth.uid();
+  v_report.generated_at := now();
+  v_report.entry_count := jsonb_array_length(v_content::jsonb);
+  v_report.content_sha256 := encode(sha256(convert_to(v_content, 'UTF8')), 'hex');
+
+  SELECT id INTO v_report.key_id
+  FROM audit_signing_keys
+  WHERE active
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_report.key_id IS NULL THEN
+    RAISE EXCEPTION 'No active audit signing key';
+  END IF;
+
+  v_report.signature := audit_report_signature(v_report);
+
+  INSERT INTO audit_reports SELECT v_report.*;
+
+  RETURN jsonb_build_object('report', to_jsonb(v_report), 'content', v_content);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION create_audit_report(timestamptz, timestamptz) TO authenticated;
+
+COMMENT ON FUNCTION create_audit_report IS 'Admin only. Hashes and signs every audit_trail entry in [p_from, p_to); returns the report record and the exact entries JSON that was hashed';
+
+CREATE OR REPLACE FUNCTION verify_audit_report(p_report_id uuid, p_content text)
+RETURNS jsonb AS $$
+DECLARE
+  v_report audit_reports;
+BEGIN
+  SELECT * INTO v_report FROM audit_reports WHERE id = p_report_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('found', false);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'found', true,
+    'report', to_jsonb(v_report),
+    'signature_valid', audit_report_signature(v_report) = v_report.signature,
+    'content_matches', encode(sha256(convert_to(COALESCE(p_content, ''), 'UTF8')), 'hex') = v_report.content_sha256,
+    'log_unchanged', encode(sha256(convert_to(
+      audit_report_content(v_report.period_from, v_report.period_to), 'UTF8'
+    )), 'hex') = v_report.content_sha256
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION verify_audit_report(uuid, text) TO authenticated;
+
+COMMENT ON FUNCTION verify_audit_report IS 'Checks a signed audit report: stored signature, hash of the supplied entries, and whether the log for the period still hashes the same';
+COMMENT ON TABLE audit_reports IS 'Signed audit reports handed to auditors; the signature covers the period, entry count and entries hash';
+COMMENT ON TABLE audit_signing_keys IS 'HMAC keys for audit reports; readable only by SECURITY DEFINER functions';
@@ -0,0 +1,256 @@
+/*
+  # Tamper-Evident Hash Chain for Shipment and Deviation Audit Logs
+
+  ## Overview
+  In disputes over damaged or missing goods we have to show that `shipment_audit_log` and
+  `deviation_history` were not edited after the fact. Every row now carries a SHA-256 hash
+  of its content chained to the previous row's hash, so editing, deleting or reordering any
+  row breaks every link after it. `verify_audit_chain` walks a table and reports the first
+  broken link.
+
+  ## Modified Tables
+  `shipment_audit_log` and `deviation_history` gain:
+  - `chain_seq` (bigint, unique) - Position in the table's chain, starting at 1
+  - `prev_hash` (text) - `row_hash` of the previous row; empty for the first row
+  - `row_hash` (text) - Hex SHA-256 of prev_hash, chain_seq and the row's columns
+
+  ## New Functions
+  - `audit_chain_columns(p_table)` - The columns covered by the hash
+  - `audit_chain_hash(p_table, p_prev_hash, p_seq, p_row)` - The link hash
+  - `verify_audit_chain(p_table)` - `{ table, checked, valid, first_break }` where
+    `first_break` is `{ seq, id, reason, at }` or null. Reasons:
+    - `hash_mismatch` - the row's content was changed
+    - `prev_hash_mismatch` - the link to the previous row was changed
+    - `sequence_gap` - rows are missing before this one
+    - `unchained` - the row has no chain position
+
+  ## Security
+  - Chain columns are always set by the insert trigger; values sent by clients are ignored
+  - Both tables are now append-only: UPDATE, DELETE and TRUNCATE raise an error
+  - `verify_audit_chain` is SECURITY DEFINER so RLS can't hide rows and fake a gap; it only
+    returns ids, sequence numbers and hashes
+
+  ## Important Notes
+  - The foreign keys to `shipments` and `package_deviations` are dropped. Their ON DELETE
+    CASCADE silently removed the history of a deleted shipment, which is exactly what the
+    chain must prevent; the rows now keep the id of the deleted record
+  - Existing rows are chained in timestamp order by this migration
+  - Inserts take a per-table advisory lock so concurrent writers can't fork the chain
+  - Hashing renders timestamps in UTC so the result doesn't depend on the session timezone
+  - Columns added to these tables later are not hashed unless listed in
+    `audit_chain_columns`, which would invalidate the existing chain
+*/
+
+ALTER TABLE shipment_audit_log DROP CONSTRAINT IF EXISTS shipment_audit_log_shipment_id_fkey;
+ALTER TABLE deviation_history DROP CONSTRAINT IF EXISTS deviation_history_deviation_id_fkey;
+
+ALTER TABLE shipment_audit_log ADD COLUMN IF NOT EXISTS chain_seq bigint;
+ALTER TABLE shipment_audit_log ADD COLUMN IF NOT EXISTS prev_hash text;
+ALTER TABLE shipment_audit_log ADD COLUMN IF NOT EXISTS row_hash text;
+
+ALTER TABLE deviation_history ADD COLUMN IF NOT EXISTS chain_seq bigint;
+ALTER TABLE deviation_history ADD COLUMN IF NOT EXISTS prev_hash text;
+ALTER TABLE deviation_history ADD COLUMN IF NOT EXISTS row_hash text;
+
+-- ============================================
+-- Hashing
+-- ============================================
+
+-- The hashed columns are fixed so that adding a column later doesn't change existing hashes
+CREATE OR REPLACE FUNCTION audit_chain_columns(p_table text)
+RETURNS text[] AS $$
+  SELECT CASE p_table
+    WHEN 'shipment_audit_log' THEN ARRAY[
+      'id', 'shipment_id', 'action_type', 'action_by', 'action_timestamp',
+      'previous_data', 'new_data', 'changes_summary', 'ip_address', 'user_agent'
+    ]
+    WHEN 'deviation_history' THEN ARRAY[
+      'id', 'deviation_id', 'action_type', 'action_by', 'previous_value', 'new_value',
+      'comment', 'created_at'
+    ]
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- p_row is the full row as jsonb; only the columns above are hashed
+CREATE OR REPLACE FUNCTION audit_chain_hash(p_table text, p_prev_hash text, p_seq bigint, p_row jsonb)
+RETURNS text AS $$
+  SELECT encode(sha256(convert_to(
+    COALESCE(p_prev_hash, '') || '|' || p_seq || '|' || COALESCE(
+      (SELECT jsonb_object_agg(key, value) FROM jsonb_each(p_row) WHERE key = ANY(audit_chain_columns(p_table))),
+      '{}'::jsonb
+    )::text,
+    'UTF8'
+  )), 'hex');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION chain_audit_row()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_prev_seq bigint;
+  v_prev_hash text;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('audit_chain:' || TG_TABLE_NAME));
+
+  EXECUTE format('SELECT chain_seq, row_hash FROM %I ORDER BY chain_seq DESC NULLS LAST LIMIT 1', TG_TABLE_NAME)
+  INTO v_prev_seq, v_prev_hash;
+
+  NEW.chain_seq := COALESCE(v_prev_seq, 0) + 1;
+  NEW.prev_hash := COALESCE(v_prev_hash, '');
+  NEW.row_hash := audit_chain_hash(TG_TABLE_NAME, NEW.prev_hash, NEW.chain_seq, to_jsonb(NEW));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET TimeZone TO 'UTC';
+
+CREATE OR REPLACE FUNCTION prevent_audit_modification()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION '% is append-only; % is not allowed', TG_TABLE_NAME, TG_OP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- Chain existing rows
+-- ============================================
+
+DO $$
+DECLARE
+  v_row record;
+  v_seq bigint := 0;
+  v_hash text := '';
+BEGIN
+  PERFORM set_config('TimeZone', 'UTC', true);
+
+  FOR v_row IN
+    SELECT * FROM shipment_audit_log ORDER BY action_timestamp, id
+  LOOP
+    v_seq := v_seq + 1;
+    UPDATE shipment_audit_log
+    SET chain_seq = v_seq,
+        prev_hash = v_hash,
+        row_hash = audit_chain_hash('shipment_audit_log', v_hash, v_seq, to_jsonb(v_row))
+    WHERE id = v_row.id
+    RETURNING row_hash INTO v_hash;
+  END LOOP;
+
+  v_seq := 0;
+  v_hash := '';
+
+  FOR v_row IN
+    SELECT * FROM deviation_history ORDER BY created_at, id
+  LOOP
+    v_seq := v_seq + 1;
+    UPDATE deviation_history
+    SET chain_seq = v_seq,
+        prev_hash = v_hash,
+        row_hash = audit_chain_hash('deviation_history', v_hash, v_seq, to_jsonb(v_row))
+    WHERE id = v_row.id
+    RETURNING row_hash INTO v_hash;
+  END LOOP;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shipment_audit_log_chain_seq ON shipment_audit_log(chain_seq);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_deviation_history_chain_seq ON deviation_history(chain_seq);
+
+-- ============================================
+-- Triggers
+-- ============================================
+
+DROP TRIGGER IF EXISTS chain_shipment_audit_log ON shipment_audit_log;
+CREATE TRIGGER chain_shipment_audit_log
+  BEFORE INSERT ON shipment_audit_log
+  FOR EACH ROW EXECUTE FUNCTION chain_audit_row();
+
+DROP TRIGGER IF EXISTS chain_deviation_history ON deviation_history;
+CREATE TRIGGER chain_deviation_history
+  BEFORE INSERT ON deviation_history
+  FOR EACH ROW EXECUTE FUNCTION chain_audit_row();
+
+DROP TRIGGER IF EXISTS protect_shipment_audit_log ON shipment_audit_log;
+CREATE TRIGGER protect_shipment_audit_log
+  BEFORE UPDATE OR DELETE ON shipment_audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_modification();
+
+DROP TRIGGER IF EXISTS protect_shipment_audit_log_truncate ON shipment_audit_log;
+CREATE TRIGGER protect_shipment_audit_log_truncate
+  BEFORE TRUNCATE ON shipment_audit_log
+  FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_modification();
+
+DROP TRIGGER IF EXISTS protect_deviation_history ON deviation_history;
+CREATE TRIGGER protect_deviation_history
+  BEFORE UPDATE OR DELETE ON deviation_history
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_modification();
+
+DROP TRIGGER IF EXISTS protect_deviation_history_truncate ON deviation_history;
+CREATE TRIGGER protect_deviation_history_truncate
+  BEFORE TRUNCATE ON deviation_history
+  FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_modification();
+
+-- ============================================
+-- Verification
+-- ============================================
+
+CREATE OR REPLACE FUNCTION verify_audit_chain(p_table text)
+RETURNS jsonb AS $$
+DECLARE
+  v_time_column text;
+  v_row record;
+  v_checked bigint := 0;
+  v_expected_seq bigint := 1;
+  v_prev_hash text := '';
+  v_break jsonb;
+BEGIN
+  v_time_column := CASE p_table
+    WHEN 'shipment_audit_log' THEN 'action_timestamp'
+    WHEN 'deviation_history' THEN 'created_at'
+  END;
+
+  IF v_time_column IS NULL THEN
+    RAISE EXCEPTION '% has no hash chain', p_table;
+  END IF;
+
+  EXECUTE format('SELECT id, %I AS at FROM %I WHERE chain_seq IS NULL ORDER BY %I LIMIT 1', v_time_column, p_table, v_time_column)
+  INTO v_row;
+
+  IF v_row.id IS NOT NULL THEN
+    v_break := jsonb_build_object('seq', NULL, 'id', v_row.id, 'reason', 'unchained', 'at', v_row.at);
+  END IF;
+
+  IF v_break IS NULL THEN
+    FOR v_row IN EXECUTE format(
+      'SELECT t.id, t.%I AS at, t.chain_seq, t.prev_hash, t.row_hash, to_jsonb(t) AS data
+       FROM %I t WHERE t.chain_seq IS NOT NULL ORDER BY t.chain_seq',
+      v_time_column, p_table
+    )
+    LOOP
+      v_checked := v_checked + 1;
+
+      IF v_row.chain_seq <> v_expected_seq THEN
+        v_break := jsonb_build_object('seq', v_row.chain_seq, 'id', v_row.id, 'reason', 'sequence_gap', 'at', v_row.at);
+      ELSIF v_row.prev_hash IS DISTINCT FROM v_prev_hash THEN
+        v_break := jsonb_build_object('seq', v_row.chain_seq, 'id', v_row.id, 'reason', 'prev_hash_mismatch', 'at', v_row.at);
+      ELSIF v_row.row_hash IS DISTINCT FROM audit_chain_hash(p_table, v_row.prev_hash, v_row.chain_seq, v_row.data) THEN
+        v_break := jsonb_build_object('seq', v_row.chain_seq, 'id', v_row.id, 'reason', 'hash_mismatch', 'at', v_row.at);
+      END IF;
+
+      EXIT WHEN v_break IS NOT NULL;
+
+      v_expected_seq := v_row.chain_seq + 1;
+      v_prev_hash := v_row.row_hash;
+    END LOOP;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'table', p_table,
+    'checked', v_checked,
+    'valid', v_break IS NULL,
+    'first_break', v_break
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET TimeZone TO 'UTC';
+
+GRANT EXECUTE ON FUNCTION verify_audit_chain(text) TO authenticated;
+
+COMMENT ON COLUMN shipment_audit_log.row_hash IS 'SHA-256 of prev_hash, chain_seq and the row; see verify_audit_chain';
+COMMENT ON COLUMN deviation_history.row_hash IS 'SHA-256 of prev_hash, chain_seq and the row; see verify_audit_chain';
+COMMENT ON FUNCTION verify_audit_chain IS 'Walks the shipment_audit_log or deviation_history hash chain and reports the first broken link';
@@ -0,0 +1,311 @@
+/*
+  # Revert a Shipment to a Previous Audited Version
+
+  ## Overview
+  `shipment_audit_log` stores before/after data for every shipment change, but it could
+  only be viewed. A shipment can now be reverted to the state it had right after any of
+  its audit entries. The state is rebuilt by replaying the shipment's entries up to the
+  chosen one, so entries that only logged a few fields (status changes, completions) still
+  yield a full version.
+
+  The preview lists every side effect before anything changes: field changes, packages that
+  will be added or deleted, deviations that are deleted with those packages, and operators
+  that are assigned or removed. The revert is logged as a new `reverted` audit entry.
+
+  ## New Functions
+  - `revertible_shipment_columns()` - Shipment columns a revert restores
+  - `revertible_shipment_fields(p_data)` - `p_data` reduced to those columns
+  - `preview_shipment_revert(p_audit_id)` - Revert plan:
+    - `entry` - The chosen audit entry
+    - `complete_history` - false when the log doesn't start with `created`; fields that
+      were never logged keep their current values
+    - `field_changes` - `[{ field, current, reverted }]`
+    - `packages_to_add` - SSCCs in the version but not on the shipment
+    - `packages_to_remove` - `[{ id, sscc_number, status }]` on the shipment but not in the version
+    - `deviations_removed` - Deviations on those packages, deleted with them
+    - `open_deviations` - Open deviations on the shipment, which the revert leaves as they are
+    - `operators_added`, `operators_removed` - `[{ value, name }]`, value as stored in
+      `assigned_operators`
+    - `reverted` - The shipment fields after the revert
+  - `revert_shipment(p_audit_id)` - Applies the plan and returns it with `audit_id`
+
+  ## Modified Tables
+  - `shipment_audit_log.action_type` also allows `reverted`
+
+  ## Security
+  - Both functions run with the caller's permissions, so a revert can only do what
+    editing the shipment by hand could
+
+  ## Important Notes
+  - Package statuses and status history are not rewound; only the package list follows
+    the version's SSCC numbers
+  - Reverting to a version that isn't completed clears `completed_at` and `completed_by`
+*/
+
+ALTER TABLE shipment_audit_log DROP CONSTRAINT IF EXISTS shipment_audit_log_action_type_check;
+ALTER TABLE shipment_audit_log ADD CONSTRAINT shipment_audit_log_action_type_check
+  CHECK (action_type IN (
+    'created', 'updated', 'status_changed', 'completed', 'deleted', 'archived',
+    'operator_assigned', 'operator_removed', 'reverted'
+  ));
+
+CREATE OR REPLACE FUNCTION revertible_shipment_columns()
+RETURNS text[] AS $$
+  SELECT ARRAY[
+    'title', 'start', 'car_reg_no', 'sscc_numbers', 'storage_location', 'assigned_operators',
+    'notes', 'status', 'intensity', 'dock_door_id', 'slot_start', 'slot_end',
+    'completed_at', 'completed_by'
+  ];
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Forms log empty strings for unset times and ids, which don't cast back to those types
+CREATE OR REPLACE FUNCTION revertible_shipment_fields(p_data jsonb)
+RETURNS jsonb AS $$
+  SELECT COALESCE(jsonb_object_agg(
+    key,
+    CASE
+      WHEN value = '""'::jsonb AND key IN ('start', 'slot_start', 'slot_end', 'completed_at', 'dock_door_id', 'completed_by')
+      THEN 'null'::jsonb
+      ELSE value
+    END
+  ), '{}'::jsonb)
+  FROM jsonb_each(CASE WHEN jsonb_typeof(p_data) = 'object' THEN p_data ELSE '{}'::jsonb END)
+  WHERE key = ANY(revertible_shipment_columns());
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION preview_shipment_revert(p_audit_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_target shipment_audit_log;
+  v_current shipments;
+  v_reverted shipments;
+  v_entry record;
+  v_state jsonb := '{}'::jsonb;
+  v_complete_history boolean;
+  v_current_json jsonb;
+  v_reverted_json jsonb;
+  v_ssccs text[];
+  v_field_changes jsonb;
+  v_packages_to_add jsonb := '[]'::jsonb;
+  v_packages_to_remove jsonb := '[]'::jsonb;
+  v_deviations_removed jsonb;
+  v_open_deviations integer;
+  v_operators_added jsonb;
+  v_operators_removed jsonb;
+BEGIN
+  SELECT * INTO v_target FROM shipment_audit_log WHERE id = p_audit_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Audit entry % not found', p_audit_id;
+  END IF;
+
+  SELECT * INTO v_current FROM shipments WHERE id = v_target.shipment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The shipment of this audit entry no longer exists';
+  END IF;
+
+  -- Replay the shipment's history up to and including the chosen entry
+  FOR v_entry IN
+    SELECT action_type, previous_data, new_data
+    FROM shipment_audit_log
+    WHERE shipment_id = v_target.shipment_id
+    AND chain_seq <= v_target.chain_seq
+    ORDER BY chain_seq
+  LOOP
+    v_complete_history := COALESCE(v_complete_history, v_entry.action_type = 'created');
+    v_state := v_state
+      || revertible_shipment_fields(v_entry.previous_data)
+      || revertible_shipment_fields(v_entry.new_data);
+  END LOOP;
+
+  v_reverted := jsonb_populate_record(v_current, v_state);
+
+  IF v_reverted.status IS DISTINCT FROM 'completed' THEN
+    v_reverted.completed_at := NULL;
+    v_reverted.completed_by := NULL;
+  END IF;
+
+  -- Compare as rendered by the database so '...Z' and '...+00:00' don't count as changes
+  v_current_json := revertible_shipment_fields(to_jsonb(v_current));
+  v_reverted_json := revertible_shipment_fields(to_jsonb(v_reverted));
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object('field', col, 'current', v_current_json->col, 'reverted', v_reverted_json->col)
+    ORDER BY ord
+  ), '[]'::jsonb)
+  INTO v_field_changes
+  FROM unnest(revertible_shipment_columns()) WITH ORDINALITY AS c(col, ord)
+  WHERE v_current_json->col IS DISTINCT FROM v_reverted_json->col;
+
+  -- The package list only follows the version if the history recorded its SSCCs
+  IF v_state ? 'sscc_numbers' THEN
+    v_ssccs := ARRAY(
+      SELECT DISTINCT trim(s)
+      FROM unnest(string_to_array(COALESCE(v_reverted.sscc_numbers, ''), ',')) s
+      WHERE trim(s) <> ''
+    );
+
+    SELECT COALESCE(jsonb_agg(s ORDER BY s), '[]'::jsonb)
+    INTO v_packages_to_add
+    FROM unnest(v_ssccs) s
+    WHERE NOT EXISTS (
+      SELECT 1 FROM packages p WHERE p.shipment_id = v_current.id AND p.sscc_number = s
+    );
+
+    SELECT COALESCE(jsonb_agg(
+      jsonb_build_object('id', p.id, 'sscc_number', p.sscc_number, 'status', p.status)
+      ORDER BY p.sscc_number
+    ), '[]'::jsonb)
+    INTO v_packages_to_remove
+    FROM packages p
+    WHERE p.shipment_id = v_current.id
+    AND NOT (p.sscc_number = ANY(v_ssccs));
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'id', d.id,
+      'sscc_number', p.sscc_number,
+      'deviation_type', d.deviation_type,
+      'status', d.status
+    ) ORDER BY p.sscc_number
+  ), '[]'::jsonb)
+  INTO v_deviations_removed
+  FROM package_deviations d
+  JOIN packages p ON p.id = d.package_id
+  WHERE p.id IN (SELECT (r->>'id')::uuid FROM jsonb_array_elements(v_packages_to_remove) r);
+
+  SELECT count(*) INTO v_open_deviations
+  FROM package_deviations d
+  WHERE d.shipment_id = v_current.id
+  AND d.status NOT IN ('resolved', 'closed');
+
+  -- assigned_operators holds operator ids or, for older rows, names
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object('value', a.value, 'name', COALESCE(o.name, a.value))) FILTER (WHERE a.kind = 'added'), '[]'::jsonb),
+    COALESCE(jsonb_agg(jsonb_build_object('value', a.value, 'name', COALESCE(o.name, a.value))) FILTER (WHERE a.kind = 'removed'), '[]'::jsonb)
+  INTO v_operators_added, v_operators_removed
+  FROM (
+    SELECT 'added' AS kind, value
+    FROM unnest(COALESCE(v_reverted.assigned_operators, '{}')) value
+    WHERE NOT (value = ANY(COALESCE(v_current.assigned_operators, '{}')))
+    UNION ALL
+    SELECT 'removed', value
+    FROM unnest(COALESCE(v_current.assigned_operators, '{}')) value
+    WHERE NOT (value = ANY(COALESCE(v_reverted.assigned_operators, '{}')))
+  ) a
+  LEFT JOIN LATERAL (
+    SELECT name FROM operators WHERE id::text = a.value OR name = a.value LIMIT 1
+  ) o ON true;
+
+  RETURN jsonb_build_object(
+    'shipment_id', v_current.id,
+    'shipment_title', v_current.title,
+    'entry', jsonb_build_object(
+      'id', v_target.id,
+      'action_type', v_target.action_type,
+      'action_timestamp', v_target.action_timestamp,
+      'changes_summary', v_target.changes_summary
+    ),
+    'complete_history', COALESCE(v_complete_history, false),
+    'field_changes', v_field_changes,
+    'packages_to_add', v_packages_to_add,
+    'packages_to_remove', v_packages_to_remove,
+    'deviations_removed', v_deviations_removed,
+    'open_deviations', v_open_deviations,
+    'operators_added', v_operators_added,
+    'operators_removed', v_operators_removed,
+    'current', v_current_json,
+    'reverted', v_reverted_json
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION revert_shipment(p_audit_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_plan jsonb := preview_shipment_revert(p_audit_id);
+  v_shipment_id uuid := (v_plan->>'shipment_id')::uuid;
+  v_audit_id uuid;
+  v_summary text;
+BEGIN
+  IF jsonb_array_length(v_plan->'field_changes') = 0
+     AND jsonb_array_length(v_plan->'packages_to_add') = 0
+     AND jsonb_array_length(v_plan->'packages_to_remove') = 0 THEN
+    RAISE EXCEPTION 'The shipment already matches this version';
+  END IF;
+
+  UPDATE shipments s
+  SET title = r.title,
+      start = r.start,
+      car_reg_no = r.car_reg_no,
+      sscc_numbers = r.sscc_numbers,
+      storage_location = r.storage_location,
+      assigned_operators = r.assigned_operators,
+      notes = r.notes,
+      status = r.status,
+      intensity = r.intensity,
+      dock_door_id = r.dock_door_id,
+      slot_start = r.slot_start,
+      slot_end = r.slot_end,
+      completed_at = r.completed_at,
+      completed_by = r.completed_by,
+      updated_at = now(),
+      updated_by = auth.uid()
+  FROM jsonb_populate_record(NULL::shipments, v_plan->'reverted') r
+  WHERE s.id = v_shipment_id;
+
+  PERFORM set_config('app.package_status_reason', 'Shipment reverted to an earlier version', true);
+
+  DELETE FROM packages
+  WHERE id IN (SELECT (p->>'id')::uuid FROM jsonb_array_elements(v_plan->'packages_to_remove') p);
+
+  INSERT INTO packages (shipment_id, sscc_number, status)
+  SELECT
+    v_shipment_id,
+    sscc,
+    CASE WHEN s.shipment_type = 'outgoing' THEN 'picked' ELSE 'expected' END
+  FROM jsonb_array_elements_text(v_plan->'packages_to_add') sscc
+  CROSS JOIN shipments s
+  WHERE s.id = v_shipment_id;
+
+  PERFORM set_config('app.package_status_reason', '', true);
+
+  SELECT concat_ws('; ',
+    format('Reverted to the version after the %s entry of %s',
+      replace(v_plan->'entry'->>'action_type', '_', ' '),
+      to_char((v_plan->'entry'->>'action_timestamp')::timestamptz AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"')),
+    (SELECT 'fields: ' || string_agg(f->>'field', ', ') FROM jsonb_array_elements(v_plan->'field_changes') f),
+    CASE WHEN jsonb_array_length(v_plan->'packages_to_add') > 0
+      THEN format('%s package(s) added', jsonb_array_length(v_plan->'packages_to_add')) END,
+    CASE WHEN jsonb_array_length(v_plan->'packages_to_remove') > 0
+      THEN format('%s package(s) removed', jsonb_array_length(v_plan->'packages_to_remove')) END
+  )
+  INTO v_summary;
+
+  INSERT INTO shipment_audit_log (
+    shipment_id, action_type, action_by, previous_data, new_data, changes_summary
+  ) VALUES (
+    v_shipment_id,
+    'reverted',
+    auth.uid(),
+    v_plan->'current',
+    v_plan->'reverted' || jsonb_build_object(
+      'reverted_to_entry', v_plan->'entry'->'id',
+      'packages_added', v_plan->'packages_to_add',
+      'packages_removed', v_plan->'packages_to_remove'
+    ),
+    v_summary
+  )
+  RETURNING id INTO v_audit_id;
+
+  RETURN v_plan || jsonb_build_object('audit_id', v_audit_id);
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION preview_shipment_revert(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION revert_shipment(uuid) TO authenticated;
+
+COMMENT ON FUNCTION preview_shipment_revert IS 'Rebuilds a shipment version from its audit log up to an entry and lists field, package, deviation and operator side effects of reverting to it';
+COMMENT ON FUNCTION revert_shipment IS 'Reverts a shipment to the version after an audit entry and logs a reverted audit entry';
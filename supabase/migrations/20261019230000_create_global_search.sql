@@ -0,0 +1,235 @@
+/*
+  # Global Search Across Shipments, Packages, Deviations and Vehicles
+
+  ## Overview
+  The admin panel had three unrelated searches: `PackageSearch` (ILIKE on SSCC only), the
+  client-side filter in ShipmentsTab and none at all for deviations. `global_search` answers
+  one query over all of them from trigram and full-text indexes and returns ranked results
+  grouped by type.
+
+  ## Searched Fields
+  - Shipments: title, car_reg_no, storage_location, sscc_numbers, notes and the names of
+    assigned operators
+  - Packages: sscc_number, storage_location
+  - Deviations: description, and the SSCC of the affected package
+  - Vehicles: car_reg_no, one result per registration with its shipment count
+
+  ## New Functions
+  - `search_field_rank(p_query, p_value)` - 1 for an exact match, 0.9 for a prefix, 0.7 for a
+    substring, otherwise the trigram word similarity scaled to at most 0.6
+  - `global_search(p_query, p_limit)` - Rows of `{ result_type, result_id, title, subtitle,
+    matched_field, matched_value, rank, shipment_id, status, occurred_at }`, at most
+    `p_limit` (1-50, default 10) per result type, best match first
+
+  ## Indexes
+  - GIN trigram indexes on every searched text column so `ILIKE '%term%'` and the fuzzy
+    `<%` operator don't scan the tables
+  - GIN full-text indexes on shipment notes and deviation descriptions
+
+  ## Security
+  - `global_search` runs as the caller, so RLS decides which rows can be found
+
+  ## Important Notes
+  - Queries shorter than 2 characters return nothing
+  - Archived shipments are not returned as shipments or vehicles; their packages and
+    deviations still are
+  - Operators are matched by name; shipments store either operator ids or names in
+    `assigned_operators`, so both are checked
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- ============================================
+-- Indexes
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_shipments_title_trgm ON shipments USING gin (title extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_shipments_car_reg_no_trgm ON shipments USING gin (car_reg_no extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_shipments_storage_location_trgm ON shipments USING gin (storage_location extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_shipments_sscc_numbers_trgm ON shipments USING gin (sscc_numbers extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_shipments_notes_fts ON shipments USING gin (to_tsvector('simple', COALESCE(notes, '')));
+CREATE INDEX IF NOT EXISTS idx_shipments_assigned_operators ON shipments USING gin (assigned_operators);
+
+CREATE INDEX IF NOT EXISTS idx_packages_sscc_number_trgm ON packages USING gin (sscc_number extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_packages_storage_location_trgm ON packages USING gin (storage_location extensions.gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_package_deviations_description_trgm ON package_deviations USING gin (description extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_package_deviations_description_fts ON package_deviations USING gin (to_tsvector('simple', COALESCE(description, '')));
+
+CREATE INDEX IF NOT EXISTS idx_operators_name_trgm ON operators USING gin (name extensions.gin_trgm_ops);
+
+-- ============================================
+-- Ranking
+-- ============================================
+
+CREATE OR REPLACE FUNCTION search_field_rank(p_query text, p_value text)
+RETURNS real AS $$
+  SELECT (CASE
+    WHEN p_value IS NULL OR p_value = '' THEN 0
+    WHEN lower(p_value) = lower(p_query) THEN 1
+    WHEN starts_with(lower(p_value), lower(p_query)) THEN 0.9
+    WHEN strpos(lower(p_value), lower(p_query)) > 0 THEN 0.7
+    ELSE extensions.word_similarity(p_query, p_value) * 0.6
+  END)::real;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- Search
+-- ============================================
+
+CREATE OR REPLACE FUNCTION global_search(p_query text, p_limit integer DEFAULT 10)
+RETURNS TABLE (
+  result_type text,
+  result_id text,
+  title text,
+  subtitle text,
+  matched_field text,
+  matched_value text,
+  rank real,
+  shipment_id uuid,
+  status text,
+  occurred_at timestamptz
+) AS $$
+  WITH params AS (
+    SELECT
+      btrim(p_query) AS q,
+      '%' || replace(replace(replace(btrim(p_query), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern,
+      websearch_to_tsquery('simple', btrim(p_query)) AS tsq,
+      LEAST(GREATEST(COALESCE(p_limit, 10), 1), 50) AS lim
+    WHERE length(btrim(COALESCE(p_query, ''))) >= 2
+  ),
+  matched_operators AS (
+    SELECT o.id::text AS id, o.name
+    FROM operators o, params p
+    WHERE o.name ILIKE p.pattern OR p.q <% o.name
+  ),
+  operator_keys AS (
+    SELECT COALESCE(array_agg(id) || array_agg(name), '{}') AS keys FROM matched_operators
+  ),
+  shipment_results AS (
+    SELECT
+      'shipment'::text AS result_type,
+      s.id::text AS result_id,
+      s.title,
+      concat_ws(' · ', NULLIF(s.car_reg_no, ''), NULLIF(s.storage_location, '')) AS subtitle,
+      best.field AS matched_field,
+      best.value AS matched_value,
+      best.rank,
+      s.id AS shipment_id,
+      s.status,
+      s.start AS occurred_at
+    FROM shipments s, params p, operator_keys ok,
+    LATERAL (
+      SELECT f.field, f.value, f.rank
+      FROM (VALUES
+        ('title', s.title, search_field_rank(p.q, s.title)),
+        ('car_reg_no', s.car_reg_no, search_field_rank(p.q, s.car_reg_no)),
+        ('storage_location', s.storage_location, search_field_rank(p.q, s.storage_location)),
+        ('sscc_numbers', s.sscc_numbers, search_field_rank(p.q, s.sscc_numbers)),
+        ('notes', s.notes, GREATEST(
+          search_field_rank(p.q, s.notes),
+          ts_rank(to_tsvector('simple', COALESCE(s.notes, '')), p.tsq)
+        )),
+        ('operator',
+          (SELECT string_agg(mo.name, ', ') FROM matched_operators mo
+           WHERE mo.id = ANY(s.assigned_operators) OR mo.name = ANY(s.assigned_operators)),
+          (CASE WHEN s.assigned_operators && ok.keys THEN 0.8 ELSE 0 END)::real)
+      ) AS f(field, value, rank)
+      ORDER BY f.rank DESC
+      LIMIT 1
+    ) best
+    WHERE NOT s.archived
+      AND (
+        s.title ILIKE p.pattern OR p.q <% s.title
+        OR s.car_reg_no ILIKE p.pattern
+        OR s.storage_location ILIKE p.pattern
+        OR s.sscc_numbers ILIKE p.pattern
+        OR to_tsvector('simple', COALESCE(s.notes, '')) @@ p.tsq
+        OR s.assigned_operators && ok.keys
+      )
+    ORDER BY best.rank DESC, s.start DESC NULLS LAST
+    LIMIT (SELECT lim FROM params)
+  ),
+  vehicle_results AS (
+    SELECT
+      'vehicle'::text AS result_type,
+      v.car_reg_no AS result_id,
+      v.car_reg_no AS title,
+      v.shipment_count || CASE WHEN v.shipment_count = 1 THEN ' shipment' ELSE ' shipments' END AS subtitle,
+      'car_reg_no'::text AS matched_field,
+      v.car_reg_no AS matched_value,
+      search_field_rank(p.q, v.car_reg_no) AS rank,
+      NULL::uuid AS shipment_id,
+      NULL::text AS status,
+      v.last_start AS occurred_at
+    FROM params p,
+    LATERAL (
+      SELECT s.car_reg_no, count(*) AS shipment_count, max(s.start) AS last_start
+      FROM shipments s
+      WHERE NOT s.archived AND s.car_reg_no ILIKE p.pattern
+      GROUP BY s.car_reg_no
+    ) v
+    ORDER BY rank DESC, v.last_start DESC NULLS LAST
+    LIMIT (SELECT lim FROM params)
+  ),
+  package_results AS (
+    SELECT
+      'package'::text AS result_type,
+      pk.id::text AS result_id,
+      pk.sscc_number AS title,
+      concat_ws(' · ', s.title, NULLIF(pk.storage_location, '')) AS subtitle,
+      CASE WHEN ssc.rank >= loc.rank THEN 'sscc_number' ELSE 'storage_location' END AS matched_field,
+      CASE WHEN ssc.rank >= loc.rank THEN pk.sscc_number ELSE pk.storage_location END AS matched_value,
+      GREATEST(ssc.rank, loc.rank) AS rank,
+      pk.shipment_id,
+      pk.status,
+      pk.created_at AS occurred_at
+    FROM packages pk
+    CROSS JOIN params p
+    LEFT JOIN shipments s ON s.id = pk.shipment_id
+    CROSS JOIN LATERAL (SELECT search_field_rank(p.q, pk.sscc_number) AS rank) ssc
+    CROSS JOIN LATERAL (SELECT search_field_rank(p.q, pk.storage_location) AS rank) loc
+    WHERE pk.sscc_number ILIKE p.pattern OR pk.storage_location ILIKE p.pattern
+    ORDER BY GREATEST(ssc.rank, loc.rank) DESC, pk.created_at DESC
+    LIMIT (SELECT lim FROM params)
+  ),
+  deviation_results AS (
+    SELECT
+      'deviation'::text AS result_type,
+      d.id::text AS result_id,
+      COALESCE(pk.sscc_number, s.title) AS title,
+      d.description AS subtitle,
+      CASE WHEN sscc.rank > descr.rank THEN 'sscc_number' ELSE 'description' END AS matched_field,
+      CASE WHEN sscc.rank > descr.rank THEN pk.sscc_number ELSE d.description END AS matched_value,
+      GREATEST(sscc.rank, descr.rank) AS rank,
+      d.shipment_id,
+      d.status,
+      d.created_at AS occurred_at
+    FROM package_deviations d
+    CROSS JOIN params p
+    LEFT JOIN packages pk ON pk.id = d.package_id
+    LEFT JOIN shipments s ON s.id = d.shipment_id
+    CROSS JOIN LATERAL (SELECT search_field_rank(p.q, pk.sscc_number) AS rank) sscc
+    CROSS JOIN LATERAL (
+      SELECT GREATEST(
+        search_field_rank(p.q, d.description),
+        ts_rank(to_tsvector('simple', COALESCE(d.description, '')), p.tsq)
+      ) AS rank
+    ) descr
+    WHERE d.description ILIKE p.pattern
+      OR p.q <% d.description
+      OR to_tsvector('simple', COALESCE(d.description, '')) @@ p.tsq
+      OR pk.sscc_number ILIKE p.pattern
+    ORDER BY GREATEST(sscc.rank, descr.rank) DESC, d.created_at DESC
+    LIMIT (SELECT lim FROM params)
+  )
+  SELECT * FROM shipment_results
+  UNION ALL SELECT * FROM package_results
+  UNION ALL SELECT * FROM deviation_results
+  UNION ALL SELECT * FROM vehicle_results;
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION global_search(text, integer) TO authenticated;
+
+COMMENT ON FUNCTION search_field_rank IS 'Relevance of one text field for global_search: exact > prefix > substring > fuzzy';
+COMMENT ON FUNCTION global_search IS 'Ranked search over shipments, packages, deviations and vehicles, at most p_limit results per type';
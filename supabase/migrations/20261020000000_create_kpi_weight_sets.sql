@@ -0,0 +1,591 @@
+/*
+  # Configurable KPI Scoring Model
+
+  ## Overview
+  KPI points were hard-coded as high 3 / medium 2 / low 1 in every performance function.
+  This migration moves the weights into versioned weight sets that admins can publish from
+  the KPI dashboard. A weight set scores a task as the sum of:
+  - points for its intensity (low / medium / high)
+  - points for its task category (matched by get_task_category)
+  - points for its shipment_type (incoming / outgoing / general)
+  - points per package on the shipment, optionally capped
+
+  Each set has an effective-from date. By default a task is scored with the set that was
+  effective on the day it was completed ("as recorded"); tasks older than every set use the
+  earliest one. Passing p_weight_version scores the whole history with that one version,
+  so two periods can be compared under the same rules.
+
+  Weight sets are never edited in place: publishing a change creates a new version. When two
+  versions share an effective-from date the higher version wins.
+
+  ## New Tables
+
+  ### kpi_weight_sets
+  - `id` (uuid, primary key)
+  - `version` (integer, unique) - Sequential version number
+  - `name` (text)
+  - `effective_from` (date) - First completion day the set applies to
+  - `intensity_points` (jsonb) - e.g. {"low": 1, "medium": 2, "high": 3}
+  - `category_points` (jsonb) - Task category name to points, e.g. {"OPI": 1}
+  - `shipment_type_points` (jsonb) - e.g. {"incoming": 0, "outgoing": 1}
+  - `points_per_package` (numeric)
+  - `max_package_points` (numeric, nullable) - Cap on the package points of one task
+  - `notes` (text)
+  - `created_by` (uuid), `created_at` (timestamptz)
+
+  ## New Functions
+  - `kpi_weight_set_for(version, completed_at)` - The weight set that scores a task
+  - `kpi_task_points(weight_set, intensity, category, shipment_type, package_count)`
+  - `kpi_scored_tasks(start, end, weight_version)` - Distinct completed tasks per operator
+    with their points; the single source for every KPI function below
+  - `create_kpi_weight_set(...)` - Publishes the next version (admins only)
+
+  ## Modified Functions
+  The following gain a `p_weight_version` parameter (NULL = as recorded) and now return
+  scores as numeric, since weights may be fractional:
+  - `get_filtered_operator_performance(start, end, weight_version)`
+  - `get_operator_performance(operator_id, weight_version)`
+  - `get_category_statistics(weight_version)`
+  - `get_total_shipment_stats(start, end, weight_version)` - total_points is now the sum of
+    operator task points, matching the rankings
+
+  ## Security
+  - Users who can view KPI data can read weight sets
+  - Only admins can publish weight sets, through create_kpi_weight_set
+
+  ## Important Notes
+  - Version 1 reproduces the previous fixed weights, so existing scores are unchanged
+*/
+
+-- ============================================
+-- Create kpi_weight_sets table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS kpi_weight_sets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  version integer NOT NULL UNIQUE CHECK (version > 0),
+  name text NOT NULL CHECK (trim(name) != ''),
+  effective_from date NOT NULL,
+  intensity_points jsonb NOT NULL DEFAULT '{"low": 1, "medium": 2, "high": 3}'::jsonb
+    CHECK (jsonb_typeof(intensity_points) = 'object'),
+  category_points jsonb NOT NULL DEFAULT '{}'::jsonb
+    CHECK (jsonb_typeof(category_points) = 'object'),
+  shipment_type_points jsonb NOT NULL DEFAULT '{}'::jsonb
+    CHECK (jsonb_typeof(shipment_type_points) = 'object'),
+  points_per_package numeric(8,2) NOT NULL DEFAULT 0 CHECK (points_per_package >= 0),
+  max_package_points numeric(8,2) CHECK (max_package_points >= 0),
+  notes text DEFAULT '',
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_kpi_weight_sets_effective
+  ON kpi_weight_sets(effective_from DESC, version DESC);
+
+ALTER TABLE kpi_weight_sets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "KPI viewers can view weight sets"
+  ON kpi_weight_sets FOR SELECT
+  TO authenticated
+  USING (can_view_kpi_data());
+
+INSERT INTO kpi_weight_sets (version, name, effective_from, intensity_points, notes)
+VALUES (
+  1,
+  'Intensity only',
+  DATE '2000-01-01',
+  '{"low": 1, "medium": 2, "high": 3}'::jsonb,
+  'The original fixed weights: high 3, medium 2, low 1 points per task.'
+)
+ON CONFLICT (version) DO NOTHING;
+
+-- ============================================
+-- Scoring helpers
+-- ============================================
+
+CREATE OR REPLACE FUNCTION kpi_weight_set_for(p_version integer, p_completed_at timestamptz)
+RETURNS kpi_weight_sets AS $$
+DECLARE
+  v_weight_set kpi_weight_sets;
+BEGIN
+  IF p_version IS NOT NULL THEN
+    SELECT * INTO v_weight_set FROM kpi_weight_sets WHERE version = p_version;
+    RETURN v_weight_set;
+  END IF;
+
+  SELECT * INTO v_weight_set
+  FROM kpi_weight_sets
+  WHERE effective_from <= p_completed_at::date
+  ORDER BY effective_from DESC, version DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    -- Tasks completed before the first weight set took effect use the earliest one
+    SELECT * INTO v_weight_set
+    FROM kpi_weight_sets
+    ORDER BY effective_from, version
+    LIMIT 1;
+  END IF;
+
+  RETURN v_weight_set;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION kpi_task_points(
+  p_weight_set kpi_weight_sets,
+  p_intensity text,
+  p_category text,
+  p_shipment_type text,
+  p_package_count integer
+)
+RETURNS numeric AS $$
+  SELECT
+    COALESCE((p_weight_set.intensity_points ->> p_intensity)::numeric, 0)
+    + COALESCE((p_weight_set.category_points ->> p_category)::numeric, 0)
+    + COALESCE((p_weight_set.shipment_type_points ->> p_shipment_type)::numeric, 0)
+    + LEAST(
+        COALESCE(p_package_count, 0) * p_weight_set.points_per_package,
+        COALESCE(p_weight_set.max_package_points, COALESCE(p_package_count, 0) * p_weight_set.points_per_package)
+      );
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION kpi_scored_tasks(
+  p_start_date timestamptz DEFAULT NULL,
+  p_end_date timestamptz DEFAULT NULL,
+  p_weight_version integer DEFAULT NULL
+)
+RETURNS TABLE (
+  operator_id uuid,
+  shipment_id uuid,
+  title text,
+  category text,
+  intensity text,
+  is_delivery boolean,
+  shipment_type text,
+  package_count integer,
+  completed_at timestamptz,
+  weight_version integer,
+  points numeric
+) AS $$
+BEGIN
+  IF NOT can_view_kpi_data() THEN
+    RAISE EXCEPTION 'Permission denied: Only admins can view KPI data';
+  END IF;
+
+  IF p_weight_version IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM kpi_weight_sets ws WHERE ws.version = p_weight_version
+  ) THEN
+    RAISE EXCEPTION 'KPI weight set version % does not exist', p_weight_version;
+  END IF;
+
+  RETURN QUERY
+  WITH distinct_tasks AS (
+    SELECT DISTINCT ON (soa.operator_id, soa.shipment_id)
+      soa.operator_id,
+      soa.shipment_id,
+      soa.title,
+      soa.intensity,
+      soa.is_delivery,
+      soa.completed_at
+    FROM shipment_operator_assignments soa
+    WHERE
+      soa.status = 'completed'
+      AND soa.completed_at IS NOT NULL
+      AND soa.operator_id IS NOT NULL
+      AND (p_start_date IS NULL OR soa.completed_at >= p_start_date)
+      AND (p_end_date IS NULL OR soa.completed_at <= p_end_date)
+  ),
+  package_counts AS (
+    SELECT p.shipment_id, COUNT(*)::integer AS package_count
+    FROM packages p
+    WHERE p.shipment_id IN (SELECT dt.shipment_id FROM distinct_tasks dt)
+    GROUP BY p.shipment_id
+  ),
+  categorized AS (
+    SELECT
+      dt.*,
+      get_task_category(dt.title) AS task_category,
+      s.shipment_type AS task_shipment_type,
+      COALESCE(pc.package_count, 0) AS task_package_count
+    FROM distinct_tasks dt
+    JOIN shipments s ON s.id = dt.shipment_id
+    LEFT JOIN package_counts pc ON pc.shipment_id = dt.shipment_id
+  )
+  SELECT
+    c.operator_id,
+    c.shipment_id,
+    c.title,
+    c.task_category,
+    c.intensity,
+    c.is_delivery,
+    c.task_shipment_type,
+    c.task_package_count,
+    c.completed_at,
+    ws.version,
+    kpi_task_points(ws, c.intensity, c.task_category, c.task_shipment_type, c.task_package_count)
+  FROM categorized c
+  CROSS JOIN LATERAL kpi_weight_set_for(p_weight_version, c.completed_at) ws;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+GRANT EXECUTE ON FUNCTION kpi_scored_tasks TO authenticated;
+
+COMMENT ON FUNCTION kpi_scored_tasks IS 'Distinct completed tasks per operator with their KPI points. p_weight_version NULL scores each task with the weight set effective on its completion day; a version scores every task with that set.';
+
+-- ============================================
+-- Publish a weight set version
+-- ============================================
+
+CREATE OR REPLACE FUNCTION create_kpi_weight_set(
+  p_name text,
+  p_effective_from date,
+  p_intensity_points jsonb,
+  p_category_points jsonb DEFAULT '{}'::jsonb,
+  p_shipment_type_points jsonb DEFAULT '{}'::jsonb,
+  p_points_per_package numeric DEFAULT 0,
+  p_max_package_points numeric DEFAULT NULL,
+  p_notes text DEFAULT ''
+)
+RETURNS kpi_weight_sets AS $$
+DECLARE
+  v_weight_set kpi_weight_sets;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'super_admin')
+  ) THEN
+    RAISE EXCEPTION 'Permission denied: Only admins can publish KPI weight sets';
+  END IF;
+
+  IF trim(COALESCE(p_name, '')) = '' THEN
+    RAISE EXCEPTION 'A weight set needs a name';
+  END IF;
+
+  IF p_effective_from IS NULL THEN
+    RAISE EXCEPTION 'A weight set needs an effective-from date';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_object_keys(COALESCE(p_intensity_points, '{}'::jsonb)) k
+    WHERE k NOT IN ('low', 'medium', 'high')
+  ) THEN
+    RAISE EXCEPTION 'Intensity points may only be set for low, medium and high';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_object_keys(COALESCE(p_shipment_type_points, '{}'::jsonb)) k
+    WHERE k NOT IN ('incoming', 'outgoing', 'general')
+  ) THEN
+    RAISE EXCEPTION 'Shipment type points may only be set for incoming, outgoing and general';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM (
+      SELECT value FROM jsonb_each(COALESCE(p_intensity_points, '{}'::jsonb))
+      UNION ALL
+      SELECT value FROM jsonb_each(COALESCE(p_category_points, '{}'::jsonb))
+      UNION ALL
+      SELECT value FROM jsonb_each(COALESCE(p_shipment_type_points, '{}'::jsonb))
+    ) weights
+    WHERE CASE
+      WHEN jsonb_typeof(weights.value) = 'number' THEN weights.value::text::numeric < 0
+      ELSE true
+    END
+  ) THEN
+    RAISE EXCEPTION 'Points must be numbers of zero or more';
+  END IF;
+
+  INSERT INTO kpi_weight_sets (
+    version,
+    name,
+    effective_from,
+    intensity_points,
+    category_points,
+    shipment_type_points,
+    points_per_package,
+    max_package_points,
+    notes,
+    created_by
+  )
+  SELECT
+    COALESCE(MAX(version), 0) + 1,
+    trim(p_name),
+    p_effective_from,
+    COALESCE(p_intensity_points, '{}'::jsonb),
+    COALESCE(p_category_points, '{}'::jsonb),
+    COALESCE(p_shipment_type_points, '{}'::jsonb),
+    COALESCE(p_points_per_package, 0),
+    p_max_package_points,
+    COALESCE(p_notes, ''),
+    auth.uid()
+  FROM kpi_weight_sets
+  RETURNING * INTO v_weight_set;
+
+  RETURN v_weight_set;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION create_kpi_weight_set TO authenticated;
+
+COMMENT ON FUNCTION create_kpi_weight_set IS 'Publishes the next KPI weight set version. Weight sets are immutable; changing the scoring model means publishing a new version.';
+
+-- ============================================
+-- Performance functions scored by weight set
+-- ============================================
+
+DROP FUNCTION IF EXISTS get_operator_performance(uuid);
+DROP FUNCTION IF EXISTS get_filtered_operator_performance(timestamptz, timestamptz);
+DROP FUNCTION IF EXISTS get_category_statistics();
+DROP FUNCTION IF EXISTS get_total_shipment_stats(timestamptz, timestamptz);
+
+CREATE FUNCTION get_filtered_operator_performance(
+  p_start_date timestamptz DEFAULT NULL,
+  p_end_date timestamptz DEFAULT NULL,
+  p_weight_version integer DEFAULT NULL
+)
+RETURNS TABLE (
+  operator_id uuid,
+  operator_name text,
+  operator_color text,
+  active boolean,
+  rank bigint,
+  total_completed_tasks bigint,
+  total_score numeric,
+  avg_score_per_task numeric,
+  high_intensity_count bigint,
+  medium_intensity_count bigint,
+  low_intensity_count bigint,
+  active_days bigint,
+  first_completion_date timestamptz,
+  last_completion_date timestamptz,
+  category_breakdown json,
+  weight_versions integer[]
+) AS $$
+BEGIN
+  IF NOT can_view_kpi_data() THEN
+    RAISE EXCEPTION 'Permission denied: Only admins can view KPI data';
+  END IF;
+
+  RETURN QUERY
+  WITH scored AS (
+    SELECT * FROM kpi_scored_tasks(p_start_date, p_end_date, p_weight_version)
+  ),
+  operator_stats AS (
+    SELECT
+      o.id as op_id,
+      o.name as op_name,
+      o.color as op_color,
+      o.active as op_active,
+      COUNT(*) as total_tasks,
+      SUM(st.points) as total_points,
+      COUNT(*) FILTER (WHERE st.intensity = 'high') as high_count,
+      COUNT(*) FILTER (WHERE st.intensity = 'medium') as medium_count,
+      COUNT(*) FILTER (WHERE st.intensity = 'low') as low_count,
+      COUNT(DISTINCT DATE(st.completed_at)) as days_active,
+      MIN(st.completed_at) as first_date,
+      MAX(st.completed_at) as last_date,
+      array_agg(DISTINCT st.weight_version ORDER BY st.weight_version) as versions
+    FROM operators o
+    JOIN scored st ON st.operator_id = o.id
+    GROUP BY o.id, o.name, o.color, o.active
+  ),
+  category_stats AS (
+    SELECT
+      st.operator_id as op_id,
+      st.category,
+      COUNT(*) as task_count,
+      SUM(st.points) as category_score,
+      ROUND(AVG(st.points)::numeric, 2) as avg_points,
+      MIN(st.completed_at) as first_completion,
+      MAX(st.completed_at) as last_completion,
+      bool_or(st.is_delivery) as has_delivery
+    FROM scored st
+    GROUP BY st.operator_id, st.category
+  ),
+  category_data AS (
+    SELECT
+      cs.op_id,
+      json_agg(
+        json_build_object(
+          'category', cs.category,
+          'is_delivery', cs.has_delivery,
+          'task_count', cs.task_count,
+          'category_score', cs.category_score,
+          'avg_intensity_score', cs.avg_points,
+          'first_completion', cs.first_completion,
+          'last_completion', cs.last_completion
+        ) ORDER BY cs.category_score DESC
+      ) as categories
+    FROM category_stats cs
+    GROUP BY cs.op_id
+  )
+  SELECT
+    os.op_id,
+    os.op_name,
+    os.op_color,
+    os.op_active,
+    ROW_NUMBER() OVER (ORDER BY os.total_points DESC NULLS LAST, os.total_tasks DESC) as rank,
+    os.total_tasks::bigint,
+    os.total_points::numeric,
+    CASE
+      WHEN os.total_tasks > 0 THEN
+        ROUND((os.total_points::numeric / os.total_tasks)::numeric, 2)
+      ELSE 0
+    END as avg_score,
+    os.high_count::bigint,
+    os.medium_count::bigint,
+    os.low_count::bigint,
+    os.days_active::bigint,
+    os.first_date,
+    os.last_date,
+    COALESCE(cd.categories, '[]'::json) as breakdown,
+    os.versions
+  FROM operator_stats os
+  LEFT JOIN category_data cd ON os.op_id = cd.op_id
+  ORDER BY rank;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+COMMENT ON FUNCTION get_filtered_operator_performance IS 'Returns time-filtered operator performance scored with KPI weight sets. p_weight_version NULL scores each task with the set effective on its completion day; weight_versions lists the sets used.';
+
+CREATE FUNCTION get_operator_performance(
+  p_operator_id uuid DEFAULT NULL,
+  p_weight_version integer DEFAULT NULL
+)
+RETURNS TABLE (
+  operator_id uuid,
+  operator_name text,
+  operator_color text,
+  active boolean,
+  rank bigint,
+  total_completed_tasks bigint,
+  total_score numeric,
+  avg_score_per_task numeric,
+  delivery_tasks bigint,
+  delivery_score numeric,
+  avg_delivery_score numeric,
+  non_delivery_tasks bigint,
+  non_delivery_score numeric,
+  avg_non_delivery_score numeric,
+  high_intensity_count bigint,
+  medium_intensity_count bigint,
+  low_intensity_count bigint,
+  active_days bigint,
+  first_completion_date timestamptz,
+  last_completion_date timestamptz,
+  category_breakdown json,
+  weight_versions integer[]
+) AS $$
+BEGIN
+  IF NOT can_view_kpi_data() THEN
+    RAISE EXCEPTION 'Permission denied: Only admins and users with kpi permission can view KPI data';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    gfop.operator_id,
+    gfop.operator_name,
+    gfop.operator_color,
+    gfop.active,
+    gfop.rank,
+    gfop.total_completed_tasks,
+    gfop.total_score,
+    gfop.avg_score_per_task,
+    0::bigint as delivery_tasks,
+    0::numeric as delivery_score,
+    0::numeric as avg_delivery_score,
+    0::bigint as non_delivery_tasks,
+    0::numeric as non_delivery_score,
+    0::numeric as avg_non_delivery_score,
+    gfop.high_intensity_count,
+    gfop.medium_intensity_count,
+    gfop.low_intensity_count,
+    gfop.active_days,
+    gfop.first_completion_date,
+    gfop.last_completion_date,
+    gfop.category_breakdown,
+    gfop.weight_versions
+  FROM get_filtered_operator_performance(NULL, NULL, p_weight_version) gfop
+  WHERE p_operator_id IS NULL OR gfop.operator_id = p_operator_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+COMMENT ON FUNCTION get_operator_performance IS 'Returns all-time operator performance through get_filtered_operator_performance, optionally under one KPI weight set version.';
+
+CREATE FUNCTION get_category_statistics(p_weight_version integer DEFAULT NULL)
+RETURNS TABLE (
+  task_category text,
+  total_tasks bigint,
+  total_score numeric,
+  unique_operators bigint,
+  avg_tasks_per_operator numeric,
+  avg_score_per_task numeric
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH category_data AS (
+    SELECT
+      st.category,
+      COUNT(*) as task_count,
+      SUM(st.points) as score,
+      COUNT(DISTINCT st.operator_id) as operator_count
+    FROM kpi_scored_tasks(NULL, NULL, p_weight_version) st
+    GROUP BY st.category
+  )
+  SELECT
+    cd.category,
+    cd.task_count::bigint,
+    cd.score::numeric,
+    cd.operator_count::bigint,
+    ROUND((cd.task_count::numeric / NULLIF(cd.operator_count, 0))::numeric, 2) as avg_tasks,
+    ROUND((cd.score::numeric / NULLIF(cd.task_count, 0))::numeric, 2) as avg_score
+  FROM category_data cd
+  ORDER BY cd.score DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+COMMENT ON FUNCTION get_category_statistics IS 'Returns category statistics counting distinct shipments per operator, scored with KPI weight sets.';
+
+CREATE FUNCTION get_total_shipment_stats(
+  p_start_date timestamptz DEFAULT NULL,
+  p_end_date timestamptz DEFAULT NULL,
+  p_weight_version integer DEFAULT NULL
+)
+RETURNS json AS $$
+DECLARE
+  result json;
+  v_total_points numeric;
+BEGIN
+  SELECT COALESCE(SUM(st.points), 0) INTO v_total_points
+  FROM kpi_scored_tasks(p_start_date, p_end_date, p_weight_version) st;
+
+  SELECT json_build_object(
+    'total_shipments', COUNT(DISTINCT s.id),
+    'total_operators', COUNT(DISTINCT o.id),
+    'active_operators', COUNT(DISTINCT o.id) FILTER (WHERE o.active = true),
+    'completed_shipments', COUNT(DISTINCT s.id) FILTER (WHERE s.status = 'completed'),
+    'total_operator_tasks', COUNT(*),
+    'total_points', v_total_points
+  ) INTO result
+  FROM shipments s
+  LEFT JOIN operators o ON o.name = ANY(s.assigned_operators)
+  WHERE
+    (p_start_date IS NULL OR s.completed_at >= p_start_date)
+    AND (p_end_date IS NULL OR s.completed_at <= p_end_date)
+    AND s.status = 'completed'
+    AND s.completed_at IS NOT NULL;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+COMMENT ON FUNCTION get_total_shipment_stats IS 'Returns shipment statistics for a period. total_points is the sum of operator task points under the chosen KPI weight set (NULL = as recorded).';
+
+GRANT EXECUTE ON FUNCTION get_filtered_operator_performance TO authenticated;
+GRANT EXECUTE ON FUNCTION get_operator_performance TO authenticated;
+GRANT EXECUTE ON FUNCTION get_category_statistics TO authenticated;
+GRANT EXECUTE ON FUNCTION get_total_shipment_stats TO authenticated;
+
+COMMENT ON TABLE kpi_weight_sets IS 'Versioned KPI scoring weights. Tasks are scored with the set effective on their completion day unless a version is chosen explicitly.';
@@ -0,0 +1,398 @@
+/*
+  # Shift Filters for KPI Performance
+
+  ## Overview
+  The KPI dashboard could only filter by rolling periods. This migration adds named work
+  shifts (e.g. Early 06:00-14:00, Late 14:00-22:00) and lets the performance functions keep
+  only tasks completed inside a shift. The time of day is taken in the warehouse timezone
+  (app_settings.warehouse_timezone), so a shift means the same hours whatever the browser's
+  or the database's timezone. A shift whose end is before its start runs past midnight.
+
+  ## New Tables
+
+  ### work_shifts
+  - `id` (uuid, primary key)
+  - `name` (text, unique)
+  - `start_time` (time) - Inclusive
+  - `end_time` (time) - Exclusive; equal to start_time for a 24-hour shift
+  - `active` (boolean)
+  - `sort_order` (integer)
+  - `created_at` (timestamptz)
+
+  ## New Functions
+  - `warehouse_timezone()` - The configured timezone, UTC when unset or invalid
+  - `time_in_shift(time, start, end)` - Whether a time of day falls in a shift
+
+  ## Modified Functions
+  The following gain a `p_shift_id` parameter (NULL = any time of day):
+  - `kpi_scored_tasks(start, end, weight_version, shift_id)`
+  - `get_filtered_operator_performance(start, end, weight_version, shift_id)`
+  - `get_total_shipment_stats(start, end, weight_version, shift_id)`
+
+  ## Security
+  - Authenticated users can view shifts; only admins can create, update or delete them
+*/
+
+-- ============================================
+-- Warehouse time helpers
+-- ============================================
+
+CREATE OR REPLACE FUNCTION warehouse_timezone()
+RETURNS text AS $$
+  SELECT COALESCE(
+    (
+      SELECT s.value FROM app_settings s
+      WHERE s.key = 'warehouse_timezone'
+      AND EXISTS (SELECT 1 FROM pg_timezone_names tz WHERE tz.name = s.value)
+    ),
+    'UTC'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION warehouse_timezone TO authenticated;
+
+COMMENT ON FUNCTION warehouse_timezone IS 'The warehouse timezone from app_settings, or UTC when unset or not a known timezone name.';
+
+CREATE OR REPLACE FUNCTION time_in_shift(p_time time, p_start time, p_end time)
+RETURNS boolean AS $$
+  SELECT CASE
+    WHEN p_start < p_end THEN p_time >= p_start AND p_time < p_end
+    -- Overnight shift, or a 24-hour one when start and end are equal
+    ELSE p_time >= p_start OR p_time < p_end
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- Create work_shifts table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS work_shifts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE CHECK (trim(name) != ''),
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE work_shifts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view work shifts"
+  ON work_shifts FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only admins can insert work shifts"
+  ON work_shifts FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Only admins can update work shifts"
+  ON work_shifts FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'super_admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Only admins can delete work shifts"
+  ON work_shifts FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'super_admin')
+    )
+  );
+
+INSERT INTO work_shifts (name, start_time, end_time, sort_order) VALUES
+  ('Early', '06:00', '14:00', 1),
+  ('Late', '14:00', '22:00', 2),
+  ('Night', '22:00', '06:00', 3)
+ON CONFLICT (name) DO NOTHING;
+
+COMMENT ON TABLE work_shifts IS 'Named shifts for KPI filtering. Times are warehouse-local; end_time before start_time means the shift runs past midnight.';
+
+-- ============================================
+-- Shift-aware scoring
+-- ============================================
+
+DROP FUNCTION IF EXISTS kpi_scored_tasks(timestamptz, timestamptz, integer);
+DROP FUNCTION IF EXISTS get_filtered_operator_performance(timestamptz, timestamptz, integer);
+DROP FUNCTION IF EXISTS get_total_shipment_stats(timestamptz, timestamptz, integer);
+
+CREATE FUNCTION kpi_scored_tasks(
+  p_start_date timestamptz DEFAULT NULL,
+  p_end_date timestamptz DEFAULT NULL,
+  p_weight_version integer DEFAULT NULL,
+  p_shift_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  operator_id uuid,
+  shipment_id uuid,
+  title text,
+  category text,
+  intensity text,
+  is_delivery boolean,
+  shipment_type text,
+  package_count integer,
+  completed_at timestamptz,
+  weight_version integer,
+  points numeric
+) AS $$
+DECLARE
+  v_shift work_shifts;
+  v_timezone text := warehouse_timezone();
+BEGIN
+  IF NOT can_view_kpi_data() THEN
+    RAISE EXCEPTION 'Permission denied: Only admins can view KPI data';
+  END IF;
+
+  IF p_weight_version IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM kpi_weight_sets ws WHERE ws.version = p_weight_version
+  ) THEN
+    RAISE EXCEPTION 'KPI weight set version % does not exist', p_weight_version;
+  END IF;
+
+  IF p_shift_id IS NOT NULL THEN
+    SELECT * INTO v_shift FROM work_shifts ws WHERE ws.id = p_shift_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Work shift % does not exist', p_shift_id;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  WITH distinct_tasks AS (
+    SELECT DISTINCT ON (soa.operator_id, soa.shipment_id)
+      soa.operator_id,
+      soa.shipment_id,
+      soa.title,
+      soa.intensity,
+      soa.is_delivery,
+      soa.completed_at
+    FROM shipment_operator_assignments soa
+    WHERE
+      soa.status = 'completed'
+      AND soa.completed_at IS NOT NULL
+      AND soa.operator_id IS NOT NULL
+      AND (p_start_date IS NULL OR soa.completed_at >= p_start_date)
+      AND (p_end_date IS NULL OR soa.completed_at <= p_end_date)
+      AND (
+        p_shift_id IS NULL
+        OR time_in_shift((soa.completed_at AT TIME ZONE v_timezone)::time, v_shift.start_time, v_shift.end_time)
+      )
+  ),
+  package_counts AS (
+    SELECT p.shipment_id, COUNT(*)::integer AS package_count
+    FROM packages p
+    WHERE p.shipment_id IN (SELECT dt.shipment_id FROM distinct_tasks dt)
+    GROUP BY p.shipment_id
+  ),
+  categorized AS (
+    SELECT
+      dt.*,
+      get_task_category(dt.title) AS task_category,
+      s.shipment_type AS task_shipment_type,
+      COALESCE(pc.package_count, 0) AS task_package_count
+    FROM distinct_tasks dt
+    JOIN shipments s ON s.id = dt.shipment_id
+    LEFT JOIN package_counts pc ON pc.shipment_id = dt.shipment_id
+  )
+  SELECT
+    c.operator_id,
+    c.shipment_id,
+    c.title,
+    c.task_category,
+    c.intensity,
+    c.is_delivery,
+    c.task_shipment_type,
+    c.task_package_count,
+    c.completed_at,
+    ws.version,
+    kpi_task_points(ws, c.intensity, c.task_category, c.task_shipment_type, c.task_package_count)
+  FROM categorized c
+  CROSS JOIN LATERAL kpi_weight_set_for(p_weight_version, c.completed_at) ws;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+GRANT EXECUTE ON FUNCTION kpi_scored_tasks TO authenticated;
+
+COMMENT ON FUNCTION kpi_scored_tasks IS 'Distinct completed tasks per operator with their KPI points. p_weight_version NULL scores each task with the weight set effective on its completion day; p_shift_id keeps tasks completed inside that shift (warehouse time).';
+
+CREATE FUNCTION get_filtered_operator_performance(
+  p_start_date timestamptz DEFAULT NULL,
+  p_end_date timestamptz DEFAULT NULL,
+  p_weight_version integer DEFAULT NULL,
+  p_shift_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  operator_id uuid,
+  operator_name text,
+  operator_color text,
+  active boolean,
+  rank bigint,
+  total_completed_tasks bigint,
+  total_score numeric,
+  avg_score_per_task numeric,
+  high_intensity_count bigint,
+  medium_intensity_count bigint,
+  low_intensity_count bigint,
+  active_days bigint,
+  first_completion_date timestamptz,
+  last_completion_date timestamptz,
+  category_breakdown json,
+  weight_versions integer[]
+) AS $$
+BEGIN
+  IF NOT can_view_kpi_data() THEN
+    RAISE EXCEPTION 'Permission denied: Only admins can view KPI data';
+  END IF;
+
+  RETURN QUERY
+  WITH scored AS (
+    SELECT * FROM kpi_scored_tasks(p_start_date, p_end_date, p_weight_version, p_shift_id)
+  ),
+  operator_stats AS (
+    SELECT
+      o.id as op_id,
+      o.name as op_name,
+      o.color as op_color,
+      o.active as op_active,
+      COUNT(*) as total_tasks,
+      SUM(st.points) as total_points,
+      COUNT(*) FILTER (WHERE st.intensity = 'high') as high_count,
+      COUNT(*) FILTER (WHERE st.intensity = 'medium') as medium_count,
+      COUNT(*) FILTER (WHERE st.intensity = 'low') as low_count,
+      COUNT(DISTINCT DATE(st.completed_at)) as days_active,
+      MIN(st.completed_at) as first_date,
+      MAX(st.completed_at) as last_date,
+      array_agg(DISTINCT st.weight_version ORDER BY st.weight_version) as versions
+    FROM operators o
+    JOIN scored st ON st.operator_id = o.id
+    GROUP BY o.id, o.name, o.color, o.active
+  ),
+  category_stats AS (
+    SELECT
+      st.operator_id as op_id,
+      st.category,
+      COUNT(*) as task_count,
+      SUM(st.points) as category_score,
+      ROUND(AVG(st.points)::numeric, 2) as avg_points,
+      MIN(st.completed_at) as first_completion,
+      MAX(st.completed_at) as last_completion,
+      bool_or(st.is_delivery) as has_delivery
+    FROM scored st
+    GROUP BY st.operator_id, st.category
+  ),
+  category_data AS (
+    SELECT
+      cs.op_id,
+      json_agg(
+        json_build_object(
+          'category', cs.category,
+          'is_delivery', cs.has_delivery,
+          'task_count', cs.task_count,
+          'category_score', cs.category_score,
+          'avg_intensity_score', cs.avg_points,
+          'first_completion', cs.first_completion,
+          'last_completion', cs.last_completion
+        ) ORDER BY cs.category_score DESC
+      ) as categories
+    FROM category_stats cs
+    GROUP BY cs.op_id
+  )
+  SELECT
+    os.op_id,
+    os.op_name,
+    os.op_color,
+    os.op_active,
+    ROW_NUMBER() OVER (ORDER BY os.total_points DESC NULLS LAST, os.total_tasks DESC) as rank,
+    os.total_tasks::bigint,
+    os.total_points::numeric,
+    CASE
+      WHEN os.total_tasks > 0 THEN
+        ROUND((os.total_points::numeric / os.total_tasks)::numeric, 2)
+      ELSE 0
+    END as avg_score,
+    os.high_count::bigint,
+    os.medium_count::bigint,
+    os.low_count::bigint,
+    os.days_active::bigint,
+    os.first_date,
+    os.last_date,
+    COALESCE(cd.categories, '[]'::json) as breakdown,
+    os.versions
+  FROM operator_stats os
+  LEFT JOIN category_data cd ON os.op_id = cd.op_id
+  ORDER BY rank;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+COMMENT ON FUNCTION get_filtered_operator_performance IS 'Returns operator performance for tasks completed between two instants and, optionally, inside a work shift, scored with KPI weight sets (p_weight_version NULL = as recorded).';
+
+CREATE FUNCTION get_total_shipment_stats(
+  p_start_date timestamptz DEFAULT NULL,
+  p_end_date timestamptz DEFAULT NULL,
+  p_weight_version integer DEFAULT NULL,
+  p_shift_id uuid DEFAULT NULL
+)
+RETURNS json AS $$
+DECLARE
+  result json;
+  v_total_points numeric;
+  v_shift work_shifts;
+  v_timezone text := warehouse_timezone();
+BEGIN
+  SELECT COALESCE(SUM(st.points), 0) INTO v_total_points
+  FROM kpi_scored_tasks(p_start_date, p_end_date, p_weight_version, p_shift_id) st;
+
+  IF p_shift_id IS NOT NULL THEN
+    SELECT * INTO v_shift FROM work_shifts WHERE id = p_shift_id;
+  END IF;
+
+  SELECT json_build_object(
+    'total_shipments', COUNT(DISTINCT s.id),
+    'total_operators', COUNT(DISTINCT o.id),
+    'active_operators', COUNT(DISTINCT o.id) FILTER (WHERE o.active = true),
+    'completed_shipments', COUNT(DISTINCT s.id) FILTER (WHERE s.status = 'completed'),
+    'total_operator_tasks', COUNT(*),
+    'total_points', v_total_points
+  ) INTO result
+  FROM shipments s
+  LEFT JOIN operators o ON o.name = ANY(s.assigned_operators)
+  WHERE
+    (p_start_date IS NULL OR s.completed_at >= p_start_date)
+    AND (p_end_date IS NULL OR s.completed_at <= p_end_date)
+    AND (
+      p_shift_id IS NULL
+      OR time_in_shift((s.completed_at AT TIME ZONE v_timezone)::time, v_shift.start_time, v_shift.end_time)
+    )
+    AND s.status = 'completed'
+    AND s.completed_at IS NOT NULL;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+COMMENT ON FUNCTION get_total_shipment_stats IS 'Returns shipment statistics for a period and optional work shift. total_points is the sum of operator task points under the chosen KPI weight set (NULL = as recorded).';
+
+GRANT EXECUTE ON FUNCTION get_filtered_operator_performance TO authenticated;
+GRANT EXECUTE ON FUNCTION get_total_shipment_stats TO authenticated;
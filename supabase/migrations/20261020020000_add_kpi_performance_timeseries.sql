@@ -0,0 +1,114 @@
+/*
+  # Operator Performance Time Series
+
+  ## Overview
+  The performance functions only return totals for a period (total_score, active_days,
+  first/last completion), which hides whether an operator is improving or declining. This
+  migration adds a function that returns the same scored tasks bucketed per warehouse day
+  or ISO week, per operator, with a category breakdown for each bucket.
+
+  ## New Functions
+  - `get_operator_performance_timeseries(start, end, bucket, weight_version, shift_id)`
+    - `p_bucket` is 'day' or 'week' (weeks start on Monday)
+    - One row per operator and bucket the operator completed tasks in; empty buckets
+      are left to the caller
+    - `active_hours` counts the warehouse clock hours in which the operator completed
+      at least one task, so score per active hour does not reward long idle spans
+
+  ## Security
+  - Requires KPI access, like the other performance functions
+
+  ## Important Notes
+  1. Buckets are calendar days or weeks in the warehouse timezone
+  2. Filters and scoring match `get_filtered_operator_performance`, so summing the
+     buckets of a period gives that period's totals
+*/
+
+CREATE OR REPLACE FUNCTION get_operator_performance_timeseries(
+  p_start_date timestamptz DEFAULT NULL,
+  p_end_date timestamptz DEFAULT NULL,
+  p_bucket text DEFAULT 'day',
+  p_weight_version integer DEFAULT NULL,
+  p_shift_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  bucket_start date,
+  operator_id uuid,
+  operator_name text,
+  operator_color text,
+  task_count bigint,
+  score numeric,
+  active_hours bigint,
+  category_breakdown json
+) AS $$
+DECLARE
+  v_timezone text := warehouse_timezone();
+BEGIN
+  IF NOT can_view_kpi_data() THEN
+    RAISE EXCEPTION 'Permission denied: Only admins can view KPI data';
+  END IF;
+
+  IF p_bucket NOT IN ('day', 'week') THEN
+    RAISE EXCEPTION 'Invalid bucket %: expected day or week', p_bucket;
+  END IF;
+
+  RETURN QUERY
+  WITH scored AS (
+    SELECT
+      st.*,
+      (st.completed_at AT TIME ZONE v_timezone) as local_completed_at
+    FROM kpi_scored_tasks(p_start_date, p_end_date, p_weight_version, p_shift_id) st
+  ),
+  bucketed AS (
+    SELECT
+      s.*,
+      date_trunc(p_bucket, s.local_completed_at)::date as bucket
+    FROM scored s
+  ),
+  operator_buckets AS (
+    SELECT
+      b.operator_id as op_id,
+      b.bucket,
+      COUNT(*) as tasks,
+      SUM(b.points) as points,
+      COUNT(DISTINCT date_trunc('hour', b.local_completed_at)) as hours
+    FROM bucketed b
+    GROUP BY b.operator_id, b.bucket
+  ),
+  category_buckets AS (
+    SELECT
+      b.operator_id as op_id,
+      b.bucket,
+      json_agg(
+        json_build_object(
+          'category', b.category,
+          'task_count', b.tasks,
+          'category_score', b.points
+        ) ORDER BY b.points DESC
+      ) as categories
+    FROM (
+      SELECT bk.operator_id, bk.bucket, bk.category, COUNT(*) as tasks, SUM(bk.points) as points
+      FROM bucketed bk
+      GROUP BY bk.operator_id, bk.bucket, bk.category
+    ) b
+    GROUP BY b.operator_id, b.bucket
+  )
+  SELECT
+    ob.bucket,
+    o.id,
+    o.name,
+    o.color,
+    ob.tasks::bigint,
+    ob.points::numeric,
+    ob.hours::bigint,
+    COALESCE(cb.categories, '[]'::json)
+  FROM operator_buckets ob
+  JOIN operators o ON o.id = ob.op_id
+  LEFT JOIN category_buckets cb ON cb.op_id = ob.op_id AND cb.bucket = ob.bucket
+  ORDER BY ob.bucket, o.name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+GRANT EXECUTE ON FUNCTION get_operator_performance_timeseries TO authenticated;
+
+COMMENT ON FUNCTION get_operator_performance_timeseries IS 'Operator performance per warehouse day or ISO week with a category breakdown per bucket, scored and filtered like get_filtered_operator_performance.';
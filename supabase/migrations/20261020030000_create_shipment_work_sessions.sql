@@ -0,0 +1,320 @@
+/*
+  # Shipment Work Sessions and Handling Time
+
+  ## Overview
+  Only `completed_at` was stored for a task, so there was no way to tell how long it took.
+  This migration records work sessions per shipment and operator: a session starts when an
+  operator starts (or resumes) work and ends when they pause, are unassigned or the shipment
+  is completed. Sessions are recorded automatically from shipment status changes, and can be
+  started and paused explicitly per operator. Handling time is the sum of an operator's
+  sessions on a shipment, so pauses are not counted.
+
+  ## New Tables
+
+  ### shipment_work_sessions
+  - `id` (uuid, primary key)
+  - `shipment_id` (uuid, foreign key) - Shipment worked on
+  - `operator_id` (uuid, foreign key) - Operator doing the work
+  - `started_at` (timestamptz)
+  - `ended_at` (timestamptz, nullable) - NULL while the session is open
+  - `end_reason` (text, nullable) - paused | completed | unassigned
+  - `started_by` / `ended_by` (uuid, nullable) - auth.uid() of the user recording the change
+  - `created_at` (timestamptz)
+
+  At most one open session per shipment and operator.
+
+  ## Automatic Sessions
+  Trigger `sync_shipment_work_sessions` on shipments:
+  - Status becomes in_progress → a session opens for every assigned operator
+  - Status goes back to pending → open sessions are paused
+  - Status becomes completed → open sessions end at completed_at
+  - An operator removed from the shipment → their open session ends as unassigned
+  - An operator added while in progress → a session opens for them
+
+  ## New Functions
+  - `start_work_session(shipment_id, operator_id)` - Start or resume one operator; moves a
+    pending shipment to in_progress without starting the other operators
+  - `pause_work_session(shipment_id, operator_id)` - Pause one operator
+  - `get_task_handling_times(start, end, shift_id, outlier_factor)` - Handling time per
+    completed task and operator, with the category medians and an outlier flag
+
+  ## Security
+  - Authenticated users can view sessions; rows are only written by the trigger and RPCs
+  - Handling times require KPI access
+
+  ## Important Notes
+  1. Tasks completed without any recorded session have no handling time and are left out
+  2. A task is an outlier when its handling time is more than `outlier_factor` times the
+     category median (slow) or less than the median divided by it (fast). Categories with
+     fewer than 5 timed tasks have no outliers, since their median means little
+  3. Restores (`app.restore_in_progress`) do not open or close sessions
+*/
+
+-- ============================================
+-- Create shipment_work_sessions table
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS shipment_work_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shipment_id uuid NOT NULL REFERENCES shipments(id) ON DELETE CASCADE,
+  operator_id uuid NOT NULL REFERENCES operators(id) ON DELETE CASCADE,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  ended_at timestamptz,
+  end_reason text CHECK (end_reason IN ('paused', 'completed', 'unassigned')),
+  started_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ended_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT shipment_work_sessions_end_check CHECK (
+    (ended_at IS NULL AND end_reason IS NULL)
+    OR (ended_at IS NOT NULL AND end_reason IS NOT NULL AND ended_at >= started_at)
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shipment_work_sessions_open
+  ON shipment_work_sessions(shipment_id, operator_id)
+  WHERE ended_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_shipment_work_sessions_shipment
+  ON shipment_work_sessions(shipment_id, started_at);
+
+CREATE INDEX IF NOT EXISTS idx_shipment_work_sessions_operator
+  ON shipment_work_sessions(operator_id, started_at);
+
+ALTER TABLE shipment_work_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view work sessions"
+  ON shipment_work_sessions FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- ============================================
+-- Automatic sessions from shipment changes
+-- ============================================
+
+CREATE OR REPLACE FUNCTION sync_shipment_work_sessions()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old_status text := CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.status END;
+  v_old_operators text[] := CASE WHEN TG_OP = 'INSERT' THEN '{}'::text[] ELSE COALESCE(OLD.assigned_operators, '{}') END;
+  v_new_operators text[] := COALESCE(NEW.assigned_operators, '{}');
+BEGIN
+  IF COALESCE(current_setting('app.restore_in_progress', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Operators taken off the shipment stop working on it
+  UPDATE shipment_work_sessions ws
+  SET ended_at = GREATEST(ws.started_at, now()), end_reason = 'unassigned', ended_by = auth.uid()
+  FROM operators o
+  WHERE ws.shipment_id = NEW.id
+    AND ws.ended_at IS NULL
+    AND o.id = ws.operator_id
+    AND NOT (o.name = ANY(v_new_operators));
+
+  IF NEW.status = 'completed' AND v_old_status IS DISTINCT FROM 'completed' THEN
+    UPDATE shipment_work_sessions ws
+    SET ended_at = GREATEST(ws.started_at, COALESCE(NEW.completed_at, now())),
+        end_reason = 'completed',
+        ended_by = auth.uid()
+    WHERE ws.shipment_id = NEW.id AND ws.ended_at IS NULL;
+
+  ELSIF NEW.status = 'pending' AND v_old_status = 'in_progress' THEN
+    UPDATE shipment_work_sessions ws
+    SET ended_at = GREATEST(ws.started_at, now()), end_reason = 'paused', ended_by = auth.uid()
+    WHERE ws.shipment_id = NEW.id AND ws.ended_at IS NULL;
+
+  -- start_work_session moves the shipment in progress for one operator only
+  ELSIF NEW.status = 'in_progress'
+    AND COALESCE(current_setting('app.work_session_manual', true), '') != 'on' THEN
+    INSERT INTO shipment_work_sessions (shipment_id, operator_id, started_by)
+    SELECT NEW.id, o.id, auth.uid()
+    FROM operators o
+    WHERE o.name = ANY(v_new_operators)
+      -- Everyone starts on the status change, later only newly assigned operators
+      AND (v_old_status IS DISTINCT FROM 'in_progress' OR NOT (o.name = ANY(v_old_operators)))
+      AND NOT EXISTS (
+        SELECT 1 FROM shipment_work_sessions ws
+        WHERE ws.shipment_id = NEW.id AND ws.operator_id = o.id AND ws.ended_at IS NULL
+      );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_sync_shipment_work_sessions ON shipments;
+CREATE TRIGGER trigger_sync_shipment_work_sessions
+  AFTER INSERT OR UPDATE OF status, assigned_operators ON shipments
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_shipment_work_sessions();
+
+-- ============================================
+-- Explicit start / pause
+-- ============================================
+
+CREATE OR REPLACE FUNCTION start_work_session(p_shipment_id uuid, p_operator_id uuid)
+RETURNS shipment_work_sessions AS $$
+DECLARE
+  v_shipment shipments;
+  v_session shipment_work_sessions;
+BEGIN
+  SELECT * INTO v_shipment FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment % not found', p_shipment_id;
+  END IF;
+
+  IF v_shipment.status = 'completed' THEN
+    RAISE EXCEPTION 'Shipment % is already completed', v_shipment.title;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM operators o
+    WHERE o.id = p_operator_id AND o.name = ANY(COALESCE(v_shipment.assigned_operators, '{}'))
+  ) THEN
+    RAISE EXCEPTION 'Operator is not assigned to shipment %', v_shipment.title;
+  END IF;
+
+  SELECT * INTO v_session FROM shipment_work_sessions
+  WHERE shipment_id = p_shipment_id AND operator_id = p_operator_id AND ended_at IS NULL;
+
+  IF FOUND THEN
+    RETURN v_session;
+  END IF;
+
+  INSERT INTO shipment_work_sessions (shipment_id, operator_id, started_by)
+  VALUES (p_shipment_id, p_operator_id, auth.uid())
+  RETURNING * INTO v_session;
+
+  IF v_shipment.status = 'pending' THEN
+    PERFORM set_config('app.work_session_manual', 'on', true);
+    UPDATE shipments SET status = 'in_progress', updated_at = now() WHERE id = p_shipment_id;
+    PERFORM set_config('app.work_session_manual', '', true);
+  END IF;
+
+  RETURN v_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION start_work_session TO authenticated;
+
+COMMENT ON FUNCTION start_work_session IS 'Starts or resumes work on a shipment for one assigned operator, moving a pending shipment to in_progress. Returns the open session.';
+
+CREATE OR REPLACE FUNCTION pause_work_session(p_shipment_id uuid, p_operator_id uuid)
+RETURNS shipment_work_sessions AS $$
+DECLARE
+  v_session shipment_work_sessions;
+BEGIN
+  UPDATE shipment_work_sessions
+  SET ended_at = GREATEST(started_at, now()), end_reason = 'paused', ended_by = auth.uid()
+  WHERE shipment_id = p_shipment_id AND operator_id = p_operator_id AND ended_at IS NULL
+  RETURNING * INTO v_session;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No work in progress for this operator on shipment %', p_shipment_id;
+  END IF;
+
+  RETURN v_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION pause_work_session TO authenticated;
+
+COMMENT ON FUNCTION pause_work_session IS 'Ends the open work session of one operator on a shipment as paused.';
+
+-- ============================================
+-- Handling time KPIs
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_task_handling_times(
+  p_start_date timestamptz DEFAULT NULL,
+  p_end_date timestamptz DEFAULT NULL,
+  p_shift_id uuid DEFAULT NULL,
+  p_outlier_factor numeric DEFAULT 2
+)
+RETURNS TABLE (
+  operator_id uuid,
+  operator_name text,
+  operator_color text,
+  shipment_id uuid,
+  title text,
+  category text,
+  package_count integer,
+  completed_at timestamptz,
+  session_count bigint,
+  handling_minutes numeric,
+  minutes_per_package numeric,
+  category_task_count bigint,
+  category_median_minutes numeric,
+  category_median_minutes_per_package numeric,
+  outlier text
+) AS $$
+DECLARE
+  v_min_category_tasks constant integer := 5;
+BEGIN
+  IF NOT can_view_kpi_data() THEN
+    RAISE EXCEPTION 'Permission denied: Only admins can view KPI data';
+  END IF;
+
+  IF p_outlier_factor IS NULL OR p_outlier_factor <= 1 THEN
+    RAISE EXCEPTION 'Outlier factor must be greater than 1';
+  END IF;
+
+  RETURN QUERY
+  WITH tasks AS (
+    SELECT st.operator_id, st.shipment_id, st.title, st.category, st.package_count, st.completed_at
+    FROM kpi_scored_tasks(p_start_date, p_end_date, NULL, p_shift_id) st
+  ),
+  timed AS (
+    SELECT
+      t.*,
+      COUNT(ws.id) as sessions,
+      (EXTRACT(EPOCH FROM SUM(ws.ended_at - ws.started_at)) / 60)::numeric as minutes
+    FROM tasks t
+    JOIN shipment_work_sessions ws
+      ON ws.shipment_id = t.shipment_id
+      AND ws.operator_id = t.operator_id
+      AND ws.ended_at IS NOT NULL
+    GROUP BY t.operator_id, t.shipment_id, t.title, t.category, t.package_count, t.completed_at
+    HAVING SUM(ws.ended_at - ws.started_at) > interval '0'
+  ),
+  medians AS (
+    SELECT
+      tm.category as cat,
+      COUNT(*) as task_count,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY tm.minutes) as median_minutes,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY tm.minutes / tm.package_count)
+        FILTER (WHERE tm.package_count > 0) as median_per_package
+    FROM timed tm
+    GROUP BY tm.category
+  )
+  SELECT
+    o.id,
+    o.name,
+    o.color,
+    tm.shipment_id,
+    tm.title,
+    tm.category,
+    tm.package_count,
+    tm.completed_at,
+    tm.sessions::bigint,
+    ROUND(tm.minutes::numeric, 1),
+    CASE WHEN tm.package_count > 0 THEN ROUND((tm.minutes / tm.package_count)::numeric, 2) END,
+    m.task_count::bigint,
+    ROUND(m.median_minutes::numeric, 1),
+    ROUND(m.median_per_package::numeric, 2),
+    CASE
+      WHEN m.task_count < v_min_category_tasks THEN NULL
+      WHEN tm.minutes > m.median_minutes * p_outlier_factor THEN 'slow'
+      WHEN tm.minutes < m.median_minutes / p_outlier_factor THEN 'fast'
+    END
+  FROM timed tm
+  JOIN operators o ON o.id = tm.operator_id
+  JOIN medians m ON m.cat = tm.category
+  ORDER BY tm.completed_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+GRANT EXECUTE ON FUNCTION get_task_handling_times TO authenticated;
+
+COMMENT ON FUNCTION get_task_handling_times IS 'Handling time per completed task and operator from their work sessions, with category medians and a slow/fast outlier flag against the category median.';
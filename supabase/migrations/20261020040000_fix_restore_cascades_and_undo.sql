@@ -0,0 +1,339 @@
+/*
+  # Fix Restore Cascades and Undo Scope
+
+  ## Overview
+  Two problems with `apply_restore` and `undo_restore`:
+  - The safety snapshot only covered the tables chosen in the wizard, but deleting a
+    shipment also deletes its packages, deviations, sync conflicts and work sessions through
+    ON DELETE CASCADE, and detaches its package status history (SET NULL). Undo could not
+    bring any of that back.
+  - Undo deleted every row of the snapshotted tables that was not in the snapshot, so shipments,
+    packages or operators created after the restore were wiped along with the restored ones.
+
+  `apply_restore` now follows the foreign keys from every deleted row and stores the rows the
+  cascade deletes or detaches, and records which ids it inserted, updated and deleted together
+  with the rows as it left them. `undo_restore` only deletes the ids the restore inserted, puts
+  back the rows it updated or deleted, re-inserts the cascaded rows, and refuses to run when
+  rows it wrote were changed since or rows created since depend on them.
+
+  ## Modified Tables
+  `backup_snapshots` gains:
+  - `restored` (jsonb) - Per table `{ inserted, updated, deleted, rows }`: ids by outcome and
+    the rows as the restore left them
+  - `cascaded` (jsonb) - `[{ table, rows }]`, parents first: rows deleted by a cascade (full
+    row) or detached by SET NULL (`id` and the nulled column)
+  - `undoable` (boolean) - Set on snapshots taken by `apply_restore`
+
+  ## New Functions
+  - `restore_cascade_rows(p_table, p_ids)` - Rows in other tables that deleting `p_ids` from
+    `p_table` would delete or modify, following ON DELETE CASCADE recursively
+
+  ## Changed Functions
+  - `apply_restore` - Also records `restored` and `cascaded`; the result gains `cascaded`,
+    the number of cascaded rows per table
+  - `undo_restore` - Limited to the rows the restore touched, see above
+
+  ## Security
+  - No change: restore functions remain limited to admins; the new helper is internal
+
+  ## Important Notes
+  - Snapshots taken before this migration and snapshots taken before an undo are not undoable;
+    they can still be downloaded and restored through the wizard
+  - Hash-chained logs (`shipment_audit_log`, `deviation_history`) have no foreign keys, so
+    deletes never cascade into them
+*/
+
+ALTER TABLE backup_snapshots ADD COLUMN IF NOT EXISTS restored jsonb;
+ALTER TABLE backup_snapshots ADD COLUMN IF NOT EXISTS cascaded jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE backup_snapshots ADD COLUMN IF NOT EXISTS undoable boolean NOT NULL DEFAULT false;
+
+-- ============================================
+-- Helpers
+-- ============================================
+
+CREATE OR REPLACE FUNCTION restore_cascade_rows(p_table text, p_ids uuid[], p_depth integer DEFAULT 1)
+RETURNS TABLE (
+  cascade_table text,
+  cascade_depth integer,
+  cascade_row jsonb
+) AS $$
+DECLARE
+  v_fk record;
+  v_rows jsonb;
+BEGIN
+  IF p_ids IS NULL OR cardinality(p_ids) = 0 OR p_depth > 10 THEN
+    RETURN;
+  END IF;
+
+  FOR v_fk IN
+    SELECT cl.relname::text AS child_table, a.attname::text AS child_column, c.confdeltype
+    FROM pg_constraint c
+    JOIN pg_class cl ON cl.oid = c.conrelid
+    JOIN pg_namespace n ON n.oid = cl.relnamespace AND n.nspname = 'public'
+    JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = c.conkey[1]
+    WHERE c.contype = 'f'
+    AND c.confrelid = format('public.%I', p_table)::regclass
+    AND c.confdeltype IN ('c', 'n', 'd')
+    AND cardinality(c.conkey) = 1
+    ORDER BY cl.relname
+  LOOP
+    -- Deleted rows are kept whole; detached rows only need the column put back
+    EXECUTE format(
+      'SELECT COALESCE(jsonb_agg(%s), ''[]''::jsonb) FROM %I t WHERE t.%I = ANY($1)',
+      CASE WHEN v_fk.confdeltype = 'c'
+        THEN 'to_jsonb(t)'
+        ELSE format('jsonb_build_object(''id'', t.id, %L, t.%I)', v_fk.child_column, v_fk.child_column)
+      END,
+      v_fk.child_table,
+      v_fk.child_column
+    ) INTO v_rows USING p_ids;
+
+    IF jsonb_array_length(v_rows) = 0 THEN
+      CONTINUE;
+    END IF;
+
+    RETURN QUERY SELECT v_fk.child_table, p_depth, r FROM jsonb_array_elements(v_rows) r;
+
+    IF v_fk.confdeltype = 'c' THEN
+      RETURN QUERY SELECT * FROM restore_cascade_rows(
+        v_fk.child_table,
+        ARRAY(SELECT (r->>'id')::uuid FROM jsonb_array_elements(v_rows) r),
+        p_depth + 1
+      );
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- RPCs
+-- ============================================
+
+CREATE OR REPLACE FUNCTION apply_restore(p_changes jsonb, p_source_name text DEFAULT '')
+RETURNS jsonb AS $$
+DECLARE
+  v_tables text[];
+  v_table text;
+  v_change jsonb;
+  v_snapshot_id uuid;
+  v_count integer;
+  v_summary jsonb := '{}'::jsonb;
+  v_upsert_ids uuid[];
+  v_existing uuid[];
+  v_delete_ids uuid[];
+  v_rows jsonb;
+  v_restored jsonb := '{}'::jsonb;
+  v_cascade jsonb := '[]'::jsonb;
+  v_cascaded jsonb;
+BEGIN
+  PERFORM assert_restore_admin();
+
+  SELECT array_agg(t ORDER BY array_position(restorable_tables(), t))
+  INTO v_tables
+  FROM (SELECT DISTINCT c->>'table' AS t FROM jsonb_array_elements(p_changes) c) tables;
+
+  IF v_tables IS NULL THEN
+    RAISE EXCEPTION 'Nothing to restore';
+  END IF;
+
+  v_snapshot_id := create_backup_snapshot(v_tables, 'Before restore', p_source_name);
+
+  -- Split the upserts into new and existing rows before anything changes
+  FOREACH v_table IN ARRAY v_tables LOOP
+    SELECT c INTO v_change FROM jsonb_array_elements(p_changes) c WHERE c->>'table' = v_table LIMIT 1;
+
+    v_upsert_ids := ARRAY(SELECT (r->>'id')::uuid FROM jsonb_array_elements(COALESCE(v_change->'upsert', '[]'::jsonb)) r);
+    EXECUTE format('SELECT COALESCE(array_agg(id), ''{}'') FROM %I WHERE id = ANY($1)', v_table)
+      INTO v_existing USING v_upsert_ids;
+
+    v_restored := v_restored || jsonb_build_object(v_table, jsonb_build_object(
+      'inserted', to_jsonb(ARRAY(SELECT unnest(v_upsert_ids) EXCEPT SELECT unnest(v_existing))),
+      'updated', to_jsonb(v_existing),
+      'deleted', COALESCE(v_change->'delete', '[]'::jsonb)
+    ));
+  END LOOP;
+
+  PERFORM set_config('app.package_status_override', 'on', true);
+  PERFORM set_config('app.restore_in_progress', 'on', true);
+  PERFORM set_config('app.package_status_reason', 'Restored from backup', true);
+
+  -- Children first when deleting, parents first when writing
+  FOR v_table IN
+    SELECT t FROM unnest(v_tables) t
+    ORDER BY array_position(restorable_tables(), t) DESC
+  LOOP
+    v_delete_ids := ARRAY(SELECT jsonb_array_elements_text(v_restored->v_table->'deleted')::uuid);
+
+    v_cascade := v_cascade || COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('table', cascade_table, 'depth', cascade_depth, 'row', cascade_row))
+      FROM restore_cascade_rows(v_table, v_delete_ids)
+    ), '[]'::jsonb);
+
+    EXECUTE format('DELETE FROM %I WHERE id = ANY($1)', v_table) USING v_delete_ids;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    v_summary := v_summary || jsonb_build_object(v_table, jsonb_build_object('deleted', v_count));
+  END LOOP;
+
+  FOREACH v_table IN ARRAY v_tables LOOP
+    SELECT c INTO v_change FROM jsonb_array_elements(p_changes) c WHERE c->>'table' = v_table LIMIT 1;
+
+    v_count := restore_upsert_rows(v_table, v_change->'upsert');
+    v_summary := jsonb_set(v_summary, ARRAY[v_table, 'upserted'], to_jsonb(v_count));
+  END LOOP;
+
+  PERFORM set_config('app.package_status_override', '', true);
+  PERFORM set_config('app.restore_in_progress', '', true);
+  PERFORM set_config('app.package_status_reason', '', true);
+
+  -- The rows as this restore left them, so undo can tell whether they were changed since
+  FOREACH v_table IN ARRAY v_tables LOOP
+    EXECUTE format('SELECT COALESCE(jsonb_agg(to_jsonb(t)), ''[]''::jsonb) FROM %I t WHERE t.id = ANY($1)', v_table)
+      INTO v_rows
+      USING ARRAY(
+        SELECT jsonb_array_elements_text((v_restored->v_table->'inserted') || (v_restored->v_table->'updated'))::uuid
+      );
+
+    v_restored := jsonb_set(v_restored, ARRAY[v_table, 'rows'], v_rows);
+  END LOOP;
+
+  -- One entry per table, ordered by the longest cascade path so parents are re-inserted first;
+  -- a row reached through several foreign keys is merged
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('table', t, 'rows', rows) ORDER BY depth), '[]'::jsonb)
+  INTO v_cascaded
+  FROM (
+    SELECT t, max(depth) AS depth, jsonb_agg(merged) AS rows
+    FROM (
+      SELECT c->>'table' AS t, max((c->>'depth')::integer) AS depth, jsonb_object_agg(f.key, f.value) AS merged
+      FROM jsonb_array_elements(v_cascade) c, jsonb_each(c->'row') f
+      GROUP BY c->>'table', c->'row'->>'id'
+    ) per_row
+    GROUP BY t
+  ) per_table;
+
+  UPDATE backup_snapshots
+  SET restored = v_restored, cascaded = v_cascaded, undoable = true
+  WHERE id = v_snapshot_id;
+
+  RETURN jsonb_build_object(
+    'snapshot_id', v_snapshot_id,
+    'tables', v_summary,
+    'cascaded', COALESCE(
+      (SELECT jsonb_object_agg(e->>'table', jsonb_array_length(e->'rows')) FROM jsonb_array_elements(v_cascaded) e),
+      '{}'::jsonb
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION undo_restore(p_snapshot_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_snapshot backup_snapshots;
+  v_table text;
+  v_entry jsonb;
+  v_count integer;
+  v_changed integer := 0;
+  v_dependents text;
+  v_new_snapshot_id uuid;
+BEGIN
+  PERFORM assert_restore_admin();
+
+  SELECT * INTO v_snapshot FROM backup_snapshots WHERE id = p_snapshot_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Snapshot % not found', p_snapshot_id;
+  END IF;
+
+  IF v_snapshot.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This restore was already undone on %', v_snapshot.undone_at;
+  END IF;
+
+  IF NOT v_snapshot.undoable OR v_snapshot.restored IS NULL THEN
+    RAISE EXCEPTION 'This snapshot does not record what was restored and cannot be undone; download it and restore the rows you need instead';
+  END IF;
+
+  -- Rows written by the restore must still be as it left them
+  FOREACH v_table IN ARRAY v_snapshot.tables LOOP
+    EXECUTE format(
+      'SELECT count(*) FROM jsonb_array_elements($1) r
+       LEFT JOIN %I t ON t.id = (r->>''id'')::uuid
+       WHERE t.id IS NULL
+       OR EXISTS (SELECT 1 FROM jsonb_each(r) f WHERE to_jsonb(t)->f.key IS DISTINCT FROM f.value)',
+      v_table
+    ) INTO v_count USING COALESCE(v_snapshot.restored->v_table->'rows', '[]'::jsonb);
+
+    v_changed := v_changed + v_count;
+  END LOOP;
+
+  IF v_changed > 0 THEN
+    RAISE EXCEPTION '% row(s) written by this restore were changed or removed since; undoing it would overwrite those changes', v_changed;
+  END IF;
+
+  -- Rows created since must not depend on rows the restore inserted
+  SELECT string_agg(format('%s %s', n, t), ', ')
+  INTO v_dependents
+  FROM (
+    SELECT c.cascade_table AS t, count(DISTINCT c.cascade_row->>'id') AS n
+    FROM unnest(v_snapshot.tables) tbl,
+    LATERAL restore_cascade_rows(
+      tbl,
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_snapshot.restored->tbl->'inserted', '[]'::jsonb))::uuid)
+    ) c
+    WHERE NOT COALESCE(v_snapshot.restored->c.cascade_table->'inserted', '[]'::jsonb) ? (c.cascade_row->>'id')
+    GROUP BY c.cascade_table
+  ) dependents;
+
+  IF v_dependents IS NOT NULL THEN
+    RAISE EXCEPTION 'Rows added since the restore depend on rows it created (%); undoing it would delete or detach them', v_dependents;
+  END IF;
+
+  v_new_snapshot_id := create_backup_snapshot(v_snapshot.tables, 'Before undoing restore', v_snapshot.source_name);
+
+  PERFORM set_config('app.package_status_override', 'on', true);
+  PERFORM set_config('app.restore_in_progress', 'on', true);
+  PERFORM set_config('app.package_status_reason', 'Restore undone', true);
+
+  -- Remove only the rows the restore inserted, children first
+  FOR v_table IN
+    SELECT t FROM unnest(v_snapshot.tables) t
+    ORDER BY array_position(restorable_tables(), t) DESC
+  LOOP
+    EXECUTE format('DELETE FROM %I WHERE id = ANY($1)', v_table)
+      USING ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_snapshot.restored->v_table->'inserted', '[]'::jsonb))::uuid);
+  END LOOP;
+
+  -- Put back the rows it updated or deleted, parents first
+  FOR v_table IN
+    SELECT t FROM unnest(v_snapshot.tables) t
+    ORDER BY array_position(restorable_tables(), t)
+  LOOP
+    PERFORM restore_upsert_rows(v_table, (
+      SELECT COALESCE(jsonb_agg(r), '[]'::jsonb)
+      FROM jsonb_array_elements(COALESCE(v_snapshot.data->v_table, '[]'::jsonb)) r
+      WHERE ((v_snapshot.restored->v_table->'updated') || (v_snapshot.restored->v_table->'deleted')) ? (r->>'id')
+    ));
+  END LOOP;
+
+  -- Then the rows its deletes cascaded to
+  FOR v_entry IN SELECT e FROM jsonb_array_elements(v_snapshot.cascaded) e LOOP
+    PERFORM restore_upsert_rows(v_entry->>'table', v_entry->'rows');
+  END LOOP;
+
+  PERFORM set_config('app.package_status_override', '', true);
+  PERFORM set_config('app.restore_in_progress', '', true);
+  PERFORM set_config('app.package_status_reason', '', true);
+
+  UPDATE backup_snapshots
+  SET undone_at = now(), undone_by = auth.uid()
+  WHERE id = p_snapshot_id;
+
+  RETURN jsonb_build_object('snapshot_id', v_new_snapshot_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION restore_cascade_rows FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION restore_cascade_rows IS 'Rows in other tables that deleting the given ids would delete (whole row) or detach (id and column), following ON DELETE CASCADE';
+COMMENT ON FUNCTION apply_restore IS 'Applies the deletes and upserts chosen in the restore wizard in one transaction, after snapshotting the affected tables and the rows the deletes cascade to';
+COMMENT ON FUNCTION undo_restore IS 'Reverts exactly the rows a restore inserted, updated, deleted or cascaded to; refuses if they were changed since';
@@ -0,0 +1,91 @@
+/*
+  # Fix Audit Report Content
+
+  ## Overview
+  `audit_report_content` hashed rows of the `audit_trail` view, which joins live data into
+  each entry: the shipment's current title and row number, the actor's current email and the
+  package's current SSCC. Renaming a shipment or changing a user's email therefore made
+  `verify_audit_report` report a changed log although no log entry was touched. Timestamps
+  were also rendered in the session timezone, so the same entries could hash differently.
+
+  Report content is now built only from columns stored in `entity_audit_log`,
+  `shipment_audit_log` and `deviation_history`, with timestamps rendered in UTC.
+
+  ## Changed Functions
+  - `audit_report_content(p_from, p_to)` - One object per entry with `log` (source table),
+    `id`, `entity_type`, `entity_id`, `action`, `actor_id`, `changed_at`, `old_data`,
+    `new_data` and `summary`; entity log entries also carry their stored `entity_label`,
+    `actor_email` and `changes`
+
+  ## Security
+  - No change: the function stays internal to `create_audit_report` and `verify_audit_report`
+
+  ## Important Notes
+  - Reports created before this migration were hashed over the old content, so their
+    `log_unchanged` check fails; their signature and file checks are unaffected
+*/
+
+CREATE OR REPLACE FUNCTION audit_report_content(p_from timestamptz, p_to timestamptz)
+RETURNS text AS $$
+  SELECT COALESCE(jsonb_agg(e.entry ORDER BY e.changed_at, e.id), '[]'::jsonb)::text
+  FROM (
+    SELECT eal.id, eal.changed_at, jsonb_build_object(
+      'log', 'entity_audit_log',
+      'id', eal.id,
+      'entity_type', eal.entity_type,
+      'entity_id', eal.entity_id,
+      'entity_label', eal.entity_label,
+      'action', eal.action,
+      'actor_id', eal.actor_id,
+      'actor_email', eal.actor_email,
+      'changed_at', eal.changed_at,
+      'old_data', eal.old_data,
+      'new_data', eal.new_data,
+      'changes', eal.changes,
+      'summary', eal.summary
+    ) AS entry
+    FROM entity_audit_log eal
+    WHERE eal.changed_at >= p_from
+    AND eal.changed_at < p_to
+
+    UNION ALL
+
+    SELECT sal.id, sal.action_timestamp, jsonb_build_object(
+      'log', 'shipment_audit_log',
+      'id', sal.id,
+      'entity_type', 'shipments',
+      'entity_id', sal.shipment_id,
+      'action', sal.action_type,
+      'actor_id', sal.action_by,
+      'changed_at', sal.action_timestamp,
+      'old_data', sal.previous_data,
+      'new_data', sal.new_data,
+      'summary', sal.changes_summary
+    )
+    FROM shipment_audit_log sal
+    WHERE sal.action_timestamp >= p_from
+    AND sal.action_timestamp < p_to
+
+    UNION ALL
+
+    SELECT dh.id, dh.created_at, jsonb_build_object(
+      'log', 'deviation_history',
+      'id', dh.id,
+      'entity_type', 'package_deviations',
+      'entity_id', dh.deviation_id,
+      'action', dh.action_type,
+      'actor_id', dh.action_by,
+      'changed_at', dh.created_at,
+      'old_data', dh.previous_value,
+      'new_data', dh.new_value,
+      'summary', dh.comment
+    )
+    FROM deviation_history dh
+    WHERE dh.created_at >= p_from
+    AND dh.created_at < p_to
+  ) e;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET TimeZone TO 'UTC';
+
+REVOKE EXECUTE ON FUNCTION audit_report_content(timestamptz, timestamptz) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION create_audit_report IS 'Admin only. Hashes and signs the stored entries of entity_audit_log, shipment_audit_log and deviation_history in [p_from, p_to); returns the report record and the exact entries JSON that was hashed';
@@ -0,0 +1,42 @@
+/*
+  # Restore Categories, Deviations, Status History and KPI Tables
+
+  ## Overview
+  Backups hold task categories, package deviations, package status history and announcements,
+  but the wizard could not restore them, and the KPI weight sets, work shifts and work sessions
+  added since were not restorable either. All of them are now restorable.
+
+  ## Changed Functions
+  - `restorable_tables()` - Now `import_batches`, `operators`, `task_categories`,
+    `work_shifts`, `kpi_weight_sets`, `shipments`, `packages`, `package_status_history`,
+    `package_deviations`, `shipment_work_sessions`, `announcements`, `notification_settings`
+
+  ## Security
+  - No change: restore functions remain limited to admins
+
+  ## Important Notes
+  - The audit logs (`shipment_audit_log`, `deviation_history`, `entity_audit_log`) stay
+    backup-only: they are append-only, and the first two are hash-chained, so restored rows
+    could not be written back as they were
+  - Restoring a changed deviation is recorded in `deviation_history` by its update trigger,
+    like any other edit
+*/
+
+CREATE OR REPLACE FUNCTION restorable_tables()
+RETURNS text[] AS $$
+  -- Dependency order: parents before children
+  SELECT ARRAY[
+    'import_batches',
+    'operators',
+    'task_categories',
+    'work_shifts',
+    'kpi_weight_sets',
+    'shipments',
+    'packages',
+    'package_status_history',
+    'package_deviations',
+    'shipment_work_sessions',
+    'announcements',
+    'notification_settings'
+  ];
+$$ LANGUAGE sql IMMUTABLE;
@@ -0,0 +1,49 @@
+/*
+  # Pick KPI Weight Sets by Warehouse Day
+
+  ## Overview
+  `kpi_weight_set_for` compared a weight set's effective-from date with
+  `p_completed_at::date`, which is the completion day in the session timezone (UTC for
+  API requests). Tasks completed shortly after midnight warehouse time were therefore scored
+  with the weight set of the previous day. The completion day is now taken in the warehouse
+  timezone, like the KPI periods and shift filters.
+
+  ## Changed Functions
+  - `kpi_weight_set_for(version, completed_at)` - Compares `effective_from` with
+    `(completed_at AT TIME ZONE warehouse_timezone())::date`
+
+  ## Security
+  - No change
+
+  ## Important Notes
+  - Only tasks completed within the warehouse UTC offset of midnight on a weight set's
+    effective-from date change score
+*/
+
+CREATE OR REPLACE FUNCTION kpi_weight_set_for(p_version integer, p_completed_at timestamptz)
+RETURNS kpi_weight_sets AS $$
+DECLARE
+  v_weight_set kpi_weight_sets;
+BEGIN
+  IF p_version IS NOT NULL THEN
+    SELECT * INTO v_weight_set FROM kpi_weight_sets WHERE version = p_version;
+    RETURN v_weight_set;
+  END IF;
+
+  SELECT * INTO v_weight_set
+  FROM kpi_weight_sets
+  WHERE effective_from <= (p_completed_at AT TIME ZONE warehouse_timezone())::date
+  ORDER BY effective_from DESC, version DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    -- Tasks completed before the first weight set took effect use the earliest one
+    SELECT * INTO v_weight_set
+    FROM kpi_weight_sets
+    ORDER BY effective_from, version
+    LIMIT 1;
+  END IF;
+
+  RETURN v_weight_set;
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,216 @@
+/*
+  # Case-Insensitive SSCC Matching in Bulk Import
+
+  ## Overview
+  `bulk_import_packages` treated SSCCs case-insensitively within a batch but compared them
+  case-sensitively with existing packages. An incoming row whose SSCC differed from a stored
+  package only in letter case was imported as a second package, and a delivery row in a
+  different case failed with "Package not found in stored packages". Both lookups now compare
+  `upper(sscc_number) = upper(v_sscc)`.
+
+  ## Changed Functions
+  - `bulk_import_packages(p_batch_id, p_import_type, p_rows, p_source_name)` - Existing
+    and stored package lookups ignore letter case
+
+  ## New Indexes
+  - `idx_packages_sscc_number_upper` on `packages (upper(sscc_number))` for the per-row lookups
+
+  ## Security
+  - No change: the function remains admin only
+
+  ## Important Notes
+  - New rows keep the SSCC as written in the file
+*/
+
+CREATE INDEX IF NOT EXISTS idx_packages_sscc_number_upper ON packages (upper(sscc_number));
+
+CREATE OR REPLACE FUNCTION bulk_import_packages(
+  p_batch_id uuid,
+  p_import_type text,
+  p_rows jsonb,
+  p_source_name text DEFAULT ''
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_batch import_batches;
+  v_row jsonb;
+  v_sscc text;
+  v_start timestamptz;
+  v_next_row_id integer;
+  v_shipment_id uuid;
+  v_package_id uuid;
+  v_previous_status text;
+  v_status text;
+  v_message text;
+  v_seen text[] := ARRAY[]::text[];
+  v_results jsonb := '[]'::jsonb;
+  v_created integer := 0;
+  v_skipped integer := 0;
+  v_failed integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = v_user_id
+    AND role IN ('admin', 'super_admin')
+  ) THEN
+    RAISE EXCEPTION 'Permission denied: only admins can import packages';
+  END IF;
+
+  IF p_import_type NOT IN ('incoming', 'delivered') THEN
+    RAISE EXCEPTION 'Unknown import type %', p_import_type;
+  END IF;
+
+  -- Serialise imports: row_id allocation and SSCC checks must not interleave
+  PERFORM pg_advisory_xact_lock(hashtext('bulk_import_packages'));
+
+  INSERT INTO import_batches (id, import_type, source_name, row_count, created_by)
+  VALUES (p_batch_id, p_import_type, COALESCE(p_source_name, ''), jsonb_array_length(p_rows), v_user_id)
+  ON CONFLICT (id) DO NOTHING;
+
+  -- The batch was already submitted: return its result instead of importing twice
+  IF NOT FOUND THEN
+    SELECT * INTO v_batch FROM import_batches WHERE id = p_batch_id;
+    RETURN jsonb_build_object(
+      'batch_id', v_batch.id,
+      'replayed', true,
+      'status', v_batch.status,
+      'created', v_batch.created_count,
+      'skipped', v_batch.skipped_count,
+      'failed', v_batch.failed_count,
+      'results', v_batch.results
+    );
+  END IF;
+
+  SELECT COALESCE(MAX(row_id), 0) + 1 INTO v_next_row_id FROM shipments;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows) LOOP
+    v_sscc := trim(COALESCE(v_row->>'sscc', ''));
+    v_shipment_id := NULL;
+    v_package_id := NULL;
+    v_previous_status := NULL;
+    v_status := 'created';
+    v_message := '';
+
+    BEGIN
+      v_start := COALESCE(NULLIF(v_row->>'start', '')::timestamptz, now());
+
+      IF v_sscc = '' THEN
+        v_status := 'failed';
+        v_message := 'Missing package ID';
+      ELSIF upper(v_sscc) = ANY(v_seen) THEN
+        v_status := 'skipped';
+        v_message := 'Duplicate SSCC in this batch';
+      ELSIF p_import_type = 'incoming' THEN
+        IF EXISTS (SELECT 1 FROM packages WHERE upper(sscc_number) = upper(v_sscc)) THEN
+          v_status := 'skipped';
+          v_message := 'SSCC already exists';
+        ELSE
+          INSERT INTO shipments (
+            row_id, title, sscc_numbers, storage_location, start, status, shipment_type,
+            created_by, completed_by, completed_at, notes, archived, import_batch_id
+          ) VALUES (
+            v_next_row_id, COALESCE(NULLIF(v_row->>'title', ''), 'Import: ' || v_sscc), v_sscc,
+            COALESCE(v_row->>'storage_location', ''), v_start, 'completed', 'incoming',
+            v_user_id, v_user_id, v_start, COALESCE(v_row->>'notes', ''), false, p_batch_id
+          )
+          RETURNING id INTO v_shipment_id;
+
+          INSERT INTO packages (
+            shipment_id, sscc_number, storage_location, status, dwell_limit_days,
+            created_at, updated_at, import_batch_id
+          ) VALUES (
+            v_shipment_id, v_sscc, COALESCE(v_row->>'storage_location', ''), 'stored',
+            NULLIF(v_row->>'dwell_limit_days', '')::integer, v_start, v_start, p_batch_id
+          )
+          RETURNING id INTO v_package_id;
+
+          v_next_row_id := v_next_row_id + 1;
+        END IF;
+      ELSE
+        SELECT id, status INTO v_package_id, v_previous_status
+        FROM packages
+        WHERE upper(sscc_number) = upper(v_sscc)
+        AND status = 'stored'
+        ORDER BY created_at DESC
+        LIMIT 1
+        FOR UPDATE;
+
+        IF v_package_id IS NULL THEN
+          v_status := 'failed';
+          v_message := 'Package not found in stored packages';
+        ELSE
+          INSERT INTO shipments (
+            row_id, title, sscc_numbers, storage_location, start, status, shipment_type,
+            created_by, completed_by, completed_at, notes, archived, import_batch_id
+          ) VALUES (
+            v_next_row_id, COALESCE(NULLIF(v_row->>'title', ''), 'Delivery: ' || v_sscc), v_sscc,
+            COALESCE(v_row->>'storage_location', ''), v_start, 'completed', 'outgoing',
+            v_user_id, v_user_id, v_start, COALESCE(v_row->>'notes', ''), false, p_batch_id
+          )
+          RETURNING id INTO v_shipment_id;
+
+          -- Walk the stored package through picked and loaded to delivered
+          PERFORM transition_package_status(
+            v_package_id,
+            'delivered',
+            'Imported delivery "' || COALESCE(NULLIF(v_row->>'title', ''), 'Delivery: ' || v_sscc) || '"',
+            NULL,
+            true
+          );
+
+          UPDATE packages SET updated_at = v_start WHERE id = v_package_id;
+
+          v_next_row_id := v_next_row_id + 1;
+        END IF;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      -- Only this row's savepoint is rolled back
+      v_status := 'failed';
+      v_message := SQLERRM;
+      v_shipment_id := NULL;
+      v_package_id := NULL;
+      v_previous_status := NULL;
+    END;
+
+    IF v_sscc <> '' AND v_status <> 'failed' THEN
+      v_seen := array_append(v_seen, upper(v_sscc));
+    END IF;
+
+    IF v_status = 'created' THEN
+      v_created := v_created + 1;
+    ELSIF v_status = 'skipped' THEN
+      v_skipped := v_skipped + 1;
+    ELSE
+      v_failed := v_failed + 1;
+    END IF;
+
+    v_results := v_results || jsonb_build_array(jsonb_build_object(
+      'row_number', (v_row->>'row_number')::integer,
+      'sscc', v_sscc,
+      'status', v_status,
+      'message', v_message,
+      'shipment_id', v_shipment_id,
+      'package_id', v_package_id,
+      'previous_status', v_previous_status
+    ));
+  END LOOP;
+
+  UPDATE import_batches
+  SET created_count = v_created,
+      skipped_count = v_skipped,
+      failed_count = v_failed,
+      results = v_results
+  WHERE id = p_batch_id;
+
+  RETURN jsonb_build_object(
+    'batch_id', p_batch_id,
+    'replayed', false,
+    'status', 'completed',
+    'created', v_created,
+    'skipped', v_skipped,
+    'failed', v_failed,
+    'results', v_results
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
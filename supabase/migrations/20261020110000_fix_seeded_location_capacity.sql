@@ -0,0 +1,32 @@
+/*
+  # Seed Location Capacity from Current Occupancy
+
+  ## Overview
+  The storage location registry registered every location already used by a package with
+  the default capacity of 10. Bays that already held more packages were reported as over
+  capacity from day one, and the capacity check refused every further package put there
+  until an admin raised the number by hand. Locations registered from package data now get
+  a capacity of at least the number of packages stored there, i.e.
+  `GREATEST(10, current count)`.
+
+  ## Changed Data
+  - `storage_locations.capacity` - Raised to the current occupancy for locations registered
+    from existing package data that hold more than their capacity
+
+  ## Security
+  - No change
+
+  ## Important Notes
+  - Only locations whose notes still read "Registered from existing package data" are
+    touched, and capacity is only ever raised, so values set by an admin are kept
+  - Occupancy is counted like `storage_location_occupancy`: packages that are stored, in
+    quarantine or on deviation hold
+*/
+
+UPDATE storage_locations l
+SET capacity = o.occupied,
+    updated_at = now()
+FROM storage_location_occupancy o
+WHERE o.id = l.id
+AND l.notes = 'Registered from existing package data'
+AND o.occupied > l.capacity;
@@ -0,0 +1,130 @@
+import { readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+
+// Runs the latest bulk_import_packages against an in-memory Postgres with cut-down versions of
+// the tables it touches. Only incoming imports are exercised, so the package lifecycle
+// functions deliveries call are not needed.
+const MIGRATIONS = ["20261020100000_fix_bulk_import_all_or_nothing.sql"];
+
+const SCHEMA = `
+  CREATE ROLE anon;
+  CREATE ROLE authenticated;
+
+  CREATE SCHEMA auth;
+  CREATE TABLE auth.users (id uuid PRIMARY KEY);
+  CREATE FUNCTION auth.uid() RETURNS uuid AS $$
+    SELECT NULLIF(current_setting('request.jwt.claim.sub', true), '')::uuid;
+  $$ LANGUAGE sql STABLE;
+
+  CREATE TABLE user_profiles (
+    id uuid PRIMARY KEY REFERENCES auth.users(id),
+    role text NOT NULL
+  );
+
+  CREATE TABLE import_batches (
+    id uuid PRIMARY KEY,
+    import_type text NOT NULL,
+    source_name text DEFAULT '',
+    status text NOT NULL DEFAULT 'completed',
+    row_count integer NOT NULL DEFAULT 0,
+    created_count integer NOT NULL DEFAULT 0,
+    skipped_count integer NOT NULL DEFAULT 0,
+    failed_count integer NOT NULL DEFAULT 0,
+    results jsonb NOT NULL DEFAULT '[]'::jsonb,
+    created_by uuid
+  );
+
+  CREATE TABLE shipments (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    row_id integer NOT NULL,
+    title text NOT NULL,
+    sscc_numbers text,
+    storage_location text,
+    start timestamptz,
+    status text,
+    shipment_type text,
+    created_by uuid,
+    completed_by uuid,
+    completed_at timestamptz,
+    notes text,
+    archived boolean,
+    import_batch_id uuid REFERENCES import_batches(id) ON DELETE SET NULL
+  );
+
+  CREATE TABLE packages (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    shipment_id uuid NOT NULL REFERENCES shipments(id) ON DELETE CASCADE,
+    sscc_number text NOT NULL,
+    storage_location text,
+    status text NOT NULL,
+    dwell_limit_days integer,
+    created_at timestamptz,
+    updated_at timestamptz,
+    import_batch_id uuid REFERENCES import_batches(id) ON DELETE SET NULL
+  );
+`;
+
+const ADMIN = "00000000-0000-0000-0000-00000000000a";
+const FAILED_BATCH = "00000000-0000-0000-0000-0000000000b1";
+const BATCH = "00000000-0000-0000-0000-0000000000b2";
+
+function migration(name: string): string {
+  return readFileSync(fileURLToPath(new URL(`../migrations/${name}`, import.meta.url)), "utf8");
+}
+
+describe("bulk_import_packages", () => {
+  let db: PGlite;
+
+  const importRows = (batchId: string, rows: Record<string, unknown>[]) =>
+    db.query<{ result: { created: number; skipped: number; failed: number } }>(
+      "SELECT bulk_import_packages($1, 'incoming', $2::jsonb, 'import.csv') AS result",
+      [batchId, JSON.stringify(rows)],
+    );
+
+  const count = async (table: string) =>
+    (await db.query<{ count: number }>(`SELECT count(*)::integer AS count FROM ${table}`)).rows[0].count;
+
+  beforeAll(async () => {
+    db = new PGlite();
+    await db.exec(SCHEMA);
+    for (const name of MIGRATIONS) {
+      await db.exec(migration(name));
+    }
+
+    await db.exec(`
+      INSERT INTO auth.users VALUES ('${ADMIN}');
+      INSERT INTO user_profiles VALUES ('${ADMIN}', 'admin');
+      SELECT set_config('request.jwt.claim.sub', '${ADMIN}', false);
+    `);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it("writes nothing when one row fails", async () => {
+    await expect(importRows(FAILED_BATCH, [
+      { row_number: 2, sscc: "SSCC1" },
+      { row_number: 3, sscc: "SSCC2", dwell_limit_days: "ten" },
+    ])).rejects.toThrow(/^Row 3 \(SSCC2\): .*\. Nothing was imported$/);
+
+    expect(await count("import_batches")).toBe(0);
+    expect(await count("shipments")).toBe(0);
+    expect(await count("packages")).toBe(0);
+  });
+
+  it("imports the batch when every row is created or skipped", async () => {
+    const { rows } = await importRows(BATCH, [
+      { row_number: 2, sscc: "SSCC1" },
+      { row_number: 3, sscc: "sscc1" },
+      { row_number: 4, sscc: "SSCC2", dwell_limit_days: "10" },
+    ]);
+
+    expect(rows[0].result).toMatchObject({ created: 2, skipped: 1, failed: 0 });
+    expect(await count("shipments")).toBe(2);
+    expect((await db.query("SELECT status, failed_count FROM import_batches")).rows)
+      .toEqual([{ status: "completed", failed_count: 0 }]);
+  });
+});
@@ -0,0 +1,141 @@
+import { readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+
+// Runs the restore migrations against an in-memory Postgres with cut-down versions of the
+// tables they touch. The auth schema stands in for Supabase's: auth.uid() reads the JWT
+// subject set with set_config.
+const MIGRATIONS = [
+  "20261019160000_create_restore_snapshots.sql",
+  "20261020040000_fix_restore_cascades_and_undo.sql",
+  "20261020060000_restore_more_tables.sql",
+  "20261020090000_fix_undo_detached_rows.sql",
+];
+
+const SCHEMA = `
+  CREATE ROLE anon;
+  CREATE ROLE authenticated;
+
+  CREATE SCHEMA auth;
+  CREATE TABLE auth.users (id uuid PRIMARY KEY);
+  CREATE FUNCTION auth.uid() RETURNS uuid AS $$
+    SELECT NULLIF(current_setting('request.jwt.claim.sub', true), '')::uuid;
+  $$ LANGUAGE sql STABLE;
+
+  CREATE TABLE user_profiles (
+    id uuid PRIMARY KEY REFERENCES auth.users(id),
+    role text NOT NULL
+  );
+
+  -- Only needed as a type by the storage location trigger the first migration replaces
+  CREATE TABLE storage_locations (
+    id uuid PRIMARY KEY,
+    code text NOT NULL,
+    blocked boolean NOT NULL DEFAULT false,
+    active boolean NOT NULL DEFAULT true
+  );
+
+  CREATE TABLE import_batches (
+    id uuid PRIMARY KEY,
+    import_type text NOT NULL
+  );
+
+  CREATE TABLE shipments (
+    id uuid PRIMARY KEY,
+    row_id integer NOT NULL,
+    title text NOT NULL,
+    import_batch_id uuid REFERENCES import_batches(id) ON DELETE SET NULL
+  );
+
+  CREATE TABLE packages (
+    id uuid PRIMARY KEY,
+    shipment_id uuid NOT NULL REFERENCES shipments(id) ON DELETE CASCADE,
+    sscc_number text NOT NULL
+  );
+
+  CREATE TABLE package_status_history (
+    id uuid PRIMARY KEY,
+    package_id uuid NOT NULL REFERENCES packages(id) ON DELETE CASCADE,
+    shipment_id uuid REFERENCES shipments(id) ON DELETE SET NULL,
+    to_status text NOT NULL
+  );
+`;
+
+const ADMIN = "00000000-0000-0000-0000-00000000000a";
+const BATCH = "00000000-0000-0000-0000-0000000000b1";
+const IMPORTED = "00000000-0000-0000-0000-0000000000c1";
+const KEPT = "00000000-0000-0000-0000-0000000000c2";
+const IMPORTED_PACKAGE = "00000000-0000-0000-0000-0000000000d1";
+const MOVED_PACKAGE = "00000000-0000-0000-0000-0000000000d2";
+const IMPORTED_HISTORY = "00000000-0000-0000-0000-0000000000e1";
+const MOVED_HISTORY = "00000000-0000-0000-0000-0000000000e2";
+
+function migration(name: string): string {
+  return readFileSync(fileURLToPath(new URL(`../migrations/${name}`, import.meta.url)), "utf8");
+}
+
+describe("undo_restore", () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = new PGlite();
+    await db.exec(SCHEMA);
+    for (const name of MIGRATIONS) {
+      await db.exec(migration(name));
+    }
+
+    await db.exec(`
+      INSERT INTO auth.users VALUES ('${ADMIN}');
+      INSERT INTO user_profiles VALUES ('${ADMIN}', 'admin');
+      SELECT set_config('request.jwt.claim.sub', '${ADMIN}', false);
+
+      INSERT INTO import_batches VALUES ('${BATCH}', 'incoming');
+      INSERT INTO shipments VALUES
+        ('${IMPORTED}', 1, 'Imported', '${BATCH}'),
+        ('${KEPT}', 2, 'Kept', '${BATCH}');
+      INSERT INTO packages VALUES
+        ('${IMPORTED_PACKAGE}', '${IMPORTED}', 'SSCC1'),
+        ('${MOVED_PACKAGE}', '${KEPT}', 'SSCC2');
+      INSERT INTO package_status_history VALUES
+        ('${IMPORTED_HISTORY}', '${IMPORTED_PACKAGE}', '${IMPORTED}', 'expected'),
+        ('${MOVED_HISTORY}', '${MOVED_PACKAGE}', '${IMPORTED}', 'stored');
+    `);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it("re-attaches rows that a restore detached through ON DELETE SET NULL", async () => {
+    const changes = [
+      { table: "import_batches", upsert: [], delete: [BATCH] },
+      { table: "shipments", upsert: [], delete: [IMPORTED] },
+    ];
+    const applied = await db.query<{ result: { snapshot_id: string; cascaded: Record<string, number> } }>(
+      "SELECT apply_restore($1::jsonb, 'backup.zip') AS result",
+      [JSON.stringify(changes)],
+    );
+    const { snapshot_id: snapshotId, cascaded } = applied.rows[0].result;
+
+    expect(cascaded).toEqual({ shipments: 1, packages: 1, package_status_history: 2 });
+    expect((await db.query("SELECT import_batch_id FROM shipments WHERE id = $1", [KEPT])).rows)
+      .toEqual([{ import_batch_id: null }]);
+    expect((await db.query("SELECT shipment_id FROM package_status_history WHERE id = $1", [MOVED_HISTORY])).rows)
+      .toEqual([{ shipment_id: null }]);
+
+    await db.query("SELECT undo_restore($1)", [snapshotId]);
+
+    expect((await db.query("SELECT id, row_id, import_batch_id FROM shipments ORDER BY row_id")).rows).toEqual([
+      { id: IMPORTED, row_id: 1, import_batch_id: BATCH },
+      { id: KEPT, row_id: 2, import_batch_id: BATCH },
+    ]);
+    expect((await db.query("SELECT id FROM packages ORDER BY sscc_number")).rows)
+      .toEqual([{ id: IMPORTED_PACKAGE }, { id: MOVED_PACKAGE }]);
+    expect((await db.query("SELECT id, package_id, shipment_id, to_status FROM package_status_history ORDER BY id")).rows)
+      .toEqual([
+        { id: IMPORTED_HISTORY, package_id: IMPORTED_PACKAGE, shipment_id: IMPORTED, to_status: "expected" },
+        { id: MOVED_HISTORY, package_id: MOVED_PACKAGE, shipment_id: IMPORTED, to_status: "stored" },
+      ]);
+  });
+});